@@ -5,6 +5,7 @@
 
 import React from 'react';
 import type { StampAnnotation } from '../../types/annotation';
+import { stampColor, stampLabel } from '../../core/stamps/stampAppearance';
 
 interface StampAnnotationViewProps {
   annotation: StampAnnotation;
@@ -38,15 +39,6 @@ export function StampAnnotationView({
   const handleMouseEnter = () => onHover?.(annotation.id);
   const handleMouseLeave = () => onHoverEnd?.(annotation.id);
 
-  const getStampColor = (stampType: string) => {
-    switch (stampType) {
-      case 'approved': return '#28a745';
-      case 'rejected': return '#dc3545';
-      case 'pending': return '#ffc107';
-      default: return '#6c757d';
-    }
-  };
-
   return (
     <div
       style={{
@@ -59,7 +51,7 @@ export function StampAnnotationView({
         backgroundColor: isHovered 
           ? 'rgba(255, 255, 0, 0.5)' 
           : annotation.style.fill || 'transparent',
-        stroke: annotation.style.stroke || getStampColor(annotation.stampType),
+        stroke: stampColor(annotation),
         strokeWidth: annotation.style.strokeWidth || 2,
         pointerEvents: 'auto',
         cursor: 'pointer',
@@ -69,7 +61,7 @@ export function StampAnnotationView({
         borderRadius: '4px',
         fontSize: '12px',
         fontWeight: 'bold',
-        color: getStampColor(annotation.stampType)
+        color: stampColor(annotation)
       }}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
@@ -77,7 +69,7 @@ export function StampAnnotationView({
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
-      {annotation.stampType.toUpperCase()}
+      {stampLabel(annotation)}
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { Annotation } from "../model/types";
+import {
+  annotationBounds,
+  annotationContainsPoint,
+  isRotatable,
+  normalizeAngle,
+  resizeRotatedBBox,
+  rotatePoint,
+  rotatedBounds,
+  rotatedCorners,
+  rotationMatrixYUp,
+  snapAngle,
+} from "./annotationRotation";
+
+const base = { pageId: "p1", createdAt: 0, modifiedAt: 0, style: {} };
+const bbox = { x: 0, y: 0, width: 100, height: 50 };
+
+function rect(rotation?: number): Annotation {
+  return { ...base, id: "r1", type: "rectangle", bbox, rotation } as Annotation;
+}
+
+function close(actual: { x: number; y: number }, expected: { x: number; y: number }) {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+}
+
+describe("annotationRotation", () => {
+  it("normalizes and snaps angles to 15° steps", () => {
+    expect(normalizeAngle(-90)).toBe(270);
+    expect(normalizeAngle(720)).toBe(0);
+    expect(snapAngle(37)).toBe(30);
+    expect(snapAngle(38)).toBe(45);
+    expect(snapAngle(-7)).toBe(0);
+    expect(snapAngle(353)).toBe(0);
+  });
+
+  it("rotates clockwise in page coordinates", () => {
+    close(rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, 90), { x: 0, y: 10 });
+    const corners = rotatedCorners(bbox, 90);
+    close(corners[0], { x: 75, y: -25 });
+    close(corners[2], { x: 25, y: 75 });
+  });
+
+  it("uses the rotated outline for bounds and hit-testing", () => {
+    const bounds = rotatedBounds(bbox, 90);
+    expect(bounds.x).toBeCloseTo(25);
+    expect(bounds.y).toBeCloseTo(-25);
+    expect(bounds.width).toBeCloseTo(50);
+    expect(bounds.height).toBeCloseTo(100);
+    expect(annotationBounds(rect())).toEqual(bbox);
+
+    // 90° 회전: 원래 오른쪽 끝은 아래로
+    expect(annotationContainsPoint(rect(90), { x: 50, y: 70 })).toBe(true);
+    expect(annotationContainsPoint(rect(90), { x: 90, y: 25 })).toBe(false);
+    expect(annotationContainsPoint(rect(), { x: 90, y: 25 })).toBe(true);
+  });
+
+  it("only rotates box-based annotations", () => {
+    expect(isRotatable(rect())).toBe(true);
+    expect(isRotatable({ ...base, id: "l", type: "line", bbox } as unknown as Annotation)).toBe(false);
+    expect(isRotatable({ ...base, id: "h", type: "highlight", bbox, quads: [bbox] } as unknown as Annotation)).toBe(false);
+    // 회전할 수 없는 주석의 rotation은 무시
+    expect(annotationBounds({ ...base, id: "f", type: "freehand", bbox, points: [], rotation: 45 } as unknown as Annotation)).toEqual(bbox);
+  });
+
+  it("keeps the opposite corner in place when resizing a rotated box", () => {
+    // 오른쪽 아래 핸들로 키우면 왼쪽 위 꼭짓점이 화면에서 고정
+    const before = rotatedCorners(bbox, 30)[0];
+    const next = resizeRotatedBBox(bbox, { x: 0, y: 0, width: 140, height: 80 }, 30);
+    close(rotatedCorners(next, 30)[0], before);
+    expect(next.width).toBe(140);
+
+    // 왼쪽 위 핸들로 줄이면 오른쪽 아래 꼭짓점이 고정
+    const anchor = rotatedCorners(bbox, 30)[2];
+    const shrunk = resizeRotatedBBox(bbox, { x: 20, y: 10, width: 80, height: 40 }, 30);
+    close(rotatedCorners(shrunk, 30)[2], anchor);
+
+    expect(resizeRotatedBBox(bbox, { x: 5, y: 5, width: 95, height: 45 }, 0)).toEqual({ x: 5, y: 5, width: 95, height: 45 });
+  });
+
+  it("builds a y-up rotation matrix about the box center", () => {
+    const [a, b, c, d, e, f] = rotationMatrixYUp(bbox, 90, 200);
+    const apply = (x: number, y: number) => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+    // 중심 (50, 175)은 그대로, 오른쪽 끝 중앙은 화면 아래(= y-up에서 작은 y)로
+    close(apply(50, 175), { x: 50, y: 175 });
+    close(apply(100, 175), { x: 50, y: 125 });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Annotation Rotation - 상자형 주석 회전 계산
+ *
+ * rotation은 bbox 중심을 기준으로 한 시계 방향 각도(도)이고, bbox는 회전 전 상자다.
+ * 화면(AnnotationLayer, ResizeHandles), 선택/정렬(AnnotationManager, AnnotationStore),
+ * 내보내기(Canvas/SVG/PDF)가 같은 계산을 쓴다. 좌표는 편집 좌표계(좌상단 원점, y-down) 기준이다.
+ */
+
+import type { Annotation, BBox, Point } from '../model/types';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Shift 드래그 시 회전 각도 단위 */
+export const ROTATION_SNAP_STEP = 15;
+
+/** 점/선/자유곡선/텍스트 선택 기반 주석과 댓글 아이콘은 회전하지 않음 */
+const NON_ROTATABLE_TYPES = new Set([
+  'arrow',
+  'line',
+  'freehand',
+  'highlighter',
+  'underline',
+  'squiggly',
+  'strikeout',
+  'redaction',
+  'ocr',
+  'comment',
+]);
+
+// ============================================
+// Angles
+// ============================================
+
+/** 0 이상 360 미만으로 정규화 */
+export function normalizeAngle(degrees: number): number {
+  const angle = ((degrees % 360) + 360) % 360;
+  // 부동소수 오차로 360에 붙은 값
+  return Math.abs(angle - 360) < 1e-9 ? 0 : angle;
+}
+
+export function snapAngle(degrees: number, step = ROTATION_SNAP_STEP): number {
+  return normalizeAngle(Math.round(degrees / step) * step);
+}
+
+/** 회전 각도 (없으면 0) */
+export function annotationRotation(annotation: Annotation): number {
+  return normalizeAngle(annotation.rotation ?? 0);
+}
+
+/** 회전 핸들을 표시할 수 있는 주석인지 (텍스트 선택 하이라이트 제외) */
+export function isRotatable(annotation: Annotation): boolean {
+  if (NON_ROTATABLE_TYPES.has(annotation.type)) return false;
+  if (annotation.type === 'highlight' && annotation.quads?.length) return false;
+  return true;
+}
+
+/** 실제로 회전이 적용되는 주석인지 */
+export function isRotated(annotation: Annotation): boolean {
+  return isRotatable(annotation) && annotationRotation(annotation) !== 0;
+}
+
+// ============================================
+// Geometry
+// ============================================
+
+export function bboxCenter(bbox: BBox): Point {
+  return { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 };
+}
+
+/** center를 기준으로 시계 방향 회전 (y-down) */
+export function rotatePoint(point: Point, center: Point, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+}
+
+/** 회전된 상자의 네 꼭짓점 (좌상, 우상, 우하, 좌하) */
+export function rotatedCorners(bbox: BBox, degrees: number): Point[] {
+  const center = bboxCenter(bbox);
+  return [
+    { x: bbox.x, y: bbox.y },
+    { x: bbox.x + bbox.width, y: bbox.y },
+    { x: bbox.x + bbox.width, y: bbox.y + bbox.height },
+    { x: bbox.x, y: bbox.y + bbox.height },
+  ].map((p) => rotatePoint(p, center, degrees));
+}
+
+/** 회전된 상자를 감싸는 축 정렬 사각형 */
+export function rotatedBounds(bbox: BBox, degrees: number): BBox {
+  if (normalizeAngle(degrees) === 0) return { ...bbox };
+  const corners = rotatedCorners(bbox, degrees);
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** 화면에 보이는 영역 (선택 사각형, 정렬/분배, 그룹 윤곽선 기준) */
+export function annotationBounds(annotation: Annotation): BBox {
+  return isRotated(annotation)
+    ? rotatedBounds(annotation.bbox, annotationRotation(annotation))
+    : annotation.bbox;
+}
+
+/** 점이 회전된 주석 상자 안에 있는지 */
+export function annotationContainsPoint(annotation: Annotation, point: Point): boolean {
+  const { bbox } = annotation;
+  const local = isRotated(annotation)
+    ? rotatePoint(point, bboxCenter(bbox), -annotationRotation(annotation))
+    : point;
+  return (
+    local.x >= bbox.x &&
+    local.x <= bbox.x + bbox.width &&
+    local.y >= bbox.y &&
+    local.y <= bbox.y + bbox.height
+  );
+}
+
+/**
+ * 회전된 상자의 크기 조절
+ *
+ * next는 회전을 무시하고 계산한 새 상자(주석 자체 축 기준)다.
+ * 반대편 모서리/변이 화면에서 제자리에 있도록 위치를 다시 계산한다.
+ */
+export function resizeRotatedBBox(previous: BBox, next: BBox, degrees: number): BBox {
+  if (normalizeAngle(degrees) === 0) return next;
+  // 회전 전 좌표의 중심 이동량 → 회전 후 좌표로
+  const shift = rotatePoint(
+    {
+      x: next.x + next.width / 2 - (previous.x + previous.width / 2),
+      y: next.y + next.height / 2 - (previous.y + previous.height / 2),
+    },
+    { x: 0, y: 0 },
+    degrees
+  );
+  const center = bboxCenter(previous);
+  return {
+    x: center.x + shift.x - next.width / 2,
+    y: center.y + shift.y - next.height / 2,
+    width: next.width,
+    height: next.height,
+  };
+}
+
+// ============================================
+// Export Transforms
+// ============================================
+
+/**
+ * 편집 좌표(y-up, 좌하단 원점) 기준 회전 행렬 [a b c d e f]
+ * PDF 내용 스트림의 cm 연산자용. y축이 뒤집히므로 각도 부호가 반대가 된다.
+ */
+export function rotationMatrixYUp(
+  bbox: BBox,
+  degrees: number,
+  pageHeight: number
+): [number, number, number, number, number, number] {
+  const rad = (-degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const cx = bbox.x + bbox.width / 2;
+  const cy = pageHeight - (bbox.y + bbox.height / 2);
+  return [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+}
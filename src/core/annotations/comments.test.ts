@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { Annotation, Page } from "../model/types";
+import type { CommentAnnotation } from "../../types/annotation";
+import {
+  COMMENT_ICON_SIZE,
+  collectComments,
+  commentAuthors,
+  commentsToCsv,
+  commentsToMarkdown,
+  createComment,
+  findCommentAnchor,
+  matchesCommentFilter,
+  placeComment,
+} from "./comments";
+
+const rect = (id: string, x: number, y: number, extra: Partial<Annotation> = {}): Annotation => ({
+  id,
+  type: "rectangle",
+  pageId: "p1",
+  bbox: { x, y, width: 100, height: 50 },
+  style: { fill: "none", stroke: "#000", strokeWidth: 1 },
+  createdAt: 0,
+  modifiedAt: 0,
+  ...extra,
+} as Annotation);
+
+function comment(id: string, extra: Partial<CommentAnnotation> = {}): CommentAnnotation {
+  return {
+    ...createComment("p1", { x: 10, y: 10 }),
+    id,
+    thread: [
+      { id: `${id}-1`, author: "Alice", text: "Please check", createdAt: Date.UTC(2026, 9, 19, 9, 30) },
+      { id: `${id}-2`, author: "Bob", text: "Done", createdAt: Date.UTC(2026, 9, 19, 10, 0) },
+    ],
+    ...extra,
+  };
+}
+
+const page = (id: string, deleted = false) => ({ id, deleted } as Page);
+
+describe("comments", () => {
+  it("places anchored comments on the anchor's top-right corner and keeps orphans in place", () => {
+    const anchor = rect("r1", 100, 200);
+    const created = { ...createComment("p1", { x: 0, y: 0 }, { anchor }), id: "c1" };
+    const expected = { x: 200 - COMMENT_ICON_SIZE / 2, y: 200 - COMMENT_ICON_SIZE / 2 };
+    expect(created.bbox).toMatchObject(expected);
+    expect(created.anchorId).toBe("r1");
+
+    const moved = rect("r1", 300, 50);
+    expect(placeComment(created, [moved]).bbox).toMatchObject({ x: 400 - COMMENT_ICON_SIZE / 2, y: 50 - COMMENT_ICON_SIZE / 2 });
+    // 붙은 주석이 지워지면 마지막 위치
+    expect(placeComment(created, [])).toBe(created);
+  });
+
+  it("anchors to the front-most visible annotation under the point", () => {
+    const back = rect("back", 0, 0);
+    const front = rect("front", 50, 0);
+    const hidden = rect("hidden", 60, 0, { hidden: true });
+    const annotations = [back, front, hidden, comment("c1")];
+    expect(findCommentAnchor(annotations, { x: 70, y: 20 })?.id).toBe("front");
+    expect(findCommentAnchor(annotations, { x: 20, y: 20 })?.id).toBe("back");
+    expect(findCommentAnchor(annotations, { x: 500, y: 500 })).toBeUndefined();
+  });
+
+  it("filters by any thread author, status and page", () => {
+    const open = comment("c1");
+    const resolved = comment("c2", { status: "resolved", pageId: "p2", thread: [] });
+    expect(commentAuthors([open, resolved])).toEqual(["Alice", "Bob"]);
+
+    const all = { author: null, status: null, pageId: null };
+    expect(matchesCommentFilter(open, { ...all, author: "Bob" })).toBe(true);
+    expect(matchesCommentFilter(resolved, { ...all, author: "Bob" })).toBe(false);
+    expect(matchesCommentFilter(open, { ...all, status: "resolved" })).toBe(false);
+    expect(matchesCommentFilter(resolved, { ...all, status: "resolved", pageId: "p2" })).toBe(true);
+  });
+
+  it("collects comments in page order and skips deleted pages", () => {
+    const lower = comment("c-low", { bbox: { x: 0, y: 300, width: 24, height: 24 } });
+    const upper = comment("c-up", { bbox: { x: 0, y: 100, width: 24, height: 24 } });
+    const onPage3 = comment("c3", { pageId: "p3" });
+    const onDeleted = comment("c-del", { pageId: "p2" });
+    const entries = collectComments(
+      [page("p1"), page("p2", true), page("p3")],
+      [onPage3, lower, onDeleted, upper]
+    );
+    expect(entries.map((e) => [e.comment.id, e.pageNumber])).toEqual([["c-up", 1], ["c-low", 1], ["c3", 2]]);
+  });
+
+  it("writes one CSV row per message with quoting and formula guarding", () => {
+    const entry = {
+      comment: comment("c1", {
+        thread: [{ id: "m1", author: "Alice", text: "=SUM(A1), \"quoted\"", createdAt: Date.UTC(2026, 9, 19) }],
+      }),
+      pageNumber: 2,
+      anchor: rect("r1", 0, 0, { name: "Logo" }),
+    };
+    expect(commentsToCsv([entry]).split("\r\n")).toEqual([
+      "page,comment,status,anchor,reply,author,created,text",
+      "2,c1,open,Logo,0,Alice,2026-10-19T00:00:00.000Z,\"'=SUM(A1), \"\"quoted\"\"\"",
+      "",
+    ]);
+  });
+
+  it("writes a markdown checklist per page with replies nested", () => {
+    const markdown = commentsToMarkdown(
+      [
+        { comment: comment("c1"), pageNumber: 1, anchor: rect("r1", 0, 0) },
+        { comment: comment("c2", { status: "resolved", thread: [] }), pageNumber: 3 },
+      ],
+      "contract.pdf"
+    );
+    expect(markdown).toBe([
+      "# Review summary: contract.pdf",
+      "",
+      "2 comments, 1 open, 1 resolved",
+      "",
+      "## Page 1",
+      "",
+      "- [ ] **Alice** (2026-10-19 09:30 UTC) on _rectangle_: Please check",
+      "  - **Bob** (2026-10-19 10:00 UTC): Done",
+      "",
+      "## Page 3",
+      "",
+      "- [x] _(empty)_",
+      "",
+    ].join("\n"));
+  });
+});
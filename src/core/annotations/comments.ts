@@ -0,0 +1,241 @@
+/**
+ * Comments - 검토 댓글 배치, 필터, 요약 내보내기
+ *
+ * 댓글(CommentAnnotation)은 페이지의 한 점이나 다른 주석에 붙는 스티커 메모이고,
+ * thread[0]이 본문, 나머지가 답글이다. 요약은 CSV(한 글당 한 행)와 Markdown으로 만든다.
+ */
+
+import type { Annotation, BBox, Page, Point } from '../model/types';
+import type { CommentAnnotation, CommentMessage, CommentStatus } from '../../types/annotation';
+import { annotationBounds, annotationContainsPoint } from './annotationRotation';
+
+// ============================================
+// Constants
+// ============================================
+
+/** 아이콘 크기 (편집 좌표) */
+export const COMMENT_ICON_SIZE = 24;
+
+export const DEFAULT_COMMENT_COLOR = '#F59E0B';
+
+// ============================================
+// Types
+// ============================================
+
+/** null은 전체 */
+export interface CommentFilter {
+  author: string | null;
+  status: CommentStatus | null;
+  pageId: string | null;
+}
+
+export const EMPTY_COMMENT_FILTER: CommentFilter = { author: null, status: null, pageId: null };
+
+export interface CommentEntry {
+  comment: CommentAnnotation;
+  /** 삭제되지 않은 페이지 기준 1부터 */
+  pageNumber: number;
+  /** 붙은 주석 (없거나 지워졌으면 undefined) */
+  anchor?: Annotation;
+}
+
+// ============================================
+// Creation
+// ============================================
+
+function generateMessageId(): string {
+  return `comment-msg-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createCommentMessage(author: string, text: string, now = Date.now()): CommentMessage {
+  return { id: generateMessageId(), author, text, createdAt: now };
+}
+
+/** 다른 주석에 붙은 댓글 아이콘 위치 - 주석 오른쪽 위 모서리에 아이콘 중심 */
+export function anchoredCommentBox(anchorBounds: BBox): BBox {
+  return {
+    x: anchorBounds.x + anchorBounds.width - COMMENT_ICON_SIZE / 2,
+    y: anchorBounds.y - COMMENT_ICON_SIZE / 2,
+    width: COMMENT_ICON_SIZE,
+    height: COMMENT_ICON_SIZE,
+  };
+}
+
+/**
+ * 새 댓글 (본문이 비어 있으면 스레드도 비어 있음 - 댓글 패널에서 작성)
+ * @param point 아이콘 왼쪽 위 (anchor가 있으면 무시)
+ */
+export function createComment(
+  pageId: string,
+  point: Point,
+  options: { anchor?: Annotation; author?: string; text?: string; color?: string } = {}
+): Omit<CommentAnnotation, 'id'> {
+  const now = Date.now();
+  const { anchor, author = '', text = '' } = options;
+  return {
+    type: 'comment',
+    pageId,
+    bbox: anchor
+      ? anchoredCommentBox(annotationBounds(anchor))
+      : { x: point.x, y: point.y, width: COMMENT_ICON_SIZE, height: COMMENT_ICON_SIZE },
+    anchorId: anchor?.id,
+    status: 'open',
+    thread: text ? [createCommentMessage(author, text, now)] : [],
+    style: { color: options.color ?? DEFAULT_COMMENT_COLOR },
+    createdAt: now,
+    modifiedAt: now,
+  };
+}
+
+// ============================================
+// Placement
+// ============================================
+
+/**
+ * 붙은 주석 위치로 옮긴 댓글 (붙은 주석이 없으면 원래 객체)
+ * @param annotations 같은 페이지의 주석
+ */
+export function placeComment(comment: CommentAnnotation, annotations: Annotation[]): CommentAnnotation {
+  if (!comment.anchorId) return comment;
+  const anchor = annotations.find((a) => a.id === comment.anchorId && a.pageId === comment.pageId);
+  if (!anchor) return comment;
+  return { ...comment, bbox: anchoredCommentBox(annotationBounds(anchor)) };
+}
+
+/**
+ * 점 위의 가장 앞쪽 주석 (댓글/숨긴 주석 제외) - 댓글 도구로 클릭한 대상
+ * @param annotations 한 페이지의 주석 (뒤 → 앞 순서)
+ */
+export function findCommentAnchor(annotations: Annotation[], point: Point): Annotation | undefined {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    if (annotation.type === 'comment' || annotation.hidden) continue;
+    if (annotationContainsPoint(annotation, point)) return annotation;
+  }
+  return undefined;
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+/** 스레드에 글을 쓴 사람 (이름순, 중복 제외) */
+export function commentAuthors(comments: CommentAnnotation[]): string[] {
+  const authors = new Set<string>();
+  for (const comment of comments) {
+    for (const message of comment.thread) authors.add(message.author);
+  }
+  return [...authors].sort((a, b) => a.localeCompare(b));
+}
+
+/** 작성자 필터는 스레드에 그 사람의 글이 하나라도 있으면 통과 */
+export function matchesCommentFilter(comment: CommentAnnotation, filter: CommentFilter): boolean {
+  if (filter.status && comment.status !== filter.status) return false;
+  if (filter.pageId && comment.pageId !== filter.pageId) return false;
+  if (filter.author !== null && !comment.thread.some((m) => m.author === filter.author)) return false;
+  return true;
+}
+
+/**
+ * 문서의 댓글 (페이지 순서, 페이지 안에서는 위 → 아래, 왼쪽 → 오른쪽)
+ * 삭제된 페이지의 댓글은 제외한다.
+ */
+export function collectComments(pages: Page[], annotations: Annotation[]): CommentEntry[] {
+  const entries: CommentEntry[] = [];
+  pages.filter((p) => !p.deleted).forEach((page, index) => {
+    const pageAnnotations = annotations.filter((a) => a.pageId === page.id);
+    const comments = pageAnnotations
+      .filter((a): a is CommentAnnotation => a.type === 'comment')
+      .map((c) => placeComment(c, pageAnnotations))
+      .sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x);
+    for (const comment of comments) {
+      const anchor = comment.anchorId ? pageAnnotations.find((a) => a.id === comment.anchorId) : undefined;
+      entries.push({ comment, pageNumber: index + 1, anchor });
+    }
+  });
+  return entries;
+}
+
+// ============================================
+// Summary Export
+// ============================================
+
+/** 요약에 쓰는 붙은 주석 이름 (레이어 이름이 없으면 종류) */
+function anchorLabel(entry: CommentEntry): string {
+  return entry.anchor ? entry.anchor.name || entry.anchor.type : '';
+}
+
+/** ISO 8601 (UTC, 분 단위) */
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+/** CSV 필드 (스프레드시트가 수식으로 해석하지 않도록 =,+,-,@ 앞에 ' 추가) */
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV 요약 - 글 하나당 한 행 (reply 0이 본문)
+ * 열: page, comment, status, anchor, reply, author, created, text
+ */
+export function commentsToCsv(entries: CommentEntry[]): string {
+  const rows: (string | number)[][] = [['page', 'comment', 'status', 'anchor', 'reply', 'author', 'created', 'text']];
+  for (const entry of entries) {
+    const { comment } = entry;
+    comment.thread.forEach((message, index) => {
+      rows.push([
+        entry.pageNumber,
+        comment.id,
+        comment.status,
+        anchorLabel(entry),
+        index,
+        message.author,
+        new Date(message.createdAt).toISOString(),
+        message.text,
+      ]);
+    });
+  }
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** 여러 줄 글을 목록 항목 안에 들여쓰기 */
+function indentLines(text: string, indent: string): string {
+  return text.split(/\r?\n/).join(`\n${indent}`);
+}
+
+/**
+ * Markdown 요약 - 페이지별 체크리스트 (해결된 댓글은 [x]), 답글은 하위 항목
+ */
+export function commentsToMarkdown(entries: CommentEntry[], title: string): string {
+  const resolved = entries.filter((e) => e.comment.status === 'resolved').length;
+  const lines = [
+    `# Review summary: ${title}`,
+    '',
+    `${entries.length} comments, ${entries.length - resolved} open, ${resolved} resolved`,
+  ];
+
+  let pageNumber = 0;
+  for (const entry of entries) {
+    if (entry.pageNumber !== pageNumber) {
+      pageNumber = entry.pageNumber;
+      lines.push('', `## Page ${pageNumber}`, '');
+    }
+    const { comment } = entry;
+    const [first, ...replies] = comment.thread;
+    const check = comment.status === 'resolved' ? '[x]' : '[ ]';
+    const anchor = anchorLabel(entry);
+    const on = anchor ? ` on _${anchor}_` : '';
+    if (!first) {
+      lines.push(`- ${check} _(empty)_${on}`);
+      continue;
+    }
+    lines.push(`- ${check} **${first.author || 'Anonymous'}** (${formatDate(first.createdAt)})${on}: ${indentLines(first.text, '  ')}`);
+    for (const reply of replies) {
+      lines.push(`  - **${reply.author || 'Anonymous'}** (${formatDate(reply.createdAt)}): ${indentLines(reply.text, '    ')}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { Annotation } from "../model/types";
+import { buildLayerTree, defaultLayerName, dropTargetId, moveLayers } from "./layerTree";
+
+const base = { pageId: "p1", createdAt: 0, modifiedAt: 0, style: {}, bbox: { x: 0, y: 0, width: 10, height: 10 } };
+
+function rect(id: string, extra: Partial<Annotation> = {}): Annotation {
+  return { ...base, id, type: "rectangle", ...extra } as Annotation;
+}
+
+describe("layerTree", () => {
+  it("lists front-most layers first and folds groups at their front-most member", () => {
+    const tree = buildLayerTree([
+      rect("a"),
+      rect("b", { groupId: "g" }),
+      rect("c"),
+      rect("d", { groupId: "g" }),
+    ]);
+
+    expect(tree.map((n) => n.id)).toEqual(["group:g", "c", "a"]);
+    const group = tree[0];
+    expect(group.kind === "group" && group.children.map((a) => a.id)).toEqual(["d", "b"]);
+  });
+
+  it("names unnamed layers by type and back-to-front index", () => {
+    const annotations = [rect("a"), rect("b", { name: "Logo" }), rect("c")];
+    expect(defaultLayerName(annotations, annotations[0], "사각형")).toBe("사각형 1");
+    expect(defaultLayerName(annotations, annotations[1], "사각형")).toBe("Logo");
+    expect(defaultLayerName(annotations, annotations[2], "사각형")).toBe("사각형 3");
+  });
+
+  it("moves layers in front of or behind a target", () => {
+    const order = ["a", "b", "c", "d"];
+    expect(moveLayers(order, ["a"], "c", "above")).toEqual(["b", "c", "a", "d"]);
+    expect(moveLayers(order, ["d"], "b", "below")).toEqual(["a", "d", "b", "c"]);
+    expect(moveLayers(order, ["a", "c"], "d", "above")).toEqual(["b", "d", "a", "c"]);
+    expect(moveLayers(order, ["b"], "b", "above")).toBe(order);
+  });
+
+  it("drops around a group at its outermost members", () => {
+    const [group] = buildLayerTree([rect("a", { groupId: "g" }), rect("b", { groupId: "g" })]);
+    expect(dropTargetId(group, "above")).toBe("b");
+    expect(dropTargetId(group, "below")).toBe("a");
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Layer Tree - 페이지 주석의 레이어 목록 계산
+ *
+ * AnnotationStore.annotations의 배열 순서가 곧 그리는 순서(뒤 → 앞)다.
+ * 레이어 패널은 앞쪽 객체를 위에 보여주고, 같은 groupId의 주석은 하나의 그룹 노드로 묶는다.
+ * 그룹 노드는 가장 앞에 있는 멤버의 위치에 놓인다.
+ */
+
+import type { Annotation } from '../model/types';
+
+// ============================================
+// Types
+// ============================================
+
+export type LayerNode =
+  | { kind: 'annotation'; id: string; annotation: Annotation }
+  /** children은 앞쪽 멤버부터 */
+  | { kind: 'group'; id: string; groupId: string; children: Annotation[] };
+
+/** 놓을 위치 - 'above'는 대상보다 앞(패널에서 위) */
+export type LayerDropPosition = 'above' | 'below';
+
+// ============================================
+// Tree
+// ============================================
+
+/**
+ * 레이어 트리 (앞쪽 노드부터)
+ * @param annotations 한 페이지의 주석 (뒤 → 앞 순서)
+ */
+export function buildLayerTree(annotations: Annotation[]): LayerNode[] {
+  const nodes: LayerNode[] = [];
+  const groups = new Map<string, Extract<LayerNode, { kind: 'group' }>>();
+
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    if (!annotation.groupId) {
+      nodes.push({ kind: 'annotation', id: annotation.id, annotation });
+      continue;
+    }
+
+    const group = groups.get(annotation.groupId);
+    if (group) {
+      group.children.push(annotation);
+    } else {
+      const node = { kind: 'group' as const, id: `group:${annotation.groupId}`, groupId: annotation.groupId, children: [annotation] };
+      groups.set(annotation.groupId, node);
+      nodes.push(node);
+    }
+  }
+
+  return nodes;
+}
+
+/** 노드에 속한 주석 id (앞쪽부터) */
+export function layerNodeIds(node: LayerNode): string[] {
+  return node.kind === 'group' ? node.children.map((a) => a.id) : [node.id];
+}
+
+/** 이름이 없으면 종류 + 같은 종류 안의 순번 (뒤쪽부터 1) */
+export function defaultLayerName(annotations: Annotation[], annotation: Annotation, typeLabel: string): string {
+  if (annotation.name) return annotation.name;
+  const sameType = annotations.filter((a) => a.type === annotation.type);
+  return `${typeLabel} ${sameType.findIndex((a) => a.id === annotation.id) + 1}`;
+}
+
+// ============================================
+// Reorder
+// ============================================
+
+/**
+ * 레이어 이동
+ *
+ * movingIds를 원래 상대 순서대로 빼서 targetId의 앞('above') 또는 뒤('below')에 넣는다.
+ * @param order 뒤 → 앞 순서의 주석 id
+ * @returns 새 순서 (대상이 이동 대상에 포함되면 원래 순서)
+ */
+export function moveLayers(
+  order: string[],
+  movingIds: string[],
+  targetId: string,
+  position: LayerDropPosition
+): string[] {
+  const moving = new Set(movingIds);
+  if (moving.has(targetId) || !order.includes(targetId)) return order;
+
+  const rest = order.filter((id) => !moving.has(id));
+  const moved = order.filter((id) => moving.has(id));
+  const index = rest.indexOf(targetId) + (position === 'above' ? 1 : 0);
+  return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+}
+
+/**
+ * 트리 노드 위/아래에 놓을 때의 기준 주석
+ * 그룹 위로는 가장 앞 멤버의 앞, 그룹 아래로는 가장 뒤 멤버의 뒤에 놓는다.
+ */
+export function dropTargetId(node: LayerNode, position: LayerDropPosition): string {
+  const ids = layerNodeIds(node);
+  return position === 'above' ? ids[0] : ids[ids.length - 1];
+}
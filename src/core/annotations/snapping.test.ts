@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { SnapTargets } from "./snapping";
+import { snapMove, snapPoint, snapResize, unionBounds } from "./snapping";
+
+function targets(overrides: Partial<SnapTargets> = {}): SnapTargets {
+  return { page: { width: 600, height: 800 }, objects: [], guides: [], gridSize: null, threshold: 5, ...overrides };
+}
+
+describe("snapping", () => {
+  it("snaps edges and centres to the page and reports guide lines", () => {
+    // 중앙 300 - 가로 중앙이 298
+    const result = snapMove({ x: 248, y: 3, width: 100, height: 50 }, targets());
+    expect(result.dx).toBe(2);
+    expect(result.dy).toBe(-3);
+    expect(result.lines).toContainEqual({ axis: "x", position: 300, start: 0, end: 800 });
+    expect(result.lines).toContainEqual({ axis: "y", position: 0, start: 0, end: 600 });
+  });
+
+  it("prefers the nearest of object, guide and grid targets", () => {
+    const t = targets({
+      page: null,
+      objects: [{ x: 100, y: 200, width: 50, height: 50 }],
+      guides: [{ id: "g1", axis: "x", position: 412 }],
+      gridSize: 10,
+    });
+    // 오른쪽 변 149 → 객체 오른쪽 150
+    expect(snapMove({ x: 99 - 50, y: 400, width: 100, height: 20 }, t).dx).toBe(1);
+    // 왼쪽 변 411 → 안내선 412
+    expect(snapMove({ x: 411, y: 400, width: 33, height: 20 }, t).dx).toBe(1);
+    // 격자만 가까움
+    expect(snapMove({ x: 302, y: 400, width: 30, height: 20 }, t).dx).toBe(-2);
+    // Nothing within threshold
+    expect(snapMove({ x: 505, y: 400, width: 30, height: 20 }, t).dx).toBe(0);
+  });
+
+  it("snaps to equal spacing between neighbours", () => {
+    const t = targets({
+      page: null,
+      objects: [
+        { x: 0, y: 0, width: 100, height: 40 },
+        { x: 300, y: 0, width: 100, height: 40 },
+      ],
+    });
+    // 가운데 자리 150 (간격 50) 근처
+    const between = snapMove({ x: 152, y: 100, width: 100, height: 40 }, t);
+    expect(between.dx).toBe(0);
+
+    const inRow = snapMove({ x: 152, y: 0, width: 100, height: 40 }, t);
+    expect(inRow.dx).toBe(-2);
+    expect(inRow.spacing).toEqual([
+      { axis: "x", start: 100, end: 150, cross: 20 },
+      { axis: "x", start: 250, end: 300, cross: 20 },
+    ]);
+
+    // 앞쪽 두 객체 간격(200) 이어가기
+    const chained = snapMove({ x: 597, y: 0, width: 50, height: 40 }, t);
+    expect(chained.dx).toBe(3);
+    expect(chained.spacing).toHaveLength(2);
+  });
+
+  it("moves only the dragged edge when resizing", () => {
+    const t = targets({ objects: [{ x: 200, y: 0, width: 10, height: 40 }] });
+    const right = snapResize({ x: 50, y: 50, width: 147, height: 40 }, { x: "end" }, t);
+    expect(right.bbox).toEqual({ x: 50, y: 50, width: 150, height: 40 });
+
+    const top = snapResize({ x: 50, y: 4, width: 100, height: 40 }, { y: "start" }, t);
+    expect(top.bbox).toEqual({ x: 50, y: 0, width: 100, height: 44 });
+  });
+
+  it("snaps draw points and merges boxes", () => {
+    const { point, lines } = snapPoint({ x: 597, y: 401 }, targets());
+    expect(point).toEqual({ x: 600, y: 400 });
+    expect(lines).toHaveLength(2);
+
+    expect(unionBounds([])).toBeNull();
+    expect(unionBounds([
+      { x: 0, y: 10, width: 10, height: 10 },
+      { x: 20, y: 0, width: 5, height: 5 },
+    ])).toEqual({ x: 0, y: 0, width: 25, height: 20 });
+  });
+});
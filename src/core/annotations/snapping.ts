@@ -0,0 +1,329 @@
+/**
+ * Snapping - 이동/크기 조절/그리기 시 격자, 페이지, 안내선, 다른 주석에 붙이기
+ *
+ * 좌표는 편집 좌표계(좌상단 원점, y-down)다. 축마다 가장 가까운 대상 하나에 붙고,
+ * 붙은 위치와 정확히 맞는 모든 대상을 스마트 가이드(정렬선)로 돌려준다.
+ * 이동 시에는 좌우/상하 이웃과의 간격이 같아지는 위치도 대상이 된다.
+ */
+
+import type { BBox, PageGuide, Point } from '../model/types';
+
+// ============================================
+// Constants
+// ============================================
+
+/** 붙는 거리 (화면 px) - 편집 좌표로는 scale로 나눠 쓴다 */
+export const SNAP_THRESHOLD_PX = 6;
+
+/** 같은 위치로 볼 오차 */
+const EPSILON = 0.5;
+
+// ============================================
+// Types
+// ============================================
+
+export type SnapAxis = 'x' | 'y';
+
+/** 정렬선 - axis 'x'는 x = position인 세로선, start/end는 y 범위 */
+export interface SnapLine {
+  axis: SnapAxis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+/** 같은 간격 표시 - axis 방향 빈 공간 [start, end]를 cross 위치에 그린다 */
+export interface SpacingMark {
+  axis: SnapAxis;
+  start: number;
+  end: number;
+  cross: number;
+}
+
+export interface SnapTargets {
+  /** 페이지 크기 (null이면 페이지 가장자리/중앙에 붙지 않음) */
+  page: { width: number; height: number } | null;
+  /** 다른 주석의 보이는 영역 */
+  objects: BBox[];
+  guides: PageGuide[];
+  /** 격자 간격 (null이면 격자에 붙지 않음) */
+  gridSize: number | null;
+  /** 붙는 거리 (편집 좌표) */
+  threshold: number;
+}
+
+export interface SnapMoveResult {
+  dx: number;
+  dy: number;
+  lines: SnapLine[];
+  spacing: SpacingMark[];
+}
+
+/** 크기 조절 중 움직이는 변 - 'start'는 왼쪽/위, 'end'는 오른쪽/아래 */
+export interface ResizeEdges {
+  x?: 'start' | 'end';
+  y?: 'start' | 'end';
+}
+
+interface AxisTarget {
+  value: number;
+  /** 교차 축 범위 (정렬선 길이 계산용) */
+  start: number;
+  end: number;
+}
+
+interface Candidate {
+  offset: number;
+  spacing?: Omit<SpacingMark, 'cross'>[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function span(bbox: BBox, axis: SnapAxis): [number, number] {
+  return axis === 'x' ? [bbox.x, bbox.x + bbox.width] : [bbox.y, bbox.y + bbox.height];
+}
+
+function crossAxis(axis: SnapAxis): SnapAxis {
+  return axis === 'x' ? 'y' : 'x';
+}
+
+function shift(bbox: BBox, axis: SnapAxis, offset: number): BBox {
+  return axis === 'x' ? { ...bbox, x: bbox.x + offset } : { ...bbox, y: bbox.y + offset };
+}
+
+/** 여러 상자를 감싸는 사각형 */
+export function unionBounds(boxes: BBox[]): BBox | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function axisTargets(axis: SnapAxis, targets: SnapTargets): AxisTarget[] {
+  const list: AxisTarget[] = [];
+  const cross = crossAxis(axis);
+
+  if (targets.page) {
+    const size = axis === 'x' ? targets.page.width : targets.page.height;
+    const crossSize = axis === 'x' ? targets.page.height : targets.page.width;
+    for (const value of [0, size / 2, size]) list.push({ value, start: 0, end: crossSize });
+  }
+
+  for (const guide of targets.guides) {
+    if (guide.axis !== axis) continue;
+    // 안내선은 페이지 전체를 가로지름
+    const crossSize = targets.page ? (axis === 'x' ? targets.page.height : targets.page.width) : 0;
+    list.push({ value: guide.position, start: 0, end: crossSize });
+  }
+
+  for (const object of targets.objects) {
+    const [lo, hi] = span(object, axis);
+    const [start, end] = span(object, cross);
+    list.push({ value: lo, start, end }, { value: (lo + hi) / 2, start, end }, { value: hi, start, end });
+  }
+
+  return list;
+}
+
+/** sources 중 하나를 가장 가까운 대상에 붙이는 이동량 */
+function nearestCandidate(sources: number[], axis: SnapAxis, targets: SnapTargets): Candidate | null {
+  let best: Candidate | null = null;
+  const consider = (candidate: Candidate) => {
+    if (Math.abs(candidate.offset) > targets.threshold) return;
+    if (!best || Math.abs(candidate.offset) < Math.abs(best.offset)) best = candidate;
+  };
+
+  for (const target of axisTargets(axis, targets)) {
+    for (const source of sources) consider({ offset: target.value - source });
+  }
+
+  // 같은 거리면 격자보다 객체/페이지/안내선 우선
+  const grid = targets.gridSize;
+  if (grid && grid > 0) {
+    for (const source of sources) consider({ offset: Math.round(source / grid) * grid - source });
+  }
+
+  return best;
+}
+
+/**
+ * 같은 간격 후보
+ * 교차 축으로 겹치는 이웃 사이의 가운데, 또는 이웃끼리의 간격을 이어가는 위치
+ */
+function spacingCandidates(bounds: BBox, axis: SnapAxis, targets: SnapTargets): Candidate[] {
+  const cross = crossAxis(axis);
+  const [crossStart, crossEnd] = span(bounds, cross);
+  const [lo, hi] = span(bounds, axis);
+  const size = hi - lo;
+
+  const row = targets.objects.filter((o) => {
+    const [s, e] = span(o, cross);
+    return s < crossEnd && e > crossStart;
+  });
+  const before = row
+    .filter((o) => span(o, axis)[1] <= lo + targets.threshold)
+    .sort((a, b) => span(b, axis)[1] - span(a, axis)[1]);
+  const after = row
+    .filter((o) => span(o, axis)[0] >= hi - targets.threshold)
+    .sort((a, b) => span(a, axis)[0] - span(b, axis)[0]);
+
+  const candidates: Candidate[] = [];
+  const [prev, prev2] = before;
+  const [next, next2] = after;
+
+  // 두 이웃 사이 가운데
+  if (prev && next) {
+    const prevEnd = span(prev, axis)[1];
+    const nextStart = span(next, axis)[0];
+    const start = (prevEnd + nextStart - size) / 2;
+    if (start >= prevEnd) {
+      candidates.push({
+        offset: start - lo,
+        spacing: [
+          { axis, start: prevEnd, end: start },
+          { axis, start: start + size, end: nextStart },
+        ],
+      });
+    }
+  }
+
+  // 앞쪽 두 이웃의 간격 이어가기
+  if (prev && prev2) {
+    const [prevStart, prevEnd] = span(prev, axis);
+    const prev2End = span(prev2, axis)[1];
+    const gap = prevStart - prev2End;
+    if (gap >= 0) {
+      candidates.push({
+        offset: prevEnd + gap - lo,
+        spacing: [
+          { axis, start: prev2End, end: prevStart },
+          { axis, start: prevEnd, end: prevEnd + gap },
+        ],
+      });
+    }
+  }
+
+  // 뒤쪽 두 이웃의 간격 이어가기
+  if (next && next2) {
+    const [nextStart, nextEnd] = span(next, axis);
+    const next2Start = span(next2, axis)[0];
+    const gap = next2Start - nextEnd;
+    if (gap >= 0) {
+      candidates.push({
+        offset: nextStart - gap - hi,
+        spacing: [
+          { axis, start: nextStart - gap, end: nextStart },
+          { axis, start: nextEnd, end: next2Start },
+        ],
+      });
+    }
+  }
+
+  return candidates.filter((c) => Math.abs(c.offset) <= targets.threshold);
+}
+
+/** 붙은 위치와 맞는 대상의 정렬선 (같은 위치는 하나로 합침) */
+function alignmentLines(
+  sources: number[],
+  crossSpan: [number, number],
+  axis: SnapAxis,
+  targets: SnapTargets
+): SnapLine[] {
+  const lines = new Map<number, SnapLine>();
+  for (const target of axisTargets(axis, targets)) {
+    if (!sources.some((s) => Math.abs(target.value - s) < EPSILON)) continue;
+    const key = Math.round(target.value * 10);
+    const existing = lines.get(key);
+    const start = Math.min(target.start, crossSpan[0], existing?.start ?? Infinity);
+    const end = Math.max(target.end, crossSpan[1], existing?.end ?? -Infinity);
+    lines.set(key, { axis, position: target.value, start, end });
+  }
+  return [...lines.values()];
+}
+
+// ============================================
+// Snapping
+// ============================================
+
+/**
+ * 이동 스냅 - 상자의 양 끝과 중앙을 대상에 붙인다
+ * @param bounds 스냅 전 위치로 옮긴 (여러 주석이면 합친) 영역
+ */
+export function snapMove(bounds: BBox, targets: SnapTargets): SnapMoveResult {
+  const offsets = { x: 0, y: 0 };
+  const spacing: Omit<SpacingMark, 'cross'>[] = [];
+
+  for (const axis of ['x', 'y'] as const) {
+    const [lo, hi] = span(bounds, axis);
+    const candidates = [nearestCandidate([lo, (lo + hi) / 2, hi], axis, targets), ...spacingCandidates(bounds, axis, targets)]
+      .filter((c): c is Candidate => c !== null);
+    if (candidates.length === 0) continue;
+
+    const best = candidates.reduce((a, b) => (Math.abs(b.offset) < Math.abs(a.offset) ? b : a));
+    offsets[axis] = best.offset;
+    // 같은 위치가 되는 간격 후보는 모두 표시
+    for (const c of candidates) {
+      if (c.spacing && Math.abs(c.offset - best.offset) < EPSILON) spacing.push(...c.spacing);
+    }
+  }
+
+  const snapped = shift(shift(bounds, 'x', offsets.x), 'y', offsets.y);
+  const lines: SnapLine[] = [];
+  for (const axis of ['x', 'y'] as const) {
+    const [lo, hi] = span(snapped, axis);
+    lines.push(...alignmentLines([lo, (lo + hi) / 2, hi], span(snapped, crossAxis(axis)), axis, targets));
+  }
+
+  return {
+    dx: offsets.x,
+    dy: offsets.y,
+    lines,
+    spacing: spacing.map((mark) => {
+      const [start, end] = span(snapped, crossAxis(mark.axis));
+      return { ...mark, cross: (start + end) / 2 };
+    }),
+  };
+}
+
+/** 크기 조절 스냅 - 움직이는 변만 붙인다 */
+export function snapResize(bounds: BBox, edges: ResizeEdges, targets: SnapTargets): { bbox: BBox; lines: SnapLine[] } {
+  let bbox = { ...bounds };
+  const lines: SnapLine[] = [];
+
+  for (const axis of ['x', 'y'] as const) {
+    const edge = edges[axis];
+    if (!edge) continue;
+    const [lo, hi] = span(bbox, axis);
+    const source = edge === 'start' ? lo : hi;
+    const candidate = nearestCandidate([source], axis, targets);
+    const offset = candidate?.offset ?? 0;
+
+    const sizeKey = axis === 'x' ? 'width' : 'height';
+    const size = bbox[sizeKey] + (edge === 'start' ? -offset : offset);
+    // 뒤집히는 스냅은 무시
+    if (size < 1) continue;
+    bbox = { ...(edge === 'start' ? shift(bbox, axis, offset) : bbox), [sizeKey]: size };
+    lines.push(...alignmentLines([source + offset], span(bbox, crossAxis(axis)), axis, targets));
+  }
+
+  return { bbox, lines };
+}
+
+/** 점 스냅 - 그리기 도구의 시작/끝점 */
+export function snapPoint(point: Point, targets: SnapTargets): { point: Point; lines: SnapLine[] } {
+  const snapped = { ...point };
+  for (const axis of ['x', 'y'] as const) {
+    snapped[axis] += nearestCandidate([point[axis]], axis, targets)?.offset ?? 0;
+  }
+
+  const lines: SnapLine[] = [];
+  for (const axis of ['x', 'y'] as const) {
+    const cross = snapped[crossAxis(axis)];
+    lines.push(...alignmentLines([snapped[axis]], [cross, cross], axis, targets));
+  }
+  return { point: snapped, lines };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  barcodeModuleRects,
+  code128Symbols,
+  createBarcodeAnnotation,
+  encodeBarcode,
+  validateBarcodeValue,
+} from "./barcodeEncoder";
+import { decodeLuminance } from "./barcodeScanner";
+
+/** 모듈 행렬을 흰 캔버스의 (x, y)에 모듈당 px 픽셀로 그림 */
+function paint(
+  target: { luminances: Uint8ClampedArray; width: number },
+  modules: string[],
+  x: number,
+  y: number,
+  px: number,
+  barHeight = px
+) {
+  modules.forEach((row, r) => {
+    [...row].forEach((cell, c) => {
+      if (cell !== "1") return;
+      const rowHeight = modules.length === 1 ? barHeight : px;
+      for (let dy = 0; dy < rowHeight; dy++) {
+        const offset = (y + r * rowHeight + dy) * target.width + x + c * px;
+        target.luminances.fill(0, offset, offset + px);
+      }
+    });
+  });
+}
+
+function canvas(width: number, height: number) {
+  return { luminances: new Uint8ClampedArray(width * height).fill(255), width, height };
+}
+
+describe("encodeBarcode", () => {
+  it("adds the quiet zone around 2D codes", () => {
+    const modules = encodeBarcode("qr", "JustFlux");
+    // Version 1 (21x21) + 4 module quiet zone on each side
+    expect(modules).toHaveLength(29);
+    expect(modules.every((row) => row.length === 29)).toBe(true);
+    expect(modules[0]).toBe("0".repeat(29));
+    expect(modules[4].slice(4, 11)).toBe("1111111");
+  });
+
+  it("uses code set C for even-length digit strings", () => {
+    expect(code128Symbols("123456")).toEqual([105, 12, 34, 56, (105 + 12 + 34 * 2 + 56 * 3) % 103, 106]);
+    expect(code128Symbols("AB")[0]).toBe(104);
+  });
+
+  it.each([
+    ["qr", "배송 #42 https://example.com/t/42"],
+    ["datamatrix", "INV-0042"],
+    ["code128", "PKG-2024-0001"],
+    ["code128", "00123456"],
+  ] as const)("round-trips %s through the scanner", (format, value) => {
+    const modules = encodeBarcode(format, value);
+    const px = 4;
+    const image = canvas(modules[0].length * px + 40, modules.length === 1 ? 160 : modules.length * px + 40);
+    paint(image, modules, 20, 20, px, 120);
+
+    const [decoded] = decodeLuminance(image.luminances, image.width, image.height);
+    expect(decoded?.value).toBe(value);
+  });
+
+  it("rejects values the format cannot hold", () => {
+    expect(validateBarcodeValue("code128", "")).toBe("empty");
+    expect(validateBarcodeValue("code128", "한글")).toBe("unsupportedCharacter");
+    expect(validateBarcodeValue("qr", "한글")).toBeNull();
+    expect(() => encodeBarcode("code128", "é")).toThrow();
+  });
+});
+
+describe("barcodeModuleRects", () => {
+  it("merges runs in a row and stretches linear codes to the box height", () => {
+    expect(barcodeModuleRects(["0110", "1001"], { x: 10, y: 20, width: 40, height: 20 })).toEqual([
+      { x: 20, y: 20, width: 20, height: 10 },
+      { x: 10, y: 30, width: 10, height: 10 },
+      { x: 40, y: 30, width: 10, height: 10 },
+    ]);
+    expect(barcodeModuleRects(["101"], { x: 0, y: 0, width: 30, height: 50 })).toEqual([
+      { x: 0, y: 0, width: 10, height: 50 },
+      { x: 20, y: 0, width: 10, height: 50 },
+    ]);
+  });
+});
+
+describe("createBarcodeAnnotation", () => {
+  it("centers the code and keeps 2D codes square", () => {
+    const qr = createBarcodeAnnotation({ pageId: "p1", format: "qr", value: "hi", center: { x: 300, y: 400 } });
+    expect(qr.bbox).toEqual({ x: 250, y: 350, width: 100, height: 100 });
+    expect(qr.style.lockAspectRatio).toBe(true);
+
+    const bar = createBarcodeAnnotation({ pageId: "p1", format: "code128", value: "AB", center: { x: 0, y: 0 } });
+    expect(bar.modules).toHaveLength(1);
+    expect(bar.style.lockAspectRatio).toBe(false);
+  });
+});
+
+describe("decodeLuminance", () => {
+  it("finds every code on a page with their pixel boxes", () => {
+    const qr = encodeBarcode("qr", "first");
+    const dm = encodeBarcode("datamatrix", "second");
+    const image = canvas(800, 400);
+    paint(image, qr, 10, 10, 4);
+    paint(image, dm, 600, 250, 6);
+
+    const found = decodeLuminance(image.luminances, image.width, image.height);
+    expect(found.map((code) => code.value).sort()).toEqual(["first", "second"]);
+
+    const first = found.find((code) => code.value === "first")!;
+    expect(first.format).toBe("QR_CODE");
+    // The box covers the symbol (quiet zone starts at 10, symbol at 26..110)
+    expect(first.box.x).toBeLessThanOrEqual(26);
+    expect(first.box.x + first.box.width).toBeGreaterThanOrEqual(110);
+  });
+});
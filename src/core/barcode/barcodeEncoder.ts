@@ -0,0 +1,228 @@
+/**
+ * Barcode Encoder - 텍스트 → QR / Data Matrix / Code 128 모듈 행렬
+ *
+ * 모듈 행렬은 행마다 '1'(검정) / '0'(흰색) 문자열이며 여백(quiet zone)을 포함한다.
+ * 1차원 바코드(Code 128)는 한 행이고 렌더링 시 세로로 늘린다.
+ * 행렬을 주석에 저장해 두므로 화면/PDF/SVG/이미지 내보내기는 zxing 없이 벡터 사각형으로 그린다.
+ */
+
+import {
+  BarcodeFormat as ZXingFormat,
+  DataMatrixWriter,
+  EncodeHintType,
+  QRCodeEncoder,
+  QRCodeDecoderErrorCorrectionLevel,
+} from '@zxing/library';
+import type { BarcodeAnnotation, BarcodeFormat, BBox } from '../../types/annotation';
+
+// ============================================
+// Formats
+// ============================================
+
+export const BARCODE_FORMATS: BarcodeFormat[] = ['qr', 'datamatrix', 'code128'];
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  qr: 'QR',
+  datamatrix: 'Data Matrix',
+  code128: 'Code 128',
+};
+
+/** 양쪽 여백 (모듈 수, 각 규격의 최소값) */
+const QUIET_ZONE: Record<BarcodeFormat, number> = {
+  qr: 4,
+  datamatrix: 1,
+  code128: 10,
+};
+
+export function isLinearBarcode(format: BarcodeFormat): boolean {
+  return format === 'code128';
+}
+
+// ============================================
+// Validation
+// ============================================
+
+export type BarcodeValueError = 'empty' | 'unsupportedCharacter';
+
+/** 입력값 검사 (길이 초과는 인코딩 시 오류로 드러남) */
+export function validateBarcodeValue(format: BarcodeFormat, value: string): BarcodeValueError | null {
+  if (value.length === 0) return 'empty';
+  if (format === 'code128' && !/^[\x20-\x7E]+$/.test(value)) return 'unsupportedCharacter';
+  return null;
+}
+
+// ============================================
+// Code 128
+// ============================================
+
+/** 기호 값 0-106의 막대/공백 폭 (106 = Stop) */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+/**
+ * Code 128 기호 값 목록 (시작 + 데이터 + 체크섬 + 정지)
+ * 짝수 길이의 숫자열은 Code C(두 자리씩), 그 외는 Code B(ASCII 32-126)로 인코딩한다.
+ */
+export function code128Symbols(value: string): number[] {
+  if (validateBarcodeValue('code128', value)) {
+    throw new Error(`Code 128 supports printable ASCII only: "${value}"`);
+  }
+
+  const useCodeC = /^(\d\d)+$/.test(value);
+  const symbols = [useCodeC ? CODE128_START_C : CODE128_START_B];
+  if (useCodeC) {
+    for (let i = 0; i < value.length; i += 2) symbols.push(Number(value.slice(i, i + 2)));
+  } else {
+    for (const ch of value) symbols.push(ch.charCodeAt(0) - 32);
+  }
+
+  const checksum = symbols.reduce((sum, symbol, i) => sum + symbol * Math.max(i, 1), 0) % 103;
+  symbols.push(checksum, CODE128_STOP);
+  return symbols;
+}
+
+function encodeCode128(value: string): string {
+  let row = '';
+  for (const symbol of code128Symbols(value)) {
+    [...CODE128_PATTERNS[symbol]].forEach((width, i) => {
+      row += (i % 2 === 0 ? '1' : '0').repeat(Number(width));
+    });
+  }
+  return row;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+function padModules(rows: string[], quiet: number, linear: boolean): string[] {
+  const margin = '0'.repeat(quiet);
+  const padded = rows.map((row) => margin + row + margin);
+  if (linear) return padded;
+  const blank = '0'.repeat(padded[0]?.length ?? 0);
+  return [...Array(quiet).fill(blank), ...padded, ...Array(quiet).fill(blank)];
+}
+
+/**
+ * 텍스트 → 모듈 행렬 (여백 포함)
+ * @throws 지원하지 않는 문자이거나 용량을 넘는 경우
+ */
+export function encodeBarcode(format: BarcodeFormat, value: string): string[] {
+  const error = validateBarcodeValue(format, value);
+  if (error) throw new Error(`Invalid ${BARCODE_FORMAT_LABELS[format]} value (${error})`);
+
+  const rows: string[] = [];
+  if (format === 'qr') {
+    const hints = new Map([[EncodeHintType.CHARACTER_SET, 'UTF-8']]);
+    const matrix = QRCodeEncoder.encode(value, QRCodeDecoderErrorCorrectionLevel.M, hints).getMatrix();
+    for (let y = 0; y < matrix.getHeight(); y++) {
+      let row = '';
+      for (let x = 0; x < matrix.getWidth(); x++) row += matrix.get(x, y) === 1 ? '1' : '0';
+      rows.push(row);
+    }
+  } else if (format === 'datamatrix') {
+    const matrix = new DataMatrixWriter().encode(value, ZXingFormat.DATA_MATRIX, 0, 0);
+    for (let y = 0; y < matrix.getHeight(); y++) {
+      let row = '';
+      for (let x = 0; x < matrix.getWidth(); x++) row += matrix.get(x, y) ? '1' : '0';
+      rows.push(row);
+    }
+  } else {
+    rows.push(encodeCode128(value));
+  }
+
+  return padModules(rows, QUIET_ZONE[format], isLinearBarcode(format));
+}
+
+// ============================================
+// Geometry
+// ============================================
+
+/**
+ * 모듈 행렬 → bbox 안의 검정 사각형 목록
+ * 같은 행에서 이어지는 모듈은 하나의 사각형으로 합친다.
+ */
+export function barcodeModuleRects(modules: string[], bbox: BBox): BBox[] {
+  const rows = modules.length;
+  const cols = modules[0]?.length ?? 0;
+  if (rows === 0 || cols === 0) return [];
+
+  const mw = bbox.width / cols;
+  const mh = bbox.height / rows;
+  const rects: BBox[] = [];
+
+  modules.forEach((row, r) => {
+    let c = 0;
+    while (c < cols) {
+      if (row[c] !== '1') {
+        c++;
+        continue;
+      }
+      const start = c;
+      while (c < cols && row[c] === '1') c++;
+      rects.push({ x: bbox.x + start * mw, y: bbox.y + r * mh, width: (c - start) * mw, height: mh });
+    }
+  });
+
+  return rects;
+}
+
+/** 삽입 기본 크기 (pt): 2차원 코드는 정사각형, 1차원 코드는 모듈당 1.2pt */
+export function defaultBarcodeSize(format: BarcodeFormat, modules: string[]): { width: number; height: number } {
+  if (isLinearBarcode(format)) {
+    const width = (modules[0]?.length ?? 0) * 1.2;
+    return { width, height: Math.max(40, width * 0.3) };
+  }
+  return format === 'qr' ? { width: 100, height: 100 } : { width: 80, height: 80 };
+}
+
+function generateBarcodeId(): string {
+  return `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 바코드 주석 생성 (중심점 기준 배치)
+ * @throws encodeBarcode와 동일
+ */
+export function createBarcodeAnnotation(params: {
+  pageId: string;
+  format: BarcodeFormat;
+  value: string;
+  center: { x: number; y: number };
+}): BarcodeAnnotation {
+  const modules = encodeBarcode(params.format, params.value);
+  const { width, height } = defaultBarcodeSize(params.format, modules);
+  const now = Date.now();
+
+  return {
+    id: generateBarcodeId(),
+    type: 'barcode',
+    pageId: params.pageId,
+    bbox: { x: params.center.x - width / 2, y: params.center.y - height / 2, width, height },
+    format: params.format,
+    value: params.value,
+    modules,
+    createdAt: now,
+    modifiedAt: now,
+    style: {
+      color: '#000000',
+      backgroundColor: '#FFFFFF',
+      lockAspectRatio: !isLinearBarcode(params.format),
+    },
+  };
+}
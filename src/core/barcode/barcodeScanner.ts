@@ -0,0 +1,337 @@
+/**
+ * Barcode Scanner - 렌더링한 페이지에서 QR / Code 128 / EAN / Data Matrix 찾기
+ *
+ * zxing은 한 번에 코드 하나만 돌려주므로, 찾은 코드 영역을 흰색으로 지우고
+ * 다시 디코딩하는 방식으로 페이지의 모든 코드를 찾는다.
+ * 디코딩은 밝기 배열만 다루므로 캔버스 없이 테스트할 수 있다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+  BarcodeFormat as ZXingFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import type { Result } from '@zxing/library';
+import type { BBox, Page } from '../model/types';
+
+// ============================================
+// Types
+// ============================================
+
+/** 이미지 픽셀 좌표의 디코딩 결과 */
+export interface DecodedBarcode {
+  /** zxing 형식 이름 (예: 'QR_CODE', 'CODE_128') */
+  format: string;
+  value: string;
+  box: BBox;
+}
+
+/** 페이지 스캔 결과 (편집 좌표) */
+export interface BarcodeHit {
+  id: string;
+  pageId: string;
+  /** input.pages 안의 위치 */
+  pageIndex: number;
+  format: string;
+  value: string;
+  bbox: BBox;
+}
+
+export interface ScanDocumentInput {
+  pages: Page[];
+  pdfProxy: PDFDocumentProxy | null;
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>;
+  /** 렌더링 해상도 (기본 200dpi) */
+  dpi?: number;
+  isCancelled?: () => boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// ============================================
+// Decoding
+// ============================================
+
+export const SCAN_FORMATS: ZXingFormat[] = [
+  ZXingFormat.QR_CODE,
+  ZXingFormat.DATA_MATRIX,
+  ZXingFormat.CODE_128,
+  ZXingFormat.EAN_13,
+  ZXingFormat.EAN_8,
+];
+
+const LINEAR_FORMATS = new Set([ZXingFormat.CODE_128, ZXingFormat.EAN_13, ZXingFormat.EAN_8]);
+
+/** 한 페이지에서 찾을 최대 코드 수 */
+const MAX_CODES_PER_PAGE = 20;
+
+/** Data Matrix 후보 탐색 격자 칸 크기(px)와 최대 후보 수 */
+const BLOB_CELL_SIZE = 8;
+const MAX_BLOB_CANDIDATES = 50;
+
+function createReader(formats: ZXingFormat[]): MultiFormatReader {
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, formats],
+    [DecodeHintType.TRY_HARDER, true],
+  ]));
+  return reader;
+}
+
+/**
+ * 결과 점 → 코드 영역
+ * QR 점은 파인더 패턴 중심이라 바깥으로 넓히고, 1차원 코드는 스캔한 한 줄만 알려주므로
+ * 폭에 비례한 높이를 추정한다 (같은 코드가 다시 잡히면 영역을 합쳐 넓힌다).
+ */
+function resultBox(result: Result, width: number, height: number): BBox {
+  const points = result.getResultPoints();
+  const xs = points.map((p) => p.getX());
+  const ys = points.map((p) => p.getY());
+  let minX = Math.min(...xs);
+  let maxX = Math.max(...xs);
+  let minY = Math.min(...ys);
+  let maxY = Math.max(...ys);
+  const format = result.getBarcodeFormat();
+
+  if (LINEAR_FORMATS.has(format)) {
+    const span = maxX - minX;
+    const cy = (minY + maxY) / 2;
+    minX -= span * 0.05;
+    maxX += span * 0.05;
+    minY = cy - span * 0.2;
+    maxY = cy + span * 0.2;
+  } else {
+    const pad = Math.max(maxX - minX, maxY - minY) * (format === ZXingFormat.QR_CODE ? 0.25 : 0.1);
+    minX -= pad;
+    maxX += pad;
+    minY -= pad;
+    maxY += pad;
+  }
+
+  minX = Math.max(0, Math.floor(minX));
+  minY = Math.max(0, Math.floor(minY));
+  maxX = Math.min(width, Math.ceil(maxX));
+  maxY = Math.min(height, Math.ceil(maxY));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function overlaps(a: BBox, b: BBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function union(a: BBox, b: BBox): BBox {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+function maskBox(luminances: Uint8ClampedArray, width: number, box: BBox): void {
+  for (let y = box.y; y < box.y + box.height; y++) {
+    luminances.fill(255, y * width + box.x, y * width + box.x + box.width);
+  }
+}
+
+/** region 안에서 코드를 반복 디코딩 (찾은 영역은 지우고 다시 시도) */
+function decodeRegion(
+  reader: MultiFormatReader,
+  luminances: Uint8ClampedArray,
+  width: number,
+  height: number,
+  region: BBox,
+  found: DecodedBarcode[]
+): void {
+  // 같은 코드가 다시 잡히는 경우(1차원 코드 높이 추정 부족)를 감안해 시도 횟수를 넉넉히 둔다
+  for (let attempt = 0; attempt < MAX_CODES_PER_PAGE * 3 && found.length < MAX_CODES_PER_PAGE; attempt++) {
+    let result: Result;
+    try {
+      const source = new RGBLuminanceSource(luminances, region.width, region.height, width, height, region.x, region.y);
+      result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+    } catch {
+      return; // NotFound / Checksum / Format - 더 이상 코드 없음
+    }
+
+    const value = result.getText();
+    const local = resultBox(result, region.width, region.height);
+    const box = { ...local, x: local.x + region.x, y: local.y + region.y };
+    const previous = found.find((code) => code.value === value && overlaps(code.box, box));
+    if (previous) {
+      previous.box = union(previous.box, box);
+    } else {
+      found.push({ format: ZXingFormat[result.getBarcodeFormat()], value, box });
+    }
+    maskBox(luminances, width, previous?.box ?? box);
+  }
+}
+
+/**
+ * 밝기 배열(0=검정, 255=흰색)에서 모든 코드 디코딩
+ * 배열은 찾은 영역을 지우는 데 쓰이므로 변경된다.
+ */
+export function decodeLuminance(luminances: Uint8ClampedArray, width: number, height: number): DecodedBarcode[] {
+  const found: DecodedBarcode[] = [];
+  decodeRegion(createReader(SCAN_FORMATS), luminances, width, height, { x: 0, y: 0, width, height }, found);
+
+  // Data Matrix 검출기는 영역 중앙에서 바깥으로 찾으므로 중앙에서 먼 코드는 놓친다.
+  // 남은 어두운 덩어리마다 그 덩어리가 중앙에 오도록 잘라 다시 찾는다.
+  const matrixReader = createReader([ZXingFormat.DATA_MATRIX]);
+  for (const blob of findDarkBlobs(luminances, width, height)) {
+    if (found.length >= MAX_CODES_PER_PAGE) break;
+    const margin = Math.max(blob.width, blob.height) / 2;
+    const x = Math.max(0, Math.floor(blob.x - margin));
+    const y = Math.max(0, Math.floor(blob.y - margin));
+    const region = {
+      x,
+      y,
+      width: Math.min(width, Math.ceil(blob.x + blob.width + margin)) - x,
+      height: Math.min(height, Math.ceil(blob.y + blob.height + margin)) - y,
+    };
+    decodeRegion(matrixReader, luminances, width, height, region, found);
+  }
+
+  return found;
+}
+
+/**
+ * 코드 후보 찾기 - 어두운 픽셀이 있는 격자 칸의 연결 요소 중 정사각형에 가까운 것
+ * (텍스트 줄은 가로로 길어서 걸러진다)
+ */
+function findDarkBlobs(luminances: Uint8ClampedArray, width: number, height: number): BBox[] {
+  const cell = BLOB_CELL_SIZE;
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+  const dark = new Uint8Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / cell) * cols;
+    for (let x = 0; x < width; x++) {
+      if (luminances[y * width + x] < 128) dark[rowOffset + Math.floor(x / cell)] = 1;
+    }
+  }
+
+  const blobs: BBox[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < dark.length; start++) {
+    if (dark[start] !== 1) continue;
+    dark[start] = 2;
+    stack.push(start);
+    let minC = cols, minR = rows, maxC = 0, maxR = 0;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const c = index % cols;
+      const r = Math.floor(index / cols);
+      minC = Math.min(minC, c);
+      maxC = Math.max(maxC, c);
+      minR = Math.min(minR, r);
+      maxR = Math.max(maxR, r);
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) continue;
+          const next = nr * cols + nc;
+          if (dark[next] === 1) {
+            dark[next] = 2;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const w = (maxC - minC + 1) * cell;
+    const h = (maxR - minR + 1) * cell;
+    const aspect = w / h;
+    if (w < cell * 2 || h < cell * 2 || aspect < 0.5 || aspect > 2 || w * h > (width * height) / 4) continue;
+    blobs.push({ x: minC * cell, y: minR * cell, width: w, height: h });
+    if (blobs.length >= MAX_BLOB_CANDIDATES) break;
+  }
+
+  return blobs;
+}
+
+/** RGBA 픽셀 → 밝기 */
+export function toLuminance(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  const luminances = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < luminances.length; i++) {
+    const o = i * 4;
+    luminances[i] = (rgba[o] * 299 + rgba[o + 1] * 587 + rgba[o + 2] * 114) / 1000;
+  }
+  return luminances;
+}
+
+// ============================================
+// Page Scanning
+// ============================================
+
+/** 페이지를 렌더링해 코드 찾기 (주석/래스터 레이어 제외, 편집 좌표로 변환) */
+export async function scanPageBarcodes(
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>,
+  dpi = 200
+): Promise<DecodedBarcode[]> {
+  const { renderPageToCanvas } = await import('../io/pageRenderer');
+  const canvas = await renderPageToCanvas(
+    page,
+    pdfProxy,
+    { format: 'png', dpi, includeAnnotations: false, includeRasterLayers: false },
+    insertedPdfProxies
+  );
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get 2D context');
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const scale = canvas.width / page.width;
+
+  return decodeLuminance(toLuminance(data), canvas.width, canvas.height).map((code) => ({
+    ...code,
+    box: {
+      x: code.box.x / scale,
+      y: code.box.y / scale,
+      width: code.box.width / scale,
+      height: code.box.height / scale,
+    },
+  }));
+}
+
+/**
+ * 여러 페이지 스캔 (페이지 순서대로)
+ * @returns 취소되면 null
+ */
+export async function scanDocumentBarcodes(input: ScanDocumentInput): Promise<BarcodeHit[] | null> {
+  const pages = input.pages.filter((page) => !page.deleted);
+  const hits: BarcodeHit[] = [];
+
+  for (let i = 0; i < pages.length; i++) {
+    if (input.isCancelled?.()) return null;
+    const page = pages[i];
+
+    try {
+      const codes = await scanPageBarcodes(page, input.pdfProxy, input.insertedPdfProxies, input.dpi);
+      codes.forEach((code, n) => {
+        hits.push({
+          id: `${page.id}:barcode:${n}`,
+          pageId: page.id,
+          pageIndex: input.pages.indexOf(page),
+          format: code.format,
+          value: code.value,
+          bbox: code.box,
+        });
+      });
+    } catch (error) {
+      console.warn(`⚠️ [Barcode] Failed to scan page ${page.id}:`, error);
+    }
+
+    input.onProgress?.(i + 1, pages.length);
+  }
+
+  return input.isCancelled?.() ? null : hits;
+}
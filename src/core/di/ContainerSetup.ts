@@ -8,6 +8,8 @@ import { container } from './Container';
 import { SERVICE_TOKENS } from './ServiceTokens';
 import { eventBus } from '../events/EventBus';
 import { ExportManager } from '../services/ExportManager';
+import { StorageManager } from '../services/StorageManager';
+import { OCRService } from '../services/OCRService';
 
 /**
  * DI Container 초기화
@@ -42,6 +44,16 @@ export function initializeContainer(): void {
     return new ExportManager();
   });
 
+  // StorageManager (싱글톤) - IndexedDB 자동 저장/복구
+  container.registerSingleton(SERVICE_TOKENS.STORAGE_MANAGER, () => {
+    return new StorageManager();
+  });
+
+  // OCRService (싱글톤) - tesseract.js 문자 인식 (워커는 작업 시에만 생성)
+  container.registerSingleton(SERVICE_TOKENS.OCR_SERVICE, () => {
+    return new OCRService();
+  });
+
   logger.debug('✅ [DI] Container initialized successfully');
 }
 
@@ -160,6 +160,56 @@ export interface ExportFailedEvent {
   timestamp: number;
 }
 
+// ============================================
+// OCR 관련 이벤트
+// ============================================
+
+export interface OCRStartedEvent {
+  jobId: string;
+  languages: string;
+  totalPages: number;
+  timestamp: number;
+}
+
+export interface OCRProgressEvent {
+  jobId: string;
+  pageId: string;
+  /** 작업 내 페이지 순서 (0-based) */
+  pageIndex: number;
+  totalPages: number;
+  /** 현재 페이지 진행률 (0-1) */
+  pageProgress: number;
+  /** 전체 진행률 (0-1) */
+  progress: number;
+  status: string;
+  timestamp: number;
+}
+
+export interface OCRPageCompletedEvent {
+  jobId: string;
+  pageId: string;
+  pageIndex: number;
+  wordCount: number;
+  timestamp: number;
+}
+
+export interface OCRCompletedEvent {
+  jobId: string;
+  wordCount: number;
+  timestamp: number;
+}
+
+export interface OCRFailedEvent {
+  jobId: string;
+  error: string;
+  timestamp: number;
+}
+
+export interface OCRCancelledEvent {
+  jobId: string;
+  timestamp: number;
+}
+
 // ============================================
 // 레이어 관련 이벤트
 // ============================================
@@ -235,6 +285,12 @@ export type AppEvent =
   | ExportProgressEvent
   | ExportCompletedEvent
   | ExportFailedEvent
+  | OCRStartedEvent
+  | OCRProgressEvent
+  | OCRPageCompletedEvent
+  | OCRCompletedEvent
+  | OCRFailedEvent
+  | OCRCancelledEvent
   | LayerCreatedEvent
   | LayerUpdatedEvent
   | LayerDeletedEvent
@@ -282,6 +338,14 @@ export const EVENTS = {
   EXPORT_COMPLETED: 'export:completed',
   EXPORT_FAILED: 'export:failed',
   
+  // OCR 이벤트
+  OCR_STARTED: 'ocr:started',
+  OCR_PROGRESS: 'ocr:progress',
+  OCR_PAGE_COMPLETED: 'ocr:page:completed',
+  OCR_COMPLETED: 'ocr:completed',
+  OCR_FAILED: 'ocr:failed',
+  OCR_CANCELLED: 'ocr:cancelled',
+  
   // 레이어 이벤트
   LAYER_CREATED: 'layer:created',
   LAYER_UPDATED: 'layer:updated',
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { FormField } from "../model/types";
+import { formValuesToFdf, formValuesToJson, parseFormFdf, parseFormJson } from "./formData";
+import { applyFormValues, coerceFormValue, convertPdfFormField, formatFormDate, missingRequiredFields, parseFormDate } from "./formFields";
+
+const rect = { x: 0, y: 0, width: 100, height: 20 };
+
+const fields: FormField[] = [
+  { id: "1", name: "person.name", type: "text", rect, value: "홍길동", defaultValue: "" },
+  { id: "2", name: "person.email", type: "text", rect, value: "a(b)@c.d", defaultValue: "", required: true },
+  { id: "3", name: "agree", type: "checkbox", rect, value: "Yes", defaultValue: "Off", exportValue: "Yes" },
+  { id: "4", name: "size", type: "radio", rect, value: "M", defaultValue: "Off", exportValue: "S" },
+  { id: "5", name: "size", type: "radio", rect, value: "M", defaultValue: "Off", exportValue: "M" },
+  {
+    id: "6", name: "colors", type: "list", rect, value: ["red", "blue"], defaultValue: [], multiSelect: true,
+    options: [{ value: "red", label: "Red" }, { value: "blue", label: "Blue" }],
+  },
+];
+
+const cleared = applyFormValues(fields, {
+  "person.name": "", "person.email": "", agree: "Off", size: "Off", colors: [],
+});
+
+describe("form data JSON", () => {
+  it("round-trips values with checkboxes as booleans", () => {
+    const json = formValuesToJson(fields);
+    expect(JSON.parse(json)).toEqual({
+      "person.name": "홍길동", "person.email": "a(b)@c.d", agree: true, size: "M", colors: ["red", "blue"],
+    });
+
+    const { values, unknownFields } = parseFormJson(json, cleared);
+    expect(unknownFields).toEqual([]);
+    expect(applyFormValues(cleared, values).map((f) => f.value)).toEqual(fields.map((f) => f.value));
+  });
+
+  it("reports unknown fields and rejects non-objects", () => {
+    expect(parseFormJson('{"missing": "x", "agree": "no"}', fields)).toEqual({
+      values: { agree: "Off" }, unknownFields: ["missing"],
+    });
+    expect(() => parseFormJson("[1, 2]", fields)).toThrow("Form data JSON must be an object");
+  });
+});
+
+describe("form data FDF", () => {
+  it("round-trips values through a hierarchical FDF", () => {
+    const fdf = formValuesToFdf(fields, "form.pdf");
+    expect(fdf.startsWith("%FDF-1.2")).toBe(true);
+    expect(fdf).toContain("/T (person)");
+    expect(fdf).toContain("/V /Yes");
+
+    const { values, unknownFields } = parseFormFdf(new TextEncoder().encode(fdf), cleared);
+    expect(unknownFields).toEqual([]);
+    expect(applyFormValues(cleared, values).map((f) => f.value)).toEqual(fields.map((f) => f.value));
+  });
+
+  it("rejects files that are not FDF", () => {
+    expect(() => parseFormFdf(new TextEncoder().encode("hello"), fields)).toThrow("Not an FDF file");
+  });
+});
+
+describe("form field values", () => {
+  it("converts pdf.js widgets and skips signatures and push buttons", () => {
+    const toEditor = (x: number, y: number) => ({ x, y: 100 - y });
+    const field = convertPdfFormField({
+      subtype: "Widget", id: "10R", rect: [10, 20, 60, 40], fieldName: "city", fieldType: "Ch",
+      combo: true, fieldFlags: 1 << 18, fieldValue: "seoul",
+      options: [{ exportValue: "seoul", displayValue: "Seoul" }],
+    }, toEditor);
+    expect(field).toMatchObject({
+      name: "city", type: "combo", value: "seoul", editable: true,
+      rect: { x: 10, y: 60, width: 50, height: 20 },
+      options: [{ value: "seoul", label: "Seoul" }],
+    });
+    expect(convertPdfFormField({ subtype: "Widget", id: "11R", rect: [0, 0, 1, 1], fieldName: "sig", fieldType: "Sig" }, toEditor)).toBeNull();
+    expect(convertPdfFormField({ subtype: "Widget", id: "12R", rect: [0, 0, 1, 1], fieldName: "go", fieldType: "Btn", pushButton: true }, toEditor)).toBeNull();
+  });
+
+  it("coerces imported values to the field type", () => {
+    const [name, , agree] = fields;
+    expect(coerceFormValue(agree, true)).toBe("Yes");
+    expect(coerceFormValue(agree, "false")).toBe("Off");
+    expect(coerceFormValue({ ...name, maxLength: 3 }, "abcdef")).toBe("abc");
+    expect(coerceFormValue(name, 42)).toBe("42");
+    expect(coerceFormValue(name, { nested: true })).toBeUndefined();
+  });
+
+  it("lists required fields that are still empty", () => {
+    expect(missingRequiredFields(fields)).toEqual([]);
+    expect(missingRequiredFields(cleared)).toEqual(["person.email"]);
+  });
+});
+
+describe("form dates", () => {
+  it("formats ISO dates with AFDate formats", () => {
+    expect(formatFormDate("2026-03-07", "mm/dd/yyyy")).toBe("03/07/2026");
+    expect(formatFormDate("2026-03-07", "d mmm yy")).toBe("7 Mar 26");
+    expect(formatFormDate("2026-03-07")).toBe("2026-03-07");
+  });
+
+  it("parses formatted dates back to ISO", () => {
+    expect(parseFormDate("03/07/2026", "mm/dd/yyyy")).toBe("2026-03-07");
+    expect(parseFormDate("7 March 2026", "d mmmm yyyy")).toBe("2026-03-07");
+    expect(parseFormDate("2026-03-07", "mm/dd/yyyy")).toBe("2026-03-07");
+    expect(parseFormDate("13/45/2026", "mm/dd/yyyy")).toBeNull();
+    expect(parseFormDate("", "mm/dd/yyyy")).toBeNull();
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Form Data - 양식 값 가져오기/내보내기 (JSON, FDF)
+ *
+ * JSON은 { "필드 이름": 값 } 하나의 객체다. checkbox는 true/false,
+ * list는 문자열 배열, 나머지는 문자열로 쓴다 (같은 파일로 여러 문서를 일괄 입력할 수 있음).
+ * FDF는 Acrobat 등과 주고받는 표준 형식으로, 이름의 점(.)을 /Kids 계층으로 나눠 쓴다.
+ */
+
+import type { FormField, FormFieldValue } from '../model/types';
+import { FORM_OFF_VALUE, coerceFormValue } from './formFields';
+
+export type FormDataFormat = 'json' | 'fdf';
+
+/** 가져오기 결과: 적용할 값과 문서에 없는 필드 이름 */
+export interface FormDataImport {
+  values: Record<string, FormFieldValue>;
+  unknownFields: string[];
+}
+
+// ============================================
+// JSON
+// ============================================
+
+/** 이름 → 대표 위젯 (checkbox 값 변환용) */
+function fieldsByName(fields: FormField[]): Map<string, FormField> {
+  const byName = new Map<string, FormField>();
+  for (const field of fields) {
+    if (!byName.has(field.name)) byName.set(field.name, field);
+  }
+  return byName;
+}
+
+export function formValuesToJson(fields: FormField[]): string {
+  const data: Record<string, string | boolean | string[]> = {};
+  for (const field of fieldsByName(fields).values()) {
+    data[field.name] = field.type === 'checkbox' ? field.value !== FORM_OFF_VALUE : field.value;
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+/** 가져온 원시 값을 문서의 필드에 맞춤 */
+function matchFields(raw: Record<string, unknown>, fields: FormField[]): FormDataImport {
+  const byName = fieldsByName(fields);
+  const values: Record<string, FormFieldValue> = {};
+  const unknownFields: string[] = [];
+  for (const [name, value] of Object.entries(raw)) {
+    const field = byName.get(name);
+    const coerced = field ? coerceFormValue(field, value) : undefined;
+    if (coerced === undefined) unknownFields.push(name);
+    else values[name] = coerced;
+  }
+  return { values, unknownFields };
+}
+
+export function parseFormJson(text: string, fields: FormField[]): FormDataImport {
+  const data: unknown = JSON.parse(text);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Form data JSON must be an object of field names and values');
+  }
+  return matchFields(data as Record<string, unknown>, fields);
+}
+
+// ============================================
+// FDF Writing
+// ============================================
+
+interface FdfNode {
+  value?: FormFieldValue;
+  /** checkbox/radio 값은 이름(/Yes)으로 쓴다 */
+  isName?: boolean;
+  kids: Map<string, FdfNode>;
+}
+
+function pdfString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, '\\$&')})`;
+  }
+  // 그 밖의 글자는 BOM이 붙은 UTF-16BE 16진수 문자열
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+function pdfName(name: string): string {
+  const bytes = new TextEncoder().encode(name);
+  let result = '/';
+  for (const b of bytes) {
+    const regular = b > 0x20 && b < 0x7f && !'#()<>[]{}/%'.includes(String.fromCharCode(b));
+    result += regular ? String.fromCharCode(b) : `#${b.toString(16).padStart(2, '0').toUpperCase()}`;
+  }
+  return result;
+}
+
+function writeFdfNode(name: string, node: FdfNode): string {
+  let entry = `<< /T ${pdfString(name)}`;
+  if (node.value !== undefined) {
+    const value = node.value;
+    entry += ' /V ';
+    if (Array.isArray(value)) entry += `[${value.map(pdfString).join(' ')}]`;
+    else entry += node.isName ? pdfName(value) : pdfString(value);
+  }
+  if (node.kids.size > 0) {
+    entry += ` /Kids [${[...node.kids].map(([kidName, kid]) => writeFdfNode(kidName, kid)).join(' ')}]`;
+  }
+  return `${entry} >>`;
+}
+
+/**
+ * FDF 1.2 문서
+ * @param fileName - 값이 속한 PDF 파일 이름 (/F, 선택)
+ */
+export function formValuesToFdf(fields: FormField[], fileName?: string): string {
+  const root = new Map<string, FdfNode>();
+  for (const field of fieldsByName(fields).values()) {
+    let kids = root;
+    let node: FdfNode | undefined;
+    for (const part of field.name.split('.')) {
+      node = kids.get(part);
+      if (!node) {
+        node = { kids: new Map() };
+        kids.set(part, node);
+      }
+      kids = node.kids;
+    }
+    node!.value = field.value;
+    node!.isName = field.type === 'checkbox' || field.type === 'radio';
+  }
+
+  const entries = [...root].map(([name, node]) => writeFdfNode(name, node));
+  const file = fileName ? `/F ${pdfString(fileName)} ` : '';
+  return [
+    '%FDF-1.2',
+    '1 0 obj',
+    `<< /FDF << ${file}/Fields [`,
+    ...entries,
+    '] >> >>',
+    'endobj',
+    'trailer',
+    '<< /Root 1 0 R >>',
+    '%%EOF',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// FDF Reading
+// ============================================
+
+type FdfObject = string | number | boolean | null | FdfName | FdfObject[] | Map<string, FdfObject>;
+
+class FdfName {
+  readonly name: string;
+  constructor(name: string) {
+    this.name = name;
+  }
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map((c) => c.charCodeAt(0)));
+/** 문자열의 \n \r \t \b \f */
+const LITERAL_ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+/** FDF 객체 구문 분석 (필요한 만큼: 사전, 배열, 문자열, 이름, 숫자) */
+class FdfReader {
+  private pos = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  /** 다음 `/FDF` 사전 */
+  readFdfDict(): Map<string, FdfObject> | null {
+    const marker = new TextEncoder().encode('/FDF');
+    for (let i = 0; i + marker.length < this.bytes.length; i++) {
+      if (marker.every((b, j) => this.bytes[i + j] === b) && !this.isRegular(this.bytes[i + marker.length])) {
+        this.pos = i + marker.length;
+        const value = this.readObject();
+        return value instanceof Map ? value : null;
+      }
+    }
+    return null;
+  }
+
+  private isRegular(b: number | undefined): boolean {
+    return b !== undefined && !WHITESPACE.has(b) && !DELIMITERS.has(b);
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.bytes.length) {
+      const b = this.bytes[this.pos];
+      if (WHITESPACE.has(b)) {
+        this.pos++;
+      } else if (b === 0x25 /* % */) {
+        while (this.pos < this.bytes.length && this.bytes[this.pos] !== 0x0a && this.bytes[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readObject(): FdfObject {
+    this.skipWhitespace();
+    const b = this.bytes[this.pos];
+    if (b === undefined) throw new Error('Unexpected end of FDF data');
+
+    if (b === 0x3c /* < */ && this.bytes[this.pos + 1] === 0x3c) return this.readDict();
+    if (b === 0x3c) return this.readHexString();
+    if (b === 0x28 /* ( */) return this.readLiteralString();
+    if (b === 0x2f /* / */) return this.readName();
+    if (b === 0x5b /* [ */) {
+      this.pos++;
+      const items: FdfObject[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.bytes[this.pos] === 0x5d /* ] */) {
+          this.pos++;
+          return items;
+        }
+        items.push(this.readObject());
+      }
+    }
+    return this.readKeyword();
+  }
+
+  private readDict(): Map<string, FdfObject> {
+    this.pos += 2;
+    const dict = new Map<string, FdfObject>();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.bytes[this.pos] === 0x3e && this.bytes[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        return dict;
+      }
+      const key = this.readObject();
+      if (!(key instanceof FdfName)) throw new Error('Invalid FDF dictionary key');
+      dict.set(key.name, this.readObject());
+    }
+  }
+
+  private readName(): FdfName {
+    this.pos++;
+    const bytes: number[] = [];
+    while (this.isRegular(this.bytes[this.pos])) {
+      const b = this.bytes[this.pos++];
+      if (b === 0x23 /* # */) {
+        bytes.push(parseInt(String.fromCharCode(this.bytes[this.pos], this.bytes[this.pos + 1]), 16));
+        this.pos += 2;
+      } else {
+        bytes.push(b);
+      }
+    }
+    return new FdfName(new TextDecoder().decode(new Uint8Array(bytes)));
+  }
+
+  private readHexString(): string {
+    this.pos++;
+    let hex = '';
+    while (this.pos < this.bytes.length && this.bytes[this.pos] !== 0x3e) {
+      const c = String.fromCharCode(this.bytes[this.pos++]);
+      if (/[0-9a-fA-F]/.test(c)) hex += c;
+    }
+    this.pos++;
+    if (hex.length % 2) hex += '0';
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return decodePdfText(bytes);
+  }
+
+  private readLiteralString(): string {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+    while (this.pos < this.bytes.length) {
+      const b = this.bytes[this.pos++];
+      if (b === 0x5c /* \ */) {
+        const next = this.bytes[this.pos++];
+        if (next in LITERAL_ESCAPES) {
+          bytes.push(LITERAL_ESCAPES[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = String.fromCharCode(next);
+          while (octal.length < 3 && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x37) {
+            octal += String.fromCharCode(this.bytes[this.pos++]);
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === 0x0d) {
+          if (this.bytes[this.pos] === 0x0a) this.pos++; // 줄 이어짐
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+        continue;
+      }
+      if (b === 0x28) depth++;
+      if (b === 0x29 && --depth === 0) break;
+      bytes.push(b);
+    }
+    return decodePdfText(new Uint8Array(bytes));
+  }
+
+  private readKeyword(): FdfObject {
+    const start = this.pos;
+    while (this.isRegular(this.bytes[this.pos])) this.pos++;
+    if (this.pos === start) throw new Error('Invalid FDF data');
+    const word = String.fromCharCode(...this.bytes.subarray(start, this.pos));
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+
+    const number = Number(word);
+    if (Number.isNaN(number)) throw new Error(`Unexpected FDF token: ${word}`);
+    // 간접 참조(n g R)는 FDF 필드 값에 쓰이지 않으므로 숫자로 건너뛴다
+    const save = this.pos;
+    this.skipWhitespace();
+    const rest = String.fromCharCode(...this.bytes.subarray(this.pos, this.pos + 16));
+    const reference = /^(\d+)\s+R(?![^\s()<>[\]{}/%])/.exec(rest);
+    if (reference) {
+      this.pos += reference[0].length;
+      return null;
+    }
+    this.pos = save;
+    return number;
+  }
+}
+
+/** PDF 텍스트 문자열 (UTF-16BE/UTF-8 BOM, 없으면 PDFDocEncoding을 Latin-1로 근사) */
+function decodePdfText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return text;
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder().decode(bytes.subarray(3));
+  return String.fromCharCode(...bytes);
+}
+
+function fdfValue(value: FdfObject | undefined): unknown {
+  if (value instanceof FdfName) return value.name;
+  if (Array.isArray(value)) return value.map(fdfValue).filter((v) => typeof v === 'string');
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return undefined;
+}
+
+function collectFdfFields(fields: FdfObject | undefined, parentName: string, out: Record<string, unknown>) {
+  if (!Array.isArray(fields)) return;
+  for (const entry of fields) {
+    if (!(entry instanceof Map)) continue;
+    const partial = entry.get('T');
+    const name = [parentName, typeof partial === 'string' ? partial : ''].filter(Boolean).join('.');
+    const value = fdfValue(entry.get('V'));
+    if (name && value !== undefined) out[name] = value;
+    collectFdfFields(entry.get('Kids'), name, out);
+  }
+}
+
+export function parseFormFdf(bytes: Uint8Array, fields: FormField[]): FormDataImport {
+  const header = String.fromCharCode(...bytes.subarray(0, 1024));
+  if (!header.includes('%FDF-')) throw new Error('Not an FDF file');
+
+  const fdf = new FdfReader(bytes).readFdfDict();
+  if (!fdf) throw new Error('The FDF file has no /FDF dictionary');
+
+  const raw: Record<string, unknown> = {};
+  collectFdfFields(fdf.get('Fields'), '', raw);
+  return matchFields(raw, fields);
+}
@@ -0,0 +1,317 @@
+/**
+ * Form Fields - pdf.js 위젯 데이터를 양식 필드로 변환하고 값을 다룬다
+ *
+ * 값은 필드 이름 단위로 공유되므로(라디오 묶음, 반복된 필드) 읽기/쓰기도 이름 기준이다.
+ * 날짜 필드는 PDF에 필드의 서식(AFDate, 예: mm/dd/yyyy)대로 저장하고
+ * 화면의 날짜 입력(yyyy-mm-dd)과는 formatFormDate/parseFormDate로 바꾼다.
+ */
+
+import type { FormField, FormFieldType, FormFieldValue, Page } from '../model/types';
+import type { PointMapper } from '../pdf/annotationImport';
+
+// ============================================
+// Types
+// ============================================
+
+/** pdf.js getAnnotations() 위젯 항목 중 사용하는 필드 */
+export interface PdfWidgetData {
+  subtype: string;
+  id: string;
+  rect: number[];
+  fieldName?: string;
+  /** Tx | Btn | Ch | Sig */
+  fieldType?: string | null;
+  fieldValue?: string | string[] | null;
+  defaultFieldValue?: string | string[] | null;
+  readOnly?: boolean;
+  required?: boolean;
+  hidden?: boolean;
+  multiLine?: boolean;
+  maxLen?: number;
+  textAlignment?: number | null;
+  password?: boolean;
+  checkBox?: boolean;
+  radioButton?: boolean;
+  pushButton?: boolean;
+  /** checkbox: 켜짐 상태 이름 */
+  exportValue?: string;
+  /** radio: 이 단추의 켜짐 상태 이름 */
+  buttonValue?: string | null;
+  options?: { exportValue: string | null; displayValue: string | null }[];
+  combo?: boolean;
+  multiSelect?: boolean;
+  /** 편집 가능 콤보 상자 (Ff Edit) */
+  fieldFlags?: number;
+  datetimeType?: string;
+  datetimeFormat?: string;
+  defaultAppearanceData?: { fontSize?: number };
+}
+
+/** 꺼진 checkbox/radio 값 */
+export const FORM_OFF_VALUE = 'Off';
+
+/** Ch 필드 플래그: Edit (콤보 상자에 직접 입력) */
+const FIELD_FLAG_EDIT = 1 << 18;
+
+const TEXT_ALIGNS = ['left', 'center', 'right'] as const;
+
+// ============================================
+// Import
+// ============================================
+
+function stringOf(value: string | string[] | null | undefined): string {
+  if (Array.isArray(value)) return value[0] ?? '';
+  return value ?? '';
+}
+
+function listOf(value: string | string[] | null | undefined): string[] {
+  if (Array.isArray(value)) return value;
+  return value ? [value] : [];
+}
+
+function fieldTypeOf(data: PdfWidgetData): FormFieldType | null {
+  switch (data.fieldType) {
+    case 'Tx':
+      if (data.password) return null;
+      return data.datetimeType === 'date' ? 'date' : 'text';
+    case 'Btn':
+      if (data.checkBox) return 'checkbox';
+      if (data.radioButton) return 'radio';
+      return null;
+    case 'Ch':
+      return data.combo ? 'combo' : 'list';
+    default:
+      // 서명 필드(Sig), 누름 단추, 알 수 없는 필드는 입력 대상이 아님
+      return null;
+  }
+}
+
+/**
+ * pdf.js 위젯 → 양식 필드 (입력할 수 없는 위젯이면 null)
+ */
+export function convertPdfFormField(data: PdfWidgetData, toEditor: PointMapper): FormField | null {
+  if (data.subtype !== 'Widget' || data.hidden || !data.fieldName) return null;
+  const type = fieldTypeOf(data);
+  if (!type) return null;
+
+  const [x1, y1, x2, y2] = data.rect;
+  const a = toEditor(x1, y1);
+  const b = toEditor(x2, y2);
+  const field: FormField = {
+    id: data.id,
+    name: data.fieldName,
+    type,
+    rect: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) },
+    value: '',
+    defaultValue: '',
+  };
+  if (data.readOnly) field.readOnly = true;
+  if (data.required) field.required = true;
+  const fontSize = data.defaultAppearanceData?.fontSize;
+  if (typeof fontSize === 'number' && fontSize >= 0) field.fontSize = fontSize;
+
+  switch (type) {
+    case 'text':
+    case 'date':
+      field.value = stringOf(data.fieldValue);
+      field.defaultValue = stringOf(data.defaultFieldValue);
+      if (data.multiLine) field.multiline = true;
+      if (data.maxLen) field.maxLength = data.maxLen;
+      if (typeof data.textAlignment === 'number') field.textAlign = TEXT_ALIGNS[data.textAlignment];
+      if (type === 'date') field.dateFormat = data.datetimeFormat;
+      break;
+    case 'checkbox':
+    case 'radio': {
+      const exportValue = type === 'checkbox' ? data.exportValue : data.buttonValue;
+      if (!exportValue) return null;
+      field.exportValue = exportValue;
+      field.value = stringOf(data.fieldValue) || FORM_OFF_VALUE;
+      field.defaultValue = stringOf(data.defaultFieldValue) || FORM_OFF_VALUE;
+      break;
+    }
+    case 'combo':
+    case 'list':
+      field.options = (data.options ?? []).map((option) => {
+        const value = option.exportValue ?? option.displayValue ?? '';
+        return { value, label: option.displayValue ?? value };
+      });
+      if (type === 'combo') {
+        field.value = stringOf(data.fieldValue);
+        field.defaultValue = stringOf(data.defaultFieldValue);
+        if ((data.fieldFlags ?? 0) & FIELD_FLAG_EDIT) field.editable = true;
+      } else {
+        field.value = listOf(data.fieldValue);
+        field.defaultValue = listOf(data.defaultFieldValue);
+        if (data.multiSelect) field.multiSelect = true;
+      }
+      break;
+  }
+  return field;
+}
+
+// ============================================
+// Values
+// ============================================
+
+export function isFormFieldChecked(field: FormField): boolean {
+  return field.exportValue !== undefined && field.value === field.exportValue;
+}
+
+function valuesEqual(a: FormFieldValue, b: FormFieldValue): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+  return a === b;
+}
+
+/** 문서의 모든 양식 필드 (페이지 순) */
+export function collectFormFields(pages: Page[]): FormField[] {
+  return pages.flatMap((page) => (page.deleted ? [] : page.formFields ?? []));
+}
+
+/** 필드 이름 → 값 (같은 이름은 첫 위젯의 값) */
+export function collectFormValues(pages: Page[]): Record<string, FormFieldValue> {
+  const values: Record<string, FormFieldValue> = {};
+  for (const field of collectFormFields(pages)) {
+    if (!(field.name in values)) values[field.name] = field.value;
+  }
+  return values;
+}
+
+/**
+ * 이름별 값을 위젯 목록에 적용
+ * @returns 바뀐 위젯이 없으면 같은 배열
+ */
+export function applyFormValues(fields: FormField[], values: Record<string, FormFieldValue>): FormField[] {
+  let changed = false;
+  const next = fields.map((field) => {
+    if (!Object.prototype.hasOwnProperty.call(values, field.name)) return field;
+    const value = values[field.name];
+    if (valuesEqual(field.value, value)) return field;
+    changed = true;
+    return { ...field, value };
+  });
+  return changed ? next : fields;
+}
+
+/** 모든 필드를 초기값(/DV)으로 되돌리는 값 */
+export function defaultFormValues(fields: FormField[]): Record<string, FormFieldValue> {
+  const values: Record<string, FormFieldValue> = {};
+  for (const field of fields) {
+    if (!(field.name in values)) values[field.name] = field.defaultValue;
+  }
+  return values;
+}
+
+/** 필수 필드 중 값이 비어 있는 필드 이름 */
+export function missingRequiredFields(fields: FormField[]): string[] {
+  const missing = new Set<string>();
+  for (const field of fields) {
+    if (!field.required) continue;
+    const empty = Array.isArray(field.value) ? field.value.length === 0 : field.value === '' || field.value === FORM_OFF_VALUE;
+    if (empty) missing.add(field.name);
+  }
+  return [...missing];
+}
+
+/**
+ * 외부 값(JSON/FDF)을 필드 종류에 맞는 값으로 변환
+ * checkbox는 true/false도 받는다. 변환할 수 없으면 undefined.
+ */
+export function coerceFormValue(field: FormField, raw: unknown): FormFieldValue | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  switch (field.type) {
+    case 'checkbox':
+      if (typeof raw === 'boolean') return raw ? field.exportValue! : FORM_OFF_VALUE;
+      if (typeof raw !== 'string') return undefined;
+      if (raw === '' || raw === FORM_OFF_VALUE || /^(false|no)$/i.test(raw)) return FORM_OFF_VALUE;
+      return /^(true|yes|on)$/i.test(raw) ? field.exportValue! : raw;
+    case 'radio':
+      if (typeof raw !== 'string' && typeof raw !== 'number') return undefined;
+      return String(raw) || FORM_OFF_VALUE;
+    case 'list': {
+      const items = Array.isArray(raw) ? raw : [raw];
+      if (!items.every((item) => typeof item === 'string' || typeof item === 'number')) return undefined;
+      return items.map(String);
+    }
+    default: {
+      const value = Array.isArray(raw) ? raw[0] : raw;
+      if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+      const text = String(value);
+      return field.maxLength ? text.slice(0, field.maxLength) : text;
+    }
+  }
+}
+
+// ============================================
+// Date Format
+// ============================================
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** AFDate 서식 토큰 (긴 토큰부터) */
+const DATE_TOKEN = /yyyy|yy|mmmm|mmm|mm|m|dd|d/g;
+
+/**
+ * ISO 날짜(yyyy-mm-dd) → 필드 서식 문자열
+ * 서식이 없으면 ISO 그대로
+ */
+export function formatFormDate(iso: string, format?: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso);
+  if (!match || !format) return iso;
+  const [, year, month, day] = match;
+  const m = Number(month);
+  const d = Number(day);
+  return format.replace(DATE_TOKEN, (token) => {
+    switch (token) {
+      case 'yyyy': return year;
+      case 'yy': return year.slice(2);
+      case 'mmmm': return MONTH_NAMES[m - 1];
+      case 'mmm': return MONTH_NAMES[m - 1].slice(0, 3);
+      case 'mm': return month;
+      case 'm': return String(m);
+      case 'dd': return day;
+      default: return String(d);
+    }
+  });
+}
+
+/**
+ * 필드 서식 문자열 → ISO 날짜 (읽을 수 없으면 null)
+ * 이미 ISO 형식인 값도 받는다.
+ */
+export function parseFormDate(text: string, format?: string): string | null {
+  const value = text.trim();
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (!format) return null;
+
+  const tokens: string[] = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of format.matchAll(DATE_TOKEN)) {
+    pattern += escapeRegExp(format.slice(last, match.index));
+    tokens.push(match[0]);
+    pattern += match[0].startsWith('mmm') ? '([A-Za-z]+)' : match[0] === 'yyyy' ? '(\\d{4})' : match[0].length === 2 ? '(\\d{2})' : '(\\d{1,2})';
+    last = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(format.slice(last));
+
+  const match = new RegExp(`^${pattern}$`).exec(value);
+  if (!match) return null;
+  let year = NaN, month = NaN, day = NaN;
+  tokens.forEach((token, i) => {
+    const part = match[i + 1];
+    if (token === 'yyyy') year = Number(part);
+    else if (token === 'yy') year = 2000 + Number(part);
+    else if (token.startsWith('mmm')) month = MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(part.toLowerCase().slice(0, 3))) + 1;
+    else if (token.startsWith('m')) month = Number(part);
+    else day = Number(part);
+  });
+  if (!(year > 0 && month >= 1 && month <= 12 && day >= 1 && day <= 31)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
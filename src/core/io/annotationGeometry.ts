@@ -0,0 +1,324 @@
+/**
+ * Annotation Geometry - 내보내기 렌더러가 공유하는 주석 도형/텍스트 배치 계산
+ *
+ * 편집 좌표계(좌상단 원점, 단위 = Page 단위)의 SVG 경로 문자열과 점 목록을 만든다.
+ * Canvas 합성(annotationPainter), SVG(svgWriter), PDF(pdfVectorWriter/pdfAnnotationWriter)가
+ * 같은 계산을 쓰므로 출력 형식과 관계없이 모양이 일치한다.
+ */
+
+import type { BBox, Point } from '../model/types';
+import type { RedactionAnnotation, TextMarkupAnnotation } from '../../types/annotation';
+import { markupLineWidth, markupLineY, squigglyPoints } from '../pdf/textLayer';
+import { redactionRegions } from '../redaction/redaction';
+
+// ============================================
+// Text Layout
+// ============================================
+
+export interface TextBlock {
+  content: string;
+  /** 편집 좌표 기준 텍스트 영역 (패딩 제외) */
+  box: BBox;
+  fontSize: number;
+  fontFamily?: string;
+  fontWeight?: string;
+  fontStyle?: string;
+  color?: string;
+  opacity?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  /** 줄 높이 배수 */
+  lineHeight: number;
+}
+
+/**
+ * 줄바꿈 + 단어 단위 래핑 (한 단어가 넘치면 글자 단위로 분할)
+ */
+export function wrapTextLines(
+  text: string,
+  maxWidth: number,
+  measure: (s: string) => number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\t/g, '    ').split(/\r?\n/)) {
+    if (paragraph === '') {
+      lines.push('');
+      continue;
+    }
+
+    let current = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      if (word === '') continue;
+      const candidate = current + word;
+      if (measure(candidate) <= maxWidth || current === '') {
+        current = candidate;
+      } else {
+        lines.push(current.trimEnd());
+        current = word.trimStart();
+      }
+
+      // 단일 단어가 폭을 넘는 경우 글자 단위 분할
+      while (current.length > 1 && measure(current) > maxWidth) {
+        let cut = current.length - 1;
+        while (cut > 1 && measure(current.slice(0, cut)) > maxWidth) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    lines.push(current.trimEnd());
+  }
+
+  return lines;
+}
+
+/** 줄 높이와 첫 줄 위쪽 y (세로 정렬 반영) */
+export function layoutOffsets(block: TextBlock, lineCount: number) {
+  const lineHeight = block.fontSize * block.lineHeight;
+  const total = lineCount * lineHeight;
+  const { box } = block;
+  const top =
+    block.verticalAlign === 'bottom' ? box.y + box.height - total
+      : block.verticalAlign === 'top' ? box.y
+        : box.y + (box.height - total) / 2;
+  return { lineHeight, top };
+}
+
+/** 텍스트 폭 측정 (편집 좌표 단위) */
+export type TextMeasure = (text: string, block: TextBlock) => number;
+
+export interface TextBlockLayout {
+  /** 가로 정렬 기준점 (start = 왼쪽, middle = 가운데, end = 오른쪽) */
+  anchor: 'start' | 'middle' | 'end';
+  x: number;
+  /** 줄별 기준선 y (빈 줄과 박스 밖으로 시작하는 줄은 제외) */
+  lines: { text: string; baseline: number }[];
+}
+
+/** CSS font 단축 속성 */
+export function cssFont(block: TextBlock): string {
+  return `${block.fontStyle || 'normal'} ${block.fontWeight || 'normal'} ${block.fontSize}px ${block.fontFamily || 'sans-serif'}`;
+}
+
+/**
+ * 텍스트 블록 줄 배치 (Canvas/SVG 공용)
+ * 기준선은 줄 가운데에 글자 높이(≈ 0.8em 어센트)를 맞춘 위치.
+ */
+export function layoutTextBlock(block: TextBlock, measure: TextMeasure): TextBlockLayout {
+  const { box, fontSize } = block;
+  const anchor = block.textAlign === 'center' ? 'middle' : block.textAlign === 'right' ? 'end' : 'start';
+  const x = anchor === 'middle' ? box.x + box.width / 2 : anchor === 'end' ? box.x + box.width : box.x;
+  if (!block.content || box.width <= 0 || box.height <= 0) return { anchor, x, lines: [] };
+
+  const wrapped = wrapTextLines(block.content, box.width, (s) => measure(s, block));
+  const { lineHeight, top } = layoutOffsets(block, wrapped.length);
+  const lines = wrapped
+    .map((text, i) => ({ text, lineTop: top + i * lineHeight }))
+    // overflow: hidden 근사 - 박스 밖으로 시작하는 줄은 생략
+    .filter(({ text, lineTop }) => text !== '' && lineTop < box.y + box.height)
+    .map(({ text, lineTop }) => ({ text, baseline: lineTop + (lineHeight - fontSize) / 2 + fontSize * 0.8 }));
+
+  return { anchor, x, lines };
+}
+
+// ============================================
+// Style
+// ============================================
+
+/** SVG 대시 패턴('4 4') → 숫자 배열 */
+export function parseDashArray(dash: string | undefined): number[] | undefined {
+  if (!dash) return undefined;
+  const values = dash.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some((n) => isNaN(n) || n < 0)) return undefined;
+  return values;
+}
+
+// ============================================
+// Path Builders (SVG 문법)
+// ============================================
+
+export function buildRectPath(box: BBox, radius = 0): string {
+  const { x, y, width: w, height: h } = box;
+  const r = Math.max(0, Math.min(radius, w / 2, h / 2));
+  if (r === 0) {
+    return `M ${x} ${y} L ${x + w} ${y} L ${x + w} ${y + h} L ${x} ${y + h} Z`;
+  }
+  return [
+    `M ${x + r} ${y}`,
+    `L ${x + w - r} ${y}`,
+    `A ${r} ${r} 0 0 1 ${x + w} ${y + r}`,
+    `L ${x + w} ${y + h - r}`,
+    `A ${r} ${r} 0 0 1 ${x + w - r} ${y + h}`,
+    `L ${x + r} ${y + h}`,
+    `A ${r} ${r} 0 0 1 ${x} ${y + h - r}`,
+    `L ${x} ${y + r}`,
+    `A ${r} ${r} 0 0 1 ${x + r} ${y}`,
+    'Z',
+  ].join(' ');
+}
+
+function polar(cx: number, cy: number, rx: number, ry: number, angleDeg: number): Point {
+  const rad = (angleDeg - 90) * (Math.PI / 180);
+  return { x: cx + rx * Math.cos(rad), y: cy + ry * Math.sin(rad) };
+}
+
+/**
+ * 타원/호/도넛 경로 (ShapeAnnotation의 화면 표시와 동일한 각도 규칙: 0° = 12시 방향)
+ */
+export function buildEllipsePath(
+  cx: number, cy: number,
+  rx: number, ry: number,
+  startAngle = 0, sweepAngle = 360,
+  innerRatio = 0
+): string {
+  const full = sweepAngle >= 359.99;
+  const outerStart = polar(cx, cy, rx, ry, startAngle);
+  const outerEnd = polar(cx, cy, rx, ry, startAngle + sweepAngle);
+  const outerMid = polar(cx, cy, rx, ry, startAngle + 180);
+  const largeArc = sweepAngle > 180 ? 1 : 0;
+
+  const outer = full
+    ? [
+      `M ${outerStart.x} ${outerStart.y}`,
+      `A ${rx} ${ry} 0 1 1 ${outerMid.x} ${outerMid.y}`,
+      `A ${rx} ${ry} 0 1 1 ${outerStart.x} ${outerStart.y}`,
+    ]
+    : [
+      innerRatio > 0 ? `M ${outerStart.x} ${outerStart.y}` : `M ${cx} ${cy} L ${outerStart.x} ${outerStart.y}`,
+      `A ${rx} ${ry} 0 ${largeArc} 1 ${outerEnd.x} ${outerEnd.y}`,
+    ];
+
+  if (innerRatio <= 0) return [...outer, 'Z'].join(' ');
+
+  const irx = rx * innerRatio;
+  const iry = ry * innerRatio;
+  const innerStart = polar(cx, cy, irx, iry, startAngle);
+  const innerEnd = polar(cx, cy, irx, iry, startAngle + sweepAngle);
+
+  if (full) {
+    // 내부 원은 역방향으로 그려 nonzero 채우기에서도 구멍이 생기도록 함
+    const innerMid = polar(cx, cy, irx, iry, startAngle + 180);
+    return [
+      ...outer,
+      'Z',
+      `M ${innerStart.x} ${innerStart.y}`,
+      `A ${irx} ${iry} 0 1 0 ${innerMid.x} ${innerMid.y}`,
+      `A ${irx} ${iry} 0 1 0 ${innerStart.x} ${innerStart.y}`,
+      'Z',
+    ].join(' ');
+  }
+
+  return [
+    ...outer,
+    `L ${innerEnd.x} ${innerEnd.y}`,
+    `A ${irx} ${iry} 0 ${largeArc} 0 ${innerStart.x} ${innerStart.y}`,
+    'Z',
+  ].join(' ');
+}
+
+/** 자유곡선 경로 (FreehandAnnotation과 동일한 2차 베지어 스무딩) */
+export function buildSmoothPath(points: Point[]): string {
+  if (points.length === 0) return '';
+  if (points.length === 1) {
+    // 점 하나는 길이 0 선분으로 그려 round cap이 점을 표시하도록 함
+    return `M ${points[0].x} ${points[0].y} L ${points[0].x} ${points[0].y}`;
+  }
+  if (points.length === 2) {
+    return `M ${points[0].x} ${points[0].y} L ${points[1].x} ${points[1].y}`;
+  }
+
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    path += ` Q ${points[i].x} ${points[i].y} ${midX} ${midY}`;
+  }
+  const last = points[points.length - 1];
+  return `${path} L ${last.x} ${last.y}`;
+}
+
+/**
+ * 텍스트 마크업 선 (quad별 경로 + 두께)
+ * TextMarkupAnnotation 컴포넌트와 같은 위치에 밑줄/취소선/물결 밑줄을 만든다.
+ */
+export function buildTextMarkupStrokes(a: TextMarkupAnnotation): { path: string; width: number }[] {
+  return a.quads.map((quad) => {
+    const width = markupLineWidth(quad);
+    if (a.type === 'squiggly') {
+      const points = squigglyPoints(quad);
+      return { path: points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' '), width };
+    }
+    const y = markupLineY(quad, a.type);
+    return { path: `M ${quad.x} ${y} L ${quad.x + quad.width} ${y}`, width };
+  });
+}
+
+/**
+ * 가림 영역 위 대체 문구 (영역마다 가운데, 영역 높이에 맞춰 글자 크기 축소)
+ * 가려진 내용(content)은 절대 쓰지 않는다.
+ */
+export function redactionLabelBlocks(a: RedactionAnnotation): TextBlock[] {
+  if (!a.overlayText) return [];
+  return redactionRegions(a).map((region): TextBlock => ({
+    content: a.overlayText!,
+    box: region,
+    fontSize: Math.min(a.style.fontSize || 12, region.height * 0.7),
+    fontFamily: a.style.fontFamily,
+    fontWeight: 'bold',
+    color: a.style.color || '#FFFFFF',
+    textAlign: 'center',
+    verticalAlign: 'middle',
+    lineHeight: 1,
+  }));
+}
+
+/** 직선 또는 2차 베지어 선 경로 (LineAnnotation.controlPoint) */
+export function buildLinePath(start: Point, end: Point, control?: Point | null): string {
+  return control
+    ? `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`
+    : `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+}
+
+/** 화살촉: 끝점 접선 방향 기준 ±30° 삼각형 꼭짓점 */
+export function arrowHeadPoints(start: Point, end: Point, control: Point | null | undefined, size: number): Point[] {
+  const tangent = control ? { x: end.x - control.x, y: end.y - control.y } : { x: end.x - start.x, y: end.y - start.y };
+  const angle = Math.atan2(tangent.y, tangent.x);
+  return [
+    end,
+    { x: end.x - size * Math.cos(angle - Math.PI / 6), y: end.y - size * Math.sin(angle - Math.PI / 6) },
+    { x: end.x - size * Math.cos(angle + Math.PI / 6), y: end.y - size * Math.sin(angle + Math.PI / 6) },
+  ];
+}
+
+/** 별 꼭짓점 (StarAnnotation 컴포넌트와 같은 규칙: 원에 내접, 첫 꼭짓점은 12시 방향) */
+export function starPoints(bbox: BBox, numPoints: number, innerRadius: number, strokeWidth: number): Point[] {
+  const cx = bbox.x + bbox.width / 2;
+  const cy = bbox.y + bbox.height / 2;
+  const outer = Math.max(0, Math.min(bbox.width, bbox.height) / 2 - strokeWidth);
+  const inner = outer * innerRadius;
+  return Array.from({ length: numPoints * 2 }, (_, i) => {
+    const r = i % 2 === 0 ? outer : inner;
+    const angle = (i * Math.PI) / numPoints - Math.PI / 2;
+    return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+  });
+}
+
+/** 번개 꼭짓점 (저장된 꼭짓점이 없으면 bbox 기준 기본 모양) */
+export function lightningPoints(bbox: BBox, points?: Point[]): Point[] {
+  if (points && points.length >= 3) return points;
+  const { x, y, width: w, height: h } = bbox;
+  return [
+    { x: x + w * 0.4, y: y + h * 0.05 },
+    { x: x + w * 0.1, y: y + h * 0.5 },
+    { x: x + w * 0.4, y: y + h * 0.4 },
+    { x: x + w * 0.6, y: y + h * 0.95 },
+    { x: x + w * 0.9, y: y + h * 0.5 },
+    { x: x + w * 0.6, y: y + h * 0.6 },
+  ];
+}
+
+/** 닫힌 다각형 경로 */
+export function buildPolygonPath(points: Point[]): string {
+  if (points.length === 0) return '';
+  return `${points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')} Z`;
+}
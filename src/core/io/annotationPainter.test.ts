@@ -0,0 +1,186 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createCanvas, GlobalFonts, loadImage, Path2D } from "@napi-rs/canvas";
+import type { SKRSContext2D } from "@napi-rs/canvas";
+import { ANNOTATION_PAINTERS, collectImageSources, paintAnnotation } from "./annotationPainter";
+import { cssFont } from "./annotationGeometry";
+import type { TextBlock } from "./annotationGeometry";
+import { annotationToSvg, svgDocument } from "./svgWriter";
+import { createBarcodeAnnotation } from "../barcode/barcodeEncoder";
+import type { Annotation } from "../model/types";
+
+const WIDTH = 200;
+const HEIGHT = 120;
+const base = { pageId: "p1", createdAt: 0, modifiedAt: 0 };
+const bbox = { x: 20, y: 15, width: 160, height: 90 };
+/** 시스템 글꼴 (Skia SVG 렌더러는 generic family를 해석하지 못하므로 실제 이름 사용) */
+const families = GlobalFonts.families.map((f) => f.family);
+const FONT = families.find((f) => /sans/i.test(f) && !/mono/i.test(f)) ?? families[0];
+const TEXT_TYPES = new Set(["text", "stamp", "ai", "table"]);
+const cellStyle = {
+  fontSize: 12, fontFamily: FONT, fontWeight: "normal" as const, fontStyle: "normal" as const,
+  textAlign: "left" as const, verticalAlign: "top" as const,
+  color: "#000", backgroundColor: "transparent", backgroundOpacity: 1,
+};
+
+/** 한 칸짜리 파란 PNG (이미지 주석용) */
+const swatch = (() => {
+  const canvas = createCanvas(4, 4);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#1E88E5";
+  ctx.fillRect(0, 0, 4, 4);
+  return canvas.toDataURL("image/png");
+})();
+
+const FIXTURES: Annotation[] = [
+  {
+    ...base, id: "text", type: "text", bbox, content: "Golden text wraps inside the box",
+    style: { fontSize: 18, fontFamily: FONT, color: "#C62828", backgroundColor: "#FFF3E0", backgroundOpacity: 0.8, textAlign: "center", borderColor: "#1565C0", borderWidth: 3 },
+  } as Annotation,
+  { ...base, id: "highlight", type: "highlight", bbox, quads: [{ x: 20, y: 20, width: 150, height: 20 }, { x: 20, y: 50, width: 90, height: 20 }], style: { fill: "#FFEB3B" }, opacity: 0.5 } as Annotation,
+  { ...base, id: "underline", type: "underline", bbox, quads: [{ x: 20, y: 30, width: 160, height: 24 }], style: { stroke: "#E53935" } } as Annotation,
+  { ...base, id: "squiggly", type: "squiggly", bbox, quads: [{ x: 20, y: 30, width: 160, height: 24 }], style: { stroke: "#43A047" } } as Annotation,
+  { ...base, id: "redaction", type: "redaction", bbox, content: "secret", quads: [{ x: 20, y: 20, width: 150, height: 20 }, { x: 20, y: 50, width: 90, height: 20 }], style: { fill: "#000000" } } as Annotation,
+  { ...base, id: "rectangle", type: "rectangle", bbox, style: { stroke: "#1E88E5", strokeWidth: 6, fill: "#BBDEFB", strokeDasharray: "12 6" } } as Annotation,
+  { ...base, id: "roundedRect", type: "roundedRect", bbox, cornerRadius: 24, style: { stroke: "#6A1B9A", strokeWidth: 4, fill: "#E1BEE7" } } as Annotation,
+  { ...base, id: "ellipse", type: "ellipse", bbox, style: { stroke: "#2E7D32", strokeWidth: 5, fill: "#C8E6C9" } } as Annotation,
+  {
+    ...base, id: "arc", type: "ellipse", bbox, startAngle: 30, sweepAngle: 240, innerRadiusRatio: 0.45,
+    style: { stroke: "#EF6C00", strokeWidth: 3, fill: "#FFE0B2", strokeDasharray: "8 4" },
+  } as Annotation,
+  {
+    ...base, id: "curve", type: "line", bbox, startPoint: { x: 20, y: 100 }, endPoint: { x: 180, y: 100 }, controlPoint: { x: 100, y: 10 },
+    style: { stroke: "#AD1457", strokeWidth: 6, strokeDasharray: "14 6" },
+  } as Annotation,
+  { ...base, id: "arrow", type: "arrow", bbox, startPoint: { x: 25, y: 95 }, endPoint: { x: 170, y: 25 }, arrowHeadSize: 24, style: { stroke: "#283593", strokeWidth: 5 } } as Annotation,
+  { ...base, id: "star", type: "star", bbox, points: [], numPoints: 6, innerRadius: 0.5, style: { stroke: "#F57F17", strokeWidth: 3, fill: "#FFD54F" } } as unknown as Annotation,
+  { ...base, id: "lightning", type: "lightning", bbox, points: [], style: { stroke: "#424242", strokeWidth: 2 } } as unknown as Annotation,
+  {
+    ...base, id: "freehand", type: "freehand", bbox,
+    points: [{ x: 20, y: 90 }, { x: 60, y: 20 }, { x: 100, y: 90 }, { x: 140, y: 20 }, { x: 180, y: 90 }],
+    style: { stroke: "#00838F", strokeWidth: 7 },
+  } as Annotation,
+  { ...base, id: "highlighter", type: "highlighter", bbox, points: [{ x: 20, y: 60 }, { x: 100, y: 50 }, { x: 180, y: 60 }], style: { stroke: "#FF9800", strokeWidth: 24 } } as Annotation,
+  { ...base, id: "image", type: "image", bbox, imageData: swatch, originalWidth: 4, originalHeight: 4, style: { opacity: 0.7 } } as Annotation,
+  createBarcodeAnnotation({ pageId: "p1", format: "qr", value: "JustFlux", center: { x: 100, y: 60 } }),
+  { ...base, id: "stamp", type: "stamp", bbox, stampType: "approved", content: "", style: { fontSize: 28, fontFamily: FONT } } as Annotation,
+  { ...base, id: "ai", type: "ai", bbox, content: "AI summary text flows across lines", style: { fontSize: 16, fontFamily: FONT, color: "#37474F" } } as Annotation,
+  {
+    ...base, id: "table", type: "table", bbox: { x: 20, y: 15, width: 160, height: 80 },
+    rows: 2, cols: 2, colWidths: [80, 80], rowHeights: [40, 40], borderWidth: 3, borderColor: "#455A64",
+    cells: [
+      [
+        { content: "Name", style: { ...cellStyle, fontWeight: "bold", textAlign: "center", backgroundColor: "#B3E5FC", backgroundOpacity: 0.6 } },
+        { content: "Value", style: { ...cellStyle, fontStyle: "italic", color: "#C62828" } },
+      ],
+      [
+        { content: "", style: cellStyle },
+        { content: "42", style: { ...cellStyle, textAlign: "right" } },
+      ],
+    ],
+    style: {},
+  } as unknown as Annotation,
+];
+
+let measureContext: SKRSContext2D;
+const measureText = (text: string, block: TextBlock) => {
+  measureContext.font = cssFont(block);
+  return measureContext.measureText(text).width;
+};
+
+function blankCanvas(scale: number) {
+  const canvas = createCanvas(WIDTH * scale, HEIGHT * scale);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+}
+
+async function paintToPixels(annotation: Annotation, scale = 1): Promise<Uint8ClampedArray> {
+  const { ctx } = blankCanvas(scale);
+  const images = new Map();
+  for (const src of collectImageSources([annotation])) images.set(src, await loadImage(src));
+  paintAnnotation(ctx as unknown as CanvasRenderingContext2D, annotation, scale, { images });
+  return ctx.getImageData(0, 0, WIDTH * scale, HEIGHT * scale).data;
+}
+
+async function svgToPixels(annotation: Annotation, scale = 1): Promise<Uint8ClampedArray> {
+  const { ctx } = blankCanvas(scale);
+  const body = annotationToSvg(annotation, { measureText });
+  const svg = svgDocument(WIDTH * scale, HEIGHT * scale, `<g transform="scale(${scale})">${body}</g>`);
+  ctx.drawImage(await loadImage(Buffer.from(svg)), 0, 0);
+
+  // Skia SVG 렌더러는 내장 이미지를 디코딩하지 않으므로 <image> 속성대로 합성
+  for (const [, attrs] of body.matchAll(/<image ([^>]*)\/>/g)) {
+    const attr = (name: string) => attrs.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.globalAlpha = Number(attr("opacity") ?? 1);
+    ctx.drawImage(await loadImage(attr("xlink:href")!), Number(attr("x")), Number(attr("y")), Number(attr("width")), Number(attr("height")));
+    ctx.restore();
+  }
+  return ctx.getImageData(0, 0, WIDTH * scale, HEIGHT * scale).data;
+}
+
+/** 채널 차이가 threshold를 넘는 픽셀 비율과 흰색이 아닌 픽셀 수 */
+function compare(a: Uint8ClampedArray, b: Uint8ClampedArray, threshold = 48) {
+  let mismatched = 0;
+  let inked = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    if (diff > threshold) mismatched++;
+    if (a[i] < 250 || a[i + 1] < 250 || a[i + 2] < 250) inked++;
+  }
+  return { mismatchRatio: mismatched / (a.length / 4), inked };
+}
+
+/** 흰색이 아닌 픽셀의 경계 상자 [left, top, right, bottom] */
+function inkBounds(pixels: Uint8ClampedArray, width: number): number[] {
+  const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i] >= 250 && pixels[i + 1] >= 250 && pixels[i + 2] >= 250) continue;
+    const x = (i / 4) % width;
+    const y = Math.floor(i / 4 / width);
+    bounds[0] = Math.min(bounds[0], x);
+    bounds[1] = Math.min(bounds[1], y);
+    bounds[2] = Math.max(bounds[2], x);
+    bounds[3] = Math.max(bounds[3], y);
+  }
+  return bounds;
+}
+
+beforeAll(() => {
+  // Node에는 Path2D가 없으므로 Skia 구현 사용
+  vi.stubGlobal("Path2D", Path2D);
+  measureContext = createCanvas(1, 1).getContext("2d");
+});
+
+describe("paintAnnotation golden images", () => {
+  it("has a painter for every annotation type in the fixtures", () => {
+    for (const annotation of FIXTURES) {
+      expect(ANNOTATION_PAINTERS[annotation.type]).toBeTypeOf("function");
+    }
+  });
+
+  it.each(FIXTURES.map((a) => [a.id, a] as const))("matches the SVG renderer for %s", async (_id, annotation) => {
+    if (TEXT_TYPES.has(annotation.type) && !FONT) return;
+    const painted = await paintToPixels(annotation);
+    const expected = await svgToPixels(annotation);
+    const { mismatchRatio, inked } = compare(painted, expected);
+
+    expect(inked).toBeGreaterThan(50);
+    // 글자 모양(커닝/힌팅)은 Canvas와 SVG 텍스트 엔진 사이에 미세하게 다르므로 여유를 둠
+    expect(mismatchRatio).toBeLessThan(TEXT_TYPES.has(annotation.type) ? 0.03 : 0.01);
+    inkBounds(painted, WIDTH).forEach((edge, i) => expect(Math.abs(edge - inkBounds(expected, WIDTH)[i])).toBeLessThanOrEqual(2));
+  });
+
+  it("scales with the export resolution", async () => {
+    const annotation = FIXTURES.find((a) => a.id === "arc")!;
+    const { mismatchRatio } = compare(await paintToPixels(annotation, 2), await svgToPixels(annotation, 2));
+    expect(mismatchRatio).toBeLessThan(0.01);
+  });
+
+  it("draws nothing for invisible OCR words", async () => {
+    const ocr = { ...base, id: "ocr", type: "ocr", bbox, content: "hidden", confidence: 90, language: "eng", style: {} } as Annotation;
+    expect(compare(await paintToPixels(ocr), await svgToPixels(ocr)).inked).toBe(0);
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Annotation Painter - 주석을 Canvas 2D에 그리는 공용 렌더러
+ *
+ * 래스터 내보내기(pageRenderer)와 벡터 PDF 오버레이가 같은 코드로 주석을 그린다.
+ * 도형/텍스트 배치는 annotationGeometry를 공유하고 기본값은 svgWriter와 같아
+ * PNG/JPEG/SVG/PDF 어느 형식으로 내보내도 화면과 같은 모양이 된다.
+ * AnnotationRegistry에 등록된 타입은 레지스트리의 paint를 우선 사용한다.
+ */
+
+import type { Annotation, BBox } from '../model/types';
+import type {
+  TextAnnotation,
+  HighlightAnnotation,
+  TextMarkupAnnotation,
+  RedactionAnnotation,
+  RectangleAnnotation,
+  RoundedRectAnnotation,
+  EllipseAnnotation,
+  ArrowAnnotation,
+  LineAnnotation,
+  StarAnnotation,
+  LightningAnnotation,
+  FreehandAnnotation,
+  HighlighterAnnotation,
+  ImageAnnotation,
+  BarcodeAnnotation,
+  StampAnnotation,
+  SignatureAnnotation,
+  AIAnnotation,
+  TableAnnotation,
+} from '../../types/annotation';
+import type { TextBlock } from './annotationGeometry';
+import {
+  arrowHeadPoints,
+  buildEllipsePath,
+  buildLinePath,
+  buildPolygonPath,
+  buildRectPath,
+  buildSmoothPath,
+  buildTextMarkupStrokes,
+  cssFont,
+  layoutTextBlock,
+  lightningPoints,
+  parseDashArray,
+  redactionLabelBlocks,
+  starPoints,
+} from './annotationGeometry';
+import { redactionRegions } from '../redaction/redaction';
+import { barcodeModuleRects } from '../barcode/barcodeEncoder';
+import { annotationRotation, bboxCenter, isRotated } from '../annotations/annotationRotation';
+import { gridLinesPath, layoutTableCells, layoutTableGrid } from '../table/tableModel';
+import { stampColor, stampFrame, stampTextBlock } from '../stamps/stampAppearance';
+import { signatureStrokePaths } from '../signatures/signatureStrokes';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PaintResources {
+  /** 미리 불러온 이미지 (ImageAnnotation / 이미지 스탬프의 imageData → 이미지) */
+  images?: Map<string, CanvasImageSource>;
+}
+
+/** 편집 좌표계(좌상단 원점, 단위 = Page 단위)로 주석 하나를 그림 */
+export type AnnotationPainter<A extends Annotation = Annotation> = (
+  ctx: CanvasRenderingContext2D,
+  annotation: A,
+  resources: PaintResources
+) => void;
+
+type AnnotationPainterTable = {
+  [K in Annotation['type']]: AnnotationPainter<Extract<Annotation, { type: K }>>;
+};
+
+interface StrokeStyle {
+  color: string;
+  width: number;
+  opacity?: number;
+  dash?: string;
+  cap?: CanvasLineCap;
+  join?: CanvasLineJoin;
+}
+
+// ============================================
+// Paint Helpers
+// ============================================
+
+function isPainted(color: string | undefined): color is string {
+  return !!color && color !== 'transparent' && color !== 'none';
+}
+
+function fillPath(ctx: CanvasRenderingContext2D, d: string, color: string | undefined, opacity = 1, rule: CanvasFillRule = 'nonzero'): void {
+  if (!d || !isPainted(color)) return;
+  ctx.save();
+  ctx.globalAlpha *= Math.max(0, Math.min(1, opacity));
+  ctx.fillStyle = color;
+  ctx.fill(new Path2D(d), rule);
+  ctx.restore();
+}
+
+function strokePath(ctx: CanvasRenderingContext2D, d: string, style: StrokeStyle): void {
+  if (!d || !isPainted(style.color) || style.width <= 0) return;
+  ctx.save();
+  ctx.globalAlpha *= Math.max(0, Math.min(1, style.opacity ?? 1));
+  ctx.strokeStyle = style.color;
+  ctx.lineWidth = style.width;
+  ctx.lineCap = style.cap ?? 'butt';
+  ctx.lineJoin = style.join ?? 'miter';
+  ctx.setLineDash(parseDashArray(style.dash) ?? []);
+  ctx.stroke(new Path2D(d));
+  ctx.restore();
+}
+
+/** 텍스트 블록 (svgWriter의 <text>/<tspan>과 같은 줄 배치) */
+function paintTextBlock(ctx: CanvasRenderingContext2D, block: TextBlock): void {
+  ctx.save();
+  ctx.font = cssFont(block);
+  const { anchor, x, lines } = layoutTextBlock(block, (text) => ctx.measureText(text).width);
+  if (lines.length > 0) {
+    ctx.globalAlpha *= Math.max(0, Math.min(1, block.opacity ?? 1));
+    ctx.fillStyle = block.color || '#000000';
+    ctx.textAlign = anchor === 'middle' ? 'center' : anchor === 'end' ? 'right' : 'left';
+    ctx.textBaseline = 'alphabetic';
+    for (const line of lines) {
+      ctx.fillText(line.text, x, line.baseline);
+    }
+  }
+  ctx.restore();
+}
+
+function insetBox(bbox: BBox, inset: number): BBox {
+  return {
+    x: bbox.x + inset,
+    y: bbox.y + inset,
+    width: Math.max(0, bbox.width - inset * 2),
+    height: Math.max(0, bbox.height - inset * 2),
+  };
+}
+
+// ============================================
+// Text
+// ============================================
+
+function paintText(ctx: CanvasRenderingContext2D, a: TextAnnotation): void {
+  const { bbox, style } = a;
+  const padding = 8;
+  const background = buildRectPath(bbox, 4);
+
+  fillPath(ctx, background, style.backgroundColor || 'rgba(255, 255, 255, 0.9)', style.backgroundOpacity);
+  // 기본 회색 테두리는 편집 UI용이므로 명시적으로 지정된 경우만 그림
+  if (style.borderColor) {
+    strokePath(ctx, background, { color: style.borderColor, width: style.borderWidth || 1 });
+  }
+
+  paintTextBlock(ctx, {
+    content: a.content,
+    box: { x: bbox.x + padding, y: bbox.y + padding, width: bbox.width - padding * 2, height: bbox.height - padding * 2 },
+    fontSize: style.fontSize || 16,
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    color: style.color || '#000000',
+    opacity: style.opacity,
+    textAlign: style.textAlign,
+    verticalAlign: style.verticalAlign ?? 'middle',
+    lineHeight: 1.2,
+  });
+}
+
+function paintAI(ctx: CanvasRenderingContext2D, a: AIAnnotation): void {
+  paintTextBlock(ctx, {
+    content: a.content,
+    box: a.bbox,
+    fontSize: a.style.fontSize || 12,
+    fontFamily: a.style.fontFamily,
+    color: a.style.color || '#000000',
+    opacity: a.style.opacity,
+    verticalAlign: 'top',
+    lineHeight: 1.2,
+  });
+}
+
+function paintStamp(ctx: CanvasRenderingContext2D, a: StampAnnotation, resources: PaintResources): void {
+  if (a.imageData) {
+    // 이미지 스탬프 (직인/도장)
+    const image = resources.images?.get(a.imageData);
+    if (image) ctx.drawImage(image, a.bbox.x, a.bbox.y, a.bbox.width, a.bbox.height);
+    return;
+  }
+
+  const frame = stampFrame(a);
+  const text = stampTextBlock(a);
+  fillPath(ctx, frame.outline, a.style.fill);
+  for (const stroke of frame.strokes) {
+    strokePath(ctx, stroke, { color: stampColor(a), width: frame.strokeWidth, dash: frame.dashArray?.join(' ') });
+  }
+  paintTextBlock(ctx, text);
+}
+
+/** 서명: 손글씨 획 또는 이미지 (자리 표시는 그리지 않음) */
+function paintSignature(ctx: CanvasRenderingContext2D, a: SignatureAnnotation, resources: PaintResources): void {
+  if (a.imageData) {
+    const image = resources.images?.get(a.imageData);
+    if (image) ctx.drawImage(image, a.bbox.x, a.bbox.y, a.bbox.width, a.bbox.height);
+    return;
+  }
+  for (const path of signatureStrokePaths(a)) {
+    strokePath(ctx, path, { color: a.style?.stroke || '#000000', width: a.style?.strokeWidth || 2, cap: 'round', join: 'round' });
+  }
+}
+
+// ============================================
+// Markup
+// ============================================
+
+function paintHighlight(ctx: CanvasRenderingContext2D, a: HighlightAnnotation): void {
+  // 텍스트 선택 하이라이트는 줄별 사각형
+  const quads = a.quads?.length ? a.quads : [a.bbox];
+  fillPath(ctx, quads.map((quad) => buildRectPath(quad)).join(' '), a.style?.fill || '#FFFF00', a.opacity ?? a.style?.opacity ?? 0.3);
+}
+
+function paintTextMarkup(ctx: CanvasRenderingContext2D, a: TextMarkupAnnotation): void {
+  for (const { path, width } of buildTextMarkupStrokes(a)) {
+    strokePath(ctx, path, { color: a.style?.stroke || '#E53935', width, opacity: a.style?.opacity });
+  }
+}
+
+/** 가림 영역: 불투명하게 채우고 대체 문구만 씀 */
+function paintRedaction(ctx: CanvasRenderingContext2D, a: RedactionAnnotation): void {
+  fillPath(ctx, redactionRegions(a).map((region) => buildRectPath(region)).join(' '), a.style?.fill || '#000000');
+  for (const block of redactionLabelBlocks(a)) {
+    paintTextBlock(ctx, block);
+  }
+}
+
+function paintBarcode(ctx: CanvasRenderingContext2D, a: BarcodeAnnotation): void {
+  const { bbox, modules, style } = a;
+  fillPath(ctx, buildRectPath(bbox), style.backgroundColor || '#FFFFFF');
+  const modulePath = barcodeModuleRects(modules, bbox).map((rect) => buildRectPath(rect)).join(' ');
+  fillPath(ctx, modulePath, style.color || '#000000');
+}
+
+// ============================================
+// Shapes
+// ============================================
+
+function paintRectangle(ctx: CanvasRenderingContext2D, a: RectangleAnnotation | RoundedRectAnnotation): void {
+  const sw = a.style?.strokeWidth || 1;
+  // 화면 표시와 동일하게 선 두께의 절반만큼 안쪽에 그림
+  const path = buildRectPath(insetBox(a.bbox, sw / 2), a.cornerRadius || 0);
+  fillPath(ctx, path, a.style?.fill, a.style?.opacity);
+  strokePath(ctx, path, { color: a.style?.stroke || '#000000', width: sw, dash: a.style?.strokeDasharray });
+}
+
+function paintEllipse(ctx: CanvasRenderingContext2D, a: EllipseAnnotation): void {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  const path = buildEllipsePath(
+    bbox.x + bbox.width / 2,
+    bbox.y + bbox.height / 2,
+    Math.max(0, bbox.width / 2 - sw / 2),
+    Math.max(0, bbox.height / 2 - sw / 2),
+    a.startAngle ?? 0,
+    a.sweepAngle ?? 360,
+    a.innerRadiusRatio ?? 0
+  );
+  fillPath(ctx, path, a.style?.fill, a.style?.opacity, 'evenodd');
+  strokePath(ctx, path, { color: a.style?.stroke || '#000000', width: sw, dash: a.style?.strokeDasharray });
+}
+
+function paintArrowOrLine(ctx: CanvasRenderingContext2D, a: ArrowAnnotation | LineAnnotation): void {
+  const { startPoint: s, endPoint: e } = a;
+  const color = a.style?.stroke || '#000000';
+  const cp = (a as LineAnnotation).controlPoint;
+
+  strokePath(ctx, buildLinePath(s, e, cp), {
+    color,
+    width: a.style?.strokeWidth || 2,
+    opacity: a.style?.opacity,
+    dash: a.style?.strokeDasharray,
+    cap: 'round',
+  });
+
+  if (a.type === 'arrow') {
+    fillPath(ctx, buildPolygonPath(arrowHeadPoints(s, e, cp, a.arrowHeadSize ?? 10)), color, a.style?.opacity);
+  }
+}
+
+function paintStar(ctx: CanvasRenderingContext2D, a: StarAnnotation): void {
+  const sw = a.style?.strokeWidth || 1;
+  // 이전 형식은 points에 꼭짓점 수를 저장했음
+  const legacyCount = typeof (a.points as unknown) === 'number' ? (a.points as unknown as number) : undefined;
+  const path = buildPolygonPath(starPoints(a.bbox, a.numPoints ?? legacyCount ?? 5, a.innerRadius ?? 0.4, sw));
+  fillPath(ctx, path, a.style?.fill, a.style?.opacity);
+  strokePath(ctx, path, { color: a.style?.stroke || '#000000', width: sw, dash: a.style?.strokeDasharray, join: 'round' });
+}
+
+function paintLightning(ctx: CanvasRenderingContext2D, a: LightningAnnotation): void {
+  const path = buildPolygonPath(lightningPoints(a.bbox, a.points));
+  fillPath(ctx, path, a.style?.fill || '#FFD700', a.style?.opacity);
+  strokePath(ctx, path, { color: a.style?.stroke || '#000000', width: a.style?.strokeWidth || 1, join: 'round' });
+}
+
+function paintStroke(ctx: CanvasRenderingContext2D, a: FreehandAnnotation | HighlighterAnnotation): void {
+  const isHighlighter = a.type === 'highlighter';
+  strokePath(ctx, buildSmoothPath(a.points || []), {
+    color: a.style?.stroke || (isHighlighter ? '#FFFF00' : '#000000'),
+    width: a.style?.strokeWidth || (isHighlighter ? 20 : 3),
+    opacity: a.style?.opacity ?? (isHighlighter ? 0.4 : 1),
+    cap: 'round',
+    join: 'round',
+  });
+}
+
+function paintImage(ctx: CanvasRenderingContext2D, a: ImageAnnotation, resources: PaintResources): void {
+  const image = a.imageData ? resources.images?.get(a.imageData) : undefined;
+  if (!image) return;
+  const { bbox } = a;
+  ctx.save();
+  ctx.globalAlpha *= Math.max(0, Math.min(1, a.style?.opacity ?? 1));
+  ctx.drawImage(image, bbox.x, bbox.y, bbox.width, bbox.height);
+  ctx.restore();
+}
+
+function paintTable(ctx: CanvasRenderingContext2D, a: TableAnnotation): void {
+  const { bbox, borderWidth, borderColor } = a;
+
+  // 1. 셀 배경 + 내용 (셀별 스타일, 병합 셀은 합친 영역)
+  for (const { box, cell, text } of layoutTableCells(a)) {
+    const cs = cell.style;
+    fillPath(ctx, buildRectPath(box), cs.backgroundColor, cs.backgroundOpacity);
+    paintTextBlock(ctx, {
+      content: text,
+      box: { x: box.x + 4, y: box.y + 2, width: box.width - 8, height: box.height - 4 },
+      fontSize: cs.fontSize,
+      fontFamily: cs.fontFamily,
+      fontWeight: cs.fontWeight,
+      fontStyle: cs.fontStyle,
+      color: cs.color,
+      textAlign: cs.textAlign,
+      // 화면 표시와 동일하게 위쪽 정렬
+      verticalAlign: 'top',
+      lineHeight: 1.4,
+    });
+  }
+
+  // 2. 격자선 (외곽선은 전체 두께, 내부선은 절반) + 셀 변별 테두리
+  const grid = layoutTableGrid(a);
+  const lineWidth = borderWidth || 0;
+  if (lineWidth > 0) {
+    strokePath(ctx, gridLinesPath(grid.inner), { color: borderColor, width: lineWidth * 0.5 });
+    strokePath(ctx, grid.outer ? gridLinesPath(grid.outer) : buildRectPath(bbox), { color: borderColor, width: lineWidth });
+  }
+  for (const border of grid.borders) {
+    strokePath(ctx, gridLinesPath(border.lines), { color: border.color, width: border.width, cap: 'square' });
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/** 타입별 기본 페인터 (Annotation 유니온 전체) */
+export const ANNOTATION_PAINTERS: AnnotationPainterTable = {
+  text: paintText,
+  highlight: paintHighlight,
+  underline: paintTextMarkup,
+  squiggly: paintTextMarkup,
+  strikeout: paintTextMarkup,
+  redaction: paintRedaction,
+  rectangle: paintRectangle,
+  roundedRect: paintRectangle,
+  ellipse: paintEllipse,
+  arrow: paintArrowOrLine,
+  line: paintArrowOrLine,
+  star: paintStar,
+  lightning: paintLightning,
+  freehand: paintStroke,
+  highlighter: paintStroke,
+  image: paintImage,
+  barcode: paintBarcode,
+  stamp: paintStamp,
+  signature: paintSignature,
+  // 검토 댓글은 그리지 않음 - PDF에는 /Text 주석으로 기록
+  comment: () => {},
+  // 보이지 않는 텍스트 - 선택/검색용
+  ocr: () => {},
+  ai: paintAI,
+  table: paintTable,
+};
+
+/** 타입에 맞는 기본 페인터 */
+export function getAnnotationPainter(type: Annotation['type']): AnnotationPainter {
+  return ANNOTATION_PAINTERS[type] as AnnotationPainter;
+}
+
+/**
+ * 주석 하나를 Canvas에 그리기
+ * @param scale 편집 좌표 → Canvas 픽셀 배율
+ * @param painter 기본 페인터 대신 사용할 페인터 (AnnotationRegistry 등록 값)
+ */
+export function paintAnnotation(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  scale: number,
+  resources: PaintResources = {},
+  painter?: AnnotationPainter | null
+): void {
+  const paint = painter ?? getAnnotationPainter(annotation.type);
+  if (!paint) return;
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  if (isRotated(annotation)) {
+    // bbox 중심 기준 회전
+    const { x, y } = bboxCenter(annotation.bbox);
+    ctx.translate(x, y);
+    ctx.rotate((annotationRotation(annotation) * Math.PI) / 180);
+    ctx.translate(-x, -y);
+  }
+  paint(ctx, annotation, resources);
+  ctx.restore();
+}
+
+/** 이미지 주석/이미지 스탬프/서명 이미지가 참조하는 이미지 소스 목록 (중복 제외) */
+export function collectImageSources(annotations: Annotation[]): string[] {
+  const sources = new Set<string>();
+  for (const annotation of annotations) {
+    if ((annotation.type === 'image' || annotation.type === 'stamp' || annotation.type === 'signature') && annotation.imageData) {
+      sources.add(annotation.imageData);
+    }
+  }
+  return [...sources];
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { PDFDocument } from "pdf-lib";
+import {
+  describePages,
+  mergePdfDocuments,
+  parseRangeGroups,
+  partFileNames,
+  splitByBookmarks,
+  splitEvery,
+  zipPdfs,
+} from "./documentOps";
+
+async function pdfWithPages(...widths: number[]): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  widths.forEach((width) => doc.addPage([width, 500]));
+  return doc.save();
+}
+
+describe("parseRangeGroups", () => {
+  it("makes one part per semicolon-separated group", () => {
+    expect(parseRangeGroups("3-7; 10-12, 15", 20)).toEqual([
+      { name: "3-7", pages: [2, 3, 4, 5, 6] },
+      { name: "10,11,12,15", pages: [9, 10, 11, 14] },
+    ]);
+  });
+
+  it("supports open ranges and clamps to the document", () => {
+    expect(parseRangeGroups("18-\n-2", 20)).toEqual([
+      { name: "18-20", pages: [17, 18, 19] },
+      { name: "1-2", pages: [0, 1] },
+    ]);
+    expect(parseRangeGroups("25; x; 0", 20)).toEqual([]);
+  });
+});
+
+describe("splitting", () => {
+  it("splits every N pages with a short last part", () => {
+    expect(splitEvery(5, 2).map((p) => p.pages)).toEqual([[0, 1], [2, 3], [4]]);
+    expect(describePages([4])).toBe("5");
+  });
+
+  it("splits at bookmarks and keeps leading pages in the first part", () => {
+    const parts = splitByBookmarks(
+      [
+        { title: "Chapter 2", pageIndex: 4 },
+        { title: "Chapter 1", pageIndex: 1 },
+        { title: "Also chapter 2", pageIndex: 4 },
+      ],
+      7
+    );
+    expect(parts).toEqual([
+      { name: "Chapter 1", pages: [0, 1, 2, 3] },
+      { name: "Chapter 2", pages: [4, 5, 6] },
+    ]);
+  });
+
+  it("names files in order without unsafe characters", () => {
+    const names = partFileNames("report", [
+      { name: "Intro: a/b", pages: [0] },
+      ...Array.from({ length: 10 }, (_, i) => ({ name: `${i + 2}`, pages: [i + 1] })),
+    ]);
+    expect(names[0]).toBe("report_01_Intro_ a_b.pdf");
+    expect(names[10]).toBe("report_11_11.pdf");
+  });
+});
+
+describe("merge and archive", () => {
+  it("copies pages of every source in order", async () => {
+    const merged = await PDFDocument.load(await mergePdfDocuments([await pdfWithPages(100, 200), await pdfWithPages(300)]));
+    expect(merged.getPages().map((p) => p.getWidth())).toEqual([100, 200, 300]);
+  });
+
+  it("zips the parts under their names", async () => {
+    const blob = await zipPdfs([
+      { name: "a.pdf", bytes: await pdfWithPages(100) },
+      { name: "b.pdf", bytes: await pdfWithPages(200) },
+    ]);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    expect(Object.keys(zip.files)).toEqual(["a.pdf", "b.pdf"]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Document Operations - 페이지 추출/나누기/병합
+ *
+ * 나누기는 문서를 여러 부분(DocumentPart)으로 묶고, 각 부분은 PDF 내보내기로
+ * 원본 페이지 객체를 복사해 만든다. 병합은 여러 PDF의 페이지 객체를 순서대로 복사한다.
+ * 어느 쪽도 페이지를 다시 렌더링하지 않으므로 텍스트와 화질이 그대로 유지된다.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import JSZip from 'jszip';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DocumentPart {
+  /** 파일 이름에 쓰는 이름 (책갈피 제목 또는 페이지 범위) */
+  name: string;
+  /** 0-based 페이지 인덱스 */
+  pages: number[];
+}
+
+/** 현재 문서 페이지에 대응시킨 책갈피 (최상위 항목만) */
+export interface PageBookmark {
+  title: string;
+  /** 0-based 페이지 인덱스 */
+  pageIndex: number;
+}
+
+export interface NamedPdf {
+  name: string;
+  bytes: Uint8Array;
+}
+
+// ============================================
+// Splitting
+// ============================================
+
+/** 연속된 인덱스를 "3-7", 아니면 "1,3,5" 형태로 (1-based) */
+export function describePages(pages: number[]): string {
+  if (pages.length === 0) return '';
+  const contiguous = pages.every((p, i) => i === 0 || p === pages[i - 1] + 1);
+  if (contiguous) {
+    const first = pages[0] + 1;
+    const last = pages[pages.length - 1] + 1;
+    return first === last ? `${first}` : `${first}-${last}`;
+  }
+  return pages.map((p) => p + 1).join(',');
+}
+
+function part(pages: number[]): DocumentPart {
+  return { name: describePages(pages), pages };
+}
+
+/**
+ * 범위 목록 파싱 — ';' 또는 줄바꿈으로 구분된 각 항목이 한 파일
+ * (예: "1-3; 5,7; 10-" → [[0,1,2],[4,6],[9..끝]])
+ * 범위 밖이나 숫자가 아닌 항목은 무시한다.
+ */
+export function parseRangeGroups(spec: string, pageCount: number): DocumentPart[] {
+  const parts: DocumentPart[] = [];
+
+  for (const group of spec.split(/[;\n]/)) {
+    const pages: number[] = [];
+    for (const token of group.split(',')) {
+      const match = token.trim().match(/^(\d*)\s*(-?)\s*(\d*)$/);
+      if (!match || (!match[1] && !match[3])) continue;
+      const start = match[1] ? parseInt(match[1], 10) : 1;
+      const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+      for (let n = Math.max(1, start); n <= Math.min(end, pageCount); n++) {
+        if (!pages.includes(n - 1)) pages.push(n - 1);
+      }
+    }
+    if (pages.length > 0) parts.push(part(pages));
+  }
+
+  return parts;
+}
+
+/** size 페이지마다 나누기 */
+export function splitEvery(pageCount: number, size: number): DocumentPart[] {
+  const step = Math.max(1, Math.floor(size));
+  const parts: DocumentPart[] = [];
+  for (let start = 0; start < pageCount; start += step) {
+    parts.push(part(Array.from({ length: Math.min(step, pageCount - start) }, (_, i) => start + i)));
+  }
+  return parts;
+}
+
+/**
+ * 책갈피마다 나누기 — 각 책갈피 페이지부터 다음 책갈피 앞까지
+ * 첫 책갈피 앞의 페이지는 첫 부분에 포함한다. 같은 페이지의 책갈피는 앞의 것만 쓴다.
+ */
+export function splitByBookmarks(bookmarks: PageBookmark[], pageCount: number): DocumentPart[] {
+  const starts = [...bookmarks]
+    .filter((b) => b.pageIndex >= 0 && b.pageIndex < pageCount)
+    .sort((a, b) => a.pageIndex - b.pageIndex)
+    .filter((b, i, sorted) => i === 0 || b.pageIndex !== sorted[i - 1].pageIndex);
+
+  if (starts.length === 0) return pageCount > 0 ? [part(Array.from({ length: pageCount }, (_, i) => i))] : [];
+
+  return starts.map((bookmark, i) => {
+    const from = i === 0 ? 0 : bookmark.pageIndex;
+    const to = i + 1 < starts.length ? starts[i + 1].pageIndex : pageCount;
+    return {
+      name: bookmark.title.trim() || describePages([bookmark.pageIndex]),
+      pages: Array.from({ length: to - from }, (_, k) => from + k),
+    };
+  });
+}
+
+/** 파일 시스템에서 쓸 수 없는 문자 제거 */
+function sanitizeFileName(name: string): string {
+  const printable = Array.from(name, (ch) => (ch.charCodeAt(0) < 0x20 ? '_' : ch)).join('');
+  return printable.replace(/[\\/:*?"<>|]/g, '_').trim().slice(0, 80);
+}
+
+/**
+ * 부분별 파일 이름 (순번으로 정렬되고, 같은 이름이 겹치지 않음)
+ */
+export function partFileNames(baseName: string, parts: DocumentPart[]): string[] {
+  const width = String(parts.length).length;
+  return parts.map((p, i) => {
+    const order = String(i + 1).padStart(width, '0');
+    const label = sanitizeFileName(p.name);
+    return `${sanitizeFileName(baseName) || 'document'}_${order}${label ? `_${label}` : ''}.pdf`;
+  });
+}
+
+// ============================================
+// Merge / Archive
+// ============================================
+
+/**
+ * 여러 PDF를 순서대로 합치기 (페이지 객체 복사)
+ * 문서 정보는 첫 PDF의 제목을 따른다.
+ */
+export async function mergePdfDocuments(sources: Uint8Array[]): Promise<Uint8Array> {
+  if (sources.length === 0) throw new Error('No PDFs to merge');
+
+  const merged = await PDFDocument.create();
+  for (const [index, bytes] of sources.entries()) {
+    const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    const copied = await merged.copyPages(source, source.getPageIndices());
+    copied.forEach((page) => merged.addPage(page));
+
+    const title = index === 0 ? source.getTitle() : undefined;
+    if (title) merged.setTitle(title);
+  }
+
+  return merged.save();
+}
+
+/** PDF 여러 개를 ZIP으로 */
+export async function zipPdfs(files: NamedPdf[]): Promise<Blob> {
+  const zip = new JSZip();
+  for (const file of files) zip.file(file.name, file.bytes);
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFArray, PDFDocument, PDFRawStream, StandardFonts, decodePDFRawStream } from "pdf-lib";
+import type { PDFPage } from "pdf-lib";
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { exportDocument, withoutHiddenAnnotations } from "./exportEngine";
+import { createPage } from "../model/factories";
+import type { Annotation, FormField, Page } from "../model/types";
+
+// 래스터 경로는 캔버스 대신 흰 PNG, 출력 재검사(pdf.js)는 아래에서 직접 확인
+vi.mock("./pageRenderer", () => ({
+  renderPageToCanvas: vi.fn(async () => ({ width: 200, height: 200 })),
+  renderOverlayToCanvas: vi.fn(),
+  canvasToImageBytes: vi.fn(async () => new Uint8Array(createCanvas(1, 1).toBuffer("image/png"))),
+}));
+vi.mock("../redaction/redactionVerifier", () => ({
+  collectRedactedStrings: vi.fn(async () => ["SECRET"]),
+  verifyRedactedPdf: vi.fn(async () => undefined),
+}));
+
+/** "SECRET" (pdf-lib는 표준 폰트 글자를 16진 문자열로 쓴다) */
+const SECRET_HEX = "534543524554";
+
+async function sourcePdf() {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([200, 200]);
+  page.drawText("SECRET", { x: 20, y: 160, size: 12, font: await pdfDoc.embedFont(StandardFonts.Helvetica) });
+  return pdfDoc.save();
+}
+
+function pageContentText(page: PDFPage): string {
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray().map((ref) => page.doc.context.lookup(ref)) : [contents];
+  return streams
+    .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+    .map((stream) => new TextDecoder("latin1").decode(decodePDFRawStream(stream).decode()))
+    .join("\n");
+}
+
+function redaction(hidden: boolean): Annotation {
+  return {
+    id: "r1", pageId: "p1", type: "redaction", content: "SECRET", hidden,
+    bbox: { x: 10, y: 20, width: 80, height: 30 },
+    createdAt: 0, modifiedAt: 0, style: { fill: "#000000" },
+  } as Annotation;
+}
+
+function pdfPage(annotations: Annotation[]): Page {
+  const page = createPage({ docId: "d1", index: 0, width: 200, height: 200, pdfRef: { sourceIndex: 1 } });
+  return { ...page, id: "p1", layers: { annotations, rasters: [] } };
+}
+
+describe("withoutHiddenAnnotations", () => {
+  it("keeps hidden redactions", () => {
+    const hiddenRect = { ...redaction(true), id: "h", type: "rectangle" } as Annotation;
+    const page = pdfPage([redaction(true), hiddenRect]);
+    expect(withoutHiddenAnnotations(page).layers.annotations.map((a) => a.id)).toEqual(["r1"]);
+  });
+});
+
+describe("exportDocument", () => {
+  it("burns out text under a redaction hidden in the layers panel", async () => {
+    const original = await sourcePdf();
+    const source = await PDFDocument.load(original);
+    expect(pageContentText(source.getPage(0))).toContain(SECRET_HEX);
+
+    const bytes = await exportDocument(
+      [pdfPage([redaction(true)])],
+      {} as PDFDocumentProxy,
+      { format: "pdf", pages: "all", includeHiddenAnnotations: false },
+      undefined,
+      original
+    ) as Uint8Array;
+
+    const output = await PDFDocument.load(bytes);
+    const content = pageContentText(output.getPage(0));
+    expect(content).not.toContain(SECRET_HEX);
+    expect(content).not.toContain("SECRET");
+  });
+
+  it("keeps filled form fields on cropped pages", async () => {
+    const source = await PDFDocument.create();
+    const sourcePage = source.addPage([200, 200]);
+    const sourceField = source.getForm().createTextField("name");
+    sourceField.addToPage(sourcePage, { x: 20, y: 150, width: 100, height: 20 });
+    const sourceRect = sourceField.acroField.getWidgets()[0].getRectangle();
+    const field: FormField = {
+      id: "f1", name: "name", type: "text", value: "Jane Doe", defaultValue: "",
+      rect: { x: 20, y: 30, width: 100, height: 20 },
+    };
+    // 위쪽 150×100만 남김
+    const page = { ...pdfPage([]), formFields: [field], cropBox: { x: 0, y: 0, width: 150, height: 100 } };
+
+    const bytes = await exportDocument(
+      [page],
+      {} as PDFDocumentProxy,
+      { format: "pdf", pages: "all" },
+      undefined,
+      await source.save()
+    ) as Uint8Array;
+
+    const output = await PDFDocument.load(bytes);
+    expect(output.getPage(0).getSize()).toEqual({ width: 150, height: 100 });
+    const textField = output.getForm().getTextField("name");
+    expect(textField.getText()).toBe("Jane Doe");
+    // 잘라낸 아래쪽 100pt만큼 내려옴
+    expect(textField.acroField.getWidgets()[0].getRectangle()).toEqual({ ...sourceRect, y: sourceRect.y - 100 });
+  });
+});
@@ -1,12 +1,13 @@
 import { logger } from '../../utils/logger';
 /**
- * Export Engine - PDF/PNG/JPEG 내보내기
+ * Export Engine - PDF/PNG/JPEG/SVG 내보내기
  */
 
 import type { PDFDocumentProxy } from 'pdfjs-dist';
-import type { ExportOptions, Page } from '../model/types';
+import type { Annotation, ExportOptions, Page } from '../model/types';
 import { exportAsPdf } from './pdfExport';
 import { exportAsPng, exportAsJpeg } from './imageExport';
+import { exportAsSvg } from './svgExport';
 
 /**
  * 페이지 선택 범위를 인덱스 배열로 변환
@@ -25,6 +26,23 @@ export function resolvePageSelection(
   return Array.from({ length: totalPages }, (_, i) => i);
 }
 
+/** 숨겨도 내보내기에서 빼지 않는 주석 (가림은 빼면 가린 원본 내용이 그대로 나감) */
+function isHiddenForExport(annotation: Annotation): boolean {
+  return !!annotation.hidden && annotation.type !== 'redaction';
+}
+
+/**
+ * 숨긴 주석을 뺀 페이지 (없으면 원래 객체)
+ * 가림 주석은 숨겨도 남긴다.
+ */
+export function withoutHiddenAnnotations(page: Page): Page {
+  if (!page.layers.annotations.some(isHiddenForExport)) return page;
+  return {
+    ...page,
+    layers: { ...page.layers, annotations: page.layers.annotations.filter((a) => !isHiddenForExport(a)) },
+  };
+}
+
 /**
  * 문서 내보내기 메인 함수
  */
@@ -32,22 +50,30 @@ export async function exportDocument(
   pages: Page[],
   pdfProxy: PDFDocumentProxy,
   options: ExportOptions,
-  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>,
+  originalBytes?: Uint8Array
 ): Promise<Uint8Array | Blob | Blob[]> {
   const { format, pages: pageSelection = 'all' } = options;
 
   // 페이지 선택 범위 결정
   const pageIndices = resolvePageSelection(pageSelection, pages.length);
 
+  // 숨긴 주석은 옵션으로 포함할 때만
+  if (!options.includeHiddenAnnotations) {
+    pages = pages.map(withoutHiddenAnnotations);
+  }
+
   logger.debug(`📤 [Export] Starting ${format} export for ${pageIndices.length} pages...`);
 
   switch (format) {
     case 'pdf':
-      return await exportAsPdf(pages, pdfProxy, pageIndices, options, insertedPdfProxies);
+      return await exportAsPdf(pages, pdfProxy, pageIndices, options, insertedPdfProxies, originalBytes);
     case 'png':
       return await exportAsPng(pages, pdfProxy, pageIndices, options);
     case 'jpeg':
       return await exportAsJpeg(pages, pdfProxy, pageIndices, options);
+    case 'svg':
+      return await exportAsSvg(pages, pdfProxy, pageIndices, options, insertedPdfProxies);
     default:
       throw new Error(`Unsupported format: ${format}`);
   }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { imposePdf, impositionOrder, impositionSheetSize, impositionSlots } from "./imposition";
+
+describe("impositionOrder", () => {
+  it("fills N-up sheets in reading order and leaves the tail empty", () => {
+    expect(impositionOrder(3, "2up")).toEqual([
+      [0, 1],
+      [2, null],
+    ]);
+    expect(impositionOrder(5, "4up")).toEqual([
+      [0, 1, 2, 3],
+      [4, null, null, null],
+    ]);
+  });
+
+  it("orders booklet sides so folded sheets read in sequence", () => {
+    expect(impositionOrder(8, "booklet")).toEqual([
+      [7, 0],
+      [1, 6],
+      [5, 2],
+      [3, 4],
+    ]);
+  });
+
+  it("pads booklets to a multiple of four pages", () => {
+    expect(impositionOrder(5, "booklet")).toEqual([
+      [null, 0],
+      [1, null],
+      [null, 2],
+      [3, 4],
+    ]);
+  });
+});
+
+describe("impositionSlots", () => {
+  it("lays slots out top to bottom with bottom-left origins", () => {
+    const slots = impositionSlots({ width: 200, height: 300 }, "4up", 10);
+    expect(slots).toEqual([
+      { x: 10, y: 155, width: 85, height: 135 },
+      { x: 105, y: 155, width: 85, height: 135 },
+      { x: 10, y: 10, width: 85, height: 135 },
+      { x: 105, y: 10, width: 85, height: 135 },
+    ]);
+  });
+
+  it("turns the paper for two-up layouts", () => {
+    expect(impositionSheetSize("2up")).toEqual({ width: 841.89, height: 595.28 });
+    expect(impositionSheetSize("4up")).toEqual({ width: 595.28, height: 841.89 });
+  });
+});
+
+describe("imposePdf", () => {
+  it("writes one sheet per side with each page drawn as a form", async () => {
+    const source = await PDFDocument.create();
+    for (let i = 0; i < 3; i++) source.addPage([300, 400]);
+
+    const output = await PDFDocument.load(await imposePdf(await source.save(), "2up"));
+    expect(output.getPageCount()).toBe(2);
+    expect(output.getPage(0).getSize()).toEqual({ width: 841.89, height: 595.28 });
+
+    const first = output.getPage(0).node.normalizedEntries().XObject;
+    const second = output.getPage(1).node.normalizedEntries().XObject;
+    expect(first.keys()).toHaveLength(2);
+    expect(second.keys()).toHaveLength(1);
+  });
+});
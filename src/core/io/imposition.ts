@@ -0,0 +1,108 @@
+/**
+ * Imposition - 인쇄용 모아찍기 (2-up, 4-up, 소책자)
+ *
+ * 내보낸 PDF의 페이지를 Form XObject로 넣어 용지에 여러 장씩 배치한다.
+ * 소책자는 용지를 반으로 접어 겹쳤을 때 순서가 맞도록 앞/뒷면 순서를 바꾼다.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import type { BBox, ImpositionMode } from '../model/types';
+import { PAGE_SIZES } from '../page/pageGeometry';
+import type { Size } from '../page/pageGeometry';
+import { drawEmbeddedPage, ensurePageContents, fitPageMatrix } from './pdfPageFrame';
+
+/** 용지 가장자리/칸 사이 여백 (pt) */
+const SHEET_MARGIN = 18;
+
+/** 방식별 [열, 행, 가로 용지 여부] */
+const IMPOSITION_GRID: Record<ImpositionMode, [number, number, boolean]> = {
+  '2up': [2, 1, true],
+  '4up': [2, 2, false],
+  booklet: [2, 1, true],
+};
+
+/**
+ * 용지 면별 페이지 순서 (읽는 순서로 칸 채움, 빈 칸은 null)
+ */
+export function impositionOrder(pageCount: number, mode: ImpositionMode): (number | null)[][] {
+  const [cols, rows] = IMPOSITION_GRID[mode];
+  const perSheet = cols * rows;
+  const sheets: (number | null)[][] = [];
+
+  if (mode !== 'booklet') {
+    for (let start = 0; start < pageCount; start += perSheet) {
+      sheets.push(Array.from({ length: perSheet }, (_, i) => (start + i < pageCount ? start + i : null)));
+    }
+    return sheets;
+  }
+
+  // 소책자: 4의 배수로 채우고 바깥 면부터 [마지막, 첫], [둘째, 마지막-1] ...
+  const total = Math.ceil(pageCount / 4) * 4;
+  const slot = (index: number) => (index < pageCount ? index : null);
+  for (let i = 0; i < total / 2; i += 2) {
+    sheets.push([slot(total - 1 - i), slot(i)]);
+    sheets.push([slot(i + 1), slot(total - 2 - i)]);
+  }
+  return sheets;
+}
+
+/**
+ * 용지 위 칸 사각형 (좌하단 원점, 읽는 순서)
+ */
+export function impositionSlots(sheet: Size, mode: ImpositionMode, margin = SHEET_MARGIN): BBox[] {
+  const [cols, rows] = IMPOSITION_GRID[mode];
+  const width = (sheet.width - margin * (cols + 1)) / cols;
+  const height = (sheet.height - margin * (rows + 1)) / rows;
+  const slots: BBox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      slots.push({
+        x: margin + col * (width + margin),
+        y: sheet.height - (row + 1) * (height + margin),
+        width,
+        height,
+      });
+    }
+  }
+  return slots;
+}
+
+/** 방식에 맞는 용지 방향 */
+export function impositionSheetSize(mode: ImpositionMode, paper: Size = PAGE_SIZES.a4): Size {
+  const landscape = IMPOSITION_GRID[mode][2];
+  const long = Math.max(paper.width, paper.height);
+  const short = Math.min(paper.width, paper.height);
+  return landscape ? { width: long, height: short } : { width: short, height: long };
+}
+
+/**
+ * PDF 바이트를 모아찍기한 새 PDF로
+ */
+export async function imposePdf(pdfBytes: Uint8Array, mode: ImpositionMode, paper?: Size): Promise<Uint8Array> {
+  const source = await PDFDocument.load(pdfBytes);
+  const output = await PDFDocument.create();
+  const sourcePages = source.getPages();
+  sourcePages.forEach(ensurePageContents);
+  const embedded = await output.embedPages(
+    sourcePages,
+    sourcePages.map((p) => {
+      const box = p.getCropBox();
+      return { left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height };
+    })
+  );
+
+  const sheet = impositionSheetSize(mode, paper);
+  const slots = impositionSlots(sheet, mode);
+
+  for (const side of impositionOrder(sourcePages.length, mode)) {
+    const target = output.addPage([sheet.width, sheet.height]);
+    side.forEach((pageIndex, i) => {
+      if (pageIndex === null) return;
+      const page = embedded[pageIndex];
+      const rotation = sourcePages[pageIndex].getRotation().angle;
+      drawEmbeddedPage(target, page, fitPageMatrix(page, rotation, slots[i]));
+    });
+  }
+
+  return output.save();
+}
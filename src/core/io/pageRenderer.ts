@@ -1,17 +1,41 @@
 /**
  * Page Renderer - PDF 페이지 + 주석 + 래스터 레이어를 Canvas로 렌더링
+ *
+ * 가림(redaction) 주석은 옵션과 관계없이 항상 마지막에 채워 그린다.
+ * (래스터화된 결과에 가린 내용이 보이지 않도록)
+ * 자르기/크기 변경된 페이지는 내용을 다 그린 뒤 출력 용지에 다시 배치한다.
  */
 
 import type { PDFDocumentProxy } from 'pdfjs-dist';
-import type { Page, Annotation, TextAnnotation, ExportOptions } from '../model/types';
+import type { Page, Annotation, ExportOptions, RasterLayer } from '../model/types';
 import { renderPdfPage } from '../pdf/pdfLoader';
+import { collectImageSources, paintAnnotation } from './annotationPainter';
+import { hasRasterContent, renderRasterLayer } from '../raster/rasterEngine';
+import { blendModeToComposite } from '../raster/rasterBrush';
+import { annotationRegistry } from '../../domains/annotations/services/AnnotationRegistry';
+import { isRedactionAnnotation } from '../../types/annotation';
+import { isPageGeometryEdited, pageContentTransform, pageOutputSize, pageVisibleRect } from '../page/pageGeometry';
 
 /**
- * 페이지를 Canvas로 렌더링 (PDF + Annotations + Raster Layers)
+ * 페이지를 Canvas로 렌더링 (PDF + Annotations + Raster Layers, 자르기/크기 변경 반영)
  */
 export async function renderPageToCanvas(
   page: Page,
-  pdfProxy: PDFDocumentProxy,
+  pdfProxy: PDFDocumentProxy | null,
+  options: ExportOptions,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<HTMLCanvasElement> {
+  const content = await renderPageContentToCanvas(page, pdfProxy, options, insertedPdfProxies);
+  if (!isPageGeometryEdited(page)) return content;
+  return framePageCanvas(content, page, options.dpi ? options.dpi / 72 : 2.0);
+}
+
+/**
+ * 페이지 내용 전체를 원래 페이지 크기로 렌더링 (자르기/크기 변경 무시)
+ */
+export async function renderPageContentToCanvas(
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
   options: ExportOptions,
   insertedPdfProxies?: Map<string, PDFDocumentProxy>
 ): Promise<HTMLCanvasElement> {
@@ -21,10 +45,23 @@ export async function renderPageToCanvas(
 
   // 1. Render original PDF
   if (page.pdfRef) {
-    // Use the correct PDF proxy for inserted pages
-    const correctPdfProxy = insertedPdfProxies?.get(page.id) || pdfProxy;
+    // Use the correct PDF proxy for inserted pages (keyed by source filename)
+    const correctPdfProxy = (page.pdfRef.appendedFrom && insertedPdfProxies?.get(page.pdfRef.appendedFrom)) || pdfProxy;
+    if (!correctPdfProxy) {
+      throw new Error(`No PDF document loaded for page ${page.id}`);
+    }
     const pageIndex = page.pdfRef.sourceIndex - 1; // Convert to 0-based index
     await renderPdfPage(correctPdfProxy, pageIndex, canvas, scale);
+  } else if (page.contentType === 'image' && page.imageUrl) {
+    // Image pages fill the page (page size keeps the image aspect ratio)
+    canvas.width = Math.ceil(page.width * scale);
+    canvas.height = Math.ceil(page.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(await loadImage(page.imageUrl), 0, 0, canvas.width, canvas.height);
+    }
   } else {
     // For blank pages, just create a white canvas
     const ctx = canvas.getContext('2d');
@@ -39,135 +76,144 @@ export async function renderPageToCanvas(
     throw new Error('Failed to get 2D context');
   }
 
+  const redactions = page.layers.annotations.filter(isRedactionAnnotation);
+
   // 2. Draw annotations
   if (options.includeAnnotations !== false) {
-    for (const annotation of page.layers.annotations) {
-      drawAnnotation(ctx, annotation, scale);
-    }
+    await drawAnnotations(ctx, page.layers.annotations.filter(a => !isRedactionAnnotation(a)), scale);
   }
 
   // 3. Composite raster layers
   if (options.includeRasterLayers !== false) {
     for (const rasterLayer of page.layers.rasters) {
-      if (!rasterLayer.visible || !rasterLayer.canvasData) continue;
+      if (!hasRasterContent(rasterLayer)) continue;
 
-      await compositeRasterLayer(ctx, rasterLayer.canvasData, rasterLayer.opacity, scale);
+      await compositeRasterLayer(ctx, page, rasterLayer, scale);
     }
   }
 
+  // 4. Burn in redactions (always, on top of everything)
+  if (redactions.length > 0) {
+    await drawAnnotations(ctx, redactions, scale);
+  }
+
   return canvas;
 }
 
 /**
- * 래스터 레이어 합성
+ * 내용 Canvas를 출력 용지에 배치 (보이는 영역 밖은 흰색)
  */
-async function compositeRasterLayer(
-  ctx: CanvasRenderingContext2D,
-  dataUrl: string,
-  opacity: number,
-  scale: number
-): Promise<void> {
-  const image = new Image();
-  image.src = dataUrl;
+function framePageCanvas(content: HTMLCanvasElement, page: Page, scale: number): HTMLCanvasElement {
+  const sheet = pageOutputSize(page);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(sheet.width * scale);
+  canvas.height = Math.ceil(sheet.height * scale);
 
-  await new Promise<void>((resolve, reject) => {
-    image.onload = () => resolve();
-    image.onerror = reject;
-  });
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get 2D context');
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+  const visible = pageVisibleRect(page);
+  const t = pageContentTransform(page);
   ctx.save();
-  ctx.globalAlpha = opacity;
-  ctx.drawImage(image, 0, 0, image.width * scale, image.height * scale);
+  ctx.scale(scale, scale);
+  ctx.beginPath();
+  ctx.rect(visible.x, visible.y, visible.width, visible.height);
+  ctx.clip();
+  ctx.transform(t.scale, 0, 0, t.scale, t.x, t.y);
+  ctx.drawImage(content, 0, 0, page.width, page.height);
   ctx.restore();
+
+  return canvas;
 }
 
 /**
- * Annotation을 Canvas에 그리기
+ * 투명 Canvas에 지정한 주석 + 래스터 레이어만 렌더링
+ * (벡터 PDF 내보내기에서 벡터로 기록할 수 없는 요소의 오버레이용)
  */
-function drawAnnotation(
-  ctx: CanvasRenderingContext2D,
-  annotation: Annotation,
+export async function renderOverlayToCanvas(
+  page: Page,
+  annotations: Annotation[],
+  rasters: RasterLayer[],
   scale: number
-): void {
-  const bbox = {
-    x: annotation.bbox.x * scale,
-    y: annotation.bbox.y * scale,
-    width: annotation.bbox.width * scale,
-    height: annotation.bbox.height * scale,
-  };
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(page.width * scale);
+  canvas.height = Math.ceil(page.height * scale);
 
-  ctx.save();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get 2D context');
+  }
 
-  switch (annotation.type) {
-    case 'text': {
-      const text = annotation as TextAnnotation;
-      const fontSize = text.style.fontSize * scale;
-      ctx.font = `${text.style.fontWeight || 'normal'} ${fontSize}px ${text.style.fontFamily}`;
-      ctx.fillStyle = text.style.stroke || '#000000';
-      ctx.textAlign = text.style.textAlign || 'left';
-      ctx.textBaseline = 'top';
-
-      // Draw background
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-      ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
-
-      // Draw text
-      ctx.fillStyle = text.style.stroke || '#000000';
-      const lines = text.content.split('\n');
-      const lineHeight = fontSize * 1.2;
-
-      lines.forEach((line, i) => {
-        ctx.fillText(line, bbox.x + 8, bbox.y + 8 + i * lineHeight, bbox.width - 16);
-      });
-      break;
-    }
+  await drawAnnotations(ctx, annotations, scale);
 
-    case 'highlight': {
-      ctx.fillStyle = annotation.style?.fill || '#FFFF00';
-      ctx.globalAlpha = annotation.opacity || 0.3;
-      ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
-      break;
-    }
+  for (const rasterLayer of rasters) {
+    if (!hasRasterContent(rasterLayer)) continue;
+    await compositeRasterLayer(ctx, page, rasterLayer, scale);
+  }
 
-    case 'rectangle': {
-      ctx.strokeStyle = annotation.style?.stroke || '#000000';
-      ctx.lineWidth = (annotation.style?.strokeWidth || 2) * scale;
+  return canvas;
+}
 
-      if (annotation.style?.fill && annotation.style.fill !== 'transparent') {
-        ctx.fillStyle = annotation.style.fill;
-        ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
-      }
+function loadImage(src: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = src;
+  return new Promise((resolve, reject) => {
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+  });
+}
 
-      ctx.strokeRect(bbox.x, bbox.y, bbox.width, bbox.height);
-      break;
-    }
+/**
+ * 래스터 레이어 합성 (연산을 내보내기 해상도로 다시 재생, 블렌드 모드/불투명도 적용)
+ */
+async function compositeRasterLayer(
+  ctx: CanvasRenderingContext2D,
+  page: Page,
+  layer: RasterLayer,
+  scale: number
+): Promise<void> {
+  const surface = await renderRasterLayer(layer, page.width, page.height, scale);
 
-    case 'ellipse': {
-      ctx.strokeStyle = annotation.style?.stroke || '#000000';
-      ctx.lineWidth = (annotation.style?.strokeWidth || 2) * scale;
-
-      ctx.beginPath();
-      ctx.ellipse(
-        bbox.x + bbox.width / 2,
-        bbox.y + bbox.height / 2,
-        bbox.width / 2,
-        bbox.height / 2,
-        0,
-        0,
-        Math.PI * 2
-      );
-
-      if (annotation.style?.fill && annotation.style.fill !== 'transparent') {
-        ctx.fillStyle = annotation.style.fill;
-        ctx.fill();
-      }
-
-      ctx.stroke();
-      break;
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.globalCompositeOperation = blendModeToComposite(layer.blendMode);
+  ctx.drawImage(surface, 0, 0, page.width * scale, page.height * scale);
+  ctx.restore();
+}
+
+/**
+ * 이미지 주석에 쓰이는 이미지 미리 불러오기 (Canvas 그리기는 동기)
+ */
+async function loadAnnotationImages(annotations: Annotation[]): Promise<Map<string, CanvasImageSource>> {
+  const images = new Map<string, CanvasImageSource>();
+  await Promise.all(collectImageSources(annotations).map(async (src) => {
+    try {
+      images.set(src, await loadImage(src));
+    } catch {
+      console.warn('⚠️ [PageRenderer] Failed to load annotation image');
     }
-  }
+  }));
+  return images;
+}
 
-  ctx.restore();
+/**
+ * Annotation들을 Canvas에 그리기 (AnnotationRegistry에 등록된 페인터 우선)
+ */
+async function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  scale: number
+): Promise<void> {
+  const images = await loadAnnotationImages(annotations);
+  for (const annotation of annotations) {
+    paintAnnotation(ctx, annotation, scale, { images }, annotationRegistry.getPainter(annotation.type));
+  }
 }
 
 /**
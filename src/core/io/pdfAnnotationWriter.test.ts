@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef } from "pdf-lib";
+import { computePageMatrix, createStandardFontResolver } from "./pdfVectorWriter";
+import { writeAnnotationObject, writeCommentAnnotation, stripImportedAnnotations } from "./pdfAnnotationWriter";
+import type { Annotation, CommentAnnotation } from "../model/types";
+
+vi.mock("./pageRenderer", () => ({
+  canvasToImageBytes: vi.fn(),
+}));
+
+const base = { pageId: "p1", createdAt: 0, modifiedAt: 0 };
+
+async function write(annotations: Annotation[]) {
+  const pdfDoc = await PDFDocument.create();
+  const pdfPage = pdfDoc.addPage([200, 200]);
+  const ctx = {
+    pdfDoc,
+    pdfPage,
+    pageWidth: 200,
+    pageHeight: 200,
+    matrix: computePageMatrix(pdfPage.getCropBox(), 0, 200, 200),
+    fonts: createStandardFontResolver(pdfDoc),
+  };
+
+  const results = [];
+  for (const annotation of annotations) {
+    results.push(await writeAnnotationObject(ctx, annotation));
+  }
+
+  const annots = (pdfPage.node.Annots()?.asArray() ?? []).map((ref) => pdfDoc.context.lookup(ref) as PDFDict);
+  return { results, annots, pdfDoc };
+}
+
+function nameOf(dict: PDFDict, key: string) {
+  return (dict.lookup(PDFName.of(key)) as PDFName).decodeText();
+}
+
+function numbersOf(dict: PDFDict, key: string) {
+  return (dict.lookup(PDFName.of(key)) as PDFArray).asArray().map((n) => (n as PDFNumber).asNumber());
+}
+
+describe("writeAnnotationObject", () => {
+  it("writes standard annotation dictionaries with appearance streams", async () => {
+    const { results, annots } = await write([
+      {
+        ...base, id: "h", type: "highlight", content: "",
+        bbox: { x: 10, y: 10, width: 50, height: 10 },
+        style: { fill: "#FFFF00", opacity: 0.4 },
+      },
+      {
+        ...base, id: "r", type: "rectangle",
+        bbox: { x: 20, y: 60, width: 50, height: 30 },
+        style: { fill: "#ff0000", stroke: "#000000", strokeWidth: 2 },
+      },
+      {
+        ...base, id: "a", type: "arrow",
+        startPoint: { x: 10, y: 150 }, endPoint: { x: 150, y: 150 },
+        bbox: { x: 10, y: 140, width: 140, height: 20 },
+        style: { stroke: "#0000ff", strokeWidth: 2 },
+      },
+      {
+        ...base, id: "t", type: "text", content: "Hello",
+        bbox: { x: 10, y: 100, width: 100, height: 40 },
+        style: { fontSize: 12, fontFamily: "Arial" },
+      },
+      {
+        ...base, id: "s", type: "stamp", stampType: "approved",
+        bbox: { x: 100, y: 10, width: 80, height: 30 },
+        style: { fill: "transparent", stroke: "", strokeWidth: 2 },
+      },
+    ]);
+
+    expect(results).toEqual([true, true, true, true, true]);
+    expect(annots.map((a) => nameOf(a, "Subtype"))).toEqual(["Highlight", "Square", "Line", "FreeText", "Stamp"]);
+    for (const annot of annots) {
+      expect((annot.lookup(PDFName.of("AP")) as PDFDict).get(PDFName.of("N"))).toBeInstanceOf(PDFRef);
+    }
+
+    const [highlight, square, line, , stamp] = annots;
+    // 편집 좌표(좌상단 원점) → PDF 사용자 공간(좌하단 원점)
+    expect(numbersOf(highlight, "QuadPoints")).toEqual([10, 190, 60, 190, 10, 180, 60, 180]);
+    expect(numbersOf(square, "Rect")).toEqual([20, 110, 70, 140]);
+    expect(numbersOf(square, "IC")).toEqual([1, 0, 0]);
+    expect(numbersOf(line, "L")).toEqual([10, 50, 150, 50]);
+    expect((line.lookup(PDFName.of("LE")) as PDFArray).asArray().map((n) => (n as PDFName).decodeText())).toEqual(["None", "ClosedArrow"]);
+    expect(nameOf(stamp, "Name")).toBe("Approved");
+  });
+
+  it("writes text markups with one quad per line", async () => {
+    const quads = [
+      { x: 10, y: 10, width: 100, height: 10 },
+      { x: 10, y: 25, width: 40, height: 10 },
+    ];
+    const { results, annots } = await write([
+      {
+        ...base, id: "h", type: "highlight", content: "two lines",
+        bbox: { x: 10, y: 10, width: 100, height: 25 }, quads,
+        style: { fill: "#FFFF00", opacity: 0.4 },
+      },
+      {
+        ...base, id: "u", type: "strikeout", content: "two lines",
+        bbox: { x: 10, y: 10, width: 100, height: 25 }, quads,
+        style: { stroke: "#ff0000" },
+      },
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(annots.map((a) => nameOf(a, "Subtype"))).toEqual(["Highlight", "StrikeOut"]);
+    const expected = [10, 190, 110, 190, 10, 180, 110, 180, 10, 175, 50, 175, 10, 165, 50, 165];
+    expect(numbersOf(annots[0], "QuadPoints")).toEqual(expected);
+    expect(numbersOf(annots[1], "QuadPoints")).toEqual(expected);
+    expect(numbersOf(annots[1], "C")).toEqual([1, 0, 0]);
+  });
+
+  it("falls back for shapes that have no annotation equivalent", async () => {
+    const { results, annots } = await write([
+      {
+        ...base, id: "e", type: "ellipse", sweepAngle: 180,
+        bbox: { x: 0, y: 0, width: 50, height: 50 },
+        style: { fill: "#fff", stroke: "#000", strokeWidth: 1 },
+      },
+      {
+        ...base, id: "k", type: "text", content: "안녕하세요",
+        bbox: { x: 0, y: 0, width: 100, height: 40 },
+        style: { fontSize: 12, fontFamily: "Arial" },
+      },
+    ]);
+
+    expect(results).toEqual([false, false]);
+    expect(annots).toHaveLength(0);
+  });
+});
+
+describe("writeCommentAnnotation", () => {
+  it("writes a /Text thread with a popup, replies and a review state", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const pdfPage = pdfDoc.addPage([200, 200]);
+    const comment: CommentAnnotation = {
+      ...base, id: "c", type: "comment", status: "resolved",
+      bbox: { x: 10, y: 10, width: 24, height: 24 },
+      style: { color: "#ff0000" },
+      thread: [
+        { id: "m1", author: "Alice", text: "Typo here", createdAt: 1 },
+        { id: "m2", author: "Bob", text: "Fixed", createdAt: 2 },
+      ],
+    };
+    writeCommentAnnotation({
+      pdfDoc,
+      pdfPage,
+      pageWidth: 200,
+      pageHeight: 200,
+      matrix: computePageMatrix(pdfPage.getCropBox(), 0, 200, 200),
+      fonts: createStandardFontResolver(pdfDoc),
+    }, comment);
+
+    const refs = pdfPage.node.Annots()!.asArray() as PDFRef[];
+    const annots = refs.map((ref) => pdfDoc.context.lookup(ref) as PDFDict);
+    expect(annots.map((a) => nameOf(a, "Subtype"))).toEqual(["Text", "Popup", "Text", "Text"]);
+
+    const [root, popup, reply, state] = annots;
+    const text = (dict: PDFDict, key: string) => (dict.lookup(PDFName.of(key)) as PDFHexString).decodeText();
+    expect(numbersOf(root, "Rect")).toEqual([10, 166, 34, 190]);
+    expect(text(root, "T")).toBe("Alice");
+    expect(text(root, "Contents")).toBe("Typo here");
+    expect(root.get(PDFName.of("Popup"))).toBe(refs[1]);
+    expect(popup.get(PDFName.of("Parent"))).toBe(refs[0]);
+
+    expect(text(reply, "T")).toBe("Bob");
+    expect(reply.get(PDFName.of("IRT"))).toBe(refs[0]);
+    expect(nameOf(reply, "RT")).toBe("R");
+    expect(state.get(PDFName.of("IRT"))).toBe(refs[0]);
+    expect(nameOf(state, "State")).toBe("Completed");
+  });
+});
+
+describe("stripImportedAnnotations", () => {
+  it("removes imported subtypes and their popups but keeps links", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([200, 200]);
+    const { context } = pdfDoc;
+    const ink = context.register(context.obj({ Type: "Annot", Subtype: "Ink", Rect: [0, 0, 1, 1] }));
+    const popup = context.register(context.obj({ Type: "Annot", Subtype: "Popup", Rect: [0, 0, 1, 1], Parent: ink }));
+    const link = context.register(context.obj({ Type: "Annot", Subtype: "Link", Rect: [0, 0, 1, 1] }));
+    page.node.set(PDFName.of("Annots"), context.obj([ink, popup, link]));
+
+    expect(stripImportedAnnotations(page)).toBe(2);
+    expect(page.node.Annots()?.asArray()).toEqual([link]);
+  });
+});
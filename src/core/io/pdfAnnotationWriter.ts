@@ -0,0 +1,699 @@
+/**
+ * PDF Annotation Writer - 주석을 표준 /Annot 사전으로 기록
+ *
+ * 페이지 내용에 굽지 않고 /Highlight, /Underline, /Squiggly, /StrikeOut, /Square, /Circle,
+ * /Line, /Ink, /FreeText, /Stamp 주석 객체로 저장하여 Acrobat 등 다른 뷰어에서 계속 편집할 수 있게 한다.
+ * 모든 주석에는 pdfVectorWriter와 같은 모양의 외관 스트림(/AP /N)을 함께 기록한다.
+ * 검토 댓글은 모드와 관계없이 /Text 주석(+ /Popup, 답글은 /IRT)으로 기록한다.
+ */
+
+import {
+  PDFDocument,
+  PDFPage,
+  PDFFont,
+  PDFDict,
+  PDFName,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFOperator,
+  LineCapStyle,
+  degrees,
+  drawSvgPath,
+  drawText,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+} from 'pdf-lib';
+import type { PDFObject } from 'pdf-lib';
+import type { Annotation, BBox, Point } from '../model/types';
+import type {
+  TextAnnotation,
+  HighlightAnnotation,
+  RectangleAnnotation,
+  RoundedRectAnnotation,
+  EllipseAnnotation,
+  ArrowAnnotation,
+  LineAnnotation,
+  FreehandAnnotation,
+  HighlighterAnnotation,
+  StampAnnotation,
+  TextMarkupAnnotation,
+  CommentAnnotation,
+} from '../../types/annotation';
+import {
+  parseCssColor,
+  parseDashArray,
+  buildRectPath,
+  buildEllipsePath,
+  buildSmoothPath,
+  buildTextMarkupStrokes,
+  layoutTextLines,
+  canEncode,
+} from './pdfVectorWriter';
+import type { PdfMatrix, PathPaint, StandardFontResolver } from './pdfVectorWriter';
+import { IMPORTED_ANNOTATION_SUBTYPES } from '../pdf/annotationImport';
+import { annotationRotation, isRotated, rotatedBounds, rotationMatrixYUp } from '../annotations/annotationRotation';
+import { isImageStamp, stampColor, stampFrame, stampLabel, stampTextBlock } from '../stamps/stampAppearance';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AnnotationWriteContext {
+  pdfDoc: PDFDocument;
+  pdfPage: PDFPage;
+  /** 편집 좌표계 페이지 크기 (Page.width / Page.height) */
+  pageWidth: number;
+  pageHeight: number;
+  /** 편집 좌표(y-up) → PDF 사용자 공간 (computePageMatrix) */
+  matrix: PdfMatrix;
+  fonts: StandardFontResolver;
+}
+
+/** 외관 스트림 내용 + 리소스 */
+interface Appearance {
+  ops: PDFOperator[];
+  extGStates: Record<string, PDFDict>;
+  fonts: Record<string, PDFRef>;
+}
+
+type PdfRect = [number, number, number, number];
+
+const TEXT_MARKUP_SUBTYPES: Record<TextMarkupAnnotation['type'], string> = {
+  underline: 'Underline',
+  squiggly: 'Squiggly',
+  strikeout: 'StrikeOut',
+};
+
+const STAMP_NAMES: Record<StampAnnotation['stampType'], string> = {
+  approved: 'Approved',
+  rejected: 'NotApproved',
+  pending: 'ForComment',
+  custom: 'Draft',
+};
+
+// ============================================
+// Coordinate Helpers
+// ============================================
+
+/** 편집 좌표(좌상단 원점) → PDF 사용자 공간 */
+function toUserSpace(ctx: AnnotationWriteContext, p: Point): [number, number] {
+  const [a, b, c, d, e, f] = ctx.matrix;
+  const u = p.x;
+  const v = ctx.pageHeight - p.y;
+  return [a * u + c * v + e, b * u + d * v + f];
+}
+
+/** 편집 단위 1의 사용자 공간 길이 */
+function unitScale(ctx: AnnotationWriteContext): number {
+  const [a, b, c, d] = ctx.matrix;
+  return Math.sqrt(Math.abs(a * d - b * c));
+}
+
+function userRect(ctx: AnnotationWriteContext, box: BBox, pad = 0): PdfRect {
+  const corners = [
+    { x: box.x - pad, y: box.y - pad },
+    { x: box.x + box.width + pad, y: box.y - pad },
+    { x: box.x - pad, y: box.y + box.height + pad },
+    { x: box.x + box.width + pad, y: box.y + box.height + pad },
+  ].map((p) => toUserSpace(ctx, p));
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+function boundsOf(points: Point[]): BBox {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** CSS 색상 → PDF 색상 배열 (투명/알 수 없는 값은 undefined) */
+function colorArray(value: string | undefined): number[] | undefined {
+  const parsed = parseCssColor(value);
+  if (!parsed || parsed.alpha === 0) return undefined;
+  return [parsed.color.red, parsed.color.green, parsed.color.blue];
+}
+
+function borderStyle(ctx: AnnotationWriteContext, width: number, dash?: string) {
+  const s = unitScale(ctx);
+  const dashArray = parseDashArray(dash);
+  return {
+    Type: 'Border',
+    W: width * s,
+    S: dashArray ? 'D' : 'S',
+    D: dashArray?.map((d) => d * s),
+  };
+}
+
+// ============================================
+// Appearance Streams
+// ============================================
+
+function createAppearance(): Appearance {
+  return { ops: [], extGStates: {}, fonts: {} };
+}
+
+function graphicsState(ctx: AnnotationWriteContext, ap: Appearance, fillAlpha: number, strokeAlpha: number): string | undefined {
+  if (fillAlpha >= 1 && strokeAlpha >= 1) return undefined;
+  const name = `GS${Object.keys(ap.extGStates).length}`;
+  ap.extGStates[name] = ctx.pdfDoc.context.obj({ Type: 'ExtGState', ca: fillAlpha, CA: strokeAlpha });
+  return name;
+}
+
+function fontResource(ap: Appearance, font: PDFFont): string {
+  const existing = Object.entries(ap.fonts).find(([, ref]) => ref === font.ref);
+  if (existing) return existing[0];
+  const name = `F${Object.keys(ap.fonts).length}`;
+  ap.fonts[name] = font.ref;
+  return name;
+}
+
+/** pdfVectorWriter의 drawPath와 같은 규칙으로 외관 스트림에 경로 추가 */
+function appendPath(ctx: AnnotationWriteContext, ap: Appearance, path: string, paint: PathPaint): void {
+  if (!path) return;
+  const fill = parseCssColor(paint.fill);
+  const stroke = (paint.strokeWidth ?? 0) > 0 ? parseCssColor(paint.stroke) : null;
+  if (!fill && !stroke) return;
+
+  ap.ops.push(...drawSvgPath(path, {
+    x: 0,
+    y: ctx.pageHeight,
+    scale: 1,
+    color: fill?.color,
+    borderColor: stroke?.color,
+    borderWidth: stroke ? paint.strokeWidth! : 0,
+    borderDashArray: stroke ? paint.dashArray : undefined,
+    borderLineCap: stroke ? paint.lineCap : undefined,
+    graphicsState: graphicsState(
+      ctx,
+      ap,
+      fill ? fill.alpha * (paint.fillOpacity ?? 1) : 1,
+      stroke ? stroke.alpha * (paint.strokeOpacity ?? 1) : 1
+    ),
+  }));
+}
+
+function appendTextLine(
+  ctx: AnnotationWriteContext,
+  ap: Appearance,
+  font: PDFFont,
+  line: { text: string; x: number; baseline: number },
+  size: number,
+  color: string | undefined
+): void {
+  const parsed = parseCssColor(color) ?? parseCssColor('#000000')!;
+  ap.ops.push(...drawText(font.encodeText(line.text), {
+    color: parsed.color,
+    font: fontResource(ap, font),
+    size,
+    rotate: degrees(0),
+    xSkew: degrees(0),
+    ySkew: degrees(0),
+    x: line.x,
+    y: ctx.pageHeight - line.baseline,
+    graphicsState: graphicsState(ctx, ap, parsed.alpha, 1),
+  }));
+}
+
+/** 외관 스트림을 Form XObject로 등록 (BBox = Rect, 편집 좌표로 그린 내용을 행렬로 변환) */
+function finishAppearance(ctx: AnnotationWriteContext, ap: Appearance, rect: PdfRect): PDFRef {
+  const { context } = ctx.pdfDoc;
+  const resources: Record<string, PDFDict> = {};
+  if (Object.keys(ap.extGStates).length > 0) resources.ExtGState = context.obj(ap.extGStates);
+  if (Object.keys(ap.fonts).length > 0) resources.Font = context.obj(ap.fonts);
+
+  const stream = context.formXObject(
+    [pushGraphicsState(), concatTransformationMatrix(...ctx.matrix), ...ap.ops, popGraphicsState()],
+    { BBox: rect, Resources: resources }
+  );
+  return context.register(stream);
+}
+
+/**
+ * /Annot 사전을 만들어 페이지 /Annots에 추가
+ * NM에는 JustFlux 주석 id를 기록한다.
+ */
+function addAnnotationObject(
+  ctx: AnnotationWriteContext,
+  annotation: Annotation,
+  subtype: string,
+  rect: PdfRect,
+  ap: Appearance,
+  entries: Record<string, PDFObject | string | number | (string | number)[] | number[][] | Record<string, unknown> | undefined>
+): PDFRef {
+  const { context } = ctx.pdfDoc;
+  if (isRotated(annotation)) {
+    // 회전된 상자: 외관을 bbox 중심 기준으로 돌리고 Rect는 회전된 영역을 감싸도록
+    const rotation = annotationRotation(annotation);
+    ap.ops.unshift(concatTransformationMatrix(...rotationMatrixYUp(annotation.bbox, rotation, ctx.pageHeight)));
+    rect = userRect(ctx, rotatedBounds(annotation.bbox, rotation));
+  }
+  // 크기가 0인 Rect는 뷰어가 무시하므로 최소 1pt 확보
+  if (rect[2] - rect[0] < 1) rect[2] = rect[0] + 1;
+  if (rect[3] - rect[1] < 1) rect[3] = rect[1] + 1;
+
+  const dict = context.obj({
+    Type: 'Annot',
+    Subtype: subtype,
+    Rect: rect,
+    F: 4, // Print
+    P: ctx.pdfPage.ref,
+    NM: PDFHexString.fromText(annotation.id),
+    M: PDFString.fromDate(new Date(annotation.modifiedAt || Date.now())),
+    AP: { N: finishAppearance(ctx, ap, rect) },
+    ...(entries as Record<string, PDFObject>),
+  });
+  const ref = context.register(dict);
+  ctx.pdfPage.node.addAnnot(ref);
+  return ref;
+}
+
+// ============================================
+// Annotation Writers
+// ============================================
+
+/** QuadPoints (사각형마다 좌상, 우상, 좌하, 우하 - 표시 기준) */
+function quadPoints(ctx: AnnotationWriteContext, quads: BBox[]): number[] {
+  return quads.flatMap(({ x, y, width, height }) => [
+    { x, y },
+    { x: x + width, y },
+    { x, y: y + height },
+    { x: x + width, y: y + height },
+  ].flatMap((p) => toUserSpace(ctx, p)));
+}
+
+function writeHighlight(ctx: AnnotationWriteContext, a: HighlightAnnotation): void {
+  const fill = a.style?.fill || '#FFFF00';
+  const opacity = a.opacity ?? a.style?.opacity ?? 0.3;
+  // 텍스트 선택 하이라이트는 줄별 사각형
+  const quads = a.quads?.length ? a.quads : [a.bbox];
+
+  const ap = createAppearance();
+  appendPath(ctx, ap, quads.map((quad) => buildRectPath(quad)).join(' '), { fill, fillOpacity: opacity });
+
+  addAnnotationObject(ctx, a, 'Highlight', userRect(ctx, a.bbox), ap, {
+    QuadPoints: quadPoints(ctx, quads),
+    C: colorArray(fill),
+    CA: opacity,
+    Contents: a.content ? PDFHexString.fromText(a.content) : undefined,
+  });
+}
+
+function writeTextMarkup(ctx: AnnotationWriteContext, a: TextMarkupAnnotation): void {
+  const stroke = a.style?.stroke || '#E53935';
+  const opacity = a.style?.opacity ?? 1;
+  const strokes = buildTextMarkupStrokes(a);
+
+  const ap = createAppearance();
+  for (const { path, width } of strokes) {
+    appendPath(ctx, ap, path, { stroke, strokeWidth: width, strokeOpacity: opacity });
+  }
+
+  // 물결은 quad 아래로 약간 벗어날 수 있으므로 선 두께만큼 여유
+  const pad = Math.max(...strokes.map((s) => s.width));
+  addAnnotationObject(ctx, a, TEXT_MARKUP_SUBTYPES[a.type], userRect(ctx, a.bbox, pad), ap, {
+    QuadPoints: quadPoints(ctx, a.quads),
+    C: colorArray(stroke),
+    CA: opacity,
+    Contents: a.content ? PDFHexString.fromText(a.content) : undefined,
+  });
+}
+
+function writeShape(
+  ctx: AnnotationWriteContext,
+  a: RectangleAnnotation | RoundedRectAnnotation | EllipseAnnotation
+): void {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  const paint: PathPaint = {
+    fill: a.style?.fill,
+    fillOpacity: a.style?.opacity ?? 1,
+    stroke: a.style?.stroke || '#000000',
+    strokeWidth: sw,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+  };
+
+  // 화면 표시와 동일하게 선 두께의 절반만큼 안쪽에 그림
+  const ap = createAppearance();
+  const path = a.type === 'ellipse'
+    ? buildEllipsePath(
+        bbox.x + bbox.width / 2,
+        bbox.y + bbox.height / 2,
+        Math.max(0, bbox.width / 2 - sw / 2),
+        Math.max(0, bbox.height / 2 - sw / 2),
+        0,
+        360,
+        0
+      )
+    : buildRectPath(
+        { x: bbox.x + sw / 2, y: bbox.y + sw / 2, width: Math.max(0, bbox.width - sw), height: Math.max(0, bbox.height - sw) },
+        a.cornerRadius || 0
+      );
+  appendPath(ctx, ap, path, paint);
+
+  addAnnotationObject(ctx, a, a.type === 'ellipse' ? 'Circle' : 'Square', userRect(ctx, bbox), ap, {
+    C: colorArray(paint.stroke),
+    IC: colorArray(paint.fill),
+    BS: borderStyle(ctx, sw, a.style?.strokeDasharray),
+  });
+}
+
+function writeLine(ctx: AnnotationWriteContext, a: ArrowAnnotation | LineAnnotation): void {
+  const { startPoint: s, endPoint: e } = a;
+  const stroke = a.style?.stroke || '#000000';
+  const sw = a.style?.strokeWidth || 2;
+  const opacity = a.style?.opacity ?? 1;
+  const headSize = a.type === 'arrow' ? a.arrowHeadSize ?? 10 : 0;
+
+  const ap = createAppearance();
+  appendPath(ctx, ap, `M ${s.x} ${s.y} L ${e.x} ${e.y}`, {
+    stroke,
+    strokeWidth: sw,
+    strokeOpacity: opacity,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+    lineCap: LineCapStyle.Round,
+  });
+
+  if (a.type === 'arrow') {
+    const angle = Math.atan2(e.y - s.y, e.x - s.x);
+    const p1 = { x: e.x - headSize * Math.cos(angle - Math.PI / 6), y: e.y - headSize * Math.sin(angle - Math.PI / 6) };
+    const p2 = { x: e.x - headSize * Math.cos(angle + Math.PI / 6), y: e.y - headSize * Math.sin(angle + Math.PI / 6) };
+    appendPath(ctx, ap, `M ${e.x} ${e.y} L ${p1.x} ${p1.y} L ${p2.x} ${p2.y} Z`, { fill: stroke, fillOpacity: opacity });
+  }
+
+  addAnnotationObject(ctx, a, 'Line', userRect(ctx, boundsOf([s, e]), sw / 2 + headSize), ap, {
+    L: [...toUserSpace(ctx, s), ...toUserSpace(ctx, e)],
+    LE: a.type === 'arrow' ? ['None', 'ClosedArrow'] : ['None', 'None'],
+    C: colorArray(stroke),
+    IC: a.type === 'arrow' ? colorArray(stroke) : undefined,
+    BS: borderStyle(ctx, sw, a.style?.strokeDasharray),
+    CA: opacity < 1 ? opacity : undefined,
+  });
+}
+
+/** 곡선 Line은 /Line으로 표현할 수 없으므로 곡선을 샘플링한 /Ink로 기록 */
+function writeCurvedLine(ctx: AnnotationWriteContext, a: LineAnnotation): void {
+  const { startPoint: s, endPoint: e } = a;
+  const cp = a.controlPoint!;
+  const samples: Point[] = [];
+  for (let i = 0; i <= 16; i++) {
+    const t = i / 16;
+    const mt = 1 - t;
+    samples.push({
+      x: mt * mt * s.x + 2 * mt * t * cp.x + t * t * e.x,
+      y: mt * mt * s.y + 2 * mt * t * cp.y + t * t * e.y,
+    });
+  }
+  writeInk(ctx, a, samples, `M ${s.x} ${s.y} Q ${cp.x} ${cp.y} ${e.x} ${e.y}`, {
+    stroke: a.style?.stroke || '#000000',
+    strokeWidth: a.style?.strokeWidth || 2,
+    strokeOpacity: a.style?.opacity ?? 1,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+    lineCap: LineCapStyle.Round,
+  });
+}
+
+function writeStroke(ctx: AnnotationWriteContext, a: FreehandAnnotation | HighlighterAnnotation): void {
+  const points = a.points || [];
+  if (points.length === 0) return;
+  const isHighlighter = a.type === 'highlighter';
+  writeInk(ctx, a, points, buildSmoothPath(points), {
+    stroke: a.style?.stroke || (isHighlighter ? '#FFFF00' : '#000000'),
+    strokeWidth: a.style?.strokeWidth || (isHighlighter ? 20 : 3),
+    strokeOpacity: a.style?.opacity ?? (isHighlighter ? 0.4 : 1),
+    lineCap: LineCapStyle.Round,
+  });
+}
+
+function writeInk(ctx: AnnotationWriteContext, a: Annotation, points: Point[], path: string, paint: PathPaint): void {
+  const ap = createAppearance();
+  appendPath(ctx, ap, path, paint);
+
+  const opacity = paint.strokeOpacity ?? 1;
+  addAnnotationObject(ctx, a, 'Ink', userRect(ctx, boundsOf(points), (paint.strokeWidth ?? 1) / 2), ap, {
+    InkList: [points.flatMap((p) => toUserSpace(ctx, p))],
+    C: colorArray(paint.stroke),
+    BS: borderStyle(ctx, paint.strokeWidth ?? 1),
+    CA: opacity < 1 ? opacity : undefined,
+  });
+}
+
+/**
+ * 텍스트 상자 → /FreeText
+ * @returns false - 표준 폰트로 인코딩할 수 없는 텍스트 (호출 측에서 벡터/래스터로 처리)
+ */
+async function writeFreeText(ctx: AnnotationWriteContext, a: TextAnnotation): Promise<boolean> {
+  const { bbox, style } = a;
+  const font = await ctx.fonts(style.fontFamily, style.fontWeight, style.fontStyle);
+  if (!canEncode(font, a.content || '')) return false;
+
+  const padding = 8;
+  const fontSize = style.fontSize || 16;
+  const background = style.backgroundColor || 'rgba(255, 255, 255, 0.9)';
+  const borderWidth = style.borderColor ? style.borderWidth || 1 : 0;
+
+  const ap = createAppearance();
+  appendPath(ctx, ap, buildRectPath(bbox), {
+    fill: background,
+    fillOpacity: style.backgroundOpacity ?? 1,
+    stroke: style.borderColor,
+    strokeWidth: borderWidth,
+  });
+  const lines = layoutTextLines(font, {
+    content: a.content || '',
+    box: { x: bbox.x + padding, y: bbox.y + padding, width: bbox.width - padding * 2, height: bbox.height - padding * 2 },
+    fontSize,
+    textAlign: style.textAlign,
+    verticalAlign: style.verticalAlign ?? 'middle',
+    lineHeight: 1.2,
+  });
+  for (const line of lines) {
+    appendTextLine(ctx, ap, font, line, fontSize, style.color);
+  }
+
+  const textColor = colorArray(style.color || '#000000') ?? [0, 0, 0];
+  addAnnotationObject(ctx, a, 'FreeText', userRect(ctx, bbox), ap, {
+    Contents: PDFHexString.fromText(a.content || ''),
+    DA: PDFString.of(`/Helv ${fontSize * unitScale(ctx)} Tf ${textColor.join(' ')} rg`),
+    Q: style.textAlign === 'center' ? 1 : style.textAlign === 'right' ? 2 : 0,
+    C: colorArray(background),
+    BS: borderStyle(ctx, borderWidth),
+  });
+  return true;
+}
+
+/**
+ * 스탬프 → /Stamp
+ * @returns false - 이미지 스탬프나 표준 폰트로 인코딩할 수 없는 텍스트 (호출 측에서 벡터/래스터로 처리)
+ */
+async function writeStamp(ctx: AnnotationWriteContext, a: StampAnnotation): Promise<boolean> {
+  if (isImageStamp(a)) return false;
+  const { bbox } = a;
+  const color = stampColor(a);
+  const font = await ctx.fonts(a.style?.fontFamily, 'bold');
+  const label = stampLabel(a);
+  if (!canEncode(font, label)) return false;
+
+  const frame = stampFrame(a);
+  const ap = createAppearance();
+  appendPath(ctx, ap, frame.outline, { fill: a.style?.fill });
+  for (const stroke of frame.strokes) {
+    appendPath(ctx, ap, stroke, { stroke: color, strokeWidth: frame.strokeWidth, dashArray: frame.dashArray });
+  }
+
+  // 글자 크기를 정하지 않은 (이전 버전) 스탬프는 상자에 맞춤
+  const widthAtOne = font.widthOfTextAtSize(label, 1) || 1;
+  const size = a.style?.fontSize
+    || Math.max(1, Math.min(bbox.height * 0.5, (bbox.width - frame.strokeWidth * 2 - 8) / widthAtOne));
+  const lines = layoutTextLines(font, stampTextBlock(a, size));
+  for (const line of lines) {
+    appendTextLine(ctx, ap, font, line, size, color);
+  }
+
+  addAnnotationObject(ctx, a, 'Stamp', userRect(ctx, bbox), ap, {
+    Name: STAMP_NAMES[a.stampType] ?? 'Draft',
+    C: colorArray(color),
+    Contents: PDFHexString.fromText(label),
+  });
+  return true;
+}
+
+/**
+ * 주석 하나를 /Annot 객체로 기록
+ * @returns false - 주석 객체로 표현할 수 없는 경우 (호출 측에서 벡터로 굽기)
+ */
+export async function writeAnnotationObject(
+  ctx: AnnotationWriteContext,
+  annotation: Annotation
+): Promise<boolean> {
+  switch (annotation.type) {
+    case 'highlight':
+      // QuadPoints는 축 정렬 사각형으로 해석하는 뷰어가 많음 - 회전된 하이라이트는 벡터로 굽기
+      if (isRotated(annotation)) return false;
+      writeHighlight(ctx, annotation);
+      return true;
+    case 'underline':
+    case 'squiggly':
+    case 'strikeout':
+      writeTextMarkup(ctx, annotation);
+      return true;
+    case 'rectangle':
+    case 'roundedRect':
+      writeShape(ctx, annotation);
+      return true;
+    case 'ellipse':
+      // 호/도넛은 /Circle로 표현할 수 없음
+      if ((annotation.sweepAngle ?? 360) < 360 || (annotation.innerRadiusRatio ?? 0) > 0) return false;
+      writeShape(ctx, annotation);
+      return true;
+    case 'arrow':
+      writeLine(ctx, annotation);
+      return true;
+    case 'line':
+      if (annotation.controlPoint) {
+        writeCurvedLine(ctx, annotation);
+      } else {
+        writeLine(ctx, annotation);
+      }
+      return true;
+    case 'freehand':
+    case 'highlighter':
+      writeStroke(ctx, annotation);
+      return true;
+    case 'text':
+      return writeFreeText(ctx, annotation);
+    case 'stamp':
+      return writeStamp(ctx, annotation);
+    default:
+      return false;
+  }
+}
+
+// ============================================
+// Review Comments
+// ============================================
+
+// Print | NoZoom | NoRotate - 스티커 메모 아이콘은 확대/회전과 무관하게 같은 크기
+const COMMENT_FLAGS = 4 | 8 | 16;
+// Hidden - 상태 주석은 댓글 목록에만 보임
+const HIDDEN_FLAG = 2;
+
+const POPUP_SIZE = { width: 200, height: 100 };
+
+/** 말풍선 모양 외관 (둥근 상자 + 글줄 세 개) */
+function commentAppearance(ctx: AnnotationWriteContext, box: BBox, color: string): Appearance {
+  const ap = createAppearance();
+  const pad = box.width * 0.2;
+  appendPath(ctx, ap, buildRectPath(box, box.width * 0.15), { fill: color, stroke: '#000000', strokeWidth: 0.5 });
+  const lines = [0.35, 0.5, 0.65].map((t) => {
+    const y = box.y + box.height * t;
+    return `M ${box.x + pad} ${y} L ${box.x + box.width - pad} ${y}`;
+  });
+  appendPath(ctx, ap, lines.join(' '), { stroke: '#FFFFFF', strokeWidth: 1, lineCap: LineCapStyle.Round });
+  return ap;
+}
+
+/**
+ * 검토 댓글을 /Text 주석 스레드로 기록
+ * 첫 글은 /Popup이 달린 본문, 이후 글은 IRT로 본문에 답한 /Text,
+ * 해결된 댓글은 Review 상태(Completed) 주석을 덧붙인다.
+ * 댓글 위치는 호출 측에서 placeComment로 붙은 주석에 맞춰 둔다.
+ */
+export function writeCommentAnnotation(ctx: AnnotationWriteContext, comment: CommentAnnotation): void {
+  const { context } = ctx.pdfDoc;
+  const color = comment.style?.color || '#F59E0B';
+  const rect = userRect(ctx, comment.bbox);
+  const [first, ...replies] = comment.thread;
+
+  const common = (author: string, text: string, createdAt: number) => ({
+    F: COMMENT_FLAGS,
+    C: colorArray(color),
+    T: PDFHexString.fromText(author),
+    Contents: PDFHexString.fromText(text),
+    CreationDate: PDFString.fromDate(new Date(createdAt)),
+    M: PDFString.fromDate(new Date(createdAt)),
+  });
+
+  const root = addAnnotationObject(ctx, comment, 'Text', rect, commentAppearance(ctx, comment.bbox, color), {
+    ...common(first?.author ?? '', first?.text ?? '', first?.createdAt ?? comment.createdAt),
+    M: PDFString.fromDate(new Date(comment.modifiedAt || Date.now())),
+    Name: 'Comment',
+  });
+
+  // 아이콘 오른쪽에 열리는 팝업
+  const popup = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Popup',
+    Rect: [rect[2], rect[3] - POPUP_SIZE.height, rect[2] + POPUP_SIZE.width, rect[3]],
+    P: ctx.pdfPage.ref,
+    Parent: root,
+    Open: false,
+  }));
+  ctx.pdfPage.node.addAnnot(popup);
+  context.lookup(root, PDFDict).set(PDFName.of('Popup'), popup);
+
+  const reply = (id: string, entries: Record<string, PDFObject | string | number | number[] | undefined>) =>
+    addAnnotationObject(ctx, comment, 'Text', rect, commentAppearance(ctx, comment.bbox, color), {
+      NM: PDFHexString.fromText(`${comment.id}/${id}`),
+      Name: 'Comment',
+      IRT: root,
+      RT: 'R',
+      ...entries,
+    });
+
+  for (const message of replies) {
+    reply(message.id, common(message.author, message.text, message.createdAt));
+  }
+  if (comment.status === 'resolved') {
+    reply('state', {
+      ...common(first?.author ?? '', 'Completed', comment.modifiedAt || Date.now()),
+      F: COMMENT_FLAGS | HIDDEN_FLAG,
+      StateModel: 'Review',
+      State: 'Completed',
+    });
+  }
+}
+
+// ============================================
+// Original Annotations
+// ============================================
+
+/**
+ * 복사된 원본 페이지에서 JustFlux로 가져온 주석(과 그 Popup)을 제거
+ * 가져온 주석은 편집 결과로 다시 기록되므로, 남겨두면 중복되고 삭제가 반영되지 않는다.
+ * @returns 제거된 주석 수
+ */
+export function stripImportedAnnotations(pdfPage: PDFPage): number {
+  const annots = pdfPage.node.Annots();
+  if (!annots) return 0;
+  const { context } = pdfPage.doc;
+
+  const subtypeOf = (dict: PDFDict | undefined) => {
+    const subtype = dict?.lookup(PDFName.of('Subtype'));
+    return subtype instanceof PDFName ? subtype.decodeText() : undefined;
+  };
+  const entries = annots.asArray().map((entry) => {
+    const dict = context.lookup(entry);
+    return { entry, dict: dict instanceof PDFDict ? dict : undefined };
+  });
+
+  const removed = new Set<PDFObject>();
+  for (const { entry, dict } of entries) {
+    const subtype = subtypeOf(dict);
+    if (subtype && IMPORTED_ANNOTATION_SUBTYPES.includes(subtype)) removed.add(entry);
+  }
+  for (const { entry, dict } of entries) {
+    const parent = dict?.get(PDFName.of('Parent'));
+    if (subtypeOf(dict) === 'Popup' && parent && removed.has(parent)) removed.add(entry);
+  }
+
+  if (removed.size > 0) {
+    const kept = entries.filter(({ entry }) => !removed.has(entry)).map(({ entry }) => entry);
+    pdfPage.node.set(PDFName.of('Annots'), context.obj(kept));
+  }
+  return removed.size;
+}
@@ -3,27 +3,266 @@ import { logger } from '../../utils/logger';
  * PDF Export - PDF 형식으로 내보내기
  */
 
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, degrees } from 'pdf-lib';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
-import type { ExportOptions, Page } from '../model/types';
-import { renderPageToCanvas, canvasToImageBytes } from './pageRenderer';
+import type { Annotation, CommentAnnotation, ExportOptions, OCRAnnotation, Page } from '../model/types';
+import { renderPageToCanvas, renderOverlayToCanvas, canvasToImageBytes } from './pageRenderer';
+import {
+  computePageMatrix,
+  beginPageDrawing,
+  endPageDrawing,
+  createStandardFontResolver,
+  drawAnnotationAsVector,
+} from './pdfVectorWriter';
+import type { StandardFontResolver } from './pdfVectorWriter';
+import { writeAnnotationObject, writeCommentAnnotation, stripImportedAnnotations } from './pdfAnnotationWriter';
+import { drawOcrTextLayer } from './pdfOcrTextWriter';
+import { hasRasterContent } from '../raster/rasterEngine';
+import { hasRedactions, intersectsAny, pageRedactionRegions } from '../redaction/redaction';
+import { collectRedactedStrings, verifyRedactedPdf } from '../redaction/redactionVerifier';
+import type { RedactionExpectation } from '../redaction/redactionVerifier';
+import { isPageGeometryEdited, pageOutputSize, pageVisibleBox } from '../page/pageGeometry';
+import { pageFrameMatrix, reframePdfPage } from './pdfPageFrame';
+import { imposePdf } from './imposition';
+import { signPdf } from '../signing/pdfSigner';
+import { writeFormFields } from './pdfFormWriter';
+import { collectFormFields } from '../forms/formFields';
+import { placeComment } from '../annotations/comments';
+import type { PdfMatrix } from './pdfVectorWriter';
+
+/** 원본 문서 소스 키 (추가된 PDF는 파일명, 기본 문서는 빈 문자열) */
+const MAIN_SOURCE = '';
+
+interface SourceResolver {
+  get(page: Page): Promise<PDFDocument | null>;
+}
+
+/**
+ * 원본 PDF 바이트를 pdf-lib 문서로 로드 (소스별 1회)
+ */
+function createSourceResolver(
+  pdfProxy: PDFDocumentProxy,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>,
+  originalBytes?: Uint8Array
+): SourceResolver {
+  const cache = new Map<string, Promise<PDFDocument | null>>();
+
+  const load = async (key: string): Promise<PDFDocument | null> => {
+    try {
+      let bytes: Uint8Array | undefined;
+      if (key === MAIN_SOURCE) {
+        // pdf.js가 버퍼를 워커로 넘겨 detach된 경우 proxy에서 다시 가져옴
+        bytes = originalBytes && originalBytes.byteLength > 0 ? originalBytes : await pdfProxy.getData();
+      } else {
+        bytes = await insertedPdfProxies?.get(key)?.getData();
+      }
+      if (!bytes) return null;
+      return await PDFDocument.load(bytes, { ignoreEncryption: true });
+    } catch (error) {
+      console.warn(`⚠️ [PDF Export] Source "${key || 'main'}" unavailable, falling back to raster:`, error);
+      return null;
+    }
+  };
+
+  return {
+    get(page: Page) {
+      if (!page.pdfRef) return Promise.resolve(null);
+      const key = page.pdfRef.appendedFrom ?? MAIN_SOURCE;
+      let source = cache.get(key);
+      if (!source) {
+        source = load(key);
+        cache.set(key, source);
+      }
+      return source;
+    },
+  };
+}
+
+/**
+ * 원본 페이지를 복사하고 주석을 벡터(또는 /Annot 객체)로 기록
+ * 편집되지 않은 페이지는 원본 그대로 복사된다.
+ * @returns 편집 좌표계 → 복사한 페이지 사용자 공간 행렬
+ */
+async function appendVectorPage(
+  newPdf: PDFDocument,
+  source: PDFDocument,
+  page: Page,
+  options: ExportOptions,
+  fonts: StandardFontResolver
+): Promise<PdfMatrix> {
+  const [pdfPage] = await newPdf.copyPages(source, [page.pdfRef!.sourceIndex - 1]);
+  newPdf.addPage(pdfPage);
+
+  // 검토 댓글은 페이지 완성 후 writePageComments로 기록
+  const annotations = options.includeAnnotations !== false
+    ? page.layers.annotations.filter((a) => a.type !== 'comment')
+    : [];
+  const rasters = options.includeRasterLayers !== false
+    ? page.layers.rasters.filter(hasRasterContent)
+    : [];
+
+  // 원본 /Rotate + 사용자 회전 (page.width/height는 회전이 반영된 표시 크기)
+  const rotation = (pdfPage.getRotation().angle + page.rotation) % 360;
+  pdfPage.setRotation(degrees(rotation));
+
+  // 가져온 원본 주석은 편집 결과로 다시 기록되므로 제거
+  if (page.pdfRef!.annotationsImported) {
+    stripImportedAnnotations(pdfPage);
+  }
+
+  const matrix = computePageMatrix(pdfPage.getCropBox(), rotation, page.width, page.height);
+  if (annotations.length === 0 && rasters.length === 0) return matrix;
+
+  const rasterScale = options.dpi ? options.dpi / 72 : 2.0;
+  const ctx = {
+    pdfDoc: newPdf,
+    pdfPage,
+    pageWidth: page.width,
+    pageHeight: page.height,
+    fonts,
+    rasterScale,
+  };
+
+  // annotations 모드: /Annot 객체 → 벡터 → 오버레이 순으로 시도
+  let remaining = annotations;
+  if (options.pdfMode === 'annotations') {
+    remaining = [];
+    for (const annotation of annotations) {
+      if (!(await writeAnnotationObject({ ...ctx, matrix }, annotation))) {
+        remaining.push(annotation);
+      }
+    }
+  }
+
+  beginPageDrawing(pdfPage, matrix);
+  try {
+    const unsupported: Annotation[] = [];
+    for (const annotation of remaining) {
+      if (!(await drawAnnotationAsVector(ctx, annotation))) {
+        unsupported.push(annotation);
+      }
+    }
+
+    // 벡터로 기록할 수 없는 주석과 래스터 레이어는 투명 오버레이 이미지로 합성
+    if (unsupported.length > 0 || rasters.length > 0) {
+      const overlay = await renderOverlayToCanvas(page, unsupported, rasters, rasterScale);
+      const image = await newPdf.embedPng(await canvasToImageBytes(overlay, 'png'));
+      pdfPage.drawImage(image, { x: 0, y: 0, width: page.width, height: page.height });
+    }
+  } finally {
+    endPageDrawing(pdfPage);
+  }
+  return matrix;
+}
+
+/**
+ * 페이지 전체를 이미지로 렌더링하여 추가 (자르기/크기 변경은 렌더링에 반영됨)
+ * @returns 편집 좌표계 → 추가한 페이지 사용자 공간 행렬
+ */
+async function appendRasterPage(
+  newPdf: PDFDocument,
+  page: Page,
+  pdfProxy: PDFDocumentProxy,
+  options: ExportOptions,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<PdfMatrix> {
+  const canvas = await renderPageToCanvas(page, pdfProxy, options, insertedPdfProxies);
+  const imageBytes = await canvasToImageBytes(canvas, 'png');
+  const image = await newPdf.embedPng(imageBytes);
+
+  // Create PDF page with same dimensions as canvas
+  const pdfPage = newPdf.addPage([canvas.width, canvas.height]);
+  pdfPage.drawImage(image, {
+    x: 0,
+    y: 0,
+    width: canvas.width,
+    height: canvas.height,
+  });
+
+  // OCR 텍스트 레이어 (이미지 위에 보이지 않는 텍스트, 가림 영역/잘린 영역의 단어는 제외)
+  const redactedRegions = pageRedactionRegions(page.layers.annotations);
+  const visible = [pageVisibleBox(page)];
+  const ocrWords = options.includeAnnotations !== false
+    ? page.layers.annotations.filter((a): a is OCRAnnotation =>
+      a.type === 'ocr' && !intersectsAny(a.bbox, redactedRegions) && intersectsAny(a.bbox, visible))
+    : [];
+  const matrix = pageFrameMatrix(page, canvas.width / pageOutputSize(page).width);
+  if (ocrWords.length > 0 && page.width > 0) {
+    beginPageDrawing(pdfPage, matrix);
+    try {
+      drawOcrTextLayer({ pdfDoc: newPdf, pdfPage, pageHeight: page.height }, ocrWords);
+    } finally {
+      endPageDrawing(pdfPage);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * 마지막으로 추가한 페이지에 검토 댓글을 /Text 주석으로 기록
+ * 붙은 주석이 있는 댓글은 그 주석의 현재 위치에 놓는다.
+ */
+function writePageComments(
+  newPdf: PDFDocument,
+  page: Page,
+  matrix: PdfMatrix,
+  fonts: StandardFontResolver
+): number {
+  const { annotations } = page.layers;
+  const comments = annotations.filter((a): a is CommentAnnotation => a.type === 'comment');
+  if (comments.length === 0) return 0;
+
+  const ctx = {
+    pdfDoc: newPdf,
+    pdfPage: newPdf.getPage(newPdf.getPageCount() - 1),
+    pageWidth: page.width,
+    pageHeight: page.height,
+    matrix,
+    fonts,
+  };
+  for (const comment of comments) {
+    writeCommentAnnotation(ctx, placeComment(comment, annotations));
+  }
+  return comments.length;
+}
 
 /**
  * PDF로 내보내기 (Smart Mode)
  * 편집된 페이지만 재렌더링하고, 편집되지 않은 페이지는 원본 그대로 복사
+ *
+ * - vector 모드: 원본 PDF 페이지는 copyPages로 복사하고 주석을 벡터로 기록
+ * - annotations 모드: vector와 같되 주석을 표준 /Annot 객체로 기록
+ * - raster 모드 / 원본이 없는 페이지(빈 페이지, 이미지, 텍스트): 이미지로 렌더링
+ * - OCR 주석은 두 경우 모두 보이지 않는 텍스트로 기록되어 스캔 페이지도 검색 가능
+ * - 가림 주석이 있는 페이지는 모드와 관계없이 래스터화해 원본 텍스트/이미지/벡터를 버리고,
+ *   저장 후 pdf.js로 다시 추출해 가린 텍스트가 남아 있으면 실패한다
+ * - 자르기/크기 변경된 페이지는 완성된 페이지를 출력 용지에 다시 배치한다
+ *   (annotations 모드에서도 /Annot 객체 대신 벡터로 기록)
+ * - 검토 댓글은 모든 모드에서 완성된 페이지 위에 /Text 주석으로 기록한다 (options.includeComments)
+ * - 복사한 페이지의 양식 필드는 입력한 값으로 다시 기록한다 (options.flattenFormFields면 페이지 내용으로 고정)
+ * - options.imposition이 있으면 마지막에 모아찍기한다
+ * - options.signing이 있으면 완성된 파일에 전자서명한다 (서명 후에는 바이트를 바꾸면 안 되므로 맨 마지막)
  */
 export async function exportAsPdf(
   pages: Page[],
   pdfProxy: PDFDocumentProxy,
   pageIndices: number[],
   options: ExportOptions,
-  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>,
+  originalBytes?: Uint8Array
 ): Promise<Uint8Array> {
   try {
-    logger.debug(`📄 [PDF Export] Starting export...`);
+    const vectorMode = options.pdfMode !== 'raster';
+    logger.debug(`📄 [PDF Export] Starting ${options.pdfMode ?? 'vector'} export...`);
     logger.debug(`  Total pages to export: ${pageIndices.length}`);
 
     const newPdf = await PDFDocument.create();
+    const sources = createSourceResolver(pdfProxy, insertedPdfProxies, originalBytes);
+    const fonts = createStandardFontResolver(newPdf);
+    let vectorPages = 0;
+    let commentCount = 0;
+    const withComments = options.includeAnnotations !== false && options.includeComments !== false;
+    const redactionChecks: RedactionExpectation[] = [];
 
     for (let i = 0; i < pageIndices.length; i++) {
       const pageIndex = pageIndices[i];
@@ -34,20 +273,36 @@ export async function exportAsPdf(
         continue;
       }
 
-      // Always re-render pages to include all content
-      logger.debug(`  Rendering page ${pageIndex + 1}/${pageIndices.length}...`);
-      const canvas = await renderPageToCanvas(page, pdfProxy, options, insertedPdfProxies);
-      const imageBytes = await canvasToImageBytes(canvas, 'png');
-      const image = await newPdf.embedPng(imageBytes);
-
-      // Create PDF page with same dimensions as canvas
-      const pdfPage = newPdf.addPage([canvas.width, canvas.height]);
-      pdfPage.drawImage(image, {
-        x: 0,
-        y: 0,
-        width: canvas.width,
-        height: canvas.height,
-      });
+      // 가림 페이지는 원본을 복사하지 않음 (가려진 내용이 PDF 안에 남으므로)
+      const redacted = hasRedactions(page);
+      const source = vectorMode && !redacted ? await sources.get(page) : null;
+      let pageMatrix: PdfMatrix;
+      if (source && page.pdfRef!.sourceIndex <= source.getPageCount()) {
+        logger.debug(`  Copying page ${pageIndex + 1}/${pageIndices.length} (vector)...`);
+        if (isPageGeometryEdited(page)) {
+          const pageOptions: ExportOptions = { ...options, pdfMode: 'vector' };
+          const matrix = await appendVectorPage(newPdf, source, page, pageOptions, fonts);
+          await reframePdfPage(newPdf, newPdf.getPageCount() - 1, page, matrix);
+          pageMatrix = pageFrameMatrix(page);
+        } else {
+          pageMatrix = await appendVectorPage(newPdf, source, page, options, fonts);
+        }
+        vectorPages++;
+      } else {
+        logger.debug(`  Rendering page ${pageIndex + 1}/${pageIndices.length}...`);
+        pageMatrix = await appendRasterPage(newPdf, page, pdfProxy, options, insertedPdfProxies);
+      }
+
+      if (withComments) {
+        commentCount += writePageComments(newPdf, page, pageMatrix, fonts);
+      }
+
+      if (redacted) {
+        redactionChecks.push({
+          pageNumber: newPdf.getPageCount(),
+          strings: await collectRedactedStrings(page, pdfProxy, insertedPdfProxies),
+        });
+      }
 
       // Progress logging
       if ((i + 1) % 5 === 0 || i === pageIndices.length - 1) {
@@ -55,8 +310,35 @@ export async function exportAsPdf(
       }
     }
 
-    const pdfBytes = await newPdf.save();
-    logger.debug(`✅ [PDF Export] Complete! Size: ${(pdfBytes.length / 1024).toFixed(1)} KB`);
+    if (commentCount > 0) {
+      logger.debug(`  Wrote ${commentCount} review comment(s)`);
+    }
+
+    const formFields = collectFormFields(pageIndices.map(i => pages[i]).filter(Boolean));
+    if (formFields.length > 0 && vectorPages > 0) {
+      const result = await writeFormFields(newPdf, formFields, {
+        flatten: options.flattenFormFields,
+        fonts,
+        rasterScale: options.dpi ? options.dpi / 72 : 2.0,
+      });
+      logger.debug(`  ${result.flattened ? 'Flattened' : 'Wrote'} ${result.fields} form field(s), ${result.filled} changed`);
+    }
+
+    // 양식 외관은 writeFormFields가 만든다 (pdf-lib 기본 외관은 Helvetica만 써서 한글에서 실패)
+    let pdfBytes = await newPdf.save({ updateFieldAppearances: false });
+    if (redactionChecks.length > 0) {
+      logger.debug(`  Verifying ${redactionChecks.length} redacted page(s)...`);
+      await verifyRedactedPdf(pdfBytes, redactionChecks);
+    }
+    if (options.imposition) {
+      logger.debug(`  Imposing pages (${options.imposition})...`);
+      pdfBytes = await imposePdf(pdfBytes, options.imposition);
+    }
+    if (options.signing) {
+      logger.debug(`  Signing as ${options.signing.credential.certificate.subjectName}...`);
+      pdfBytes = await signPdf(pdfBytes, options.signing);
+    }
+    logger.debug(`✅ [PDF Export] Complete! ${vectorPages} vector / ${pageIndices.length - vectorPages} raster pages, Size: ${(pdfBytes.length / 1024).toFixed(1)} KB`);
 
     return pdfBytes;
   } catch (error) {
@@ -64,4 +346,3 @@ export async function exportAsPdf(
     throw error;
   }
 }
-
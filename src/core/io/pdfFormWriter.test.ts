@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument, PDFName } from "pdf-lib";
+import { createStandardFontResolver } from "./pdfVectorWriter";
+import { writeFormFields } from "./pdfFormWriter";
+import type { FormField } from "../model/types";
+
+vi.mock("./pageRenderer", () => ({
+  canvasToImageBytes: vi.fn(),
+}));
+
+const rect = { x: 0, y: 0, width: 100, height: 20 };
+
+/** 양식이 있는 원본 PDF를 만들어 새 문서로 페이지를 복사 (내보내기와 같은 상태) */
+async function copiedForm() {
+  const source = await PDFDocument.create();
+  const page = source.addPage([300, 300]);
+  const form = source.getForm();
+  form.createTextField("name").addToPage(page, { x: 10, y: 250, width: 150, height: 20 });
+  form.createCheckBox("agree").addToPage(page, { x: 10, y: 200, width: 12, height: 12 });
+  const color = form.createDropdown("color");
+  color.addOptions(["Red", "Green"]);
+  color.addToPage(page, { x: 10, y: 150, width: 100, height: 20 });
+  const sourceBytes = await source.save();
+
+  const loaded = await PDFDocument.load(sourceBytes);
+  const pdfDoc = await PDFDocument.create();
+  const [copied] = await pdfDoc.copyPages(loaded, [0]);
+  pdfDoc.addPage(copied);
+  return pdfDoc;
+}
+
+const fields: FormField[] = [
+  { id: "1", name: "name", type: "text", rect, value: "Jane Doe", defaultValue: "" },
+  { id: "2", name: "agree", type: "checkbox", rect, value: "Yes", defaultValue: "Off", exportValue: "Yes" },
+  {
+    id: "3", name: "color", type: "combo", rect, value: "Green", defaultValue: "",
+    options: [{ value: "Red", label: "Red" }, { value: "Green", label: "Green" }],
+  },
+];
+
+describe("writeFormFields", () => {
+  it("rebuilds the AcroForm of copied pages and writes edited values", async () => {
+    const pdfDoc = await copiedForm();
+    expect(pdfDoc.catalog.get(PDFName.of("AcroForm"))).toBeUndefined();
+
+    const result = await writeFormFields(pdfDoc, fields, { fonts: createStandardFontResolver(pdfDoc), rasterScale: 2 });
+    expect(result).toEqual({ fields: 3, filled: 3, flattened: false });
+
+    const saved = await PDFDocument.load(await pdfDoc.save({ updateFieldAppearances: false }));
+    const form = saved.getForm();
+    expect(form.getTextField("name").getText()).toBe("Jane Doe");
+    expect(form.getCheckBox("agree").isChecked()).toBe(true);
+    expect(form.getDropdown("color").getSelected()).toEqual(["Green"]);
+  });
+
+  it("leaves text the standard font cannot draw to the viewer", async () => {
+    const pdfDoc = await copiedForm();
+    const korean = fields.map((f) => (f.name === "name" ? { ...f, value: "홍길동" } : f));
+    await writeFormFields(pdfDoc, korean, { fonts: createStandardFontResolver(pdfDoc), rasterScale: 2 });
+
+    const form = pdfDoc.getForm();
+    expect(form.getTextField("name").getText()).toBe("홍길동");
+    expect(form.acroForm.dict.get(PDFName.of("NeedAppearances"))?.toString()).toBe("true");
+    await expect(pdfDoc.save({ updateFieldAppearances: false })).resolves.toBeInstanceOf(Uint8Array);
+  });
+
+  it("flattens fields into page content and removes the form", async () => {
+    const pdfDoc = await copiedForm();
+    const result = await writeFormFields(pdfDoc, fields, {
+      flatten: true,
+      fonts: createStandardFontResolver(pdfDoc),
+      rasterScale: 2,
+    });
+    expect(result.flattened).toBe(true);
+
+    const saved = await PDFDocument.load(await pdfDoc.save({ updateFieldAppearances: false }));
+    expect(saved.catalog.get(PDFName.of("AcroForm"))).toBeUndefined();
+    expect(saved.getPage(0).node.Annots()?.size() ?? 0).toBe(0);
+    const xObjects = saved.getPage(0).node.Resources()?.lookup(PDFName.of("XObject"));
+    expect(xObjects?.toString()).toContain("FlatWidget");
+  });
+
+  it("does nothing for pages without widgets", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([100, 100]);
+    const result = await writeFormFields(pdfDoc, fields, { fonts: createStandardFontResolver(pdfDoc), rasterScale: 2 });
+    expect(result).toEqual({ fields: 0, filled: 0, flattened: false });
+    expect(pdfDoc.catalog.get(PDFName.of("AcroForm"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * PDF Form Writer - 입력한 양식 값을 내보낸 PDF의 AcroForm에 기록
+ *
+ * copyPages로 복사한 페이지에는 위젯만 남고 새 문서에는 /AcroForm이 없어
+ * 뷰어에서 입력할 수 없는 주석이 된다. 위젯의 최상위 필드를 모아 /AcroForm을 다시 만들고
+ * 편집한 값을 기록한 뒤 외관 스트림을 새로 만든다.
+ *
+ * 표준 폰트(WinAnsi)로 쓸 수 없는 값(한글 등)은 외관 대신 /NeedAppearances로 뷰어에 맡기고,
+ * 평면화할 때는 pdfVectorWriter의 텍스트 블록(필요하면 이미지)으로 그린다.
+ */
+
+import {
+  PDFArray,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFTextField,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib';
+import type { PDFWidgetAnnotation } from 'pdf-lib';
+import type { FormField, FormFieldValue } from '../model/types';
+import { FORM_OFF_VALUE } from '../forms/formFields';
+import { beginPageDrawing, canEncode, drawTextBlock, endPageDrawing } from './pdfVectorWriter';
+import type { StandardFontResolver, VectorDrawContext } from './pdfVectorWriter';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FormWriteOptions {
+  /** 값을 페이지 내용으로 고정하고 필드를 제거 */
+  flatten?: boolean;
+  fonts: StandardFontResolver;
+  /** 평면화할 때 표준 폰트로 쓸 수 없는 값을 이미지로 그릴 배율 */
+  rasterScale: number;
+}
+
+export interface FormWriteResult {
+  /** 문서에 남은(평면화한) 입력 필드 수 */
+  fields: number;
+  /** 값이 바뀐 필드 수 */
+  filled: number;
+  flattened: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** 입력 필드 종류 (서명 필드 Sig는 제외) */
+const FILLABLE_FIELD_TYPES = ['Tx', 'Btn', 'Ch'];
+
+/** 주석 플래그: Hidden */
+const ANNOTATION_FLAG_HIDDEN = 1 << 1;
+
+/** /Parent를 따라 올라갈 최대 깊이 (순환 참조 방지) */
+const MAX_FIELD_DEPTH = 32;
+
+/** 글꼴 크기 자동(0)일 때 쓸 크기 상한 */
+const AUTO_FONT_SIZE = 12;
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * 복사된 페이지의 위젯으로 /AcroForm을 만들고 양식 값을 기록
+ * @param fields 내보내는 페이지의 양식 필드 (값은 이름 기준)
+ */
+export async function writeFormFields(
+  pdfDoc: PDFDocument,
+  fields: FormField[],
+  options: FormWriteOptions
+): Promise<FormWriteResult> {
+  const widgetPages = collectWidgetPages(pdfDoc);
+  const roots = collectRootFields(pdfDoc, widgetPages);
+  if (roots.length === 0) return { fields: 0, filled: 0, flattened: false };
+
+  const { context } = pdfDoc;
+  const helvetica = await options.fonts();
+  pdfDoc.catalog.set(PDFName.of('AcroForm'), context.register(context.obj({
+    Fields: roots,
+    DA: PDFString.of('/Helv 0 Tf 0 g'),
+    DR: { Font: { Helv: helvetica.ref } },
+  })));
+
+  const models = new Map<string, FormField>();
+  for (const field of fields) {
+    if (!models.has(field.name)) models.set(field.name, field);
+  }
+
+  const form = pdfDoc.getForm();
+  const pdfFields = form.getFields().filter(isFillable);
+  /** 표준 폰트로 외관을 만들 수 없어 뷰어/평면화에 맡긴 필드 */
+  const unrendered = new Set<PDFField>();
+  let filled = 0;
+
+  for (const field of pdfFields) {
+    const model = models.get(field.getName());
+    try {
+      if (model && applyFieldValue(field, model.value)) {
+        form.markFieldAsDirty(field.ref);
+        filled++;
+      }
+      if (field.needsAppearancesUpdate()) {
+        const text = displayText(field, model);
+        if (text !== null && !canEncode(helvetica, text)) {
+          for (const widget of field.acroField.getWidgets()) widget.dict.delete(PDFName.of('AP'));
+          unrendered.add(field);
+        } else {
+          field.defaultUpdateAppearances(helvetica);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ 양식 필드 "${field.getName()}" 값을 기록하지 못했습니다:`, error);
+    }
+    // save()가 Helvetica로 외관을 다시 만들지 않도록
+    form.markFieldAsClean(field.ref);
+  }
+
+  if (options.flatten) {
+    await flattenFields(pdfDoc, pdfFields, unrendered, models, widgetPages, options);
+    if (form.getFields().length === 0) pdfDoc.catalog.delete(PDFName.of('AcroForm'));
+    return { fields: pdfFields.length, filled, flattened: true };
+  }
+
+  if (unrendered.size > 0 || pdfFields.some(field => field.acroField.getWidgets().some(w => !w.getAppearances()))) {
+    form.acroForm.dict.set(PDFName.of('NeedAppearances'), context.obj(true));
+  }
+  return { fields: pdfFields.length, filled, flattened: false };
+}
+
+function isFillable(field: PDFField): boolean {
+  return field instanceof PDFTextField
+    || field instanceof PDFCheckBox
+    || field instanceof PDFRadioGroup
+    || field instanceof PDFDropdown
+    || field instanceof PDFOptionList;
+}
+
+/** 위젯 참조 → 위젯이 놓인 페이지 */
+function collectWidgetPages(pdfDoc: PDFDocument): Map<PDFRef, PDFPage> {
+  const widgetPages = new Map<PDFRef, PDFPage>();
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+    for (const entry of annots.asArray()) {
+      if (!(entry instanceof PDFRef)) continue;
+      const dict = pdfDoc.context.lookup(entry);
+      if (dict instanceof PDFDict && dict.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+        widgetPages.set(entry, page);
+      }
+    }
+  }
+  return widgetPages;
+}
+
+/** 입력 위젯의 최상위 필드 (문서 순서, 중복 없음) */
+function collectRootFields(pdfDoc: PDFDocument, widgetPages: Map<PDFRef, PDFPage>): PDFRef[] {
+  const { context } = pdfDoc;
+  const roots: PDFRef[] = [];
+  for (const widgetRef of widgetPages.keys()) {
+    let ref = widgetRef;
+    let dict = context.lookup(widgetRef, PDFDict);
+    let fieldType: string | undefined;
+    let named = false;
+    for (let depth = 0; depth < MAX_FIELD_DEPTH; depth++) {
+      const ft = dict.get(PDFName.of('FT'));
+      if (!fieldType && ft instanceof PDFName) fieldType = ft.decodeText();
+      if (dict.has(PDFName.of('T'))) named = true;
+      const parent = dict.get(PDFName.of('Parent'));
+      const parentDict = parent instanceof PDFRef ? context.lookup(parent) : undefined;
+      if (!(parent instanceof PDFRef) || !(parentDict instanceof PDFDict)) break;
+      ref = parent;
+      dict = parentDict;
+    }
+    if (named && fieldType && FILLABLE_FIELD_TYPES.includes(fieldType) && !roots.includes(ref)) roots.push(ref);
+  }
+  return roots;
+}
+
+// ============================================
+// Values
+// ============================================
+
+/**
+ * 편집한 값을 pdf-lib 필드에 기록
+ * @returns 값이 바뀌었으면 true
+ */
+function applyFieldValue(field: PDFField, value: FormFieldValue): boolean {
+  const text = Array.isArray(value) ? value[0] ?? '' : value;
+
+  if (field instanceof PDFTextField) {
+    if ((field.getText() ?? '') === text) return false;
+    const maxLength = field.getMaxLength();
+    field.setText(maxLength !== undefined ? text.slice(0, maxLength) : text);
+    return true;
+  }
+  if (field instanceof PDFCheckBox) {
+    const checked = text !== '' && text !== FORM_OFF_VALUE;
+    if (field.isChecked() === checked) return false;
+    if (checked) field.check();
+    else field.uncheck();
+    return true;
+  }
+  if (field instanceof PDFRadioGroup) {
+    // pdf.js는 켜짐 상태 이름 대신 순번을 쓰는 라디오(/Opt)도 있다
+    const choices = field.getOptions();
+    const option = choices.includes(text) ? text : /^\d+$/.test(text) ? choices[Number(text)] : undefined;
+    const current = field.getSelected();
+    if (option === current || (!option && !current)) return false;
+    if (option) field.select(option);
+    else field.clear();
+    return true;
+  }
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    // 선택 값은 내보내기 값(/Opt의 첫 항목)으로 기록 (pdf-lib select는 표시 이름만 받음)
+    const selected = Array.isArray(value) ? value : text ? [text] : [];
+    const current = field.acroField.getValues().map(v => v.decodeText());
+    if (current.length === selected.length && current.every((v, i) => v === selected[i])) return false;
+    const dict = field.acroField.dict;
+    if (selected.length === 0) dict.delete(PDFName.of('V'));
+    else if (selected.length === 1) dict.set(PDFName.of('V'), PDFHexString.fromText(selected[0]));
+    else dict.set(PDFName.of('V'), dict.context.obj(selected.map(v => PDFHexString.fromText(v))));
+    dict.delete(PDFName.of('I'));
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 외관에 그려질 글자 (확인란/라디오는 글꼴이 필요 없으므로 null)
+ */
+function displayText(field: PDFField, model: FormField | undefined): string | null {
+  if (field instanceof PDFTextField) return field.getText() ?? '';
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    // 목록 상자는 모든 항목을 그린다
+    const options = field.acroField.getOptions().map(o => (o.display ?? o.value).decodeText());
+    return [...field.acroField.getValues().map(v => v.decodeText()), ...options, ...(model?.options ?? []).map(o => o.label)].join('');
+  }
+  return null;
+}
+
+// ============================================
+// Flattening
+// ============================================
+
+/**
+ * 위젯 외관을 페이지 내용으로 그리고 필드/위젯을 제거
+ * (pdf-lib flatten은 외관이 없는 위젯에서 멈추고 모든 필드를 한꺼번에 다룸)
+ */
+async function flattenFields(
+  pdfDoc: PDFDocument,
+  pdfFields: PDFField[],
+  unrendered: Set<PDFField>,
+  models: Map<string, FormField>,
+  widgetPages: Map<PDFRef, PDFPage>,
+  options: FormWriteOptions
+): Promise<void> {
+  const { context } = pdfDoc;
+  const form = pdfDoc.getForm();
+
+  for (const field of pdfFields) {
+    for (const widget of field.acroField.getWidgets()) {
+      const ref = context.getObjectRef(widget.dict);
+      const page = ref ? widgetPages.get(ref) : undefined;
+      if (page && !widget.hasFlag(ANNOTATION_FLAG_HIDDEN)) {
+        if (unrendered.has(field)) {
+          await drawWidgetText(pdfDoc, page, widget, fieldText(field, models.get(field.getName())), options);
+        } else {
+          drawWidgetAppearance(pdfDoc, page, widget);
+        }
+      }
+      if (ref && page) page.node.removeAnnot(ref);
+    }
+    form.acroForm.removeField(field.acroField);
+  }
+}
+
+/** 위젯의 현재 상태 외관 스트림 */
+function normalAppearance(pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): PDFRef | undefined {
+  const { context } = pdfDoc;
+  const ap = widget.dict.lookupMaybe(PDFName.of('AP'), PDFDict);
+  const normal = ap?.get(PDFName.of('N'));
+  const resolved = normal instanceof PDFRef ? context.lookup(normal) : normal;
+  if (resolved instanceof PDFStream) return normal instanceof PDFRef ? normal : undefined;
+  if (!(resolved instanceof PDFDict)) return undefined;
+
+  // 확인란/라디오: /AS 상태의 외관
+  const state = widget.getAppearanceState();
+  const stream = state ? resolved.get(state) : undefined;
+  return stream instanceof PDFRef ? stream : undefined;
+}
+
+function numbersOf(array: PDFArray | undefined): number[] {
+  if (!array) return [];
+  return array.asArray().map(item => (item instanceof PDFNumber ? item.asNumber() : NaN));
+}
+
+/** 외관 XObject를 /BBox(과 /Matrix)가 위젯 /Rect에 맞도록 그린다 */
+function drawWidgetAppearance(pdfDoc: PDFDocument, page: PDFPage, widget: PDFWidgetAnnotation): void {
+  const ref = normalAppearance(pdfDoc, widget);
+  if (!ref) return;
+  const stream = pdfDoc.context.lookup(ref, PDFStream);
+  const bbox = numbersOf(stream.dict.lookupMaybe(PDFName.of('BBox'), PDFArray));
+  const matrix = numbersOf(stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray));
+  if (bbox.length !== 4 || bbox.some(Number.isNaN)) return;
+  const [ma, mb, mc, md, me, mf] = matrix.length === 6 && !matrix.some(Number.isNaN) ? matrix : [1, 0, 0, 1, 0, 0];
+
+  const corners = [[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[0], bbox[3]], [bbox[2], bbox[3]]]
+    .map(([x, y]) => [ma * x + mc * y + me, mb * x + md * y + mf]);
+  const minX = Math.min(...corners.map(c => c[0]));
+  const minY = Math.min(...corners.map(c => c[1]));
+  const width = Math.max(...corners.map(c => c[0])) - minX;
+  const height = Math.max(...corners.map(c => c[1])) - minY;
+  if (width <= 0 || height <= 0) return;
+
+  const rect = widget.getRectangle();
+  const sx = rect.width / width;
+  const sy = rect.height / height;
+  const name = page.node.newXObject('FlatWidget', ref);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(sx, 0, 0, sy, rect.x - minX * sx, rect.y - minY * sy),
+    drawObject(name),
+    popGraphicsState(),
+  );
+}
+
+/** 평면화할 값 글자 (선택 필드는 표시 이름) */
+function fieldText(field: PDFField, model: FormField | undefined): string {
+  if (field instanceof PDFTextField) return field.getText() ?? '';
+  const values = field instanceof PDFDropdown || field instanceof PDFOptionList
+    ? field.acroField.getValues().map(v => v.decodeText())
+    : [];
+  return values.map(v => model?.options?.find(o => o.value === v)?.label ?? v).join('\n');
+}
+
+/** 외관이 없는 값(표준 폰트로 쓸 수 없는 글자)을 위젯 영역에 그린다 */
+async function drawWidgetText(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  widget: PDFWidgetAnnotation,
+  text: string,
+  options: FormWriteOptions
+): Promise<void> {
+  if (!text) return;
+  const rect = widget.getRectangle();
+  const match = /([\d.]+)\s+Tf/.exec(widget.getDefaultAppearance() ?? '');
+  const size = Number(match?.[1]) || Math.min(AUTO_FONT_SIZE, rect.height * 0.7);
+  const multiline = text.includes('\n') || rect.height > size * 2.5;
+
+  const ctx: VectorDrawContext = {
+    pdfDoc,
+    pdfPage: page,
+    pageWidth: rect.width,
+    pageHeight: rect.height,
+    fonts: options.fonts,
+    rasterScale: options.rasterScale,
+  };
+  beginPageDrawing(page, [1, 0, 0, 1, rect.x, rect.y]);
+  try {
+    await drawTextBlock(ctx, {
+      content: text,
+      box: { x: 2, y: 2, width: rect.width - 4, height: rect.height - 4 },
+      fontSize: size,
+      color: '#000000',
+      verticalAlign: multiline ? 'top' : 'middle',
+      lineHeight: 1.15,
+    });
+  } finally {
+    endPageDrawing(page);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * PDF OCR Text Writer - OCR 결과를 보이지 않는 텍스트 레이어로 기록
+ *
+ * 스캔 페이지 위에 인식된 단어를 렌더링 모드 3(보이지 않음)으로 그려
+ * 내보낸 PDF에서 검색/선택/복사가 가능하게 한다.
+ *
+ * 표준 폰트는 한글을 인코딩할 수 없으므로 글리프 없는 Type0 폰트
+ * (Identity-H, 2바이트 코드 = UTF-16 코드 단위)를 사용하고
+ * /ToUnicode CMap으로 코드를 그대로 유니코드에 대응시킨다.
+ */
+
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  TextRenderingMode,
+  beginText,
+  endText,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import type { PDFOperator } from 'pdf-lib';
+import type { OCRAnnotation } from '../../types/annotation';
+
+/** 모든 글자의 폭 (1/1000 em) */
+const GLYPH_WIDTH = 500;
+
+const FONT_NAME = 'GlyphLessFont';
+
+export interface OcrTextContext {
+  pdfDoc: PDFDocument;
+  pdfPage: PDFPage;
+  /** 편집 좌표계 페이지 높이 (현재 그리기 행렬 기준) */
+  pageHeight: number;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+/** 텍스트 → UTF-16BE 16진 문자열 (BOM 없음) */
+export function toUtf16Hex(text: string): string {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return hex;
+}
+
+/**
+ * 2바이트 코드를 같은 값의 유니코드로 대응시키는 CMap
+ * bfrange는 마지막 바이트만 변할 수 있으므로 상위 바이트별로 나눈다 (서로게이트 제외).
+ */
+export function buildIdentityToUnicodeCMap(): string {
+  const ranges: string[] = [];
+  for (let high = 0; high < 0x100; high++) {
+    if (high >= 0xd8 && high <= 0xdf) continue;
+    const start = (high << 8).toString(16).padStart(4, '0').toUpperCase();
+    const end = ((high << 8) | 0xff).toString(16).padStart(4, '0').toUpperCase();
+    ranges.push(`<${start}> <${end}> <${start}>`);
+  }
+
+  const blocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const chunk = ranges.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfrange\n${chunk.join('\n')}\nendbfrange`);
+  }
+
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+// ============================================
+// Font
+// ============================================
+
+const fontCache = new WeakMap<PDFDocument, PDFRef>();
+const pageFontNames = new WeakMap<PDFPage, PDFName>();
+
+/** 문서당 한 번 글리프 없는 Type0 폰트 등록 */
+function getTextLayerFont(pdfDoc: PDFDocument): PDFRef {
+  const cached = fontCache.get(pdfDoc);
+  if (cached) return cached;
+
+  const { context } = pdfDoc;
+  const descriptor = context.register(context.obj({
+    Type: 'FontDescriptor',
+    FontName: FONT_NAME,
+    Flags: 4,
+    FontBBox: [0, 0, GLYPH_WIDTH, 1000],
+    ItalicAngle: 0,
+    Ascent: 1000,
+    Descent: 0,
+    CapHeight: 1000,
+    StemV: 80,
+  }));
+
+  const cidFont = context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'CIDFontType2',
+    BaseFont: FONT_NAME,
+    CIDSystemInfo: {
+      Registry: PDFString.of('Adobe'),
+      Ordering: PDFString.of('Identity'),
+      Supplement: 0,
+    },
+    FontDescriptor: descriptor,
+    DW: GLYPH_WIDTH,
+    CIDToGIDMap: 'Identity',
+  }));
+
+  const toUnicode = context.register(context.flateStream(buildIdentityToUnicodeCMap()));
+
+  const font = context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: FONT_NAME,
+    Encoding: 'Identity-H',
+    DescendantFonts: [cidFont],
+    ToUnicode: toUnicode,
+  }));
+
+  fontCache.set(pdfDoc, font);
+  return font;
+}
+
+function getPageFontName(pdfDoc: PDFDocument, pdfPage: PDFPage): PDFName {
+  let name = pageFontNames.get(pdfPage);
+  if (!name) {
+    name = pdfPage.node.newFontDictionary('OCR', getTextLayerFont(pdfDoc));
+    pageFontNames.set(pdfPage, name);
+  }
+  return name;
+}
+
+// ============================================
+// Operators
+// ============================================
+
+/**
+ * 단어 하나를 bbox 폭에 맞춘 보이지 않는 텍스트 연산자
+ * 글자 크기 = bbox 높이, 기준선 = bbox 아래, 가로 배율(Tz)로 폭을 맞춘다.
+ */
+export function buildOcrTextOperators(
+  annotation: OCRAnnotation,
+  fontName: string | PDFName,
+  pageHeight: number
+): PDFOperator[] {
+  const text = annotation.content.trim();
+  const { bbox } = annotation;
+  if (!text || bbox.width <= 0 || bbox.height <= 0) return [];
+
+  const size = bbox.height;
+  const naturalWidth = text.length * (GLYPH_WIDTH / 1000) * size;
+  const squeeze = (bbox.width / naturalWidth) * 100;
+
+  return [
+    beginText(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    setFontAndSize(fontName, size),
+    setCharacterSqueeze(squeeze),
+    setTextMatrix(1, 0, 0, 1, bbox.x, pageHeight - (bbox.y + bbox.height)),
+    showText(PDFHexString.of(toUtf16Hex(text))),
+    endText(),
+  ];
+}
+
+/**
+ * OCR 단어들을 보이지 않는 텍스트로 기록
+ * 편집 좌표 그리기 행렬(beginPageDrawing) 안에서 호출해야 한다.
+ */
+export function drawOcrTextLayer(ctx: OcrTextContext, annotations: OCRAnnotation[]): void {
+  if (annotations.length === 0) return;
+  const fontName = getPageFontName(ctx.pdfDoc, ctx.pdfPage);
+  for (const annotation of annotations) {
+    const operators = buildOcrTextOperators(annotation, fontName, ctx.pageHeight);
+    if (operators.length > 0) ctx.pdfPage.pushOperators(...operators);
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { createPage } from "../model/factories";
+import { fitPageMatrix, invertMatrix, multiplyMatrix, pageFrameMatrix, reframePdfPage } from "./pdfPageFrame";
+
+/** 행렬로 점 변환 (행 벡터 규약) */
+function apply(m: number[], u: number, v: number) {
+  return { x: m[0] * u + m[2] * v + m[4], y: m[1] * u + m[3] * v + m[5] };
+}
+
+describe("matrices", () => {
+  it("applies the first matrix before the second", () => {
+    const scale = [2, 0, 0, 2, 0, 0] as const;
+    const move = [1, 0, 0, 1, 10, 20] as const;
+    expect(apply(multiplyMatrix([...scale], [...move]), 1, 1)).toEqual({ x: 12, y: 22 });
+    expect(apply(multiplyMatrix([...move], [...scale]), 1, 1)).toEqual({ x: 22, y: 42 });
+  });
+
+  it("inverts affine matrices", () => {
+    const m: [number, number, number, number, number, number] = [0, 2, -3, 0, 5, 7];
+    const p = apply(multiplyMatrix(m, invertMatrix(m)), 4, 9);
+    expect(p.x).toBeCloseTo(4);
+    expect(p.y).toBeCloseTo(9);
+  });
+
+  it("maps the y-up content to the framed sheet", () => {
+    const page = {
+      ...createPage({ docId: "d1", index: 0, width: 600, height: 800 }),
+      cropBox: { x: 100, y: 100, width: 200, height: 300 },
+      frame: { width: 500, height: 700, scale: 2, x: 50, y: 20 },
+    };
+    const m = pageFrameMatrix(page);
+    // 보이는 영역의 좌상단 (편집 좌표 100,100 → y-up 100,700) → 용지 (50, 700 - 20)
+    expect(apply(m, 100, 700)).toEqual({ x: 50, y: 680 });
+    // 우하단 (300,400 → y-up 300,400) → (50 + 400, 680 - 600)
+    expect(apply(m, 300, 400)).toEqual({ x: 450, y: 80 });
+  });
+
+  it("fits rotated pages into a slot keeping the aspect ratio", () => {
+    const slot = { x: 0, y: 0, width: 100, height: 100 };
+    const m = fitPageMatrix({ width: 200, height: 100 }, 90, slot);
+    // 90° 회전하면 세로 50 × 100으로 가운데 놓임
+    const corners = [apply(m, 0, 0), apply(m, 200, 0), apply(m, 0, 100), apply(m, 200, 100)];
+    expect(Math.min(...corners.map((c) => c.x))).toBeCloseTo(25);
+    expect(Math.max(...corners.map((c) => c.x))).toBeCloseTo(75);
+    expect(Math.min(...corners.map((c) => c.y))).toBeCloseTo(0);
+    expect(Math.max(...corners.map((c) => c.y))).toBeCloseTo(100);
+  });
+});
+
+describe("reframePdfPage", () => {
+  it("replaces the page with a sheet-size page in place", async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([600, 800]);
+    pdfDoc.addPage([600, 800]);
+    const page = {
+      ...createPage({ docId: "d1", index: 0, width: 600, height: 800 }),
+      cropBox: { x: 0, y: 0, width: 300, height: 800 },
+    };
+
+    await reframePdfPage(pdfDoc, 0, page, [1, 0, 0, 1, 0, 0]);
+
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(pdfDoc.getPage(0).getSize()).toEqual({ width: 300, height: 800 });
+    expect(pdfDoc.getPage(1).getSize()).toEqual({ width: 600, height: 800 });
+    await expect(pdfDoc.save()).resolves.toBeInstanceOf(Uint8Array);
+  });
+});
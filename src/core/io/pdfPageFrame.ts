@@ -0,0 +1,188 @@
+/**
+ * PDF Page Frame - 자르기/크기 변경된 페이지를 새 용지에 다시 배치
+ *
+ * 원본을 복사하고 주석까지 기록한 페이지를 Form XObject로 넣어
+ * 출력 용지 크기의 새 페이지에 변환/클리핑해 그린다. (벡터 유지)
+ * 모아찍기에서도 같은 방식으로 페이지를 용지에 놓는다.
+ * Form XObject에는 주석이 들어가지 않으므로 원본의 주석(양식 위젯)은 /Rect를 옮겨 새 페이지에 붙인다.
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRef,
+  clip,
+  concatTransformationMatrix,
+  drawObject,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+} from 'pdf-lib';
+import type { PDFEmbeddedPage } from 'pdf-lib';
+import type { BBox, Page } from '../model/types';
+import type { PdfMatrix } from './pdfVectorWriter';
+import { pageContentTransform, pageOutputSize, pageVisibleRect } from '../page/pageGeometry';
+
+// ============================================
+// Matrix Helpers
+// ============================================
+
+/** a 다음 b를 적용하는 행렬 (PDF 행 벡터 규약: p × a × b) */
+export function multiplyMatrix(a: PdfMatrix, b: PdfMatrix): PdfMatrix {
+  return [
+    a[0] * b[0] + a[1] * b[2],
+    a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2],
+    a[2] * b[1] + a[3] * b[3],
+    a[4] * b[0] + a[5] * b[2] + b[4],
+    a[4] * b[1] + a[5] * b[3] + b[5],
+  ];
+}
+
+export function invertMatrix(m: PdfMatrix): PdfMatrix {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (det === 0) throw new Error('Matrix is not invertible');
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+/**
+ * 편집 좌표계(좌하단 원점, y-up) → 출력 용지 사용자 공간 행렬
+ * unit은 용지 1pt당 출력 단위 (래스터 페이지는 렌더링 배율)
+ */
+export function pageFrameMatrix(page: Page, unit = 1): PdfMatrix {
+  const t = pageContentTransform(page);
+  const sheet = pageOutputSize(page);
+  return [
+    unit * t.scale,
+    0,
+    0,
+    unit * t.scale,
+    unit * t.x,
+    unit * (sheet.height - t.y - t.scale * page.height),
+  ];
+}
+
+/**
+ * 페이지를 회전(/Rotate)까지 반영해 용지 위 사각형에 맞추는 행렬
+ * 사각형은 좌하단 원점 좌표, 페이지는 원래 비율을 유지하며 가운데 놓인다.
+ */
+export function fitPageMatrix(size: { width: number; height: number }, rotation: number, slot: BBox): PdfMatrix {
+  const r = ((rotation % 360) + 360) % 360;
+  const sideways = r === 90 || r === 270;
+  const w = size.width;
+  const h = size.height;
+  const displayWidth = sideways ? h : w;
+  const displayHeight = sideways ? w : h;
+  const s = Math.min(slot.width / displayWidth, slot.height / displayHeight);
+  const x = slot.x + (slot.width - displayWidth * s) / 2;
+  const y = slot.y + (slot.height - displayHeight * s) / 2;
+
+  switch (r) {
+    case 90:
+      return [0, -s, s, 0, x, y + s * w];
+    case 180:
+      return [-s, 0, 0, -s, x + s * w, y + s * h];
+    case 270:
+      return [0, s, -s, 0, x + s * h, y];
+    default:
+      return [s, 0, 0, s, x, y];
+  }
+}
+
+// ============================================
+// Drawing
+// ============================================
+
+/**
+ * 내용 스트림이 없는 페이지(빈 페이지)는 넣을 수 없으므로 빈 스트림을 만든다
+ */
+export function ensurePageContents(page: PDFPage): void {
+  if (!page.node.Contents()) page.pushOperators();
+}
+
+/**
+ * 넣은 페이지를 행렬로 그리기 (clip은 대상 페이지 사용자 공간 사각형)
+ */
+export function drawEmbeddedPage(target: PDFPage, embedded: PDFEmbeddedPage, matrix: PdfMatrix, clipRect?: BBox): void {
+  const name = target.node.newXObject('EmbeddedPdfPage', embedded.ref);
+  target.pushOperators(
+    pushGraphicsState(),
+    ...(clipRect ? [rectangle(clipRect.x, clipRect.y, clipRect.width, clipRect.height), clip(), endPath()] : []),
+    concatTransformationMatrix(...matrix),
+    drawObject(name),
+    popGraphicsState()
+  );
+}
+
+/**
+ * 문서의 index 페이지를 Page.cropBox/frame에 맞춘 새 페이지로 교체
+ * contentMatrix: 편집 좌표계 → 기존 페이지 사용자 공간 (computePageMatrix 결과)
+ */
+export async function reframePdfPage(
+  pdfDoc: PDFDocument,
+  index: number,
+  page: Page,
+  contentMatrix: PdfMatrix
+): Promise<PDFPage> {
+  const source = pdfDoc.getPage(index);
+  const media = source.getMediaBox();
+  ensurePageContents(source);
+  // 원본 사용자 공간 그대로 (기본 행렬은 MediaBox 원점으로 옮김)
+  const embedded = await pdfDoc.embedPage(
+    source,
+    { left: media.x, bottom: media.y, right: media.x + media.width, top: media.y + media.height },
+    [1, 0, 0, 1, 0, 0]
+  );
+
+  const sheet = pageOutputSize(page);
+  const visible = pageVisibleRect(page);
+  const framed = pdfDoc.insertPage(index, [sheet.width, sheet.height]);
+  pdfDoc.removePage(index + 1);
+
+  const matrix = multiplyMatrix(invertMatrix(contentMatrix), pageFrameMatrix(page));
+  drawEmbeddedPage(
+    framed,
+    embedded,
+    matrix,
+    { x: visible.x, y: sheet.height - visible.y - visible.height, width: visible.width, height: visible.height }
+  );
+  moveAnnotations(source, framed, matrix);
+  return framed;
+}
+
+/**
+ * 원본 페이지의 주석을 새 페이지로 옮기고 /Rect를 행렬로 변환
+ * (옮기지 않으면 양식 위젯이 사라져 입력한 값도 함께 없어진다)
+ */
+function moveAnnotations(source: PDFPage, target: PDFPage, matrix: PdfMatrix): void {
+  const annots = source.node.Annots();
+  if (!annots) return;
+  const { context } = source.doc;
+  for (const entry of annots.asArray()) {
+    const dict = entry instanceof PDFRef ? context.lookup(entry) : entry;
+    if (!(dict instanceof PDFDict)) continue;
+    const rect = dict.lookupMaybe(PDFName.of('Rect'), PDFArray)?.asArray()
+      .map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN));
+    if (!rect || rect.length !== 4 || rect.some(Number.isNaN)) continue;
+
+    const corners = [[rect[0], rect[1]], [rect[2], rect[1]], [rect[0], rect[3]], [rect[2], rect[3]]]
+      .map(([x, y]) => [matrix[0] * x + matrix[2] * y + matrix[4], matrix[1] * x + matrix[3] * y + matrix[5]]);
+    const xs = corners.map((c) => c[0]);
+    const ys = corners.map((c) => c[1]);
+    dict.set(PDFName.of('Rect'), context.obj([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]));
+    dict.set(PDFName.of('P'), target.ref);
+    target.node.addAnnot(entry instanceof PDFRef ? entry : context.register(dict));
+  }
+}
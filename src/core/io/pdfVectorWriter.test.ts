@@ -0,0 +1,278 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  computePageMatrix,
+  parseCssColor,
+  parseDashArray,
+  resolveStandardFont,
+  wrapTextLines,
+  buildRectPath,
+  createStandardFontResolver,
+  drawAnnotationAsVector,
+  beginPageDrawing,
+  endPageDrawing,
+} from "./pdfVectorWriter";
+import { buildIdentityToUnicodeCMap, buildOcrTextOperators, toUtf16Hex } from "./pdfOcrTextWriter";
+import type { Annotation, OCRAnnotation } from "../model/types";
+
+vi.mock("./pageRenderer", () => ({
+  canvasToImageBytes: vi.fn(),
+}));
+
+/** 행렬로 편집 좌표(y-up) 점을 변환 */
+function apply(m: number[], u: number, v: number) {
+  return { x: m[0] * u + m[2] * v + m[4], y: m[1] * u + m[3] * v + m[5] };
+}
+
+describe("computePageMatrix", () => {
+  const box = { x: 10, y: 20, width: 600, height: 800 };
+
+  it("maps the top-left corner to the top of the crop box when unrotated", () => {
+    const m = computePageMatrix(box, 0, 600, 800);
+    expect(apply(m, 0, 800)).toEqual({ x: 10, y: 820 });
+    expect(apply(m, 600, 0)).toEqual({ x: 610, y: 20 });
+  });
+
+  it("scales when the page was resized for width matching", () => {
+    const m = computePageMatrix(box, 0, 300, 400);
+    expect(apply(m, 300, 400)).toEqual({ x: 610, y: 820 });
+  });
+
+  it("maps the visual top-left corner to the original bottom-left for 90°", () => {
+    // 90° 회전 시 표시 크기는 800 x 600
+    const m = computePageMatrix(box, 90, 800, 600);
+    expect(apply(m, 0, 600)).toEqual({ x: 10, y: 20 });
+    expect(apply(m, 800, 0)).toEqual({ x: 610, y: 820 });
+  });
+
+  it("maps the visual top-left corner to the original top-right for 270°", () => {
+    const m = computePageMatrix(box, 270, 800, 600);
+    expect(apply(m, 0, 600)).toEqual({ x: 610, y: 820 });
+    expect(apply(m, 800, 0)).toEqual({ x: 10, y: 20 });
+  });
+
+  it("flips both axes for 180°", () => {
+    const m = computePageMatrix(box, 180, 600, 800);
+    expect(apply(m, 0, 800)).toEqual({ x: 610, y: 20 });
+  });
+});
+
+describe("parseCssColor", () => {
+  it("parses hex colors", () => {
+    const parsed = parseCssColor("#FF0000");
+    expect(parsed?.color).toMatchObject({ red: 1, green: 0, blue: 0 });
+    expect(parsed?.alpha).toBe(1);
+  });
+
+  it("expands short hex and reads alpha", () => {
+    const parsed = parseCssColor("#0f08");
+    expect(parsed?.color).toMatchObject({ red: 0, green: 1, blue: 0 });
+    expect(parsed?.alpha).toBeCloseTo(0x88 / 255);
+  });
+
+  it("parses rgba()", () => {
+    const parsed = parseCssColor("rgba(255, 255, 255, 0.9)");
+    expect(parsed?.color).toMatchObject({ red: 1, green: 1, blue: 1 });
+    expect(parsed?.alpha).toBe(0.9);
+  });
+
+  it("returns null for transparent or unknown values", () => {
+    expect(parseCssColor("transparent")).toBeNull();
+    expect(parseCssColor(undefined)).toBeNull();
+    expect(parseCssColor("not-a-color")).toBeNull();
+  });
+});
+
+describe("parseDashArray", () => {
+  it("parses SVG dash patterns", () => {
+    expect(parseDashArray("4 4")).toEqual([4, 4]);
+    expect(parseDashArray("12,4")).toEqual([12, 4]);
+  });
+
+  it("returns undefined for empty or invalid patterns", () => {
+    expect(parseDashArray(undefined)).toBeUndefined();
+    expect(parseDashArray("a b")).toBeUndefined();
+  });
+});
+
+describe("resolveStandardFont", () => {
+  it("maps families and styles to the standard 14 fonts", () => {
+    expect(resolveStandardFont("Arial")).toBe("Helvetica");
+    expect(resolveStandardFont("Arial", "bold", "italic")).toBe("Helvetica-BoldOblique");
+    expect(resolveStandardFont("Times New Roman", "700")).toBe("Times-Bold");
+    expect(resolveStandardFont("Courier New")).toBe("Courier");
+    expect(resolveStandardFont("sans-serif")).toBe("Helvetica");
+  });
+});
+
+describe("wrapTextLines", () => {
+  const measure = (s: string) => s.length * 10;
+
+  it("keeps explicit line breaks", () => {
+    expect(wrapTextLines("a\n\nb", 100, measure)).toEqual(["a", "", "b"]);
+  });
+
+  it("wraps on word boundaries", () => {
+    expect(wrapTextLines("hello big world", 100, measure)).toEqual(["hello big", "world"]);
+  });
+
+  it("breaks words longer than the line", () => {
+    expect(wrapTextLines("abcdefghijkl", 50, measure)).toEqual(["abcde", "fghij", "kl"]);
+  });
+});
+
+describe("buildRectPath", () => {
+  it("builds a closed rectangle", () => {
+    expect(buildRectPath({ x: 0, y: 0, width: 10, height: 5 })).toBe("M 0 0 L 10 0 L 10 5 L 0 5 Z");
+  });
+
+  it("uses arcs for rounded corners", () => {
+    expect(buildRectPath({ x: 0, y: 0, width: 10, height: 10 }, 2)).toContain("A 2 2");
+  });
+});
+
+describe("drawAnnotationAsVector", () => {
+  const base = { pageId: "p1", createdAt: 0, modifiedAt: 0 };
+
+  async function draw(annotations: Annotation[]) {
+    const pdfDoc = await PDFDocument.create();
+    const pdfPage = pdfDoc.addPage([200, 200]);
+    const ctx = {
+      pdfDoc,
+      pdfPage,
+      pageWidth: 200,
+      pageHeight: 200,
+      fonts: createStandardFontResolver(pdfDoc),
+      rasterScale: 1,
+    };
+
+    beginPageDrawing(pdfPage, computePageMatrix(pdfPage.getCropBox(), 0, 200, 200));
+    const results = [];
+    for (const annotation of annotations) {
+      results.push(await drawAnnotationAsVector(ctx, annotation));
+    }
+    endPageDrawing(pdfPage);
+
+    const bytes = await pdfDoc.save({ useObjectStreams: false });
+    return { results, bytes };
+  }
+
+  it("writes supported annotations as PDF operators", async () => {
+    const { results, bytes } = await draw([
+      {
+        ...base, id: "t", type: "text", content: "Hello",
+        bbox: { x: 10, y: 10, width: 100, height: 40 },
+        style: { fontSize: 12, fontFamily: "Arial" },
+      },
+      {
+        ...base, id: "r", type: "rectangle",
+        bbox: { x: 20, y: 60, width: 50, height: 30 },
+        style: { fill: "#ff0000", stroke: "#000000", strokeWidth: 2 },
+      },
+      {
+        ...base, id: "a", type: "arrow",
+        startPoint: { x: 10, y: 150 }, endPoint: { x: 150, y: 150 },
+        bbox: { x: 10, y: 140, width: 140, height: 20 },
+        style: { stroke: "#0000ff", strokeWidth: 2 },
+      },
+    ]);
+
+    expect(results).toEqual([true, true, true]);
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text).toContain("/Helvetica");
+  });
+
+  it("writes OCR words as invisible text with a glyphless Type0 font", async () => {
+    const { results, bytes } = await draw([
+      {
+        ...base, id: "o", type: "ocr", content: "스캔", confidence: 91, language: "kor+eng",
+        bbox: { x: 10, y: 10, width: 40, height: 12 },
+        style: { fontSize: 12, fontFamily: "sans-serif" },
+      },
+    ]);
+
+    expect(results).toEqual([true]);
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text).toContain("/GlyphLessFont");
+    expect(text).toContain("/Identity-H");
+    expect(text).toContain("/ToUnicode");
+  });
+
+  it("draws text stamps as vectors and leaves SVG image stamps to the raster overlay", async () => {
+    const { results } = await draw([
+      {
+        ...base, id: "s", type: "stamp", stampType: "custom", content: "PAID 2026-01-02",
+        shape: "ellipse", borderStyle: "double",
+        bbox: { x: 10, y: 10, width: 120, height: 40 },
+        style: { fill: "transparent", stroke: "#dc3545", strokeWidth: 2, fontSize: 12 },
+      },
+      {
+        ...base, id: "seal", type: "stamp", stampType: "custom", content: "Seal",
+        imageData: "data:image/svg+xml;base64,PHN2Zy8+",
+        bbox: { x: 10, y: 60, width: 40, height: 40 },
+        style: { fill: "transparent", stroke: "#dc3545", strokeWidth: 0 },
+      },
+    ]);
+    expect(results).toEqual([true, false]);
+  });
+
+  it("strokes drawn signatures, skips sign-here placeholders and leaves SVG signatures to the raster overlay", async () => {
+    const signature = {
+      ...base, type: "signature" as const, kind: "signature" as const,
+      bbox: { x: 10, y: 10, width: 80, height: 20 },
+      style: { stroke: "#000000", strokeWidth: 1.5 },
+    };
+    const { results } = await draw([
+      { ...signature, id: "drawn", strokes: [[{ x: 0, y: 0 }, { x: 20, y: 5 }, { x: 40, y: 0 }]], strokeBox: { width: 40, height: 10 } },
+      { ...signature, id: "placeholder" },
+      { ...signature, id: "svg", imageData: "data:image/svg+xml;base64,PHN2Zy8+" },
+    ]);
+    expect(results).toEqual([true, true, false]);
+  });
+
+  it("reports unsupported annotation types", async () => {
+    const { results } = await draw([
+      {
+        ...base, id: "i", type: "image", imageData: "data:image/png;base64,",
+        originalWidth: 10, originalHeight: 10,
+        bbox: { x: 0, y: 0, width: 10, height: 10 },
+        style: {},
+      },
+    ]);
+    expect(results).toEqual([false]);
+  });
+});
+
+describe("OCR text layer", () => {
+  const word: OCRAnnotation = {
+    id: "o", type: "ocr", pageId: "p1", createdAt: 0, modifiedAt: 0,
+    content: "Hi", confidence: 90, language: "eng",
+    bbox: { x: 10, y: 20, width: 30, height: 10 },
+    style: { fontSize: 10, fontFamily: "sans-serif" },
+  };
+
+  it("encodes text as UTF-16BE code units without a BOM", () => {
+    expect(toUtf16Hex("한A")).toBe("D55C0041");
+  });
+
+  it("stretches the word to its box on the bottom baseline in render mode 3", () => {
+    const ops = buildOcrTextOperators(word, "F1", 200).map((op) => op.toString());
+    expect(ops).toContain("3 Tr");
+    expect(ops).toContain("/F1 10 Tf");
+    // 2글자 × 0.5em × 10 = 10 → 30으로 늘림
+    expect(ops).toContain("300 Tz");
+    expect(ops).toContain("1 0 0 1 10 170 Tm");
+    expect(ops).toContain("<00480069> Tj");
+  });
+
+  it("skips empty words", () => {
+    expect(buildOcrTextOperators({ ...word, content: "  " }, "F1", 200)).toEqual([]);
+  });
+
+  it("maps every non-surrogate code to itself", () => {
+    const cmap = buildIdentityToUnicodeCMap();
+    expect(cmap).toContain("<AC00> <ACFF> <AC00>");
+    expect(cmap).not.toContain("<D800>");
+    expect(cmap.match(/beginbfrange/g)).toHaveLength(3);
+  });
+});
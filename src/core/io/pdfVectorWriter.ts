@@ -0,0 +1,691 @@
+/**
+ * PDF Vector Writer - 주석을 네이티브 PDF 벡터 연산자로 기록
+ *
+ * 원본 페이지를 래스터화하지 않고 그 위에 텍스트/도형/선/표/자유곡선을
+ * pdf-lib 연산자로 그린다. 원본 텍스트 선택과 확대 품질이 유지된다.
+ */
+
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  LineCapStyle,
+  rgb,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+} from 'pdf-lib';
+import type { RGB } from 'pdf-lib';
+import type { Annotation } from '../model/types';
+import type {
+  TextAnnotation,
+  HighlightAnnotation,
+  RectangleAnnotation,
+  RoundedRectAnnotation,
+  EllipseAnnotation,
+  ArrowAnnotation,
+  LineAnnotation,
+  FreehandAnnotation,
+  HighlighterAnnotation,
+  TableAnnotation,
+  TextMarkupAnnotation,
+  BarcodeAnnotation,
+  StampAnnotation,
+  SignatureAnnotation,
+} from '../../types/annotation';
+import { canvasToImageBytes } from './pageRenderer';
+import type { TextBlock } from './annotationGeometry';
+import {
+  arrowHeadPoints,
+  buildEllipsePath,
+  buildLinePath,
+  buildPolygonPath,
+  buildRectPath,
+  buildSmoothPath,
+  buildTextMarkupStrokes,
+  layoutOffsets,
+  parseDashArray,
+  wrapTextLines,
+} from './annotationGeometry';
+import { drawOcrTextLayer } from './pdfOcrTextWriter';
+import { barcodeModuleRects } from '../barcode/barcodeEncoder';
+import { annotationRotation, isRotated, rotationMatrixYUp } from '../annotations/annotationRotation';
+import { gridLinesPath, layoutTableCells, layoutTableGrid } from '../table/tableModel';
+import { stampColor, stampFrame, stampTextBlock } from '../stamps/stampAppearance';
+import { signatureStrokePaths } from '../signatures/signatureStrokes';
+
+// 도형/텍스트 배치 계산은 annotationGeometry로 이동 (기존 import 경로 유지)
+export type { TextBlock } from './annotationGeometry';
+export {
+  buildEllipsePath,
+  buildRectPath,
+  buildSmoothPath,
+  buildTextMarkupStrokes,
+  parseDashArray,
+  wrapTextLines,
+} from './annotationGeometry';
+
+// ============================================
+// Types
+// ============================================
+
+/** PDF 변환 행렬 [a b c d e f] */
+export type PdfMatrix = [number, number, number, number, number, number];
+
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type StandardFontResolver = (
+  fontFamily?: string,
+  fontWeight?: string,
+  fontStyle?: string
+) => Promise<PDFFont>;
+
+export interface VectorDrawContext {
+  pdfDoc: PDFDocument;
+  pdfPage: PDFPage;
+  /** 편집 좌표계 페이지 크기 (Page.width / Page.height) */
+  pageWidth: number;
+  pageHeight: number;
+  fonts: StandardFontResolver;
+  /** 표준 폰트로 인코딩할 수 없는 텍스트를 래스터화할 배율 (dpi / 72) */
+  rasterScale: number;
+}
+
+export interface ParsedColor {
+  color: RGB;
+  alpha: number;
+}
+
+export interface PathPaint {
+  fill?: string;
+  fillOpacity?: number;
+  stroke?: string;
+  strokeWidth?: number;
+  strokeOpacity?: number;
+  dashArray?: number[];
+  lineCap?: LineCapStyle;
+}
+
+// ============================================
+// Coordinate Mapping
+// ============================================
+
+/**
+ * 편집 좌표계(좌하단 원점, y-up, 단위 = Page 단위) → PDF 사용자 공간 행렬
+ *
+ * rotation은 원본 /Rotate와 Page.rotation을 합친 표시 회전이다.
+ * pageWidth/pageHeight는 회전이 적용된 표시 크기.
+ */
+export function computePageMatrix(
+  box: PageBox,
+  rotation: number,
+  pageWidth: number,
+  pageHeight: number
+): PdfMatrix {
+  const r = ((rotation % 360) + 360) % 360;
+  const sideways = r === 90 || r === 270;
+  const s = pageWidth > 0 ? (sideways ? box.height : box.width) / pageWidth : 1;
+  const h = s * pageHeight;
+
+  switch (r) {
+    case 90:
+      return [0, s, -s, 0, box.x + h, box.y];
+    case 180:
+      return [-s, 0, 0, -s, box.x + box.width, box.y + h];
+    case 270:
+      return [0, -s, s, 0, box.x + box.width - h, box.y + box.height];
+    default:
+      return [s, 0, 0, s, box.x, box.y];
+  }
+}
+
+/**
+ * 편집 좌표계로 그리기 시작 (반드시 endPageDrawing과 짝을 이룸)
+ */
+export function beginPageDrawing(pdfPage: PDFPage, matrix: PdfMatrix): void {
+  pdfPage.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
+}
+
+export function endPageDrawing(pdfPage: PDFPage): void {
+  pdfPage.pushOperators(popGraphicsState());
+}
+
+// ============================================
+// Style Parsing
+// ============================================
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  gray: '#808080',
+  grey: '#808080',
+};
+
+/**
+ * CSS 색상 문자열 파싱 (#rgb, #rgba, #rrggbb, #rrggbbaa, rgb(), rgba(), 기본 색상명)
+ * 투명/알 수 없는 값은 null
+ */
+export function parseCssColor(value: string | undefined): ParsedColor | null {
+  if (!value) return null;
+  let v = value.trim().toLowerCase();
+  if (v === '' || v === 'transparent' || v === 'none') return null;
+  v = NAMED_COLORS[v] ?? v;
+
+  if (v.startsWith('#')) {
+    let hex = v.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map((c) => c + c).join('');
+    }
+    if ((hex.length !== 6 && hex.length !== 8) || !/^[0-9a-f]+$/.test(hex)) return null;
+    const r = parseInt(hex.slice(0, 2), 16);
+    const g = parseInt(hex.slice(2, 4), 16);
+    const b = parseInt(hex.slice(4, 6), 16);
+    const a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    return { color: rgb(r / 255, g / 255, b / 255), alpha: a };
+  }
+
+  const match = v.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+    const clamp = (n: number) => Math.max(0, Math.min(255, n)) / 255;
+    const a = parts.length > 3 && !isNaN(parts[3]) ? Math.max(0, Math.min(1, parts[3])) : 1;
+    return { color: rgb(clamp(parts[0]), clamp(parts[1]), clamp(parts[2])), alpha: a };
+  }
+
+  return null;
+}
+
+/** CSS 폰트 속성 → PDF 표준 14 폰트 */
+export function resolveStandardFont(
+  fontFamily?: string,
+  fontWeight?: string,
+  fontStyle?: string
+): StandardFonts {
+  const family = (fontFamily || '').toLowerCase();
+  const bold = fontWeight === 'bold' || Number(fontWeight) >= 600;
+  const italic = fontStyle === 'italic' || fontStyle === 'oblique';
+
+  if (/courier|mono/.test(family)) {
+    if (bold && italic) return StandardFonts.CourierBoldOblique;
+    if (bold) return StandardFonts.CourierBold;
+    if (italic) return StandardFonts.CourierOblique;
+    return StandardFonts.Courier;
+  }
+  if (/times|georgia|(^|[\s,'"])serif/.test(family)) {
+    if (bold && italic) return StandardFonts.TimesRomanBoldItalic;
+    if (bold) return StandardFonts.TimesRomanBold;
+    if (italic) return StandardFonts.TimesRomanItalic;
+    return StandardFonts.TimesRoman;
+  }
+  if (bold && italic) return StandardFonts.HelveticaBoldOblique;
+  if (bold) return StandardFonts.HelveticaBold;
+  if (italic) return StandardFonts.HelveticaOblique;
+  return StandardFonts.Helvetica;
+}
+
+/**
+ * 문서 단위 표준 폰트 캐시 (폰트당 1회만 임베드)
+ */
+export function createStandardFontResolver(pdfDoc: PDFDocument): StandardFontResolver {
+  const cache = new Map<StandardFonts, Promise<PDFFont>>();
+  return (fontFamily, fontWeight, fontStyle) => {
+    const name = resolveStandardFont(fontFamily, fontWeight, fontStyle);
+    let font = cache.get(name);
+    if (!font) {
+      font = pdfDoc.embedFont(name);
+      cache.set(name, font);
+    }
+    return font;
+  };
+}
+
+const charsetCache = new WeakMap<PDFFont, Set<number>>();
+
+/** 표준 폰트(WinAnsi)로 인코딩 가능한 텍스트인지 확인 */
+export function canEncode(font: PDFFont, text: string): boolean {
+  let charset = charsetCache.get(font);
+  if (!charset) {
+    charset = new Set(font.getCharacterSet());
+    charsetCache.set(font, charset);
+  }
+  for (const ch of text) {
+    if (ch === '\n') continue;
+    if (!charset.has(ch.codePointAt(0)!)) return false;
+  }
+  return true;
+}
+
+// ============================================
+// Text Layout
+// ============================================
+
+function alignX(block: TextBlock, lineWidth: number): number {
+  const { box } = block;
+  if (block.textAlign === 'center') return box.x + (box.width - lineWidth) / 2;
+  if (block.textAlign === 'right') return box.x + box.width - lineWidth;
+  return box.x;
+}
+
+/**
+ * 텍스트 블록 그리기 (표준 폰트로 쓸 수 없는 글자가 있으면 블록을 이미지로)
+ */
+export async function drawTextBlock(ctx: VectorDrawContext, block: TextBlock): Promise<void> {
+  if (!block.content || block.box.width <= 0 || block.box.height <= 0) return;
+
+  const font = await ctx.fonts(block.fontFamily, block.fontWeight, block.fontStyle);
+  if (!canEncode(font, block.content)) {
+    await drawRasterTextBlock(ctx, block);
+    return;
+  }
+
+  const parsed = parseCssColor(block.color) ?? { color: rgb(0, 0, 0), alpha: 1 };
+  for (const line of layoutTextLines(font, block)) {
+    ctx.pdfPage.drawText(line.text, {
+      x: line.x,
+      y: ctx.pageHeight - line.baseline,
+      size: block.fontSize,
+      font,
+      color: parsed.color,
+      opacity: parsed.alpha * (block.opacity ?? 1),
+    });
+  }
+}
+
+/**
+ * 표준 폰트 기준 줄 배치 (편집 좌표, baseline은 위에서부터의 y)
+ * 빈 줄과 박스 밖으로 시작하는 줄은 제외된다.
+ */
+export function layoutTextLines(
+  font: PDFFont,
+  block: TextBlock
+): { text: string; x: number; baseline: number }[] {
+  const size = block.fontSize;
+  const lines = wrapTextLines(block.content, block.box.width, (s) => font.widthOfTextAtSize(s, size));
+  const { lineHeight, top } = layoutOffsets(block, lines.length);
+  const contentHeight = font.heightAtSize(size);
+  const ascent = font.heightAtSize(size, { descender: false });
+
+  const placed: { text: string; x: number; baseline: number }[] = [];
+  lines.forEach((line, i) => {
+    const lineTop = top + i * lineHeight;
+    // overflow: hidden 근사 - 박스 밖으로 시작하는 줄은 생략
+    if (line === '' || lineTop >= block.box.y + block.box.height) return;
+    placed.push({
+      text: line,
+      x: alignX(block, font.widthOfTextAtSize(line, size)),
+      baseline: lineTop + (lineHeight - contentHeight) / 2 + ascent,
+    });
+  });
+  return placed;
+}
+
+/**
+ * 표준 폰트가 지원하지 않는 문자(한글 등)는 해당 텍스트 블록만 이미지로 삽입
+ */
+async function drawRasterTextBlock(ctx: VectorDrawContext, block: TextBlock): Promise<void> {
+  const scale = ctx.rasterScale;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(block.box.width * scale));
+  canvas.height = Math.max(1, Math.ceil(block.box.height * scale));
+  const c2d = canvas.getContext('2d');
+  if (!c2d) return;
+
+  c2d.scale(scale, scale);
+  c2d.font = `${block.fontStyle || 'normal'} ${block.fontWeight || 'normal'} ${block.fontSize}px ${block.fontFamily || 'sans-serif'}`;
+  c2d.fillStyle = block.color || '#000000';
+  c2d.globalAlpha = block.opacity ?? 1;
+  c2d.textBaseline = 'middle';
+
+  const local: TextBlock = { ...block, box: { x: 0, y: 0, width: block.box.width, height: block.box.height } };
+  const lines = wrapTextLines(block.content, local.box.width, (s) => c2d.measureText(s).width);
+  const { lineHeight, top } = layoutOffsets(local, lines.length);
+  lines.forEach((line, i) => {
+    c2d.fillText(line, alignX(local, c2d.measureText(line).width), top + i * lineHeight + lineHeight / 2);
+  });
+
+  const image = await ctx.pdfDoc.embedPng(await canvasToImageBytes(canvas, 'png'));
+  ctx.pdfPage.drawImage(image, {
+    x: block.box.x,
+    y: ctx.pageHeight - block.box.y - block.box.height,
+    width: block.box.width,
+    height: block.box.height,
+  });
+}
+
+// ============================================
+// Path Painting
+// ============================================
+
+function drawPath(ctx: VectorDrawContext, path: string, paint: PathPaint): void {
+  if (!path) return;
+  const fill = parseCssColor(paint.fill);
+  const stroke = (paint.strokeWidth ?? 0) > 0 ? parseCssColor(paint.stroke) : null;
+  if (!fill && !stroke) return;
+
+  ctx.pdfPage.drawSvgPath(path, {
+    x: 0,
+    y: ctx.pageHeight,
+    color: fill?.color,
+    opacity: fill ? fill.alpha * (paint.fillOpacity ?? 1) : undefined,
+    borderColor: stroke?.color,
+    borderOpacity: stroke ? stroke.alpha * (paint.strokeOpacity ?? 1) : undefined,
+    borderWidth: stroke ? paint.strokeWidth : 0,
+    borderDashArray: stroke ? paint.dashArray : undefined,
+    borderLineCap: stroke ? paint.lineCap : undefined,
+  });
+}
+
+// ============================================
+// Annotation Writers
+// ============================================
+
+function drawText(ctx: VectorDrawContext, a: TextAnnotation): Promise<void> {
+  const { bbox, style } = a;
+  const padding = 8;
+
+  drawPath(ctx, buildRectPath(bbox), {
+    fill: style.backgroundColor || 'rgba(255, 255, 255, 0.9)',
+    fillOpacity: style.backgroundOpacity ?? 1,
+    // 기본 회색 테두리는 편집 UI용이므로 명시적으로 지정된 경우만 기록
+    stroke: style.borderColor,
+    strokeWidth: style.borderColor ? style.borderWidth || 1 : 0,
+  });
+
+  return drawTextBlock(ctx, {
+    content: a.content,
+    box: {
+      x: bbox.x + padding,
+      y: bbox.y + padding,
+      width: bbox.width - padding * 2,
+      height: bbox.height - padding * 2,
+    },
+    fontSize: style.fontSize || 16,
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    color: style.color || '#000000',
+    opacity: style.opacity,
+    textAlign: style.textAlign,
+    verticalAlign: style.verticalAlign ?? 'middle',
+    lineHeight: 1.2,
+  });
+}
+
+function drawHighlight(ctx: VectorDrawContext, a: HighlightAnnotation): void {
+  // 텍스트 선택 하이라이트는 줄별 사각형
+  const quads = a.quads?.length ? a.quads : [a.bbox];
+  drawPath(ctx, quads.map((quad) => buildRectPath(quad)).join(' '), {
+    fill: a.style?.fill || '#FFFF00',
+    fillOpacity: a.opacity ?? a.style?.opacity ?? 0.3,
+  });
+}
+
+function drawTextMarkup(ctx: VectorDrawContext, a: TextMarkupAnnotation): void {
+  for (const { path, width } of buildTextMarkupStrokes(a)) {
+    drawPath(ctx, path, {
+      stroke: a.style?.stroke || '#E53935',
+      strokeWidth: width,
+      strokeOpacity: a.style?.opacity ?? 1,
+    });
+  }
+}
+
+function drawBarcode(ctx: VectorDrawContext, a: BarcodeAnnotation): void {
+  // 배경(여백 포함) 위에 모듈을 하나의 경로로 채움
+  drawPath(ctx, buildRectPath(a.bbox), { fill: a.style?.backgroundColor || '#FFFFFF' });
+  drawPath(ctx, barcodeModuleRects(a.modules, a.bbox).map((rect) => buildRectPath(rect)).join(' '), {
+    fill: a.style?.color || '#000000',
+  });
+}
+
+/**
+ * 스탬프 (테두리 + 텍스트, PNG 이미지 스탬프는 이미지 그대로)
+ * @returns false - SVG 이미지 스탬프 (래스터 오버레이로 처리)
+ */
+async function drawStamp(ctx: VectorDrawContext, a: StampAnnotation): Promise<boolean> {
+  const { bbox } = a;
+  if (a.imageData) {
+    if (!a.imageData.startsWith('data:image/png')) return false;
+    const image = await ctx.pdfDoc.embedPng(a.imageData);
+    ctx.pdfPage.drawImage(image, {
+      x: bbox.x,
+      y: ctx.pageHeight - bbox.y - bbox.height,
+      width: bbox.width,
+      height: bbox.height,
+    });
+    return true;
+  }
+
+  const frame = stampFrame(a);
+  const color = stampColor(a);
+  drawPath(ctx, frame.outline, { fill: a.style?.fill });
+  for (const stroke of frame.strokes) {
+    drawPath(ctx, stroke, { stroke: color, strokeWidth: frame.strokeWidth, dashArray: frame.dashArray });
+  }
+  await drawTextBlock(ctx, stampTextBlock(a));
+  return true;
+}
+
+/**
+ * 서명 (손글씨 획, PNG 이미지는 이미지 그대로, 자리 표시는 그리지 않음)
+ * @returns false - SVG 이미지 서명 (래스터 오버레이로 처리)
+ */
+async function drawSignature(ctx: VectorDrawContext, a: SignatureAnnotation): Promise<boolean> {
+  const { bbox } = a;
+  if (a.imageData) {
+    if (!a.imageData.startsWith('data:image/png')) return false;
+    const image = await ctx.pdfDoc.embedPng(a.imageData);
+    ctx.pdfPage.drawImage(image, {
+      x: bbox.x,
+      y: ctx.pageHeight - bbox.y - bbox.height,
+      width: bbox.width,
+      height: bbox.height,
+    });
+    return true;
+  }
+
+  for (const path of signatureStrokePaths(a)) {
+    drawPath(ctx, path, {
+      stroke: a.style?.stroke || '#000000',
+      strokeWidth: a.style?.strokeWidth || 2,
+      lineCap: LineCapStyle.Round,
+    });
+  }
+  return true;
+}
+
+function drawRectangle(ctx: VectorDrawContext, a: RectangleAnnotation | RoundedRectAnnotation): void {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  // 화면 표시와 동일하게 선 두께의 절반만큼 안쪽에 그림
+  const inner = {
+    x: bbox.x + sw / 2,
+    y: bbox.y + sw / 2,
+    width: Math.max(0, bbox.width - sw),
+    height: Math.max(0, bbox.height - sw),
+  };
+
+  drawPath(ctx, buildRectPath(inner, a.cornerRadius || 0), {
+    fill: a.style?.fill,
+    fillOpacity: a.style?.opacity ?? 1,
+    stroke: a.style?.stroke || '#000000',
+    strokeWidth: sw,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+  });
+}
+
+function drawEllipse(ctx: VectorDrawContext, a: EllipseAnnotation): void {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  const path = buildEllipsePath(
+    bbox.x + bbox.width / 2,
+    bbox.y + bbox.height / 2,
+    Math.max(0, bbox.width / 2 - sw / 2),
+    Math.max(0, bbox.height / 2 - sw / 2),
+    a.startAngle ?? 0,
+    a.sweepAngle ?? 360,
+    a.innerRadiusRatio ?? 0
+  );
+
+  drawPath(ctx, path, {
+    fill: a.style?.fill,
+    fillOpacity: a.style?.opacity ?? 1,
+    stroke: a.style?.stroke || '#000000',
+    strokeWidth: sw,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+  });
+}
+
+function drawArrowOrLine(ctx: VectorDrawContext, a: ArrowAnnotation | LineAnnotation): void {
+  const { startPoint: s, endPoint: e } = a;
+  const stroke = a.style?.stroke || '#000000';
+  const cp = (a as LineAnnotation).controlPoint;
+
+  drawPath(ctx, buildLinePath(s, e, cp), {
+    stroke,
+    strokeWidth: a.style?.strokeWidth || 2,
+    strokeOpacity: a.style?.opacity ?? 1,
+    dashArray: parseDashArray(a.style?.strokeDasharray),
+    lineCap: LineCapStyle.Round,
+  });
+
+  if (a.type !== 'arrow') return;
+
+  drawPath(ctx, buildPolygonPath(arrowHeadPoints(s, e, cp, a.arrowHeadSize ?? 10)), {
+    fill: stroke,
+    fillOpacity: a.style?.opacity ?? 1,
+  });
+}
+
+function drawStroke(ctx: VectorDrawContext, a: FreehandAnnotation | HighlighterAnnotation): void {
+  const isHighlighter = a.type === 'highlighter';
+  drawPath(ctx, buildSmoothPath(a.points || []), {
+    stroke: a.style?.stroke || (isHighlighter ? '#FFFF00' : '#000000'),
+    strokeWidth: a.style?.strokeWidth || (isHighlighter ? 20 : 3),
+    strokeOpacity: a.style?.opacity ?? (isHighlighter ? 0.4 : 1),
+    lineCap: LineCapStyle.Round,
+  });
+}
+
+async function drawTable(ctx: VectorDrawContext, a: TableAnnotation): Promise<void> {
+  const { bbox, borderWidth, borderColor } = a;
+
+  // 1. 셀 배경 + 내용 (병합 셀은 합친 영역)
+  for (const { box, cell, text } of layoutTableCells(a)) {
+    const cs = cell.style;
+    drawPath(ctx, buildRectPath(box), {
+      fill: cs.backgroundColor,
+      fillOpacity: cs.backgroundOpacity ?? 1,
+    });
+    await drawTextBlock(ctx, {
+      content: text,
+      box: { x: box.x + 4, y: box.y + 2, width: box.width - 8, height: box.height - 4 },
+      fontSize: cs.fontSize,
+      fontFamily: cs.fontFamily,
+      fontWeight: cs.fontWeight,
+      fontStyle: cs.fontStyle,
+      color: cs.color,
+      textAlign: cs.textAlign,
+      // 화면 표시와 동일하게 위쪽 정렬
+      verticalAlign: 'top',
+      lineHeight: 1.4,
+    });
+  }
+
+  // 2. 격자선 (외곽선은 전체 두께, 내부선은 절반) + 셀 변별 테두리
+  const grid = layoutTableGrid(a);
+  const lineWidth = borderWidth || 0;
+  drawPath(ctx, gridLinesPath(grid.inner), { stroke: borderColor, strokeWidth: lineWidth * 0.5 });
+  drawPath(ctx, grid.outer ? gridLinesPath(grid.outer) : buildRectPath(bbox), { stroke: borderColor, strokeWidth: lineWidth });
+  for (const border of grid.borders) {
+    drawPath(ctx, gridLinesPath(border.lines), {
+      stroke: border.color,
+      strokeWidth: border.width,
+      lineCap: LineCapStyle.Projecting,
+    });
+  }
+}
+
+/**
+ * 주석 하나를 벡터로 기록
+ * @returns false - 벡터 기록을 지원하지 않는 타입 (호출 측에서 래스터 오버레이로 처리)
+ */
+export async function drawAnnotationAsVector(
+  ctx: VectorDrawContext,
+  annotation: Annotation
+): Promise<boolean> {
+  if (!isRotated(annotation)) return drawUnrotated(ctx, annotation);
+
+  // bbox 중심 기준 회전 (편집 좌표계가 y-up이므로 rotationMatrixYUp)
+  ctx.pdfPage.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(...rotationMatrixYUp(annotation.bbox, annotationRotation(annotation), ctx.pageHeight))
+  );
+  try {
+    return await drawUnrotated(ctx, annotation);
+  } finally {
+    ctx.pdfPage.pushOperators(popGraphicsState());
+  }
+}
+
+async function drawUnrotated(ctx: VectorDrawContext, annotation: Annotation): Promise<boolean> {
+  switch (annotation.type) {
+    case 'text':
+      await drawText(ctx, annotation);
+      return true;
+    case 'highlight':
+      drawHighlight(ctx, annotation);
+      return true;
+    case 'underline':
+    case 'squiggly':
+    case 'strikeout':
+      drawTextMarkup(ctx, annotation);
+      return true;
+    case 'rectangle':
+    case 'roundedRect':
+      drawRectangle(ctx, annotation);
+      return true;
+    case 'barcode':
+      drawBarcode(ctx, annotation);
+      return true;
+    case 'ellipse':
+      drawEllipse(ctx, annotation);
+      return true;
+    case 'arrow':
+    case 'line':
+      drawArrowOrLine(ctx, annotation);
+      return true;
+    case 'freehand':
+    case 'highlighter':
+      drawStroke(ctx, annotation);
+      return true;
+    case 'table':
+      await drawTable(ctx, annotation);
+      return true;
+    case 'stamp':
+      return drawStamp(ctx, annotation);
+    case 'signature':
+      return drawSignature(ctx, annotation);
+    case 'ocr':
+      // 스캔 페이지 검색용 보이지 않는 텍스트
+      drawOcrTextLayer(ctx, [annotation]);
+      return true;
+    case 'redaction':
+      // 벡터로 덮으면 아래 원본 내용이 남음 - 가림 페이지는 pdfExport가 래스터화한다
+      return false;
+    default:
+      return false;
+  }
+}
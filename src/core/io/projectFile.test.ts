@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { migrateManifest, readProjectArchive, writeProjectArchive, PROJECT_SCHEMA_VERSION } from "./projectFile";
+import type { ProjectSnapshot } from "./projectFile";
+import type { Page } from "../model/types";
+
+const PNG_URL = "data:image/png;base64,iVBORw0KGgo=";
+
+function page(overrides: Partial<Page>): Page {
+  return {
+    id: "p1",
+    docId: "d1",
+    index: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    layers: { annotations: [], rasters: [] },
+    ...overrides,
+  };
+}
+
+function snapshot(): ProjectSnapshot {
+  return {
+    document: {
+      id: "d1",
+      name: "sample.pdf",
+      source: { kind: "pdf", fileName: "sample.pdf", fileSize: 3, originalBytes: new Uint8Array([1, 2, 3]) },
+      pages: [],
+      version: 1,
+      createdAt: 0,
+      modifiedAt: 0,
+    },
+    pages: [
+      page({ id: "p1", pdfRef: { sourceIndex: 1 }, contentType: "pdf" }),
+      page({
+        id: "p2",
+        index: 1,
+        contentType: "image",
+        imageUrl: PNG_URL,
+        layers: {
+          annotations: [],
+          rasters: [{ id: "r1", pageId: "p2", kind: "freedraw", visible: true, opacity: 1, canvasData: PNG_URL, operations: [], createdAt: 0, modifiedAt: 0 }],
+        },
+      }),
+      page({ id: "p3", index: 2, pdfRef: { sourceIndex: 1, appendedFrom: "other.pdf" }, contentType: "pdf" }),
+    ],
+    annotations: [
+      {
+        id: "a1", pageId: "p1", type: "image", imageData: PNG_URL, originalWidth: 10, originalHeight: 10, createdAt: 0, modifiedAt: 0,
+        bbox: { x: 0, y: 0, width: 10, height: 10 }, style: {},
+      },
+    ],
+    currentPageId: "p2",
+    globalRotation: 90,
+    insertedSources: new Map([["other.pdf", new Uint8Array([4, 5])]]),
+    history: { entries: [], currentIndex: -1 },
+  };
+}
+
+describe("writeProjectArchive / readProjectArchive", () => {
+  it("round-trips sources, pages, annotations and history", async () => {
+    const bytes = await writeProjectArchive(snapshot());
+    const restored = await readProjectArchive(bytes);
+
+    expect(restored.document.source.originalBytes).toEqual(new Uint8Array([1, 2, 3]));
+    expect(restored.document.pages).toEqual([]);
+    expect(restored.insertedSources.get("other.pdf")).toEqual(new Uint8Array([4, 5]));
+    expect(restored.pages.map((p) => p.id)).toEqual(["p1", "p2", "p3"]);
+    expect(restored.pages[1].imageUrl).toBe(PNG_URL);
+    expect(restored.pages[1].layers.rasters[0].canvasData).toBe(PNG_URL);
+    expect(restored.annotations[0]).toMatchObject({ type: "image", imageData: PNG_URL });
+    expect(restored.currentPageId).toBe("p2");
+    expect(restored.globalRotation).toBe(90);
+    expect(restored.history).toEqual({ entries: [], currentIndex: -1 });
+  });
+
+  it("stores data URLs as separate assets instead of inline in the manifest", async () => {
+    const zip = await JSZip.loadAsync(await writeProjectArchive(snapshot()));
+    const manifest = await zip.file("manifest.json")!.async("string");
+
+    expect(manifest).not.toContain("data:image");
+    expect(zip.file("assets/images/p2.png")).not.toBeNull();
+    expect(zip.file("assets/rasters/r1.png")).not.toBeNull();
+    expect(zip.file("sources/main.pdf")).not.toBeNull();
+  });
+
+  it("moves signature images to assets and restores them", async () => {
+    const source = snapshot();
+    source.annotations.push({
+      id: "s1", pageId: "p1", type: "signature", kind: "signature", imageData: PNG_URL, createdAt: 0, modifiedAt: 0,
+      bbox: { x: 0, y: 0, width: 40, height: 20 }, style: { stroke: "#000000", strokeWidth: 2 },
+    });
+    const bytes = await writeProjectArchive(source);
+    const zip = await JSZip.loadAsync(bytes);
+
+    expect(await zip.file("manifest.json")!.async("string")).not.toContain("data:image");
+    expect(zip.file("assets/annotations/s1.png")).not.toBeNull();
+
+    const restored = await readProjectArchive(bytes);
+    expect(restored.annotations[1]).toMatchObject({ type: "signature", imageData: PNG_URL });
+  });
+
+  it("rejects archives that are not project files", async () => {
+    const zip = new JSZip();
+    zip.file("manifest.json", JSON.stringify({ format: "other" }));
+    await expect(readProjectArchive(await zip.generateAsync({ type: "uint8array" }))).rejects.toThrow();
+  });
+});
+
+describe("migrateManifest", () => {
+  it("applies migrations in order up to the target version", () => {
+    const migrated = migrateManifest(
+      { document: { version: 1 }, pages: [] },
+      {
+        1: (m) => ({ ...m, renamed: true }),
+        2: (m) => ({ ...m, pages: [...(m.pages as string[]), "added"] }),
+      },
+      3
+    );
+
+    expect(migrated).toMatchObject({ renamed: true, pages: ["added"], document: { version: 3 } });
+  });
+
+  it("refuses files saved by a newer build", () => {
+    expect(() => migrateManifest({ document: { version: PROJECT_SCHEMA_VERSION + 1 } })).toThrow(/newer/);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Project File - JustFlux 프로젝트 파일(.jflux) 직렬화
+ *
+ * 편집 세션 전체를 zip 컨테이너 하나로 저장하고 복원한다.
+ *  - manifest.json               문서/페이지/주석/래스터 레이어/히스토리
+ *  - sources/main.pdf            원본 PDF
+ *  - sources/inserted/<n>.pdf    추가된 PDF (manifest.insertedSources에 파일명 매핑)
+ *  - assets/...                  이미지 페이지, 래스터 캔버스, 이미지 주석, 썸네일
+ *
+ * manifest 안의 data URL은 `asset:<경로>` 참조로 바뀌어 별도 파일로 저장된다.
+ * 스키마 버전은 Document.version이며, 이전 버전 파일은 MIGRATIONS로 순서대로 변환된다.
+ */
+
+import JSZip from 'jszip';
+import type { Annotation, Document, DocumentSource, Page } from '../model/types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const PROJECT_FILE_EXTENSION = '.jflux';
+export const PROJECT_MIME_TYPE = 'application/x-jflux+zip';
+
+/** 현재 프로젝트 스키마 버전 (저장 시 Document.version에 기록) */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const MAIN_SOURCE_PATH = 'sources/main.pdf';
+const ASSET_PREFIX = 'asset:';
+
+// ============================================
+// Types
+// ============================================
+
+/** 저장/복원되는 편집 세션 */
+export interface ProjectSnapshot {
+  /** source.originalBytes에 원본 PDF 바이트 포함 */
+  document: Document;
+  pages: Page[];
+  /** AnnotationStore의 주석 (pageId로 페이지와 연결) */
+  annotations: Annotation[];
+  currentPageId: string | null;
+  globalRotation: number;
+  /** 추가된 PDF 원본 (PdfPageRef.appendedFrom 파일명 → 바이트) */
+  insertedSources: Map<string, Uint8Array>;
+  /** HistoryStore 스냅샷 (선택) */
+  history?: unknown;
+}
+
+interface ProjectManifest {
+  format: 'jflux';
+  savedAt: number;
+  document: Omit<Document, 'pages' | 'source'> & { source: Omit<DocumentSource, 'originalBytes'> };
+  mainSource: string | null;
+  insertedSources: { name: string; path: string }[];
+  pages: Page[];
+  annotations: Annotation[];
+  currentPageId: string | null;
+  globalRotation: number;
+  history?: unknown;
+}
+
+/** 버전 검사 전의 manifest (구조는 버전마다 다름) */
+export type RawManifest = Record<string, unknown> & { document?: { version?: number } };
+
+/** 이전 버전 manifest를 다음 버전으로 변환 */
+export type ManifestMigration = (manifest: RawManifest) => RawManifest;
+
+/**
+ * 스키마 마이그레이션 (키 = 변환 전 Document.version)
+ * 스키마를 바꿀 때 PROJECT_SCHEMA_VERSION을 올리고 이전 버전 → 새 버전 변환을 추가한다.
+ */
+const MIGRATIONS: Record<number, ManifestMigration> = {};
+
+// ============================================
+// Data URL Helpers
+// ============================================
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+function extensionToMime(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, e]) => e === ext);
+  return entry ? entry[0] : 'application/octet-stream';
+}
+
+/** data URL → 바이트 (data URL이 아니면 null) */
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mime: string } | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  const mime = match[1] || 'text/plain';
+  const payload = match[3];
+
+  if (match[2].includes(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mime };
+  }
+  return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mime };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mime: string): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+}
+
+// ============================================
+// Asset Extraction
+// ============================================
+
+/** data URL을 zip 파일로 옮기고 참조 문자열 반환 (data URL이 아니면 그대로) */
+function storeAsset(zip: JSZip, basePath: string, value: string | undefined): string | undefined {
+  if (!value) return value;
+  const parsed = dataUrlToBytes(value);
+  if (!parsed) return value;
+  const path = `assets/${basePath}.${MIME_EXTENSIONS[parsed.mime] ?? 'bin'}`;
+  zip.file(path, parsed.bytes);
+  return `${ASSET_PREFIX}${path}`;
+}
+
+async function resolveAsset(zip: JSZip, value: string | undefined): Promise<string | undefined> {
+  if (!value || !value.startsWith(ASSET_PREFIX)) return value;
+  const path = value.slice(ASSET_PREFIX.length);
+  const file = zip.file(path);
+  if (!file) {
+    console.warn(`⚠️ [Project] Missing asset: ${path}`);
+    return undefined;
+  }
+  return bytesToDataUrl(await file.async('uint8array'), extensionToMime(path));
+}
+
+function extractPageAssets(zip: JSZip, page: Page): Page {
+  return {
+    ...page,
+    imageUrl: storeAsset(zip, `images/${page.id}`, page.imageUrl),
+    thumbnail: page.thumbnail
+      ? { ...page.thumbnail, dataUrl: storeAsset(zip, `thumbnails/${page.id}`, page.thumbnail.dataUrl)! }
+      : undefined,
+    layers: {
+      ...page.layers,
+      rasters: page.layers.rasters.map((layer) => ({
+        ...layer,
+        canvasData: storeAsset(zip, `rasters/${layer.id}`, layer.canvasData),
+      })),
+    },
+  };
+}
+
+async function resolvePageAssets(zip: JSZip, page: Page): Promise<Page> {
+  const thumbnailUrl = page.thumbnail ? await resolveAsset(zip, page.thumbnail.dataUrl) : undefined;
+  return {
+    ...page,
+    imageUrl: await resolveAsset(zip, page.imageUrl),
+    thumbnail: page.thumbnail && thumbnailUrl ? { ...page.thumbnail, dataUrl: thumbnailUrl } : undefined,
+    layers: {
+      ...page.layers,
+      rasters: await Promise.all(page.layers.rasters.map(async (layer) => ({
+        ...layer,
+        canvasData: await resolveAsset(zip, layer.canvasData),
+      }))),
+    },
+  };
+}
+
+/** 이미지 데이터를 가진 주석(이미지, 이미지 서명, 이미지 도장) 모두 assets로 분리 */
+function extractAnnotationAssets(zip: JSZip, annotation: Annotation): Annotation {
+  if (!('imageData' in annotation) || !annotation.imageData) return annotation;
+  return { ...annotation, imageData: storeAsset(zip, `annotations/${annotation.id}`, annotation.imageData)! };
+}
+
+async function resolveAnnotationAssets(zip: JSZip, annotation: Annotation): Promise<Annotation> {
+  if (!('imageData' in annotation) || !annotation.imageData) return annotation;
+  return { ...annotation, imageData: (await resolveAsset(zip, annotation.imageData)) ?? '' };
+}
+
+// ============================================
+// Migration
+// ============================================
+
+/**
+ * manifest를 현재 스키마 버전으로 변환
+ * @throws 더 새로운 빌드에서 저장된 파일이거나 변환 경로가 없는 경우
+ */
+export function migrateManifest(
+  manifest: RawManifest,
+  migrations: Record<number, ManifestMigration> = MIGRATIONS,
+  targetVersion = PROJECT_SCHEMA_VERSION
+): RawManifest {
+  let version = manifest.document?.version ?? 1;
+  if (version > targetVersion) {
+    throw new Error(`Project file version ${version} is newer than this build supports (${targetVersion})`);
+  }
+
+  let current = manifest;
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from project file version ${version}`);
+    }
+    current = migrate(current);
+    version++;
+    current = { ...current, document: { ...current.document, version } };
+  }
+  return current;
+}
+
+// ============================================
+// Read / Write
+// ============================================
+
+/**
+ * 편집 세션을 .jflux 바이트로 저장
+ */
+export async function writeProjectArchive(snapshot: ProjectSnapshot): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const { id, name, meta, createdAt, modifiedAt, source } = snapshot.document;
+  const { originalBytes, ...sourceFields } = source;
+
+  if (originalBytes && originalBytes.byteLength > 0) {
+    zip.file(MAIN_SOURCE_PATH, originalBytes);
+  }
+
+  const insertedSources = [...snapshot.insertedSources.entries()].map(([name, bytes], index) => {
+    const path = `sources/inserted/${index}.pdf`;
+    zip.file(path, bytes);
+    return { name, path };
+  });
+
+  const manifest: ProjectManifest = {
+    format: 'jflux',
+    savedAt: Date.now(),
+    document: { id, name, meta, version: PROJECT_SCHEMA_VERSION, createdAt, modifiedAt, source: sourceFields },
+    mainSource: originalBytes && originalBytes.byteLength > 0 ? MAIN_SOURCE_PATH : null,
+    insertedSources,
+    pages: snapshot.pages.map((page) => extractPageAssets(zip, page)),
+    annotations: snapshot.annotations.map((annotation) => extractAnnotationAssets(zip, annotation)),
+    currentPageId: snapshot.currentPageId,
+    globalRotation: snapshot.globalRotation,
+    history: snapshot.history,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest));
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+/**
+ * .jflux 바이트에서 편집 세션 복원
+ * @throws 프로젝트 파일이 아니거나 지원하지 않는 버전인 경우
+ */
+export async function readProjectArchive(bytes: Uint8Array): Promise<ProjectSnapshot> {
+  const zip = await JSZip.loadAsync(bytes);
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new Error('Not a JustFlux project file (manifest.json missing)');
+  }
+
+  const raw = JSON.parse(await manifestFile.async('string'));
+  if (raw?.format !== 'jflux') {
+    throw new Error('Not a JustFlux project file');
+  }
+  const manifest = migrateManifest(raw) as unknown as ProjectManifest;
+
+  const mainFile = manifest.mainSource ? zip.file(manifest.mainSource) : null;
+  const originalBytes = mainFile ? await mainFile.async('uint8array') : undefined;
+
+  const insertedSources = new Map<string, Uint8Array>();
+  for (const { name, path } of manifest.insertedSources) {
+    const file = zip.file(path);
+    if (file) {
+      insertedSources.set(name, await file.async('uint8array'));
+    } else {
+      console.warn(`⚠️ [Project] Missing inserted source: ${name}`);
+    }
+  }
+
+  const pages = await Promise.all(manifest.pages.map((page) => resolvePageAssets(zip, page)));
+  const annotations = await Promise.all(
+    manifest.annotations.map((annotation) => resolveAnnotationAssets(zip, annotation))
+  );
+
+  return {
+    // 페이지는 PageStore가 관리하므로 문서에는 비워 둠 (initNewDocument와 동일)
+    document: {
+      ...manifest.document,
+      source: { ...manifest.document.source, originalBytes },
+      pages: [],
+    },
+    pages,
+    annotations,
+    currentPageId: manifest.currentPageId,
+    globalRotation: manifest.globalRotation ?? 0,
+    insertedSources,
+    history: manifest.history,
+  };
+}
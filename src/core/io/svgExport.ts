@@ -0,0 +1,112 @@
+import { logger } from '../../utils/logger';
+/**
+ * SVG Export - 페이지별 SVG 문서로 내보내기
+ *
+ * 주석은 svgWriter로 편집 가능한 벡터 요소가 되고, 페이지 배경은 이미지로 포함된다.
+ * (PDF 페이지는 지정 DPI로 렌더링, 이미지 페이지는 원본 이미지, 빈 페이지는 흰 사각형)
+ * 가림 주석이 있는 페이지는 주석/래스터 레이어까지 한 장의 이미지로 합쳐 가린 내용을 남기지 않는다.
+ * 자르기/크기 변경된 페이지는 내용 전체를 용지 좌표로 옮기는 그룹으로 감싸고 보이는 영역으로 자른다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { ExportOptions, Page } from '../model/types';
+import { renderPageContentToCanvas, renderPageToCanvas } from './pageRenderer';
+import { framePageSvg, pageContentToSvg, svgDocument } from './svgWriter';
+import { hasRasterContent, rasterLayerDataUrl } from '../raster/rasterEngine';
+import { hasRedactions } from '../redaction/redaction';
+import { isPageGeometryEdited, pageContentTransform, pageOutputSize, pageVisibleBox } from '../page/pageGeometry';
+
+/**
+ * 페이지 배경 이미지 (주석/래스터 레이어 제외, 자르기 전 원래 페이지 크기)
+ * @returns data URL, 흰 배경이면 null
+ */
+export async function renderPageBackground(
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
+  options: ExportOptions,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<string | null> {
+  if (page.pdfRef) {
+    const canvas = await renderPageContentToCanvas(
+      page,
+      pdfProxy,
+      { ...options, includeAnnotations: false, includeRasterLayers: false },
+      insertedPdfProxies
+    );
+    return canvas.toDataURL('image/png');
+  }
+  if (page.contentType === 'image' && page.imageUrl) {
+    return page.imageUrl;
+  }
+  return null;
+}
+
+/**
+ * 페이지 하나를 SVG 문서 문자열로
+ */
+export async function renderPageToSvg(
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
+  options: ExportOptions,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<string> {
+  const sheet = pageOutputSize(page);
+
+  if (hasRedactions(page)) {
+    const canvas = await renderPageToCanvas(page, pdfProxy, options, insertedPdfProxies);
+    const body = pageContentToSvg({
+      width: sheet.width,
+      height: sheet.height,
+      backgroundHref: canvas.toDataURL('image/png'),
+      annotations: [],
+    });
+    return svgDocument(sheet.width, sheet.height, body);
+  }
+
+  const backgroundHref = await renderPageBackground(page, pdfProxy, options, insertedPdfProxies);
+
+  const body = pageContentToSvg({
+    width: page.width,
+    height: page.height,
+    backgroundHref,
+    annotations: options.includeAnnotations !== false ? page.layers.annotations : [],
+    rasters: options.includeRasterLayers !== false
+      ? await Promise.all(page.layers.rasters
+        .filter(hasRasterContent)
+        .map(async (layer) => ({
+          id: layer.id,
+          href: await rasterLayerDataUrl(layer, page.width, page.height),
+          opacity: layer.opacity,
+          blendMode: layer.blendMode,
+        })))
+      : [],
+  });
+
+  if (!isPageGeometryEdited(page)) {
+    return svgDocument(page.width, page.height, body);
+  }
+  return svgDocument(sheet.width, sheet.height, framePageSvg(body, sheet, pageContentTransform(page), pageVisibleBox(page)));
+}
+
+/**
+ * SVG로 내보내기 (페이지당 파일 하나)
+ */
+export async function exportAsSvg(
+  pages: Page[],
+  pdfProxy: PDFDocumentProxy | null,
+  pageIndices: number[],
+  options: ExportOptions,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<Blob | Blob[]> {
+  logger.debug(`🧩 [SVG Export] Starting export for ${pageIndices.length} pages...`);
+
+  const blobs: Blob[] = [];
+  for (let i = 0; i < pageIndices.length; i++) {
+    logger.debug(`  Rendering page ${i + 1}/${pageIndices.length}...`);
+    const svg = await renderPageToSvg(pages[pageIndices[i]], pdfProxy, options, insertedPdfProxies);
+    blobs.push(new Blob([svg], { type: 'image/svg+xml' }));
+  }
+
+  logger.debug(`✅ [SVG Export] Complete! ${blobs.length} pages written`);
+  return blobs.length === 1 ? blobs[0] : blobs;
+}
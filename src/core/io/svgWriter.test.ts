@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { annotationToSvg, pageContentToSvg, svgDocument } from "./svgWriter";
+import { starPoints } from "./annotationGeometry";
+import type { Annotation } from "../model/types";
+
+const base = { pageId: "p1", createdAt: 0, modifiedAt: 0 };
+const bbox = { x: 10, y: 20, width: 100, height: 50 };
+/** 글자당 폭 = fontSize * 0.5 */
+const measureText = (text: string, block: { fontSize: number }) => text.length * block.fontSize * 0.5;
+
+function svg(annotation: Annotation): string {
+  return annotationToSvg(annotation, { measureText });
+}
+
+describe("annotationToSvg", () => {
+  it("writes a full ellipse as <ellipse> and arcs/rings as even-odd paths", () => {
+    const full = svg({ ...base, id: "e1", type: "ellipse", bbox, style: { stroke: "#111", strokeWidth: 2, fill: "#eee" } } as Annotation);
+    expect(full).toContain('<ellipse cx="60" cy="45" rx="49" ry="24"');
+
+    const ring = svg({
+      ...base, id: "e2", type: "ellipse", bbox, startAngle: 90, sweepAngle: 180, innerRadiusRatio: 0.5,
+      style: { stroke: "#111", strokeWidth: 2, fill: "#eee", strokeDasharray: "4 4" },
+    } as Annotation);
+    expect(ring).toContain("<path d=\"M ");
+    expect(ring).toContain(" A 49 24 0 0 1 ");
+    expect(ring).toContain(" A 24.5 12 0 0 0 ");
+    expect(ring).toContain('fill-rule="evenodd"');
+    expect(ring).toContain('stroke-dasharray="4 4"');
+  });
+
+  it("rotates box annotations about their center but ignores rotation on lines", () => {
+    const rect = svg({ ...base, id: "r1", type: "rectangle", bbox, rotation: 30, style: { stroke: "#000", strokeWidth: 1 } } as Annotation);
+    expect(rect).toContain('<g id="r1" data-type="rectangle" transform="rotate(30 60 45)">');
+
+    const line = svg({
+      ...base, id: "l0", type: "line", bbox, rotation: 30,
+      startPoint: { x: 0, y: 0 }, endPoint: { x: 100, y: 0 }, style: { stroke: "#000", strokeWidth: 1 },
+    } as Annotation);
+    expect(line).not.toContain("transform=");
+  });
+
+  it("keeps the quadratic control point of curved lines", () => {
+    const line = svg({
+      ...base, id: "l1", type: "line", bbox,
+      startPoint: { x: 0, y: 0 }, endPoint: { x: 100, y: 0 }, controlPoint: { x: 50, y: 40 },
+      style: { stroke: "#f00", strokeWidth: 3, strokeDasharray: "12 4" },
+    } as Annotation);
+    expect(line).toContain('d="M 0 0 Q 50 40 100 0"');
+    expect(line).toContain('stroke-dasharray="12 4"');
+    expect(line).not.toContain("<polygon");
+  });
+
+  it("adds a filled head to arrows along the end tangent", () => {
+    const arrow = svg({
+      ...base, id: "a1", type: "arrow", bbox,
+      startPoint: { x: 0, y: 0 }, endPoint: { x: 100, y: 0 }, arrowHeadSize: 10,
+      style: { stroke: "#00f", strokeWidth: 2 },
+    } as Annotation);
+    expect(arrow).toContain('<polygon points="100,0 91.34,5 91.34,-5" fill="#00f"/>');
+  });
+
+  it("draws stars with their point count and inner radius", () => {
+    const star = svg({
+      ...base, id: "s1", type: "star", bbox: { x: 0, y: 0, width: 100, height: 100 }, points: [],
+      numPoints: 7, innerRadius: 0.5, style: { stroke: "#000", strokeWidth: 0, fill: "#FFD700" },
+    } as unknown as Annotation);
+    const points = star.match(/points="([^"]+)"/)![1].split(" ");
+    expect(points).toHaveLength(14);
+    expect(points[0]).toBe("50,1");
+
+    const vertices = starPoints({ x: 0, y: 0, width: 100, height: 100 }, 5, 0.4, 0);
+    expect(vertices[0]).toEqual({ x: 50, y: 0 });
+    expect(Math.hypot(vertices[1].x - 50, vertices[1].y - 50)).toBeCloseTo(20);
+  });
+
+  it("writes table cells with their own styles", () => {
+    const cellStyle = {
+      fontSize: 10, fontFamily: "serif", fontWeight: "normal" as const, fontStyle: "normal" as const,
+      textAlign: "left" as const, verticalAlign: "top" as const,
+      color: "#000", backgroundColor: "transparent", backgroundOpacity: 1,
+    };
+    const table = svg({
+      ...base, id: "t1", type: "table", bbox: { x: 0, y: 0, width: 100, height: 40 },
+      rows: 2, cols: 2, colWidths: [50, 50], rowHeights: [20, 20], borderWidth: 2, borderColor: "#333",
+      cells: [
+        [
+          { content: "Name", style: { ...cellStyle, fontWeight: "bold", textAlign: "center", backgroundColor: "#DDEEFF", backgroundOpacity: 0.5 } },
+          { content: "A & B", style: { ...cellStyle, fontStyle: "italic", color: "#c00" } },
+        ],
+        [
+          { content: "", style: cellStyle },
+          { content: "2", style: { ...cellStyle, textAlign: "right" } },
+        ],
+      ],
+      style: {},
+    } as unknown as Annotation);
+
+    expect(table).toContain('<rect x="0" y="0" width="50" height="20" fill="#DDEEFF" fill-opacity="0.5"/>');
+    expect(table).toContain('font-weight="bold"');
+    expect(table).toContain('text-anchor="middle" xml:space="preserve"><tspan x="25"');
+    expect(table).toContain('font-style="italic" fill="#c00"');
+    expect(table).toContain(">A &amp; B</tspan>");
+    expect(table).toContain('text-anchor="end" xml:space="preserve"><tspan x="96"');
+    // 내부선은 절반 두께, 외곽선은 전체 두께
+    expect(table).toContain('<path d="M 50 0 V 40 M 0 20 H 100" fill="none" stroke="#333" stroke-width="1"/>');
+    expect(table).toContain('<rect x="0" y="0" width="100" height="40" fill="none" stroke="#333" stroke-width="2"/>');
+  });
+
+  it("wraps text boxes into tspans", () => {
+    const text = svg({
+      ...base, id: "x1", type: "text", bbox: { x: 0, y: 0, width: 76, height: 100 },
+      content: "hello world again",
+      style: { fontSize: 10, fontFamily: "Arial", color: "#123456", verticalAlign: "top" },
+    } as Annotation);
+    // 폭 60 (패딩 8) → 글자 12개
+    expect(text.match(/<tspan/g)).toHaveLength(2);
+    expect(text).toContain(">hello world</tspan>");
+    expect(text).toContain(">again</tspan>");
+    expect(text).toContain('fill="#123456"');
+  });
+
+  it("keeps highlighter strokes translucent with round caps and embeds images", () => {
+    const stroke = svg({
+      ...base, id: "h1", type: "highlighter", bbox,
+      points: [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 20, y: 0 }],
+      style: { stroke: "#FF9800", strokeWidth: 20 },
+    } as Annotation);
+    expect(stroke).toContain('d="M 0 0 Q 10 10 15 5 L 20 0"');
+    expect(stroke).toContain('stroke-opacity="0.4" stroke-linecap="round" stroke-linejoin="round"');
+
+    const image = svg({
+      ...base, id: "i1", type: "image", bbox, imageData: "data:image/png;base64,AAAA",
+      originalWidth: 1, originalHeight: 1, style: { opacity: 0.5 },
+    } as Annotation);
+    expect(image).toContain('xlink:href="data:image/png;base64,AAAA" preserveAspectRatio="none" opacity="0.5"');
+  });
+
+  it("fills redaction regions and never writes the redacted text", () => {
+    const redaction = svg({
+      ...base, id: "red1", type: "redaction", bbox, content: "kim@example.com", overlayText: "REDACTED",
+      quads: [{ x: 10, y: 20, width: 100, height: 20 }], style: { fill: "#000000" },
+    } as Annotation);
+    expect(redaction).toContain('<path d="M 10 20 L 110 20 L 110 40 L 10 40 Z" fill="#000000"/>');
+    expect(redaction).toContain(">REDACTED</tspan>");
+    expect(redaction).not.toContain("kim@example.com");
+  });
+
+  it("wraps every annotation in a group named after it", () => {
+    const rect = svg({ ...base, id: "r<1>", type: "rectangle", bbox, style: { stroke: "#000", strokeWidth: 2 } } as Annotation);
+    expect(rect).toMatch(/^<g id="r&lt;1&gt;" data-type="rectangle"><rect x="11" y="21" width="98" height="48" fill="none"/);
+  });
+});
+
+describe("pageContentToSvg", () => {
+  it("stacks background, annotations and raster layers in screen order", () => {
+    const body = pageContentToSvg({
+      width: 200,
+      height: 100,
+      backgroundHref: "data:image/png;base64,BG",
+      annotations: [{ ...base, id: "r1", type: "rectangle", bbox, style: {} } as Annotation],
+      rasters: [
+        { id: "layer1", href: "data:image/png;base64,RL", opacity: 0.8 },
+        { id: "layer2", href: "data:image/png;base64,RL2", opacity: 1, blendMode: "multiply" },
+      ],
+    });
+    const doc = svgDocument(200, 100, body);
+
+    expect(doc).toContain('xmlns:xlink="http://www.w3.org/1999/xlink" width="200" height="100" viewBox="0 0 200 100"');
+    expect(doc.indexOf('id="background"')).toBeLessThan(doc.indexOf('id="annotations"'));
+    expect(doc.indexOf('id="annotations"')).toBeLessThan(doc.indexOf('id="raster-layers"'));
+    expect(doc).toContain('opacity="0.8"');
+    expect(doc).toContain('style="mix-blend-mode:multiply"');
+    expect(doc.match(/mix-blend-mode/g)).toHaveLength(1);
+  });
+
+  it("falls back to a white page without a background image", () => {
+    const body = pageContentToSvg({ width: 50, height: 60, annotations: [] });
+    expect(body).toBe('<g id="background"><rect x="0" y="0" width="50" height="60" fill="#FFFFFF"/></g>');
+  });
+});
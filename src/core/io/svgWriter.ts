@@ -0,0 +1,606 @@
+/**
+ * SVG Writer - 주석을 편집 가능한 SVG 요소로 직렬화
+ *
+ * 편집 좌표계(좌상단 원점, 단위 = Page 단위)를 그대로 SVG 사용자 좌표로 쓴다.
+ * 도형은 path/rect/ellipse, 텍스트는 text/tspan으로 남겨 Figma/Illustrator에서 다시 편집할 수 있다.
+ * 도형/텍스트 배치는 annotationGeometry를 공유해 Canvas/PDF 출력과 일치한다.
+ */
+
+import type { Annotation, BlendMode, Point } from '../model/types';
+import type {
+  TextAnnotation,
+  HighlightAnnotation,
+  TextMarkupAnnotation,
+  RedactionAnnotation,
+  RectangleAnnotation,
+  RoundedRectAnnotation,
+  EllipseAnnotation,
+  ArrowAnnotation,
+  LineAnnotation,
+  StarAnnotation,
+  LightningAnnotation,
+  FreehandAnnotation,
+  HighlighterAnnotation,
+  ImageAnnotation,
+  BarcodeAnnotation,
+  StampAnnotation,
+  SignatureAnnotation,
+  OCRAnnotation,
+  AIAnnotation,
+  TableAnnotation,
+} from '../../types/annotation';
+import type { TextBlock, TextMeasure } from './annotationGeometry';
+import {
+  arrowHeadPoints,
+  buildEllipsePath,
+  buildLinePath,
+  buildRectPath,
+  buildSmoothPath,
+  buildTextMarkupStrokes,
+  cssFont,
+  layoutTextBlock,
+  lightningPoints,
+  redactionLabelBlocks,
+  starPoints,
+} from './annotationGeometry';
+import { redactionRegions } from '../redaction/redaction';
+import { barcodeModuleRects } from '../barcode/barcodeEncoder';
+import { annotationRotation, bboxCenter, isRotated } from '../annotations/annotationRotation';
+import { gridLinesPath, layoutTableCells, layoutTableGrid } from '../table/tableModel';
+import { stampColor, stampFrame, stampTextBlock } from '../stamps/stampAppearance';
+import { signatureStrokePaths } from '../signatures/signatureStrokes';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SvgWriteOptions {
+  /** 텍스트 줄바꿈용 폭 측정 (기본: Canvas measureText, 없으면 글자 수 근사) */
+  measureText?: TextMeasure;
+}
+
+type Attrs = Record<string, string | number | undefined | null | false>;
+
+// ============================================
+// Serialization Helpers
+// ============================================
+
+/** XML 특수 문자 이스케이프 */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** 좌표를 소수 셋째 자리까지 (파일 크기 축소) */
+function num(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** 값이 없는 속성은 생략하고 요소 문자열 생성 */
+function element(tag: string, attrs: Attrs, children?: string): string {
+  const parts = Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== null && v !== false && v !== '')
+    .map(([k, v]) => `${k}="${typeof v === 'number' ? num(v) : escapeXml(String(v))}"`);
+  const open = parts.length ? `<${tag} ${parts.join(' ')}` : `<${tag}`;
+  return children === undefined ? `${open}/>` : `${open}>${children}</${tag}>`;
+}
+
+/** 투명/없음은 'none' */
+function paint(color: string | undefined): string {
+  return !color || color === 'transparent' ? 'none' : color;
+}
+
+/** 1이 아닌 불투명도만 기록 */
+function alpha(value: number | undefined): number | undefined {
+  return value === undefined || value >= 1 ? undefined : Math.max(0, value);
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function defaultMeasure(text: string, block: TextBlock): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return text.length * block.fontSize * 0.55;
+  measureContext.font = cssFont(block);
+  return measureContext.measureText(text).width;
+}
+
+// ============================================
+// Text
+// ============================================
+
+/**
+ * 텍스트 블록 → <text> + 줄별 <tspan>
+ * 줄바꿈은 pdfVectorWriter와 같은 규칙이며 정렬은 text-anchor로 남겨 편집 후에도 유지된다.
+ */
+function textBlockSvg(block: TextBlock, options: SvgWriteOptions): string {
+  const { anchor, x, lines } = layoutTextBlock(block, options.measureText ?? defaultMeasure);
+  if (lines.length === 0) return '';
+
+  const spans = lines
+    .map((line) => element('tspan', { x, y: line.baseline }, escapeXml(line.text)))
+    .join('');
+
+  return element('text', {
+    'font-family': block.fontFamily || 'sans-serif',
+    'font-size': block.fontSize,
+    'font-weight': block.fontWeight && block.fontWeight !== 'normal' ? block.fontWeight : undefined,
+    'font-style': block.fontStyle && block.fontStyle !== 'normal' ? block.fontStyle : undefined,
+    fill: block.color || '#000000',
+    opacity: alpha(block.opacity),
+    'text-anchor': anchor === 'start' ? undefined : anchor,
+    'xml:space': 'preserve',
+  }, spans);
+}
+
+function textSvg(a: TextAnnotation, options: SvgWriteOptions): string {
+  const { bbox, style } = a;
+  const padding = 8;
+
+  const background = element('rect', {
+    x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rx: 4,
+    fill: paint(style.backgroundColor || 'rgba(255, 255, 255, 0.9)'),
+    'fill-opacity': alpha(style.backgroundOpacity),
+    // 기본 회색 테두리는 편집 UI용이므로 명시적으로 지정된 경우만 기록
+    stroke: style.borderColor,
+    'stroke-width': style.borderColor ? style.borderWidth || 1 : undefined,
+  });
+
+  return background + textBlockSvg({
+    content: a.content,
+    box: { x: bbox.x + padding, y: bbox.y + padding, width: bbox.width - padding * 2, height: bbox.height - padding * 2 },
+    fontSize: style.fontSize || 16,
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    color: style.color || '#000000',
+    opacity: style.opacity,
+    textAlign: style.textAlign,
+    verticalAlign: style.verticalAlign ?? 'middle',
+    lineHeight: 1.2,
+  }, options);
+}
+
+function ocrSvg(a: OCRAnnotation): string {
+  // 보이지 않는 텍스트 - 선택/검색용
+  const { bbox } = a;
+  return element('text', {
+    x: bbox.x, y: bbox.y + bbox.height,
+    'font-family': 'sans-serif', 'font-size': bbox.height,
+    textLength: bbox.width, lengthAdjust: 'spacingAndGlyphs', 'fill-opacity': 0,
+  }, escapeXml(a.content));
+}
+
+function aiSvg(a: AIAnnotation, options: SvgWriteOptions): string {
+  return textBlockSvg({
+    content: a.content,
+    box: a.bbox,
+    fontSize: a.style.fontSize || 12,
+    fontFamily: a.style.fontFamily,
+    color: a.style.color || '#000000',
+    opacity: a.style.opacity,
+    verticalAlign: 'top',
+    lineHeight: 1.2,
+  }, options);
+}
+
+function stampSvg(a: StampAnnotation, options: SvgWriteOptions): string {
+  const { bbox } = a;
+  if (a.imageData) {
+    // 이미지 스탬프 (직인/도장)
+    return element('image', {
+      x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height,
+      'xlink:href': a.imageData,
+      preserveAspectRatio: 'none',
+    });
+  }
+
+  // 바깥 테두리는 채움과 함께, 이중선의 안쪽 선은 따로
+  const frame = stampFrame(a);
+  const [outer, ...inner] = frame.strokes;
+  const line = {
+    stroke: stampColor(a),
+    'stroke-width': frame.strokeWidth,
+    'stroke-dasharray': frame.dashArray?.join(' '),
+  };
+  return element('path', { d: frame.outline, fill: paint(a.style.fill), ...(outer ? line : {}) })
+    + inner.map((d) => element('path', { d, fill: 'none', ...line })).join('')
+    + textBlockSvg(stampTextBlock(a), options);
+}
+
+/** 서명: 손글씨 획 또는 이미지 (자리 표시는 빈 문자열) */
+function signatureSvg(a: SignatureAnnotation): string {
+  const { bbox } = a;
+  if (a.imageData) {
+    return element('image', {
+      x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height,
+      'xlink:href': a.imageData,
+      preserveAspectRatio: 'none',
+    });
+  }
+  return signatureStrokePaths(a).map((d) => element('path', {
+    d,
+    fill: 'none',
+    stroke: a.style?.stroke || '#000000',
+    'stroke-width': a.style?.strokeWidth || 2,
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+  })).join('');
+}
+
+// ============================================
+// Markup
+// ============================================
+
+function highlightSvg(a: HighlightAnnotation): string {
+  // 텍스트 선택 하이라이트는 줄별 사각형
+  const quads = a.quads?.length ? a.quads : [a.bbox];
+  return element('path', {
+    d: quads.map((quad) => buildRectPath(quad)).join(' '),
+    fill: a.style?.fill || '#FFFF00',
+    'fill-opacity': a.opacity ?? a.style?.opacity ?? 0.3,
+  });
+}
+
+function textMarkupSvg(a: TextMarkupAnnotation): string {
+  return buildTextMarkupStrokes(a).map(({ path, width }) => element('path', {
+    d: path,
+    fill: 'none',
+    stroke: a.style?.stroke || '#E53935',
+    'stroke-width': width,
+    'stroke-opacity': alpha(a.style?.opacity),
+  })).join('');
+}
+
+function redactionSvg(a: RedactionAnnotation, options: SvgWriteOptions): string {
+  // 가림 영역은 불투명하게 채우고 대체 문구만 기록 (가려진 내용은 쓰지 않음)
+  return element('path', {
+    d: redactionRegions(a).map((region) => buildRectPath(region)).join(' '),
+    fill: a.style?.fill || '#000000',
+  }) + redactionLabelBlocks(a).map((block) => textBlockSvg(block, options)).join('');
+}
+
+function barcodeSvg(a: BarcodeAnnotation): string {
+  const { bbox, modules, style } = a;
+  const path = barcodeModuleRects(modules, bbox)
+    .map(({ x, y, width, height }) => `M${num(x)} ${num(y)}h${num(width)}v${num(height)}h${num(-width)}z`)
+    .join('');
+  return element('rect', {
+    x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height,
+    fill: paint(style.backgroundColor || '#FFFFFF'),
+  }) + element('path', { d: path, fill: style.color || '#000000', 'shape-rendering': 'crispEdges' });
+}
+
+// ============================================
+// Shapes
+// ============================================
+
+function rectangleSvg(a: RectangleAnnotation | RoundedRectAnnotation): string {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  const radius = a.cornerRadius || 0;
+  // 화면 표시와 동일하게 선 두께의 절반만큼 안쪽에 그림
+  return element('rect', {
+    x: bbox.x + sw / 2,
+    y: bbox.y + sw / 2,
+    width: Math.max(0, bbox.width - sw),
+    height: Math.max(0, bbox.height - sw),
+    rx: radius || undefined,
+    ry: radius || undefined,
+    fill: paint(a.style?.fill),
+    'fill-opacity': alpha(a.style?.opacity),
+    stroke: a.style?.stroke || '#000000',
+    'stroke-width': sw,
+    'stroke-dasharray': a.style?.strokeDasharray,
+  });
+}
+
+function ellipseSvg(a: EllipseAnnotation): string {
+  const sw = a.style?.strokeWidth || 1;
+  const { bbox } = a;
+  const cx = bbox.x + bbox.width / 2;
+  const cy = bbox.y + bbox.height / 2;
+  const rx = Math.max(0, bbox.width / 2 - sw / 2);
+  const ry = Math.max(0, bbox.height / 2 - sw / 2);
+  const sweep = a.sweepAngle ?? 360;
+  const inner = a.innerRadiusRatio ?? 0;
+  const paintAttrs = {
+    fill: paint(a.style?.fill),
+    'fill-opacity': alpha(a.style?.opacity),
+    stroke: a.style?.stroke || '#000000',
+    'stroke-width': sw,
+    'stroke-dasharray': a.style?.strokeDasharray,
+  };
+
+  // 온전한 타원은 <ellipse>로 남겨 편집 도구에서 타원으로 인식되도록 함
+  if (sweep >= 359.99 && inner <= 0) {
+    return element('ellipse', { cx, cy, rx, ry, ...paintAttrs });
+  }
+  return element('path', {
+    d: buildEllipsePath(cx, cy, rx, ry, a.startAngle ?? 0, sweep, inner),
+    'fill-rule': 'evenodd',
+    ...paintAttrs,
+  });
+}
+
+function arrowOrLineSvg(a: ArrowAnnotation | LineAnnotation): string {
+  const { startPoint: s, endPoint: e } = a;
+  const stroke = a.style?.stroke || '#000000';
+  const opacity = alpha(a.style?.opacity);
+  const cp = (a as LineAnnotation).controlPoint;
+
+  let svg = element('path', {
+    d: buildLinePath(s, e, cp),
+    fill: 'none',
+    stroke,
+    'stroke-width': a.style?.strokeWidth || 2,
+    'stroke-opacity': opacity,
+    'stroke-linecap': 'round',
+    'stroke-dasharray': a.style?.strokeDasharray,
+  });
+
+  if (a.type === 'arrow') {
+    const head = arrowHeadPoints(s, e, cp, a.arrowHeadSize ?? 10);
+    svg += element('polygon', { points: pointList(head), fill: stroke, 'fill-opacity': opacity });
+  }
+
+  return svg;
+}
+
+function pointList(points: Point[]): string {
+  return points.map((p) => `${num(p.x)},${num(p.y)}`).join(' ');
+}
+
+function starSvg(a: StarAnnotation): string {
+  const sw = a.style?.strokeWidth || 1;
+  // 이전 형식은 points에 꼭짓점 수를 저장했음
+  const legacyCount = typeof (a.points as unknown) === 'number' ? (a.points as unknown as number) : undefined;
+  const points = starPoints(a.bbox, a.numPoints ?? legacyCount ?? 5, a.innerRadius ?? 0.4, sw);
+  return element('polygon', {
+    points: pointList(points),
+    fill: paint(a.style?.fill),
+    'fill-opacity': alpha(a.style?.opacity),
+    stroke: a.style?.stroke || '#000000',
+    'stroke-width': sw,
+    'stroke-linejoin': 'round',
+    'stroke-dasharray': a.style?.strokeDasharray,
+  });
+}
+
+function lightningSvg(a: LightningAnnotation): string {
+  const points = lightningPoints(a.bbox, a.points);
+  return element('polygon', {
+    points: pointList(points),
+    fill: paint(a.style?.fill || '#FFD700'),
+    'fill-opacity': alpha(a.style?.opacity),
+    stroke: a.style?.stroke || '#000000',
+    'stroke-width': a.style?.strokeWidth || 1,
+    'stroke-linejoin': 'round',
+  });
+}
+
+function strokeSvg(a: FreehandAnnotation | HighlighterAnnotation): string {
+  const isHighlighter = a.type === 'highlighter';
+  return element('path', {
+    d: buildSmoothPath(a.points || []),
+    fill: 'none',
+    stroke: a.style?.stroke || (isHighlighter ? '#FFFF00' : '#000000'),
+    'stroke-width': a.style?.strokeWidth || (isHighlighter ? 20 : 3),
+    'stroke-opacity': alpha(a.style?.opacity ?? (isHighlighter ? 0.4 : 1)),
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+  });
+}
+
+function imageSvg(a: ImageAnnotation): string {
+  if (!a.imageData) return '';
+  const { bbox } = a;
+  return element('image', {
+    x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height,
+    'xlink:href': a.imageData,
+    preserveAspectRatio: 'none',
+    opacity: alpha(a.style?.opacity),
+  });
+}
+
+function tableSvg(a: TableAnnotation, options: SvgWriteOptions): string {
+  const { bbox, borderWidth, borderColor } = a;
+  let svg = '';
+
+  // 1. 셀 배경 + 내용 (셀별 스타일, 병합 셀은 합친 영역)
+  for (const { box, cell, text } of layoutTableCells(a)) {
+    const cs = cell.style;
+    if (paint(cs.backgroundColor) !== 'none') {
+      svg += element('rect', {
+        ...box,
+        fill: cs.backgroundColor,
+        'fill-opacity': alpha(cs.backgroundOpacity),
+      });
+    }
+    svg += textBlockSvg({
+      content: text,
+      box: { x: box.x + 4, y: box.y + 2, width: box.width - 8, height: box.height - 4 },
+      fontSize: cs.fontSize,
+      fontFamily: cs.fontFamily,
+      fontWeight: cs.fontWeight,
+      fontStyle: cs.fontStyle,
+      color: cs.color,
+      textAlign: cs.textAlign,
+      // 화면 표시와 동일하게 위쪽 정렬
+      verticalAlign: 'top',
+      lineHeight: 1.4,
+    }, options);
+  }
+
+  // 2. 격자선 (외곽선은 전체 두께, 내부선은 절반) + 셀 변별 테두리
+  const grid = layoutTableGrid(a);
+  const lineWidth = borderWidth || 0;
+  if (lineWidth > 0) {
+    if (grid.inner.length > 0) {
+      svg += element('path', { d: gridLinesPath(grid.inner, num), fill: 'none', stroke: borderColor, 'stroke-width': lineWidth * 0.5 });
+    }
+    svg += grid.outer
+      ? element('path', { d: gridLinesPath(grid.outer, num), fill: 'none', stroke: borderColor, 'stroke-width': lineWidth })
+      : element('rect', {
+        x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height,
+        fill: 'none', stroke: borderColor, 'stroke-width': lineWidth,
+      });
+  }
+  for (const border of grid.borders) {
+    svg += element('path', {
+      d: gridLinesPath(border.lines, num),
+      fill: 'none',
+      stroke: border.color,
+      'stroke-width': border.width,
+      'stroke-linecap': 'square',
+    });
+  }
+  return svg;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * 주석 하나를 SVG 조각으로 직렬화
+ * 주석마다 id와 data-type을 가진 그룹으로 감싸 편집 도구의 레이어 이름이 되도록 한다.
+ */
+export function annotationToSvg(annotation: Annotation, options: SvgWriteOptions = {}): string {
+  let body: string;
+  switch (annotation.type) {
+    case 'text':
+      body = textSvg(annotation, options);
+      break;
+    case 'highlight':
+      body = highlightSvg(annotation);
+      break;
+    case 'underline':
+    case 'squiggly':
+    case 'strikeout':
+      body = textMarkupSvg(annotation);
+      break;
+    case 'redaction':
+      body = redactionSvg(annotation, options);
+      break;
+    case 'rectangle':
+    case 'roundedRect':
+      body = rectangleSvg(annotation);
+      break;
+    case 'ellipse':
+      body = ellipseSvg(annotation);
+      break;
+    case 'arrow':
+    case 'line':
+      body = arrowOrLineSvg(annotation);
+      break;
+    case 'star':
+      body = starSvg(annotation);
+      break;
+    case 'lightning':
+      body = lightningSvg(annotation);
+      break;
+    case 'freehand':
+    case 'highlighter':
+      body = strokeSvg(annotation);
+      break;
+    case 'image':
+      body = imageSvg(annotation);
+      break;
+    case 'barcode':
+      body = barcodeSvg(annotation);
+      break;
+    case 'stamp':
+      body = stampSvg(annotation, options);
+      break;
+    case 'signature':
+      body = signatureSvg(annotation);
+      break;
+    case 'ocr':
+      body = ocrSvg(annotation);
+      break;
+    case 'ai':
+      body = aiSvg(annotation, options);
+      break;
+    case 'table':
+      body = tableSvg(annotation, options);
+      break;
+    default:
+      return '';
+  }
+  if (!body) return '';
+  return element('g', { id: annotation.id, 'data-type': annotation.type, transform: rotationTransform(annotation) }, body);
+}
+
+/** bbox 중심 기준 회전 (회전이 없으면 생략) */
+function rotationTransform(annotation: Annotation): string | undefined {
+  if (!isRotated(annotation)) return undefined;
+  const { x, y } = bboxCenter(annotation.bbox);
+  return `rotate(${num(annotationRotation(annotation))} ${num(x)} ${num(y)})`;
+}
+
+export interface SvgPageContent {
+  width: number;
+  height: number;
+  /** 페이지 배경 이미지 (data URL). 없으면 흰 배경 */
+  backgroundHref?: string | null;
+  annotations: Annotation[];
+  /** 래스터 레이어 이미지 (페이지 크기로 늘림) */
+  rasters?: { id: string; href: string; opacity: number; blendMode?: BlendMode }[];
+}
+
+/** 페이지 내용 조각 (배경 → 주석 → 래스터 레이어 순서, 화면 표시와 동일) */
+export function pageContentToSvg(content: SvgPageContent, options: SvgWriteOptions = {}): string {
+  const { width, height } = content;
+  const background = content.backgroundHref
+    ? element('image', { x: 0, y: 0, width, height, 'xlink:href': content.backgroundHref, preserveAspectRatio: 'none' })
+    : element('rect', { x: 0, y: 0, width, height, fill: '#FFFFFF' });
+
+  const annotations = content.annotations.map((a) => annotationToSvg(a, options)).join('');
+  const rasters = (content.rasters ?? []).map((raster) => element('image', {
+    id: raster.id, x: 0, y: 0, width, height,
+    'xlink:href': raster.href, preserveAspectRatio: 'none', opacity: alpha(raster.opacity),
+    style: raster.blendMode && raster.blendMode !== 'normal' ? `mix-blend-mode:${raster.blendMode}` : undefined,
+  })).join('');
+
+  return element('g', { id: 'background' }, background)
+    + (annotations ? element('g', { id: 'annotations' }, annotations) : '')
+    + (rasters ? element('g', { id: 'raster-layers' }, rasters) : '');
+}
+
+/**
+ * 자르기/크기 변경된 페이지: 내용을 용지 좌표로 옮기고 보이는 영역으로 자름
+ * clip은 내용 좌표 (Page.cropBox), transform은 내용 → 용지 변환
+ */
+export function framePageSvg(
+  body: string,
+  sheet: { width: number; height: number },
+  transform: { scale: number; x: number; y: number },
+  clip: { x: number; y: number; width: number; height: number }
+): string {
+  const clipPath = element('clipPath', { id: 'page-crop' },
+    element('rect', { x: clip.x, y: clip.y, width: clip.width, height: clip.height }));
+  return element('rect', { x: 0, y: 0, width: sheet.width, height: sheet.height, fill: '#FFFFFF' })
+    + element('defs', {}, clipPath)
+    + element('g', {
+      id: 'page-frame',
+      transform: `matrix(${num(transform.scale)} 0 0 ${num(transform.scale)} ${num(transform.x)} ${num(transform.y)})`,
+      'clip-path': 'url(#page-crop)',
+    }, body);
+}
+
+/** 독립 SVG 문서로 감싸기 */
+export function svgDocument(width: number, height: number, body: string): string {
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + element('svg', {
+      xmlns: 'http://www.w3.org/2000/svg',
+      'xmlns:xlink': 'http://www.w3.org/1999/xlink',
+      width, height,
+      viewBox: `0 0 ${num(width)} ${num(height)}`,
+    }, body);
+}
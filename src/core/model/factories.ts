@@ -9,9 +9,12 @@ import type {
   Annotation,
   TextAnnotation,
   HighlightAnnotation,
+  RedactionAnnotation,
   RectAnnotation,
   ImageAnnotation,
   RasterLayer,
+  RasterOperation,
+  Point,
   BBox,
   AnnotationStyle,
   HistoryPatch,
@@ -136,6 +139,22 @@ export function createHighlightAnnotation(params: {
   };
 }
 
+/** 가림 영역 (quads가 있으면 bbox는 그 합집합) */
+export function createRedactionAnnotation(params: {
+  pageId: string;
+  bbox: BBox;
+  quads?: BBox[];
+  content?: string;
+}): RedactionAnnotation {
+  return {
+    ...createBaseAnnotation({ type: 'redaction', pageId: params.pageId, bbox: params.bbox }),
+    type: 'redaction',
+    quads: params.quads,
+    content: params.content,
+    style: { fill: '#000000' },
+  };
+}
+
 export function createRectAnnotation(params: {
   pageId: string;
   bbox: BBox;
@@ -193,6 +212,23 @@ export function createRasterLayer(params: {
   };
 }
 
+export function createRasterOperation(params: {
+  tool: RasterOperation['tool'];
+  points: Point[];
+  pressures?: number[];
+}): RasterOperation {
+  const now = Date.now();
+  const kinds = { brush: 'stroke', eraser: 'erase', blur: 'blur' } as const;
+  return {
+    id: `rop-${now}-${Math.random().toString(36).slice(2, 9)}`,
+    kind: kinds[params.tool.type],
+    tool: { ...params.tool },
+    points: params.points,
+    ...(params.pressures ? { pressures: params.pressures } : {}),
+    timestamp: now,
+  };
+}
+
 // ============================================
 // History Factories
 // ============================================
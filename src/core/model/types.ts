@@ -51,6 +51,36 @@ export interface Page {
   imageUrl?: string;
   /** Page content type: 'pdf' | 'blank' | 'text' | 'markdown' | 'image' */
   contentType?: 'pdf' | 'blank' | 'text' | 'markdown' | 'image';
+  /** Visible region in page coordinates (crop); annotations keep their uncropped coordinates */
+  cropBox?: BBox;
+  /** Output sheet size and placement of the visible region (resize) */
+  frame?: PageFrame;
+  /** Ruler guides dragged onto the page (editor only, not exported) */
+  guides?: PageGuide[];
+  /** Fillable form field widgets read from the source PDF (AcroForm) */
+  formFields?: FormField[];
+}
+
+/**
+ * Ruler guide in page coordinates
+ * - axis 'x': vertical line at x = position
+ * - axis 'y': horizontal line at y = position
+ */
+export interface PageGuide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
+}
+
+export interface PageFrame {
+  /** Sheet size (pt) */
+  width: number;
+  height: number;
+  /** Scale applied to the visible region */
+  scale: number;
+  /** Top-left of the scaled visible region on the sheet */
+  x: number;
+  y: number;
 }
 
 export interface PdfPageRef {
@@ -58,6 +88,8 @@ export interface PdfPageRef {
   sourceIndex: number; // page number in original PDF (1-based)
   /** Source filename when appended from a different file */
   appendedFrom?: string;
+  /** Original PDF annotations were imported into layers.annotations (stripped from the source on export) */
+  annotationsImported?: boolean;
 }
 
 export interface ThumbnailRef {
@@ -67,6 +99,63 @@ export interface ThumbnailRef {
   height: number;
 }
 
+// ============================================
+// Form Fields (AcroForm)
+// ============================================
+
+/** 양식 필드 종류 (date는 날짜 서식(AFDate)이 지정된 텍스트 필드) */
+export type FormFieldType = 'text' | 'date' | 'checkbox' | 'radio' | 'combo' | 'list';
+
+/**
+ * 양식 필드 값
+ * - text/date/combo: 문자열 (date는 필드의 날짜 서식 그대로)
+ * - checkbox/radio: 켜진 위젯의 내보내기 값, 꺼짐은 'Off'
+ * - list: 선택한 값 목록
+ */
+export type FormFieldValue = string | string[];
+
+export interface FormFieldOption {
+  /** 내보내기 값 (필드 값으로 저장됨) */
+  value: string;
+  /** 목록에 보이는 글자 */
+  label: string;
+}
+
+/**
+ * 페이지에 놓인 양식 필드 위젯
+ * 이름이 같은 위젯(라디오 단추 묶음, 여러 페이지에 반복된 필드)은 값을 공유한다.
+ */
+export interface FormField {
+  /** 원본 위젯의 pdf.js 주석 id (`${num}R`) */
+  id: string;
+  /** 전체 필드 이름 (부모.자식) */
+  name: string;
+  type: FormFieldType;
+  /** 위젯 영역 (편집 좌표) */
+  rect: BBox;
+  value: FormFieldValue;
+  /** 초기화할 때의 값 (/DV) */
+  defaultValue: FormFieldValue;
+  /** checkbox/radio: 이 위젯이 켜졌을 때의 값 */
+  exportValue?: string;
+  /** combo/list 선택지 */
+  options?: FormFieldOption[];
+  readOnly?: boolean;
+  required?: boolean;
+  multiline?: boolean;
+  /** 최대 글자 수 (0 또는 없음 = 제한 없음) */
+  maxLength?: number;
+  /** list: 여러 개 선택 가능 */
+  multiSelect?: boolean;
+  /** combo: 목록에 없는 값도 입력 가능 */
+  editable?: boolean;
+  /** 글자 크기 (pt, 0 = 자동) */
+  fontSize?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  /** date: 필드의 날짜 서식 (예: mm/dd/yyyy) */
+  dateFormat?: string;
+}
+
 // ============================================
 // Layer System (Vector + Raster)
 // ============================================
@@ -90,13 +179,23 @@ import type {
   AnnotationStyle,
   TextAnnotation,
   HighlightAnnotation,
+  TextMarkupAnnotation,
+  TextMarkupType,
+  RedactionAnnotation,
   EllipseAnnotation,
   RectangleAnnotation,
   ArrowAnnotation,
   StarAnnotation,
   LightningAnnotation,
   ImageAnnotation,
+  BarcodeAnnotation,
+  BarcodeFormat,
   StampAnnotation,
+  SignatureAnnotation,
+  SignatureKind,
+  CommentAnnotation,
+  CommentMessage,
+  CommentStatus,
   OCRAnnotation,
   AIAnnotation
 } from '../../types/annotation';
@@ -108,17 +207,29 @@ export type {
   AnnotationStyle,
   TextAnnotation,
   HighlightAnnotation,
+  TextMarkupAnnotation,
+  TextMarkupType,
+  RedactionAnnotation,
   EllipseAnnotation,
   RectangleAnnotation,
   ArrowAnnotation,
   StarAnnotation,
   LightningAnnotation,
   ImageAnnotation,
+  BarcodeAnnotation,
+  BarcodeFormat,
   StampAnnotation,
+  SignatureAnnotation,
+  SignatureKind,
+  CommentAnnotation,
+  CommentMessage,
+  CommentStatus,
   OCRAnnotation,
   AIAnnotation
 };
 
+import type { PdfSigningOptions } from '../signing/pdfSigner';
+
 // Point 타입 (단일 정의 - 중복 제거)
 export interface Point {
   x: number;
@@ -167,6 +278,8 @@ export interface RasterOperation {
   kind: 'stroke' | 'erase' | 'blur' | 'fill';
   tool: BrushTool | EraseTool | BlurTool;
   points: Point[];
+  /** 점별 펜 압력 (0-1, 펜 입력일 때만) */
+  pressures?: number[];
   timestamp: number;
 }
 
@@ -207,7 +320,7 @@ export interface Transform {
 export interface HistoryState {
   patches: HistoryPatch[];
   currentIndex: number;
-  maxSize: number; // default 50
+  memoryBudget: number; // bytes (HISTORY_MEMORY_BUDGET)
 }
 
 // Note: We use fast-json-patch's Operation type directly
@@ -228,7 +341,11 @@ export type ToolType =
   | 'select'
   | 'pan'
   | 'text'
-  | 'highlight'
+  | 'highlight' // 텍스트 선택 하이라이트 (텍스트가 없으면 사각형)
+  | 'underline' // 텍스트 선택 밑줄
+  | 'squiggly' // 텍스트 선택 물결 밑줄
+  | 'strikeout' // 텍스트 선택 취소선
+  | 'redaction' // 가림 (텍스트 선택 또는 사각형)
   | 'highlighter' // 형광펜 자유 드로잉
   | 'rectangle' // 'rect'에서 'rectangle'으로 변경
   | 'roundedRect' // 둥근 사각형
@@ -239,12 +356,15 @@ export type ToolType =
   | 'star'
   | 'lightning'
   | 'brush'
+  | 'paint' // 래스터 브러시
   | 'eraser'
   | 'zoom'
   | 'crop'
   | 'copy'
   | 'sticker'
-  | 'blur';
+  | 'blur'
+  | 'comment' // 검토 댓글 (클릭한 점 또는 주석에 붙임)
+  | 'signature'; // 서명 (클릭한 점에 놓거나 자리 표시를 채움)
 
 export interface SelectionState {
   selectedPageId: string | null;
@@ -277,15 +397,40 @@ export interface AnnotationStyleOptions {
 // ============================================
 
 export interface ExportOptions {
-  format: 'pdf' | 'png' | 'jpeg' | 'tiff';
+  format: 'pdf' | 'png' | 'jpeg' | 'svg' | 'tiff';
   quality?: number; // 0-1 for lossy formats
   dpi?: number; // default 300
   pages?: number[] | 'all' | 'current'; // page indices or 'all'
   includeAnnotations?: boolean;
+  /** 숨긴 주석(Annotation.hidden)도 내보내기 (기본: 제외) */
+  includeHiddenAnnotations?: boolean;
+  /** 검토 댓글을 PDF /Text 주석으로 기록 (PDF 전용, 기본: 포함) */
+  includeComments?: boolean;
   includeRasterLayers?: boolean;
   flattenLayers?: boolean; // merge all layers
+  /**
+   * PDF 내보내기 방식
+   * - 'vector' (기본): 원본 페이지 복사 + 주석을 벡터로 기록 (텍스트 선택 유지)
+   * - 'raster': 모든 페이지를 이미지로 렌더링
+   * - 'annotations': 원본 페이지 복사 + 주석을 표준 /Annot 객체로 기록 (다른 뷰어에서 편집 가능)
+   */
+  pdfMode?: 'vector' | 'raster' | 'annotations';
+  /** 인쇄용 모아찍기 (PDF 전용, 없으면 한 페이지씩) */
+  imposition?: ImpositionMode;
+  /** 양식 필드를 입력한 값 그대로 페이지 내용으로 고정 (PDF 전용, 기본: 입력 가능한 필드로 유지) */
+  flattenFormFields?: boolean;
+  /** PKCS#12 인증서로 전자서명 (PDF 전용, 모아찍기 뒤 마지막 단계) */
+  signing?: PdfSigningOptions;
 }
 
+/**
+ * 모아찍기 방식
+ * - '2up': 가로 용지 한 면에 2페이지
+ * - '4up': 세로 용지 한 면에 2×2 페이지
+ * - 'booklet': 반으로 접어 묶는 소책자 순서 (가로 용지 앞/뒷면에 2페이지씩)
+ */
+export type ImpositionMode = '2up' | '4up' | 'booklet';
+
 // ============================================
 // View State
 // ============================================
@@ -298,5 +443,13 @@ export interface ViewState {
   showGrid?: boolean;
   showRulers?: boolean;
   snapToGrid?: boolean;
+  /** Snap to page edges/centre, other annotations and guides */
+  snapToObjects?: boolean;
+  /** Grid spacing (pt) */
+  gridSize?: number;
+  rulerUnit?: RulerUnit;
 }
 
+/** Ruler unit - px is CSS pixels at 96 dpi */
+export type RulerUnit = 'px' | 'mm' | 'pt';
+
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  canRecognizePage,
+  collectWords,
+  isScannedPageText,
+  toLanguageString,
+  wordsToAnnotations,
+} from "./ocrLayer";
+import type { OcrWord } from "./ocrLayer";
+import type { Page } from "../model/types";
+
+function word(text: string, confidence: number, x0: number, y0: number, x1: number, y1: number): OcrWord {
+  return { text, confidence, bbox: { x0, y0, x1, y1 } };
+}
+
+function page(overrides: Partial<Page>): Page {
+  return {
+    id: "p1", docId: "d1", index: 0, width: 600, height: 800, rotation: 0,
+    layers: { rasters: [], annotations: [] },
+    ...overrides,
+  };
+}
+
+describe("toLanguageString", () => {
+  it("joins codes with + and drops duplicates and blanks", () => {
+    expect(toLanguageString(["kor", "eng", "kor", " "])).toBe("kor+eng");
+    expect(toLanguageString([])).toBe("");
+  });
+});
+
+describe("collectWords", () => {
+  it("flattens blocks in reading order", () => {
+    const blocks = [
+      { paragraphs: [{ lines: [{ words: [word("a", 90, 0, 0, 1, 1)] }, { words: [word("b", 90, 0, 0, 1, 1)] }] }] },
+      { paragraphs: [{ lines: [{ words: [word("c", 90, 0, 0, 1, 1)] }] }] },
+    ];
+    expect(collectWords(blocks).map((w) => w.text)).toEqual(["a", "b", "c"]);
+    expect(collectWords(null)).toEqual([]);
+  });
+});
+
+describe("wordsToAnnotations", () => {
+  it("maps pixel boxes back to editor coordinates", () => {
+    const [annotation] = wordsToAnnotations([word(" 안녕 ", 87.25, 100, 40, 180, 64)], {
+      pageId: "p1", scale: 4, language: "kor+eng", now: 5,
+    });
+    expect(annotation).toMatchObject({
+      type: "ocr",
+      pageId: "p1",
+      content: "안녕",
+      confidence: 87.3,
+      language: "kor+eng",
+      bbox: { x: 25, y: 10, width: 20, height: 6 },
+      style: { fontSize: 6 },
+      createdAt: 5,
+    });
+    expect(annotation.id).toMatch(/^annotation_/);
+  });
+
+  it("drops blank, empty and low-confidence words", () => {
+    const annotations = wordsToAnnotations(
+      [word("ok", 80, 0, 0, 10, 10), word("  ", 99, 0, 0, 10, 10), word("~", 12, 0, 0, 10, 10), word("x", 90, 5, 5, 5, 9)],
+      { pageId: "p1", scale: 1, language: "eng" }
+    );
+    expect(annotations.map((a) => a.content)).toEqual(["ok"]);
+  });
+});
+
+describe("page support", () => {
+  it("accepts image and PDF pages only", () => {
+    expect(canRecognizePage(page({ contentType: "image", imageUrl: "data:image/png;base64," }))).toBe(true);
+    expect(canRecognizePage(page({ pdfRef: { sourceIndex: 1 } }))).toBe(true);
+    expect(canRecognizePage(page({ contentType: "blank" }))).toBe(false);
+    expect(canRecognizePage(page({ pdfRef: { sourceIndex: 1 }, deleted: true }))).toBe(false);
+  });
+
+  it("treats PDF pages without text as scanned", () => {
+    expect(isScannedPageText({ text: " \n", items: [], offsets: [] })).toBe(true);
+    expect(isScannedPageText({ text: "Hello", items: [], offsets: [] })).toBe(false);
+  });
+
+});
@@ -0,0 +1,146 @@
+/**
+ * OCR Layer - tesseract 인식 결과 → OCRAnnotation 변환
+ *
+ * 인식은 페이지를 래스터화한 이미지(픽셀 좌표)에서 이루어지므로
+ * 단어 사각형을 렌더링 배율로 나눠 편집 좌표로 되돌린다.
+ * 단어마다 OCRAnnotation 하나를 만들고, PDF 내보내기에서는
+ * 보이지 않는 텍스트(렌더링 모드 3)로 기록되어 검색/선택이 가능해진다.
+ */
+
+import type { BBox, Page } from '../model/types';
+import type { OCRAnnotation } from '../../types/annotation';
+import type { PdfPageText } from '../search/textSearch';
+
+// ============================================
+// Types
+// ============================================
+
+/** tesseract 단어 결과 (Tesseract.Word의 필요한 부분) */
+export interface OcrWord {
+  text: string;
+  /** 0-100 */
+  confidence: number;
+  /** 이미지 픽셀 좌표 */
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+/** tesseract 블록 결과 (blocks → paragraphs → lines → words) */
+export interface OcrBlock {
+  paragraphs: { lines: { words: OcrWord[] }[] }[];
+}
+
+export interface OcrAnnotationOptions {
+  pageId: string;
+  /** 이미지 픽셀 / 편집 좌표 단위 */
+  scale: number;
+  /** tesseract 언어 문자열 (예: 'kor+eng') */
+  language: string;
+  /** 이 신뢰도(0-100) 미만의 단어는 버림 */
+  minConfidence?: number;
+  now?: number;
+}
+
+// ============================================
+// Languages
+// ============================================
+
+/** 언어 선택기에 표시하는 tesseract 언어 코드 */
+export const OCR_LANGUAGE_CODES = ['kor', 'eng', 'jpn', 'chi_sim', 'chi_tra'] as const;
+
+export const DEFAULT_OCR_LANGUAGES: string[] = ['kor', 'eng'];
+
+/** 기본 최소 신뢰도 (잡음 인식 제거) */
+export const DEFAULT_MIN_CONFIDENCE = 30;
+
+/** 언어 코드 목록 → tesseract 언어 문자열 (중복 제거, 순서 유지) */
+export function toLanguageString(codes: string[]): string {
+  return [...new Set(codes.map((c) => c.trim()).filter(Boolean))].join('+');
+}
+
+// ============================================
+// Page Support
+// ============================================
+
+/** OCR 대상이 될 수 있는 페이지 (이미지 페이지, PDF 페이지) */
+export function canRecognizePage(page: Page): boolean {
+  if (page.deleted) return false;
+  if (page.contentType === 'image') return !!page.imageUrl;
+  return !!page.pdfRef;
+}
+
+/** 텍스트 레이어가 없는 PDF 페이지 = 스캔 페이지 */
+export function isScannedPageText(pageText: PdfPageText): boolean {
+  return pageText.text.trim().length === 0;
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/** 블록 트리 → 읽기 순서의 단어 목록 */
+export function collectWords(blocks: OcrBlock[] | null | undefined): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const block of blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        words.push(...line.words);
+      }
+    }
+  }
+  return words;
+}
+
+/** 픽셀 사각형 → 편집 좌표 */
+export function wordBBox(word: OcrWord, scale: number): BBox {
+  const s = scale > 0 ? scale : 1;
+  return {
+    x: word.bbox.x0 / s,
+    y: word.bbox.y0 / s,
+    width: (word.bbox.x1 - word.bbox.x0) / s,
+    height: (word.bbox.y1 - word.bbox.y0) / s,
+  };
+}
+
+function generateOcrId(): string {
+  return `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 단어 목록 → OCRAnnotation 목록
+ * 빈 단어, 크기가 없는 단어, 신뢰도가 낮은 단어는 제외된다.
+ */
+export function wordsToAnnotations(words: OcrWord[], options: OcrAnnotationOptions): OCRAnnotation[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const now = options.now ?? Date.now();
+  const annotations: OCRAnnotation[] = [];
+
+  for (const word of words) {
+    const content = word.text.trim();
+    if (!content || word.confidence < minConfidence) continue;
+
+    const bbox = wordBBox(word, options.scale);
+    if (bbox.width <= 0 || bbox.height <= 0) continue;
+
+    annotations.push({
+      id: generateOcrId(),
+      type: 'ocr',
+      pageId: options.pageId,
+      bbox,
+      content,
+      confidence: Math.round(word.confidence * 10) / 10,
+      language: options.language,
+      createdAt: now,
+      modifiedAt: now,
+      style: { fontSize: bbox.height, fontFamily: 'sans-serif' },
+    });
+  }
+
+  return annotations;
+}
+
+/** 신뢰도 → 표시 색상 (낮을수록 주황/빨강) */
+export function confidenceColor(confidence: number): string {
+  if (confidence >= 80) return '#16A34A';
+  if (confidence >= 60) return '#F59E0B';
+  return '#DC2626';
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { createPage } from "../model/factories";
+import type { Annotation, RasterLayer } from "../model/types";
+import {
+  PAGE_SIZES,
+  clampCropBox,
+  computePageFrame,
+  orientSize,
+  pageContentTransform,
+  pageOutputSize,
+  pageVisibleRect,
+  splitBox,
+  splitPage,
+} from "./pageGeometry";
+
+const page = () => createPage({ docId: "d1", index: 0, width: 600, height: 800 });
+
+function annotation(id: string, x: number, y: number, groupId?: string): Annotation {
+  return {
+    id,
+    pageId: "p1",
+    type: "redaction",
+    bbox: { x, y, width: 20, height: 20 },
+    createdAt: 0,
+    modifiedAt: 0,
+    style: { fill: "#000000" },
+    groupId,
+  };
+}
+
+describe("page transform", () => {
+  it("is the identity for an unedited page", () => {
+    const p = page();
+    expect(pageOutputSize(p)).toEqual({ width: 600, height: 800 });
+    expect(pageContentTransform(p)).toEqual({ scale: 1, x: 0, y: 0 });
+  });
+
+  it("moves the crop box to the sheet origin", () => {
+    const p = { ...page(), cropBox: { x: 100, y: 50, width: 200, height: 300 } };
+    expect(pageOutputSize(p)).toEqual({ width: 200, height: 300 });
+    expect(pageContentTransform(p)).toEqual({ scale: 1, x: -100, y: -50 });
+    expect(pageVisibleRect(p)).toEqual({ x: 0, y: 0, width: 200, height: 300 });
+  });
+
+  it("scales and places the crop box on the frame", () => {
+    const p = {
+      ...page(),
+      cropBox: { x: 100, y: 50, width: 200, height: 300 },
+      frame: { width: 500, height: 700, scale: 2, x: 50, y: 20 },
+    };
+    expect(pageOutputSize(p)).toEqual({ width: 500, height: 700 });
+    expect(pageContentTransform(p)).toEqual({ scale: 2, x: -150, y: -80 });
+    expect(pageVisibleRect(p)).toEqual({ x: 50, y: 20, width: 400, height: 600 });
+  });
+});
+
+describe("clampCropBox", () => {
+  it("normalizes negative sizes and clamps to the page", () => {
+    expect(clampCropBox({ x: 300, y: 900, width: -400, height: -200 }, { width: 600, height: 800 })).toEqual({
+      x: 0,
+      y: 700,
+      width: 300,
+      height: 100,
+    });
+  });
+
+  it("rejects boxes smaller than the minimum", () => {
+    expect(clampCropBox({ x: 10, y: 10, width: 5, height: 100 }, { width: 600, height: 800 })).toBeNull();
+    expect(clampCropBox({ x: 700, y: 10, width: 50, height: 100 }, { width: 600, height: 800 })).toBeNull();
+  });
+});
+
+describe("resize", () => {
+  it("orients the sheet", () => {
+    expect(orientSize(PAGE_SIZES.a4, "landscape", { width: 1, height: 2 })).toEqual({ width: 841.89, height: 595.28 });
+    expect(orientSize(PAGE_SIZES.a4, "auto", { width: 2, height: 1 })).toEqual({ width: 841.89, height: 595.28 });
+    expect(orientSize(PAGE_SIZES.a4, "auto", { width: 1, height: 2 })).toEqual(PAGE_SIZES.a4);
+  });
+
+  it("fits the content and centers it", () => {
+    expect(computePageFrame({ width: 300, height: 300 }, { width: 600, height: 800 }, "fit", "center")).toEqual({
+      width: 600,
+      height: 800,
+      scale: 2,
+      x: 0,
+      y: 100,
+    });
+  });
+
+  it("keeps the actual size at the anchor", () => {
+    const sheet = { width: 600, height: 800 };
+    const content = { width: 200, height: 100 };
+    expect(computePageFrame(content, sheet, "actual", "top-left")).toMatchObject({ scale: 1, x: 0, y: 0 });
+    expect(computePageFrame(content, sheet, "actual", "bottom-right")).toMatchObject({ scale: 1, x: 400, y: 700 });
+    expect(computePageFrame(content, sheet, "actual", "top")).toMatchObject({ scale: 1, x: 200, y: 0 });
+  });
+});
+
+describe("split", () => {
+  it("tiles row by row", () => {
+    expect(splitBox({ x: 0, y: 0, width: 600, height: 800 }, 2, 2)).toEqual([
+      { x: 0, y: 0, width: 300, height: 400 },
+      { x: 300, y: 0, width: 300, height: 400 },
+      { x: 0, y: 400, width: 300, height: 400 },
+      { x: 300, y: 400, width: 300, height: 400 },
+    ]);
+  });
+
+  it("keeps the original page as the first tile and clones the rest", () => {
+    const raster: RasterLayer = {
+      id: "r1",
+      pageId: "",
+      kind: "freedraw",
+      visible: true,
+      opacity: 1,
+      operations: [],
+      createdAt: 0,
+      modifiedAt: 0,
+    };
+    const original = {
+      ...page(),
+      frame: { width: 600, height: 800, scale: 1, x: 0, y: 0 },
+    };
+    original.layers.rasters = [{ ...raster, pageId: original.id }];
+    const annotations = [annotation("a1", 10, 10, "g1"), annotation("a2", 400, 10), annotation("a3", 290, 10)];
+
+    const result = splitPage(original, annotations, "vertical");
+    const [left, right] = result.pages;
+
+    expect(left.id).toBe(original.id);
+    expect(left.cropBox).toEqual({ x: 0, y: 0, width: 300, height: 800 });
+    expect(left.frame).toBeUndefined();
+    expect(right.id).not.toBe(original.id);
+    expect(right.cropBox).toEqual({ x: 300, y: 0, width: 300, height: 800 });
+    expect(right.layers.rasters).toEqual([expect.objectContaining({ id: "r1-split1", pageId: right.id })]);
+
+    // a2와 경계에 걸친 a3만 오른쪽 페이지로 복제
+    expect(result.annotations.map((a) => a.pageId)).toEqual([right.id, right.id]);
+    expect(result.annotations.map((a) => a.bbox.x)).toEqual([400, 290]);
+    expect(result.annotations.every((a) => !["a2", "a3"].includes(a.id))).toBe(true);
+  });
+
+  it("splits the visible region of a cropped page", () => {
+    const cropped = { ...page(), cropBox: { x: 100, y: 100, width: 400, height: 200 } };
+    const [top, bottom] = splitPage(cropped, [], "horizontal").pages;
+    expect(top.cropBox).toEqual({ x: 100, y: 100, width: 400, height: 100 });
+    expect(bottom.cropBox).toEqual({ x: 100, y: 200, width: 400, height: 100 });
+  });
+
+  it("gives cloned groups a per-page group id", () => {
+    const result = splitPage(page(), [annotation("a1", 290, 10, "g1"), annotation("a2", 310, 10, "g1")], "vertical");
+    expect(result.annotations.map((a) => a.groupId)).toEqual(["g1-split1", "g1-split1"]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Page Geometry - 페이지 자르기/크기 변경/나누기 계산
+ *
+ * 페이지 내용(PDF, 주석, 래스터 레이어)은 항상 원래 페이지 좌표(width × height)에 있고,
+ * cropBox는 그중 보이는 영역, frame은 보이는 영역을 놓을 용지 크기와 배치다.
+ * 화면과 내보내기는 pageContentTransform으로 내용 좌표를 용지 좌표로 옮긴다.
+ */
+
+import type { Annotation, BBox, Page, PageFrame } from '../model/types';
+import { createPage } from '../model/factories';
+
+// ============================================
+// Types
+// ============================================
+
+export type PageSizeName = 'a4' | 'letter' | 'a3';
+
+export type PageOrientation = 'portrait' | 'landscape' | 'auto';
+
+/** 용지보다 작은 내용을 붙일 위치 */
+export type PageAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * 크기 변경 시 내용 배율
+ * - 'fit': 용지 안에 맞게 확대/축소
+ * - 'actual': 원래 크기 유지 (넘치는 부분은 잘림)
+ */
+export type PageContentFit = 'fit' | 'actual';
+
+export type PageSplitMode = 'vertical' | 'horizontal' | 'quarters';
+
+/** 내용 좌표 → 용지 좌표 (out = scale * p + (x, y)) */
+export interface PageTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** 표준 용지 크기 (pt, 세로 방향) */
+export const PAGE_SIZES: Record<PageSizeName, Size> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+  a3: { width: 841.89, height: 1190.55 },
+};
+
+/** 자르기 영역 최소 크기 (pt) */
+export const MIN_CROP_SIZE = 10;
+
+/** 나누기 방식별 [열, 행] */
+export const SPLIT_GRID: Record<PageSplitMode, [number, number]> = {
+  vertical: [2, 1],
+  horizontal: [1, 2],
+  quarters: [2, 2],
+};
+
+const ANCHOR_FACTORS: Record<PageAnchor, [number, number]> = {
+  'top-left': [0, 0], top: [0.5, 0], 'top-right': [1, 0],
+  left: [0, 0.5], center: [0.5, 0.5], right: [1, 0.5],
+  'bottom-left': [0, 1], bottom: [0.5, 1], 'bottom-right': [1, 1],
+};
+
+// ============================================
+// Queries
+// ============================================
+
+type GeometryPage = Pick<Page, 'width' | 'height' | 'cropBox' | 'frame'>;
+
+/** 자르기/크기 변경이 적용된 페이지인지 */
+export function isPageGeometryEdited(page: Pick<Page, 'cropBox' | 'frame'>): boolean {
+  return !!page.cropBox || !!page.frame;
+}
+
+/** 보이는 영역 (내용 좌표) */
+export function pageVisibleBox(page: GeometryPage): BBox {
+  return page.cropBox ?? { x: 0, y: 0, width: page.width, height: page.height };
+}
+
+/** 화면/내보내기에서의 페이지 크기 */
+export function pageOutputSize(page: GeometryPage): Size {
+  if (page.frame) return { width: page.frame.width, height: page.frame.height };
+  const box = pageVisibleBox(page);
+  return { width: box.width, height: box.height };
+}
+
+/** 내용 좌표 → 용지 좌표 변환 */
+export function pageContentTransform(page: GeometryPage): PageTransform {
+  const box = pageVisibleBox(page);
+  const { scale, x, y } = page.frame ?? { scale: 1, x: 0, y: 0 };
+  return { scale, x: x - scale * box.x, y: y - scale * box.y };
+}
+
+/** 보이는 영역이 놓이는 용지 위 사각형 */
+export function pageVisibleRect(page: GeometryPage): BBox {
+  const box = pageVisibleBox(page);
+  if (!page.frame) return { x: 0, y: 0, width: box.width, height: box.height };
+  const { scale, x, y } = page.frame;
+  return { x, y, width: box.width * scale, height: box.height * scale };
+}
+
+// ============================================
+// Crop / Resize / Split
+// ============================================
+
+/**
+ * 자르기 영역 정규화 (음수 크기 뒤집기, 페이지 안으로 제한)
+ * @returns 너무 작으면 null
+ */
+export function clampCropBox(box: BBox, page: Size): BBox | null {
+  const left = Math.max(0, Math.min(box.x, box.x + box.width));
+  const top = Math.max(0, Math.min(box.y, box.y + box.height));
+  const right = Math.min(page.width, Math.max(box.x, box.x + box.width));
+  const bottom = Math.min(page.height, Math.max(box.y, box.y + box.height));
+  if (right - left < MIN_CROP_SIZE || bottom - top < MIN_CROP_SIZE) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/** 용지 방향 적용 ('auto'는 내용과 같은 방향) */
+export function orientSize(size: Size, orientation: PageOrientation, content: Size): Size {
+  const landscape = orientation === 'auto' ? content.width > content.height : orientation === 'landscape';
+  const long = Math.max(size.width, size.height);
+  const short = Math.min(size.width, size.height);
+  return landscape ? { width: long, height: short } : { width: short, height: long };
+}
+
+/** 내용(보이는 영역)을 용지에 배치 */
+export function computePageFrame(content: Size, sheet: Size, fit: PageContentFit, anchor: PageAnchor): PageFrame {
+  const scale = fit === 'fit' ? Math.min(sheet.width / content.width, sheet.height / content.height) : 1;
+  const [ax, ay] = ANCHOR_FACTORS[anchor];
+  return {
+    width: sheet.width,
+    height: sheet.height,
+    scale,
+    x: (sheet.width - content.width * scale) * ax,
+    y: (sheet.height - content.height * scale) * ay,
+  };
+}
+
+/** 영역을 cols × rows 타일로 (행 우선) */
+export function splitBox(box: BBox, cols: number, rows: number): BBox[] {
+  const width = box.width / cols;
+  const height = box.height / rows;
+  const tiles: BBox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({ x: box.x + col * width, y: box.y + row * height, width, height });
+    }
+  }
+  return tiles;
+}
+
+function intersects(a: BBox, b: BBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export interface PageSplitResult {
+  /** 첫 타일은 원래 페이지(id 유지), 나머지는 새 페이지 */
+  pages: Page[];
+  /** 새 페이지로 복제한 주석 (타일에 걸친 것만) */
+  annotations: Annotation[];
+}
+
+/**
+ * 페이지를 타일로 나누기
+ * 모든 타일은 같은 원본을 가리키고 cropBox만 다르다. 크기 변경(frame)은 해제된다.
+ */
+export function splitPage(page: Page, annotations: Annotation[], mode: PageSplitMode): PageSplitResult {
+  const [cols, rows] = SPLIT_GRID[mode];
+  const tiles = splitBox(pageVisibleBox(page), cols, rows);
+  const pages: Page[] = [];
+  const clones: Annotation[] = [];
+
+  tiles.forEach((tile, i) => {
+    if (i === 0) {
+      pages.push({ ...page, cropBox: tile, frame: undefined });
+      return;
+    }
+
+    const id = createPage({ docId: page.docId, index: page.index, width: page.width, height: page.height }).id;
+    pages.push({
+      ...page,
+      id,
+      cropBox: tile,
+      frame: undefined,
+      thumbnail: undefined,
+      layers: {
+        annotations: [],
+        rasters: page.layers.rasters.map((layer) => ({ ...layer, id: `${layer.id}-split${i}`, pageId: id })),
+      },
+    });
+
+    for (const annotation of annotations) {
+      if (!intersects(annotation.bbox, tile)) continue;
+      clones.push({
+        ...annotation,
+        id: `ann-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        pageId: id,
+        // 그룹은 페이지별로 따로
+        groupId: annotation.groupId ? `${annotation.groupId}-split${i}` : undefined,
+      });
+    }
+  });
+
+  return { pages, annotations: clones };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { formatRulerValue, ptPerUnit, rulerTicks } from "./rulers";
+
+describe("rulers", () => {
+  it("converts points to display units", () => {
+    expect(ptPerUnit("pt")).toBe(1);
+    expect(formatRulerValue(72, "px")).toBe("96");
+    expect(formatRulerValue(72, "mm")).toBe("25.4");
+  });
+
+  it("picks readable major and minor tick spacing for the zoom level", () => {
+    const ticks = rulerTicks(0, 200, 1, "pt");
+    const majors = ticks.filter((t) => t.major);
+    // 1pt = 1px → 큰 눈금 50pt, 작은 눈금 10pt
+    expect(majors.map((t) => t.label)).toEqual(["0", "50", "100", "150", "200"]);
+    expect(ticks).toHaveLength(21);
+
+    const zoomed = rulerTicks(0, 20, 10, "pt").filter((t) => t.major);
+    expect(zoomed.map((t) => t.position)).toEqual([0, 5, 10, 15, 20]);
+  });
+
+  it("starts ticks before the origin for cropped pages", () => {
+    const ticks = rulerTicks(-30, 30, 1, "pt");
+    expect(ticks[0].position).toBe(-30);
+    expect(ticks.find((t) => t.position === 0)?.major).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Rulers - 눈금자 단위 변환과 눈금 계산
+ *
+ * 편집 좌표는 pt(1/72 in)이고, 눈금자는 px(96 dpi CSS 픽셀), mm, pt로 표시한다.
+ */
+
+import type { RulerUnit } from '../model/types';
+
+// ============================================
+// Units
+// ============================================
+
+export const RULER_UNITS: RulerUnit[] = ['px', 'mm', 'pt'];
+
+/** 1 단위가 몇 pt인지 */
+export function ptPerUnit(unit: RulerUnit): number {
+  switch (unit) {
+    case 'px': return 72 / 96;
+    case 'mm': return 72 / 25.4;
+    case 'pt': return 1;
+  }
+}
+
+/** pt → 표시 단위 값 */
+export function toRulerUnit(pt: number, unit: RulerUnit): number {
+  return pt / ptPerUnit(unit);
+}
+
+export function formatRulerValue(pt: number, unit: RulerUnit): string {
+  const value = toRulerUnit(pt, unit);
+  return `${Math.round(value * 10) / 10}`;
+}
+
+// ============================================
+// Ticks
+// ============================================
+
+export interface RulerTick {
+  /** 편집 좌표 (pt) */
+  position: number;
+  major: boolean;
+  /** 큰 눈금의 표시 값 */
+  label?: string;
+}
+
+/** 큰 눈금 후보 간격 (표시 단위) */
+const MAJOR_STEPS = [1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000, 2000, 5000];
+
+/** 큰 눈금 사이 최소 화면 거리 (px) */
+const MIN_MAJOR_SPACING = 50;
+
+/** 작은 눈금 사이 최소 화면 거리 (px) */
+const MIN_MINOR_SPACING = 5;
+
+/**
+ * 범위 [from, to] (pt)의 눈금
+ * @param scale 화면 px / pt
+ */
+export function rulerTicks(from: number, to: number, scale: number, unit: RulerUnit): RulerTick[] {
+  if (!(scale > 0) || to <= from) return [];
+  const unitPt = ptPerUnit(unit);
+
+  const major = MAJOR_STEPS.find((step) => step * unitPt * scale >= MIN_MAJOR_SPACING) ?? MAJOR_STEPS[MAJOR_STEPS.length - 1];
+  // 5칸 → 2칸 → 없음 순으로 들어가는 만큼 나눔
+  const divisions = [5, 2].find((n) => (major / n) * unitPt * scale >= MIN_MINOR_SPACING) ?? 1;
+  const minor = major / divisions;
+
+  const ticks: RulerTick[] = [];
+  const first = Math.ceil(toRulerUnit(from, unit) / minor);
+  const last = Math.floor(toRulerUnit(to, unit) / minor);
+  for (let i = first; i <= last; i++) {
+    const value = i * minor;
+    const isMajor = i % divisions === 0;
+    ticks.push({
+      position: value * unitPt,
+      major: isMajor,
+      label: isMajor ? `${Math.round(value * 100) / 100}` : undefined,
+    });
+  }
+  return ticks;
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, PDFName } from "pdf-lib";
+import { convertPdfAnnotation, readRawAnnotationFields } from "./annotationImport";
+import type { PdfAnnotationData } from "./annotationImport";
+
+/** 높이 800 페이지, 배율 1 (y축만 뒤집음) */
+const toEditor = (x: number, y: number) => ({ x, y: 800 - y });
+
+function data(overrides: Partial<PdfAnnotationData>): PdfAnnotationData {
+  return { subtype: "Square", id: "10R", rect: [100, 600, 200, 700], color: [255, 0, 0], ...overrides };
+}
+
+describe("convertPdfAnnotation", () => {
+  it("converts highlight quads into one text highlight", () => {
+    const result = convertPdfAnnotation(
+      data({
+        subtype: "Highlight",
+        color: [255, 255, 0],
+        opacity: 1,
+        quadPoints: [10, 700, 110, 700, 10, 690, 110, 690, 10, 680, 60, 680, 10, 670, 60, 670],
+      }),
+      toEditor,
+      "p1"
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ type: "highlight", pageId: "p1", bbox: { x: 10, y: 100, width: 100, height: 30 } });
+    expect(result[0]).toHaveProperty("quads", [
+      { x: 10, y: 100, width: 100, height: 10 },
+      { x: 10, y: 120, width: 50, height: 10 },
+    ]);
+    // 불투명 하이라이트는 반투명으로 변환
+    expect(result[0].style.opacity).toBe(0.4);
+  });
+
+  it("converts underline, squiggly and strikeout markups", () => {
+    const [underline] = convertPdfAnnotation(
+      data({ subtype: "Squiggly", color: [0, 0, 255], quadPoints: [10, 700, 110, 700, 10, 690, 110, 690], contentsObj: { str: "note" } }),
+      toEditor,
+      "p1"
+    );
+
+    expect(underline).toMatchObject({
+      type: "squiggly",
+      content: "note",
+      bbox: { x: 10, y: 100, width: 100, height: 10 },
+      quads: [{ x: 10, y: 100, width: 100, height: 10 }],
+      style: { stroke: "#0000FF", opacity: 1 },
+    });
+  });
+
+  it("reads interior color and dashes for squares", () => {
+    const [rect] = convertPdfAnnotation(
+      data({ borderStyle: { width: 2, style: 2, dashArray: [3, 1] } }),
+      toEditor,
+      "p1",
+      { interiorColor: [0, 0, 1] },
+      2
+    );
+
+    expect(rect).toMatchObject({
+      type: "rectangle",
+      bbox: { x: 100, y: 100, width: 100, height: 100 },
+      style: { stroke: "#FF0000", fill: "#0000FF", strokeWidth: 4, strokeDasharray: "6 2" },
+    });
+  });
+
+  it("uses the raw /L direction and line endings for arrows", () => {
+    const [arrow] = convertPdfAnnotation(
+      data({ subtype: "Line", lineCoordinates: [10, 100, 200, 300], lineEndings: ["None", "ClosedArrow"] }),
+      toEditor,
+      "p1",
+      { line: [200, 100, 10, 300] }
+    );
+
+    expect(arrow.type).toBe("arrow");
+    expect(arrow).toMatchObject({ startPoint: { x: 200, y: 700 }, endPoint: { x: 10, y: 500 } });
+  });
+
+  it("turns lines without arrow endings into plain lines", () => {
+    const [line] = convertPdfAnnotation(
+      data({ subtype: "Line", lineCoordinates: [10, 100, 200, 300], lineEndings: ["None", "None"] }),
+      toEditor,
+      "p1"
+    );
+    expect(line.type).toBe("line");
+  });
+
+  it("splits ink strokes and treats translucent ink as highlighter", () => {
+    const strokes = convertPdfAnnotation(
+      data({ subtype: "Ink", opacity: 0.5, inkLists: [[0, 800, 10, 790], [20, 780, 30, 770]] }),
+      toEditor,
+      "p1"
+    );
+
+    expect(strokes).toHaveLength(2);
+    expect(strokes.every((s) => s.type === "highlighter")).toBe(true);
+    expect(strokes[0]).toMatchObject({ points: [{ x: 0, y: 0 }, { x: 10, y: 10 }] });
+  });
+
+  it("converts free text with its appearance", () => {
+    const [text] = convertPdfAnnotation(
+      data({
+        subtype: "FreeText",
+        color: null,
+        textContent: ["Hello", "World"],
+        defaultAppearanceData: { fontSize: 12, fontColor: [0, 0, 255] },
+        borderStyle: { width: 0, style: 1, dashArray: [] },
+      }),
+      toEditor,
+      "p1",
+      { quadding: 1 }
+    );
+
+    expect(text).toMatchObject({
+      type: "text",
+      content: "Hello\nWorld",
+      style: { fontSize: 12, color: "#0000FF", backgroundColor: "transparent", textAlign: "center" },
+    });
+  });
+
+  it("ignores unsupported subtypes", () => {
+    expect(convertPdfAnnotation(data({ subtype: "Link" }), toEditor, "p1")).toEqual([]);
+  });
+});
+
+describe("readRawAnnotationFields", () => {
+  it("reads fields pdf.js drops, keyed by pdf.js annotation id", async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([200, 200]);
+    const lineRef = pdfDoc.context.register(pdfDoc.context.obj({
+      Type: "Annot",
+      Subtype: "Line",
+      Rect: [0, 0, 100, 100],
+      L: [100, 0, 0, 100],
+      IC: [1, 0, 0],
+      CA: 0.5,
+    }));
+    const linkRef = pdfDoc.context.register(pdfDoc.context.obj({ Type: "Annot", Subtype: "Link", Rect: [0, 0, 1, 1] }));
+    page.node.set(PDFName.of("Annots"), pdfDoc.context.obj([lineRef, linkRef]));
+
+    const fields = await readRawAnnotationFields(await pdfDoc.save());
+
+    expect(fields.get(`${lineRef.objectNumber}R`)).toMatchObject({ line: [100, 0, 0, 100], interiorColor: [1, 0, 0], opacity: 0.5 });
+    expect(fields.has(`${linkRef.objectNumber}R`)).toBe(false);
+  });
+});
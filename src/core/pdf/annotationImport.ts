@@ -0,0 +1,336 @@
+/**
+ * PDF Annotation Import - 표준 /Annot 사전을 JustFlux 주석으로 변환
+ *
+ * pdf.js getAnnotations() 결과를 편집 가능한 주석으로 바꾼다.
+ * pdf.js가 노출하지 않는 필드(/L 방향, /IC, /CA, /Q)는 pdf-lib로 원본 사전에서 읽어 보완한다.
+ */
+
+import { PDFDocument, PDFArray, PDFDict, PDFName, PDFNumber, PDFRef } from 'pdf-lib';
+import type { Annotation, BBox, Point } from '../model/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * 가져오는 PDF 주석 Subtype
+ * 내보내기 시 원본 페이지에서 제거되는 대상과 동일하다 (중복 방지, 삭제 반영).
+ */
+export const IMPORTED_ANNOTATION_SUBTYPES: readonly string[] = [
+  'Highlight',
+  'Underline',
+  'Squiggly',
+  'StrikeOut',
+  'Square',
+  'Circle',
+  'Line',
+  'Ink',
+  'FreeText',
+];
+
+/** pdf.js getAnnotations() 항목 중 사용하는 필드 */
+export interface PdfAnnotationData {
+  subtype: string;
+  id: string;
+  rect: number[];
+  /** 0-255 RGB, 없으면 null */
+  color?: ArrayLike<number> | null;
+  opacity?: number;
+  borderStyle?: { width: number; style: number; dashArray: number[] };
+  contentsObj?: { str: string };
+  quadPoints?: ArrayLike<number> | null;
+  inkLists?: ArrayLike<number>[];
+  lineCoordinates?: number[];
+  lineEndings?: string[];
+  textContent?: string[];
+  defaultAppearanceData?: { fontSize?: number; fontColor?: ArrayLike<number> };
+  noView?: boolean;
+}
+
+/** pdf-lib로 읽은 원본 사전 필드 (색상은 0-1 RGB) */
+export interface RawAnnotationFields {
+  line?: number[];
+  interiorColor?: number[];
+  opacity?: number;
+  quadding?: number;
+}
+
+/** PDF 사용자 공간 → 편집 좌표 (좌상단 원점) */
+export type PointMapper = (x: number, y: number) => Point;
+
+/** pdf.js 상태값: AnnotationBorderStyleType.DASHED */
+const BORDER_DASHED = 2;
+
+const ARROW_ENDINGS = ['OpenArrow', 'ClosedArrow', 'ROpenArrow', 'RClosedArrow'];
+
+// ============================================
+// Helpers
+// ============================================
+
+function generateId(): string {
+  return `annotation-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function toHex(r: number, g: number, b: number): string {
+  const hex = (v: number) => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}`.toUpperCase();
+}
+
+/** pdf.js 색상 (0-255) → hex */
+function byteColorToHex(color: ArrayLike<number> | null | undefined): string | undefined {
+  if (!color || color.length < 3) return undefined;
+  return toHex(color[0], color[1], color[2]);
+}
+
+/** PDF 색상 (0-1) → hex, 회색조는 RGB로 확장 */
+function unitColorToHex(color: number[] | undefined): string | undefined {
+  if (!color || color.length === 0) return undefined;
+  if (color.length === 1) return toHex(color[0] * 255, color[0] * 255, color[0] * 255);
+  if (color.length !== 3) return undefined;
+  return toHex(color[0] * 255, color[1] * 255, color[2] * 255);
+}
+
+function boundsOf(points: Point[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function rectToBBox(rect: number[], toEditor: PointMapper) {
+  return boundsOf([toEditor(rect[0], rect[1]), toEditor(rect[2], rect[3])]);
+}
+
+function pairsToPoints(values: ArrayLike<number>, toEditor: PointMapper): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    points.push(toEditor(values[i], values[i + 1]));
+  }
+  return points;
+}
+
+/** QuadPoints → 사각형 목록 (없으면 Rect 하나) */
+function quadsOf(data: PdfAnnotationData, toEditor: PointMapper) {
+  if (!data.quadPoints || data.quadPoints.length < 8) return [rectToBBox(data.rect, toEditor)];
+  const values = Array.from(data.quadPoints);
+  return Array.from({ length: Math.floor(values.length / 8) }, (_, i) =>
+    boundsOf(pairsToPoints(values.slice(i * 8, i * 8 + 8), toEditor)));
+}
+
+function unionOf(boxes: BBox[]) {
+  return boundsOf(boxes.flatMap((b) => [{ x: b.x, y: b.y }, { x: b.x + b.width, y: b.y + b.height }]));
+}
+
+const TEXT_MARKUP_TYPES: Record<string, 'underline' | 'squiggly' | 'strikeout'> = {
+  Underline: 'underline',
+  Squiggly: 'squiggly',
+  StrikeOut: 'strikeout',
+};
+
+function strokeStyle(data: PdfAnnotationData, scale: number) {
+  const width = data.borderStyle?.width ?? 1;
+  const dashed = data.borderStyle?.style === BORDER_DASHED && data.borderStyle.dashArray.length > 0;
+  return {
+    strokeWidth: width * scale,
+    strokeDasharray: dashed ? data.borderStyle!.dashArray.map((d) => d * scale).join(' ') : undefined,
+  };
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * pdf.js 주석 하나를 JustFlux 주석으로 변환
+ * 여러 사각형의 Highlight/Underline 등은 quads를 가진 주석 하나가 되고,
+ * 여러 획의 Ink는 groupId로 묶인 여러 주석이 된다.
+ *
+ * @param scale - 편집 단위 / PDF 사용자 단위 (선 두께, 글자 크기 변환)
+ * @returns 지원하지 않는 Subtype이면 빈 배열
+ */
+export function convertPdfAnnotation(
+  data: PdfAnnotationData,
+  toEditor: PointMapper,
+  pageId: string,
+  raw: RawAnnotationFields = {},
+  scale = 1
+): Annotation[] {
+  const now = Date.now();
+  const base = () => ({ id: generateId(), pageId, createdAt: now, modifiedAt: now });
+  const color = byteColorToHex(data.color);
+  const contents = data.contentsObj?.str ?? '';
+
+  switch (data.subtype) {
+    case 'Highlight': {
+      // PDF 뷰어는 Multiply 블렌딩으로 표시하므로 불투명 하이라이트는 반투명으로 옮김
+      const opacity = data.opacity !== undefined && data.opacity < 1 ? data.opacity : 0.4;
+      const quads = quadsOf(data, toEditor);
+
+      return [{
+        ...base(),
+        type: 'highlight' as const,
+        bbox: unionOf(quads),
+        content: contents,
+        // QuadPoints가 있으면 텍스트 선택 하이라이트
+        quads: data.quadPoints && data.quadPoints.length >= 8 ? quads : undefined,
+        style: { fill: color || '#FFFF00', opacity },
+      }];
+    }
+
+    case 'Underline':
+    case 'Squiggly':
+    case 'StrikeOut': {
+      const quads = quadsOf(data, toEditor);
+      return [{
+        ...base(),
+        type: TEXT_MARKUP_TYPES[data.subtype],
+        bbox: unionOf(quads),
+        content: contents,
+        quads,
+        style: { stroke: color || '#E53935', opacity: data.opacity ?? 1 },
+      }];
+    }
+
+    case 'Square':
+    case 'Circle': {
+      const stroke = strokeStyle(data, scale);
+      return [{
+        ...base(),
+        type: data.subtype === 'Square' ? 'rectangle' as const : 'ellipse' as const,
+        bbox: rectToBBox(data.rect, toEditor),
+        style: {
+          stroke: color || 'transparent',
+          strokeWidth: color ? stroke.strokeWidth : 0,
+          strokeDasharray: stroke.strokeDasharray,
+          fill: unitColorToHex(raw.interiorColor) || 'transparent',
+          opacity: raw.opacity,
+        },
+      }];
+    }
+
+    case 'Line': {
+      // pdf.js는 lineCoordinates를 정규화하므로 방향은 원본 /L에서 가져옴
+      const coords = raw.line && raw.line.length === 4 ? raw.line : data.lineCoordinates;
+      if (!coords || coords.length !== 4) return [];
+
+      let startPoint = toEditor(coords[0], coords[1]);
+      let endPoint = toEditor(coords[2], coords[3]);
+      const [startEnding, endEnding] = data.lineEndings ?? ['None', 'None'];
+      const endArrow = ARROW_ENDINGS.includes(endEnding);
+      const startArrow = ARROW_ENDINGS.includes(startEnding);
+      // 시작점에만 화살촉이 있으면 방향을 뒤집어 끝점 화살표로 표현
+      if (startArrow && !endArrow) {
+        [startPoint, endPoint] = [endPoint, startPoint];
+      }
+
+      const stroke = strokeStyle(data, scale);
+      const pad = stroke.strokeWidth / 2 + (startArrow || endArrow ? 10 : 0);
+      const bounds = boundsOf([startPoint, endPoint]);
+      return [{
+        ...base(),
+        type: startArrow || endArrow ? 'arrow' as const : 'line' as const,
+        startPoint,
+        endPoint,
+        bbox: { x: bounds.x - pad, y: bounds.y - pad, width: bounds.width + pad * 2, height: bounds.height + pad * 2 },
+        style: { stroke: color || '#000000', ...stroke, opacity: raw.opacity },
+      }];
+    }
+
+    case 'Ink': {
+      const strokes = (data.inkLists ?? [])
+        .map((list) => pairsToPoints(list, toEditor))
+        .filter((points) => points.length > 0);
+      const opacity = data.opacity ?? 1;
+      const isHighlighter = opacity < 1;
+      const { strokeWidth } = strokeStyle(data, scale);
+      const groupId = strokes.length > 1 ? generateId() : undefined;
+
+      return strokes.map((points) => {
+        const bounds = boundsOf(points);
+        const pad = strokeWidth / 2;
+        const bbox = { x: bounds.x - pad, y: bounds.y - pad, width: bounds.width + pad * 2, height: bounds.height + pad * 2 };
+        return isHighlighter
+          ? { ...base(), type: 'highlighter' as const, points, bbox, groupId, style: { stroke: color || '#FF9800', strokeWidth, opacity } }
+          : { ...base(), type: 'freehand' as const, points, bbox, groupId, style: { stroke: color || '#000000', strokeWidth } };
+      });
+    }
+
+    case 'FreeText': {
+      const appearance = data.defaultAppearanceData;
+      const borderWidth = data.borderStyle?.width ?? 0;
+      const textAlign = raw.quadding === 1 ? 'center' as const : raw.quadding === 2 ? 'right' as const : 'left' as const;
+      return [{
+        ...base(),
+        type: 'text' as const,
+        bbox: rectToBBox(data.rect, toEditor),
+        content: data.textContent?.join('\n') ?? contents,
+        style: {
+          fontSize: (appearance?.fontSize || 14) * scale,
+          fontFamily: 'Arial',
+          color: byteColorToHex(appearance?.fontColor) || '#000000',
+          backgroundColor: color || 'transparent',
+          borderColor: borderWidth > 0 ? byteColorToHex(appearance?.fontColor) || '#000000' : undefined,
+          borderWidth: borderWidth > 0 ? borderWidth * scale : undefined,
+          textAlign,
+          verticalAlign: 'top' as const,
+        },
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+// ============================================
+// Raw Dictionary Fields
+// ============================================
+
+function numbersOf(dict: PDFDict, key: string): number[] | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  if (!(value instanceof PDFArray)) return undefined;
+  return value.asArray().map((item) => {
+    const resolved = dict.context.lookup(item);
+    return resolved instanceof PDFNumber ? resolved.asNumber() : 0;
+  });
+}
+
+function numberOf(dict: PDFDict, key: string): number | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+/**
+ * pdf.js가 노출하지 않는 주석 필드를 원본 바이트에서 읽음
+ * @returns pdf.js 주석 id 형식(`${num}R`, 세대 번호가 있으면 `${num}R${gen}`)을 키로 하는 맵
+ */
+export async function readRawAnnotationFields(bytes: Uint8Array): Promise<Map<string, RawAnnotationFields>> {
+  const fields = new Map<string, RawAnnotationFields>();
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+
+    for (const entry of annots.asArray()) {
+      if (!(entry instanceof PDFRef)) continue;
+      const dict = pdfDoc.context.lookup(entry);
+      if (!(dict instanceof PDFDict)) continue;
+      const subtype = dict.lookup(PDFName.of('Subtype'));
+      if (!(subtype instanceof PDFName) || !IMPORTED_ANNOTATION_SUBTYPES.includes(subtype.decodeText())) continue;
+
+      const id = entry.generationNumber === 0
+        ? `${entry.objectNumber}R`
+        : `${entry.objectNumber}R${entry.generationNumber}`;
+      fields.set(id, {
+        line: numbersOf(dict, 'L'),
+        interiorColor: numbersOf(dict, 'IC'),
+        opacity: numberOf(dict, 'CA'),
+        quadding: numberOf(dict, 'Q'),
+      });
+    }
+  }
+
+  return fields;
+}
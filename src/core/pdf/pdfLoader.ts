@@ -5,15 +5,29 @@ import { logger } from '../../utils/logger';
  */
 
 import * as pdfjsLib from 'pdfjs-dist';
-import type { Document, Page } from '../model/types';
+import type { Annotation, Document, FormField, Page } from '../model/types';
 import { createDocument, createPage } from '../model/factories';
+import { IMPORTED_ANNOTATION_SUBTYPES, convertPdfAnnotation } from './annotationImport';
+import type { PdfAnnotationData, RawAnnotationFields } from './annotationImport';
+import { convertPdfFormField, isFormFieldChecked } from '../forms/formFields';
+import type { PdfWidgetData } from '../forms/formFields';
+import { verifyPdfSignatures } from '../signing/pdfSignatureVerifier';
+import type { PdfSignatureInfo } from '../signing/pdfSignatureVerifier';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.mjs';
 
+/**
+ * Annotation mode for every page render.
+ * ENABLE_STORAGE lets annotations imported into JustFlux be hidden via annotationStorage (noView/noPrint).
+ */
+export const PDF_RENDER_ANNOTATION_MODE = pdfjsLib.AnnotationMode.ENABLE_STORAGE;
+
 export interface LoadPdfResult {
   document: Document;
   pdfProxy: pdfjsLib.PDFDocumentProxy;
+  /** Digital signatures found in the file, verified against the original bytes */
+  signatures: PdfSignatureInfo[];
 }
 
 /**
@@ -27,9 +41,9 @@ export async function loadPdfFile(file: File): Promise<LoadPdfResult> {
     const arrayBuffer = await file.arrayBuffer();
     const originalBytes = new Uint8Array(arrayBuffer);
 
-    // Load PDF with PDF.js (pass Uint8Array instead of ArrayBuffer)
+    // Load PDF with PDF.js (pass a copy - pdf.js transfers the buffer to its worker)
     const loadingTask = pdfjsLib.getDocument({
-      data: originalBytes,
+      data: originalBytes.slice(),
       cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.0.379/cmaps/',
       cMapPacked: true,
     });
@@ -76,13 +90,158 @@ export async function loadPdfFile(file: File): Promise<LoadPdfResult> {
 
     logger.debug(`✅ [PDF] Document created: ${pages.length} pages`);
 
-    return { document, pdfProxy };
+    const signatures = await loadPdfSignatures(originalBytes);
+
+    return { document, pdfProxy, signatures };
   } catch (error) {
     console.error('❌ [PDF] Load failed:', error);
     throw new Error(`Failed to load PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Verify the digital signatures of a loaded PDF
+ * A file whose signatures cannot be read still opens - the failure is only logged.
+ */
+async function loadPdfSignatures(bytes: Uint8Array): Promise<PdfSignatureInfo[]> {
+  try {
+    const signatures = await verifyPdfSignatures(bytes);
+    if (signatures.length > 0) {
+      logger.debug(`🔏 [PDF] ${signatures.length} signature(s): ${signatures.map((s) => `${s.signerName} (${s.integrity})`).join(', ')}`);
+    }
+    return signatures;
+  } catch (error) {
+    console.warn('⚠️ [PDF] Failed to read signatures:', error);
+    return [];
+  }
+}
+
+/**
+ * Open PDF bytes with PDF.js (e.g. to read back an exported file)
+ * The caller owns the returned proxy and should destroy() it when done.
+ */
+export async function openPdfBytes(bytes: Uint8Array): Promise<pdfjsLib.PDFDocumentProxy> {
+  // Pass a copy - pdf.js transfers the buffer to its worker
+  return pdfjsLib.getDocument({
+    data: bytes.slice(),
+    cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.0.379/cmaps/',
+    cMapPacked: true,
+  }).promise;
+}
+
+/**
+ * Import a page's PDF annotations as editable JustFlux annotations
+ * Imported annotations are hidden from pdf.js rendering so they are not drawn twice.
+ *
+ * @param raw - Fields pdf.js does not expose (see readRawAnnotationFields)
+ * @returns null when the page annotations could not be read
+ */
+export async function loadPageAnnotations(
+  pdfProxy: pdfjsLib.PDFDocumentProxy,
+  pageIndex: number,
+  page: Page,
+  raw?: Map<string, RawAnnotationFields>
+): Promise<Annotation[] | null> {
+  try {
+    const pdfPage = await pdfProxy.getPage(pageIndex + 1);
+    const base = pdfPage.getViewport({ scale: 1.0 });
+    const viewport = pdfPage.getViewport({ scale: base.width > 0 ? page.width / base.width : 1 });
+    const items = (await pdfPage.getAnnotations()) as PdfAnnotationData[];
+
+    const toEditor = (x: number, y: number) => {
+      const [vx, vy] = viewport.convertToViewportPoint(x, y);
+      return { x: vx, y: vy };
+    };
+
+    const annotations: Annotation[] = [];
+    for (const item of items) {
+      if (!IMPORTED_ANNOTATION_SUBTYPES.includes(item.subtype) || item.noView) continue;
+
+      const converted = convertPdfAnnotation(item, toEditor, page.id, raw?.get(item.id), viewport.scale);
+      if (converted.length === 0) continue;
+
+      annotations.push(...converted);
+      pdfProxy.annotationStorage.setValue(item.id, { noView: true, noPrint: true });
+    }
+
+    if (annotations.length > 0) {
+      logger.debug(`📝 [PDF] Imported ${annotations.length} annotations from page ${pageIndex + 1}`);
+    }
+    return annotations;
+  } catch (error) {
+    console.warn(`⚠️ [PDF] Annotation import failed for page ${pageIndex + 1}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Hide annotations that were already imported into a restored session
+ * (the editable copies come from the project file instead of the PDF)
+ */
+export async function hideImportedAnnotations(
+  pdfProxy: pdfjsLib.PDFDocumentProxy,
+  pageIndex: number
+): Promise<void> {
+  try {
+    const pdfPage = await pdfProxy.getPage(pageIndex + 1);
+    const items = (await pdfPage.getAnnotations()) as PdfAnnotationData[];
+    for (const item of items) {
+      if (IMPORTED_ANNOTATION_SUBTYPES.includes(item.subtype)) {
+        pdfProxy.annotationStorage.setValue(item.id, { noView: true, noPrint: true });
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️ [PDF] Failed to hide imported annotations on page ${pageIndex + 1}:`, error);
+  }
+}
+
+/**
+ * Read fillable AcroForm widgets of a page as form fields (in editor coordinates)
+ * @returns null if the page could not be read
+ */
+export async function loadPageFormFields(
+  pdfProxy: pdfjsLib.PDFDocumentProxy,
+  pageIndex: number,
+  page: Page
+): Promise<FormField[] | null> {
+  try {
+    const pdfPage = await pdfProxy.getPage(pageIndex + 1);
+    const base = pdfPage.getViewport({ scale: 1.0 });
+    const viewport = pdfPage.getViewport({ scale: base.width > 0 ? page.width / base.width : 1 });
+    const items = (await pdfPage.getAnnotations()) as PdfWidgetData[];
+
+    const toEditor = (x: number, y: number) => {
+      const [vx, vy] = viewport.convertToViewportPoint(x, y);
+      return { x: vx, y: vy };
+    };
+
+    const fields: FormField[] = [];
+    for (const item of items) {
+      const field = convertPdfFormField(item, toEditor);
+      if (field) fields.push(field);
+    }
+
+    if (fields.length > 0) {
+      logger.debug(`🧾 [PDF] Found ${fields.length} form field widgets on page ${pageIndex + 1}`);
+    }
+    return fields;
+  } catch (error) {
+    console.warn(`⚠️ [PDF] Form field import failed for page ${pageIndex + 1}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Push edited form values into annotationStorage so that canvas renders
+ * (page view, thumbnails, raster export) draw them with ENABLE_STORAGE
+ */
+export function syncFormFieldStorage(pdfProxy: pdfjsLib.PDFDocumentProxy, fields: FormField[]): void {
+  for (const field of fields) {
+    const value = field.type === 'checkbox' || field.type === 'radio' ? isFormFieldChecked(field) : field.value;
+    pdfProxy.annotationStorage.setValue(field.id, { value });
+  }
+}
+
 /**
  * Render PDF page to canvas
  */
@@ -108,6 +267,7 @@ export async function renderPdfPage(
       canvasContext: context,
       viewport: viewport,
       canvas: canvas,
+      annotationMode: PDF_RENDER_ANNOTATION_MODE,
     };
 
     await pdfPage.render(renderContext).promise;
@@ -149,6 +309,7 @@ export async function generateThumbnail(
       canvasContext: context,
       viewport: scaledViewport,
       canvas: canvas,
+      annotationMode: PDF_RENDER_ANNOTATION_MODE,
     }).promise;
 
     return canvas.toDataURL('image/png');
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createPage } from "../model/factories";
+import { mapBookmarksToPages } from "./pdfOutline";
+
+describe("mapBookmarksToPages", () => {
+  it("maps source pages of the main and appended PDFs to current page positions", () => {
+    const pages = [
+      createPage({ docId: "d", index: 0, width: 100, height: 100, pdfRef: { sourceIndex: 2 } }),
+      createPage({ docId: "d", index: 1, width: 100, height: 100 }),
+      createPage({ docId: "d", index: 2, width: 100, height: 100, pdfRef: { sourceIndex: 1, appendedFrom: "b.pdf" } }),
+      createPage({ docId: "d", index: 3, width: 100, height: 100, pdfRef: { sourceIndex: 1 } }),
+    ];
+
+    expect(
+      mapBookmarksToPages(
+        [
+          { title: "Main 1", sourceKey: "", sourcePageIndex: 0 },
+          { title: "Main 2", sourceKey: "", sourcePageIndex: 1 },
+          { title: "Deleted", sourceKey: "", sourcePageIndex: 5 },
+          { title: "Appended", sourceKey: "b.pdf", sourcePageIndex: 0 },
+        ],
+        pages
+      )
+    ).toEqual([
+      { title: "Main 1", pageIndex: 3 },
+      { title: "Main 2", pageIndex: 0 },
+      { title: "Appended", pageIndex: 2 },
+    ]);
+  });
+});
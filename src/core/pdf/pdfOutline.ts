@@ -0,0 +1,59 @@
+/**
+ * PDF Outline - 책갈피(개요)를 현재 문서 페이지에 대응
+ *
+ * 원본 PDF의 최상위 책갈피 대상 페이지를 찾아, 그 원본 페이지를 가리키는
+ * 현재 문서 페이지(pdfRef)의 인덱스로 바꾼다. 삭제되었거나 찾을 수 없는 책갈피는 건너뛴다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Page } from '../model/types';
+import type { PageBookmark } from '../io/documentOps';
+
+/** 원본 PDF 안의 책갈피 (sourceKey: 기본 문서는 '', 추가된 PDF는 파일명) */
+export interface SourceBookmark {
+  title: string;
+  sourceKey: string;
+  /** 0-based 원본 페이지 인덱스 */
+  sourcePageIndex: number;
+}
+
+/**
+ * 원본 책갈피 → 현재 문서 페이지 인덱스 (같은 원본 페이지가 여러 번 있으면 첫 페이지)
+ */
+export function mapBookmarksToPages(bookmarks: SourceBookmark[], pages: Page[]): PageBookmark[] {
+  const mapped: PageBookmark[] = [];
+  for (const bookmark of bookmarks) {
+    const pageIndex = pages.findIndex(
+      (page) =>
+        !!page.pdfRef &&
+        (page.pdfRef.appendedFrom ?? '') === bookmark.sourceKey &&
+        page.pdfRef.sourceIndex - 1 === bookmark.sourcePageIndex
+    );
+    if (pageIndex >= 0) mapped.push({ title: bookmark.title, pageIndex });
+  }
+  return mapped;
+}
+
+/**
+ * pdf.js 문서의 최상위 책갈피 읽기
+ */
+export async function loadSourceBookmarks(proxy: PDFDocumentProxy, sourceKey: string): Promise<SourceBookmark[]> {
+  const outline = await proxy.getOutline();
+  if (!outline) return [];
+
+  const bookmarks: SourceBookmark[] = [];
+  for (const item of outline) {
+    try {
+      const dest = typeof item.dest === 'string' ? await proxy.getDestination(item.dest) : item.dest;
+      const target = dest?.[0];
+      if (target === undefined || target === null) continue;
+
+      // 대상은 페이지 참조 또는 0-based 페이지 번호
+      const sourcePageIndex = typeof target === 'number' ? target : await proxy.getPageIndex(target);
+      bookmarks.push({ title: item.title, sourceKey, sourcePageIndex });
+    } catch (error) {
+      console.warn(`⚠️ [Outline] Failed to resolve bookmark "${item.title}":`, error);
+    }
+  }
+  return bookmarks;
+}
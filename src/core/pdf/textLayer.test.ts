@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildPdfPageText } from "../search/textSearch";
+import type { PdfTextItem } from "../search/textSearch";
+import {
+  buildTextLayer,
+  caretAt,
+  quadsBounds,
+  selectionQuads,
+  selectionRange,
+  selectionText,
+  squigglyPoints,
+} from "./textLayer";
+
+function item(str: string, x: number, y: number, hasEOL = false): PdfTextItem {
+  // 글자당 10pt, 글자 크기 10 → 사각형 높이 11 (descent 2 + ascent 9)
+  return { str, transform: [10, 0, 0, 10, x, y], width: str.length * 10, height: 10, hasEOL };
+}
+
+/** 높이 800 페이지, 배율 1 (y축만 뒤집음) */
+const toEditor = (r: { x: number; y: number; width: number; height: number }) => ({
+  x: r.x,
+  y: 800 - (r.y + r.height),
+  width: r.width,
+  height: r.height,
+});
+
+const layer = buildTextLayer(
+  buildPdfPageText([item("Hello world", 100, 700, true), item("second line", 100, 680)]),
+  toEditor
+);
+
+describe("buildTextLayer", () => {
+  it("lays out one glyph per character with line numbers", () => {
+    expect(layer.text).toBe("Hello world second line");
+    expect(layer.glyphs).toHaveLength(22);
+    expect(layer.glyphs[0]).toEqual({ index: 0, rect: { x: 100, y: 91, width: 10, height: 11 }, line: 0 });
+    expect(layer.glyphs[11]).toMatchObject({ index: 12, line: 1 });
+    expect(layer.boxes).toHaveLength(2);
+  });
+
+  it("keeps items on the same baseline on one line", () => {
+    const split = buildTextLayer(buildPdfPageText([item("Hel", 100, 700), item("lo", 130, 700)]), toEditor);
+    expect(new Set(split.glyphs.map((g) => g.line))).toEqual(new Set([0]));
+  });
+});
+
+describe("caretAt", () => {
+  it("places the caret before or after the nearest glyph", () => {
+    expect(caretAt(layer, { x: 132, y: 95 })).toBe(3);
+    expect(caretAt(layer, { x: 138, y: 95 })).toBe(4);
+    // 줄 오른쪽 바깥 → 줄 끝
+    expect(caretAt(layer, { x: 400, y: 95 })).toBe(11);
+    // 텍스트 아래 → 가장 가까운 글자
+    expect(caretAt(layer, { x: 155, y: 200 })).toBe(17);
+  });
+});
+
+describe("selectionQuads", () => {
+  it("snaps a selection across a line break to one rectangle per line", () => {
+    const range = selectionRange(18, 6);
+    expect(range).toEqual({ start: 6, end: 18 });
+
+    const quads = selectionQuads(layer, range);
+    expect(quads).toEqual([
+      { x: 160, y: 91, width: 50, height: 11 },
+      { x: 100, y: 111, width: 60, height: 11 },
+    ]);
+    expect(quadsBounds(quads)).toEqual({ x: 100, y: 91, width: 110, height: 31 });
+    expect(selectionText(layer, range)).toBe("world second");
+  });
+
+  it("trims whitespace at the ends of each line", () => {
+    expect(selectionQuads(layer, { start: 5, end: 11 })).toEqual([{ x: 160, y: 91, width: 50, height: 11 }]);
+    expect(selectionQuads(layer, { start: 5, end: 6 })).toEqual([]);
+  });
+});
+
+describe("squigglyPoints", () => {
+  it("zigzags along the bottom of the quad", () => {
+    const quad = { x: 0, y: 0, width: 40, height: 20 };
+    const points = squigglyPoints(quad);
+    expect(points.length).toBeGreaterThan(2);
+    for (const p of points) {
+      expect(p.x).toBeLessThanOrEqual(40);
+      expect(p.y).toBeGreaterThanOrEqual(20 - 2 * 1.2 - 1e-9);
+      expect(p.y).toBeLessThanOrEqual(20);
+    }
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * PDF Text Layer - 텍스트 선택 마크업용 글자 배치
+ *
+ * pdf.js 텍스트 아이템을 글자 단위 사각형(편집 좌표)으로 펼쳐
+ * 포인터 위치 → 캐럿, 선택 범위 → 줄별 사각형(quad) 변환을 제공한다.
+ * 글자 폭은 검색과 같은 근사(itemRangeRect)를 사용한다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getPdfPageText, itemRangeRect } from '../search/textSearch';
+import type { PdfPageText, TextRange } from '../search/textSearch';
+import { pdfToViewport } from './coordMapper';
+import type { BBox, Page, Point, ToolType } from '../model/types';
+
+// ============================================
+// Types
+// ============================================
+
+/** PDF 사용자 공간 사각형 → 편집 좌표 사각형 */
+export type RectMapper = (rect: BBox) => BBox;
+
+export interface TextGlyph {
+  /** 페이지 텍스트에서의 위치 */
+  index: number;
+  rect: BBox;
+  /** 줄 번호 (같은 줄의 아이템은 같은 번호) */
+  line: number;
+}
+
+export interface TextLayer {
+  text: string;
+  /** 읽기 순서 (= index 순서) */
+  glyphs: TextGlyph[];
+  /** 아이템별 사각형 (포인터 히트 영역) */
+  boxes: BBox[];
+}
+
+/** 텍스트 선택으로 주석을 만드는 도구 */
+export const TEXT_MARKUP_TOOLS: readonly ToolType[] = ['highlight', 'underline', 'squiggly', 'strikeout', 'redaction'];
+
+export function isTextMarkupTool(tool: string): boolean {
+  return (TEXT_MARKUP_TOOLS as readonly string[]).includes(tool);
+}
+
+// ============================================
+// Build
+// ============================================
+
+function unionRects(rects: BBox[]): BBox {
+  const x = Math.min(...rects.map((r) => r.x));
+  const y = Math.min(...rects.map((r) => r.y));
+  return {
+    x,
+    y,
+    width: Math.max(...rects.map((r) => r.x + r.width)) - x,
+    height: Math.max(...rects.map((r) => r.y + r.height)) - y,
+  };
+}
+
+/** 세로 중심이 높이의 절반 이내면 같은 줄 */
+function isSameLine(a: BBox, b: BBox): boolean {
+  const centerA = a.y + a.height / 2;
+  const centerB = b.y + b.height / 2;
+  return Math.abs(centerA - centerB) < Math.min(a.height, b.height) / 2;
+}
+
+/** 페이지 텍스트 → 글자 배치 */
+export function buildTextLayer(pageText: PdfPageText, toEditor: RectMapper): TextLayer {
+  const glyphs: TextGlyph[] = [];
+  const boxes: BBox[] = [];
+  let line = -1;
+  let previous: BBox | null = null;
+  let previousEndsLine = false;
+
+  pageText.items.forEach((item, i) => {
+    if (item.str.length === 0) return;
+    const offset = pageText.offsets[i];
+    const box = toEditor(itemRangeRect(item, 0, item.str.length));
+    if (box.width <= 0 || box.height <= 0) return;
+
+    if (!previous || previousEndsLine || !isSameLine(previous, box)) line++;
+    previous = box;
+    previousEndsLine = !!item.hasEOL;
+    boxes.push(box);
+
+    for (let c = 0; c < item.str.length; c++) {
+      glyphs.push({ index: offset + c, rect: toEditor(itemRangeRect(item, c, c + 1)), line });
+    }
+  });
+
+  return { text: pageText.text, glyphs, boxes };
+}
+
+/**
+ * PDF 페이지의 글자 배치 로드 (편집 좌표 = 가져온 주석과 같은 뷰포트)
+ * @param pdfProxy 페이지의 PDF (appendedFrom이면 추가된 PDF)
+ * @returns PDF 페이지가 아니면 null
+ */
+export async function loadPageTextLayer(
+  pdfProxy: PDFDocumentProxy,
+  page: Pick<Page, 'pdfRef' | 'width'>
+): Promise<TextLayer | null> {
+  if (!page.pdfRef) return null;
+  const sourceIndex = page.pdfRef.sourceIndex;
+  const [pageText, pdfPage] = await Promise.all([
+    getPdfPageText(pdfProxy, sourceIndex - 1),
+    pdfProxy.getPage(sourceIndex),
+  ]);
+  const base = pdfPage.getViewport({ scale: 1.0 });
+  const viewport = pdfPage.getViewport({ scale: base.width > 0 ? page.width / base.width : 1 });
+  return buildTextLayer(pageText, (rect) => pdfToViewport(rect, viewport));
+}
+
+// ============================================
+// Hit Test
+// ============================================
+
+function distanceToRect(rect: BBox, point: Point): number {
+  const dx = Math.max(rect.x - point.x, 0, point.x - (rect.x + rect.width));
+  const dy = Math.max(rect.y - point.y, 0, point.y - (rect.y + rect.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * 포인터 위치 → 캐럿 (가장 가까운 글자의 앞/뒤)
+ * 줄 안에 있으면 그 줄의 글자만, 아니면 페이지 전체에서 찾는다.
+ * @returns 글자가 없으면 null
+ */
+export function caretAt(layer: TextLayer, point: Point): number | null {
+  if (layer.glyphs.length === 0) return null;
+
+  const inBand = layer.glyphs.filter((g) => point.y >= g.rect.y && point.y <= g.rect.y + g.rect.height);
+  const candidates = inBand.length > 0 ? inBand : layer.glyphs;
+
+  let nearest = candidates[0];
+  let nearestDistance = Infinity;
+  for (const glyph of candidates) {
+    const distance = distanceToRect(glyph.rect, point);
+    if (distance < nearestDistance) {
+      nearest = glyph;
+      nearestDistance = distance;
+    }
+  }
+
+  const afterCenter = point.x > nearest.rect.x + nearest.rect.width / 2;
+  return afterCenter ? nearest.index + 1 : nearest.index;
+}
+
+// ============================================
+// Selection
+// ============================================
+
+/** 두 캐럿 사이의 선택 범위 */
+export function selectionRange(anchor: number, focus: number): TextRange {
+  return { start: Math.min(anchor, focus), end: Math.max(anchor, focus) };
+}
+
+/**
+ * 선택 범위 → 줄별 사각형
+ * 같은 줄에서 이어지는 글자를 하나로 합치고 줄 양끝의 공백은 제외한다.
+ */
+export function selectionQuads(layer: TextLayer, range: TextRange): BBox[] {
+  const quads: BBox[] = [];
+  let run: TextGlyph[] = [];
+
+  const flush = () => {
+    let start = 0;
+    let end = run.length;
+    while (start < end && /\s/.test(layer.text[run[start].index])) start++;
+    while (end > start && /\s/.test(layer.text[run[end - 1].index])) end--;
+    if (start < end) quads.push(unionRects(run.slice(start, end).map((g) => g.rect)));
+    run = [];
+  };
+
+  for (const glyph of layer.glyphs) {
+    if (glyph.index < range.start || glyph.index >= range.end) continue;
+    if (run.length > 0 && run[run.length - 1].line !== glyph.line) flush();
+    run.push(glyph);
+  }
+  if (run.length > 0) flush();
+
+  return quads;
+}
+
+/** 선택 범위의 텍스트 (공백 정리) */
+export function selectionText(layer: TextLayer, range: TextRange): string {
+  return layer.text.slice(range.start, range.end).replace(/\s+/g, ' ').trim();
+}
+
+/** 사각형들의 합집합 (마크업 주석 bbox) */
+export function quadsBounds(quads: BBox[]): BBox {
+  return unionRects(quads);
+}
+
+// ============================================
+// Markup Geometry
+// ============================================
+
+/** 마크업 선 두께 (글자 높이에 비례) */
+export function markupLineWidth(quad: BBox): number {
+  return Math.max(1, quad.height * 0.07);
+}
+
+/**
+ * 밑줄/취소선 y
+ * quad는 descent부터 ascent까지 덮으므로 기준선은 위에서 약 0.82 지점이다.
+ */
+export function markupLineY(quad: BBox, type: 'underline' | 'strikeout'): number {
+  return quad.y + quad.height * (type === 'underline' ? 0.88 : 0.55);
+}
+
+/** 물결 밑줄 꼭짓점 (quad 아래쪽 지그재그) */
+export function squigglyPoints(quad: BBox): Point[] {
+  const amplitude = Math.max(1, quad.height * 0.06);
+  const step = amplitude * 2;
+  const centerY = quad.y + quad.height - amplitude;
+  const points: Point[] = [];
+  for (let i = 0; quad.x + i * step <= quad.x + quad.width; i++) {
+    points.push({ x: quad.x + i * step, y: centerY + (i % 2 === 0 ? -amplitude : amplitude) });
+  }
+  return points;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { blendModeToComposite, gaussianBlurRGBA, gaussianBoxRadii, strokeDabs } from "./rasterBrush";
+
+describe("strokeDabs", () => {
+  it("spaces dabs evenly along the path regardless of input sampling", () => {
+    const coarse = strokeDabs([{ x: 0, y: 0 }, { x: 10, y: 0 }], 10);
+    const fine = strokeDabs([{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 7, y: 0 }, { x: 10, y: 0 }], 10);
+
+    expect(coarse.map((d) => d.x)).toEqual([0, 1.5, 3, 4.5, 6, 7.5, 9]);
+    fine.forEach((dab, i) => expect(dab.x).toBeCloseTo(coarse[i].x));
+    expect(coarse.every((d) => d.radius === 5)).toBe(true);
+  });
+
+  it("keeps earlier dabs when points are appended", () => {
+    const points = [{ x: 0, y: 0 }, { x: 7, y: 3 }, { x: 12, y: 9 }];
+    const partial = strokeDabs(points.slice(0, 2), 6);
+    const full = strokeDabs(points, 6);
+    expect(full.slice(0, partial.length)).toEqual(partial);
+  });
+
+  it("scales the radius with pen pressure", () => {
+    const dabs = strokeDabs([{ x: 0, y: 0 }, { x: 10, y: 0 }], 10, [0, 1]);
+    expect(dabs[0].radius).toBeCloseTo(0.5);
+    expect(dabs[dabs.length - 1].radius).toBeCloseTo(4.5);
+  });
+});
+
+describe("gaussianBlurRGBA", () => {
+  it("approximates the requested sigma with three box passes", () => {
+    const radii = gaussianBoxRadii(4);
+    const variance = radii.reduce((sum, r) => sum + ((2 * r + 1) ** 2 - 1) / 12, 0);
+    expect(Math.sqrt(variance)).toBeCloseTo(4, 0);
+  });
+
+  it("spreads a single pixel without changing the total ink or bleeding colour into transparency", () => {
+    const size = 21;
+    const data = new Uint8ClampedArray(size * size * 4);
+    const center = (10 * size + 10) * 4;
+    data.set([255, 0, 0, 255], center);
+
+    gaussianBlurRGBA(data, size, size, 2);
+
+    let alpha = 0;
+    for (let i = 3; i < data.length; i += 4) alpha += data[i];
+    expect(alpha).toBeGreaterThan(240);
+    expect(alpha).toBeLessThan(270);
+    expect(data[center + 3]).toBeLessThan(255);
+    expect(data[center]).toBe(255);
+    expect(data[center + 1]).toBe(0);
+  });
+});
+
+describe("blendModeToComposite", () => {
+  it("maps normal to source-over and keeps CSS blend names", () => {
+    expect(blendModeToComposite(undefined)).toBe("source-over");
+    expect(blendModeToComposite("normal")).toBe("source-over");
+    expect(blendModeToComposite("multiply")).toBe("multiply");
+  });
+});
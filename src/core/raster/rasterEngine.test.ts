@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { Canvas } from "@napi-rs/canvas";
+import { applyBlurDabs, createRasterSurface, getRasterContext, paintOperation, replayOperations } from "./rasterEngine";
+import type { RasterContext } from "./rasterEngine";
+import type { RasterOperation } from "../model/types";
+
+const line = [{ x: 10, y: 20 }, { x: 90, y: 20 }];
+
+function op(tool: RasterOperation["tool"], points = line, kind: RasterOperation["kind"] = "stroke"): RasterOperation {
+  return { id: `op-${Math.random()}`, kind, tool, points, timestamp: 0 };
+}
+
+function surface(): RasterContext {
+  return getRasterContext(createRasterSurface(100, 40));
+}
+
+function pixel(ctx: RasterContext, x: number, y: number): number[] {
+  return Array.from(ctx.getImageData(x, y, 1, 1).data);
+}
+
+beforeAll(() => {
+  // Node에는 OffscreenCanvas가 없으므로 Skia 캔버스로 대체
+  vi.stubGlobal("OffscreenCanvas", Canvas);
+});
+
+describe("paintOperation", () => {
+  it("paints brush strokes with the tool colour and a single opacity for overlapping dabs", () => {
+    const ctx = surface();
+    paintOperation(ctx, op({ type: "brush", size: 10, hardness: 1, opacity: 0.5, color: "#FF0000" }), 1);
+
+    const [r, g, b, a] = pixel(ctx, 50, 20);
+    expect([r, g, b]).toEqual([255, 0, 0]);
+    expect(a).toBeGreaterThan(120);
+    expect(a).toBeLessThan(135);
+    expect(pixel(ctx, 50, 35)[3]).toBe(0);
+  });
+
+  it("fades soft brushes towards the edge", () => {
+    const ctx = surface();
+    paintOperation(ctx, op({ type: "brush", size: 16, hardness: 0, opacity: 1, color: "#000000" }, [{ x: 50, y: 20 }]), 1);
+    expect(pixel(ctx, 50, 20)[3]).toBeGreaterThan(pixel(ctx, 56, 20)[3]);
+  });
+
+  it("erases pixels along the stroke", () => {
+    const ctx = surface();
+    paintOperation(ctx, op({ type: "brush", size: 1, hardness: 1, opacity: 1, color: "#00FF00" }, [], "fill"), 1);
+    paintOperation(ctx, op({ type: "eraser", size: 10, hardness: 1 }), 1);
+
+    expect(pixel(ctx, 50, 20)[3]).toBe(0);
+    expect(pixel(ctx, 50, 35)[3]).toBe(255);
+  });
+
+  it("blurs only under the stroke", () => {
+    const ctx = surface();
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, 50, 40);
+    paintOperation(ctx, op({ type: "blur", size: 12, strength: 1 }, [{ x: 50, y: 10 }, { x: 50, y: 30 }]), 1);
+
+    // 경계가 흐려져 반투명이 됨, 멀리 떨어진 픽셀은 그대로
+    const edge = pixel(ctx, 50, 20)[3];
+    expect(edge).toBeGreaterThan(0);
+    expect(edge).toBeLessThan(255);
+    expect(pixel(ctx, 10, 20)[3]).toBe(255);
+    expect(pixel(ctx, 90, 20)[3]).toBe(0);
+  });
+
+  it("gives the same result when blur dabs are applied incrementally", () => {
+    const stroke = op({ type: "blur", size: 8, strength: 0.8 }, [{ x: 40, y: 5 }, { x: 55, y: 20 }, { x: 60, y: 35 }]);
+    const prepare = () => {
+      const ctx = surface();
+      ctx.fillStyle = "#3366FF";
+      ctx.fillRect(0, 0, 52, 40);
+      return ctx;
+    };
+
+    const whole = prepare();
+    paintOperation(whole, stroke, 1);
+
+    const live = prepare();
+    const applied = applyBlurDabs(live, { ...stroke, points: stroke.points.slice(0, 2) }, 1);
+    applyBlurDabs(live, stroke, 1, applied);
+
+    expect(Array.from(live.getImageData(0, 0, 100, 40).data)).toEqual(Array.from(whole.getImageData(0, 0, 100, 40).data));
+  });
+});
+
+describe("replayOperations", () => {
+  it("reproduces the layer at any resolution", () => {
+    const operations = [
+      op({ type: "brush", size: 10, hardness: 1, opacity: 1, color: "#0000FF" }),
+      op({ type: "eraser", size: 6, hardness: 1 }, [{ x: 50, y: 10 }, { x: 50, y: 30 }]),
+    ];
+    const small = surface();
+    replayOperations(small, operations, 1);
+    const large = getRasterContext(createRasterSurface(200, 80));
+    replayOperations(large, operations, 2);
+
+    expect(pixel(small, 30, 20)[3]).toBe(255);
+    expect(pixel(large, 60, 40)[3]).toBe(255);
+    expect(pixel(small, 50, 20)[3]).toBe(0);
+    expect(pixel(large, 100, 40)[3]).toBe(0);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Raster Engine - 래스터 레이어 그리기/재생
+ *
+ * RasterLayer.operations가 레이어 내용의 원본이다. 각 연산을 순서대로 재생하면
+ * 어떤 해상도에서도 같은 결과가 나오므로 화면, 내보내기, undo/redo가 같은 코드를 쓴다.
+ * canvasData는 재생 결과를 캐시한 PNG(연산이 없는 레이어는 그 자체가 내용)다.
+ */
+
+import { logger } from '../../utils/logger';
+import type { RasterLayer, RasterOperation, BrushTool, EraseTool, BlurTool, ToolOptions, ToolType } from '../model/types';
+import { gaussianBlurRGBA, strokeDabs } from './rasterBrush';
+import type { BrushDab } from './rasterBrush';
+
+// ============================================
+// Types
+// ============================================
+
+export type RasterSurface = HTMLCanvasElement | OffscreenCanvas;
+export type RasterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type RasterTool = RasterOperation['tool'];
+
+/** 화면용 레이어 캔버스 해상도 (Page 단위당 픽셀) */
+export const RASTER_RESOLUTION = 2;
+
+/** 블러 세기 1일 때 σ (브러시 지름 대비) */
+const BLUR_SIGMA_RATIO = 0.25;
+
+// ============================================
+// Tools
+// ============================================
+
+/** 래스터 레이어에 그리는 도구 ('brush'는 벡터 펜, 'paint'가 래스터 브러시) */
+export const RASTER_TOOLS: readonly ToolType[] = ['paint', 'eraser', 'blur'];
+
+export function isRasterTool(tool: string): boolean {
+  return (RASTER_TOOLS as readonly string[]).includes(tool);
+}
+
+export const DEFAULT_BRUSH: BrushTool = { type: 'brush', size: 12, hardness: 0.8, opacity: 1, color: '#000000' };
+export const DEFAULT_ERASER: EraseTool = { type: 'eraser', size: 24, hardness: 1 };
+export const DEFAULT_BLUR: BlurTool = { type: 'blur', size: 32, strength: 0.6 };
+
+/** 활성 도구 + 도구 옵션 → 연산에 기록할 도구 설정 */
+export function resolveRasterTool(activeTool: string, options: ToolOptions): RasterTool | null {
+  switch (activeTool) {
+    case 'paint':
+      return { ...DEFAULT_BRUSH, ...options.brush };
+    case 'eraser':
+      return { ...DEFAULT_ERASER, ...options.eraser };
+    case 'blur':
+      return { ...DEFAULT_BLUR, ...options.blur };
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Surfaces
+// ============================================
+
+/** 그리기용 캔버스 (가능하면 OffscreenCanvas) */
+export function createRasterSurface(width: number, height: number): RasterSurface {
+  const w = Math.max(1, Math.ceil(width));
+  const h = Math.max(1, Math.ceil(height));
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(w, h);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  return canvas;
+}
+
+export function getRasterContext(surface: RasterSurface): RasterContext {
+  const ctx = surface.getContext('2d') as RasterContext | null;
+  if (!ctx) {
+    throw new Error('Failed to get 2D context');
+  }
+  return ctx;
+}
+
+/** 캔버스 → PNG data URL */
+export async function surfaceToDataUrl(surface: RasterSurface): Promise<string> {
+  if ('toDataURL' in surface) {
+    return surface.toDataURL('image/png');
+  }
+  const blob = await surface.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** 캔버스 내용 복사본 (스트로크 시작 시점 스냅샷) */
+export function cloneSurface(source: RasterSurface): RasterSurface {
+  const copy = createRasterSurface(source.width, source.height);
+  getRasterContext(copy).drawImage(source, 0, 0);
+  return copy;
+}
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * 도장들을 알파 마스크로 찍은 임시 캔버스
+ * 한 스트로크 안에서 겹친 도장은 불투명도가 누적되지 않도록 먼저 마스크로 합친 뒤 한 번에 합성한다.
+ */
+function dabMask(ctx: RasterContext, dabs: BrushDab[], hardness: number, scale: number): RasterSurface {
+  const mask = createRasterSurface(ctx.canvas.width, ctx.canvas.height);
+  const mctx = getRasterContext(mask);
+  const hard = Math.max(0, Math.min(1, hardness));
+
+  for (const dab of dabs) {
+    const x = dab.x * scale;
+    const y = dab.y * scale;
+    const r = Math.max(0.5, dab.radius * scale);
+    if (hard >= 1) {
+      mctx.fillStyle = '#000000';
+    } else {
+      const gradient = mctx.createRadialGradient(x, y, 0, x, y, r);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+      gradient.addColorStop(hard, 'rgba(0, 0, 0, 1)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      mctx.fillStyle = gradient;
+    }
+    mctx.beginPath();
+    mctx.arc(x, y, r, 0, Math.PI * 2);
+    mctx.fill();
+  }
+  return mask;
+}
+
+function paintBrush(ctx: RasterContext, op: RasterOperation, tool: BrushTool, scale: number): void {
+  const mask = dabMask(ctx, strokeDabs(op.points, tool.size, op.pressures), tool.hardness, scale);
+  const mctx = getRasterContext(mask);
+  // 마스크 모양대로 색 채우기
+  mctx.globalCompositeOperation = 'source-in';
+  mctx.fillStyle = tool.color;
+  mctx.fillRect(0, 0, mask.width, mask.height);
+
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, tool.opacity));
+  ctx.drawImage(mask, 0, 0);
+  ctx.restore();
+}
+
+function paintErase(ctx: RasterContext, op: RasterOperation, tool: EraseTool, scale: number): void {
+  const mask = dabMask(ctx, strokeDabs(op.points, tool.size, op.pressures), tool.hardness, scale);
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(mask, 0, 0);
+  ctx.restore();
+}
+
+function paintFill(ctx: RasterContext, tool: BrushTool): void {
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, tool.opacity));
+  ctx.fillStyle = tool.color;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+}
+
+/** 블러 도장 하나: 주변을 가우시안 블러한 뒤 원 안쪽만 세기만큼 섞음 */
+function blurDab(ctx: RasterContext, dab: BrushDab, sigma: number, strength: number, scale: number): void {
+  const cx = dab.x * scale;
+  const cy = dab.y * scale;
+  const r = dab.radius * scale;
+  const pad = Math.ceil(sigma * 3);
+  const x0 = Math.max(0, Math.floor(cx - r - pad));
+  const y0 = Math.max(0, Math.floor(cy - r - pad));
+  const x1 = Math.min(ctx.canvas.width, Math.ceil(cx + r + pad));
+  const y1 = Math.min(ctx.canvas.height, Math.ceil(cy + r + pad));
+  const w = x1 - x0;
+  const h = y1 - y0;
+  if (w <= 0 || h <= 0 || r <= 0) return;
+
+  const region = ctx.getImageData(x0, y0, w, h);
+  const blurred = new Uint8ClampedArray(region.data);
+  gaussianBlurRGBA(blurred, w, h, sigma);
+
+  const data = region.data;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const d = Math.hypot(x0 + x + 0.5 - cx, y0 + y + 0.5 - cy) / r;
+      if (d >= 1) continue;
+      // 가장자리로 갈수록 약하게
+      const t = strength * (1 - d * d);
+      const i = (y * w + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[i + c] = data[i + c] + (blurred[i + c] - data[i + c]) * t;
+      }
+    }
+  }
+  ctx.putImageData(region, x0, y0);
+}
+
+/**
+ * 블러 스트로크의 도장을 fromDab부터 적용 (그리는 중에는 새 도장만 적용)
+ * @returns 적용 후 전체 도장 수
+ */
+export function applyBlurDabs(ctx: RasterContext, op: RasterOperation, scale: number, fromDab = 0): number {
+  const tool = op.tool as BlurTool;
+  const dabs = strokeDabs(op.points, tool.size, op.pressures);
+  const sigma = Math.max(0.5, tool.size * BLUR_SIGMA_RATIO * scale);
+  const strength = Math.max(0, Math.min(1, tool.strength));
+  for (let i = fromDab; i < dabs.length; i++) {
+    blurDab(ctx, dabs[i], sigma, strength, scale);
+  }
+  return dabs.length;
+}
+
+/**
+ * 연산 하나를 캔버스에 적용
+ * @param scale 편집 좌표 → 캔버스 픽셀 배율
+ */
+export function paintOperation(ctx: RasterContext, op: RasterOperation, scale: number): void {
+  const { tool } = op;
+  switch (tool.type) {
+    case 'brush':
+      if (op.kind === 'fill') paintFill(ctx, tool);
+      else paintBrush(ctx, op, tool, scale);
+      break;
+    case 'eraser':
+      paintErase(ctx, op, tool, scale);
+      break;
+    case 'blur':
+      applyBlurDabs(ctx, op, scale);
+      break;
+  }
+}
+
+/** 연산 목록 재생 (캔버스는 비어 있다고 가정) */
+export function replayOperations(ctx: RasterContext, operations: RasterOperation[], scale: number): void {
+  for (const op of operations) {
+    paintOperation(ctx, op, scale);
+  }
+}
+
+// ============================================
+// Layers
+// ============================================
+
+/** 그릴 내용이 있는 레이어인지 */
+export function hasRasterContent(layer: RasterLayer): boolean {
+  return layer.visible && (layer.operations.length > 0 || !!layer.canvasData);
+}
+
+async function loadBitmap(dataUrl: string): Promise<ImageBitmap> {
+  const blob = await (await fetch(dataUrl)).blob();
+  return createImageBitmap(blob);
+}
+
+/**
+ * 레이어를 페이지 크기 캔버스로 렌더링
+ * 연산이 있으면 지정 배율로 다시 재생하고(해상도 독립), 없으면 canvasData를 늘려 그린다.
+ */
+export async function renderRasterLayer(
+  layer: RasterLayer,
+  pageWidth: number,
+  pageHeight: number,
+  scale: number
+): Promise<RasterSurface> {
+  const surface = createRasterSurface(pageWidth * scale, pageHeight * scale);
+  const ctx = getRasterContext(surface);
+
+  if (layer.operations.length > 0) {
+    replayOperations(ctx, layer.operations, scale);
+  } else if (layer.canvasData) {
+    try {
+      ctx.drawImage(await loadBitmap(layer.canvasData), 0, 0, surface.width, surface.height);
+    } catch (error) {
+      logger.warn(`⚠️ [RasterEngine] Failed to load layer ${layer.id}:`, error);
+    }
+  }
+  return surface;
+}
+
+/** 레이어 PNG (캐시가 있으면 그대로, 없으면 화면 해상도로 재생) */
+export async function rasterLayerDataUrl(layer: RasterLayer, pageWidth: number, pageHeight: number): Promise<string> {
+  if (layer.canvasData) return layer.canvasData;
+  return surfaceToDataUrl(await renderRasterLayer(layer, pageWidth, pageHeight, RASTER_RESOLUTION));
+}
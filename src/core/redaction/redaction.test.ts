@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { buildPdfPageText } from "../search/textSearch";
+import type { PdfTextItem } from "../search/textSearch";
+import { buildTextLayer } from "../pdf/textLayer";
+import type { RedactionAnnotation } from "../model/types";
+import {
+  findSurvivingText,
+  matchRanges,
+  matchRedactions,
+  pageRedactionRegions,
+  presetPattern,
+  rectsIntersect,
+  redactedTextRuns,
+} from "./redaction";
+
+function item(str: string, x: number, y: number, hasEOL = false): PdfTextItem {
+  // 글자당 10pt, 글자 크기 10 → 사각형 높이 11
+  return { str, transform: [10, 0, 0, 10, x, y], width: str.length * 10, height: 10, hasEOL };
+}
+
+const toEditor = (r: { x: number; y: number; width: number; height: number }) => ({
+  x: r.x,
+  y: 800 - (r.y + r.height),
+  width: r.width,
+  height: r.height,
+});
+
+const layer = buildTextLayer(
+  buildPdfPageText([item("mail kim@example.com now", 0, 700, true), item("tel 010-1234-5678", 0, 680)]),
+  toEditor
+);
+
+function redaction(overrides: Partial<RedactionAnnotation> = {}): RedactionAnnotation {
+  return {
+    id: "r1",
+    pageId: "p1",
+    type: "redaction",
+    bbox: { x: 0, y: 0, width: 50, height: 20 },
+    createdAt: 0,
+    modifiedAt: 0,
+    style: { fill: "#000000" },
+    ...overrides,
+  };
+}
+
+describe("presets", () => {
+  it("matches emails, Korean phone numbers and resident registration numbers", () => {
+    const text = "a@b.co, 010-1234-5678, 02 123 4567, +82 10-9876-5432, 900101-1234567, 9001011234567";
+    expect(text.match(presetPattern("email"))).toEqual(["a@b.co"]);
+    expect(text.match(presetPattern("phone"))).toEqual(["010-1234-5678", "02 123 4567", "+82 10-9876-5432"]);
+    expect(text.match(presetPattern("rrn"))).toEqual(["900101-1234567", "9001011234567"]);
+  });
+
+  it("rejects numbers embedded in longer digit runs and invalid dates", () => {
+    expect("12010-1234-56789".match(presetPattern("phone"))).toBeNull();
+    expect("901301-1234567".match(presetPattern("rrn"))).toBeNull();
+  });
+});
+
+describe("matchRedactions", () => {
+  it("merges overlapping matches from several patterns", () => {
+    expect(matchRanges("abcdef", [/bcd/g, /cde/g, /a/g])).toEqual([{ start: 0, end: 5 }]);
+  });
+
+  it("turns matches into per-line quads with the matched text", () => {
+    const matches = matchRedactions(layer, [presetPattern("email"), presetPattern("phone")]);
+    expect(matches.map((m) => m.content)).toEqual(["kim@example.com", "010-1234-5678"]);
+    expect(matches[0].quads).toEqual([{ x: 50, y: 91, width: 150, height: 11 }]);
+  });
+});
+
+describe("regions", () => {
+  it("uses quads when present and the bbox otherwise", () => {
+    const quad = { x: 1, y: 2, width: 3, height: 4 };
+    expect(pageRedactionRegions([redaction({ quads: [quad] }), redaction()])).toEqual([
+      quad,
+      { x: 0, y: 0, width: 50, height: 20 },
+    ]);
+  });
+
+  it("does not treat touching edges as intersecting", () => {
+    const a = { x: 0, y: 0, width: 10, height: 10 };
+    expect(rectsIntersect(a, { x: 10, y: 0, width: 5, height: 5 })).toBe(false);
+    expect(rectsIntersect(a, { x: 9, y: 9, width: 5, height: 5 })).toBe(true);
+  });
+});
+
+describe("verification", () => {
+  it("collects the glyph runs whose centres lie inside the regions", () => {
+    const [email] = matchRedactions(layer, [presetPattern("email")]);
+    expect(redactedTextRuns(layer, email.quads)).toEqual(["kim@example.com"]);
+    // 두 줄에 걸친 영역은 줄마다 따로
+    expect(redactedTextRuns(layer, [{ x: 0, y: 90, width: 30, height: 40 }])).toEqual(["mai", "tel"]);
+  });
+
+  it("finds redacted strings that survive extraction regardless of whitespace", () => {
+    expect(findSurvivingText("call 010 - 1234-5678 today", ["010-1234-5678", "kim@example.com"])).toEqual([
+      "010-1234-5678",
+    ]);
+    expect(findSurvivingText("a b c", ["a"])).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Redaction - 가림 영역 계산 (Canvas/pdf.js 없이 동작하는 순수 함수)
+ *
+ * 가림 주석의 영역, 패턴(이메일/전화번호/주민등록번호) 일치 → 영역 변환,
+ * 영역 아래 글자 추출, 내보낸 결과에 가린 텍스트가 남았는지 검사를 제공한다.
+ * 좌표는 편집 좌표계(좌상단 원점, 단위 = Page 단위) 기준이다.
+ */
+
+import { findMatches } from '../search/textSearch';
+import type { TextRange } from '../search/textSearch';
+import { selectionQuads, selectionText } from '../pdf/textLayer';
+import type { TextLayer } from '../pdf/textLayer';
+import type { Annotation, BBox, Page, RedactionAnnotation } from '../model/types';
+
+// ============================================
+// Regions
+// ============================================
+
+/** 가림 영역 (텍스트 선택이면 줄별 사각형, 아니면 bbox) */
+export function redactionRegions(annotation: RedactionAnnotation): BBox[] {
+  return annotation.quads?.length ? annotation.quads : [annotation.bbox];
+}
+
+/** 페이지 주석 중 가림 영역 전체 */
+export function pageRedactionRegions(annotations: Annotation[]): BBox[] {
+  return annotations.flatMap((a) => (a.type === 'redaction' ? redactionRegions(a) : []));
+}
+
+export function hasRedactions(page: Page): boolean {
+  return page.layers.annotations.some((a) => a.type === 'redaction');
+}
+
+/** 두 사각형이 겹치는지 (모서리만 닿는 경우 제외) */
+export function rectsIntersect(a: BBox, b: BBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function intersectsAny(rect: BBox, regions: BBox[]): boolean {
+  return regions.some((region) => rectsIntersect(rect, region));
+}
+
+function containsPoint(region: BBox, x: number, y: number): boolean {
+  return x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+}
+
+// ============================================
+// Patterns
+// ============================================
+
+export type RedactionPreset = 'email' | 'phone' | 'rrn';
+
+/** 미리 정의된 패턴 (숫자 앞뒤에 다른 숫자가 붙으면 일치하지 않음) */
+export const REDACTION_PRESETS: Record<RedactionPreset, string> = {
+  email: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}',
+  // 휴대전화 / 지역번호 / 070, 국가번호(+82) 허용
+  phone: '(?<!\\d)(?:\\+82[-.\\s]?|0)(?:1[016789]|2|[3-6][1-5]|70)[-.\\s]?\\d{3,4}[-.\\s]?\\d{4}(?!\\d)',
+  // 주민등록번호 / 외국인등록번호 (생년월일 6자리 + 성별 1-8 + 6자리)
+  rrn: '(?<!\\d)\\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\\d|3[01])-?[1-8]\\d{6}(?!\\d)',
+};
+
+export function presetPattern(preset: RedactionPreset): RegExp {
+  return new RegExp(REDACTION_PRESETS[preset], 'gu');
+}
+
+/** 여러 패턴의 일치 범위 (겹치거나 붙은 범위는 합침) */
+export function matchRanges(text: string, patterns: RegExp[]): TextRange[] {
+  const ranges = patterns.flatMap((pattern) => findMatches(text, pattern)).sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+export interface RedactionMatch {
+  quads: BBox[];
+  /** 일치한 텍스트 */
+  content: string;
+}
+
+/** 페이지 글자 배치에서 패턴 일치 → 가림 영역 */
+export function matchRedactions(layer: TextLayer, patterns: RegExp[]): RedactionMatch[] {
+  return matchRanges(layer.text, patterns)
+    .map((range) => ({ quads: selectionQuads(layer, range), content: selectionText(layer, range) }))
+    .filter((match) => match.quads.length > 0);
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * 영역 아래 글자들 (중심이 영역 안에 있는 글자를 이어지는 덩어리로)
+ * 내보내기 후 이 문자열이 남아 있으면 가림이 실패한 것이다.
+ */
+export function redactedTextRuns(layer: TextLayer, regions: BBox[]): string[] {
+  const runs: string[] = [];
+  let start = -1;
+  let end = -1;
+
+  const flush = () => {
+    if (start === -1) return;
+    const text = layer.text.slice(start, end).trim();
+    if (text) runs.push(text);
+    start = -1;
+  };
+
+  for (const glyph of layer.glyphs) {
+    const cx = glyph.rect.x + glyph.rect.width / 2;
+    const cy = glyph.rect.y + glyph.rect.height / 2;
+    if (!regions.some((region) => containsPoint(region, cx, cy))) {
+      flush();
+      continue;
+    }
+    if (start !== -1 && glyph.index !== end) flush();
+    if (start === -1) start = glyph.index;
+    end = glyph.index + 1;
+  }
+  flush();
+
+  return runs;
+}
+
+/** 한 글자짜리는 다른 텍스트와 우연히 겹치므로 검사하지 않음 */
+const MIN_VERIFY_LENGTH = 2;
+
+function normalizeForCompare(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * 추출한 텍스트에 남아 있는 가린 문자열
+ * 추출기마다 공백 처리가 다르므로 공백을 모두 지우고 비교한다.
+ */
+export function findSurvivingText(extracted: string, redacted: string[]): string[] {
+  const haystack = normalizeForCompare(extracted);
+  return redacted.filter((text) => {
+    const needle = normalizeForCompare(text);
+    return needle.length >= MIN_VERIFY_LENGTH && haystack.includes(needle);
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Redaction Verifier - 내보낸 PDF에 가린 텍스트가 남았는지 검사
+ *
+ * 내보내기 전에 페이지마다 가려질 문자열(원본 PDF 글자, OCR 단어, 가림 주석 내용)을 모으고,
+ * 저장한 PDF를 pdf.js로 다시 열어 그 페이지에서 추출한 텍스트에 남아 있으면 실패시킨다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Page } from '../model/types';
+import { openPdfBytes } from '../pdf/pdfLoader';
+import { loadPageTextLayer } from '../pdf/textLayer';
+import { getPdfPageText } from '../search/textSearch';
+import { findSurvivingText, intersectsAny, pageRedactionRegions, redactedTextRuns } from './redaction';
+
+export interface RedactionExpectation {
+  /** 출력 PDF 페이지 번호 (1부터) */
+  pageNumber: number;
+  /** 남아 있으면 안 되는 문자열 */
+  strings: string[];
+}
+
+/**
+ * 페이지에서 가려지는 문자열 수집
+ */
+export async function collectRedactedStrings(
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<string[]> {
+  const regions = pageRedactionRegions(page.layers.annotations);
+  const strings = new Set<string>();
+
+  for (const annotation of page.layers.annotations) {
+    if (annotation.type === 'redaction' && annotation.content) strings.add(annotation.content);
+    if (annotation.type === 'ocr' && intersectsAny(annotation.bbox, regions)) strings.add(annotation.content);
+  }
+
+  const proxy = page.pdfRef?.appendedFrom ? insertedPdfProxies?.get(page.pdfRef.appendedFrom) ?? null : pdfProxy;
+  if (proxy && page.pdfRef) {
+    try {
+      const layer = await loadPageTextLayer(proxy, page);
+      if (layer) redactedTextRuns(layer, regions).forEach((text) => strings.add(text));
+    } catch (error) {
+      console.warn(`⚠️ [Redaction] Failed to read source text of page ${page.id}:`, error);
+    }
+  }
+
+  return [...strings];
+}
+
+/**
+ * 저장된 PDF 재검사
+ * @throws 가린 문자열이 출력 페이지 텍스트에 남아 있으면
+ */
+export async function verifyRedactedPdf(pdfBytes: Uint8Array, expectations: RedactionExpectation[]): Promise<void> {
+  if (expectations.length === 0) return;
+
+  const output = await openPdfBytes(pdfBytes);
+  try {
+    for (const { pageNumber, strings } of expectations) {
+      const pageText = await getPdfPageText(output, pageNumber - 1);
+      const surviving = findSurvivingText(pageText.text, strings);
+      if (surviving.length > 0) {
+        throw new Error(`Redaction verification failed: ${surviving.length} redacted text run(s) still extractable on page ${pageNumber}`);
+      }
+    }
+  } finally {
+    await output.destroy();
+  }
+}
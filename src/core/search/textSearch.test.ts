@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPdfPageText,
+  buildSearchPattern,
+  findMatches,
+  makeSnippet,
+  rangeToPdfRects,
+  searchDocument,
+  DEFAULT_SEARCH_OPTIONS,
+} from "./textSearch";
+import type { PdfTextItem } from "./textSearch";
+import type { Annotation, Page } from "../model/types";
+
+function item(str: string, x: number, y: number, width: number, hasEOL = false): PdfTextItem {
+  return { str, transform: [10, 0, 0, 10, x, y], width, height: 10, hasEOL };
+}
+
+function page(overrides: Partial<Page>): Page {
+  return { id: "p1", docId: "d1", index: 0, width: 100, height: 100, rotation: 0, layers: { annotations: [], rasters: [] }, ...overrides };
+}
+
+describe("buildSearchPattern", () => {
+  it("escapes plain queries and ignores case by default", () => {
+    const pattern = buildSearchPattern("a.b", DEFAULT_SEARCH_OPTIONS)!;
+    expect(findMatches("A.B axb a.b", pattern)).toEqual([{ start: 0, end: 3 }, { start: 8, end: 11 }]);
+  });
+
+  it("supports case-sensitive, whole-word and regex options", () => {
+    const caseSensitive = buildSearchPattern("Note", { ...DEFAULT_SEARCH_OPTIONS, caseSensitive: true })!;
+    expect(findMatches("note Note", caseSensitive)).toEqual([{ start: 5, end: 9 }]);
+
+    const wholeWord = buildSearchPattern("계약", { ...DEFAULT_SEARCH_OPTIONS, wholeWord: true })!;
+    expect(findMatches("계약서 계약 (계약)", wholeWord)).toHaveLength(2);
+
+    const regex = buildSearchPattern("\\d{3}-\\d{4}", { ...DEFAULT_SEARCH_OPTIONS, regex: true })!;
+    expect(findMatches("call 555-1234 now", regex)).toEqual([{ start: 5, end: 13 }]);
+  });
+
+  it("returns null for empty queries and invalid regexes", () => {
+    expect(buildSearchPattern("", DEFAULT_SEARCH_OPTIONS)).toBeNull();
+    expect(buildSearchPattern("(", { ...DEFAULT_SEARCH_OPTIONS, regex: true })).toBeNull();
+  });
+
+  it("skips empty regex matches", () => {
+    const pattern = buildSearchPattern("x*", { ...DEFAULT_SEARCH_OPTIONS, regex: true })!;
+    expect(findMatches("axxb", pattern)).toEqual([{ start: 1, end: 3 }]);
+  });
+});
+
+describe("makeSnippet", () => {
+  it("adds context and ellipses around the match", () => {
+    const text = "0123456789 hello world 0123456789";
+    expect(makeSnippet(text, { start: 11, end: 16 }, 5)).toEqual({ before: "…6789 ", match: "hello", after: " worl…" });
+  });
+});
+
+describe("rangeToPdfRects", () => {
+  it("finds matches spanning text items and maps each part to a rectangle", () => {
+    const pageText = buildPdfPageText([item("Hello Wo", 100, 700, 80), item("rld again", 180, 700, 90, true), item("next", 100, 680, 40)]);
+    expect(pageText.text).toBe("Hello World again next");
+
+    const [range] = findMatches(pageText.text, buildSearchPattern("world", DEFAULT_SEARCH_OPTIONS)!);
+    const rects = rangeToPdfRects(pageText, range);
+
+    expect(rects).toHaveLength(2);
+    // "Wo" = 8글자 중 6~8번째, "rld" = 9글자 중 0~3번째 (글자 폭 10)
+    expect(rects[0]).toMatchObject({ x: 160, width: 20 });
+    expect(rects[1]).toMatchObject({ x: 180, width: 30 });
+    expect(rects[0].y).toBeCloseTo(698);
+    expect(rects[0].height).toBeCloseTo(11);
+  });
+});
+
+describe("searchDocument", () => {
+  it("searches text pages and text/table annotations in page order", async () => {
+    const pages = [
+      page({ id: "p1", contentType: "text", textContent: "alpha beta" }),
+      page({ id: "p2", index: 1, contentType: "markdown", textContent: "# Beta" }),
+      page({ id: "p3", index: 2, contentType: "text", textContent: "beta", deleted: true }),
+    ];
+    const base = { bbox: { x: 0, y: 0, width: 10, height: 10 }, createdAt: 0, modifiedAt: 0 };
+    const cellStyle = {
+      fontSize: 12, fontFamily: "Arial", fontWeight: "normal", fontStyle: "normal", textAlign: "left",
+      verticalAlign: "top", color: "#000", backgroundColor: "#fff", backgroundOpacity: 0,
+    } as const;
+    const annotations = [
+      { ...base, id: "t1", pageId: "p2", type: "text", content: "beta note", style: { fontSize: 12, fontFamily: "Arial" } },
+      {
+        ...base, id: "tb", pageId: "p1", type: "table", rows: 1, cols: 2, colWidths: [5, 5], rowHeights: [10],
+        borderWidth: 1, borderColor: "#000", style: {},
+        cells: [[{ content: "gamma", style: cellStyle }, { content: "Beta cell", style: cellStyle }]],
+      },
+    ] as Annotation[];
+
+    const hits = await searchDocument("beta", DEFAULT_SEARCH_OPTIONS, { pages, annotations, pdfProxy: null });
+
+    expect(hits!.map((h) => [h.pageId, h.source, h.annotationId])).toEqual([
+      ["p1", "text", undefined],
+      ["p1", "annotation", "tb"],
+      ["p2", "text", undefined],
+      ["p2", "annotation", "t1"],
+    ]);
+    expect(new Set(hits!.map((h) => h.id)).size).toBe(hits!.length);
+  });
+
+  it("stops when cancelled", async () => {
+    const hits = await searchDocument("a", DEFAULT_SEARCH_OPTIONS, {
+      pages: [page({ contentType: "text", textContent: "a" })],
+      annotations: [],
+      pdfProxy: null,
+      isCancelled: () => true,
+    });
+    expect(hits).toBeNull();
+  });
+});
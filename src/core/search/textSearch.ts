@@ -0,0 +1,299 @@
+/**
+ * Text Search - 문서 전체 텍스트 검색
+ *
+ * 검색 대상:
+ *  - PDF 페이지: pdf.js getTextContent()의 텍스트 아이템 (히트 사각형 = PDF 사용자 공간)
+ *  - 텍스트/마크다운 페이지: Page.textContent
+ *  - 주석: TextAnnotation.content, TableAnnotation 셀, OCRAnnotation 단어, BarcodeAnnotation 값 (히트 위치 = 주석 bbox)
+ *
+ * PDF 아이템은 페이지 단위로 이어 붙여 검색하므로 여러 아이템에 걸친 일치도 찾는다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { Annotation, BBox, Page } from '../model/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SearchHit {
+  id: string;
+  pageId: string;
+  source: 'pdf' | 'text' | 'annotation';
+  snippet: SearchSnippet;
+  /** PDF 히트: PDF 사용자 공간 사각형 (좌하단 원점) */
+  pdfRects?: BBox[];
+  /** 주석 히트: 일치한 주석 */
+  annotationId?: string;
+}
+
+/** 검색에 필요한 pdf.js 텍스트 아이템 필드 */
+export type PdfTextItem = Pick<TextItem, 'str' | 'transform' | 'width' | 'height' | 'hasEOL'>;
+
+/** 페이지 텍스트 (아이템을 이어 붙인 문자열 + 아이템별 시작 위치) */
+export interface PdfPageText {
+  text: string;
+  items: PdfTextItem[];
+  /** items[i]가 text에서 시작하는 위치 */
+  offsets: number[];
+}
+
+// ============================================
+// Pattern
+// ============================================
+
+/** 단어 경계 (한글 등 유니코드 문자 포함) */
+const WORD_BEFORE = '(?<![\\p{L}\\p{N}_])';
+const WORD_AFTER = '(?![\\p{L}\\p{N}_])';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 검색어 → 정규식
+ * @returns 빈 검색어이거나 잘못된 정규식이면 null
+ */
+export function buildSearchPattern(query: string, options: SearchOptions): RegExp | null {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `${WORD_BEFORE}(?:${source})${WORD_AFTER}`;
+
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+  } catch {
+    return null;
+  }
+}
+
+/** 모든 일치 범위 (빈 일치는 제외) */
+export function findMatches(text: string, pattern: RegExp): TextRange[] {
+  const ranges: TextRange[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+}
+
+const SNIPPET_CONTEXT = 30;
+
+export function makeSnippet(text: string, range: TextRange, context = SNIPPET_CONTEXT): SearchSnippet {
+  const collapse = (s: string) => s.replace(/\s+/g, ' ');
+  const beforeStart = Math.max(0, range.start - context);
+  const afterEnd = Math.min(text.length, range.end + context);
+  return {
+    before: (beforeStart > 0 ? '…' : '') + collapse(text.slice(beforeStart, range.start)).trimStart(),
+    match: collapse(text.slice(range.start, range.end)),
+    after: collapse(text.slice(range.end, afterEnd)).trimEnd() + (afterEnd < text.length ? '…' : ''),
+  };
+}
+
+// ============================================
+// PDF Text
+// ============================================
+
+/** 텍스트 아이템을 이어 붙임 (줄바꿈 아이템 뒤에는 공백) */
+export function buildPdfPageText(items: PdfTextItem[]): PdfPageText {
+  let text = '';
+  const offsets: number[] = [];
+  for (const item of items) {
+    offsets.push(text.length);
+    text += item.str;
+    if (item.hasEOL) text += ' ';
+  }
+  return { text, items, offsets };
+}
+
+/**
+ * 아이템 안의 글자 범위 [from, to) → 사각형 (PDF 사용자 공간)
+ * 글자 위치는 아이템 폭을 글자 수로 나눠 근사한다.
+ */
+export function itemRangeRect(item: PdfTextItem, from: number, to: number): BBox {
+  const [a, b, c, d, e, f] = item.transform;
+  const fontHeight = Math.hypot(c, d) || item.height;
+  const length = Math.hypot(a, b) > 0 ? item.width : 0;
+  const charWidth = item.str.length > 0 ? length / item.str.length : 0;
+  const angle = Math.atan2(b, a);
+
+  const left = from * charWidth;
+  const right = to * charWidth;
+  // 기준선 아래(descent)까지 포함
+  const bottom = -fontHeight * 0.2;
+  const top = fontHeight * 0.9;
+
+  if (Math.abs(angle) < 1e-3) {
+    return { x: e + left, y: f + bottom, width: right - left, height: top - bottom };
+  }
+
+  // 회전된 텍스트: 회전된 사각형의 외곽 bbox
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const corners = [[left, bottom], [right, bottom], [right, top], [left, top]].map(([x, y]) => [
+    e + x * cos - y * sin,
+    f + x * sin + y * cos,
+  ]);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+}
+
+/** 일치 범위 → 아이템별 사각형 (PDF 사용자 공간) */
+export function rangeToPdfRects(pageText: PdfPageText, range: TextRange): BBox[] {
+  const rects: BBox[] = [];
+  pageText.items.forEach((item, i) => {
+    const itemStart = pageText.offsets[i];
+    const start = Math.max(range.start, itemStart);
+    const end = Math.min(range.end, itemStart + item.str.length);
+    if (start >= end) return;
+    rects.push(itemRangeRect(item, start - itemStart, end - itemStart));
+  });
+  return rects;
+}
+
+const pageTextCache = new WeakMap<PDFDocumentProxy, Map<number, Promise<PdfPageText>>>();
+
+/** PDF 페이지 텍스트 (proxy/페이지별 캐시) */
+export function getPdfPageText(pdfProxy: PDFDocumentProxy, pageIndex: number): Promise<PdfPageText> {
+  let cache = pageTextCache.get(pdfProxy);
+  if (!cache) {
+    cache = new Map();
+    pageTextCache.set(pdfProxy, cache);
+  }
+
+  let pending = cache.get(pageIndex);
+  if (!pending) {
+    pending = pdfProxy
+      .getPage(pageIndex + 1)
+      .then((page) => page.getTextContent())
+      .then((content) => buildPdfPageText(content.items.filter((item): item is TextItem => 'str' in item)));
+    pending.catch(() => cache.delete(pageIndex));
+    cache.set(pageIndex, pending);
+  }
+  return pending;
+}
+
+// ============================================
+// Annotation Text
+// ============================================
+
+/** 검색 가능한 주석 텍스트 (텍스트 주석 내용, 표 셀, OCR 단어) */
+export function getAnnotationSearchTexts(annotation: Annotation): string[] {
+  if (annotation.type === 'text' || annotation.type === 'ocr') return [annotation.content];
+  if (annotation.type === 'barcode') return [annotation.value];
+  if (annotation.type === 'table') {
+    return annotation.cells.flat().map((cell) => cell.content).filter(Boolean);
+  }
+  return [];
+}
+
+// ============================================
+// Document Search
+// ============================================
+
+export interface SearchDocumentInput {
+  pages: Page[];
+  annotations: Annotation[];
+  pdfProxy: PDFDocumentProxy | null;
+  insertedPdfProxies?: Map<string, PDFDocumentProxy>;
+  /** 취소 여부 (새 검색이 시작되면 true) */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * 문서 전체 검색 (페이지 순서대로, 페이지 내에서는 본문 → 주석)
+ * @returns 취소되면 null
+ */
+export async function searchDocument(
+  query: string,
+  options: SearchOptions,
+  input: SearchDocumentInput
+): Promise<SearchHit[] | null> {
+  const pattern = buildSearchPattern(query, options);
+  if (!pattern) return [];
+
+  const hits: SearchHit[] = [];
+  const pages = input.pages.filter((p) => !p.deleted);
+
+  for (const page of pages) {
+    if (input.isCancelled?.()) return null;
+
+    if (page.contentType === 'text' || page.contentType === 'markdown') {
+      const text = page.textContent ?? '';
+      findMatches(text, pattern).forEach((range, i) => {
+        hits.push({ id: `${page.id}:text:${i}`, pageId: page.id, source: 'text', snippet: makeSnippet(text, range) });
+      });
+    } else if (page.pdfRef) {
+      const proxy = page.pdfRef.appendedFrom
+        ? input.insertedPdfProxies?.get(page.pdfRef.appendedFrom) ?? null
+        : input.pdfProxy;
+      if (proxy) {
+        try {
+          const pageText = await getPdfPageText(proxy, page.pdfRef.sourceIndex - 1);
+          findMatches(pageText.text, pattern).forEach((range, i) => {
+            hits.push({
+              id: `${page.id}:pdf:${i}`,
+              pageId: page.id,
+              source: 'pdf',
+              snippet: makeSnippet(pageText.text, range),
+              pdfRects: rangeToPdfRects(pageText, range),
+            });
+          });
+        } catch (error) {
+          console.warn(`⚠️ [Search] Failed to read text of page ${page.id}:`, error);
+        }
+      }
+    }
+
+    for (const annotation of input.annotations) {
+      if (annotation.pageId !== page.id) continue;
+      getAnnotationSearchTexts(annotation).forEach((text, textIndex) => {
+        findMatches(text, pattern).forEach((range, i) => {
+          hits.push({
+            id: `${page.id}:${annotation.id}:${textIndex}:${i}`,
+            pageId: page.id,
+            source: 'annotation',
+            snippet: makeSnippet(text, range),
+            annotationId: annotation.id,
+          });
+        });
+      });
+    }
+  }
+
+  return hits;
+}
@@ -8,7 +8,15 @@ import { logger } from '../../utils/logger';
 
 import { usePDFStore } from '../../state/stores/PDFStore';
 import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { HistoryAction, HistorySnapshot } from '../../state/stores/HistoryStore';
+import { useDocumentStore } from '../../state/documentStore';
 import { createPage } from '../model/factories';
+import type { Page } from '../model/types';
+import { readRawAnnotationFields } from '../pdf/annotationImport';
+import type { RawAnnotationFields } from '../pdf/annotationImport';
+import { writeProjectArchive, readProjectArchive } from '../io/projectFile';
 import {
   readFileAsDataUrl,
   getImageDimensions,
@@ -24,6 +32,46 @@ import {
 
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 
+/**
+ * pdf.js가 노출하지 않는 주석 필드 읽기 (실패해도 가져오기는 계속)
+ */
+async function readRawFieldsSafe(bytes: Uint8Array): Promise<Map<string, RawAnnotationFields> | undefined> {
+  try {
+    return await readRawAnnotationFields(bytes);
+  } catch (error) {
+    console.warn('⚠️ [FileService] Failed to read raw annotation fields:', error);
+    return undefined;
+  }
+}
+
+/**
+ * 페이지의 PDF 주석을 편집 가능한 주석으로 가져오기
+ */
+async function importPageAnnotations(
+  pdfProxy: PDFDocumentProxy,
+  pageIndex: number,
+  page: Page,
+  raw?: Map<string, RawAnnotationFields>
+): Promise<void> {
+  const { loadPageAnnotations } = await import('../pdf/pdfLoader');
+  const annotations = await loadPageAnnotations(pdfProxy, pageIndex, page, raw);
+  if (!annotations || !page.pdfRef) return;
+
+  page.pdfRef.annotationsImported = true;
+  page.layers.annotations = annotations;
+  const { addAnnotation } = useAnnotationStore.getState();
+  annotations.forEach((annotation) => addAnnotation(annotation));
+}
+
+/**
+ * 페이지의 AcroForm 위젯을 입력 가능한 양식 필드로 가져오기
+ */
+async function importPageFormFields(pdfProxy: PDFDocumentProxy, pageIndex: number, page: Page): Promise<void> {
+  const { loadPageFormFields } = await import('../pdf/pdfLoader');
+  const fields = await loadPageFormFields(pdfProxy, pageIndex, page);
+  if (fields && fields.length > 0) page.formFields = fields;
+}
+
 export class FileService {
   /**
    * PDF 파일 로딩
@@ -40,7 +88,10 @@ export class FileService {
       const pageCount = pdfProxy.numPages;
       logger.debug(`📄 [FileService] PDF has ${pageCount} pages`);
 
-      const doc = initNewDocument(file.name, file.size, 'pdf');
+      // 벡터 PDF 내보내기(copyPages)를 위해 원본 바이트 보관
+      const originalBytes = new Uint8Array(await file.arrayBuffer());
+      const doc = initNewDocument(file.name, file.size, 'pdf', originalBytes);
+      const rawFields = await readRawFieldsSafe(originalBytes);
 
       for (let i = 0; i < pageCount; i++) {
         let width = 595, height = 842;
@@ -61,6 +112,8 @@ export class FileService {
           rotation: 0,
           pdfRef: { sourceIndex: i + 1 },
         });
+        await importPageAnnotations(pdfProxy, i, page, rawFields);
+        await importPageFormFields(pdfProxy, i, page);
 
         usePageStore.getState().addPage(page);
         logger.debug(`✅ [FileService] Added page ${i + 1}/${pageCount}`);
@@ -149,9 +202,11 @@ export class FileService {
       const pdfjsLib = await import('pdfjs-dist');
       const arrayBuffer = await file.arrayBuffer();
       const pdfData = new Uint8Array(arrayBuffer);
+      const rawFields = await readRawFieldsSafe(pdfData);
 
+      // pdf.js가 버퍼를 워커로 넘기므로 복사본 전달
       const loadingTask = pdfjsLib.getDocument({
-        data: pdfData,
+        data: pdfData.slice(),
         cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.0.379/cmaps/',
         cMapPacked: true,
       });
@@ -160,6 +215,9 @@ export class FileService {
       const pageCount = pdfProxy.numPages;
       logger.debug(`📄 [FileService] Appending PDF: ${file.name} (${pageCount} pages)`);
 
+      // 추가된 페이지와 가져온 주석을 한 번에 실행 취소
+      const actions: HistoryAction[] = [];
+
       for (let i = 0; i < pageCount; i++) {
         let width = 595, height = 842;
 
@@ -178,10 +236,20 @@ export class FileService {
           rotation: 0,
           pdfRef: { sourceIndex: i + 1, appendedFrom: file.name },
         });
+        await importPageAnnotations(pdfProxy as PDFDocumentProxy, i, page, rawFields);
+        await importPageFormFields(pdfProxy as PDFDocumentProxy, i, page);
 
+        const index = usePageStore.getState().pages.length;
         usePageStore.getState().addPage(page);
+        actions.push({ type: 'page', pageId: page.id, before: null, after: page, index });
+        for (const annotation of page.layers.annotations) {
+          actions.push({ type: 'add', annotationId: annotation.id, pageId: page.id, before: null, after: { ...annotation } });
+        }
       }
 
+      if (actions.length > 0) {
+        useHistoryStore.getState().pushAction('PDF 추가', actions);
+      }
       selectPageAtIndex(startIndex);
       logger.debug(`✅ [FileService] Appended ${pageCount} pages from ${file.name}`);
 
@@ -218,7 +286,9 @@ export class FileService {
         contentType: 'image' as const,
       };
 
+      const index = usePageStore.getState().pages.length;
       usePageStore.getState().addPage(page);
+      useHistoryStore.getState().pushAction('이미지 추가', [{ type: 'page', pageId: page.id, before: null, after: page, index }]);
       usePageStore.getState().setCurrentPage(page.id);
       logger.debug(`🖼️ [FileService] Appended image: ${file.name} (${width}x${height})`);
     } catch (error) {
@@ -227,6 +297,138 @@ export class FileService {
     }
   }
 
+  /**
+   * 현재 편집 세션을 프로젝트 파일(.jflux) 바이트로 저장
+   * 자동 저장처럼 자주 호출되는 경우 히스토리/썸네일 생성을 생략할 수 있다.
+   */
+  static async saveProjectFile(
+    insertedPdfProxies?: Map<string, PDFDocumentProxy>,
+    { includeHistory = true, includeThumbnails = true }: { includeHistory?: boolean; includeThumbnails?: boolean } = {}
+  ): Promise<Uint8Array> {
+    const { document } = useDocumentStore.getState();
+    if (!document) throw new Error('No document to save');
+
+    const { pages, currentPageId } = usePageStore.getState();
+    const { pdfProxy, globalRotation } = usePDFStore.getState();
+    const { generateThumbnail } = await import('../pdf/pdfLoader');
+
+    // 원본 바이트가 없으면 (이전 세션에서 로드된 경우 등) proxy에서 다시 가져옴
+    let originalBytes = document.source.originalBytes;
+    if ((!originalBytes || originalBytes.byteLength === 0) && pdfProxy) {
+      originalBytes = await pdfProxy.getData();
+    }
+
+    const insertedSources = new Map<string, Uint8Array>();
+    for (const page of pages) {
+      const name = page.pdfRef?.appendedFrom;
+      const proxy = name ? insertedPdfProxies?.get(name) : undefined;
+      if (name && proxy && !insertedSources.has(name)) {
+        insertedSources.set(name, await proxy.getData());
+      }
+    }
+
+    // PDF 페이지 썸네일 (프로젝트 목록/미리보기용)
+    const pagesWithThumbnails: Page[] = [];
+    for (const page of pages) {
+      const proxy = page.pdfRef?.appendedFrom ? insertedPdfProxies?.get(page.pdfRef.appendedFrom) : pdfProxy;
+      if (!includeThumbnails || page.thumbnail || !page.pdfRef || !proxy) {
+        pagesWithThumbnails.push(page);
+        continue;
+      }
+      try {
+        const dataUrl = await generateThumbnail(proxy, page.pdfRef.sourceIndex - 1, 150, page.rotation);
+        pagesWithThumbnails.push({
+          ...page,
+          thumbnail: { dataUrl, scale: 150 / page.width, width: 150, height: Math.round(150 * page.height / page.width) },
+        });
+      } catch {
+        pagesWithThumbnails.push(page);
+      }
+    }
+
+    const bytes = await writeProjectArchive({
+      document: { ...document, source: { ...document.source, originalBytes } },
+      pages: pagesWithThumbnails,
+      annotations: useAnnotationStore.getState().annotations,
+      currentPageId,
+      globalRotation,
+      insertedSources,
+      history: includeHistory ? useHistoryStore.getState().getSnapshot() : undefined,
+    });
+
+    logger.debug(`💾 [FileService] Project saved: ${pages.length} pages, ${(bytes.length / 1024).toFixed(1)} KB`);
+    return bytes;
+  }
+
+  /**
+   * 프로젝트 파일(.jflux)에서 편집 세션 복원
+   * 추가된 PDF의 proxy는 insertedPdfProxies에 다시 등록된다.
+   */
+  static async loadProjectFile(file: File, insertedPdfProxies?: Map<string, PDFDocumentProxy>): Promise<void> {
+    try {
+      const snapshot = await readProjectArchive(new Uint8Array(await file.arrayBuffer()));
+      const { document } = snapshot;
+      const originalBytes = document.source.originalBytes;
+
+      // 1. 원본 PDF
+      if (document.source.kind === 'pdf' && originalBytes) {
+        const pdfFile = new File([originalBytes.slice()], document.source.fileName, { type: 'application/pdf' });
+        await usePDFStore.getState().loadPdf(pdfFile);
+        if (!usePDFStore.getState().pdfProxy) throw new Error('PDF proxy is not available');
+      } else {
+        usePDFStore.getState().clearPdf();
+      }
+      useDocumentStore.getState().setDocument(document);
+
+      // 2. 추가된 PDF
+      const pdfjsLib = await import('pdfjs-dist');
+      insertedPdfProxies?.clear();
+      const proxies = new Map<string, PDFDocumentProxy>();
+      for (const [name, bytes] of snapshot.insertedSources) {
+        const proxy = await pdfjsLib.getDocument({
+          data: bytes.slice(),
+          cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.0.379/cmaps/',
+          cMapPacked: true,
+        }).promise;
+        proxies.set(name, proxy as PDFDocumentProxy);
+        insertedPdfProxies?.set(name, proxy as PDFDocumentProxy);
+      }
+
+      // 3. 가져온 PDF 주석은 프로젝트의 편집본으로 대체되므로 원본 렌더링에서 숨김
+      const { hideImportedAnnotations } = await import('../pdf/pdfLoader');
+      const mainProxy = usePDFStore.getState().pdfProxy;
+      for (const page of snapshot.pages) {
+        if (!page.pdfRef?.annotationsImported) continue;
+        const proxy = page.pdfRef.appendedFrom ? proxies.get(page.pdfRef.appendedFrom) : mainProxy;
+        if (proxy) await hideImportedAnnotations(proxy, page.pdfRef.sourceIndex - 1);
+      }
+
+      // 4. 페이지, 주석, 회전, 히스토리
+      usePageStore.getState().setPages(snapshot.pages);
+      useAnnotationStore.setState((state) => {
+        state.annotations = snapshot.annotations;
+        state.selection.selectedAnnotationIds = [];
+        state.selection.editingGroupId = null;
+      });
+      usePDFStore.setState({ globalRotation: snapshot.globalRotation });
+      if (snapshot.history) {
+        useHistoryStore.getState().restoreSnapshot(snapshot.history as HistorySnapshot);
+      } else {
+        useHistoryStore.getState().resetHistory();
+      }
+
+      selectFirstPage();
+      if (snapshot.currentPageId && snapshot.pages.some((p) => p.id === snapshot.currentPageId)) {
+        usePageStore.getState().setCurrentPage(snapshot.currentPageId);
+      }
+
+      logger.debug(`📂 [FileService] Project restored: ${file.name} (${snapshot.pages.length} pages)`);
+    } catch (error) {
+      console.error('Failed to load project:', error);
+      throw error;
+    }
+  }
+
   // ── 유틸 위임 (하위 호환) ──
   static validateFileType = validateFileType;
   static validateFileSize = validateFileSize;
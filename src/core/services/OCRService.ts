@@ -0,0 +1,419 @@
+import { logger } from '../../utils/logger';
+/**
+ * OCRService - tesseract.js 기반 문자 인식
+ *
+ * 이미지 페이지와 텍스트 레이어가 없는 (스캔) PDF 페이지를 래스터화해
+ * 웹 워커에서 tesseract로 인식하고, 단어 단위 OCRAnnotation을 만든다.
+ * 진행 상황은 EVENTS.OCR_* 이벤트로 페이지별로 알리며 작업은 취소할 수 있다.
+ *
+ * 오프라인 동작:
+ *  - 워커/코어 스크립트는 번들 자산으로 포함된다 (CDN을 사용하지 않음)
+ *  - 언어 데이터(<lang>.traineddata)는 config.langPath에서 읽는다
+ *    (기본값: <BASE_URL>tessdata, VITE_OCR_LANG_PATH로 변경 가능)
+ *  - 그 경로에 파일이 없으면 config.cdnFallback일 때만 tesseract.js 기본 CDN에서 받는다
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Page } from '../model/types';
+import type { OCRAnnotation } from '../../types/annotation';
+import { eventBus } from '../events/EventBus';
+import { EVENTS } from '../events/EventTypes';
+import { getPdfPageText } from '../search/textSearch';
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  canRecognizePage,
+  collectWords,
+  isScannedPageText,
+  toLanguageString,
+  wordsToAnnotations,
+} from '../ocr/ocrLayer';
+import type { OcrBlock, OcrWord } from '../ocr/ocrLayer';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OCRServiceConfig {
+  /** <lang>.traineddata가 있는 경로 (상대 경로는 현재 페이지 기준) */
+  langPath: string;
+  /** traineddata가 .gz로 압축되어 있는지 */
+  gzip: boolean;
+  /** langPath에 언어 데이터가 없으면 tesseract.js 기본 CDN에서 받기 */
+  cdnFallback: boolean;
+  /** 워커 스크립트 경로 (미지정 시 번들 자산) */
+  workerPath?: string;
+  /** tesseract-core 스크립트 경로 (미지정 시 번들 자산) */
+  corePath?: string;
+  /** 인식용 래스터 배율 (편집 좌표 1pt당 픽셀) */
+  renderScale: number;
+  /** 이 신뢰도(0-100) 미만의 단어는 버림 */
+  minConfidence: number;
+}
+
+export const DEFAULT_OCR_CONFIG: OCRServiceConfig = {
+  langPath: (import.meta.env.VITE_OCR_LANG_PATH as string | undefined) || `${import.meta.env.BASE_URL}tessdata`,
+  gzip: false,
+  cdnFallback: true,
+  renderScale: 300 / 72,
+  minConfidence: DEFAULT_MIN_CONFIDENCE,
+};
+
+/** 인식 엔진 (기본값: tesseract.js 워커) */
+export interface OCREngine {
+  recognize(image: HTMLCanvasElement): Promise<OcrWord[]>;
+  terminate(): Promise<void>;
+}
+
+/** 엔진 생성 (onProgress: tesseract 상태 문자열, 0-1 진행률) */
+export type OCREngineFactory = (
+  languages: string,
+  config: OCRServiceConfig,
+  onProgress: (status: string, progress: number) => void
+) => Promise<OCREngine>;
+
+/** 페이지 래스터화 (scale = 이미지 픽셀 / 편집 좌표 단위) */
+export type PageRasterizer = (
+  page: Page,
+  pdfProxy: PDFDocumentProxy | null,
+  renderScale: number
+) => Promise<{ image: HTMLCanvasElement; scale: number }>;
+
+export interface OCRRunOptions {
+  pages: Page[];
+  /** tesseract 언어 코드 (예: ['kor', 'eng']) */
+  languages: string[];
+  /** 페이지의 PDF (추가된 PDF는 해당 proxy) */
+  pdfProxyFor: (page: Page) => PDFDocumentProxy | null;
+  /** 텍스트 레이어가 있는 PDF 페이지도 인식 */
+  includeTextPages?: boolean;
+}
+
+export interface OCRPageResult {
+  pageId: string;
+  annotations: OCRAnnotation[];
+}
+
+export interface OCRRunResult {
+  jobId: string;
+  /** 인식을 마친 페이지 (취소 시 그때까지의 결과) */
+  pages: OCRPageResult[];
+  /** 대상이 아니라서 건너뛴 페이지 */
+  skippedPageIds: string[];
+  cancelled: boolean;
+}
+
+export interface OCRJob {
+  id: string;
+  result: Promise<OCRRunResult>;
+  cancel(): void;
+}
+
+// ============================================
+// Defaults (browser)
+// ============================================
+
+function absoluteUrl(path: string): string {
+  return new URL(path, window.location.href).href;
+}
+
+/** langPath에 모든 언어의 traineddata가 있는지 */
+async function hasLocalLanguageData(languages: string, config: OCRServiceConfig): Promise<boolean> {
+  const extension = config.gzip ? '.traineddata.gz' : '.traineddata';
+  const base = absoluteUrl(config.langPath.endsWith('/') ? config.langPath : `${config.langPath}/`);
+  const checks = languages.split('+').map(async (lang) => {
+    try {
+      const response = await fetch(new URL(`${lang}${extension}`, base), { method: 'HEAD' });
+      // 개발 서버는 없는 파일에도 index.html을 돌려준다
+      return response.ok && !(response.headers.get('content-type') ?? '').startsWith('text/html');
+    } catch {
+      return false;
+    }
+  });
+  return (await Promise.all(checks)).every(Boolean);
+}
+
+/** tesseract.js 워커 생성 (워커 내부에서 importScripts/fetch하므로 절대 경로로 전달) */
+const createTesseractEngine: OCREngineFactory = async (languages, config, onProgress) => {
+  const [{ createWorker, OEM }, workerAsset, coreAsset] = await Promise.all([
+    import('tesseract.js'),
+    import('tesseract.js/dist/worker.min.js?url'),
+    import('tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'),
+  ]);
+
+  const local = await hasLocalLanguageData(languages, config);
+  if (!local && !config.cdnFallback) {
+    throw new Error(`OCR language data not found at ${config.langPath}`);
+  }
+  if (!local) console.warn(`⚠️ [OCR] ${config.langPath}에 언어 데이터가 없어 tesseract.js CDN에서 받습니다`);
+
+  const worker = await createWorker(languages, OEM.LSTM_ONLY, {
+    // CDN은 tesseract.js 기본값 (undefined를 넘기면 기본값을 덮어쓰므로 키를 빼야 함)
+    ...(local ? { langPath: absoluteUrl(config.langPath), gzip: config.gzip } : {}),
+    workerPath: absoluteUrl(config.workerPath ?? workerAsset.default),
+    corePath: absoluteUrl(config.corePath ?? coreAsset.default),
+    logger: (m) => onProgress(m.status, m.progress),
+  });
+
+  return {
+    async recognize(image) {
+      const { data } = await worker.recognize(image, {}, { blocks: true, text: false });
+      return collectWords(data.blocks as OcrBlock[] | null);
+    },
+    async terminate() {
+      await worker.terminate();
+    },
+  };
+};
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load page image'));
+    image.src = src;
+  });
+}
+
+/** 이미지 페이지는 페이지 크기로, PDF 페이지는 편집 좌표와 같은 뷰포트로 렌더링 */
+const rasterizePage: PageRasterizer = async (page, pdfProxy, renderScale) => {
+  const canvas = document.createElement('canvas');
+
+  if (page.contentType === 'image' && page.imageUrl) {
+    const image = await loadImage(page.imageUrl);
+    canvas.width = Math.max(1, Math.round(page.width * renderScale));
+    canvas.height = Math.max(1, Math.round(page.height * renderScale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D context');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { image: canvas, scale: canvas.width / page.width };
+  }
+
+  if (!page.pdfRef || !pdfProxy) throw new Error(`Page ${page.id} has no renderable content`);
+
+  const pdfPage = await pdfProxy.getPage(page.pdfRef.sourceIndex);
+  const base = pdfPage.getViewport({ scale: 1.0 });
+  const pageScale = base.width > 0 ? page.width / base.width : 1;
+
+  const { renderPdfPage } = await import('../pdf/pdfLoader');
+  await renderPdfPage(pdfProxy, page.pdfRef.sourceIndex - 1, canvas, pageScale * renderScale);
+  return { image: canvas, scale: canvas.width / page.width };
+};
+
+// ============================================
+// OCRService
+// ============================================
+
+export class OCRService {
+  private config: OCRServiceConfig;
+  private createEngine: OCREngineFactory;
+  private rasterize: PageRasterizer;
+  private activeJob: OCRJob | null = null;
+
+  constructor(
+    config: Partial<OCRServiceConfig> = {},
+    createEngine: OCREngineFactory = createTesseractEngine,
+    rasterize: PageRasterizer = rasterizePage
+  ) {
+    this.config = { ...DEFAULT_OCR_CONFIG, ...config };
+    this.createEngine = createEngine;
+    this.rasterize = rasterize;
+  }
+
+  getConfig(): OCRServiceConfig {
+    return { ...this.config };
+  }
+
+  /** 언어 데이터 경로 등 설정 변경 (다음 작업부터 적용) */
+  configure(config: Partial<OCRServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get isRunning(): boolean {
+    return this.activeJob !== null;
+  }
+
+  /** 실행 중인 작업 취소 */
+  cancel(): void {
+    this.activeJob?.cancel();
+  }
+
+  /**
+   * OCR 작업 시작
+   * 한 번에 하나의 작업만 실행되며, 실행 중이면 이전 작업을 취소한다.
+   */
+  run(options: OCRRunOptions): OCRJob {
+    this.activeJob?.cancel();
+
+    const jobId = `ocr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    let cancelled = false;
+    let engine: OCREngine | null = null;
+    let rejectCancelled: (reason: Error) => void = () => {};
+    const cancelSignal = new Promise<never>((_, reject) => { rejectCancelled = reject; });
+    cancelSignal.catch(() => {});
+
+    const cancel = () => {
+      if (cancelled) return;
+      cancelled = true;
+      rejectCancelled(new Error('OCR cancelled'));
+      // 진행 중인 인식도 워커 종료로 중단
+      void engine?.terminate().catch(() => {});
+    };
+
+    const result = this.execute(jobId, options, {
+      isCancelled: () => cancelled,
+      untilCancelled: <T>(task: Promise<T>) => Promise.race([task, cancelSignal]),
+      setEngine: (created) => {
+        engine = created;
+        // 엔진 생성 중에 취소된 경우
+        if (cancelled) void created.terminate().catch(() => {});
+      },
+    }).finally(() => {
+      if (this.activeJob?.id === jobId) this.activeJob = null;
+    });
+
+    const job: OCRJob = { id: jobId, result, cancel };
+    this.activeJob = job;
+    return job;
+  }
+
+  // ============================================
+  // Internal
+  // ============================================
+
+  private async execute(
+    jobId: string,
+    options: OCRRunOptions,
+    control: {
+      isCancelled: () => boolean;
+      untilCancelled: <T>(task: Promise<T>) => Promise<T>;
+      setEngine: (engine: OCREngine) => void;
+    }
+  ): Promise<OCRRunResult> {
+    const result: OCRRunResult = { jobId, pages: [], skippedPageIds: [], cancelled: false };
+    const languages = toLanguageString(options.languages);
+    let engine: OCREngine | null = null;
+    let wordCount = 0;
+
+    // 진행률 콜백이 가리킬 현재 페이지
+    let current = { pageId: '', pageIndex: 0, totalPages: 0 };
+    const emitProgress = (status: string, pageProgress: number) => {
+      const { pageId, pageIndex, totalPages } = current;
+      if (!pageId) return;
+      eventBus.emit(EVENTS.OCR_PROGRESS, {
+        jobId,
+        pageId,
+        pageIndex,
+        totalPages,
+        pageProgress,
+        progress: totalPages > 0 ? (pageIndex + pageProgress) / totalPages : 0,
+        status,
+        timestamp: Date.now(),
+      });
+    };
+
+    try {
+      if (!languages) throw new Error('No OCR language selected');
+
+      const targets = await control.untilCancelled(this.selectPages(options, result.skippedPageIds));
+      eventBus.emit(EVENTS.OCR_STARTED, {
+        jobId,
+        languages,
+        totalPages: targets.length,
+        timestamp: Date.now(),
+      });
+      logger.debug(`🔤 [OCR] Recognizing ${targets.length} page(s) (${languages})`);
+
+      if (targets.length > 0) {
+        const pending = this.createEngine(languages, this.config, (status, progress) => {
+          // 엔진 로딩 진행률은 무시하고 인식 진행률만 페이지 진행률로 전달
+          if (status === 'recognizing text') emitProgress(status, progress);
+        });
+        pending.then(control.setEngine, () => {});
+        engine = await control.untilCancelled(pending);
+      }
+
+      for (let i = 0; i < targets.length; i++) {
+        const page = targets[i];
+        current = { pageId: page.id, pageIndex: i, totalPages: targets.length };
+        emitProgress('rasterizing', 0);
+
+        const { image, scale } = await control.untilCancelled(
+          this.rasterize(page, options.pdfProxyFor(page), this.config.renderScale)
+        );
+        const words = await control.untilCancelled(engine!.recognize(image));
+        const annotations = wordsToAnnotations(words, {
+          pageId: page.id,
+          scale,
+          language: languages,
+          minConfidence: this.config.minConfidence,
+        });
+
+        result.pages.push({ pageId: page.id, annotations });
+        wordCount += annotations.length;
+        emitProgress('done', 1);
+        eventBus.emit(EVENTS.OCR_PAGE_COMPLETED, {
+          jobId,
+          pageId: page.id,
+          pageIndex: i,
+          wordCount: annotations.length,
+          timestamp: Date.now(),
+        });
+      }
+
+      eventBus.emit(EVENTS.OCR_COMPLETED, { jobId, wordCount, timestamp: Date.now() });
+      logger.debug(`✅ [OCR] Recognized ${wordCount} word(s) on ${result.pages.length} page(s)`);
+    } catch (error) {
+      if (control.isCancelled()) {
+        result.cancelled = true;
+        eventBus.emit(EVENTS.OCR_CANCELLED, { jobId, timestamp: Date.now() });
+        logger.debug(`⏹️ [OCR] Cancelled after ${result.pages.length} page(s)`);
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('❌ [OCR] Recognition failed:', error);
+        eventBus.emit(EVENTS.OCR_FAILED, { jobId, error: message, timestamp: Date.now() });
+        throw error;
+      }
+    } finally {
+      if (engine && !control.isCancelled()) {
+        await engine.terminate().catch(() => {});
+      }
+    }
+
+    return result;
+  }
+
+  /** 인식 대상 페이지 선택 (텍스트 레이어가 있는 PDF 페이지는 기본적으로 제외) */
+  private async selectPages(options: OCRRunOptions, skipped: string[]): Promise<Page[]> {
+    const targets: Page[] = [];
+
+    for (const page of options.pages) {
+      if (!canRecognizePage(page)) {
+        skipped.push(page.id);
+        continue;
+      }
+
+      if (page.contentType !== 'image' && !options.includeTextPages) {
+        const pdfProxy = options.pdfProxyFor(page);
+        if (!pdfProxy) {
+          skipped.push(page.id);
+          continue;
+        }
+        try {
+          const pageText = await getPdfPageText(pdfProxy, page.pdfRef!.sourceIndex - 1);
+          if (!isScannedPageText(pageText)) {
+            skipped.push(page.id);
+            continue;
+          }
+        } catch (error) {
+          console.warn(`⚠️ [OCR] Failed to read text of page ${page.id}, recognizing anyway:`, error);
+        }
+      }
+
+      targets.push(page);
+    }
+
+    return targets;
+  }
+}
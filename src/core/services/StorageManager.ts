@@ -0,0 +1,347 @@
+import { logger } from '../../utils/logger';
+/**
+ * StorageManager - 편집 세션 자동 저장 및 복구
+ *
+ * 스토어 변경을 디바운스하여 현재 세션을 프로젝트 파일(.jflux) 형식으로
+ * IndexedDB에 저장한다. 원본 PDF 바이트까지 포함되므로 탭이 닫히거나
+ * 브라우저가 비정상 종료되어도 다음 실행 시 복구할 수 있다.
+ * 모든 데이터는 브라우저 로컬 저장소에만 기록된다.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useDocumentStore } from '../../state/documentStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useLayerStore } from '../../state/stores/LayerStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+
+// ============================================
+// Constants
+// ============================================
+
+/** 마지막 변경 후 저장까지 대기 시간 */
+export const AUTOSAVE_DELAY_MS = 2000;
+
+/** 보관할 최대 세션 수 (오래된 세션부터 삭제) */
+export const MAX_AUTOSAVE_SESSIONS = 5;
+
+const DB_NAME = 'justflux-autosave';
+const DB_VERSION = 1;
+const META_STORE = 'sessions';
+const ARCHIVE_STORE = 'archives';
+
+const THUMBNAIL_WIDTH = 96;
+
+// ============================================
+// Types
+// ============================================
+
+/** 복구 목록에 표시되는 세션 정보 */
+export interface AutosaveSessionMeta {
+  /** Document.id */
+  id: string;
+  name: string;
+  savedAt: number;
+  pageCount: number;
+  /** 첫 페이지 썸네일 (data URL) */
+  thumbnail?: string;
+}
+
+/** 세션 저장소 (기본값: IndexedDB) */
+export interface SessionBackend {
+  put(meta: AutosaveSessionMeta, archive: Uint8Array): Promise<void>;
+  list(): Promise<AutosaveSessionMeta[]>;
+  getArchive(id: string): Promise<Uint8Array | null>;
+  delete(id: string): Promise<void>;
+}
+
+/** 현재 세션을 캡처 (문서가 없으면 null) */
+export type SessionCapture = (
+  insertedPdfProxies: Map<string, PDFDocumentProxy>
+) => Promise<{ meta: AutosaveSessionMeta; archive: Uint8Array } | null>;
+
+// ============================================
+// IndexedDB Backend
+// ============================================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * 메타데이터와 아카이브를 별도 object store에 저장
+ * 복구 목록을 표시할 때 아카이브 바이트를 읽지 않기 위함
+ */
+export class IndexedDBSessionBackend implements SessionBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(ARCHIVE_STORE)) db.createObjectStore(ARCHIVE_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async put(meta: AutosaveSessionMeta, archive: Uint8Array): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([META_STORE, ARCHIVE_STORE], 'readwrite');
+    tx.objectStore(META_STORE).put(meta);
+    tx.objectStore(ARCHIVE_STORE).put(archive, meta.id);
+    await transactionDone(tx);
+  }
+
+  async list(): Promise<AutosaveSessionMeta[]> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  }
+
+  async getArchive(id: string): Promise<Uint8Array | null> {
+    const db = await this.open();
+    const result = await requestToPromise(db.transaction(ARCHIVE_STORE).objectStore(ARCHIVE_STORE).get(id));
+    return result instanceof Uint8Array ? result : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([META_STORE, ARCHIVE_STORE], 'readwrite');
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(ARCHIVE_STORE).delete(id);
+    await transactionDone(tx);
+  }
+}
+
+// ============================================
+// Session Capture
+// ============================================
+
+let thumbnailCache: { key: string; dataUrl: string | undefined } | null = null;
+
+/** 첫 페이지 썸네일 (첫 페이지가 바뀔 때만 다시 생성) */
+async function captureFirstPageThumbnail(): Promise<string | undefined> {
+  const page = usePageStore.getState().pages.find((p) => !p.deleted);
+  if (!page) return undefined;
+  if (page.thumbnail) return page.thumbnail.dataUrl;
+  if (page.imageUrl) return page.imageUrl;
+
+  const { pdfProxy } = usePDFStore.getState();
+  if (!page.pdfRef || page.pdfRef.appendedFrom || !pdfProxy) return undefined;
+
+  const key = `${page.id}:${page.rotation}`;
+  if (thumbnailCache?.key === key) return thumbnailCache.dataUrl;
+
+  let dataUrl: string | undefined;
+  try {
+    const { generateThumbnail } = await import('../pdf/pdfLoader');
+    dataUrl = await generateThumbnail(pdfProxy, page.pdfRef.sourceIndex - 1, THUMBNAIL_WIDTH, page.rotation);
+  } catch {
+    dataUrl = undefined;
+  }
+  thumbnailCache = { key, dataUrl };
+  return dataUrl;
+}
+
+/** 기본 캡처: FileService의 프로젝트 저장 재사용 (히스토리/페이지 썸네일 제외) */
+const captureCurrentSession: SessionCapture = async (insertedPdfProxies) => {
+  const { document } = useDocumentStore.getState();
+  if (!document) return null;
+
+  const { FileService } = await import('./FileService');
+  const archive = await FileService.saveProjectFile(insertedPdfProxies, {
+    includeHistory: false,
+    includeThumbnails: false,
+  });
+
+  return {
+    meta: {
+      id: document.id,
+      name: document.name,
+      savedAt: Date.now(),
+      pageCount: usePageStore.getState().pages.filter((p) => !p.deleted).length,
+      thumbnail: await captureFirstPageThumbnail(),
+    },
+    archive,
+  };
+};
+
+// ============================================
+// StorageManager
+// ============================================
+
+export class StorageManager {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private insertedPdfProxies: Map<string, PDFDocumentProxy> = new Map();
+  private saving: Promise<void> | null = null;
+  private pending = false;
+  private suspended = false;
+  private backend: SessionBackend;
+  private capture: SessionCapture;
+
+  constructor(backend: SessionBackend = new IndexedDBSessionBackend(), capture: SessionCapture = captureCurrentSession) {
+    this.backend = backend;
+    this.capture = capture;
+  }
+
+  /**
+   * 스토어 변경 감지 시작
+   * 여러 번 호출해도 구독은 한 번만 등록된다.
+   */
+  start(insertedPdfProxies: Map<string, PDFDocumentProxy>): void {
+    this.insertedPdfProxies = insertedPdfProxies;
+    if (this.unsubscribers.length > 0) return;
+
+    const schedule = () => this.scheduleSave();
+    this.unsubscribers = [
+      useDocumentStore.subscribe((state, prev) => { if (state.document !== prev.document) schedule(); }),
+      usePageStore.subscribe((state, prev) => { if (state.pages !== prev.pages) schedule(); }),
+      useAnnotationStore.subscribe((state, prev) => { if (state.annotations !== prev.annotations) schedule(); }),
+      useLayerStore.subscribe((state, prev) => { if (state.layers !== prev.layers) schedule(); }),
+      usePDFStore.subscribe((state, prev) => { if (state.globalRotation !== prev.globalRotation) schedule(); }),
+    ];
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    logger.debug('💾 [StorageManager] Autosave started');
+  }
+
+  /** 변경 감지 중지 (대기 중인 저장은 취소) */
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.clearTimer();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /** 세션 복원 등 스토어를 일괄 교체하는 동안 저장 보류 */
+  async runSuspended<T>(task: () => Promise<T>): Promise<T> {
+    this.suspended = true;
+    this.clearTimer();
+    try {
+      return await task();
+    } finally {
+      this.suspended = false;
+      this.scheduleSave();
+    }
+  }
+
+  /** 디바운스된 저장 예약 */
+  scheduleSave(): void {
+    if (this.suspended) return;
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, AUTOSAVE_DELAY_MS);
+  }
+
+  /**
+   * 즉시 저장
+   * 저장 중에 다시 호출되면 현재 저장이 끝난 뒤 한 번 더 저장한다.
+   */
+  async flush(): Promise<void> {
+    this.clearTimer();
+    if (this.saving) {
+      this.pending = true;
+      return this.saving;
+    }
+
+    this.saving = (async () => {
+      do {
+        this.pending = false;
+        try {
+          const session = await this.capture(this.insertedPdfProxies);
+          if (session) {
+            await this.backend.put(session.meta, session.archive);
+            await this.prune();
+            logger.debug(`💾 [StorageManager] Autosaved "${session.meta.name}" (${(session.archive.length / 1024).toFixed(1)} KB)`);
+          }
+        } catch (error) {
+          console.warn('⚠️ [StorageManager] Autosave failed:', error);
+        }
+      } while (this.pending);
+    })();
+
+    try {
+      await this.saving;
+    } finally {
+      this.saving = null;
+    }
+  }
+
+  /** 저장된 세션 목록 (최신순) */
+  async listSessions(): Promise<AutosaveSessionMeta[]> {
+    try {
+      const sessions = await this.backend.list();
+      return sessions.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (error) {
+      console.warn('⚠️ [StorageManager] Failed to list sessions:', error);
+      return [];
+    }
+  }
+
+  /** 세션 아카이브 (.jflux 바이트) */
+  loadSession(id: string): Promise<Uint8Array | null> {
+    return this.backend.getArchive(id);
+  }
+
+  /** 세션 삭제 (복구 안 함 / 프로젝트 파일로 저장됨) */
+  async discardSession(id: string): Promise<void> {
+    // 현재 문서라면 대기 중인 저장도 취소 (변경이 없는데 다시 기록되지 않도록)
+    if (useDocumentStore.getState().document?.id === id) this.clearTimer();
+    try {
+      await this.backend.delete(id);
+    } catch (error) {
+      console.warn('⚠️ [StorageManager] Failed to discard session:', error);
+    }
+  }
+
+  // ============================================
+  // Internal
+  // ============================================
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden' && this.timer) {
+      void this.flush();
+    }
+  };
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const sessions = await this.listSessions();
+    for (const session of sessions.slice(MAX_AUTOSAVE_SESSIONS)) {
+      await this.backend.delete(session.id);
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { OCRService } from '../OCRService';
+import type { OCREngine, OCREngineFactory, PageRasterizer } from '../OCRService';
+import type { OcrWord } from '../../ocr/ocrLayer';
+import type { Page } from '../../model/types';
+import { eventBus } from '../../events/EventBus';
+import { EVENTS } from '../../events/EventTypes';
+
+function makePage(id: string, overrides: Partial<Page> = {}): Page {
+  return {
+    id,
+    docId: 'd1',
+    index: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    contentType: 'image',
+    imageUrl: 'data:image/png;base64,',
+    layers: { rasters: [], annotations: [] },
+    ...overrides,
+  };
+}
+
+const WORDS: OcrWord[] = [
+  { text: '안녕', confidence: 91, bbox: { x0: 0, y0: 0, x1: 40, y1: 20 } },
+  { text: 'world', confidence: 85, bbox: { x0: 50, y0: 0, x1: 90, y1: 20 } },
+];
+
+/** 래스터화 없이 페이지 id만 넘기는 가짜 래스터라이저 */
+const fakeRasterize: PageRasterizer = async (page) => ({
+  image: { id: page.id } as unknown as HTMLCanvasElement,
+  scale: 2,
+});
+
+function fakeEngine(recognize: (image: HTMLCanvasElement) => Promise<OcrWord[]>) {
+  const state = { terminated: 0, languages: '' };
+  const factory: OCREngineFactory = async (languages, _config, onProgress) => {
+    state.languages = languages;
+    const engine: OCREngine = {
+      async recognize(image) {
+        onProgress('recognizing text', 0.5);
+        return recognize(image);
+      },
+      async terminate() {
+        state.terminated++;
+      },
+    };
+    return engine;
+  };
+  return { factory, state };
+}
+
+/** 페이지별 텍스트를 돌려주는 가짜 PDF 문서 */
+function fakePdfProxy(texts: string[]): PDFDocumentProxy {
+  return {
+    getPage: async (pageNumber: number) => ({
+      getTextContent: async () => ({
+        items: texts[pageNumber - 1]
+          ? [{ str: texts[pageNumber - 1], transform: [1, 0, 0, 1, 0, 0], width: 10, height: 10, hasEOL: false }]
+          : [],
+      }),
+    }),
+  } as unknown as PDFDocumentProxy;
+}
+
+function recordEvents() {
+  const names = [
+    EVENTS.OCR_STARTED,
+    EVENTS.OCR_PROGRESS,
+    EVENTS.OCR_PAGE_COMPLETED,
+    EVENTS.OCR_COMPLETED,
+    EVENTS.OCR_FAILED,
+    EVENTS.OCR_CANCELLED,
+  ];
+  const log: string[] = [];
+  const handlers = names.map((name) => {
+    const handler = () => log.push(name);
+    eventBus.on(name, handler);
+    return () => eventBus.off(name, handler);
+  });
+  return { log, dispose: () => handlers.forEach((off) => off()) };
+}
+
+describe('OCRService', () => {
+  let dispose: (() => void) | null = null;
+
+  afterEach(() => {
+    dispose?.();
+    dispose = null;
+  });
+
+  it('recognizes pages and converts words to OCR annotations', async () => {
+    const { factory, state } = fakeEngine(async () => WORDS);
+    const service = new OCRService({}, factory, fakeRasterize);
+    const events = recordEvents();
+    dispose = events.dispose;
+
+    const job = service.run({
+      pages: [makePage('p1'), makePage('p2')],
+      languages: ['kor', 'eng'],
+      pdfProxyFor: () => null,
+    });
+    expect(service.isRunning).toBe(true);
+
+    const result = await job.result;
+
+    expect(state.languages).toBe('kor+eng');
+    expect(state.terminated).toBe(1);
+    expect(result.cancelled).toBe(false);
+    expect(result.pages.map((p) => p.pageId)).toEqual(['p1', 'p2']);
+    expect(result.pages[0].annotations[0]).toMatchObject({
+      type: 'ocr',
+      pageId: 'p1',
+      content: '안녕',
+      language: 'kor+eng',
+      bbox: { x: 0, y: 0, width: 20, height: 10 },
+    });
+    expect(events.log[0]).toBe(EVENTS.OCR_STARTED);
+    expect(events.log.filter((e) => e === EVENTS.OCR_PAGE_COMPLETED)).toHaveLength(2);
+    expect(events.log[events.log.length - 1]).toBe(EVENTS.OCR_COMPLETED);
+    expect(service.isRunning).toBe(false);
+  });
+
+  it('skips unsupported pages and PDF pages that already have text', async () => {
+    const { factory } = fakeEngine(async () => WORDS);
+    const service = new OCRService({}, factory, fakeRasterize);
+    const proxy = fakePdfProxy(['Hello', '']);
+
+    const pages = [
+      makePage('text', { contentType: 'pdf', imageUrl: undefined, pdfRef: { sourceIndex: 1 } }),
+      makePage('scan', { contentType: 'pdf', imageUrl: undefined, pdfRef: { sourceIndex: 2 } }),
+      makePage('blank', { contentType: 'blank', imageUrl: undefined }),
+    ];
+
+    const result = await service.run({ pages, languages: ['eng'], pdfProxyFor: () => proxy }).result;
+    expect(result.pages.map((p) => p.pageId)).toEqual(['scan']);
+    expect(result.skippedPageIds).toEqual(['text', 'blank']);
+
+    const forced = await service.run({
+      pages,
+      languages: ['eng'],
+      pdfProxyFor: () => proxy,
+      includeTextPages: true,
+    }).result;
+    expect(forced.pages.map((p) => p.pageId)).toEqual(['text', 'scan']);
+  });
+
+  it('keeps finished pages when cancelled mid-run', async () => {
+    let release: () => void = () => {};
+    const { factory, state } = fakeEngine(async (image) => {
+      if ((image as unknown as { id: string }).id === 'p2') {
+        await new Promise<void>((resolve) => { release = resolve; });
+      }
+      return WORDS;
+    });
+    const service = new OCRService({}, factory, fakeRasterize);
+    const events = recordEvents();
+    dispose = events.dispose;
+
+    const job = service.run({
+      pages: [makePage('p1'), makePage('p2'), makePage('p3')],
+      languages: ['eng'],
+      pdfProxyFor: () => null,
+    });
+
+    await new Promise<void>((resolve) => {
+      const onPage = () => {
+        eventBus.off(EVENTS.OCR_PAGE_COMPLETED, onPage);
+        resolve();
+      };
+      eventBus.on(EVENTS.OCR_PAGE_COMPLETED, onPage);
+    });
+    service.cancel();
+    release();
+
+    const result = await job.result;
+    expect(result.cancelled).toBe(true);
+    expect(result.pages.map((p) => p.pageId)).toEqual(['p1']);
+    expect(state.terminated).toBe(1);
+    expect(events.log).toContain(EVENTS.OCR_CANCELLED);
+    expect(events.log).not.toContain(EVENTS.OCR_COMPLETED);
+  });
+
+  it('reports engine failures', async () => {
+    const { factory } = fakeEngine(async () => {
+      throw new Error('traineddata not found');
+    });
+    const service = new OCRService({}, factory, fakeRasterize);
+    const events = recordEvents();
+    dispose = events.dispose;
+
+    await expect(
+      service.run({ pages: [makePage('p1')], languages: ['kor'], pdfProxyFor: () => null }).result
+    ).rejects.toThrow('traineddata not found');
+    expect(events.log).toContain(EVENTS.OCR_FAILED);
+  });
+});
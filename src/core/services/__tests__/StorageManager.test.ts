@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StorageManager, AUTOSAVE_DELAY_MS, MAX_AUTOSAVE_SESSIONS } from '../StorageManager';
+import type { AutosaveSessionMeta, SessionBackend, SessionCapture } from '../StorageManager';
+import { usePageStore } from '../../../state/stores/PageStore';
+
+// PDFStore는 pdf.js를 불러오므로 모의 처리
+vi.mock('../../../state/stores/PDFStore', () => ({
+  usePDFStore: {
+    getState: vi.fn(() => ({ pdfProxy: null, globalRotation: 0 })),
+    subscribe: vi.fn(() => () => {}),
+  },
+}));
+
+class MemoryBackend implements SessionBackend {
+  sessions = new Map<string, { meta: AutosaveSessionMeta; archive: Uint8Array }>();
+
+  async put(meta: AutosaveSessionMeta, archive: Uint8Array) {
+    this.sessions.set(meta.id, { meta, archive });
+  }
+  async list() {
+    return [...this.sessions.values()].map((s) => s.meta);
+  }
+  async getArchive(id: string) {
+    return this.sessions.get(id)?.archive ?? null;
+  }
+  async delete(id: string) {
+    this.sessions.delete(id);
+  }
+}
+
+function captureFor(id: string, savedAt = Date.now()): SessionCapture {
+  return vi.fn(async () => ({
+    meta: { id, name: `${id}.pdf`, savedAt, pageCount: 1 },
+    archive: new Uint8Array([1, 2, 3]),
+  }));
+}
+
+describe('StorageManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('debounces store changes into a single save', async () => {
+    const backend = new MemoryBackend();
+    const capture = captureFor('doc-1');
+    const storage = new StorageManager(backend, capture);
+    storage.start(new Map());
+
+    usePageStore.setState({ pages: [] });
+    usePageStore.setState({ pages: [] });
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS - 1);
+    expect(capture).not.toHaveBeenCalled();
+
+    usePageStore.setState({ pages: [] });
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS);
+    expect(capture).toHaveBeenCalledTimes(1);
+    expect(await storage.loadSession('doc-1')).toEqual(new Uint8Array([1, 2, 3]));
+
+    storage.stop();
+    usePageStore.setState({ pages: [] });
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS);
+    expect(capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not save while suspended', async () => {
+    const capture = captureFor('doc-1');
+    const storage = new StorageManager(new MemoryBackend(), capture);
+    storage.start(new Map());
+
+    await storage.runSuspended(async () => {
+      usePageStore.setState({ pages: [] });
+      await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS);
+      expect(capture).not.toHaveBeenCalled();
+    });
+
+    // 복원이 끝나면 복원된 상태를 한 번 저장
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS);
+    expect(capture).toHaveBeenCalledTimes(1);
+    storage.stop();
+  });
+
+  it('lists newest sessions first and prunes old ones', async () => {
+    const backend = new MemoryBackend();
+    for (let i = 0; i < MAX_AUTOSAVE_SESSIONS; i++) {
+      await backend.put({ id: `old-${i}`, name: 'old.pdf', savedAt: i, pageCount: 1 }, new Uint8Array());
+    }
+
+    const storage = new StorageManager(backend, captureFor('new', 1000));
+    await storage.flush();
+
+    const sessions = await storage.listSessions();
+    expect(sessions).toHaveLength(MAX_AUTOSAVE_SESSIONS);
+    expect(sessions[0].id).toBe('new');
+    expect(sessions.some((s) => s.id === 'old-0')).toBe(false);
+  });
+
+  it('keeps going when a save fails', async () => {
+    const capture = vi.fn<SessionCapture>().mockRejectedValueOnce(new Error('boom'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = new StorageManager(new MemoryBackend(), capture);
+
+    await expect(storage.flush()).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
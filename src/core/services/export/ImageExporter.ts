@@ -4,10 +4,13 @@ import { logger } from '../../../utils/logger';
  * PNG, JPEG, WebP 형식 지원
  */
 
-import type { Document } from '../../model/types';
+import type { BarcodeAnnotation, Document, RedactionAnnotation, TextMarkupAnnotation } from '../../model/types';
 import type { ExportOptions, ExportResult } from '../ExportManager';
 import { eventBus } from '../../events/EventBus';
 import { EVENTS } from '../../events/EventTypes';
+import { markupLineWidth, markupLineY, squigglyPoints } from '../../pdf/textLayer';
+import { barcodeModuleRects } from '../../barcode/barcodeEncoder';
+import { redactionRegions } from '../../redaction/redaction';
 
 export class ImageExporter {
   /**
@@ -214,6 +217,20 @@ export class ImageExporter {
       case 'highlight':
         this.renderHighlightAnnotation(ctx, annotation);
         break;
+      case 'underline':
+      case 'squiggly':
+      case 'strikeout':
+        this.renderTextMarkupAnnotation(ctx, annotation);
+        break;
+      case 'redaction':
+        this.renderRedactionAnnotation(ctx, annotation);
+        break;
+      case 'ocr':
+        // OCR 텍스트는 보이지 않는 레이어
+        break;
+      case 'barcode':
+        this.renderBarcodeAnnotation(ctx, annotation);
+        break;
       case 'rectangle':
         this.renderRectangleAnnotation(ctx, annotation);
         break;
@@ -248,15 +265,65 @@ export class ImageExporter {
    * 하이라이트 주석 렌더링
    */
   private renderHighlightAnnotation(ctx: CanvasRenderingContext2D, annotation: any): void {
-    const { bbox, style } = annotation;
-    const { x, y, width, height } = bbox;
+    const { bbox, style, quads } = annotation;
     
     ctx.fillStyle = style.fill || '#FFFF00';
     ctx.globalAlpha = style.opacity || 0.3;
-    ctx.fillRect(x, y, width, height);
+    // 텍스트 선택 하이라이트는 줄별 사각형
+    for (const { x, y, width, height } of quads?.length ? quads : [bbox]) {
+      ctx.fillRect(x, y, width, height);
+    }
     ctx.globalAlpha = 1;
   }
 
+  /**
+   * 텍스트 마크업 주석 렌더링 (밑줄, 물결 밑줄, 취소선)
+   */
+  private renderTextMarkupAnnotation(ctx: CanvasRenderingContext2D, annotation: TextMarkupAnnotation): void {
+    const { type, quads, style } = annotation;
+
+    ctx.strokeStyle = style.stroke || '#E53935';
+    ctx.globalAlpha = style.opacity ?? 1;
+    for (const quad of quads) {
+      ctx.lineWidth = markupLineWidth(quad);
+      ctx.beginPath();
+      if (type === 'squiggly') {
+        squigglyPoints(quad).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      } else {
+        const y = markupLineY(quad, type);
+        ctx.moveTo(quad.x, y);
+        ctx.lineTo(quad.x + quad.width, y);
+      }
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  /**
+   * 가림 주석 렌더링 (영역을 불투명하게 채움)
+   */
+  private renderRedactionAnnotation(ctx: CanvasRenderingContext2D, annotation: RedactionAnnotation): void {
+    ctx.fillStyle = annotation.style.fill || '#000000';
+    for (const { x, y, width, height } of redactionRegions(annotation)) {
+      ctx.fillRect(x, y, width, height);
+    }
+  }
+
+  /**
+   * 바코드 주석 렌더링
+   */
+  private renderBarcodeAnnotation(ctx: CanvasRenderingContext2D, annotation: BarcodeAnnotation): void {
+    const { bbox, modules, style } = annotation;
+
+    ctx.fillStyle = style.backgroundColor || '#FFFFFF';
+    ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
+
+    ctx.fillStyle = style.color || '#000000';
+    for (const rect of barcodeModuleRects(modules, bbox)) {
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    }
+  }
+
   /**
    * 사각형 주석 렌더링
    */
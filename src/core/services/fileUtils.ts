@@ -30,6 +30,21 @@ export function getImageDimensions(src: string): Promise<{ width: number; height
     });
 }
 
+/** 긴 변이 maxPixels보다 큰 PNG는 줄여서 다시 인코딩 */
+export async function downscalePng(dataUrl: string, width: number, height: number, maxPixels: number): Promise<string> {
+    const ratio = maxPixels / Math.max(width, height);
+    if (ratio >= 1) return dataUrl;
+
+    const img = new Image();
+    img.src = dataUrl;
+    await img.decode();
+    const canvas = window.document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+}
+
 /** 폭 맞춤 적용 */
 export function applyWidthMatching(
     width: number,
@@ -60,10 +75,11 @@ export function initNewDocument(
     fileName: string,
     fileSize: number,
     sourceKind: 'pdf' | 'images',
+    originalBytes?: Uint8Array,
 ) {
     const doc = createDocument({
         name: fileName,
-        source: { kind: sourceKind, fileName, fileSize },
+        source: { kind: sourceKind, fileName, fileSize, originalBytes },
     });
     useDocumentStore.getState().setDocument(doc);
     usePageStore.getState().clearPages();
@@ -95,7 +111,7 @@ const ALLOWED_TYPES = [
     'image/gif', 'image/webp', 'text/plain', 'text/markdown',
 ];
 
-const ALLOWED_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'txt', 'md'];
+const ALLOWED_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'txt', 'md', 'jflux'];
 
 /** 파일 타입 검증 */
 export function validateFileType(file: File): boolean {
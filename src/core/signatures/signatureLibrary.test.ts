@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDateField,
+  createInitialsForPages,
+  createSignatureAnnotation,
+  createSignaturePlaceholder,
+  fillSignaturePlaceholder,
+  isSignaturePlaceholder,
+  nextSignaturePlaceholder,
+  normalizeSavedSignature,
+} from "./signatureLibrary";
+import type { SavedSignature } from "./signatureLibrary";
+import { appendStrokePoint, normalizeStrokes, signatureStrokePaths } from "./signatureStrokes";
+
+const drawn: SavedSignature = {
+  id: "sig-1",
+  kind: "signature",
+  source: "draw",
+  strokes: [[{ x: 2, y: 2 }, { x: 102, y: 22 }]],
+  width: 104,
+  height: 24,
+  color: "#1a237e",
+  strokeWidth: 2,
+  createdAt: 0,
+};
+
+const initials: SavedSignature = {
+  ...drawn,
+  id: "ini-1",
+  kind: "initials",
+  source: "type",
+  strokes: undefined,
+  imageData: "data:image/png;base64,iVBORw0KGgo=",
+  width: 60,
+  height: 40,
+  text: "JK",
+};
+
+describe("signature strokes", () => {
+  it("smooths input points and drops points that barely move", () => {
+    let stroke = appendStrokePoint([], { x: 0, y: 0 });
+    stroke = appendStrokePoint(stroke, { x: 10, y: 0 }, { smoothing: 0.5 });
+    expect(stroke).toEqual([{ x: 0, y: 0 }, { x: 5, y: 0 }]);
+    expect(appendStrokePoint(stroke, { x: 6, y: 0 }, { smoothing: 0 })).toBe(stroke);
+  });
+
+  it("moves strokes to a padded origin and stretches them to the annotation box", () => {
+    const normalized = normalizeStrokes([[{ x: 50, y: 40 }, { x: 150, y: 60 }], []], 2);
+    expect(normalized).toEqual({ strokes: [[{ x: 2, y: 2 }, { x: 102, y: 22 }]], width: 104, height: 24 });
+    expect(normalizeStrokes([[]], 2)).toBeNull();
+
+    const a = createSignatureAnnotation({ signature: drawn, pageId: "p1", center: { x: 100, y: 100 } });
+    const [path] = signatureStrokePaths({ ...a, bbox: { x: 0, y: 0, width: 208, height: 48 } });
+    expect(path.startsWith("M 4 4")).toBe(true);
+  });
+});
+
+describe("placing signatures", () => {
+  it("fits signatures to their placed size and scales the stroke width with them", () => {
+    const a = createSignatureAnnotation({ signature: drawn, pageId: "p1", center: { x: 100, y: 100 } });
+    expect(a.bbox.width).toBeCloseTo(173.33, 1);
+    expect(a.bbox.height).toBe(40);
+    expect(a.bbox.x + a.bbox.width / 2).toBeCloseTo(100);
+    expect(a.strokeBox).toEqual({ width: 104, height: 24 });
+    expect(a.style).toMatchObject({ stroke: "#1a237e", strokeWidth: 3.33, lockAspectRatio: true });
+    expect(isSignaturePlaceholder(a)).toBe(false);
+  });
+
+  it("fills a placeholder in place and keeps the image of typed signatures", () => {
+    const placeholder = createSignaturePlaceholder({ pageId: "p1", center: { x: 100, y: 100 }, kind: "initials" });
+    expect(isSignaturePlaceholder(placeholder)).toBe(true);
+    expect(placeholder.bbox).toEqual({ x: 68, y: 80, width: 64, height: 40 });
+
+    const updates = fillSignaturePlaceholder(placeholder, initials);
+    expect(updates.imageData).toBe(initials.imageData);
+    expect(updates.strokes).toBeUndefined();
+    expect(updates.bbox).toEqual({ x: 70, y: 80, width: 60, height: 40 });
+  });
+});
+
+describe("fill & sign helpers", () => {
+  const pages = [
+    { id: "p1", width: 600, height: 800 },
+    { id: "p2", width: 400, height: 300 },
+  ];
+
+  it("adds a local date field", () => {
+    const field = createDateField({ pageId: "p1", center: { x: 100, y: 100 }, now: new Date(2026, 0, 9) });
+    expect(field.type).toBe("text");
+    expect(field.content).toBe("2026-01-09");
+  });
+
+  it("initials the bottom-right of every page that has no initials yet", () => {
+    const first = createInitialsForPages({ signature: initials, pages, annotations: [] });
+    expect(first.map((a) => a.pageId)).toEqual(["p1", "p2"]);
+    expect(first[1].bbox.x + first[1].bbox.width).toBe(364);
+    expect(first[1].bbox.y + first[1].bbox.height).toBe(264);
+
+    const placeholder = createSignaturePlaceholder({ pageId: "p2", center: { x: 10, y: 10 }, kind: "initials" });
+    const again = createInitialsForPages({ signature: initials, pages, annotations: [first[0], placeholder] });
+    expect(again.map((a) => a.pageId)).toEqual(["p2"]);
+  });
+
+  it("walks placeholders in page and reading order and wraps around", () => {
+    const lower = createSignaturePlaceholder({ pageId: "p1", center: { x: 100, y: 700 }, kind: "signature" });
+    const upper = createSignaturePlaceholder({ pageId: "p1", center: { x: 100, y: 100 }, kind: "signature" });
+    const other = createSignaturePlaceholder({ pageId: "p2", center: { x: 100, y: 50 }, kind: "initials" });
+    const annotations = [other, lower, upper];
+    const order = ["p1", "p2"];
+
+    expect(nextSignaturePlaceholder(annotations, order)?.id).toBe(upper.id);
+    expect(nextSignaturePlaceholder(annotations, order, upper.id)?.id).toBe(lower.id);
+    expect(nextSignaturePlaceholder(annotations, order, other.id)?.id).toBe(upper.id);
+    expect(nextSignaturePlaceholder([], order)).toBeNull();
+  });
+});
+
+describe("normalizeSavedSignature", () => {
+  it("keeps valid signatures and rejects empty or unsafe ones", () => {
+    expect(normalizeSavedSignature(JSON.parse(JSON.stringify(drawn)))).toEqual(drawn);
+    expect(normalizeSavedSignature({ ...drawn, strokes: [[]] })).toBeNull();
+    expect(normalizeSavedSignature({ ...initials, imageData: "javascript:alert(1)" })).toBeNull();
+    expect(normalizeSavedSignature({ ...initials, kind: "other" })?.kind).toBe("signature");
+  });
+});
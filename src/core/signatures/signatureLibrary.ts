@@ -0,0 +1,281 @@
+/**
+ * Signature Library - 저장한 서명과 채우기/서명 도우미
+ *
+ * 저장한 서명은 손글씨 획(그리기) 또는 이미지(글꼴로 입력한 서명을 그린 PNG, 불러온 PNG/SVG)이다.
+ * 배치할 때 SignatureAnnotation을 만들고, "여기에 서명" 자리 표시를 채우며,
+ * 날짜 입력란, 모든 페이지 이니셜, 다음 자리 표시 찾기를 제공한다.
+ */
+
+import type { Annotation, Point, SignatureAnnotation, SignatureKind, TextAnnotation } from '../../types/annotation';
+import { createTextAnnotation } from '../model/factories';
+import { formatLocalDate } from '../stamps/stampLibrary';
+
+// ============================================
+// Types
+// ============================================
+
+export type SignatureSource = 'draw' | 'type' | 'image';
+
+export interface SavedSignature {
+  id: string;
+  kind: SignatureKind;
+  source: SignatureSource;
+  /** 손글씨 획 (source 'draw', 원점 기준) */
+  strokes?: Point[][];
+  /** 서명 이미지 (source 'type'은 글꼴로 그린 PNG, 'image'는 불러온 PNG/SVG) */
+  imageData?: string;
+  /** 원본 크기 (획 좌표 기준, 이미지는 비율) */
+  width: number;
+  height: number;
+  color: string;
+  /** 선 두께 (획 좌표 기준) */
+  strokeWidth: number;
+  /** 입력한 글자와 글꼴 (source 'type') */
+  text?: string;
+  fontFamily?: string;
+  createdAt: number;
+}
+
+/** 서명 입력용 필기체 글꼴 (설치된 글꼴 순서대로 사용) */
+export const SIGNATURE_FONTS = [
+  "'Brush Script MT', 'Brush Script Std', cursive",
+  "'Segoe Script', 'Lucida Handwriting', cursive",
+  "'Snell Roundhand', 'Apple Chancery', 'URW Chancery L', cursive",
+  "'Nanum Pen Script', 'Nanum Brush Script', 'Gungsuh', cursive",
+];
+
+/** 배치 높이 (pt) */
+const PLACED_HEIGHT: Record<SignatureKind, number> = { signature: 40, initials: 28 };
+const MAX_PLACED_WIDTH: Record<SignatureKind, number> = { signature: 200, initials: 80 };
+
+/** 자리 표시 크기 (pt) */
+export const SIGNATURE_PLACEHOLDER_SIZE: Record<SignatureKind, { width: number; height: number }> = {
+  signature: { width: 160, height: 48 },
+  initials: { width: 64, height: 40 },
+};
+
+/** 모든 페이지 이니셜의 페이지 가장자리 여백 (pt) */
+const INITIALS_MARGIN = 36;
+
+// ============================================
+// Helpers
+// ============================================
+
+function generateSignatureId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createSavedSignatureId(): string {
+  return generateSignatureId('signature');
+}
+
+/** 비율을 유지해 상자 안에 맞춘 크기 */
+function fitInside(width: number, height: number, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const ratio = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * ratio, height: height * ratio };
+}
+
+/** 놓은 크기에 맞춘 선 두께 (저장한 두께는 그린 좌표 기준) */
+function placedStrokeWidth(signature: SavedSignature, placedWidth: number): number {
+  return Math.max(0.5, Math.round(signature.strokeWidth * (placedWidth / signature.width) * 100) / 100);
+}
+
+/** 서명 주석에 들어갈 내용 (획 또는 이미지) */
+function signatureContent(signature: SavedSignature): Partial<SignatureAnnotation> {
+  return {
+    signatureId: signature.id,
+    ...(signature.strokes?.length
+      ? { strokes: signature.strokes, strokeBox: { width: signature.width, height: signature.height } }
+      : { imageData: signature.imageData }),
+  };
+}
+
+/** 획도 이미지도 없는 "여기에 서명" 자리 표시 */
+export function isSignaturePlaceholder(a: SignatureAnnotation): boolean {
+  return !a.strokes?.length && !a.imageData;
+}
+
+// ============================================
+// Placement
+// ============================================
+
+/** 서명 주석 생성 (중심점 기준, 종류별 높이) */
+export function createSignatureAnnotation(params: {
+  signature: SavedSignature;
+  pageId: string;
+  center: { x: number; y: number };
+}): SignatureAnnotation {
+  const { signature: s, center } = params;
+  const size = fitInside(s.width, s.height, MAX_PLACED_WIDTH[s.kind], PLACED_HEIGHT[s.kind]);
+  const now = Date.now();
+
+  return {
+    id: generateSignatureId('annotation'),
+    type: 'signature',
+    pageId: params.pageId,
+    kind: s.kind,
+    bbox: { x: center.x - size.width / 2, y: center.y - size.height / 2, ...size },
+    ...signatureContent(s),
+    createdAt: now,
+    modifiedAt: now,
+    style: { stroke: s.color, strokeWidth: placedStrokeWidth(s, size.width), lockAspectRatio: true },
+  };
+}
+
+/** "여기에 서명" 자리 표시 (중심점 기준) */
+export function createSignaturePlaceholder(params: {
+  pageId: string;
+  center: { x: number; y: number };
+  kind: SignatureKind;
+  label?: string;
+}): SignatureAnnotation {
+  const size = SIGNATURE_PLACEHOLDER_SIZE[params.kind];
+  const now = Date.now();
+
+  return {
+    id: generateSignatureId('annotation'),
+    type: 'signature',
+    pageId: params.pageId,
+    kind: params.kind,
+    bbox: { x: params.center.x - size.width / 2, y: params.center.y - size.height / 2, ...size },
+    ...(params.label ? { label: params.label } : {}),
+    createdAt: now,
+    modifiedAt: now,
+    style: { stroke: '#000000', strokeWidth: 2 },
+  };
+}
+
+/**
+ * 자리 표시를 서명으로 채움 (비율을 유지해 자리 안 가운데)
+ * @returns 자리 표시 주석에 적용할 변경
+ */
+export function fillSignaturePlaceholder(placeholder: SignatureAnnotation, signature: SavedSignature): Partial<SignatureAnnotation> {
+  const { bbox } = placeholder;
+  const size = fitInside(signature.width, signature.height, bbox.width, bbox.height);
+  return {
+    ...signatureContent(signature),
+    bbox: {
+      x: bbox.x + (bbox.width - size.width) / 2,
+      y: bbox.y + (bbox.height - size.height) / 2,
+      ...size,
+    },
+    style: { ...placeholder.style, stroke: signature.color, strokeWidth: placedStrokeWidth(signature, size.width), lockAspectRatio: true },
+    modifiedAt: Date.now(),
+  };
+}
+
+// ============================================
+// Fill & Sign Helpers
+// ============================================
+
+/** 오늘 날짜 입력란 (텍스트 주석, 중심점 기준) */
+export function createDateField(params: { pageId: string; center: { x: number; y: number }; now: Date }): TextAnnotation {
+  const width = 100;
+  const height = 28;
+  return createTextAnnotation({
+    pageId: params.pageId,
+    bbox: { x: params.center.x - width / 2, y: params.center.y - height / 2, width, height },
+    content: formatLocalDate(params.now),
+    style: {
+      fontSize: 12,
+      color: '#000000',
+      backgroundColor: 'transparent',
+      backgroundOpacity: 0,
+      textAlign: 'left',
+      verticalAlign: 'middle',
+    },
+  });
+}
+
+/**
+ * 페이지마다 오른쪽 아래에 이니셜 배치
+ * 이미 이니셜(자리 표시 제외)이 있는 페이지는 건너뛴다.
+ */
+export function createInitialsForPages(params: {
+  signature: SavedSignature;
+  pages: { id: string; width: number; height: number }[];
+  annotations: Annotation[];
+}): SignatureAnnotation[] {
+  const initialed = new Set(params.annotations
+    .filter((a): a is SignatureAnnotation => a.type === 'signature' && a.kind === 'initials' && !isSignaturePlaceholder(a))
+    .map((a) => a.pageId));
+
+  return params.pages
+    .filter((page) => !initialed.has(page.id))
+    .map((page) => {
+      const annotation = createSignatureAnnotation({
+        signature: { ...params.signature, kind: 'initials' },
+        pageId: page.id,
+        center: { x: 0, y: 0 },
+      });
+      const { width, height } = annotation.bbox;
+      annotation.bbox = {
+        x: page.width - INITIALS_MARGIN - width,
+        y: page.height - INITIALS_MARGIN - height,
+        width,
+        height,
+      };
+      return annotation;
+    });
+}
+
+/**
+ * 다음 자리 표시 (페이지 순서, 위→아래, 왼쪽→오른쪽)
+ * @param afterId 이 자리 표시 다음부터 (없거나 마지막이면 처음부터)
+ */
+export function nextSignaturePlaceholder(
+  annotations: Annotation[],
+  pageIds: string[],
+  afterId?: string | null
+): SignatureAnnotation | null {
+  const order = new Map(pageIds.map((id, index) => [id, index]));
+  const placeholders = annotations
+    .filter((a): a is SignatureAnnotation =>
+      a.type === 'signature' && !a.hidden && order.has(a.pageId) && isSignaturePlaceholder(a))
+    .sort((p, q) => (order.get(p.pageId)! - order.get(q.pageId)!) || (p.bbox.y - q.bbox.y) || (p.bbox.x - q.bbox.x));
+  if (placeholders.length === 0) return null;
+
+  const index = afterId ? placeholders.findIndex((a) => a.id === afterId) : -1;
+  return placeholders[(index + 1) % placeholders.length];
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/** 저장된 값 정리 (잘못된 값은 null) */
+export function normalizeSavedSignature(raw: unknown): SavedSignature | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+  const size = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : null);
+
+  const width = size(s.width);
+  const height = size(s.height);
+  if (!width || !height || typeof s.id !== 'string') return null;
+
+  const strokes = Array.isArray(s.strokes)
+    ? (s.strokes as unknown[])
+      .filter(Array.isArray)
+      .map((stroke) => (stroke as Point[]).filter((p) => Number.isFinite(p?.x) && Number.isFinite(p?.y)))
+      .filter((stroke) => stroke.length > 0)
+    : [];
+  const imageData = typeof s.imageData === 'string' && /^data:image\/(png|svg\+xml)[;,]/.test(s.imageData)
+    ? s.imageData
+    : undefined;
+  if (strokes.length === 0 && !imageData) return null;
+
+  const source: SignatureSource = strokes.length > 0 ? 'draw' : s.source === 'type' ? 'type' : 'image';
+  return {
+    id: s.id,
+    kind: s.kind === 'initials' ? 'initials' : 'signature',
+    source,
+    ...(strokes.length > 0 ? { strokes } : { imageData }),
+    width,
+    height,
+    color: typeof s.color === 'string' ? s.color : '#000000',
+    strokeWidth: size(s.strokeWidth) ?? 2,
+    ...(typeof s.text === 'string' ? { text: s.text } : {}),
+    ...(typeof s.fontFamily === 'string' ? { fontFamily: s.fontFamily } : {}),
+    createdAt: typeof s.createdAt === 'number' ? s.createdAt : 0,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Signature Strokes - 손글씨 서명 획
+ *
+ * 입력 점은 지수 이동 평균으로 다듬고(손떨림 제거) 너무 가까운 점은 버린다.
+ * 저장할 때는 획을 여백을 둔 원점 기준으로 옮기고, 그릴 때는 strokeBox → bbox로 늘려
+ * 자유곡선과 같은 buildSmoothPath로 경로를 만든다.
+ */
+
+import type { BBox, Point, SignatureAnnotation } from '../../types/annotation';
+import { buildSmoothPath } from '../io/annotationGeometry';
+
+// ============================================
+// Input Smoothing
+// ============================================
+
+/** 0 = 입력 그대로, 1에 가까울수록 부드럽게 (느리게 따라옴) */
+export const DEFAULT_STROKE_SMOOTHING = 0.5;
+
+/** 이보다 가까운 점은 버림 (입력 좌표 단위) */
+export const MIN_STROKE_POINT_DISTANCE = 1.5;
+
+/** 이전 점 쪽으로 당긴 입력 점 */
+export function smoothStrokePoint(previous: Point | undefined, raw: Point, smoothing = DEFAULT_STROKE_SMOOTHING): Point {
+  if (!previous) return raw;
+  const t = 1 - Math.max(0, Math.min(0.95, smoothing));
+  return { x: previous.x + (raw.x - previous.x) * t, y: previous.y + (raw.y - previous.y) * t };
+}
+
+/**
+ * 획에 입력 점 추가
+ * @returns 새 획 (너무 가까우면 원래 획)
+ */
+export function appendStrokePoint(
+  stroke: Point[],
+  raw: Point,
+  options: { smoothing?: number; minDistance?: number } = {}
+): Point[] {
+  const last = stroke[stroke.length - 1];
+  const point = smoothStrokePoint(last, raw, options.smoothing);
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < (options.minDistance ?? MIN_STROKE_POINT_DISTANCE)) {
+    return stroke;
+  }
+  return [...stroke, point];
+}
+
+// ============================================
+// Normalize
+// ============================================
+
+export function strokesBounds(strokes: Point[][]): BBox | null {
+  const points = strokes.flat();
+  if (points.length === 0) return null;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * 획을 여백을 둔 원점 기준으로 옮김 (선 두께가 잘리지 않도록 padding)
+ * @returns null - 빈 획
+ */
+export function normalizeStrokes(
+  strokes: Point[][],
+  padding: number
+): { strokes: Point[][]; width: number; height: number } | null {
+  const nonEmpty = strokes.filter((stroke) => stroke.length > 0);
+  const bounds = strokesBounds(nonEmpty);
+  if (!bounds) return null;
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return {
+    strokes: nonEmpty.map((stroke) => stroke.map((p) => ({
+      x: round(p.x - bounds.x + padding),
+      y: round(p.y - bounds.y + padding),
+    }))),
+    width: round(bounds.width + padding * 2),
+    height: round(bounds.height + padding * 2),
+  };
+}
+
+// ============================================
+// Paths
+// ============================================
+
+/** 서명 주석의 획 경로 (strokeBox 좌표를 bbox로 늘림) */
+export function signatureStrokePaths(a: SignatureAnnotation): string[] {
+  const { strokes, strokeBox, bbox } = a;
+  if (!strokes?.length || !strokeBox?.width || !strokeBox.height) return [];
+  const sx = bbox.width / strokeBox.width;
+  const sy = bbox.height / strokeBox.height;
+  return strokes.map((stroke) => buildSmoothPath(stroke.map((p) => ({ x: bbox.x + p.x * sx, y: bbox.y + p.y * sy }))));
+}
@@ -0,0 +1,310 @@
+/**
+ * ASN.1 DER 읽기/쓰기 (PKCS#12, X.509, CMS에 필요한 만큼만)
+ *
+ * - 읽기: 한 바이트 태그만 지원, BER 부정 길이(0x80)와 조립형 OCTET STRING도 허용
+ *   (Windows/Java가 내보낸 .pfx에 흔함)
+ * - 쓰기: 항상 DER (확정 길이, SET OF 정렬)
+ */
+
+// ============================================
+// Tags
+// ============================================
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  BMP_STRING: 0x1e,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+/** 문맥 태그 [n] (구조형) */
+export function contextTag(n: number, constructed = true): number {
+  return 0x80 | (constructed ? 0x20 : 0) | n;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export interface Asn1Node {
+  /** 식별자 바이트 (클래스 | 구조형 | 번호) */
+  tag: number;
+  /** 원본 바이트 */
+  bytes: Uint8Array;
+  /** 노드 시작 위치 (원본 기준) */
+  start: number;
+  /** 헤더(태그+길이) 길이 */
+  header: number;
+  /** 내용 길이 (부정 길이면 끝 표시 00 00 제외) */
+  length: number;
+  /** 전체 길이 (부정 길이면 끝 표시 포함) */
+  total: number;
+  /** 구조형이면 하위 노드 */
+  children: Asn1Node[];
+}
+
+/** 주어진 위치의 노드 하나를 읽는다 */
+export function parseDer(bytes: Uint8Array, offset = 0): Asn1Node {
+  if (offset + 2 > bytes.length) throw new Error('ASN.1: unexpected end of data');
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error('ASN.1: multi-byte tags are not supported');
+  const constructed = (tag & 0x20) !== 0;
+
+  let pos = offset + 1;
+  const first = bytes[pos++];
+  let length = -1;
+  if (first < 0x80) {
+    length = first;
+  } else if (first > 0x80) {
+    const count = first & 0x7f;
+    if (count > 4) throw new Error('ASN.1: length too large');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[pos++];
+  } else if (!constructed) {
+    throw new Error('ASN.1: indefinite length on a primitive value');
+  }
+
+  const header = pos - offset;
+  const children: Asn1Node[] = [];
+
+  if (length < 0) {
+    // 부정 길이: 끝 표시(00 00)까지 하위 노드
+    while (true) {
+      if (pos + 2 > bytes.length) throw new Error('ASN.1: unterminated indefinite length');
+      if (bytes[pos] === 0 && bytes[pos + 1] === 0) break;
+      const child = parseDer(bytes, pos);
+      children.push(child);
+      pos += child.total;
+    }
+    const contentLength = pos - offset - header;
+    return { tag, bytes, start: offset, header, length: contentLength, total: header + contentLength + 2, children };
+  }
+
+  const end = pos + length;
+  if (end > bytes.length) throw new Error('ASN.1: length exceeds data');
+  if (constructed) {
+    while (pos < end) {
+      const child = parseDer(bytes, pos);
+      children.push(child);
+      pos += child.total;
+    }
+  }
+  return { tag, bytes, start: offset, header, length, total: header + length, children };
+}
+
+/** 내용 바이트 */
+export function content(node: Asn1Node): Uint8Array {
+  const from = node.start + node.header;
+  return node.bytes.subarray(from, from + node.length);
+}
+
+/** 태그를 포함한 전체 인코딩 */
+export function raw(node: Asn1Node): Uint8Array {
+  return node.bytes.subarray(node.start, node.start + node.total);
+}
+
+/** i번째 하위 노드 (없으면 오류) */
+export function child(node: Asn1Node, index: number, tag?: number): Asn1Node {
+  const found = node.children[index];
+  if (!found) throw new Error(`ASN.1: missing element ${index}`);
+  if (tag !== undefined && found.tag !== tag) {
+    throw new Error(`ASN.1: expected tag 0x${tag.toString(16)}, got 0x${found.tag.toString(16)}`);
+  }
+  return found;
+}
+
+/** 태그가 일치하는 첫 하위 노드 */
+export function findChild(node: Asn1Node, tag: number): Asn1Node | undefined {
+  return node.children.find((c) => c.tag === tag);
+}
+
+/** OCTET STRING 값 (BER 조립형이면 조각을 이어 붙임) */
+export function octets(node: Asn1Node): Uint8Array {
+  if (node.children.length === 0) return content(node);
+  return concatBytes(...node.children.map(octets));
+}
+
+/** OID를 점 표기 문자열로 */
+export function decodeOid(node: Asn1Node): string {
+  const data = content(node);
+  if (data.length === 0) throw new Error('ASN.1: empty OID');
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = 0; i < data.length; i++) {
+    value = value * 128 + (data[i] & 0x7f);
+    if ((data[i] & 0x80) === 0) {
+      if (parts.length === 0) {
+        const first = Math.min(2, Math.floor(value / 40));
+        parts.push(first, value - first * 40);
+      } else {
+        parts.push(value);
+      }
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/** 작은 INTEGER를 숫자로 */
+export function decodeSmallInt(node: Asn1Node): number {
+  const data = content(node);
+  if (data.length > 6) throw new Error('ASN.1: integer too large');
+  let value = 0;
+  for (const b of data) value = value * 256 + b;
+  return value;
+}
+
+/** UTCTime / GeneralizedTime */
+export function decodeTime(node: Asn1Node): Date {
+  const text = decodeAscii(content(node));
+  const yearDigits = node.tag === TAG.UTC_TIME ? 2 : 4;
+  const match = new RegExp(`^(\\d{${yearDigits}})(\\d{2})(\\d{2})(\\d{2})(\\d{2})(\\d{2})?(?:\\.\\d+)?Z$`).exec(text);
+  if (!match) throw new Error(`ASN.1: unsupported time "${text}"`);
+  let year = Number(match[1]);
+  if (node.tag === TAG.UTC_TIME) year += year < 50 ? 2000 : 1900;
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)));
+}
+
+/** 문자열 타입 (UTF8, Printable, IA5, T61, BMP) */
+export function decodeString(node: Asn1Node): string {
+  const data = content(node);
+  if (node.tag === TAG.BMP_STRING) {
+    let text = '';
+    for (let i = 0; i + 1 < data.length; i += 2) text += String.fromCharCode((data[i] << 8) | data[i + 1]);
+    return text;
+  }
+  if (node.tag === TAG.UTF8_STRING) return new TextDecoder().decode(data);
+  return decodeAscii(data);
+}
+
+function decodeAscii(data: Uint8Array): string {
+  let text = '';
+  for (const b of data) text += String.fromCharCode(b);
+  return text;
+}
+
+// ============================================
+// Writing (DER)
+// ============================================
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const digits: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) digits.unshift(n & 0xff);
+  return Uint8Array.of(0x80 | digits.length, ...digits);
+}
+
+/** 태그 + 길이 + 내용 */
+export function der(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const body = concatBytes(...contents);
+  return concatBytes(Uint8Array.of(tag), encodeLength(body.length), body);
+}
+
+export function sequence(...items: Uint8Array[]): Uint8Array {
+  return der(TAG.SEQUENCE, ...items);
+}
+
+/** SET OF (DER 규칙대로 인코딩 순 정렬) */
+export function setOf(...items: Uint8Array[]): Uint8Array {
+  const sorted = [...items].sort(compareBytes);
+  return der(TAG.SET, ...sorted);
+}
+
+export function octetString(data: Uint8Array): Uint8Array {
+  return der(TAG.OCTET_STRING, data);
+}
+
+export function nullValue(): Uint8Array {
+  return Uint8Array.of(TAG.NULL, 0);
+}
+
+/** 부호 없는 정수 바이트를 INTEGER로 (앞의 0 제거, 최상위 비트면 0 추가) */
+export function integer(value: number | Uint8Array): Uint8Array {
+  let data: Uint8Array;
+  if (typeof value === 'number') {
+    const digits: number[] = [];
+    for (let n = value; n > 0; n = Math.floor(n / 256)) digits.unshift(n & 0xff);
+    data = Uint8Array.from(digits.length ? digits : [0]);
+  } else {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    data = value.subarray(start);
+  }
+  if (data[0] & 0x80) data = concatBytes(Uint8Array.of(0), data);
+  return der(TAG.INTEGER, data);
+}
+
+export function oid(dotted: string): Uint8Array {
+  const parts = dotted.split('.').map(Number);
+  const values = [parts[0] * 40 + parts[1], ...parts.slice(2)];
+  const out: number[] = [];
+  for (const value of values) {
+    const group: number[] = [value & 0x7f];
+    for (let n = Math.floor(value / 128); n > 0; n = Math.floor(n / 128)) group.unshift((n & 0x7f) | 0x80);
+    out.push(...group);
+  }
+  return der(TAG.OID, Uint8Array.from(out));
+}
+
+/** AlgorithmIdentifier (params 생략 가능) */
+export function algorithm(dotted: string, params?: Uint8Array): Uint8Array {
+  return params ? sequence(oid(dotted), params) : sequence(oid(dotted));
+}
+
+/** [n] EXPLICIT */
+export function explicit(n: number, inner: Uint8Array): Uint8Array {
+  return der(contextTag(n), inner);
+}
+
+/** 구조형 [n] IMPLICIT (SET/SEQUENCE의 태그만 바꾼 것) */
+export function implicitConstructed(n: number, ...contents: Uint8Array[]): Uint8Array {
+  return der(contextTag(n), ...contents);
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+export function toHex(data: Uint8Array): string {
+  let hex = '';
+  for (const b of data) hex += b.toString(16).padStart(2, '0');
+  return hex.toUpperCase();
+}
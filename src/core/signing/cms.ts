@@ -0,0 +1,187 @@
+/**
+ * CMS(PKCS#7) 분리 서명 만들기/검증
+ *
+ * PAdES 기본 수준(B-B)에 맞춰 서명 속성에 contentType, messageDigest,
+ * signingCertificateV2를 넣고 signingTime은 넣지 않는다 (시각은 PDF 서명 사전의 /M).
+ * 검증은 다른 도구가 만든 서명(signingTime 포함, 속성 없음, RSA/ECDSA)도 읽는다.
+ */
+
+import {
+  TAG, algorithm, bytesEqual, child, concatBytes, content, contextTag, decodeOid, decodeTime, der, explicit,
+  implicitConstructed, integer, nullValue, octetString, oid, parseDer, raw, sequence, setOf, toHex,
+} from './asn1';
+import type { Asn1Node } from './asn1';
+import {
+  DIGEST_ALGORITHMS, OID as KEY_OID, SIGNATURE_HASHES, bufferOf, digest, ecdsaDerToRaw, ecdsaRawToDer,
+  importPublicKey, signatureParams,
+} from './signingKeys';
+import type { SigningCredential } from './pkcs12';
+import { parseCertificate } from './x509';
+import type { Certificate } from './x509';
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+} as const;
+
+function attribute(type: string, value: Uint8Array): Uint8Array {
+  return sequence(oid(type), setOf(value));
+}
+
+/** IssuerAndSerialNumber (일련번호는 인증서의 INTEGER 바이트를 그대로) */
+function issuerAndSerial(certificate: Certificate): Uint8Array {
+  return sequence(certificate.issuer, der(TAG.INTEGER, certificate.serialNumber));
+}
+
+/**
+ * 분리 서명 SignedData(ContentInfo) DER 생성
+ * signedContent는 서명할 바이트 전체 (PDF라면 ByteRange로 이은 두 구간)
+ */
+export async function createDetachedSignature(signedContent: Uint8Array, credential: SigningCredential): Promise<Uint8Array> {
+  const { certificate, chain, privateKey, keyAlgorithm } = credential;
+  const sha256 = algorithm(KEY_OID.sha256);
+
+  // ESSCertIDv2 (해시 알고리즘 기본값 SHA-256은 생략)
+  const certHash = await digest('SHA-256', certificate.der);
+  const essCertId = sequence(
+    octetString(certHash),
+    sequence(sequence(explicit(4, certificate.issuer)), der(TAG.INTEGER, certificate.serialNumber)),
+  );
+
+  const attributes = [
+    attribute(OID.contentType, oid(OID.data)),
+    attribute(OID.messageDigest, octetString(await digest('SHA-256', signedContent))),
+    attribute(OID.signingCertificateV2, sequence(sequence(essCertId))),
+  ];
+
+  // 서명 대상은 SET OF 태그(0x31)로 인코딩한 속성, SignerInfo에는 [0] IMPLICIT로 넣는다
+  const signedAttributes = setOf(...attributes);
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    signatureParams(keyAlgorithm, 'SHA-256'), privateKey, bufferOf(signedAttributes),
+  ));
+
+  const signerInfo = sequence(
+    integer(1),
+    issuerAndSerial(certificate),
+    sha256,
+    concatBytes(Uint8Array.of(contextTag(0)), signedAttributes.subarray(1)),
+    keyAlgorithm.kind === 'rsa'
+      ? algorithm(KEY_OID.rsaEncryption, nullValue())
+      : algorithm(KEY_OID.ecdsaWithSha256),
+    octetString(keyAlgorithm.kind === 'rsa' ? signature : ecdsaRawToDer(signature)),
+  );
+
+  const signedData = sequence(
+    integer(1),
+    setOf(sha256),
+    sequence(oid(OID.data)),
+    implicitConstructed(0, ...chain.map((c) => c.der)),
+    setOf(signerInfo),
+  );
+
+  return sequence(oid(OID.signedData), explicit(0, signedData));
+}
+
+// ============================================
+// Verification
+// ============================================
+
+export interface CmsVerification {
+  /** 서명자 인증서 (SignedData에 없으면 null) */
+  signer: Certificate | null;
+  /** SignedData에 들어 있던 인증서 */
+  certificates: Certificate[];
+  /** signingTime 서명 속성 (없으면 null) */
+  signingTime: Date | null;
+  /** 서명된 내용의 다이제스트가 일치 */
+  digestMatches: boolean;
+  /** 서명 값이 서명자 공개키로 검증됨 */
+  signatureValid: boolean;
+}
+
+/**
+ * 분리 서명 검증
+ * 형식이 틀리거나 지원하지 않는 알고리즘이면 오류를 던진다.
+ */
+export async function verifyDetachedSignature(cms: Uint8Array, signedContent: Uint8Array): Promise<CmsVerification> {
+  const contentInfo = parseDer(cms);
+  if (decodeOid(child(contentInfo, 0, TAG.OID)) !== OID.signedData) throw new Error('Not a CMS SignedData signature');
+  const signedData = child(child(contentInfo, 1, contextTag(0)), 0, TAG.SEQUENCE);
+
+  const certificates: Certificate[] = [];
+  const certificateSet = signedData.children.find((c) => c.tag === contextTag(0));
+  for (const node of certificateSet?.children ?? []) {
+    if (node.tag !== TAG.SEQUENCE) continue; // 속성 인증서 등은 건너뜀
+    try {
+      certificates.push(parseCertificate(raw(node)));
+    } catch {
+      // 읽을 수 없는 인증서는 무시
+    }
+  }
+
+  const signerInfos = signedData.children[signedData.children.length - 1];
+  if (signerInfos?.tag !== TAG.SET || signerInfos.children.length === 0) throw new Error('The signature has no signer');
+  const signerInfo = signerInfos.children[0];
+
+  const signer = findSigner(child(signerInfo, 1), certificates);
+  const hash = DIGEST_ALGORITHMS[decodeOid(child(child(signerInfo, 2, TAG.SEQUENCE), 0, TAG.OID))];
+  if (!hash) throw new Error('Unsupported signature digest algorithm');
+
+  let index = 3;
+  const signedAttributes = signerInfo.children[index]?.tag === contextTag(0) ? signerInfo.children[index++] : null;
+  const signatureAlgorithm = decodeOid(child(child(signerInfo, index++, TAG.SEQUENCE), 0, TAG.OID));
+  const signatureValue = child(signerInfo, index, TAG.OCTET_STRING);
+
+  const contentDigest = await digest(hash, signedContent);
+  let digestMatches = true;
+  let signingTime: Date | null = null;
+  let signedBytes = signedContent;
+
+  if (signedAttributes) {
+    const messageDigest = findAttribute(signedAttributes, OID.messageDigest);
+    digestMatches = !!messageDigest && bytesEqual(content(messageDigest), contentDigest);
+    const time = findAttribute(signedAttributes, OID.signingTime);
+    if (time) signingTime = decodeTime(time);
+
+    signedBytes = raw(signedAttributes).slice();
+    signedBytes[0] = TAG.SET;
+  }
+
+  if (!(signatureAlgorithm in SIGNATURE_HASHES)) throw new Error(`Unsupported signature algorithm (${signatureAlgorithm})`);
+  if (!signer?.publicKeyAlgorithm) return { signer, certificates, signingTime, digestMatches, signatureValid: false };
+
+  const keyAlgorithm = signer.publicKeyAlgorithm;
+  const signatureHash = SIGNATURE_HASHES[signatureAlgorithm] ?? hash;
+  const key = await importPublicKey(signer.publicKeyInfo, keyAlgorithm, signatureHash);
+  let signature = content(signatureValue);
+  if (keyAlgorithm.kind === 'ec') signature = ecdsaDerToRaw(signature, keyAlgorithm.namedCurve!);
+
+  const signatureValid = await crypto.subtle.verify(
+    signatureParams(keyAlgorithm, signatureHash), key, bufferOf(signature), bufferOf(signedBytes),
+  );
+  // 속성이 없는 서명은 서명 값 검증이 곧 내용 검증
+  if (!signedAttributes) digestMatches = signatureValid;
+
+  return { signer, certificates, signingTime, digestMatches, signatureValid };
+}
+
+/** SignerIdentifier → 인증서 (IssuerAndSerialNumber, 아니면 첫 인증서) */
+function findSigner(sid: Asn1Node, certificates: Certificate[]): Certificate | null {
+  if (sid.tag === TAG.SEQUENCE) {
+    const issuer = toHex(raw(child(sid, 0, TAG.SEQUENCE)));
+    const serial = toHex(content(child(sid, 1, TAG.INTEGER)));
+    const match = certificates.find((c) => toHex(c.issuer) === issuer && toHex(c.serialNumber) === serial);
+    if (match) return match;
+  }
+  return certificates[0] ?? null;
+}
+
+/** 서명 속성의 첫 값 */
+function findAttribute(attributes: Asn1Node, type: string): Asn1Node | null {
+  const found = attributes.children.find((a) => decodeOid(child(a, 0, TAG.OID)) === type);
+  return found ? child(child(found, 1, TAG.SET), 0) : null;
+}
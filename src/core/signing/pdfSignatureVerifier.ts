@@ -0,0 +1,170 @@
+/**
+ * 서명된 PDF 검증 - AcroForm의 서명 필드마다 서명자, 시각, 무결성을 확인
+ *
+ * 신뢰 목록이 없으므로 인증서가 믿을 만한 발급자에게서 왔는지는 판단하지 않고
+ * (자체 서명 여부와 유효 기간만 알려줌) 서명 이후 내용이 바뀌지 않았는지만 검증한다.
+ */
+
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import type { PDFObject } from 'pdf-lib';
+import { verifyDetachedSignature } from './cms';
+import { indexOfAscii } from './pdfSigner';
+import { isSelfIssued } from './x509';
+
+/**
+ * 무결성 상태
+ * - valid: 서명 이후 서명된 범위가 바뀌지 않았고 서명 값도 맞음
+ * - modified: 서명된 범위의 내용이 바뀌었거나, 서명 범위가 /Contents를 뺀 파일 전체가 아님
+ * - invalid: 내용은 같지만 서명 값이 인증서와 맞지 않음
+ * - unknown: 지원하지 않는 형식이라 확인 못 함
+ */
+export type PdfSignatureIntegrity = 'valid' | 'modified' | 'invalid' | 'unknown';
+
+export interface PdfSignatureInfo {
+  fieldName: string;
+  /** 인증서 CN (없으면 서명 사전 /Name) */
+  signerName: string;
+  issuerName?: string;
+  /** 서명 속성의 signingTime, 없으면 서명 사전 /M */
+  signingTime: Date | null;
+  reason?: string;
+  location?: string;
+  subFilter: string;
+  integrity: PdfSignatureIntegrity;
+  /** 서명 뒤에 덧붙여 저장한 변경이 있음 (서명 범위가 파일 끝까지 닿지 않음) */
+  changedAfterSigning: boolean;
+  selfSigned: boolean;
+  /** 서명 시각에 인증서가 유효 기간 안이었음 */
+  certificateValidAtSigning: boolean;
+  /** unknown일 때 이유 */
+  error?: string;
+}
+
+/**
+ * PDF 바이트의 모든 서명 필드를 검증
+ * 서명이 없으면 빈 배열 (pdf-lib로 열기 전에 /ByteRange 유무로 빠르게 거른다)
+ */
+export async function verifyPdfSignatures(bytes: Uint8Array): Promise<PdfSignatureInfo[]> {
+  if (indexOfAscii(bytes, '/ByteRange') < 0) return [];
+
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false, throwOnInvalidObject: false });
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  if (!fields) return [];
+
+  const results: PdfSignatureInfo[] = [];
+  const visit = async (array: PDFArray, parentName: string, parentType?: string) => {
+    for (const entry of array.asArray()) {
+      const field = pdfDoc.context.lookup(entry);
+      if (!(field instanceof PDFDict)) continue;
+
+      const partialName = textOf(field.get(PDFName.of('T')));
+      const name = [parentName, partialName].filter(Boolean).join('.');
+      const fieldType = field.lookupMaybe(PDFName.of('FT'), PDFName)?.decodeText() ?? parentType;
+
+      const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+      if (kids) await visit(kids, name, fieldType);
+
+      const value = field.lookupMaybe(PDFName.of('V'), PDFDict);
+      if (fieldType === 'Sig' && value) results.push(await verifySignatureDict(bytes, value, name || `Signature${results.length + 1}`));
+    }
+  };
+  await visit(fields, '');
+  return results;
+}
+
+async function verifySignatureDict(bytes: Uint8Array, dict: PDFDict, fieldName: string): Promise<PdfSignatureInfo> {
+  const subFilter = dict.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() ?? '';
+  const modifiedText = textOf(dict.get(PDFName.of('M')));
+  const info: PdfSignatureInfo = {
+    fieldName,
+    signerName: textOf(dict.get(PDFName.of('Name'))),
+    signingTime: modifiedText ? parsePdfDate(modifiedText) : null,
+    reason: textOf(dict.get(PDFName.of('Reason'))) || undefined,
+    location: textOf(dict.get(PDFName.of('Location'))) || undefined,
+    subFilter,
+    integrity: 'unknown',
+    changedAfterSigning: false,
+    selfSigned: false,
+    certificateValidAtSigning: false,
+  };
+
+  try {
+    const byteRange = dict.lookupMaybe(PDFName.of('ByteRange'), PDFArray)?.asArray()
+      .map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN));
+    const contents = dict.get(PDFName.of('Contents'));
+    if (!byteRange || byteRange.length !== 4 || byteRange.some((n) => !Number.isInteger(n) || n < 0)) {
+      throw new Error('Invalid /ByteRange');
+    }
+    if (!(contents instanceof PDFHexString || contents instanceof PDFString)) throw new Error('Missing /Contents');
+    const [start1, length1, start2, length2] = byteRange;
+    if (start2 + length2 > bytes.length) throw new Error('/ByteRange exceeds the file');
+
+    const coverageError = byteRangeCoverageError(bytes, byteRange, contents);
+    if (coverageError) {
+      info.integrity = 'modified';
+      info.error = coverageError;
+      return info;
+    }
+
+    const signedContent = new Uint8Array(length1 + length2);
+    signedContent.set(bytes.subarray(start1, start1 + length1), 0);
+    signedContent.set(bytes.subarray(start2, start2 + length2), length1);
+    info.changedAfterSigning = bytes.subarray(start2 + length2).some((b) => !isWhitespace(b));
+
+    if (subFilter === 'adbe.x509.rsa_sha1') throw new Error('adbe.x509.rsa_sha1 signatures are not supported');
+    const result = await verifyDetachedSignature(contents.asBytes(), signedContent);
+
+    if (result.signer) {
+      info.signerName = result.signer.subjectName;
+      info.issuerName = result.signer.issuerName;
+      info.selfSigned = isSelfIssued(result.signer);
+    }
+    if (result.signingTime) info.signingTime = result.signingTime;
+    const checkedAt = info.signingTime ?? new Date();
+    info.certificateValidAtSigning = !!result.signer
+      && checkedAt >= result.signer.notBefore && checkedAt <= result.signer.notAfter;
+    info.integrity = !result.digestMatches ? 'modified' : result.signatureValid ? 'valid' : 'invalid';
+  } catch (error) {
+    info.error = error instanceof Error ? error.message : String(error);
+  }
+  return info;
+}
+
+/**
+ * 서명 범위가 파일 처음부터 시작하고, 두 범위 사이의 틈이 정확히 /Contents 16진 문자열인지 확인
+ * 그렇지 않으면 범위 밖의 바이트를 서명 없이 바꿀 수 있다.
+ * @returns 문제가 있으면 이유, 없으면 null
+ */
+function byteRangeCoverageError(bytes: Uint8Array, byteRange: number[], contents: PDFHexString | PDFString): string | null {
+  const [start1, length1, start2] = byteRange;
+  if (start1 !== 0) return '/ByteRange does not start at the beginning of the file';
+  if (start1 + length1 > start2) return '/ByteRange ranges overlap';
+  if (!(contents instanceof PDFHexString)) return '/Contents is not a hex string';
+
+  const gap = new TextDecoder('latin1').decode(bytes.subarray(start1 + length1, start2));
+  const match = /^<([0-9A-Fa-f\s]*)>$/.exec(gap);
+  const normalize = (hex: string) => hex.replace(/\s/g, '').toUpperCase();
+  if (!match || normalize(match[1]) !== normalize(contents.asString())) {
+    return '/ByteRange gap is not the /Contents value';
+  }
+  return null;
+}
+
+function textOf(object: PDFObject | undefined): string {
+  return object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : '';
+}
+
+function isWhitespace(b: number): boolean {
+  return b === 0x20 || b === 0x0a || b === 0x0d || b === 0x09 || b === 0x0c || b === 0x00;
+}
+
+/** PDF 날짜 문자열 (D:YYYYMMDDHHmmSS+HH'mm') */
+export function parsePdfDate(text: string): Date | null {
+  const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?'?/.exec(text);
+  if (!match) return null;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone, zoneHour = '00', zoneMinute = '00'] = match;
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  const offset = (Number(zoneHour) * 60 + Number(zoneMinute)) * 60_000;
+  return new Date(zone === '+' ? utc - offset : zone === '-' ? utc + offset : utc);
+}
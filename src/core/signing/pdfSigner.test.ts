@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { PDFArray, PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { loadPkcs12 } from "./pkcs12";
+import { signPdf } from "./pdfSigner";
+import { verifyPdfSignatures } from "./pdfSignatureVerifier";
+
+/** openssl req -x509 -newkey ec (P-256), openssl pkcs12 -export (PBES2 AES-256, 비밀번호 "test") */
+const EC_P12 =
+  "MIIETAIBAzCCBAIGCSqGSIb3DQEHAaCCA/MEggPvMIID6zCCAqIGCSqGSIb3DQEHBqCCApMwggKPAgEAMIICiAYJKoZIhvcNAQcB" +
+  "MFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAiaJLf2R9HqXwICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQMEASoEEDmd" +
+  "C+7mpneJvHfxEOTmdq6AggIgfvgX0aB51+JqWottWdA81xNgWn2lBUeF2Lg3l9GnzR73iCLDGwiH0+INcwCsbpfgebUKJF3vK0wl" +
+  "5bgf4Yhc7462wk/vfOLVn1EPeLwJtZcJKXCIzmoyjSLC1bbYMk7v5IdOYimedegqQg92r4HWmVCbcrNUJDG1FjiSB5DsvtNRXRMK" +
+  "TDFznOF2w/NUvw6n2zluMt0pmRsyHxcnuU9E++xhEl9lJEUPD8NzwRt79g4vzLnqEf8/S1sV3SVspZm4RYeG3GrdUNXvVCcjDj06" +
+  "gEPibXFSsYacJUlkT6x0HornJvzjTEaq+kKknK+CwS96RwISVelRblBXCAL8GzpWdz7xpgJPDJAzPpkETe4FF9uSR5UJKEYyzUIW" +
+  "5UVPmg7BeJjSDxfmpSHT6kHdG7tQVqy/maq7i5f50D9kN3z0xO/kIHlGbtNd8QKUAIk6lRaAWeJ1ZiQ4zAZj6AdsjugGO0KZypJp" +
+  "rQTYjQ2hw9FxNGmqagZ+ukSF37qH5uhOL9UgnnGor90b2uyhwApGuohFva6D9cEk83VCJFRWV4y0Dl3qYlsIWDvFgJSALtp6kycR" +
+  "zPu2wC1ipZHBnUqb3CRKbttutFGQYxF1/P/n9hdzVr8VFMdix26RX+/PPAvxwgQd0FNug9yZaGv6NRxjzOI/YfKZGLq4Z1yGFXBl" +
+  "tueuybQO9dagqQdMJS73UcD4M45iW+/ahwAQIEMJBUzn1UuD0TCCAUEGCSqGSIb3DQEHAaCCATIEggEuMIIBKjCCASYGCyqGSIb3" +
+  "DQEMCgECoIHvMIHsMFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAgbp0ZGhVb0QQICCAAwDAYIKoZIhvcNAgkFADAdBglg" +
+  "hkgBZQMEASoEEK3xbjQ7vWRaUZRHxRXez9UEgZDfB8I//Xo7IPOQ3Z5o6QderFkJmX/cZO1maF96hFhzjlp6mVPAJbp4+vhHaT77" +
+  "1Zs6W+il8rsz27j0EkXo1BJGP6P6gvTLGMUUlCdG7NMYZHZu/h/AQXKFR6uadzdsiRBDaMlRWfjHdIaV/ZvE8iF9rrsUxhGPAfvD" +
+  "rbVSYuVU0Yx8DcRYUiQ0ZN6P+3SMCBoxJTAjBgkqhkiG9w0BCRUxFgQUN+Gr6q1CFcy4Me8AicoQhqYJeCMwQTAxMA0GCWCGSAFl" +
+  "AwQCAQUABCDf7MYmUhMvFRNMUInlmQQEFjPQCXKYNujBzhyq0aZyCQQIlh8VAWNdAFECAggA";
+
+/** RSA 1024 자체 서명 인증서 (CN=RSA Test), 같은 방식으로 내보냄 */
+const RSA_P12 =
+  "MIIGjwIBAzCCBkUGCSqGSIb3DQEHAaCCBjYEggYyMIIGLjCCAvIGCSqGSIb3DQEHBqCCAuMwggLfAgEAMIIC2AYJKoZIhvcNAQcB" +
+  "MFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAiV8qcCEoqDsAICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQMEASoEEDga" +
+  "/H66fAqi7o7+dBVaxOKAggJwRlUzUNeix3dgCaaEFbTmWTFdhzIx+ktaLItBedQk6URBhCHKBr8O+TICLMWXrBRx3P64B5997MUW" +
+  "XlBj6wEl2OxprPj4XjEKakQd97o8otGHJbS7KTLmziH70VRZSvqYAwz4sHaz/7pDkzmPvu+P8ViWBqmuzWFhTz5Iuo4JzDG/SMTD" +
+  "X3IW3cG40rmypriuNGP2eQnaf1mVIwwWVmaXSkReiYKuxymUkuTAVirjtX2BqWstnZPJlXJx5Dk1I6QFqSRLC8Kf7JmpWMKD4LqK" +
+  "4VEVWOBkqtG3lV4Zbd2wWnQrpYD3yyPmYglHWMnmS2ssto2pzAPb7CpbDLZN6ONtzQ0ssjTbBdoydfYtw8PPKH7SDAagU2ySAyDR" +
+  "LDaWXGGdCA7aiO1QhcOowETOWZEs/ERU3F1yWAEHV5gU6bIW639g9XhSFs6IftvcECgqqDMP786elnKX/MHWW/Y4YoknmY036mrR" +
+  "5lDGv4CnfYuzVGNQMXW/+a/Petu/FD4BrsWgWXLBAUsROCtJqu1hln9Ewu+qlnAeGep4p1GrU05nV1ZugDJHU0EqnGUQhICdi1P7" +
+  "bqQARSIyHXGfEbWNOavDAIAoWpsPfS2AcBfpjKzy8s+o87qpf0gKSdLi+J9hQgTXB1m3sXWspaE3HZmiFlCM0B42X+AtRduVt8He" +
+  "ju/t7O/tGbHnhgXV1LbJEOsH8UTsNuxt2Q74ljMreQx/KhMMgH9EiPEsallaYgqMQhP+mAwLgdKCGCZy1onHndB+pi5pYT4fJX3T" +
+  "8ySDwwLjWzuZgDGMljcWIao0UK8RBItexXQJTaGLJzVcBdqZZ7LAvNFSMIIDNAYJKoZIhvcNAQcBoIIDJQSCAyEwggMdMIIDGQYL" +
+  "KoZIhvcNAQwKAQKgggLhMIIC3TBXBgkqhkiG9w0BBQ0wSjApBgkqhkiG9w0BBQwwHAQIqcaA00Jp4DICAggAMAwGCCqGSIb3DQIJ" +
+  "BQAwHQYJYIZIAWUDBAEqBBA4ulNfaT+Zmfrv0XFPkHPYBIICgJyj9AhMswtc6sk16UC2Qju/Sy45ZZE2CIpjEr6AKObkLk/WBAYN" +
+  "Ki4efJErwvAjF5TL5czDtR+sDQviXwHKyLvOOmx8fgDyVyPotG7QqrvG6J9gJv361rUodB9qbgaJVH+GCnIl/mlJqDsVyP3MEwSm" +
+  "LA6mrOAyJPo4Rtf6z3nOqciGvoItMdaoMQ88KsLPoUAVSkmtFQZfYaWT+Kf7KfvcnilFs99duYPQqiLTGJrPQ/YmZ1YF1vL981NV" +
+  "Ot/Np33YeVes9cXkV4BXZuPqlLSa49BFbrrSaRVq1CSkmNiZ4bOj0jrrrlGhFKUJciSCnxZXkQqS3v9G2U/EmFDxaHC8YBUMFyba" +
+  "Ch6r/FTGMpx6p4E4q7rV9Gqvs6ipRN4CjIc7Ku4MkEK4wnHhFXXN5NeU2h8ZxUcoqZut6b+GECotlroFDFzudYf2HChXT/2Nq1Az" +
+  "qrDKUIaN7tGn+IRqYdONy4J0nsxLCBFQavEbE3G7VyxyGmQiFGkBnTf2tbHy2iR0V+zneZQdI/fgB6fwSOm7yaC4tw0X3hKm6gIY" +
+  "D5WkuR0SztruGOtY8rtr9UtmK44btMuya1WzlJvufuR16pXwpqy749buVN4kmFcuY66z8Bdfm/L2HU/3ZJv7y+2XTHDv31crRua8" +
+  "//0jkdKrkiRer2U0+Gt8GCgv2ksdgkR+hmyxU4LBSx1LpqteaSk+gKCgU9rJOi829xdlLOresIjurlTt8GSFHOfXnER3eJtF3oDR" +
+  "DntVzW4xcypNo6C7IT684aZmV/JULWLyUp5Qs6XY5sYknOwdnGRUDjjTuWZZFoMBaUG98joARE8gX89PPKpJTGrLBpRxB9Zf28VA" +
+  "iyIxJTAjBgkqhkiG9w0BCRUxFgQU9BrIlu47VTi43rm5m5aauHWTamYwQTAxMA0GCWCGSAFlAwQCAQUABCB3qld1Dr3SfjyfMXOD" +
+  "p2qosNEr5sTXTTPc0dXdsSEqzQQIGC+e7Vs6PBwCAggA";
+
+const PNG_1X1 = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR4nGNgYGD4DwABBAEAX+XDSwAAAABJRU5ErkJggg==";
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+/** 서명된 바이트의 /ByteRange 숫자를 같은 길이로 바꿔 쓴 사본 */
+function withByteRange(signed: Uint8Array, change: (range: number[]) => number[]): Uint8Array {
+  const text = new TextDecoder("latin1").decode(signed);
+  const start = text.indexOf("[", text.indexOf("/ByteRange "));
+  const close = text.indexOf("]", start);
+  const end = close + 1 + /^ */.exec(text.slice(close + 1))![0].length;
+  const range = text.slice(start + 1, close).trim().split(/\s+/).map(Number);
+  const replaced = `[${change(range).join(" ")}]`.padEnd(end - start, " ");
+  expect(replaced.length).toBe(end - start);
+  const bytes = signed.slice();
+  bytes.set(new TextEncoder().encode(replaced), start);
+  return bytes;
+}
+
+async function blankPdf(pageCount = 1): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([300, 400]);
+  return pdfDoc.save();
+}
+
+describe("loadPkcs12", () => {
+  it("opens AES-encrypted certificates and matches the key to its certificate", async () => {
+    const credential = await loadPkcs12(fromBase64(EC_P12), "test");
+    expect(credential.keyAlgorithm).toEqual({ kind: "ec", namedCurve: "P-256" });
+    expect(credential.certificate.subjectName).toBe("JustFlux Test Signer");
+    expect(credential.chain).toHaveLength(1);
+    expect(credential.privateKey.usages).toEqual(["sign"]);
+  });
+
+  it("rejects a wrong password", async () => {
+    await expect(loadPkcs12(fromBase64(EC_P12), "nope")).rejects.toThrow("Incorrect certificate password");
+    await expect(loadPkcs12(new Uint8Array([1, 2, 3]), "test")).rejects.toThrow("Not a PKCS#12");
+  });
+});
+
+describe("signPdf", () => {
+  it("signs the whole file and verifies as unchanged", async () => {
+    const credential = await loadPkcs12(fromBase64(EC_P12), "test");
+    const signingTime = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const signed = await signPdf(await blankPdf(), { credential, signingTime, reason: "Approved" });
+
+    const [signature, ...rest] = await verifyPdfSignatures(signed);
+    expect(rest).toEqual([]);
+    expect(signature).toMatchObject({
+      fieldName: "Signature1",
+      signerName: "JustFlux Test Signer",
+      subFilter: "ETSI.CAdES.detached",
+      reason: "Approved",
+      integrity: "valid",
+      changedAfterSigning: false,
+      selfSigned: true,
+      certificateValidAtSigning: true,
+    });
+    expect(signature.signingTime?.toISOString()).toBe(signingTime.toISOString());
+  });
+
+  it("detects changes inside the signed range and appended updates", async () => {
+    const credential = await loadPkcs12(fromBase64(RSA_P12), "test");
+    const signed = await signPdf(await blankPdf(), { credential });
+    expect((await verifyPdfSignatures(signed))[0]).toMatchObject({ signerName: "RSA Test", integrity: "valid" });
+
+    const tampered = signed.slice();
+    const mediaBox = new TextDecoder("latin1").decode(tampered).indexOf("/MediaBox [ 0 0 300 400 ]");
+    tampered[mediaBox + 16] = "5".charCodeAt(0);
+    expect((await verifyPdfSignatures(tampered))[0].integrity).toBe("modified");
+
+    const appended = new Uint8Array([...signed, ...new TextEncoder().encode("% incremental update\n")]);
+    expect((await verifyPdfSignatures(appended))[0]).toMatchObject({ integrity: "valid", changedAfterSigning: true });
+  });
+
+  it("rejects byte ranges that leave part of the file unsigned", async () => {
+    const credential = await loadPkcs12(fromBase64(RSA_P12), "test");
+    const signed = await signPdf(await blankPdf(), { credential });
+
+    const notFromStart = withByteRange(signed, ([, length1, start2, length2]) => [10, length1 - 10, start2, length2]);
+    expect((await verifyPdfSignatures(notFromStart))[0]).toMatchObject({
+      integrity: "modified", error: "/ByteRange does not start at the beginning of the file",
+    });
+
+    const shifted = withByteRange(signed, ([start1, length1, start2, length2]) => [start1, length1 + 1, start2 + 1, length2 - 1]);
+    expect((await verifyPdfSignatures(shifted))[0]).toMatchObject({
+      integrity: "modified", error: "/ByteRange gap is not the /Contents value",
+    });
+
+    const overlapping = withByteRange(signed, ([start1, , start2, length2]) => [start1, start2 + 10, start2, length2]);
+    expect((await verifyPdfSignatures(overlapping))[0]).toMatchObject({
+      integrity: "modified", error: "/ByteRange ranges overlap",
+    });
+  });
+
+  it("adds a visible signature box with the signature image on the chosen page", async () => {
+    const credential = await loadPkcs12(fromBase64(EC_P12), "test");
+    const signed = await signPdf(await blankPdf(2), { credential, appearance: { page: "last", imageData: PNG_1X1 } });
+
+    const pdfDoc = await PDFDocument.load(signed);
+    const acroForm = pdfDoc.catalog.lookup(PDFName.of("AcroForm"), PDFDict);
+    expect(acroForm.get(PDFName.of("SigFlags"))?.toString()).toBe("3");
+    const annots = pdfDoc.getPage(1).node.Annots() as PDFArray;
+    const widget = pdfDoc.context.lookup(annots.get(0), PDFDict);
+    expect(widget.lookup(PDFName.of("Rect"), PDFArray).asArray().map(String)).toEqual(["64", "36", "264", "100"]);
+    expect(widget.get(PDFName.of("AP"))).toBeDefined();
+    expect(pdfDoc.getPage(0).node.Annots()).toBeUndefined();
+  });
+
+  it("reports unsigned files without parsing them", async () => {
+    expect(await verifyPdfSignatures(await blankPdf())).toEqual([]);
+  });
+});
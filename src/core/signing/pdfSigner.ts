@@ -0,0 +1,262 @@
+/**
+ * PDF 전자서명 (PAdES, ETSI.CAdES.detached)
+ *
+ * 1. 서명 필드(위젯 + /V 서명 사전)를 추가하고 /Contents를 0으로 채운 자리로 예약
+ * 2. 객체 스트림 없이 저장한 뒤 /ByteRange에 /Contents를 뺀 두 구간을 기록
+ * 3. 두 구간을 이은 바이트로 CMS 분리 서명을 만들어 예약한 자리에 16진수로 기록
+ *
+ * 서명 뒤에 파일을 다시 저장하면 서명이 깨지므로 내보내기의 마지막 단계에서만 호출한다.
+ */
+
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFOperator,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  degrees,
+  drawImage,
+  drawText,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from 'pdf-lib';
+import { createDetachedSignature } from './cms';
+import type { SigningCredential } from './pkcs12';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PdfSignatureAppearance {
+  /** 서명 상자를 놓을 페이지 (내보낸 문서의 첫/마지막 페이지 오른쪽 아래) */
+  page: 'first' | 'last';
+  /** PNG 서명 이미지 data URL (없으면 글자만) */
+  imageData?: string;
+}
+
+export interface PdfSigningOptions {
+  credential: SigningCredential;
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  /** 서명 시각 (기본: 지금) */
+  signingTime?: Date;
+  /** 보이는 서명 (없으면 보이지 않는 서명) */
+  appearance?: PdfSignatureAppearance;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** 서명 외 CMS 구조에 쓸 여유 (체인 인증서 크기는 따로 더함) */
+const SIGNATURE_RESERVE_BYTES = 8192;
+
+/** 저장 후 실제 값으로 덮어쓸 /ByteRange 자리 (숫자 10자리까지 들어감) */
+const BYTE_RANGE_PLACEHOLDER_NAME = '**********';
+const BYTE_RANGE_PLACEHOLDER = `[ 0 /${BYTE_RANGE_PLACEHOLDER_NAME} /${BYTE_RANGE_PLACEHOLDER_NAME} /${BYTE_RANGE_PLACEHOLDER_NAME} ]`;
+
+/** 보이는 서명 상자 크기와 페이지 가장자리 여백 (pt) */
+export const SIGNATURE_BOX_SIZE = { width: 200, height: 64 };
+const SIGNATURE_BOX_MARGIN = 36;
+
+// ============================================
+// Signing
+// ============================================
+
+/**
+ * PDF 바이트에 전자서명을 넣은 새 바이트를 돌려준다
+ */
+export async function signPdf(pdfBytes: Uint8Array, options: PdfSigningOptions): Promise<Uint8Array> {
+  const { credential } = options;
+  const signingTime = options.signingTime ?? new Date();
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+
+  const pages = pdfDoc.getPages();
+  if (pages.length === 0) throw new Error('Cannot sign a PDF without pages');
+
+  const reserve = SIGNATURE_RESERVE_BYTES + credential.chain.reduce((sum, c) => sum + c.der.length, 0);
+
+  // 서명 사전 (/V)
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: [0, BYTE_RANGE_PLACEHOLDER_NAME, BYTE_RANGE_PLACEHOLDER_NAME, BYTE_RANGE_PLACEHOLDER_NAME],
+    Contents: PDFHexString.of('0'.repeat(reserve * 2)),
+    M: PDFString.fromDate(signingTime),
+    Name: PDFHexString.fromText(credential.certificate.subjectName),
+  });
+  if (options.reason) signatureDict.set(PDFName.of('Reason'), PDFHexString.fromText(options.reason));
+  if (options.location) signatureDict.set(PDFName.of('Location'), PDFHexString.fromText(options.location));
+  if (options.contactInfo) signatureDict.set(PDFName.of('ContactInfo'), PDFHexString.fromText(options.contactInfo));
+  const signatureRef = context.register(signatureDict);
+
+  // AcroForm (SigFlags 3: 서명 있음 + 덧붙여 저장만 허용)
+  let acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) {
+    acroForm = context.obj({});
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+  }
+  let fields = acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  if (!fields) {
+    fields = context.obj([]);
+    acroForm.set(PDFName.of('Fields'), fields);
+  }
+  acroForm.set(PDFName.of('SigFlags'), context.obj(3));
+
+  // 서명 위젯 (보이지 않는 서명은 첫 페이지에 크기 0)
+  const page = options.appearance?.page === 'last' ? pages[pages.length - 1] : pages[0];
+  let rect = [0, 0, 0, 0];
+  let appearanceRef: PDFRef | undefined;
+  if (options.appearance) {
+    const crop = page.getCropBox();
+    const { width, height } = SIGNATURE_BOX_SIZE;
+    const x = crop.x + Math.max(0, crop.width - width - SIGNATURE_BOX_MARGIN);
+    const y = crop.y + Math.min(SIGNATURE_BOX_MARGIN, Math.max(0, crop.height - height));
+    rect = [x, y, x + width, y + height];
+    appearanceRef = await buildAppearance(pdfDoc, options, signingTime);
+  }
+
+  const widget = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFString.of(`Signature${fields.size() + 1}`),
+    V: signatureRef,
+    Rect: rect,
+    F: 132, // Print | Locked
+    P: page.ref,
+  });
+  if (appearanceRef) widget.set(PDFName.of('AP'), context.obj({ N: appearanceRef }));
+  const widgetRef = context.register(widget);
+  fields.push(widgetRef);
+  page.node.addAnnot(widgetRef);
+
+  // 바이트 위치를 바꾸지 않도록 객체 스트림 없이 저장
+  const bytes = await pdfDoc.save({ useObjectStreams: false });
+
+  const byteRangeStart = indexOfAscii(bytes, `/ByteRange ${BYTE_RANGE_PLACEHOLDER}`);
+  if (byteRangeStart < 0) throw new Error('Signature placeholder not found in the saved PDF');
+  const contentsStart = indexOfAscii(bytes, '/Contents <', byteRangeStart) + '/Contents '.length;
+  const contentsEnd = contentsStart + reserve * 2 + 2;
+  if (contentsStart < byteRangeStart || bytes[contentsEnd - 1] !== 0x3e /* > */) {
+    throw new Error('Signature contents placeholder not found in the saved PDF');
+  }
+
+  const byteRange = [0, contentsStart, contentsEnd, bytes.length - contentsEnd];
+  const byteRangeText = `[${byteRange.join(' ')}]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ');
+  writeAscii(bytes, byteRangeStart + '/ByteRange '.length, byteRangeText);
+
+  const signedContent = new Uint8Array(contentsStart + byteRange[3]);
+  signedContent.set(bytes.subarray(0, contentsStart), 0);
+  signedContent.set(bytes.subarray(contentsEnd), contentsStart);
+
+  const cms = await createDetachedSignature(signedContent, credential);
+  if (cms.length > reserve) throw new Error('The signature is larger than the reserved space');
+  writeAscii(bytes, contentsStart + 1, Array.from(cms, (b) => b.toString(16).padStart(2, '0')).join('').toUpperCase());
+
+  return bytes;
+}
+
+// ============================================
+// Appearance
+// ============================================
+
+/** 보이는 서명 모양: 왼쪽에 서명 이미지, 오른쪽(또는 전체)에 서명자/시각 */
+async function buildAppearance(pdfDoc: PDFDocument, options: PdfSigningOptions, signingTime: Date): Promise<PDFRef> {
+  const { context } = pdfDoc;
+  const { width, height } = SIGNATURE_BOX_SIZE;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const ops: PDFOperator[] = [];
+  const resources: Record<string, PDFDict> = { Font: context.obj({ F1: font.ref }) };
+
+  let textLeft = 4;
+  if (options.appearance?.imageData) {
+    try {
+      const image = await pdfDoc.embedPng(options.appearance.imageData);
+      const boxWidth = width * 0.45;
+      const scale = Math.min(boxWidth / image.width, (height - 8) / image.height);
+      const w = image.width * scale;
+      const h = image.height * scale;
+      ops.push(
+        pushGraphicsState(),
+        ...drawImage('Img', {
+          x: 4 + (boxWidth - w) / 2, y: (height - h) / 2, width: w, height: h,
+          rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+        }),
+        popGraphicsState(),
+      );
+      resources.XObject = context.obj({ Img: image.ref });
+      textLeft = boxWidth + 10;
+    } catch (error) {
+      console.warn('⚠️ 서명 이미지를 넣지 못해 글자만 표시합니다:', error);
+    }
+  }
+
+  const lines = [
+    'Digitally signed by',
+    options.credential.certificate.subjectName,
+    `Date: ${formatSignatureDate(signingTime)}`,
+    ...(options.reason ? [`Reason: ${options.reason}`] : []),
+    ...(options.location ? [`Location: ${options.location}`] : []),
+  ];
+  const size = 7;
+  const lineHeight = size * 1.25;
+  const top = (height + lines.length * lineHeight) / 2 - size;
+  lines.forEach((line, i) => {
+    ops.push(...drawText(font.encodeText(encodableText(font, line)), {
+      color: rgb(0.2, 0.2, 0.2),
+      font: 'F1',
+      size: i === 1 ? size + 2 : size,
+      rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+      x: textLeft,
+      y: top - i * lineHeight,
+    }));
+  });
+
+  return context.register(context.formXObject(ops, { BBox: [0, 0, width, height], Resources: resources }));
+}
+
+/** Helvetica(WinAnsi)에 없는 글자는 ?로 (서명자 이름은 /Name에 유니코드로 따로 남음) */
+function encodableText(font: PDFFont, text: string): string {
+  const charset = new Set(font.getCharacterSet());
+  return Array.from(text, (ch) => (charset.has(ch.codePointAt(0)!) ? ch : '?')).join('');
+}
+
+/** 2026.01.09 14:03:00 +09'00' */
+export function formatSignatureDate(date: Date): string {
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} `
+    + `${sign}${pad(Math.floor(Math.abs(offset) / 60))}'${pad(Math.abs(offset) % 60)}'`;
+}
+
+// ============================================
+// Byte helpers
+// ============================================
+
+/** ASCII 문자열의 바이트 위치 (없으면 -1) */
+export function indexOfAscii(bytes: Uint8Array, text: string, from = 0): number {
+  const first = text.charCodeAt(0);
+  outer: for (let i = bytes.indexOf(first, from); i >= 0 && i <= bytes.length - text.length; i = bytes.indexOf(first, i + 1)) {
+    for (let j = 1; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+}
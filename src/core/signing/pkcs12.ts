@@ -0,0 +1,264 @@
+/**
+ * PKCS#12 (.p12/.pfx) 읽기 - 브라우저 안에서 WebCrypto로만 복호화
+ *
+ * - 무결성 MAC(HMAC-SHA1/256/384/512) 확인 → 틀리면 비밀번호 오류
+ * - PBES2(PBKDF2 + AES-CBC)로 암호화된 키/인증서 가방 복호화
+ *   (OpenSSL 3, Windows "AES256-SHA256", macOS 키체인 기본값)
+ * - 예전 PKCS#12 PBE(3DES/RC2)는 WebCrypto에 없으므로 다시 내보내라는 오류를 낸다.
+ */
+
+import {
+  TAG, child, concatBytes, contextTag, decodeOid, decodeSmallInt, findChild, octets, parseDer, raw, toHex,
+} from './asn1';
+import type { Asn1Node } from './asn1';
+import { DIGEST_ALGORITHMS, bufferOf, digest, importPrivateKey } from './signingKeys';
+import type { HashName, KeyAlgorithmInfo } from './signingKeys';
+import { buildChain, parseCertificate } from './x509';
+import type { Certificate } from './x509';
+
+/** 서명에 쓸 개인키와 인증서 체인 */
+export interface SigningCredential {
+  privateKey: CryptoKey;
+  keyAlgorithm: KeyAlgorithmInfo;
+  /** 서명자 인증서 */
+  certificate: Certificate;
+  /** 서명자부터 발급자 순 (서명자 포함) */
+  chain: Certificate[];
+}
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  localKeyId: '1.2.840.113549.1.9.21',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+  legacyPbePrefix: '1.2.840.113549.1.12.1.',
+} as const;
+
+const PBKDF2_PRFS: Record<string, HashName> = {
+  '1.2.840.113549.2.7': 'SHA-1',
+  '1.2.840.113549.2.9': 'SHA-256',
+  '1.2.840.113549.2.10': 'SHA-384',
+  '1.2.840.113549.2.11': 'SHA-512',
+};
+
+const AES_CBC_KEY_LENGTHS: Record<string, number> = {
+  '2.16.840.1.101.3.4.1.2': 16,
+  '2.16.840.1.101.3.4.1.22': 24,
+  '2.16.840.1.101.3.4.1.42': 32,
+};
+
+const HASH_SIZES: Record<HashName, { output: number; block: number }> = {
+  'SHA-1': { output: 20, block: 64 },
+  'SHA-256': { output: 32, block: 64 },
+  'SHA-384': { output: 48, block: 128 },
+  'SHA-512': { output: 64, block: 128 },
+};
+
+interface SafeBag {
+  type: string;
+  value: Asn1Node;
+  localKeyId?: string;
+}
+
+/**
+ * .p12/.pfx 바이트와 비밀번호로 서명 자격 증명을 연다
+ * 비밀번호가 틀리거나 지원하지 않는 암호화면 영어 메시지로 오류를 던진다.
+ */
+export async function loadPkcs12(bytes: Uint8Array, password: string): Promise<SigningCredential> {
+  let pfx: Asn1Node;
+  try {
+    pfx = parseDer(bytes);
+  } catch {
+    throw new Error('Not a PKCS#12 (.p12/.pfx) file');
+  }
+
+  const authSafe = child(pfx, 1, TAG.SEQUENCE);
+  if (decodeOid(child(authSafe, 0, TAG.OID)) !== OID.data) {
+    throw new Error('Public-key protected PKCS#12 files are not supported');
+  }
+  const authSafeContent = octets(child(child(authSafe, 1, contextTag(0)), 0));
+
+  const macData = pfx.children[2];
+  if (macData) await verifyMac(macData, authSafeContent, password);
+
+  // AuthenticatedSafe → SafeContents들 → SafeBag들
+  const bags: SafeBag[] = [];
+  for (const contentInfo of parseDer(authSafeContent).children) {
+    const type = decodeOid(child(contentInfo, 0, TAG.OID));
+    const body = child(child(contentInfo, 1, contextTag(0)), 0);
+    if (type === OID.data) {
+      bags.push(...readSafeContents(octets(body)));
+    } else if (type === OID.encryptedData) {
+      const encryptedContentInfo = child(body, 1, TAG.SEQUENCE);
+      const algorithm = child(encryptedContentInfo, 1, TAG.SEQUENCE);
+      const encrypted = findChild(encryptedContentInfo, contextTag(0, false)) ?? findChild(encryptedContentInfo, contextTag(0));
+      if (!encrypted) continue;
+      bags.push(...readSafeContents(await decrypt(algorithm, octets(encrypted), password)));
+    }
+  }
+
+  const keyBag = bags.find((b) => b.type === OID.keyBag || b.type === OID.shroudedKeyBag);
+  if (!keyBag) throw new Error('The PKCS#12 file does not contain a private key');
+
+  let pkcs8: Uint8Array;
+  if (keyBag.type === OID.keyBag) {
+    pkcs8 = raw(keyBag.value);
+  } else {
+    pkcs8 = await decrypt(child(keyBag.value, 0, TAG.SEQUENCE), octets(child(keyBag.value, 1, TAG.OCTET_STRING)), password);
+  }
+  const { key, algorithm } = await importPrivateKey(pkcs8);
+
+  const certBags = bags.filter((b) => b.type === OID.certBag
+    && decodeOid(child(b.value, 0, TAG.OID)) === OID.x509Certificate);
+  const certificates = certBags.map((b) => parseCertificate(octets(child(child(b.value, 1, contextTag(0)), 0))));
+  if (certificates.length === 0) throw new Error('The PKCS#12 file does not contain a certificate');
+
+  // 키와 같은 localKeyId의 인증서, 없으면 다른 인증서의 발급자가 아닌 것(말단)
+  const matchIndex = keyBag.localKeyId ? certBags.findIndex((b) => b.localKeyId === keyBag.localKeyId) : -1;
+  const certificate = matchIndex >= 0
+    ? certificates[matchIndex]
+    : certificates.find((c) => !certificates.some((other) => other !== c && toHex(other.issuer) === toHex(c.subject)))
+      ?? certificates[0];
+
+  return {
+    privateKey: key,
+    keyAlgorithm: algorithm,
+    certificate,
+    chain: buildChain(certificate, certificates),
+  };
+}
+
+function readSafeContents(data: Uint8Array): SafeBag[] {
+  return parseDer(data).children.map((bag) => {
+    const attributes = bag.children[2];
+    const localKeyId = attributes?.children.find((a) => decodeOid(child(a, 0, TAG.OID)) === OID.localKeyId);
+    return {
+      type: decodeOid(child(bag, 0, TAG.OID)),
+      value: child(child(bag, 1, contextTag(0)), 0),
+      localKeyId: localKeyId ? toHex(octets(child(child(localKeyId, 1, TAG.SET), 0))) : undefined,
+    };
+  });
+}
+
+// ============================================
+// MAC (RFC 7292 Appendix B)
+// ============================================
+
+async function verifyMac(macData: Asn1Node, authSafeContent: Uint8Array, password: string) {
+  const digestInfo = child(macData, 0, TAG.SEQUENCE);
+  const hash = DIGEST_ALGORITHMS[decodeOid(child(child(digestInfo, 0, TAG.SEQUENCE), 0, TAG.OID))];
+  if (!hash) return; // 모르는 MAC(PBMAC1 등)은 건너뛰고 복호화 결과로 판단
+  const expected = octets(child(digestInfo, 1, TAG.OCTET_STRING));
+  const salt = octets(child(macData, 1, TAG.OCTET_STRING));
+  const iterations = macData.children[2] ? decodeSmallInt(macData.children[2]) : 1;
+
+  // 빈 비밀번호는 구현마다 00 00 또는 빈 값으로 다뤄서 둘 다 시도
+  const candidates = password ? [bmpPassword(password)] : [bmpPassword(''), new Uint8Array(0)];
+  for (const passwordBytes of candidates) {
+    const macKey = await pkcs12Kdf(hash, passwordBytes, salt, 3, iterations, HASH_SIZES[hash].output);
+    const key = await crypto.subtle.importKey('raw', bufferOf(macKey), { name: 'HMAC', hash }, false, ['verify']);
+    if (await crypto.subtle.verify('HMAC', key, bufferOf(expected), bufferOf(authSafeContent))) return;
+  }
+  throw new Error('Incorrect certificate password');
+}
+
+/** BMPString(UTF-16BE) + 끝 00 00 */
+function bmpPassword(password: string): Uint8Array {
+  const out = new Uint8Array((password.length + 1) * 2);
+  for (let i = 0; i < password.length; i++) {
+    out[i * 2] = password.charCodeAt(i) >> 8;
+    out[i * 2 + 1] = password.charCodeAt(i) & 0xff;
+  }
+  return out;
+}
+
+/** PKCS#12 키 유도 함수 (id: 1=키, 2=IV, 3=MAC) */
+async function pkcs12Kdf(
+  hash: HashName,
+  password: Uint8Array,
+  salt: Uint8Array,
+  id: number,
+  iterations: number,
+  length: number,
+): Promise<Uint8Array> {
+  const { output: u, block: v } = HASH_SIZES[hash];
+  const fill = (data: Uint8Array) => {
+    const out = new Uint8Array(v * Math.ceil(data.length / v));
+    for (let i = 0; i < out.length; i++) out[i] = data[i % data.length];
+    return out;
+  };
+
+  const D = new Uint8Array(v).fill(id);
+  const I = concatBytes(fill(salt), fill(password));
+  const result = new Uint8Array(Math.ceil(length / u) * u);
+
+  for (let block = 0; block * u < length; block++) {
+    let A = await digest(hash, concatBytes(D, I));
+    for (let r = 1; r < iterations; r++) A = await digest(hash, A);
+    result.set(A, block * u);
+
+    // I_j = (I_j + B + 1) mod 2^(v*8)
+    const B = fill(A.subarray(0, Math.min(u, v)));
+    for (let j = 0; j < I.length; j += v) {
+      let carry = 1;
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = I[j + k] + B[k % B.length] + carry;
+        I[j + k] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return result.subarray(0, length);
+}
+
+// ============================================
+// PBES2 decryption
+// ============================================
+
+async function decrypt(algorithm: Asn1Node, data: Uint8Array, password: string): Promise<Uint8Array> {
+  const algorithmOid = decodeOid(child(algorithm, 0, TAG.OID));
+  if (algorithmOid.startsWith(OID.legacyPbePrefix)) {
+    throw new Error('This certificate uses legacy 3DES/RC2 encryption. Re-export it with AES-256 (e.g. "openssl pkcs12 -export" or the AES256-SHA256 option in Windows)');
+  }
+  if (algorithmOid !== OID.pbes2) throw new Error(`Unsupported PKCS#12 encryption (${algorithmOid})`);
+
+  const params = child(algorithm, 1, TAG.SEQUENCE);
+  const kdf = child(params, 0, TAG.SEQUENCE);
+  const scheme = child(params, 1, TAG.SEQUENCE);
+  if (decodeOid(child(kdf, 0, TAG.OID)) !== OID.pbkdf2) throw new Error('Unsupported PKCS#12 key derivation');
+
+  const schemeOid = decodeOid(child(scheme, 0, TAG.OID));
+  const keyLength = AES_CBC_KEY_LENGTHS[schemeOid];
+  if (!keyLength) throw new Error(`Unsupported PKCS#12 cipher (${schemeOid}); re-export the certificate with AES-256`);
+  const iv = octets(child(scheme, 1, TAG.OCTET_STRING));
+
+  const kdfParams = child(kdf, 1, TAG.SEQUENCE);
+  const salt = octets(child(kdfParams, 0, TAG.OCTET_STRING));
+  const iterations = decodeSmallInt(child(kdfParams, 1, TAG.INTEGER));
+  const prf = kdfParams.children.find((c) => c.tag === TAG.SEQUENCE);
+  const prfHash = prf ? PBKDF2_PRFS[decodeOid(child(prf, 0, TAG.OID))] : 'SHA-1';
+  if (!prfHash) throw new Error('Unsupported PKCS#12 PBKDF2 hash');
+
+  const baseKey = await crypto.subtle.importKey(
+    'raw', bufferOf(new TextEncoder().encode(password)), 'PBKDF2', false, ['deriveKey'],
+  );
+  const aesKey = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: bufferOf(salt), iterations, hash: prfHash },
+    baseKey,
+    { name: 'AES-CBC', length: keyLength * 8 },
+    false,
+    ['decrypt'],
+  );
+
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: bufferOf(iv) }, aesKey, bufferOf(data)));
+  } catch {
+    // MAC이 없는 파일은 여기서 처음 비밀번호 오류가 드러남 (패딩 불일치)
+    throw new Error('Incorrect certificate password');
+  }
+}
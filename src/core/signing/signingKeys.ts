@@ -0,0 +1,123 @@
+/**
+ * 서명 키 - PKCS#8/SPKI를 WebCrypto 키로 가져오기와 알고리즘 매핑
+ * RSA(PKCS#1 v1.5)와 ECDSA(P-256/384/521)만 지원한다.
+ */
+
+import { TAG, child, concatBytes, content, decodeOid, integer, parseDer, sequence } from './asn1';
+import type { Asn1Node } from './asn1';
+
+export type NamedCurve = 'P-256' | 'P-384' | 'P-521';
+
+export interface KeyAlgorithmInfo {
+  kind: 'rsa' | 'ec';
+  namedCurve?: NamedCurve;
+}
+
+export type HashName = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export const OID = {
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  sha256: '2.16.840.1.101.3.4.2.1',
+} as const;
+
+const CURVES: Record<string, NamedCurve> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+/** 다이제스트 알고리즘 OID → WebCrypto 해시 이름 */
+export const DIGEST_ALGORITHMS: Record<string, HashName> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+/** 서명 알고리즘 OID → 해시 (rsaEncryption은 digestAlgorithm을 따름) */
+export const SIGNATURE_HASHES: Record<string, HashName | null> = {
+  '1.2.840.113549.1.1.1': null,
+  '1.2.840.113549.1.1.5': 'SHA-1',
+  '1.2.840.113549.1.1.11': 'SHA-256',
+  '1.2.840.113549.1.1.12': 'SHA-384',
+  '1.2.840.113549.1.1.13': 'SHA-512',
+  '1.2.840.10045.4.1': 'SHA-1',
+  '1.2.840.10045.4.3.2': 'SHA-256',
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+};
+
+/** WebCrypto에 넘길 ArrayBuffer 복사본 */
+export function bufferOf(data: Uint8Array): ArrayBuffer {
+  return data.slice().buffer;
+}
+
+export async function digest(hash: HashName, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hash, bufferOf(data)));
+}
+
+/** AlgorithmIdentifier(공개키/개인키) → 키 종류, 모르는 알고리즘이면 null */
+export function keyAlgorithmFromIdentifier(identifier: Asn1Node): KeyAlgorithmInfo | null {
+  const algorithm = decodeOid(child(identifier, 0, TAG.OID));
+  if (algorithm === OID.rsaEncryption) return { kind: 'rsa' };
+  if (algorithm === OID.ecPublicKey) {
+    const params = identifier.children[1];
+    const namedCurve = params?.tag === TAG.OID ? CURVES[decodeOid(params)] : undefined;
+    return namedCurve ? { kind: 'ec', namedCurve } : null;
+  }
+  return null;
+}
+
+function importParams(algorithm: KeyAlgorithmInfo, hash: HashName): RsaHashedImportParams | EcKeyImportParams {
+  return algorithm.kind === 'rsa'
+    ? { name: 'RSASSA-PKCS1-v1_5', hash }
+    : { name: 'ECDSA', namedCurve: algorithm.namedCurve! };
+}
+
+/** sign/verify에 넘길 알고리즘 */
+export function signatureParams(algorithm: KeyAlgorithmInfo, hash: HashName): AlgorithmIdentifier | EcdsaParams {
+  return algorithm.kind === 'rsa' ? { name: 'RSASSA-PKCS1-v1_5' } : { name: 'ECDSA', hash };
+}
+
+/** PKCS#8 PrivateKeyInfo → 서명용 CryptoKey (SHA-256) */
+export async function importPrivateKey(pkcs8: Uint8Array): Promise<{ key: CryptoKey; algorithm: KeyAlgorithmInfo }> {
+  const info = parseDer(pkcs8);
+  const algorithm = keyAlgorithmFromIdentifier(child(info, 1, TAG.SEQUENCE));
+  if (!algorithm) throw new Error('Unsupported private key type (only RSA and ECDSA P-256/384/521 keys can sign)');
+
+  const key = await crypto.subtle.importKey('pkcs8', bufferOf(pkcs8), importParams(algorithm, 'SHA-256'), false, ['sign']);
+  return { key, algorithm };
+}
+
+/** SubjectPublicKeyInfo → 검증용 CryptoKey */
+export async function importPublicKey(spki: Uint8Array, algorithm: KeyAlgorithmInfo, hash: HashName): Promise<CryptoKey> {
+  return crypto.subtle.importKey('spki', bufferOf(spki), importParams(algorithm, hash), false, ['verify']);
+}
+
+// ============================================
+// ECDSA signature encoding
+// ============================================
+
+const CURVE_SIZES: Record<NamedCurve, number> = { 'P-256': 32, 'P-384': 48, 'P-521': 66 };
+
+/** WebCrypto의 r||s → CMS의 Ecdsa-Sig-Value (SEQUENCE { r, s }) */
+export function ecdsaRawToDer(signature: Uint8Array): Uint8Array {
+  const half = signature.length / 2;
+  return sequence(integer(signature.subarray(0, half)), integer(signature.subarray(half)));
+}
+
+/** Ecdsa-Sig-Value → WebCrypto의 고정 길이 r||s */
+export function ecdsaDerToRaw(signature: Uint8Array, curve: NamedCurve): Uint8Array {
+  const size = CURVE_SIZES[curve];
+  const node = parseDer(signature);
+  const fixed = (value: Uint8Array) => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    const trimmed = value.subarray(start);
+    if (trimmed.length > size) throw new Error('ECDSA signature value is too long');
+    return concatBytes(new Uint8Array(size - trimmed.length), trimmed);
+  };
+  return concatBytes(fixed(content(child(node, 0, TAG.INTEGER))), fixed(content(child(node, 1, TAG.INTEGER))));
+}
@@ -0,0 +1,108 @@
+/**
+ * X.509 인증서 읽기 - 서명에 필요한 필드만 (일련번호, 발급자/주체, 유효 기간, 공개키)
+ */
+
+import {
+  TAG, child, content, contextTag, decodeOid, decodeString, decodeTime, parseDer, raw, toHex,
+} from './asn1';
+import type { Asn1Node } from './asn1';
+import { keyAlgorithmFromIdentifier } from './signingKeys';
+import type { KeyAlgorithmInfo } from './signingKeys';
+
+export interface Certificate {
+  /** 인증서 전체 DER */
+  der: Uint8Array;
+  /** 일련번호 INTEGER 내용 바이트 */
+  serialNumber: Uint8Array;
+  /** 발급자/주체 Name DER (CMS IssuerAndSerialNumber, 체인 연결에 사용) */
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  /** 표시용 이름 (CN 우선) */
+  issuerName: string;
+  subjectName: string;
+  notBefore: Date;
+  notAfter: Date;
+  /** SubjectPublicKeyInfo DER */
+  publicKeyInfo: Uint8Array;
+  publicKeyAlgorithm: KeyAlgorithmInfo | null;
+}
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+/** DER 인증서 파싱 */
+export function parseCertificate(der: Uint8Array): Certificate {
+  const root = parseDer(der);
+  const tbs = child(root, 0, TAG.SEQUENCE);
+
+  // version [0]은 생략될 수 있음
+  let i = tbs.children[0]?.tag === contextTag(0) ? 1 : 0;
+  const serial = child(tbs, i++, TAG.INTEGER);
+  i++; // signature AlgorithmIdentifier
+  const issuer = child(tbs, i++, TAG.SEQUENCE);
+  const validity = child(tbs, i++, TAG.SEQUENCE);
+  const subject = child(tbs, i++, TAG.SEQUENCE);
+  const spki = child(tbs, i++, TAG.SEQUENCE);
+
+  return {
+    der: raw(root),
+    serialNumber: content(serial),
+    issuer: raw(issuer),
+    subject: raw(subject),
+    issuerName: formatName(issuer),
+    subjectName: formatName(subject),
+    notBefore: decodeTime(child(validity, 0)),
+    notAfter: decodeTime(child(validity, 1)),
+    publicKeyInfo: raw(spki),
+    publicKeyAlgorithm: keyAlgorithmFromIdentifier(child(spki, 0, TAG.SEQUENCE)),
+  };
+}
+
+/** Name의 속성 목록 ([['CN', '홍길동'], ['O', 'JustFlux']]) */
+export function nameAttributes(name: Asn1Node): [string, string][] {
+  const attributes: [string, string][] = [];
+  for (const rdn of name.children) {
+    for (const attribute of rdn.children) {
+      const type = decodeOid(child(attribute, 0, TAG.OID));
+      attributes.push([NAME_ATTRIBUTES[type] ?? type, decodeString(child(attribute, 1))]);
+    }
+  }
+  return attributes;
+}
+
+/** 표시용 이름: CN이 있으면 CN, 없으면 "O=..., C=..." */
+export function formatName(name: Asn1Node): string {
+  const attributes = nameAttributes(name);
+  const commonName = attributes.find(([key]) => key === 'CN');
+  if (commonName) return commonName[1];
+  return attributes.map(([key, value]) => `${key}=${value}`).join(', ');
+}
+
+/** 자체 서명 여부 (발급자 = 주체) */
+export function isSelfIssued(certificate: Certificate): boolean {
+  return toHex(certificate.issuer) === toHex(certificate.subject);
+}
+
+/**
+ * 말단 인증서부터 발급자 순으로 체인 정렬
+ * 목록에서 발급자를 찾지 못하면 거기서 멈춘다.
+ */
+export function buildChain(leaf: Certificate, pool: Certificate[]): Certificate[] {
+  const chain = [leaf];
+  let current = leaf;
+  while (!isSelfIssued(current) && chain.length <= pool.length) {
+    const issuerKey = toHex(current.issuer);
+    const issuer = pool.find((c) => !chain.includes(c) && toHex(c.subject) === issuerKey);
+    if (!issuer) break;
+    chain.push(issuer);
+    current = issuer;
+  }
+  return chain;
+}
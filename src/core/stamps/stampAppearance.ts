@@ -0,0 +1,108 @@
+/**
+ * Stamp Appearance - 스탬프 주석의 모양 계산
+ *
+ * 화면, 캔버스, SVG, PDF(벡터 / 주석 외관) 출력이 같은 테두리 경로와 텍스트 배치를 쓰도록 한 곳에 둔다.
+ * 테두리는 선 두께의 절반만큼 안쪽으로 그려 bbox 밖으로 나가지 않는다.
+ */
+
+import type { BBox, StampAnnotation } from '../../types/annotation';
+import { buildEllipsePath, buildRectPath } from '../io/annotationGeometry';
+import type { TextBlock } from '../io/annotationGeometry';
+
+// ============================================
+// Colors / Label
+// ============================================
+
+export const STAMP_COLORS: Record<StampAnnotation['stampType'], string> = {
+  approved: '#28a745',
+  rejected: '#dc3545',
+  pending: '#ffc107',
+  custom: '#6c757d',
+};
+
+const ROUNDED_RADIUS = 4;
+
+/** 테두리와 글자 색 */
+export function stampColor(a: StampAnnotation): string {
+  return a.style?.stroke || STAMP_COLORS[a.stampType] || STAMP_COLORS.custom;
+}
+
+/** 표시 텍스트 (내용이 없으면 종류 이름) */
+export function stampLabel(a: StampAnnotation): string {
+  return a.content || a.stampType.toUpperCase();
+}
+
+export function isImageStamp(a: StampAnnotation): boolean {
+  return !!a.imageData;
+}
+
+// ============================================
+// Frame
+// ============================================
+
+export interface StampFrame {
+  /** 채움 영역 (바깥 테두리) */
+  outline: string;
+  /** 테두리 선 (이중선이면 바깥/안쪽 두 개) */
+  strokes: string[];
+  strokeWidth: number;
+  dashArray?: number[];
+}
+
+function insetBox(box: BBox, inset: number): BBox {
+  return {
+    x: box.x + inset,
+    y: box.y + inset,
+    width: Math.max(0, box.width - inset * 2),
+    height: Math.max(0, box.height - inset * 2),
+  };
+}
+
+function shapePath(a: StampAnnotation, box: BBox): string {
+  switch (a.shape ?? 'rounded') {
+    case 'ellipse':
+      return buildEllipsePath(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2);
+    case 'rectangle':
+      return buildRectPath(box);
+    default:
+      return buildRectPath(box, ROUNDED_RADIUS);
+  }
+}
+
+export function stampFrame(a: StampAnnotation): StampFrame {
+  const width = a.borderStyle === 'none' ? 0 : a.style?.strokeWidth || 2;
+  const outline = shapePath(a, insetBox(a.bbox, width / 2));
+  if (width <= 0) return { outline, strokes: [], strokeWidth: 0 };
+
+  switch (a.borderStyle) {
+    case 'double':
+      // 안쪽 선은 선 두께 2배 간격
+      return { outline, strokes: [outline, shapePath(a, insetBox(a.bbox, width * 3.5))], strokeWidth: width };
+    case 'dashed':
+      return { outline, strokes: [outline], strokeWidth: width, dashArray: [width * 3, width * 2] };
+    default:
+      return { outline, strokes: [outline], strokeWidth: width };
+  }
+}
+
+// ============================================
+// Text
+// ============================================
+
+/**
+ * 가운데 정렬 텍스트 블록
+ * @param fontSize 지정하지 않으면 style.fontSize (기본 12)
+ */
+export function stampTextBlock(a: StampAnnotation, fontSize = a.style?.fontSize || 12): TextBlock {
+  return {
+    content: stampLabel(a),
+    box: a.bbox,
+    fontSize,
+    fontFamily: a.style?.fontFamily,
+    fontWeight: 'bold',
+    color: stampColor(a),
+    textAlign: 'center',
+    verticalAlign: 'middle',
+    lineHeight: 1.2,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILTIN_STAMPS,
+  createStampAnnotation,
+  hasStampTokens,
+  normalizeStampDefinition,
+  parseStampPack,
+  resolveStampTemplate,
+  serializeStampPack,
+  stampTokenValues,
+} from "./stampLibrary";
+import type { StampDefinition } from "./stampLibrary";
+import { stampFrame } from "./stampAppearance";
+
+const values = stampTokenValues({
+  now: new Date(2026, 2, 5, 9, 7),
+  user: "Kim",
+  docName: "contract.final.pdf",
+  pageNumber: 3,
+});
+
+const received: StampDefinition = {
+  id: "stamp-1",
+  name: "Received",
+  template: "RECEIVED {date} {time}\n{user} · {docName} p.{pageNumber}",
+  color: "#0078D4",
+  fill: "transparent",
+  shape: "ellipse",
+  borderStyle: "double",
+  borderWidth: 2,
+  fontSize: 14,
+  width: 160,
+  height: 60,
+};
+
+const seal: StampDefinition = {
+  ...received,
+  id: "stamp-2",
+  name: "Company seal",
+  template: undefined,
+  imageData: "data:image/png;base64,iVBORw0KGgo=",
+  width: 80,
+  height: 80,
+};
+
+describe("stamp tokens", () => {
+  it("resolves tokens with local date/time and strips the document extension", () => {
+    expect(resolveStampTemplate(received.template!, values))
+      .toBe("RECEIVED 2026-03-05 09:07\nKim · contract.final p.3");
+  });
+
+  it("keeps unknown tokens and detects known ones", () => {
+    expect(resolveStampTemplate("{date} {unknown}", values)).toBe("2026-03-05 {unknown}");
+    expect(hasStampTokens("PAID {date}")).toBe(true);
+    expect(hasStampTokens("PAID {unknown}")).toBe(false);
+  });
+});
+
+describe("createStampAnnotation", () => {
+  it("centres text stamps and keeps the template next to the resolved content", () => {
+    const a = createStampAnnotation({ definition: received, pageId: "p1", center: { x: 100, y: 100 }, values });
+    expect(a.bbox).toEqual({ x: 20, y: 70, width: 160, height: 60 });
+    expect(a.stampType).toBe("custom");
+    expect(a.stampId).toBe("stamp-1");
+    expect(a.template).toBe(received.template);
+    expect(a.content).toContain("RECEIVED 2026-03-05");
+    expect(a.style).toMatchObject({ stroke: "#0078D4", strokeWidth: 2, fontSize: 14, lockAspectRatio: false });
+    expect(stampFrame(a).strokes).toHaveLength(2);
+  });
+
+  it("places image stamps with a locked aspect ratio and built-ins with their stamp type", () => {
+    const image = createStampAnnotation({ definition: seal, pageId: "p1", center: { x: 40, y: 40 }, values });
+    expect(image.imageData).toBe(seal.imageData);
+    expect(image.template).toBeUndefined();
+    expect(image.style.lockAspectRatio).toBe(true);
+
+    const approved = createStampAnnotation({ definition: BUILTIN_STAMPS[0], pageId: "p1", center: { x: 0, y: 0 }, values });
+    expect(approved.stampType).toBe("approved");
+    expect(approved.content).toBe("APPROVED");
+  });
+});
+
+describe("stamp pack", () => {
+  it("round-trips user stamps and leaves built-ins out", () => {
+    const text = serializeStampPack([...BUILTIN_STAMPS, received, seal]);
+    const stamps = parseStampPack(text);
+    expect(stamps.map((s) => s.id)).toEqual(["stamp-1", "stamp-2"]);
+    expect(stamps[0]).toEqual(received);
+    expect(stamps[1].imageData).toBe(seal.imageData);
+    expect(stamps[1].template).toBeUndefined();
+  });
+
+  it("rejects other files, newer versions and unsafe images", () => {
+    expect(() => parseStampPack("not json")).toThrow("Not a JustFlux stamp pack");
+    expect(() => parseStampPack(JSON.stringify({ format: "jflux", stamps: [] }))).toThrow("Not a JustFlux stamp pack");
+    expect(() => parseStampPack(JSON.stringify({ format: "jfstamps", version: 99, stamps: [] }))).toThrow("newer");
+    expect(normalizeStampDefinition({ name: "x", imageData: "javascript:alert(1)" })).toBeNull();
+    expect(normalizeStampDefinition({ name: "x" })).toBeNull();
+    expect(normalizeStampDefinition({ template: "PAID", shape: "star", width: -5 }))
+      .toMatchObject({ name: "PAID", shape: "rounded", width: 120 });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Stamp Library - 사용자 정의 스탬프
+ *
+ * 스탬프 정의는 텍스트 템플릿(동적 토큰 포함) 또는 이미지(PNG/SVG, 회사 직인/도장 등)와
+ * 색상, 테두리 모양/선을 담는다. 배치할 때 토큰을 그 시점의 값으로 바꿔 StampAnnotation을 만들고,
+ * 원래 템플릿은 주석에 함께 남긴다.
+ * 스탬프 묶음 파일(.jfstamps)은 사용자 스탬프 목록을 담은 JSON이다.
+ */
+
+import type { StampAnnotation, StampBorderStyle, StampShape } from '../../types/annotation';
+
+// ============================================
+// Types
+// ============================================
+
+export interface StampDefinition {
+  id: string;
+  name: string;
+  /** 텍스트 템플릿 (이미지 스탬프는 없음) */
+  template?: string;
+  /** 이미지 스탬프 (PNG/SVG data URL) */
+  imageData?: string;
+  color: string;
+  /** 채움 색 ('transparent' = 없음) */
+  fill: string;
+  shape: StampShape;
+  borderStyle: StampBorderStyle;
+  borderWidth: number;
+  fontSize: number;
+  /** 배치 크기 (pt) */
+  width: number;
+  height: number;
+  /** 기본 제공 스탬프 (수정/삭제 불가, 묶음 파일에 포함하지 않음) */
+  builtin?: boolean;
+  /** 기본 제공 스탬프의 종류 (PDF /Stamp 이름) */
+  stampType?: StampAnnotation['stampType'];
+}
+
+export const STAMP_TOKENS = ['date', 'time', 'user', 'docName', 'pageNumber'] as const;
+
+export type StampToken = typeof STAMP_TOKENS[number];
+
+export type StampTokenValues = Record<StampToken, string>;
+
+export const STAMP_SHAPES: StampShape[] = ['rounded', 'rectangle', 'ellipse'];
+
+export const STAMP_BORDER_STYLES: StampBorderStyle[] = ['solid', 'double', 'dashed', 'none'];
+
+// ============================================
+// Built-in Stamps
+// ============================================
+
+function builtin(stampType: StampAnnotation['stampType'], name: string, template: string, color: string): StampDefinition {
+  return {
+    id: `builtin-${stampType}`,
+    name,
+    template,
+    color,
+    fill: 'transparent',
+    shape: 'rounded',
+    borderStyle: 'solid',
+    borderWidth: 2,
+    fontSize: 16,
+    width: 120,
+    height: 40,
+    builtin: true,
+    stampType,
+  };
+}
+
+export const BUILTIN_STAMPS: StampDefinition[] = [
+  builtin('approved', 'Approved', 'APPROVED', '#28a745'),
+  builtin('rejected', 'Rejected', 'REJECTED', '#dc3545'),
+  builtin('pending', 'Pending', 'PENDING', '#ffc107'),
+];
+
+// ============================================
+// Tokens
+// ============================================
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** 로컬 날짜 YYYY-MM-DD */
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+/** 배치 시점의 토큰 값 (날짜 YYYY-MM-DD, 시간 HH:mm - 로컬 시간) */
+export function stampTokenValues(params: {
+  now: Date;
+  user: string;
+  docName: string;
+  pageNumber: number;
+}): StampTokenValues {
+  const { now } = params;
+  return {
+    date: formatLocalDate(now),
+    time: `${pad2(now.getHours())}:${pad2(now.getMinutes())}`,
+    user: params.user,
+    docName: params.docName.replace(/\.[^/.]+$/, ''),
+    pageNumber: String(params.pageNumber),
+  };
+}
+
+export function hasStampTokens(template: string): boolean {
+  return /\{(date|time|user|docName|pageNumber)\}/.test(template);
+}
+
+/** {토큰}을 값으로 바꿈 (모르는 토큰은 그대로) */
+export function resolveStampTemplate(template: string, values: StampTokenValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    ((STAMP_TOKENS as readonly string[]).includes(name) ? values[name as StampToken] : match));
+}
+
+// ============================================
+// Placement
+// ============================================
+
+function generateStampId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** 새 사용자 스탬프 id */
+export function createStampDefinitionId(): string {
+  return generateStampId('stamp');
+}
+
+/** 스탬프 주석 생성 (중심점 기준 배치, 토큰은 values로 바꿈) */
+export function createStampAnnotation(params: {
+  definition: StampDefinition;
+  pageId: string;
+  center: { x: number; y: number };
+  values: StampTokenValues;
+}): StampAnnotation {
+  const { definition: d, center } = params;
+  const now = Date.now();
+
+  return {
+    id: generateStampId('annotation'),
+    type: 'stamp',
+    pageId: params.pageId,
+    bbox: { x: center.x - d.width / 2, y: center.y - d.height / 2, width: d.width, height: d.height },
+    stampType: d.stampType ?? 'custom',
+    stampId: d.id,
+    ...(d.imageData
+      ? { imageData: d.imageData, content: d.name }
+      : { template: d.template, content: resolveStampTemplate(d.template ?? '', params.values) }),
+    shape: d.shape,
+    borderStyle: d.borderStyle,
+    createdAt: now,
+    modifiedAt: now,
+    style: {
+      fill: d.fill,
+      stroke: d.color,
+      strokeWidth: d.borderWidth,
+      fontSize: d.fontSize,
+      // 직인 이미지는 비율 유지
+      lockAspectRatio: !!d.imageData,
+    },
+  };
+}
+
+// ============================================
+// Stamp Pack
+// ============================================
+
+const STAMP_PACK_FORMAT = 'jfstamps';
+const STAMP_PACK_VERSION = 1;
+
+export const STAMP_PACK_EXTENSION = '.jfstamps';
+
+/** 저장/불러오기용 정의 정리 (잘못된 값은 기본값) */
+export function normalizeStampDefinition(raw: unknown): StampDefinition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === 'string' ? v : undefined);
+  const size = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : fallback);
+
+  const imageData = text(s.imageData);
+  const template = text(s.template);
+  if (imageData ? !/^data:image\/(png|svg\+xml)[;,]/.test(imageData) : !template) return null;
+
+  return {
+    id: text(s.id) || createStampDefinitionId(),
+    name: text(s.name) || template || 'Stamp',
+    ...(imageData ? { imageData } : { template }),
+    color: text(s.color) || '#dc3545',
+    fill: text(s.fill) || 'transparent',
+    shape: STAMP_SHAPES.includes(s.shape as StampShape) ? s.shape as StampShape : 'rounded',
+    borderStyle: STAMP_BORDER_STYLES.includes(s.borderStyle as StampBorderStyle) ? s.borderStyle as StampBorderStyle : 'solid',
+    borderWidth: typeof s.borderWidth === 'number' && s.borderWidth >= 0 ? s.borderWidth : 2,
+    fontSize: size(s.fontSize, 16),
+    width: size(s.width, 120),
+    height: size(s.height, 40),
+  };
+}
+
+/** 사용자 스탬프 → 묶음 파일 내용 (기본 제공 스탬프 제외) */
+export function serializeStampPack(stamps: StampDefinition[]): string {
+  return JSON.stringify({
+    format: STAMP_PACK_FORMAT,
+    version: STAMP_PACK_VERSION,
+    stamps: stamps.filter((s) => !s.builtin).map((s) => {
+      const stamp = { ...s };
+      delete stamp.builtin;
+      delete stamp.stampType;
+      return stamp;
+    }),
+  }, null, 2);
+}
+
+/**
+ * 묶음 파일 읽기
+ * @throws 스탬프 묶음 파일이 아니거나 더 새 버전인 경우
+ */
+export function parseStampPack(text: string): StampDefinition[] {
+  let raw: { format?: unknown; version?: unknown; stamps?: unknown };
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JustFlux stamp pack');
+  }
+  if (raw?.format !== STAMP_PACK_FORMAT || !Array.isArray(raw.stamps)) {
+    throw new Error('Not a JustFlux stamp pack');
+  }
+  if (typeof raw.version === 'number' && raw.version > STAMP_PACK_VERSION) {
+    throw new Error(`Stamp pack version ${raw.version} is newer than this build supports (${STAMP_PACK_VERSION})`);
+  }
+  return raw.stamps
+    .map(normalizeStampDefinition)
+    .filter((s): s is StampDefinition => s !== null);
+}
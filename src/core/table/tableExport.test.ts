@@ -0,0 +1,50 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import type { TableAnnotation } from "../../types/annotation";
+import { DEFAULT_TABLE_CELL_STYLE } from "./tableModel";
+import { tableToCsv, tableToXlsx } from "./tableExport";
+
+const cell = (content: string, extra = {}) => ({ content, style: { ...DEFAULT_TABLE_CELL_STYLE }, ...extra });
+
+const table = {
+  id: "t1", type: "table", pageId: "p1", createdAt: 0, modifiedAt: 0,
+  bbox: { x: 0, y: 0, width: 150, height: 40 },
+  rows: 2, cols: 3,
+  colWidths: [52.5, 52.5, 45],
+  rowHeights: [20, 20],
+  cells: [
+    [cell("Item, \"A\"", { colSpan: 2 }), cell(""), cell("=-5")],
+    [cell("2"), cell("3"), cell("=SUM(A2:B2)/0")],
+  ],
+  borderWidth: 1,
+  borderColor: "#000000",
+} as TableAnnotation;
+
+describe("tableExport", () => {
+  it("writes displayed values as CSV", () => {
+    expect(tableToCsv(table)).toBe('"Item, ""A""",,-5\r\n2,3,#DIV/0!\r\n');
+  });
+
+  it("writes formulas, cached values and merges to XLSX", async () => {
+    const zip = await JSZip.loadAsync(await (await tableToXlsx(table, "Sales/Q1")).arrayBuffer());
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining([
+      "[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/_rels/workbook.xml.rels", "xl/worksheets/sheet1.xml",
+    ]));
+    expect(await zip.file("xl/workbook.xml")!.async("string")).toContain('<sheet name="Sales Q1"');
+
+    const sheet = await zip.file("xl/worksheets/sheet1.xml")!.async("string");
+    expect(sheet).toContain('<col min="1" max="1" width="10.00" customWidth="1"/>');
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">Item, &quot;A&quot;</t></is></c>');
+    expect(sheet).toContain('<c r="C1"><f>-5</f><v>-5</v></c>');
+    expect(sheet).toContain('<c r="A2"><v>2</v></c>');
+    expect(sheet).toContain('<c r="C2" t="e"><f>SUM(A2:B2)/0</f><v>#DIV/0!</v></c>');
+    expect(sheet).toContain('<mergeCells count="1"><mergeCell ref="A1:B1"/></mergeCells>');
+  });
+
+  it("drops characters XML does not allow but keeps tabs and line breaks", async () => {
+    const control = { ...table, rows: 1, cols: 1, colWidths: [50], rowHeights: [20], cells: [[cell("a\u0007b\tc\nd\u001F")]] };
+    const zip = await JSZip.loadAsync(await (await tableToXlsx(control, "Sheet")).arrayBuffer());
+    const sheet = await zip.file("xl/worksheets/sheet1.xml")!.async("string");
+    expect(sheet).toContain('<t xml:space="preserve">ab\tc\nd</t>');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Table Export - 표 주석 내용을 CSV / XLSX로 내보내기
+ *
+ * CSV는 보이는 값(수식은 계산 결과)을, XLSX는 수식과 계산 결과, 병합, 열 너비/행 높이를 함께 기록한다.
+ * XLSX는 시트 하나짜리 최소 SpreadsheetML 패키지다. (스타일 없음, 열 때 다시 계산)
+ */
+
+import JSZip from 'jszip';
+import type { TableAnnotation } from '../../types/annotation';
+import { cellName, evaluateTableFormulas, formatFormulaValue, isFormula, parseCellNumber } from './tableFormula';
+import type { FormulaValue } from './tableFormula';
+import { cellSpan, rangeLabel, tableAnchorGrid } from './tableModel';
+
+// ============================================
+// CSV
+// ============================================
+
+/** CSV 필드 (숫자가 아닌데 =,+,-,@로 시작하면 스프레드시트가 수식으로 읽지 않도록 ' 추가) */
+function csvField(value: string): string {
+  let text = value;
+  if (/^[=+\-@]/.test(text) && parseCellNumber(text) === null) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** 보이는 값 격자 (병합으로 가려진 칸은 빈 값) */
+function tableValues(table: TableAnnotation): string[][] {
+  const anchors = tableAnchorGrid(table);
+  const results = evaluateTableFormulas(table.cells);
+  return anchors.map((row, r) => row.map((anchor, c) => {
+    if (anchor.row !== r || anchor.col !== c) return '';
+    const result = results[r]?.[c];
+    if (result) return formatFormulaValue(result);
+    return table.cells[r]?.[c]?.content ?? '';
+  }));
+}
+
+export function tableToCsv(table: TableAnnotation): string {
+  return tableValues(table).map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** 엑셀 오류 값 (#CYCLE!은 엑셀에 없으므로 #REF!) */
+const EXCEL_ERRORS = new Set(['#REF!', '#DIV/0!', '#NAME?', '#VALUE!']);
+
+/** XML 1.0에서 허용되는 문자인지 (제어 문자는 탭, 줄바꿈, 복귀만) */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 수식을 엑셀 문법으로 (AVG → AVERAGE, ; → ,) */
+function excelFormula(content: string): string {
+  return content.slice(1).replace(/\bAVG\s*\(/gi, 'AVERAGE(').replace(/;/g, ',');
+}
+
+function cellXml(ref: string, content: string, result: FormulaValue | null): string {
+  if (result) {
+    const formula = `<f>${escapeXml(excelFormula(content))}</f>`;
+    if ('error' in result) {
+      const code = EXCEL_ERRORS.has(result.error) ? result.error : '#REF!';
+      return `<c r="${ref}" t="e">${formula}<v>${code}</v></c>`;
+    }
+    return `<c r="${ref}">${formula}<v>${result.value}</v></c>`;
+  }
+  const number = parseCellNumber(content);
+  // 백분율은 서식 없이 숫자로 바꾸면 모양이 달라지므로 글자로
+  if (number !== null && !content.includes('%')) {
+    return `<c r="${ref}"><v>${number}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(content)}</t></is></c>`;
+}
+
+function sheetXml(table: TableAnnotation): string {
+  const anchors = tableAnchorGrid(table);
+  const results = evaluateTableFormulas(table.cells);
+
+  // 열 너비는 문자 수 단위 (기본 글꼴에서 약 5.25pt), 행 높이는 pt
+  const cols = table.colWidths
+    .map((w, c) => `<col min="${c + 1}" max="${c + 1}" width="${Math.max(1, w / 5.25).toFixed(2)}" customWidth="1"/>`)
+    .join('');
+
+  const rows: string[] = [];
+  const merges: string[] = [];
+  for (let r = 0; r < table.rows; r++) {
+    const cells: string[] = [];
+    for (let c = 0; c < table.cols; c++) {
+      const cell = table.cells[r]?.[c];
+      if (!cell || anchors[r][c].row !== r || anchors[r][c].col !== c) continue;
+      const { rowSpan, colSpan } = cellSpan(cell);
+      if (rowSpan > 1 || colSpan > 1) {
+        merges.push(rangeLabel({
+          top: r,
+          left: c,
+          bottom: Math.min(table.rows, r + rowSpan) - 1,
+          right: Math.min(table.cols, c + colSpan) - 1,
+        }));
+      }
+      if (!cell.content) continue;
+      cells.push(cellXml(cellName({ row: r, col: c }), cell.content, isFormula(cell.content) ? results[r][c] : null));
+    }
+    const height = (table.rowHeights[r] ?? 0).toFixed(2);
+    rows.push(`<row r="${r + 1}" ht="${height}" customHeight="1">${cells.join('')}</row>`);
+  }
+
+  const mergeXml = merges.length
+    ? `<mergeCells count="${merges.length}">${merges.map((ref) => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>`
+    : '';
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><cols>${cols}</cols><sheetData>${rows.join('')}</sheetData>${mergeXml}</worksheet>`;
+}
+
+/**
+ * 표 → XLSX 파일
+ * @param sheetName 시트 이름 (엑셀 제한: 31자, []:*?/\ 불가)
+ */
+export async function tableToXlsx(table: TableAnnotation, sheetName = 'Table'): Promise<Blob> {
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Table');
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '</Types>');
+  zip.file('_rels/.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>');
+  zip.file('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`
+    + `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets><calcPr fullCalcOnLoad="1"/></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + '</Relationships>');
+  zip.file('xl/worksheets/sheet1.xml', sheetXml(table));
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME, compression: 'DEFLATE' });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { columnIndex, columnName, shiftFormulaReferences, tableDisplayValues } from "./tableFormula";
+
+const grid = (rows: string[][]) => rows.map((row) => row.map((content) => ({ content })));
+
+describe("tableFormula", () => {
+  it("names columns like a spreadsheet", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+    expect(columnIndex("AB")).toBe(27);
+  });
+
+  it("evaluates arithmetic (Excel precedence), references and range functions", () => {
+    const values = tableDisplayValues(grid([
+      ["1", "2", "=A1+B1*2"],
+      ["1,000", "50%", "=SUM(A1:B2)"],
+      ["=AVG(A1:A2)", "=COUNT(A1:C2)", "=MAX(A1:B2) - MIN(A1:B2)"],
+      ["text", "=-(A1+2)^2", "=C1/0.5"],
+    ]));
+    expect(values[0][2]).toBe("5");
+    expect(values[1][2]).toBe("1003.5");
+    expect(values[2]).toEqual(["500.5", "6", "999.5"]);
+    expect(values[3]).toEqual(["text", "9", "10"]);
+  });
+
+  it("reports errors and cycles instead of throwing", () => {
+    const values = tableDisplayValues(grid([
+      ["=A1", "=B2", "=1/0"],
+      ["=D9", "=B1", "=FOO(1)"],
+      ["=1+", "=A4+1", ""],
+    ]));
+    expect(values[0]).toEqual(["#CYCLE!", "#CYCLE!", "#DIV/0!"]);
+    expect(values[1]).toEqual(["#REF!", "#CYCLE!", "#NAME?"]);
+    expect(values[2][0]).toBe("#ERROR!");
+    expect(values[2][1]).toBe("#REF!");
+  });
+
+  it("shifts references when lines are inserted or deleted", () => {
+    expect(shiftFormulaReferences("=A1+B3*SUM(A2:C4)", "row", 1, 2)).toBe("=A1+B5*SUM(A4:C6)");
+    expect(shiftFormulaReferences("=A1+B3", "col", 0, 1)).toBe("=B1+C3");
+    expect(shiftFormulaReferences("=A1+A2+SUM(A1:A4)", "row", 1, -1)).toBe("=A1+#REF!+SUM(A1:A3)");
+    expect(shiftFormulaReferences("=SUM(B1:C1)", "col", 1, -2)).toBe("=SUM(#REF!)");
+  });
+});
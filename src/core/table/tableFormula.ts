@@ -0,0 +1,392 @@
+/**
+ * Table Formula - 표 셀 수식 계산
+ *
+ * '='로 시작하는 셀 내용을 수식으로 계산한다.
+ *  - 참조: A1 (열 문자 + 행 번호, $ 고정 표시 허용), 범위: A1:B3
+ *  - 연산: + - * / ^, 괄호, 단항 -
+ *  - 함수: SUM, AVG(AVERAGE), MIN, MAX, COUNT
+ * 결과는 저장하지 않고 셀 내용에서 매번 계산하므로 참조한 셀이 바뀌면 바로 다시 계산된다.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type FormulaErrorCode = '#REF!' | '#DIV/0!' | '#NAME?' | '#VALUE!' | '#CYCLE!' | '#ERROR!';
+
+export type FormulaValue = { value: number } | { error: FormulaErrorCode };
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+/** 계산에 필요한 셀 (TableCell의 content) */
+interface FormulaCell {
+  content: string;
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; position: CellPosition }
+  | { kind: 'name'; name: string }
+  | { kind: 'error'; code: FormulaErrorCode }
+  | { kind: 'op'; op: string };
+
+const ERROR_CODES: FormulaErrorCode[] = ['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#CYCLE!', '#ERROR!'];
+
+// ============================================
+// Cell Names
+// ============================================
+
+/** 0 → A, 25 → Z, 26 → AA */
+export function columnName(col: number): string {
+  let name = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+export function columnIndex(name: string): number {
+  let index = 0;
+  for (const ch of name.toUpperCase()) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+export function cellName({ row, col }: CellPosition): string {
+  return `${columnName(col)}${row + 1}`;
+}
+
+export function isFormula(content: string): boolean {
+  return content.startsWith('=') && content.length > 1;
+}
+
+/**
+ * 셀 텍스트 → 숫자 (숫자가 아니면 null)
+ * 천 단위 쉼표(1,234.5)와 백분율(12%)을 허용한다.
+ */
+export function parseCellNumber(text: string): number | null {
+  let s = text.trim();
+  if (!s) return null;
+  let scale = 1;
+  if (s.endsWith('%')) {
+    s = s.slice(0, -1).trim();
+    scale = 0.01;
+  }
+  if (/^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) s = s.replace(/,/g, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(s)) return null;
+  return Number(s) * scale;
+}
+
+/** 계산 결과 표시 (부동소수점 꼬리 제거: 0.1 + 0.2 → 0.3) */
+export function formatFormulaValue(result: FormulaValue): string {
+  if ('error' in result) return result.error;
+  return String(Number(result.value.toPrecision(12)));
+}
+
+// ============================================
+// Parser
+// ============================================
+
+const TOKEN_PATTERN = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|(\$?[A-Z]{1,3}\$?\d+)(?![\w(])|([A-Z_][A-Z0-9_.]*)|(#[A-Z0-9/]+[!?])|([-+*/^(),;:]))/iy;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN_PATTERN.lastIndex))) break;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) throw new Error('#ERROR!');
+    const [, num, ref, name, error, op] = match;
+    if (num !== undefined) {
+      tokens.push({ kind: 'number', value: Number(num) });
+    } else if (ref !== undefined) {
+      const [, letters, digits] = /^\$?([A-Z]+)\$?(\d+)$/i.exec(ref)!;
+      tokens.push({ kind: 'ref', position: { row: Number(digits) - 1, col: columnIndex(letters) } });
+    } else if (name !== undefined) {
+      tokens.push({ kind: 'name', name: name.toUpperCase() });
+    } else if (error !== undefined) {
+      const code = error.toUpperCase() as FormulaErrorCode;
+      tokens.push({ kind: 'error', code: ERROR_CODES.includes(code) ? code : '#ERROR!' });
+    } else {
+      tokens.push({ kind: 'op', op: op === ';' ? ',' : op });
+    }
+  }
+  return tokens;
+}
+
+/** 함수 인자에서 모은 값 (범위의 빈 칸/글자는 제외) */
+type ArgumentValues = number[];
+
+const FUNCTIONS: Record<string, (values: ArgumentValues) => number> = {
+  SUM: (values) => values.reduce((sum, v) => sum + v, 0),
+  AVG: (values) => average(values),
+  AVERAGE: (values) => average(values),
+  MIN: (values) => (values.length ? Math.min(...values) : 0),
+  MAX: (values) => (values.length ? Math.max(...values) : 0),
+  COUNT: (values) => values.length,
+};
+
+function average(values: ArgumentValues): number {
+  if (values.length === 0) throw new Error('#DIV/0!');
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** 셀 값 조회 (수식 셀은 계산, 빈 칸/글자는 null) */
+type CellReader = (position: CellPosition) => number | null | 'text';
+
+/**
+ * 재귀 하강 파서 겸 계산기
+ * 오류는 코드를 메시지로 한 Error로 던진다.
+ */
+class FormulaParser {
+  private pos = 0;
+  private readonly tokens: Token[];
+  private readonly read: CellReader;
+
+  constructor(tokens: Token[], read: CellReader) {
+    this.tokens = tokens;
+    this.read = read;
+  }
+
+  evaluate(): number {
+    const value = this.expression();
+    if (this.pos < this.tokens.length) throw new Error('#ERROR!');
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(op: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'op' && token.op === op;
+  }
+
+  private expect(op: string): void {
+    if (!this.isOp(op)) throw new Error('#ERROR!');
+    this.pos++;
+  }
+
+  private expression(): number {
+    let value = this.term();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.tokens[this.pos++] as { op: string }).op;
+      const rhs = this.term();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.power();
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = (this.tokens[this.pos++] as { op: string }).op;
+      const rhs = this.power();
+      if (op === '/' && rhs === 0) throw new Error('#DIV/0!');
+      value = op === '*' ? value * rhs : value / rhs;
+    }
+    return value;
+  }
+
+  private power(): number {
+    let value = this.unary();
+    while (this.isOp('^')) {
+      this.pos++;
+      value = Math.pow(value, this.unary());
+      if (!Number.isFinite(value)) throw new Error('#VALUE!');
+    }
+    return value;
+  }
+
+  private unary(): number {
+    if (this.isOp('-')) {
+      this.pos++;
+      return -this.unary();
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.primary();
+  }
+
+  private primary(): number {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error('#ERROR!');
+    switch (token.kind) {
+      case 'number':
+        return token.value;
+      case 'error':
+        throw new Error(token.code);
+      case 'ref': {
+        if (this.isOp(':')) throw new Error('#VALUE!'); // 범위는 함수 인자로만
+        const value = this.read(token.position);
+        if (value === 'text') throw new Error('#VALUE!');
+        return value ?? 0;
+      }
+      case 'name':
+        return this.call(token.name);
+      case 'op':
+        if (token.op === '(') {
+          const value = this.expression();
+          this.expect(')');
+          return value;
+        }
+        throw new Error('#ERROR!');
+    }
+  }
+
+  private call(name: string): number {
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new Error('#NAME?');
+    this.expect('(');
+    const values: ArgumentValues = [];
+    if (!this.isOp(')')) {
+      do {
+        if (this.isOp(',')) this.pos++;
+        this.argument(values);
+      } while (this.isOp(','));
+    }
+    this.expect(')');
+    return fn(values);
+  }
+
+  /** 함수 인자: 범위/참조는 숫자 셀만, 그 외는 식 */
+  private argument(values: ArgumentValues): void {
+    const token = this.peek();
+    const next = this.tokens[this.pos + 1];
+    const isRefArgument = token?.kind === 'ref'
+      && (!next || (next.kind === 'op' && (next.op === ':' || next.op === ',' || next.op === ')')));
+    if (!isRefArgument) {
+      values.push(this.expression());
+      return;
+    }
+
+    this.pos++;
+    let end = token.position;
+    if (this.isOp(':')) {
+      this.pos++;
+      const endToken = this.tokens[this.pos++];
+      if (endToken?.kind === 'error') throw new Error(endToken.code);
+      if (endToken?.kind !== 'ref') throw new Error('#ERROR!');
+      end = endToken.position;
+    }
+    for (let r = Math.min(token.position.row, end.row); r <= Math.max(token.position.row, end.row); r++) {
+      for (let c = Math.min(token.position.col, end.col); c <= Math.max(token.position.col, end.col); c++) {
+        const value = this.read({ row: r, col: c });
+        if (typeof value === 'number') values.push(value);
+      }
+    }
+  }
+}
+
+function errorCode(error: unknown): FormulaErrorCode {
+  const message = error instanceof Error ? error.message : '';
+  return ERROR_CODES.includes(message as FormulaErrorCode) ? (message as FormulaErrorCode) : '#ERROR!';
+}
+
+// ============================================
+// Table Evaluation
+// ============================================
+
+/**
+ * 표 전체 계산 - 수식 셀의 결과 격자 (수식이 아닌 셀은 null)
+ * 순환 참조는 #CYCLE!, 표 밖 참조는 #REF!
+ */
+export function evaluateTableFormulas(cells: FormulaCell[][]): (FormulaValue | null)[][] {
+  const results = new Map<string, FormulaValue>();
+  const visiting = new Set<string>();
+
+  const evaluateCell = (row: number, col: number): FormulaValue => {
+    const key = `${row},${col}`;
+    const cached = results.get(key);
+    if (cached) return cached;
+    if (visiting.has(key)) throw new Error('#CYCLE!');
+
+    visiting.add(key);
+    let result: FormulaValue;
+    try {
+      const parser = new FormulaParser(tokenize(cells[row][col].content.slice(1)), read);
+      const value = parser.evaluate();
+      result = Number.isFinite(value) ? { value } : { error: '#VALUE!' };
+    } catch (error) {
+      result = { error: errorCode(error) };
+    }
+    visiting.delete(key);
+    results.set(key, result);
+    return result;
+  };
+
+  const read: CellReader = ({ row, col }) => {
+    const cell = cells[row]?.[col];
+    if (!cell) throw new Error('#REF!');
+    if (isFormula(cell.content)) {
+      const result = evaluateCell(row, col);
+      if ('error' in result) throw new Error(result.error);
+      return result.value;
+    }
+    if (!cell.content.trim()) return null;
+    return parseCellNumber(cell.content) ?? 'text';
+  };
+
+  return cells.map((row, r) => row.map((cell, c) => (isFormula(cell.content) ? evaluateCell(r, c) : null)));
+}
+
+/** 표시할 셀 텍스트 격자 (수식은 결과, 나머지는 내용 그대로) */
+export function tableDisplayValues(cells: FormulaCell[][]): string[][] {
+  const results = evaluateTableFormulas(cells);
+  return cells.map((row, r) => row.map((cell, c) => {
+    const result = results[r][c];
+    return result ? formatFormulaValue(result) : cell.content;
+  }));
+}
+
+// ============================================
+// Reference Shifting
+// ============================================
+
+const REFERENCE_PATTERN = /(?<![\w$#])(\$?)([A-Z]{1,3})(\$?)(\d+)(?::(\$?)([A-Z]{1,3})(\$?)(\d+))?(?![\w(])/gi;
+
+/**
+ * 행/열 삽입·삭제에 맞춰 수식의 참조를 옮김
+ * count > 0: index 앞에 count줄 삽입, count < 0: index부터 -count줄 삭제
+ * 지워진 셀만 가리키는 참조는 #REF!가 되고, 범위는 남은 부분으로 줄어든다.
+ */
+export function shiftFormulaReferences(content: string, axis: 'row' | 'col', index: number, count: number): string {
+  if (!isFormula(content) || count === 0) return content;
+
+  const shift = (p: number): number | null => {
+    if (count > 0) return p >= index ? p + count : p;
+    if (p < index) return p;
+    if (p >= index - count) return p + count;
+    return null;
+  };
+
+  const body = content.slice(1).replace(REFERENCE_PATTERN, (_match, ...groups: string[]) => {
+    const [c1Fixed, c1, r1Fixed, r1, c2Fixed, c2, r2Fixed, r2] = groups;
+    const start = { row: Number(r1) - 1, col: columnIndex(c1) };
+    const end = r2 !== undefined ? { row: Number(r2) - 1, col: columnIndex(c2) } : null;
+    const key = axis === 'row' ? 'row' : 'col';
+
+    const format = (p: CellPosition, colFixed: string, rowFixed: string) =>
+      `${colFixed}${columnName(p.col)}${rowFixed}${p.row + 1}`;
+
+    if (!end) {
+      const moved = shift(start[key]);
+      if (moved === null) return '#REF!';
+      return format({ ...start, [key]: moved }, c1Fixed, r1Fixed);
+    }
+
+    const lo = Math.min(start[key], end[key]);
+    const hi = Math.max(start[key], end[key]);
+    if (count < 0 && lo >= index && hi < index - count) return '#REF!';
+    // 지워진 끝점은 남은 가장 가까운 줄로
+    const newLo = shift(lo) ?? index;
+    const newHi = shift(hi) ?? index - 1;
+    return `${format({ ...start, [key]: newLo }, c1Fixed, r1Fixed)}:${format({ ...end, [key]: newHi }, c2Fixed, r2Fixed)}`;
+  });
+  return `=${body}`;
+}
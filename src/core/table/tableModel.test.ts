@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { TableAnnotation } from "../../types/annotation";
+import {
+  DEFAULT_TABLE_CELL_STYLE,
+  cellRange,
+  deleteTableLines,
+  expandRange,
+  insertTableLines,
+  layoutTableCells,
+  layoutTableGrid,
+  mergeCells,
+  parseDelimitedText,
+  pasteIntoTable,
+  setRangeBorders,
+  unmergeCells,
+} from "./tableModel";
+
+function table(contents: string[][]): TableAnnotation {
+  const rows = contents.length;
+  const cols = contents[0].length;
+  return {
+    id: "t1", type: "table", pageId: "p1", createdAt: 0, modifiedAt: 0,
+    bbox: { x: 10, y: 20, width: cols * 50, height: rows * 20 },
+    rows, cols,
+    colWidths: Array(cols).fill(50),
+    rowHeights: Array(rows).fill(20),
+    cells: contents.map((row) => row.map((content) => ({ content, style: { ...DEFAULT_TABLE_CELL_STYLE } }))),
+    borderWidth: 1,
+    borderColor: "#000000",
+  } as TableAnnotation;
+}
+
+describe("tableModel", () => {
+  it("merges a range into its top-left cell and lays it out as one box", () => {
+    const t = table([["a", "b", "c"], ["d", "", "f"]]);
+    const merged = { ...t, ...mergeCells(t, cellRange({ row: 0, col: 0 }, { row: 1, col: 1 })) };
+    expect(merged.cells[0][0]).toMatchObject({ content: "a\nb\nd", rowSpan: 2, colSpan: 2 });
+    expect(merged.cells[1][1].content).toBe("");
+
+    // Clicking a covered cell selects the whole merge
+    expect(expandRange(merged, cellRange({ row: 1, col: 1 }))).toEqual({ top: 0, left: 0, bottom: 1, right: 1 });
+
+    const boxes = layoutTableCells(merged, { x: 0, y: 0 });
+    expect(boxes.map((b) => `${b.row}${b.col}`)).toEqual(["00", "02", "12"]);
+    expect(boxes[0].box).toEqual({ x: 0, y: 0, width: 100, height: 40 });
+
+    // Inner grid lines skip the merged area
+    const grid = layoutTableGrid(merged, { x: 0, y: 0 });
+    expect(grid.outer).toBeNull();
+    expect(grid.inner).toEqual([
+      { x1: 100, y1: 0, x2: 100, y2: 40 },
+      { x1: 100, y1: 20, x2: 150, y2: 20 },
+    ]);
+
+    const split = { ...merged, ...unmergeCells(merged, cellRange({ row: 0, col: 0 })) };
+    expect(split.cells[0][0].rowSpan ?? 1).toBe(1);
+    expect(layoutTableCells(split)).toHaveLength(6);
+  });
+
+  it("inserts and deletes lines, growing merges and shifting formulas", () => {
+    const t = table([["1", "2"], ["3", "=A1+A2"]]);
+    const merged = { ...t, ...mergeCells({ ...t, cells: t.cells.map((r) => r.map((c) => ({ ...c, content: "" }))) }, cellRange({ row: 0, col: 0 }, { row: 1, col: 0 })) };
+
+    const withRow = { ...merged, ...insertTableLines(merged, "row", 1) };
+    expect(withRow.rows).toBe(3);
+    expect(withRow.cells[0][0].rowSpan).toBe(3);
+    expect(withRow.bbox.height).toBe(60);
+
+    const formulas = { ...t, ...insertTableLines(t, "col", 0, 2) };
+    expect(formulas.cols).toBe(4);
+    expect(formulas.cells[1][3].content).toBe("=C1+C2");
+    expect(formulas.bbox.width).toBe(200);
+
+    const deleted = { ...formulas, ...deleteTableLines(formulas, "row", 0) };
+    expect(deleted.rows).toBe(1);
+    expect(deleted.cells[0][3].content).toBe("=#REF!+C1");
+    expect(deleteTableLines(deleted, "row", 0)).toBeNull();
+  });
+
+  it("sets per-edge borders and clears the neighbouring edge", () => {
+    const t = table([["", "", ""], ["", "", ""]]);
+    const withRight = { ...t, ...setRangeBorders(t, cellRange({ row: 0, col: 0 }), "right", { width: 3, color: "#f00" }) };
+    const outlined = { ...withRight, ...setRangeBorders(withRight, cellRange({ row: 0, col: 1 }), "outer", { width: 2, color: "#00f" }) };
+
+    expect(outlined.cells[0][0].style.borders?.right).toBeUndefined();
+    expect(outlined.cells[0][1].style.borders).toMatchObject({
+      top: { width: 2, color: "#00f" }, left: { width: 2, color: "#00f" },
+    });
+
+    const grid = layoutTableGrid(outlined, { x: 0, y: 0 });
+    expect(grid.outer).not.toBeNull();
+    expect(grid.borders).toHaveLength(1);
+    expect(grid.borders[0].lines).toHaveLength(4);
+  });
+
+  it("parses CSV/TSV and pastes into a range, growing the table", () => {
+    expect(parseDelimitedText("a\tb\r\nc\td\r\n")).toEqual([["a", "b"], ["c", "d"]]);
+    expect(parseDelimitedText('x,"y, ""z"""\n"multi\nline",2')).toEqual([["x", 'y, "z"'], ["multi\nline", "2"]]);
+
+    const t = table([["", ""], ["", ""]]);
+    const pasted = pasteIntoTable(t, cellRange({ row: 1, col: 1 }), [["1", "2"], ["3", "4"]])!;
+    expect(pasted.range).toEqual({ top: 1, left: 1, bottom: 2, right: 2 });
+    expect(pasted.updates).toMatchObject({ rows: 3, cols: 3 });
+    expect(pasted.updates.cells![2].map((c) => c.content)).toEqual(["", "3", "4"]);
+
+    const filled = pasteIntoTable(t, cellRange({ row: 0, col: 0 }, { row: 1, col: 1 }), [["x"]])!;
+    expect(filled.updates.cells!.flat().map((c) => c.content)).toEqual(["x", "x", "x", "x"]);
+  });
+});
@@ -0,0 +1,712 @@
+/**
+ * Table Model - 표 주석 구조 편집 + 배치
+ *
+ * 병합(rowSpan/colSpan), 행/열 삽입·삭제, 변별 테두리, 붙여넣기를 순수 함수로 다룬다.
+ * 편집 함수는 원본을 바꾸지 않고 updateAnnotation에 넘길 변경분을 돌려준다.
+ * 배치(layoutTableCells, layoutTableGrid)는 화면, 캔버스, SVG, PDF 벡터 출력이 함께 쓴다.
+ */
+
+import type { BBox, Point } from '../model/types';
+import type {
+  TableAnnotation,
+  TableCell,
+  TableCellBorder,
+  TableCellEdge,
+  TableCellStyle,
+} from '../../types/annotation';
+import { resizeRotatedBBox } from '../annotations/annotationRotation';
+import { cellName, shiftFormulaReferences, tableDisplayValues, isFormula } from './tableFormula';
+import type { CellPosition } from './tableFormula';
+
+// ============================================
+// Types
+// ============================================
+
+/** 셀 범위 (양 끝 포함) */
+export interface TableCellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export type TableBorderPreset = 'all' | 'outer' | 'inner' | TableCellEdge | 'none' | 'clear';
+
+export interface TableCellLayout {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  box: BBox;
+  cell: TableCell;
+  /** 표시 텍스트 (수식은 계산 결과) */
+  text: string;
+}
+
+/** 축에 평행한 선분 */
+export interface TableGridLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface TableGridLayout {
+  /** 내부 격자선 (표 테두리 두께의 절반) */
+  inner: TableGridLine[];
+  /** 외곽선 - null이면 표 상자 전체 (바꾼 변이 없음) */
+  outer: TableGridLine[] | null;
+  /** 셀 변별 테두리 (두께/색상별) */
+  borders: (TableCellBorder & { lines: TableGridLine[] })[];
+}
+
+type TableStructure = Pick<TableAnnotation, 'rows' | 'cols' | 'cells' | 'colWidths' | 'rowHeights'>;
+
+export const DEFAULT_TABLE_CELL_STYLE: TableCellStyle = {
+  fontSize: 12,
+  fontFamily: 'sans-serif',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  textAlign: 'left',
+  verticalAlign: 'middle',
+  color: '#000000',
+  backgroundColor: 'transparent',
+  backgroundOpacity: 1,
+};
+
+const EDGES: TableCellEdge[] = ['top', 'right', 'bottom', 'left'];
+
+const OPPOSITE_EDGE: Record<TableCellEdge, TableCellEdge> = {
+  top: 'bottom',
+  right: 'left',
+  bottom: 'top',
+  left: 'right',
+};
+
+// ============================================
+// Ranges & Merges
+// ============================================
+
+export function cellRange(a: CellPosition, b: CellPosition = a): TableCellRange {
+  return {
+    top: Math.min(a.row, b.row),
+    left: Math.min(a.col, b.col),
+    bottom: Math.max(a.row, b.row),
+    right: Math.max(a.col, b.col),
+  };
+}
+
+/** B2 또는 B2:C4 */
+export function rangeLabel(range: TableCellRange): string {
+  const start = cellName({ row: range.top, col: range.left });
+  if (range.top === range.bottom && range.left === range.right) return start;
+  return `${start}:${cellName({ row: range.bottom, col: range.right })}`;
+}
+
+export function cellSpan(cell: TableCell | undefined): { rowSpan: number; colSpan: number } {
+  return { rowSpan: Math.max(1, cell?.rowSpan ?? 1), colSpan: Math.max(1, cell?.colSpan ?? 1) };
+}
+
+/**
+ * 칸마다 그 칸을 차지한 셀(병합의 왼쪽 위)의 위치
+ * 표 밖으로 넘치는 병합은 표 안에서 자른다.
+ */
+export function tableAnchorGrid(table: TableStructure): CellPosition[][] {
+  const grid: CellPosition[][] = Array.from({ length: table.rows }, (_, row) =>
+    Array.from({ length: table.cols }, (_, col) => ({ row, col }))
+  );
+  for (let r = 0; r < table.rows; r++) {
+    for (let c = 0; c < table.cols; c++) {
+      if (grid[r][c].row !== r || grid[r][c].col !== c) continue;
+      const { rowSpan, colSpan } = cellSpan(table.cells[r]?.[c]);
+      for (let rr = r; rr < Math.min(table.rows, r + rowSpan); rr++) {
+        for (let cc = c; cc < Math.min(table.cols, c + colSpan); cc++) {
+          grid[rr][cc] = { row: r, col: c };
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+function isAnchor(anchors: CellPosition[][], row: number, col: number): boolean {
+  const anchor = anchors[row][col];
+  return anchor.row === row && anchor.col === col;
+}
+
+/** 병합 셀이 걸쳐 있으면 통째로 들어오도록 범위를 넓힘 */
+export function expandRange(table: TableStructure, range: TableCellRange): TableCellRange {
+  const anchors = tableAnchorGrid(table);
+  const result = {
+    top: Math.max(0, range.top),
+    left: Math.max(0, range.left),
+    bottom: Math.min(table.rows - 1, range.bottom),
+    right: Math.min(table.cols - 1, range.right),
+  };
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let r = result.top; r <= result.bottom; r++) {
+      for (let c = result.left; c <= result.right; c++) {
+        const anchor = anchors[r][c];
+        const { rowSpan, colSpan } = cellSpan(table.cells[anchor.row]?.[anchor.col]);
+        const bottom = Math.min(table.rows - 1, anchor.row + rowSpan - 1);
+        const right = Math.min(table.cols - 1, anchor.col + colSpan - 1);
+        if (anchor.row < result.top || anchor.col < result.left || bottom > result.bottom || right > result.right) {
+          result.top = Math.min(result.top, anchor.row);
+          result.left = Math.min(result.left, anchor.col);
+          result.bottom = Math.max(result.bottom, bottom);
+          result.right = Math.max(result.right, right);
+          changed = true;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+function cloneCell(cell: TableCell): TableCell {
+  const style = { ...cell.style };
+  if (style.borders) style.borders = { ...style.borders };
+  return { ...cell, style };
+}
+
+function cloneCells(cells: TableCell[][]): TableCell[][] {
+  return cells.map((row) => row.map(cloneCell));
+}
+
+/** rows × cols 크기로 채운 셀 격자 복사본 (빠진 칸은 기본 스타일 빈 셀) */
+function fullCells(table: TableStructure): TableCell[][] {
+  return Array.from({ length: table.rows }, (_, r) => Array.from({ length: table.cols }, (_, c) => {
+    const cell = table.cells[r]?.[c];
+    return cell ? cloneCell(cell) : { content: '', style: { ...DEFAULT_TABLE_CELL_STYLE } };
+  }));
+}
+
+function setSpan(cell: TableCell, rowSpan: number, colSpan: number): void {
+  if (rowSpan > 1) cell.rowSpan = rowSpan;
+  else delete cell.rowSpan;
+  if (colSpan > 1) cell.colSpan = colSpan;
+  else delete cell.colSpan;
+}
+
+/** 빈 셀 (스타일은 이웃 셀에서, 테두리/병합 없음) */
+function blankCell(template: TableCell): TableCell {
+  const style = { ...template.style };
+  delete style.borders;
+  return { content: '', style };
+}
+
+/**
+ * 범위 병합 - 왼쪽 위 셀이 범위를 차지한다
+ * 내용은 줄바꿈으로 이어 붙이되, 수식이 있으면 왼쪽 위 셀 내용만 남긴다.
+ * @returns null - 한 칸뿐이라 병합할 것이 없음
+ */
+export function mergeCells(table: TableAnnotation, range: TableCellRange): Partial<TableAnnotation> | null {
+  const r = expandRange(table, range);
+  if (r.top === r.bottom && r.left === r.right) return null;
+
+  const cells = fullCells(table);
+  const contents: string[] = [];
+  for (let row = r.top; row <= r.bottom; row++) {
+    for (let col = r.left; col <= r.right; col++) {
+      const content = cells[row][col].content;
+      if (content.trim()) contents.push(content);
+      if (row !== r.top || col !== r.left) {
+        cells[row][col].content = '';
+        setSpan(cells[row][col], 1, 1);
+      }
+    }
+  }
+
+  const anchor = cells[r.top][r.left];
+  if (!contents.some(isFormula)) anchor.content = contents.join('\n');
+  setSpan(anchor, r.bottom - r.top + 1, r.right - r.left + 1);
+  return { cells };
+}
+
+/** 범위 안 병합 해제 (내용은 왼쪽 위 셀에 남음) */
+export function unmergeCells(table: TableAnnotation, range: TableCellRange): Partial<TableAnnotation> | null {
+  const r = expandRange(table, range);
+  const cells = fullCells(table);
+  let changed = false;
+  for (let row = r.top; row <= r.bottom; row++) {
+    for (let col = r.left; col <= r.right; col++) {
+      if (cells[row][col].rowSpan || cells[row][col].colSpan) {
+        setSpan(cells[row][col], 1, 1);
+        changed = true;
+      }
+    }
+  }
+  return changed ? { cells } : null;
+}
+
+// ============================================
+// Row / Column Insert & Delete
+// ============================================
+
+/** 행/열 맞바꾸기 (병합 방향도 함께) - 열 편집을 행 편집으로 처리하기 위해 */
+function transposeCells(cells: TableCell[][]): TableCell[][] {
+  const cols = cells[0]?.length ?? 0;
+  return Array.from({ length: cols }, (_, c) => cells.map((row) => {
+    const cell = cloneCell(row[c]);
+    const { rowSpan, colSpan } = cellSpan(row[c]);
+    setSpan(cell, colSpan, rowSpan);
+    return cell;
+  }));
+}
+
+/** 줄 삽입 (행 기준) - 걸쳐 있는 병합은 늘어난다 */
+function insertLines(cells: TableCell[][], sizes: number[], index: number, count: number) {
+  const template = cells[index - 1] ?? cells[index];
+  const size = sizes[index - 1] ?? sizes[index];
+  const next = cloneCells(cells);
+
+  for (let r = 0; r < index; r++) {
+    for (const cell of next[r]) {
+      const { rowSpan, colSpan } = cellSpan(cell);
+      if (rowSpan > 1 && r + rowSpan > index) setSpan(cell, rowSpan + count, colSpan);
+    }
+  }
+  const inserted = Array.from({ length: count }, () => template.map(blankCell));
+  next.splice(index, 0, ...inserted);
+
+  const nextSizes = [...sizes];
+  nextSizes.splice(index, 0, ...Array<number>(count).fill(size));
+  return { cells: next, sizes: nextSizes };
+}
+
+/** 줄 삭제 (행 기준) - 병합은 줄어들고, 왼쪽 위 셀이 지워지면 남은 첫 줄로 옮긴다 */
+function deleteLines(cells: TableCell[][], sizes: number[], index: number, count: number) {
+  const next = cloneCells(cells);
+  const end = index + count;
+
+  for (let r = 0; r < next.length; r++) {
+    next[r].forEach((cell, c) => {
+      const { colSpan } = cellSpan(cell);
+      const rowSpan = Math.min(cellSpan(cell).rowSpan, next.length - r);
+      if (rowSpan === 1) return;
+      const overlap = Math.max(0, Math.min(r + rowSpan, end) - Math.max(r, index));
+      if (overlap === 0) return;
+      if (r >= index && r + rowSpan > end) {
+        // 병합 셀 이사
+        const moved = cloneCell(cell);
+        setSpan(moved, rowSpan - overlap, colSpan);
+        next[end][c] = moved;
+      } else {
+        setSpan(cell, rowSpan - overlap, colSpan);
+      }
+    });
+  }
+  next.splice(index, count);
+
+  const nextSizes = [...sizes];
+  nextSizes.splice(index, count);
+  return { cells: next, sizes: nextSizes };
+}
+
+function shiftAllFormulas(cells: TableCell[][], axis: 'row' | 'col', index: number, count: number): void {
+  for (const row of cells) {
+    for (const cell of row) {
+      if (isFormula(cell.content)) cell.content = shiftFormulaReferences(cell.content, axis, index, count);
+    }
+  }
+}
+
+/** 표 상자 크기를 줄 크기 합에 맞춤 (위/왼쪽 고정, 회전 반영) */
+function resizedBBox(table: TableAnnotation, colWidths: number[], rowHeights: number[]): BBox {
+  const { bbox } = table;
+  return resizeRotatedBBox(bbox, {
+    x: bbox.x,
+    y: bbox.y,
+    width: colWidths.reduce((sum, w) => sum + w, 0),
+    height: rowHeights.reduce((sum, h) => sum + h, 0),
+  }, table.rotation ?? 0);
+}
+
+/**
+ * 행 또는 열 삽입 (index 앞에, 새 줄은 이웃 줄의 크기/스타일)
+ * 수식 참조는 밀려난 셀을 계속 가리키도록 옮긴다.
+ */
+export function insertTableLines(
+  table: TableAnnotation,
+  axis: 'row' | 'col',
+  index: number,
+  count = 1
+): Partial<TableAnnotation> {
+  const at = Math.max(0, Math.min(index, axis === 'row' ? table.rows : table.cols));
+  let cells: TableCell[][];
+  let rowHeights = table.rowHeights;
+  let colWidths = table.colWidths;
+
+  if (axis === 'row') {
+    const result = insertLines(fullCells(table), table.rowHeights, at, count);
+    cells = result.cells;
+    rowHeights = result.sizes;
+  } else {
+    const result = insertLines(transposeCells(fullCells(table)), table.colWidths, at, count);
+    cells = transposeCells(result.cells);
+    colWidths = result.sizes;
+  }
+  shiftAllFormulas(cells, axis, at, count);
+
+  return {
+    cells,
+    rows: rowHeights.length,
+    cols: colWidths.length,
+    rowHeights,
+    colWidths,
+    bbox: resizedBBox(table, colWidths, rowHeights),
+  };
+}
+
+/**
+ * 행 또는 열 삭제 (index부터 count줄)
+ * @returns null - 모든 줄을 지우려 함 (표에는 한 줄 이상 남아야 함)
+ */
+export function deleteTableLines(
+  table: TableAnnotation,
+  axis: 'row' | 'col',
+  index: number,
+  count = 1
+): Partial<TableAnnotation> | null {
+  const total = axis === 'row' ? table.rows : table.cols;
+  const start = Math.max(0, index);
+  const n = Math.min(count, total - start);
+  if (n <= 0 || n >= total) return null;
+
+  let cells: TableCell[][];
+  let rowHeights = table.rowHeights;
+  let colWidths = table.colWidths;
+
+  if (axis === 'row') {
+    const result = deleteLines(fullCells(table), table.rowHeights, start, n);
+    cells = result.cells;
+    rowHeights = result.sizes;
+  } else {
+    const result = deleteLines(transposeCells(fullCells(table)), table.colWidths, start, n);
+    cells = transposeCells(result.cells);
+    colWidths = result.sizes;
+  }
+  shiftAllFormulas(cells, axis, start, -n);
+
+  return {
+    cells,
+    rows: rowHeights.length,
+    cols: colWidths.length,
+    rowHeights,
+    colWidths,
+    bbox: resizedBBox(table, colWidths, rowHeights),
+  };
+}
+
+// ============================================
+// Borders
+// ============================================
+
+/**
+ * 범위에 변별 테두리 적용
+ *  - all/outer/inner/top/right/bottom/left: border로 설정
+ *  - none: 선 없음, clear: 표 격자선으로 되돌림
+ * 맞닿은 바깥 셀의 반대쪽 변 설정은 지워 새 설정이 보이게 한다.
+ */
+export function setRangeBorders(
+  table: TableAnnotation,
+  range: TableCellRange,
+  preset: TableBorderPreset,
+  border: TableCellBorder
+): Partial<TableAnnotation> {
+  const r = expandRange(table, range);
+  const anchors = tableAnchorGrid(table);
+  const cells = fullCells(table);
+
+  const clearNeighbors = (row: number, col: number, edge: TableCellEdge) => {
+    const { rowSpan, colSpan } = cellSpan(cells[row][col]);
+    const units: CellPosition[] = [];
+    if (edge === 'top' || edge === 'bottom') {
+      const rr = edge === 'top' ? row - 1 : row + rowSpan;
+      for (let cc = col; cc < col + colSpan; cc++) units.push({ row: rr, col: cc });
+    } else {
+      const cc = edge === 'left' ? col - 1 : col + colSpan;
+      for (let rr = row; rr < row + rowSpan; rr++) units.push({ row: rr, col: cc });
+    }
+    for (const unit of units) {
+      const anchor = anchors[unit.row]?.[unit.col];
+      const borders = anchor && cells[anchor.row][anchor.col].style.borders;
+      if (borders) delete borders[OPPOSITE_EDGE[edge]];
+    }
+  };
+
+  for (let row = r.top; row <= r.bottom; row++) {
+    for (let col = r.left; col <= r.right; col++) {
+      if (!isAnchor(anchors, row, col)) continue;
+      const cell = cells[row][col];
+      const { rowSpan, colSpan } = cellSpan(cell);
+      const onBoundary: Record<TableCellEdge, boolean> = {
+        top: row === r.top,
+        left: col === r.left,
+        bottom: row + rowSpan - 1 >= r.bottom,
+        right: col + colSpan - 1 >= r.right,
+      };
+
+      const edges = EDGES.filter((edge) => {
+        switch (preset) {
+          case 'all':
+          case 'none':
+          case 'clear':
+            return true;
+          case 'outer':
+            return onBoundary[edge];
+          case 'inner':
+            return !onBoundary[edge];
+          default:
+            return edge === preset && onBoundary[edge];
+        }
+      });
+      if (edges.length === 0) continue;
+
+      const borders = { ...cell.style.borders };
+      for (const edge of edges) {
+        if (preset === 'clear') delete borders[edge];
+        else borders[edge] = preset === 'none' ? { width: 0, color: border.color } : { ...border };
+        if (onBoundary[edge]) clearNeighbors(row, col, edge);
+      }
+      if (Object.keys(borders).length > 0) cell.style.borders = borders;
+      else delete cell.style.borders;
+    }
+  }
+  return { cells };
+}
+
+// ============================================
+// Paste
+// ============================================
+
+/**
+ * CSV/TSV 텍스트 → 행 배열
+ * 탭이 있으면 TSV(엑셀/구글 시트 복사), 아니면 CSV. 따옴표 안의 구분자/줄바꿈과 ""를 처리한다.
+ */
+export function parseDelimitedText(text: string): string[][] {
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+  if (!source) return [];
+  const delimiter = source.includes('\t') ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * 선택 범위에 붙여넣기
+ * 범위 왼쪽 위부터 채우고 모자란 행/열은 표 끝에 늘린다.
+ * 한 칸짜리 데이터는 선택 범위 전체에 채운다. 병합으로 가려진 칸은 건너뛴다.
+ * @returns 변경분과 채워진 범위
+ */
+export function pasteIntoTable(
+  table: TableAnnotation,
+  range: TableCellRange,
+  data: string[][]
+): { updates: Partial<TableAnnotation>; range: TableCellRange } | null {
+  const width = Math.max(0, ...data.map((row) => row.length));
+  if (data.length === 0 || width === 0) return null;
+
+  const fill = data.length === 1 && width === 1;
+  const target: TableCellRange = fill
+    ? range
+    : { top: range.top, left: range.left, bottom: range.top + data.length - 1, right: range.left + width - 1 };
+
+  let updates: Partial<TableAnnotation> = {};
+  let current = table;
+  if (target.bottom >= current.rows) {
+    updates = insertTableLines(current, 'row', current.rows, target.bottom - current.rows + 1);
+    current = { ...current, ...updates };
+  }
+  if (target.right >= current.cols) {
+    updates = { ...updates, ...insertTableLines(current, 'col', current.cols, target.right - current.cols + 1) };
+    current = { ...current, ...updates };
+  }
+
+  const anchors = tableAnchorGrid(current);
+  const cells = fullCells(current);
+  for (let row = target.top; row <= target.bottom; row++) {
+    for (let col = target.left; col <= target.right; col++) {
+      if (!isAnchor(anchors, row, col)) continue;
+      cells[row][col].content = fill ? data[0][0] : data[row - target.top]?.[col - target.left] ?? '';
+    }
+  }
+  return { updates: { ...updates, cells }, range: target };
+}
+
+// ============================================
+// Layout
+// ============================================
+
+function offsets(sizes: number[], start: number): number[] {
+  const result = [start];
+  for (const size of sizes) result.push(result[result.length - 1] + (size ?? 0));
+  return result;
+}
+
+/**
+ * 보이는 셀(병합의 왼쪽 위 셀)의 상자와 표시 텍스트
+ * @param origin 표 왼쪽 위 (기본: bbox 위치)
+ */
+export function layoutTableCells(table: TableAnnotation, origin: Point = table.bbox): TableCellLayout[] {
+  const anchors = tableAnchorGrid(table);
+  const xs = offsets(table.colWidths.slice(0, table.cols), origin.x);
+  const ys = offsets(table.rowHeights.slice(0, table.rows), origin.y);
+  const texts = tableDisplayValues(table.cells);
+
+  const result: TableCellLayout[] = [];
+  for (let row = 0; row < table.rows; row++) {
+    for (let col = 0; col < table.cols; col++) {
+      const cell = table.cells[row]?.[col];
+      if (!cell || !isAnchor(anchors, row, col)) continue;
+      const span = cellSpan(cell);
+      const rowSpan = Math.min(span.rowSpan, table.rows - row);
+      const colSpan = Math.min(span.colSpan, table.cols - col);
+      result.push({
+        row,
+        col,
+        rowSpan,
+        colSpan,
+        box: { x: xs[col], y: ys[row], width: xs[col + colSpan] - xs[col], height: ys[row + rowSpan] - ys[row] },
+        cell,
+        text: texts[row]?.[col] ?? cell.content,
+      });
+    }
+  }
+  return result;
+}
+
+/** 두 셀이 맞닿은 변의 테두리 (양쪽 다 있으면 두꺼운 쪽) */
+function sharedBorder(a?: TableCellBorder, b?: TableCellBorder): TableCellBorder | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return b.width > a.width ? b : a;
+}
+
+/**
+ * 격자선 배치
+ * 병합 셀 안쪽 선은 빼고, 변별 테두리가 있는 변은 격자선 대신 그 테두리로 그린다.
+ */
+export function layoutTableGrid(table: TableAnnotation, origin: Point = table.bbox): TableGridLayout {
+  const { rows, cols, cells } = table;
+  const anchors = tableAnchorGrid(table);
+  const xs = offsets(table.colWidths.slice(0, cols), origin.x);
+  const ys = offsets(table.rowHeights.slice(0, rows), origin.y);
+  const borderOf = (row: number, col: number, edge: TableCellEdge) => {
+    const anchor = anchors[row]?.[col];
+    return anchor ? cells[anchor.row]?.[anchor.col]?.style.borders?.[edge] : undefined;
+  };
+
+  const inner: TableGridLine[] = [];
+  const outer: TableGridLine[] = [];
+  const custom = new Map<string, TableCellBorder & { lines: TableGridLine[] }>();
+  let outerChanged = false;
+
+  const sameKind = (a: TableCellBorder | 'grid' | undefined, b: TableCellBorder | 'grid' | undefined) => {
+    if (a === undefined || b === undefined || a === 'grid' || b === 'grid') return a === b;
+    return a.width === b.width && a.color === b.color;
+  };
+  const emit = (kind: TableCellBorder | 'grid' | undefined, line: TableGridLine, gridTarget: TableGridLine[]) => {
+    if (kind === 'grid') {
+      gridTarget.push(line);
+    } else if (kind && kind.width > 0) {
+      const key = `${kind.width}|${kind.color}`;
+      if (!custom.has(key)) custom.set(key, { width: kind.width, color: kind.color, lines: [] });
+      custom.get(key)!.lines.push(line);
+    }
+  };
+
+  /**
+   * 한 경계선을 칸 단위로 훑어 같은 종류끼리 이어 붙임
+   * unit(i): undefined - 선 없음(병합 안쪽), 'grid' - 격자선, TableCellBorder - 변별 테두리
+   */
+  const scan = (
+    length: number,
+    unit: (i: number) => TableCellBorder | 'grid' | undefined,
+    line: (from: number, to: number) => TableGridLine,
+    gridTarget: TableGridLine[]
+  ) => {
+    let start = 0;
+    let current = length > 0 ? unit(0) : undefined;
+    for (let i = 1; i <= length; i++) {
+      const value = i < length ? unit(i) : undefined;
+      if (i < length && sameKind(value, current)) continue;
+      emit(current, line(start, i), gridTarget);
+      start = i;
+      current = value;
+    }
+  };
+
+  const vertical = (x: number) => (from: number, to: number) => ({ x1: x, y1: ys[from], x2: x, y2: ys[to] });
+  const horizontal = (y: number) => (from: number, to: number) => ({ x1: xs[from], y1: y, x2: xs[to], y2: y });
+  const edgeUnit = (border: TableCellBorder | undefined, isOuter: boolean) => {
+    if (border && isOuter) outerChanged = true;
+    return border ?? 'grid';
+  };
+
+  // 세로선 (왼쪽 외곽 → 내부 → 오른쪽 외곽 순서로 모아 내부/외곽을 나눔)
+  for (let c = 1; c < cols; c++) {
+    scan(rows, (r) => {
+      const a = anchors[r][c - 1];
+      const b = anchors[r][c];
+      if (a.row === b.row && a.col === b.col) return undefined;
+      return edgeUnit(sharedBorder(borderOf(r, c - 1, 'right'), borderOf(r, c, 'left')), false);
+    }, vertical(xs[c]), inner);
+  }
+  // 가로선
+  for (let r = 1; r < rows; r++) {
+    scan(cols, (c) => {
+      const a = anchors[r - 1][c];
+      const b = anchors[r][c];
+      if (a.row === b.row && a.col === b.col) return undefined;
+      return edgeUnit(sharedBorder(borderOf(r - 1, c, 'bottom'), borderOf(r, c, 'top')), false);
+    }, horizontal(ys[r]), inner);
+  }
+  // 외곽
+  scan(cols, (c) => edgeUnit(borderOf(0, c, 'top'), true), horizontal(ys[0]), outer);
+  scan(rows, (r) => edgeUnit(borderOf(r, cols - 1, 'right'), true), vertical(xs[cols]), outer);
+  scan(cols, (c) => edgeUnit(borderOf(rows - 1, c, 'bottom'), true), horizontal(ys[rows]), outer);
+  scan(rows, (r) => edgeUnit(borderOf(r, 0, 'left'), true), vertical(xs[0]), outer);
+
+  return { inner, outer: outerChanged ? outer : null, borders: [...custom.values()] };
+}
+
+/** 선분 목록 → SVG 경로 (M x y V y2 / M x y H x2) */
+export function gridLinesPath(lines: TableGridLine[], format: (n: number) => string | number = (n) => n): string {
+  return lines
+    .map((l) => (l.x1 === l.x2
+      ? `M ${format(l.x1)} ${format(l.y1)} V ${format(l.y2)}`
+      : `M ${format(l.x1)} ${format(l.y1)} H ${format(l.x2)}`))
+    .join(' ');
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import type { Annotation } from '../../../core/model/types';
 import { annotationRegistry } from '../services/AnnotationRegistry';
+import { annotationRotation, bboxCenter, isRotatable } from '../../../core/annotations/annotationRotation';
+import { AnnotationLockContext } from '../../../ui/viewer/annotations/annotationLock';
 
 interface AnnotationLayerProps {
     annotation: Annotation;
@@ -31,22 +33,47 @@ export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
         return null;
     }
 
+    const content = renderer.render({
+        annotation,
+        isSelected,
+        isHovered: false,
+        isDragging,
+        scale,
+        onSelect: () => onSelect(annotation.id),
+        // 잠긴 주석은 캔버스에서 바꾸지 않음 (속성 패널/레이어 패널에서는 가능)
+        onUpdate: (updates: any) => { if (!annotation.locked) onUpdate(annotation.id, updates); },
+        onDelete: () => onDelete(annotation.id),
+        onPointerDown: (e: any) => onPointerDown(e, annotation.id),
+        onHover: () => { },
+        onHoverEnd: () => { },
+        onDragStart: onDragStart ? (ann: any, pos: any) => onDragStart(ann, pos) : undefined
+    });
+
+    const locked = !!annotation.locked;
+    if (!isRotatable(annotation)) {
+        return <AnnotationLockContext.Provider value={locked}>{content}</AnnotationLockContext.Provider>;
+    }
+
+    // 주석 컴포넌트는 페이지 좌표에 배치되므로, 페이지 원점의 크기 0 래퍼를 bbox 중심 기준으로 회전
+    // (DOM 이벤트 판정과 리사이즈 핸들도 함께 회전됨). 회전 핸들 드래그 중 다시 마운트되지 않도록
+    // 회전이 0이어도 래퍼는 유지하고 transform만 뺀다.
+    const center = bboxCenter(annotation.bbox);
+    const rotation = annotationRotation(annotation);
     return (
-        <>
-            {renderer.render({
-                annotation,
-                isSelected,
-                isHovered: false,
-                isDragging,
-                scale,
-                onSelect: () => onSelect(annotation.id),
-                onUpdate: (updates: any) => onUpdate(annotation.id, updates),
-                onDelete: () => onDelete(annotation.id),
-                onPointerDown: (e: any) => onPointerDown(e, annotation.id),
-                onHover: () => { },
-                onHoverEnd: () => { },
-                onDragStart: onDragStart ? (ann: any, pos: any) => onDragStart(ann, pos) : undefined
-            })}
-        </>
+        <AnnotationLockContext.Provider value={locked}>
+            <div
+                style={{
+                    position: 'absolute',
+                    left: 0,
+                    top: 0,
+                    width: 0,
+                    height: 0,
+                    transformOrigin: `${center.x * scale}px ${center.y * scale}px`,
+                    transform: rotation !== 0 ? `rotate(${rotation}deg)` : undefined,
+                }}
+            >
+                {content}
+            </div>
+        </AnnotationLockContext.Provider>
     );
 };
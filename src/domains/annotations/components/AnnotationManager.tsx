@@ -3,14 +3,28 @@
  * Refactored to use modular architecture (board6 style)
  */
 
-import React, { useCallback, useRef, useEffect } from 'react';
+import React, { useCallback, useRef, useEffect, useMemo } from 'react';
 import { useAnnotationStore } from '../../../state/stores/AnnotationStore';
+import { usePageStore } from '../../../state/stores/PageStore';
+import { useViewStore } from '../../../state/stores/ViewStore';
+import { useCommentStore } from '../../../state/stores/CommentStore';
+import { useSignatureStore } from '../../../state/stores/SignatureStore';
 import { annotationService } from '../services/AnnotationService';
 import { AnnotationLayer } from './AnnotationLayer';
 import { useAnnotationInteraction } from '../hooks/useAnnotationInteraction';
-import type { Annotation } from '../../../core/model/types';
+import type { Annotation, BBox, Point } from '../../../core/model/types';
 import type { ToolType } from '../../../core/model/types';
 import { createAnnotationFromDraw } from '../../../ui/viewer/annotations/AnnotationFactory';
+import { SnapGuides } from '../../../ui/viewer/annotations/SnapGuides';
+import { AnnotationResizeContext } from '../../../ui/viewer/annotations/annotationResize';
+import type { AnnotationResizeSession } from '../../../ui/viewer/annotations/annotationResize';
+import { beginAnnotationGesture } from '../../../ui/viewer/annotations/annotationGesture';
+import { annotationBounds, isRotated } from '../../../core/annotations/annotationRotation';
+import { SNAP_THRESHOLD_PX, snapPoint, snapResize } from '../../../core/annotations/snapping';
+import type { ResizeEdges, SnapLine, SnapTargets, SpacingMark } from '../../../core/annotations/snapping';
+import { COMMENT_ICON_SIZE, createComment, findCommentAnchor, placeComment } from '../../../core/annotations/comments';
+import { createSignatureAnnotation, isSignaturePlaceholder } from '../../../core/signatures/signatureLibrary';
+import { fillPlaceholder } from '../../../ui/hooks/useSignatures';
 
 interface AnnotationManagerProps {
   pageId: string;
@@ -21,6 +35,13 @@ interface AnnotationManagerProps {
   onDelete: (id: string) => void;
 }
 
+/** 페이지에 그려지는 주석 (숨긴 주석 제외, 다른 주석에 붙은 댓글은 그 주석 위치로) */
+function getVisibleAnnotations(pageAnnotations: Annotation[]): Annotation[] {
+  return pageAnnotations
+    .filter(annotation => !annotation.hidden)
+    .map(annotation => annotation.type === 'comment' ? placeComment(annotation, pageAnnotations) : annotation);
+}
+
 export function AnnotationManager({
   pageId,
   scale,
@@ -35,14 +56,125 @@ export function AnnotationManager({
   const layerRef = useRef<HTMLDivElement>(null);
   const autoSwitchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Smart guides shown while snapping
+  const [snapOverlay, setSnapOverlay] = React.useState<{ lines: SnapLine[]; spacing: SpacingMark[] } | null>(null);
+
+  const showSnap = useCallback((lines: SnapLine[], spacing: SpacingMark[] = []) => {
+    setSnapOverlay(lines.length > 0 || spacing.length > 0 ? { lines, spacing } : null);
+  }, []);
+
+  /** 스냅 대상 (격자/페이지/안내선/다른 주석), 스냅이 모두 꺼져 있으면 null */
+  const getSnapTargets = useCallback((excludeIds: string[]): SnapTargets | null => {
+    const { snapToGrid, snapToObjects, showRulers, gridSize } = useViewStore.getState().view;
+    const layer = layerRef.current;
+    if ((!snapToGrid && !snapToObjects) || !layer) return null;
+
+    const page = usePageStore.getState().pages.find(p => p.id === pageId);
+    const others = useAnnotationStore.getState().annotations
+      .filter(a => a.pageId === pageId && !a.hidden && !excludeIds.includes(a.id));
+
+    return {
+      page: snapToObjects ? { width: layer.clientWidth / scale, height: layer.clientHeight / scale } : null,
+      objects: snapToObjects ? others.map(annotationBounds) : [],
+      // 안내선은 눈금자를 켰을 때만 보이므로 그때만 붙음
+      guides: snapToObjects && showRulers ? page?.guides ?? [] : [],
+      gridSize: snapToGrid ? gridSize : null,
+      threshold: SNAP_THRESHOLD_PX / scale,
+    };
+  }, [pageId, scale]);
+
+  const handleMoveSnap = useCallback((result: { lines: SnapLine[]; spacing: SpacingMark[] } | null) => {
+    if (result) showSnap(result.lines, result.spacing);
+    else setSnapOverlay(null);
+  }, [showSnap]);
+
   // Hook manages drag state and pointer down events
   const { handlePointerDown, startDrag, draggedAnnotationId } = useAnnotationInteraction({
     scale,
-    activeTool
+    activeTool,
+    getSnapTargets,
+    onSnap: handleMoveSnap,
   });
 
+  // ── 크기 조절 스냅 ──
+  // ResizeHandles는 이전 위치 기준의 변화량을 보내므로, 스냅 전 상자(raw)를 따로 유지해 오차가 쌓이지 않게 함
+  const resizingRef = useRef(false);
+  const altKeyRef = useRef(false);
+  const resizeRawRef = useRef<{ id: string; raw: BBox; out: BBox } | null>(null);
+
+  const resizeSession = useMemo<AnnotationResizeSession>(() => {
+    const trackAlt = (e: PointerEvent) => { altKeyRef.current = e.altKey; };
+    return {
+      begin: () => {
+        resizingRef.current = true;
+        resizeRawRef.current = null;
+        window.addEventListener('pointermove', trackAlt);
+      },
+      end: () => {
+        resizingRef.current = false;
+        resizeRawRef.current = null;
+        window.removeEventListener('pointermove', trackAlt);
+        setSnapOverlay(null);
+      },
+    };
+  }, []);
+
+  const handleLayerUpdate = useCallback((id: string, updates: Partial<Annotation>) => {
+    const annotation = useAnnotationStore.getState().annotations.find(a => a.id === id);
+    if (!resizingRef.current || !updates.bbox || !annotation || isRotated(annotation)) {
+      onUpdate(id, updates);
+      return;
+    }
+
+    const current = annotation.bbox;
+    const next = updates.bbox;
+    const last = resizeRawRef.current;
+    const base = last && last.id === id &&
+      last.out.x === current.x && last.out.y === current.y &&
+      last.out.width === current.width && last.out.height === current.height
+      ? last.raw
+      : current;
+    const raw = {
+      x: base.x + (next.x - current.x),
+      y: base.y + (next.y - current.y),
+      width: base.width + (next.width - current.width),
+      height: base.height + (next.height - current.height),
+    };
+
+    // 한쪽 변만 움직인 축만 스냅
+    const moved = (a: number, b: number) => Math.abs(a - b) > 1e-6;
+    const startX = moved(next.x, current.x);
+    const endX = moved(next.x + next.width, current.x + current.width);
+    const startY = moved(next.y, current.y);
+    const endY = moved(next.y + next.height, current.y + current.height);
+    const edges: ResizeEdges = {
+      x: startX !== endX ? (startX ? 'start' : 'end') : undefined,
+      y: startY !== endY ? (startY ? 'start' : 'end') : undefined,
+    };
+
+    const targets = altKeyRef.current ? null : getSnapTargets([id]);
+    const snapped = targets ? snapResize(raw, edges, targets) : { bbox: raw, lines: [] };
+    resizeRawRef.current = { id, raw, out: snapped.bbox };
+    showSnap(snapped.lines);
+    onUpdate(id, { ...updates, bbox: snapped.bbox });
+  }, [onUpdate, getSnapTargets, showSnap]);
+
+  // 그리기 도구의 점 스냅 (자유곡선은 제외, Alt로 해제)
+  const snapDrawPoint = useCallback((point: Point, altKey: boolean, excludeIds: string[] = []): Point => {
+    const targets = altKey || activeTool === 'brush' || activeTool === 'highlighter' ? null : getSnapTargets(excludeIds);
+    if (!targets) {
+      setSnapOverlay(null);
+      return point;
+    }
+    const snapped = snapPoint(point, targets);
+    showSnap(snapped.lines);
+    return snapped.point;
+  }, [activeTool, getSnapTargets, showSnap]);
+
   // Filter annotations for current page
   const pageAnnotations = annotations.filter(annotation => annotation.pageId === pageId);
+  // 숨긴 주석은 그리지 않고 사각형 선택에서도 제외, 다른 주석에 붙은 댓글은 그 주석 위치에
+  const visibleAnnotations = getVisibleAnnotations(pageAnnotations);
 
   // Marquee selection state
   const [marquee, setMarquee] = React.useState<{
@@ -68,12 +200,14 @@ export function AnnotationManager({
         // 그룹 편집 모드 중 빈 공간 클릭 처리
         const editingGroupId = useAnnotationStore.getState().selection.editingGroupId;
         if (editingGroupId) {
-          const groupMembers = pageAnnotations.filter(a => a.groupId === editingGroupId);
+          const groupMembers = useAnnotationStore.getState().annotations
+            .filter(a => a.pageId === pageId && a.groupId === editingGroupId);
           if (groupMembers.length > 0) {
-            const gMinX = Math.min(...groupMembers.map(a => a.bbox.x));
-            const gMinY = Math.min(...groupMembers.map(a => a.bbox.y));
-            const gMaxX = Math.max(...groupMembers.map(a => a.bbox.x + a.bbox.width));
-            const gMaxY = Math.max(...groupMembers.map(a => a.bbox.y + a.bbox.height));
+            const gBounds = groupMembers.map(annotationBounds);
+            const gMinX = Math.min(...gBounds.map(b => b.x));
+            const gMinY = Math.min(...gBounds.map(b => b.y));
+            const gMaxX = Math.max(...gBounds.map(b => b.x + b.width));
+            const gMaxY = Math.max(...gBounds.map(b => b.y + b.height));
 
             if (clickX >= gMinX && clickX <= gMaxX && clickY >= gMinY && clickY <= gMaxY) {
               // 그룹 영역 내부 빈 공간 → 그룹 전체 선택으로 복귀
@@ -116,11 +250,13 @@ export function AnnotationManager({
 
           // Only select if dragged enough (> 5px)
           if (w > 5 || h > 5) {
-            const { selectAnnotations } = useAnnotationStore.getState();
-            const insideIds = pageAnnotations
+            // 놓는 시점의 주석으로 판정 (드래그 중 바뀐 주석 반영)
+            const { annotations: current, selectAnnotations } = useAnnotationStore.getState();
+            const insideIds = getVisibleAnnotations(current.filter(a => a.pageId === pageId))
               .filter(a => {
-                const b = a.bbox;
-                if (!b) return false;
+                if (!a.bbox) return false;
+                // 회전된 주석은 화면에 보이는 영역이 모두 들어와야 선택
+                const b = annotationBounds(a);
                 return b.x >= minX && b.y >= minY &&
                   b.x + b.width <= maxX && b.y + b.height <= maxY;
               })
@@ -141,21 +277,26 @@ export function AnnotationManager({
     }
 
     // Creating new annotations (Drag to Create)
-    if (['text', 'highlight', 'highlighter', 'rectangle', 'roundedRect', 'ellipse', 'arrow', 'line', 'star', 'brush', 'eraser', 'table'].includes(activeTool)) {
+    if (['text', 'highlight', 'highlighter', 'redaction', 'rectangle', 'roundedRect', 'ellipse', 'arrow', 'line', 'star', 'brush', 'table'].includes(activeTool)) {
       e.preventDefault();
       const rect = layerRef.current?.getBoundingClientRect();
       if (!rect) return;
 
-      const startX = (e.clientX - rect.left) / scale;
-      const startY = (e.clientY - rect.top) / scale;
+      const { x: startX, y: startY } = snapDrawPoint(
+        { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale },
+        e.altKey
+      );
 
       let createdAnnotationId: string | null = null;
       let lastDragX = startX;
       let lastDragY = startY;
 
       const handleWindowMouseMove = (moveEvent: PointerEvent) => {
-        const currentX = (moveEvent.clientX - rect.left) / scale;
-        const currentY = (moveEvent.clientY - rect.top) / scale;
+        const { x: currentX, y: currentY } = snapDrawPoint(
+          { x: (moveEvent.clientX - rect.left) / scale, y: (moveEvent.clientY - rect.top) / scale },
+          moveEvent.altKey,
+          createdAnnotationId ? [createdAnnotationId] : []
+        );
         lastDragX = currentX;
         lastDragY = currentY;
 
@@ -246,6 +387,7 @@ export function AnnotationManager({
       const handleWindowMouseUp = () => {
         window.removeEventListener('pointermove', handleWindowMouseMove);
         window.removeEventListener('pointerup', handleWindowMouseUp);
+        setSnapOverlay(null);
 
         // Text tool: create immediately on click (no drag required)
         if (!createdAnnotationId && activeTool === 'text') {
@@ -299,8 +441,51 @@ export function AnnotationManager({
 
       window.addEventListener('pointermove', handleWindowMouseMove);
       window.addEventListener('pointerup', handleWindowMouseUp);
+      // 만들기와 드래그 중의 크기 변경을 '주석 추가' 하나로
+      beginAnnotationGesture('주석 추가');
     }
-  }, [activeTool, scale, pageId, onCreate, onUpdate, clearSelection]);
+  }, [activeTool, scale, pageId, onCreate, onUpdate, clearSelection, snapDrawPoint]);
+
+  // Comment tool: 클릭한 주석에 붙이거나 (주석 컴포넌트보다 먼저 받도록 캡처 단계) 빈 곳에 댓글
+  const onCommentPointerDownCapture = useCallback((e: React.PointerEvent) => {
+    if (activeTool !== 'comment' || e.button !== 0) return;
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const point = { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+    const anchor = findCommentAnchor(visibleAnnotations, point);
+    onCreate(createComment(pageId, { x: point.x - COMMENT_ICON_SIZE / 2, y: point.y - COMMENT_ICON_SIZE / 2 }, { anchor }));
+    useCommentStore.getState().openComments();
+  }, [activeTool, scale, pageId, onCreate, visibleAnnotations]);
+
+  // Signature tool: 클릭한 자리 표시를 채우거나 클릭한 점에 고른 서명 (저장한 서명이 없으면 서명 다이얼로그)
+  const onSignaturePointerDownCapture = useCallback((e: React.PointerEvent) => {
+    if (activeTool !== 'signature' || e.button !== 0) return;
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const { signatures, activeId, openDialog } = useSignatureStore.getState();
+    const point = { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+    const placeholder = visibleAnnotations.find(a =>
+      a.type === 'signature' && isSignaturePlaceholder(a) && !a.locked &&
+      point.x >= a.bbox.x && point.x <= a.bbox.x + a.bbox.width &&
+      point.y >= a.bbox.y && point.y <= a.bbox.y + a.bbox.height);
+    const kind = placeholder?.type === 'signature' ? placeholder.kind : undefined;
+    const signature = signatures.find(s => s.id === activeId && (!kind || s.kind === kind))
+      ?? signatures.find(s => s.kind === (kind ?? 'signature'))
+      ?? signatures[0];
+    if (!signature) {
+      openDialog();
+      return;
+    }
+
+    if (placeholder) fillPlaceholder(placeholder.id, signature);
+    else onCreate(createSignatureAnnotation({ signature, pageId, center: point }));
+  }, [activeTool, scale, pageId, onCreate, visibleAnnotations]);
 
   // Clear auto-switch timer on unmount
   useEffect(() => {
@@ -393,40 +578,43 @@ export function AnnotationManager({
         touchAction: 'none'
       }}
       onPointerDown={onCanvasPointerDown}
+      onPointerDownCapture={activeTool === 'signature' ? onSignaturePointerDownCapture : onCommentPointerDownCapture}
       // onKeyDown moved to window listener
       tabIndex={0}
     >
-      {pageAnnotations.map((annotation) => {
-        // 그룹 전체 선택 상태: 개별 멤버의 selected 표시 숨김 (그룹 박스만 표시)
-        const isInFullGroupSelect =
-          !selection.editingGroupId &&
-          annotation.groupId &&
-          selectedAnnotationIds.includes(annotation.id) &&
-          selectedAnnotationIds.length >= 2 &&
-          pageAnnotations
-            .filter(a => a.groupId === annotation.groupId)
-            .every(a => selectedAnnotationIds.includes(a.id));
-
-        const showSelected = isInFullGroupSelect
-          ? false
-          : selectedAnnotationIds.includes(annotation.id);
-
-        return (
-          <React.Fragment key={annotation.id}>
-            <AnnotationLayer
-              annotation={annotation}
-              scale={scale}
-              isSelected={showSelected}
-              isDragging={draggedAnnotationId === annotation.id}
-              onSelect={() => { }}
-              onUpdate={onUpdate}
-              onDelete={onDelete}
-              onPointerDown={handlePointerDown}
-              onDragStart={startDrag}
-            />
-          </React.Fragment>
-        );
-      })}
+      <AnnotationResizeContext.Provider value={resizeSession}>
+        {visibleAnnotations.map((annotation) => {
+          // 그룹 전체 선택 상태: 개별 멤버의 selected 표시 숨김 (그룹 박스만 표시)
+          const isInFullGroupSelect =
+            !selection.editingGroupId &&
+            annotation.groupId &&
+            selectedAnnotationIds.includes(annotation.id) &&
+            selectedAnnotationIds.length >= 2 &&
+            pageAnnotations
+              .filter(a => a.groupId === annotation.groupId)
+              .every(a => selectedAnnotationIds.includes(a.id));
+
+          const showSelected = isInFullGroupSelect
+            ? false
+            : selectedAnnotationIds.includes(annotation.id);
+
+          return (
+            <React.Fragment key={annotation.id}>
+              <AnnotationLayer
+                annotation={annotation}
+                scale={scale}
+                isSelected={showSelected}
+                isDragging={draggedAnnotationId === annotation.id}
+                onSelect={() => { }}
+                onUpdate={handleLayerUpdate}
+                onDelete={onDelete}
+                onPointerDown={handlePointerDown}
+                onDragStart={startDrag}
+              />
+            </React.Fragment>
+          );
+        })}
+      </AnnotationResizeContext.Provider>
 
       {/* Group / Multi-select bounding box outline */}
       {(() => {
@@ -436,10 +624,11 @@ export function AnnotationManager({
         if (editingGroupId) {
           const groupMembers = pageAnnotations.filter(a => a.groupId === editingGroupId);
           if (groupMembers.length >= 2) {
-            const minX = Math.min(...groupMembers.map(a => a.bbox.x));
-            const minY = Math.min(...groupMembers.map(a => a.bbox.y));
-            const maxX = Math.max(...groupMembers.map(a => a.bbox.x + a.bbox.width));
-            const maxY = Math.max(...groupMembers.map(a => a.bbox.y + a.bbox.height));
+            const bounds = groupMembers.map(annotationBounds);
+            const minX = Math.min(...bounds.map(b => b.x));
+            const minY = Math.min(...bounds.map(b => b.y));
+            const maxX = Math.max(...bounds.map(b => b.x + b.width));
+            const maxY = Math.max(...bounds.map(b => b.y + b.height));
             return (
               <div
                 style={{
@@ -471,10 +660,11 @@ export function AnnotationManager({
         if (selectedAnnotationIds.length >= 2) {
           const selected = pageAnnotations.filter(a => selectedAnnotationIds.includes(a.id));
           if (selected.length < 2) return null;
-          const minX = Math.min(...selected.map(a => a.bbox.x));
-          const minY = Math.min(...selected.map(a => a.bbox.y));
-          const maxX = Math.max(...selected.map(a => a.bbox.x + a.bbox.width));
-          const maxY = Math.max(...selected.map(a => a.bbox.y + a.bbox.height));
+          const bounds = selected.map(annotationBounds);
+          const minX = Math.min(...bounds.map(b => b.x));
+          const minY = Math.min(...bounds.map(b => b.y));
+          const maxX = Math.max(...bounds.map(b => b.x + b.width));
+          const maxY = Math.max(...bounds.map(b => b.y + b.height));
           const isGrouped = selected.every(a => a.groupId && a.groupId === selected[0]?.groupId);
           return (
             <div
@@ -508,6 +698,9 @@ export function AnnotationManager({
         return null;
       })()}
 
+      {/* Smart guides while snapping */}
+      {snapOverlay && <SnapGuides lines={snapOverlay.lines} spacing={snapOverlay.spacing} scale={scale} />}
+
       {/* Marquee selection overlay */}
       {marquee && (
         <div
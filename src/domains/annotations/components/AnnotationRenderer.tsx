@@ -6,18 +6,27 @@
 import React from 'react';
 import { annotationRegistry } from '../services/AnnotationRegistry';
 import type { Annotation } from '../../../core/model/types';
+import { getAnnotationPainter } from '../../../core/io/annotationPainter';
 
 // 기존 주석 컴포넌트들을 임포트
 import { TextAnnotationComponent } from '../../../ui/viewer/annotations/TextAnnotation';
 import { HighlightAnnotationComponent } from '../../../ui/viewer/annotations/HighlightAnnotation';
 import { ShapeAnnotationComponent } from '../../../ui/viewer/annotations/ShapeAnnotation';
 import { ImageAnnotationComponent } from '../../../ui/viewer/annotations/ImageAnnotation';
+import { BarcodeAnnotationComponent } from '../../../ui/viewer/annotations/BarcodeAnnotation';
+import { StampAnnotationComponent } from '../../../ui/viewer/annotations/StampAnnotation';
+import { SignatureAnnotationComponent } from '../../../ui/viewer/annotations/SignatureAnnotation';
 import { ArrowAnnotationComponent } from '../../../ui/viewer/annotations/ArrowAnnotation';
 
 import { StarAnnotationComponent } from '../../../ui/viewer/annotations/StarAnnotation';
 import { FreehandAnnotationComponent } from '../../../ui/viewer/annotations/FreehandAnnotation';
 import { HighlighterAnnotationComponent } from '../../../ui/viewer/annotations/HighlighterAnnotation';
 import { TableAnnotationComponent } from '../../../ui/viewer/annotations/TableAnnotation';
+import { TextMarkupAnnotationComponent } from '../../../ui/viewer/annotations/TextMarkupAnnotation';
+import { RedactionAnnotationComponent } from '../../../ui/viewer/annotations/RedactionAnnotation';
+import { OCRAnnotationComponent } from '../../../ui/viewer/annotations/OCRAnnotation';
+import { CommentAnnotationComponent } from '../../../ui/viewer/annotations/CommentAnnotation';
+import { DEFAULT_COMMENT_COLOR } from '../../../core/annotations/comments';
 
 // ── 공통 Props 빌더 ──
 
@@ -58,6 +67,23 @@ interface AnnotationConfig {
   defaultProps: () => Record<string, any>;
 }
 
+/** 텍스트 선택 하이라이트(quads)는 마크업 렌더러, 사각형 하이라이트는 기존 컴포넌트 */
+type HighlightRendererProps = React.ComponentProps<typeof HighlightAnnotationComponent>
+  & React.ComponentProps<typeof TextMarkupAnnotationComponent>;
+
+const HighlightRenderer = (p: HighlightRendererProps) => (p.annotation.quads?.length
+  ? <TextMarkupAnnotationComponent {...p} />
+  : <HighlightAnnotationComponent {...p} />);
+
+/** 밑줄/물결 밑줄/취소선 설정 */
+const textMarkupConfig = (type: 'underline' | 'squiggly' | 'strikeout', stroke: string): AnnotationConfig => ({
+  type,
+  Component: TextMarkupAnnotationComponent,
+  propsMapper: withPointerDown,
+  validate: (a) => a.type === type && !!a.bbox && Array.isArray(a.quads) && a.quads.length > 0,
+  defaultProps: () => ({ type, content: '', quads: [], style: { stroke, opacity: 1 } }),
+});
+
 const ANNOTATION_CONFIGS: AnnotationConfig[] = [
   // ── Text ──
   {
@@ -70,11 +96,23 @@ const ANNOTATION_CONFIGS: AnnotationConfig[] = [
   // ── Highlight ──
   {
     type: 'highlight',
-    Component: HighlightAnnotationComponent,
-    propsMapper: coreProps,
+    Component: HighlightRenderer,
+    propsMapper: withPointerDown,
     validate: (a) => a.type === 'highlight' && !!a.bbox,
     defaultProps: () => ({ type: 'highlight', style: { color: '#ffff00', opacity: 0.5 } }),
   },
+  // ── Text Markup (underline, squiggly, strikeout) ──
+  textMarkupConfig('underline', '#1E88E5'),
+  textMarkupConfig('squiggly', '#E53935'),
+  textMarkupConfig('strikeout', '#E53935'),
+  // ── Redaction (텍스트 선택 또는 사각형) ──
+  {
+    type: 'redaction',
+    Component: RedactionAnnotationComponent,
+    propsMapper: withPointerDown,
+    validate: (a) => a.type === 'redaction' && !!a.bbox,
+    defaultProps: () => ({ type: 'redaction', style: { fill: '#000000' } }),
+  },
   // ── Shapes (rectangle, roundedRect, ellipse) ──
   {
     type: 'rectangle',
@@ -105,6 +143,30 @@ const ANNOTATION_CONFIGS: AnnotationConfig[] = [
     validate: (a) => a.type === 'image' && 'imageData' in a && !!a.imageData,
     defaultProps: () => ({ type: 'image', imageData: '', style: { opacity: 1.0 } }),
   },
+  // ── Barcode ──
+  {
+    type: 'barcode',
+    Component: BarcodeAnnotationComponent,
+    propsMapper: withHoverDrag,
+    validate: (a) => a.type === 'barcode' && Array.isArray(a.modules) && a.modules.length > 0,
+    defaultProps: () => ({ type: 'barcode', format: 'qr', value: '', modules: [], style: { color: '#000000', backgroundColor: '#FFFFFF' } }),
+  },
+  // ── Stamp ──
+  {
+    type: 'stamp',
+    Component: StampAnnotationComponent,
+    propsMapper: withHoverDrag,
+    validate: (a) => a.type === 'stamp' && !!a.bbox,
+    defaultProps: () => ({ type: 'stamp', stampType: 'custom', content: '', style: { fill: 'transparent', stroke: '#6c757d', strokeWidth: 2 } }),
+  },
+  // ── Signature ──
+  {
+    type: 'signature',
+    Component: SignatureAnnotationComponent,
+    propsMapper: withHoverDrag,
+    validate: (a) => a.type === 'signature' && !!a.bbox,
+    defaultProps: () => ({ type: 'signature', kind: 'signature', style: { stroke: '#000000', strokeWidth: 2 } }),
+  },
   // ── Arrow & Line ──
   {
     type: 'arrow',
@@ -170,6 +232,22 @@ const ANNOTATION_CONFIGS: AnnotationConfig[] = [
     validate: (a) => a.type === 'table' && !!a.bbox && 'cells' in a,
     defaultProps: () => ({ type: 'table', rows: 3, cols: 3, colWidths: [67, 67, 66], rowHeights: [30, 30, 30], cells: [], borderWidth: 1, borderColor: '#000000', style: { stroke: '#000000', strokeWidth: 1 } }),
   },
+  // ── Comment (검토 댓글 아이콘) ──
+  {
+    type: 'comment',
+    Component: CommentAnnotationComponent,
+    propsMapper: withPointerDown,
+    validate: (a) => a.type === 'comment' && !!a.bbox && Array.isArray(a.thread),
+    defaultProps: () => ({ type: 'comment', status: 'open', thread: [], style: { color: DEFAULT_COMMENT_COLOR } }),
+  },
+  // ── OCR (인식된 단어, 이동 불가) ──
+  {
+    type: 'ocr',
+    Component: OCRAnnotationComponent,
+    propsMapper: coreProps,
+    validate: (a) => a.type === 'ocr' && !!a.bbox && typeof a.content === 'string',
+    defaultProps: () => ({ type: 'ocr', content: '', confidence: 0, language: 'eng', style: { fontSize: 12, fontFamily: 'sans-serif' } }),
+  },
 ];
 
 // ── 등록 함수 ──
@@ -184,6 +262,7 @@ export function registerLegacyAnnotations(): void {
       render: (props) => <Component {...propsMapper(props)} />,
       validate,
       getDefaultProps: defaultProps,
+      paint: getAnnotationPainter(type as Annotation['type']),
     });
   }
 }
@@ -2,7 +2,10 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAnnotationStore } from '../../../state/stores/AnnotationStore';
 import { useHistoryStore } from '../../../state/stores/HistoryStore';
 import { getDelta } from '../utils/transformUtils';
-import type { Annotation } from '../../../core/model/types';
+import type { Annotation, BBox } from '../../../core/model/types';
+import { annotationBounds } from '../../../core/annotations/annotationRotation';
+import { snapMove, unionBounds } from '../../../core/annotations/snapping';
+import type { SnapMoveResult, SnapTargets } from '../../../core/annotations/snapping';
 
 interface DragState {
     isDragging: boolean;
@@ -13,9 +16,13 @@ interface DragState {
 interface UseAnnotationInteractionProps {
     scale: number;
     activeTool: string;
+    /** Snap targets excluding the moving annotations (null when snapping is off) */
+    getSnapTargets?: (excludeIds: string[]) => SnapTargets | null;
+    /** Current snap result for drawing smart guides (null when cleared) */
+    onSnap?: (result: SnapMoveResult | null) => void;
 }
 
-export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInteractionProps) => {
+export const useAnnotationInteraction = ({ scale, activeTool, getSnapTargets, onSnap }: UseAnnotationInteractionProps) => {
     const { moveAnnotation, selectAnnotation, selection } = useAnnotationStore();
     const selectedAnnotationIds = selection.selectedAnnotationIds;
     const [dragState, setDragState] = useState<DragState>({
@@ -24,9 +31,28 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
         annotationId: null,
     });
 
-    // Snapshot of selected annotations before drag starts (for undo)
-    const beforeSnapshotsRef = useRef<Map<string, Annotation>>(new Map());
-    const didMoveRef = useRef(false);
+    // Whether a history transaction is open for the current drag
+    const transactionOpenRef = useRef(false);
+
+    // Offset already applied since the drag started, and the dragged bounds before moving
+    const appliedRef = useRef({ x: 0, y: 0 });
+    const startBoundsRef = useRef<BBox | null>(null);
+
+    /** Open a history transaction so every move step becomes one undo entry */
+    const beginMoveTransaction = useCallback(() => {
+        if (transactionOpenRef.current) return;
+        useHistoryStore.getState().beginTransaction('주석 이동');
+        transactionOpenRef.current = true;
+    }, []);
+
+    const endMoveTransaction = useCallback(() => {
+        if (!transactionOpenRef.current) return;
+        transactionOpenRef.current = false;
+        useHistoryStore.getState().commitTransaction();
+    }, []);
+
+    // Close a transaction left open if the component unmounts mid-drag
+    useEffect(() => endMoveTransaction, [endMoveTransaction]);
 
     useEffect(() => {
         if (!dragState.isDragging) return;
@@ -35,6 +61,7 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
             e.preventDefault();
             if (!dragState.startPoint || !dragState.annotationId) return;
 
+            // Total offset from the drag start, so snapping never accumulates drift
             let { deltaX, deltaY } = getDelta(
                 e.clientX,
                 e.clientY,
@@ -44,50 +71,59 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
             );
 
             // Shift key: constrain to dominant axis
-            if (e.shiftKey) {
-                if (Math.abs(deltaX) > Math.abs(deltaY)) {
-                    deltaY = 0;
-                } else {
-                    deltaX = 0;
-                }
+            const constrained = e.shiftKey ? (Math.abs(deltaX) > Math.abs(deltaY) ? 'y' : 'x') : null;
+            if (constrained === 'y') deltaY = 0;
+            if (constrained === 'x') deltaX = 0;
+
+            const { annotations, selection: currentSelection } = useAnnotationStore.getState();
+            const currentSelectedIds = currentSelection.selectedAnnotationIds;
+            if (!startBoundsRef.current) {
+                const moving = annotations.filter(a => currentSelectedIds.includes(a.id) && !a.locked);
+                startBoundsRef.current = unionBounds(moving.map(annotationBounds));
+            }
+
+            // Alt key: temporarily disable snapping
+            const targets = e.altKey ? null : getSnapTargets?.(currentSelectedIds) ?? null;
+            if (targets && startBoundsRef.current) {
+                const bounds = startBoundsRef.current;
+                const snap = snapMove({ ...bounds, x: bounds.x + deltaX, y: bounds.y + deltaY }, targets);
+                if (constrained !== 'x') deltaX += snap.dx;
+                if (constrained !== 'y') deltaY += snap.dy;
+                onSnap?.(snap);
+            } else {
+                onSnap?.(null);
             }
 
-            if (Math.abs(deltaX) > 0 || Math.abs(deltaY) > 0) {
-                didMoveRef.current = true;
+            const stepX = deltaX - appliedRef.current.x;
+            const stepY = deltaY - appliedRef.current.y;
+
+            if (Math.abs(stepX) > 0 || Math.abs(stepY) > 0) {
                 // Move ALL selected annotations together (group drag)
-                const currentSelectedIds = useAnnotationStore.getState().selection.selectedAnnotationIds;
+                const actions = [];
                 for (const id of currentSelectedIds) {
-                    moveAnnotation(id, deltaX, deltaY);
+                    const before = useAnnotationStore.getState().annotations.find(a => a.id === id);
+                    // 잠긴 주석은 함께 선택되어 있어도 움직이지 않음
+                    if (!before || before.locked) continue;
+                    moveAnnotation(id, stepX, stepY);
+                    const after = useAnnotationStore.getState().annotations.find(a => a.id === id);
+                    actions.push({
+                        type: 'update' as const,
+                        annotationId: id,
+                        pageId: before.pageId,
+                        before: { ...before },
+                        after: after ? { ...after } : null,
+                    });
                 }
-                setDragState((prev) => ({
-                    ...prev,
-                    startPoint: { x: e.clientX, y: e.clientY },
-                }));
+                // Collected by the open transaction and coalesced on pointer up
+                useHistoryStore.getState().pushAction('주석 이동', actions);
+                appliedRef.current = { x: deltaX, y: deltaY };
             }
         };
 
         const handlePointerUp = () => {
-            // Record history if annotations actually moved
-            if (didMoveRef.current && beforeSnapshotsRef.current.size > 0) {
-                const actions = Array.from(beforeSnapshotsRef.current.entries()).map(
-                    ([id, before]) => {
-                        const after = useAnnotationStore.getState().annotations.find(a => a.id === id);
-                        return {
-                            type: 'update' as const,
-                            annotationId: id,
-                            pageId: before.pageId,
-                            before: { ...before },
-                            after: after ? { ...after } : null,
-                        };
-                    }
-                );
-                if (actions.length > 0) {
-                    useHistoryStore.getState().pushAction('주석 이동', actions);
-                }
-            }
-
-            beforeSnapshotsRef.current.clear();
-            didMoveRef.current = false;
+            // One history entry for the whole drag (none if nothing moved)
+            endMoveTransaction();
+            onSnap?.(null);
 
             setDragState({
                 isDragging: false,
@@ -103,20 +139,7 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
             window.removeEventListener('pointermove', handlePointerMove);
             window.removeEventListener('pointerup', handlePointerUp);
         };
-    }, [dragState.isDragging, dragState.annotationId, dragState.startPoint, moveAnnotation, scale]);
-
-    /** Capture snapshots of all selected annotations before drag */
-    const captureSnapshots = useCallback(() => {
-        const store = useAnnotationStore.getState();
-        const ids = store.selection.selectedAnnotationIds;
-        const map = new Map<string, Annotation>();
-        for (const id of ids) {
-            const ann = store.annotations.find(a => a.id === id);
-            if (ann) map.set(id, { ...ann });
-        }
-        beforeSnapshotsRef.current = map;
-        didMoveRef.current = false;
-    }, []);
+    }, [dragState.isDragging, dragState.annotationId, dragState.startPoint, moveAnnotation, scale, endMoveTransaction, getSnapTargets, onSnap]);
 
     const handlePointerDown = useCallback((e: React.PointerEvent, annotationId: string) => {
         if (activeTool !== 'select') return;
@@ -132,15 +155,19 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
             selectAnnotation(annotationId);
         }
 
-        // Capture before-snapshots for undo (setTimeout lets selection update first)
-        setTimeout(() => captureSnapshots(), 0);
+        // 잠긴 주석은 선택만
+        if (useAnnotationStore.getState().annotations.find(a => a.id === annotationId)?.locked) return;
+
+        beginMoveTransaction();
+        appliedRef.current = { x: 0, y: 0 };
+        startBoundsRef.current = null;
 
         setDragState({
             isDragging: true,
             startPoint: { x: e.clientX, y: e.clientY },
             annotationId,
         });
-    }, [activeTool, selectedAnnotationIds, selectAnnotation, captureSnapshots]);
+    }, [activeTool, selectedAnnotationIds, selectAnnotation, beginMoveTransaction]);
 
     // Direct drag start function for components like ImageAnnotation
     const startDrag = useCallback((annotation: Annotation, startPos: { x: number; y: number }) => {
@@ -150,14 +177,18 @@ export const useAnnotationInteraction = ({ scale, activeTool }: UseAnnotationInt
             selectAnnotation(annotation.id);
         }
 
-        setTimeout(() => captureSnapshots(), 0);
+        if (annotation.locked) return;
+
+        beginMoveTransaction();
+        appliedRef.current = { x: 0, y: 0 };
+        startBoundsRef.current = null;
 
         setDragState({
             isDragging: true,
             startPoint: startPos,
             annotationId: annotation.id,
         });
-    }, [activeTool, selectedAnnotationIds, selectAnnotation, captureSnapshots]);
+    }, [activeTool, selectedAnnotationIds, selectAnnotation, beginMoveTransaction]);
 
     return {
         handlePointerDown,
@@ -5,6 +5,7 @@ import { logger } from '../../../utils/logger';
  */
 
 import type { AnnotationRegistry, AnnotationRenderer } from '../types/AnnotationTypes';
+import type { AnnotationPainter } from '../../../core/io/annotationPainter';
 
 class AnnotationRegistryImpl implements AnnotationRegistry {
   private renderers = new Map<string, AnnotationRenderer>();
@@ -22,6 +23,11 @@ class AnnotationRegistryImpl implements AnnotationRegistry {
     return renderer || null;
   }
 
+  /** 내보내기 페인터 (미등록 타입은 경고 없이 null → 기본 페인터 사용) */
+  getPainter(type: string): AnnotationPainter | null {
+    return this.renderers.get(type)?.paint ?? null;
+  }
+
   getSupportedTypes(): string[] {
     return Array.from(this.renderers.keys());
   }
@@ -3,6 +3,8 @@
  * 확장 가능한 주석 시스템을 위한 기본 타입들
  */
 
+import type { AnnotationPainter } from '../../../core/io/annotationPainter';
+
 export interface BaseAnnotationComponent {
   annotation: any;
   isSelected: boolean;
@@ -22,11 +24,14 @@ export interface AnnotationRenderer {
   render: (props: BaseAnnotationComponent) => React.ReactElement;
   validate: (annotation: any) => boolean;
   getDefaultProps: () => any;
+  /** 내보내기용 Canvas 그리기 (없으면 core 기본 페인터) */
+  paint?: AnnotationPainter;
 }
 
 export interface AnnotationRegistry {
   register: (type: string, renderer: AnnotationRenderer) => void;
   getRenderer: (type: string) => AnnotationRenderer | null;
+  getPainter: (type: string) => AnnotationPainter | null;
   getSupportedTypes: () => string[];
   validate: (type: string, annotation: any) => boolean;
 }
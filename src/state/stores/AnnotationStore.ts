@@ -5,8 +5,9 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Annotation, SelectionState, ToolType } from '../../core/model/types';
+import type { Annotation, SelectionState, ToolOptions, ToolType } from '../../core/model/types';
 import type { ArrowAnnotation, LineAnnotation } from '../../types/annotation';
+import { annotationBounds } from '../../core/annotations/annotationRotation';
 
 /** 유니크 주석 ID 생성 */
 function generateAnnotationId(): string {
@@ -30,6 +31,8 @@ interface AnnotationStore {
   selectAnnotation: (id: string, multiSelect?: boolean) => void;
   clearSelection: () => void;
   setActiveTool: (tool: string) => void;
+  setToolOptions: (options: Partial<ToolOptions>) => void;
+  selectRasterLayer: (layerId: string | null) => void;
   setHoveredAnnotation: (id: string | null) => void;
   setDraggedAnnotation: (id: string | null) => void;
   selectAnnotations: (annotationIds: string[]) => void;
@@ -61,6 +64,7 @@ interface AnnotationStore {
   sendToBack: (id: string) => void;
   bringForward: (id: string) => void;
   sendBackward: (id: string) => void;
+  reorderPageAnnotations: (pageId: string, orderedIds: string[]) => void;
 
   // ── Multi-Select Operations ──
   alignAnnotations: (ids: string[], alignment: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom') => void;
@@ -146,6 +150,18 @@ export const useAnnotationStore = create<AnnotationStore>()(
       });
     },
 
+    setToolOptions: (options: Partial<ToolOptions>) => {
+      set((state) => {
+        Object.assign(state.selection.toolOptions, options);
+      });
+    },
+
+    selectRasterLayer: (layerId: string | null) => {
+      set((state) => {
+        state.selection.selectedRasterLayerId = layerId;
+      });
+    },
+
     setHoveredAnnotation: (id: string | null) => {
       set((state) => {
         state.hoveredAnnotationId = id;
@@ -221,7 +237,8 @@ export const useAnnotationStore = create<AnnotationStore>()(
     moveAnnotation: (id: string, deltaX: number, deltaY: number) => {
       set((state) => {
         const annotation = state.annotations.find((annotation) => annotation.id === id);
-        if (annotation) {
+        // 잠긴 주석은 이동하지 않음
+        if (annotation && !annotation.locked) {
           // Move bbox
           annotation.bbox.x += deltaX;
           annotation.bbox.y += deltaY;
@@ -245,6 +262,14 @@ export const useAnnotationStore = create<AnnotationStore>()(
               }
             }
           }
+
+          // For text markup (highlight/underline/squiggly/strikeout), also move quads
+          if ('quads' in annotation && Array.isArray(annotation.quads)) {
+            for (const quad of annotation.quads) {
+              quad.x += deltaX;
+              quad.y += deltaY;
+            }
+          }
         }
       });
     },
@@ -252,7 +277,7 @@ export const useAnnotationStore = create<AnnotationStore>()(
     resizeAnnotation: (id: string, newWidth: number, newHeight: number) => {
       set((state) => {
         const annotation = state.annotations.find((annotation) => annotation.id === id);
-        if (annotation) {
+        if (annotation && !annotation.locked) {
           annotation.bbox.width = newWidth;
           annotation.bbox.height = newHeight;
         }
@@ -403,6 +428,27 @@ export const useAnnotationStore = create<AnnotationStore>()(
       });
     },
 
+    /**
+     * 한 페이지의 주석 순서 변경 (레이어 패널 드래그)
+     * orderedIds는 뒤 → 앞 순서이며, 다른 페이지 주석의 위치는 그대로 둔다.
+     */
+    reorderPageAnnotations: (pageId: string, orderedIds: string[]) => {
+      set((state) => {
+        const slots: number[] = [];
+        state.annotations.forEach((a, index) => {
+          if (a.pageId === pageId) slots.push(index);
+        });
+        if (slots.length !== orderedIds.length) return;
+
+        const byId = new Map(slots.map(index => [state.annotations[index].id, state.annotations[index]]));
+        if (!orderedIds.every(id => byId.has(id))) return;
+
+        slots.forEach((index, i) => {
+          state.annotations[index] = byId.get(orderedIds[i])!;
+        });
+      });
+    },
+
     // ============================================
     // Multi-Select Operations
     // ============================================
@@ -412,7 +458,8 @@ export const useAnnotationStore = create<AnnotationStore>()(
         const targets = state.annotations.filter(a => ids.includes(a.id));
         if (targets.length < 2) return;
 
-        const bboxes = targets.map(a => a.bbox);
+        // 회전된 주석은 화면에 보이는 영역 기준
+        const bboxes = targets.map(a => annotationBounds(a));
         const minX = Math.min(...bboxes.map(b => b.x));
         const maxX = Math.max(...bboxes.map(b => b.x + b.width));
         const minY = Math.min(...bboxes.map(b => b.y));
@@ -420,18 +467,17 @@ export const useAnnotationStore = create<AnnotationStore>()(
         const centerX = (minX + maxX) / 2;
         const centerY = (minY + maxY) / 2;
 
-        for (const a of targets) {
-          const oldX = a.bbox.x;
-          const oldY = a.bbox.y;
+        targets.forEach((a, i) => {
+          const { x: oldX, y: oldY, width, height } = bboxes[i];
           let dx = 0, dy = 0;
 
           switch (alignment) {
             case 'left': dx = minX - oldX; break;
-            case 'center': dx = centerX - (oldX + a.bbox.width / 2); break;
-            case 'right': dx = maxX - (oldX + a.bbox.width); break;
+            case 'center': dx = centerX - (oldX + width / 2); break;
+            case 'right': dx = maxX - (oldX + width); break;
             case 'top': dy = minY - oldY; break;
-            case 'middle': dy = centerY - (oldY + a.bbox.height / 2); break;
-            case 'bottom': dy = maxY - (oldY + a.bbox.height); break;
+            case 'middle': dy = centerY - (oldY + height / 2); break;
+            case 'bottom': dy = maxY - (oldY + height); break;
           }
 
           a.bbox.x += dx;
@@ -448,7 +494,11 @@ export const useAnnotationStore = create<AnnotationStore>()(
             const pts = (a as any).points as Array<{ x: number; y: number }>;
             if (Array.isArray(pts)) { for (const p of pts) { p.x += dx; p.y += dy; } }
           }
-        }
+          // Move text markup quads
+          if ('quads' in a && Array.isArray(a.quads)) {
+            for (const q of a.quads) { q.x += dx; q.y += dy; }
+          }
+        });
       });
     },
 
@@ -457,17 +507,20 @@ export const useAnnotationStore = create<AnnotationStore>()(
         const targets = state.annotations.filter(a => ids.includes(a.id));
         if (targets.length < 3) return;
 
+        // 회전된 주석은 화면에 보이는 영역 기준
+        const items = targets.map(a => ({ a, bounds: annotationBounds(a) }));
+
         if (direction === 'horizontal') {
-          targets.sort((a, b) => a.bbox.x - b.bbox.x);
-          const first = targets[0].bbox.x;
-          const last = targets[targets.length - 1].bbox.x + targets[targets.length - 1].bbox.width;
-          const totalWidth = targets.reduce((s, a) => s + a.bbox.width, 0);
-          const gap = (last - first - totalWidth) / (targets.length - 1);
+          items.sort((p, q) => p.bounds.x - q.bounds.x);
+          const first = items[0].bounds.x;
+          const last = items[items.length - 1].bounds.x + items[items.length - 1].bounds.width;
+          const totalWidth = items.reduce((s, { bounds }) => s + bounds.width, 0);
+          const gap = (last - first - totalWidth) / (items.length - 1);
 
           let cursor = first;
-          for (const a of targets) {
-            const dx = cursor - a.bbox.x;
-            a.bbox.x = cursor;
+          for (const { a, bounds } of items) {
+            const dx = cursor - bounds.x;
+            a.bbox.x += dx;
             if ((a.type === 'arrow' || a.type === 'line') && 'startPoint' in a) {
               const typed = a as any;
               typed.startPoint.x += dx; typed.endPoint.x += dx;
@@ -476,19 +529,22 @@ export const useAnnotationStore = create<AnnotationStore>()(
               const pts = (a as any).points as Array<{ x: number; y: number }>;
               if (Array.isArray(pts)) { for (const p of pts) { p.x += dx; } }
             }
-            cursor += a.bbox.width + gap;
+            if ('quads' in a && Array.isArray(a.quads)) {
+              for (const q of a.quads) { q.x += dx; }
+            }
+            cursor += bounds.width + gap;
           }
         } else {
-          targets.sort((a, b) => a.bbox.y - b.bbox.y);
-          const first = targets[0].bbox.y;
-          const last = targets[targets.length - 1].bbox.y + targets[targets.length - 1].bbox.height;
-          const totalHeight = targets.reduce((s, a) => s + a.bbox.height, 0);
-          const gap = (last - first - totalHeight) / (targets.length - 1);
+          items.sort((p, q) => p.bounds.y - q.bounds.y);
+          const first = items[0].bounds.y;
+          const last = items[items.length - 1].bounds.y + items[items.length - 1].bounds.height;
+          const totalHeight = items.reduce((s, { bounds }) => s + bounds.height, 0);
+          const gap = (last - first - totalHeight) / (items.length - 1);
 
           let cursor = first;
-          for (const a of targets) {
-            const dy = cursor - a.bbox.y;
-            a.bbox.y = cursor;
+          for (const { a, bounds } of items) {
+            const dy = cursor - bounds.y;
+            a.bbox.y += dy;
             if ((a.type === 'arrow' || a.type === 'line') && 'startPoint' in a) {
               const typed = a as any;
               typed.startPoint.y += dy; typed.endPoint.y += dy;
@@ -497,7 +553,10 @@ export const useAnnotationStore = create<AnnotationStore>()(
               const pts = (a as any).points as Array<{ x: number; y: number }>;
               if (Array.isArray(pts)) { for (const p of pts) { p.y += dy; } }
             }
-            cursor += a.bbox.height + gap;
+            if ('quads' in a && Array.isArray(a.quads)) {
+              for (const q of a.quads) { q.y += dy; }
+            }
+            cursor += bounds.height + gap;
           }
         }
       });
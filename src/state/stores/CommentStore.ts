@@ -0,0 +1,69 @@
+/**
+ * Comment Store - 검토 댓글 패널 상태
+ * 패널 열림, 작성자 이름, 목록 필터 관리 (댓글 내용은 AnnotationStore의 comment 주석)
+ */
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { EMPTY_COMMENT_FILTER } from '../../core/annotations/comments';
+import type { CommentFilter } from '../../core/annotations/comments';
+
+// localStorage로 작성자 이름 유지
+const AUTHOR_KEY = 'justflux-comment-author';
+
+function loadAuthor(): string {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(AUTHOR_KEY) ?? '';
+}
+
+interface CommentStore {
+  isOpen: boolean;
+  /** 새 댓글/답글의 작성자 */
+  author: string;
+  filter: CommentFilter;
+
+  /** 댓글 패널 열기 */
+  openComments: () => void;
+
+  /** 댓글 패널 닫기 */
+  closeComments: () => void;
+
+  /** 작성자 이름 설정 (저장됨) */
+  setAuthor: (author: string) => void;
+
+  /** 목록 필터 설정 */
+  setFilter: (filter: Partial<CommentFilter>) => void;
+}
+
+export const useCommentStore = create<CommentStore>()(
+  immer((set) => ({
+    isOpen: false,
+    author: loadAuthor(),
+    filter: { ...EMPTY_COMMENT_FILTER },
+
+    openComments: () => {
+      set((state) => {
+        state.isOpen = true;
+      });
+    },
+
+    closeComments: () => {
+      set((state) => {
+        state.isOpen = false;
+      });
+    },
+
+    setAuthor: (author: string) => {
+      localStorage.setItem(AUTHOR_KEY, author);
+      set((state) => {
+        state.author = author;
+      });
+    },
+
+    setFilter: (filter: Partial<CommentFilter>) => {
+      set((state) => {
+        Object.assign(state.filter, filter);
+      });
+    },
+  }))
+);
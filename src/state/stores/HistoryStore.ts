@@ -8,12 +8,20 @@
  *  - undo 시 before 상태 복원, redo 시 after 상태 복원
  *  - canUndo/canRedo를 반응적 상태로 관리 (getter가 아닌 set 기반)
  *  - AnnotationStore lazy import로 순환 의존성 방지
+ *  - 래스터 레이어는 연산 목록 스냅샷으로 되돌림 (픽셀 캐시는 저장하지 않음)
+ *  - 페이지 추가/삭제/복제/회전/자르기는 페이지 스냅샷, 순서 변경은 페이지 ID 목록으로 되돌림
+ *  - 동작 종류별 처리기(ACTION_HANDLERS)로 적용하며, 다른 스토어는 registerHistoryHandler로
+ *    자기 동작을 추가한다 (예: PDFStore의 전체 회전)
+ *  - 트랜잭션: begin~commit 사이의 동작은 대상별로 합쳐 하나의 항목이 됨 (드래그 등)
+ *  - 항목 수가 아닌 대략적인 메모리 사용량(HISTORY_MEMORY_BUDGET)으로 오래된 항목을 버림
+ *  - 되돌린 뒤 새로 편집하면 버려질 redo 항목을 갈래(HistoryBranch)로 보관하고,
+ *    이름 붙인 시점(HistoryCheckpoint)과 함께 프로젝트에 저장한다
  */
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import type { Operation as JsonPatchOperation } from 'fast-json-patch';
-import type { HistoryState, Annotation } from '../../core/model/types';
+import type { HistoryState, Annotation, Page, RasterLayer } from '../../core/model/types';
 
 // ── Undo/Redo 액션 타입 ──
 
@@ -25,13 +33,83 @@ export interface AnnotationAction {
   after: Annotation | null;   // redo 시 적용할 상태
 }
 
-interface HistoryEntry {
+export interface RasterAction {
+  type: 'raster';
+  layerId: string;
+  pageId: string;
+  before: RasterLayer | null;  // null = 이 동작으로 레이어가 생성됨
+  after: RasterLayer | null;   // null = 이 동작으로 레이어가 삭제됨
+  /** 삭제된 레이어를 되살릴 때의 쌓임 순서 */
+  index?: number;
+}
+
+export interface PageAction {
+  type: 'page';
+  pageId: string;
+  before: Page | null;  // null = 이 동작으로 페이지가 생성됨
+  after: Page | null;   // null = 이 동작으로 페이지가 삭제됨
+  /** 삭제된 페이지를 되살릴 때의 순서 */
+  index?: number;
+}
+
+export interface PageOrderAction {
+  type: 'pageOrder';
+  before: string[];  // 페이지 ID 순서
+  after: string[];
+}
+
+export interface RotationAction {
+  type: 'rotation';
+  before: number;  // 전체 회전 (도)
+  after: number;
+}
+
+export type HistoryAction = AnnotationAction | RasterAction | PageAction | PageOrderAction | RotationAction;
+
+export type HistoryActionType = HistoryAction['type'];
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export type HistoryActionHandler<A extends HistoryAction = HistoryAction> = (action: A, direction: HistoryDirection) => void;
+
+/** 히스토리가 쓸 수 있는 대략적인 메모리 (바이트) */
+export const HISTORY_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+export interface HistoryEntry {
   id: string;
   description: string;
   timestamp: number;
   forward: JsonPatchOperation[];
   backward: JsonPatchOperation[];
-  actions: AnnotationAction[];
+  actions: HistoryAction[];
+  /** 대략적인 메모리 사용량 (바이트, 없으면 계산) */
+  size?: number;
+}
+
+/** 되돌린 뒤 새 편집으로 갈라져 나간 항목들 */
+export interface HistoryBranch {
+  id: string;
+  /** 갈라진 지점의 항목 ID (null = 가장 오래된 상태) */
+  parentId: string | null;
+  entries: HistoryEntry[];
+  createdAt: number;
+}
+
+/** 사용자가 이름 붙인 시점 */
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  /** 이 항목까지 적용된 상태 (null = 가장 오래된 상태) */
+  entryId: string | null;
+  createdAt: number;
+}
+
+/** 프로젝트 파일에 저장되는 히스토리 상태 */
+export interface HistorySnapshot {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  branches?: HistoryBranch[];
+  checkpoints?: HistoryCheckpoint[];
 }
 
 // ── Store 인터페이스 ──
@@ -43,66 +121,240 @@ interface HistoryStore {
   historyError: string | null;
   canUndo: boolean;
   canRedo: boolean;
+  /** 보관 중인 다른 갈래들 */
+  branches: HistoryBranch[];
+  checkpoints: HistoryCheckpoint[];
+  /** 저장된 항목들(갈래 포함)의 대략적인 메모리 사용량 (바이트) */
+  memoryUsage: number;
 
   addHistoryPatch: (description: string, forward: JsonPatchOperation[], backward: JsonPatchOperation[]) => void;
-  pushAction: (description: string, actions: AnnotationAction[]) => void;
+  /** 항목 추가 (트랜잭션 중이면 트랜잭션에 모음) */
+  pushAction: (description: string, actions: HistoryAction[]) => void;
+  /** 트랜잭션 시작 (중첩 가능, 가장 바깥 것만 기록됨) */
+  beginTransaction: (description: string) => void;
+  /** 트랜잭션 종료 — 모은 동작을 합쳐 하나의 항목으로 기록 */
+  commitTransaction: () => void;
+  /** 트랜잭션 취소 — 모은 동작을 되돌리고 버림 */
+  cancelTransaction: () => void;
+  isInTransaction: () => boolean;
+  setMemoryBudget: (bytes: number) => void;
   undo: () => void;
   redo: () => void;
+  /** 현재 갈래의 index 상태로 이동 (-1 = 가장 오래된 상태) */
+  jumpTo: (index: number) => boolean;
+  /** 항목이 적용된 상태로 이동 (다른 갈래의 항목이면 그 갈래로 전환) */
+  jumpToEntry: (entryId: string | null) => boolean;
+  addCheckpoint: (name: string) => string;
+  renameCheckpoint: (id: string, name: string) => void;
+  removeCheckpoint: (id: string) => void;
+  jumpToCheckpoint: (id: string) => boolean;
   clearHistory: () => void;
   resetHistory: () => void;
+  getSnapshot: () => HistorySnapshot;
+  restoreSnapshot: (snapshot: HistorySnapshot) => void;
   getCurrentIndex: () => number;
   getHistorySize: () => number;
 }
 
 // ── AnnotationStore 직접 import (ESM 호환) ──
 import { useAnnotationStore } from './AnnotationStore';
+import { usePageStore } from './PageStore';
 
 function getAnnotationStore() {
   return useAnnotationStore.getState();
 }
 
-// ── 패치 적용 함수 ──
+/** 히스토리에 저장할 래스터 레이어 (연산이 있으면 canvasData 캐시는 버림) */
+export function snapshotRasterLayer(layer: RasterLayer): RasterLayer {
+  if (layer.operations.length === 0) return { ...layer };
+  return { ...layer, canvasData: undefined, operations: [...layer.operations] };
+}
+
+/** 래스터 레이어를 목표 상태로 (null이면 삭제) */
+function applyRasterState(action: RasterAction, target: RasterLayer | null): void {
+  const pages = usePageStore.getState();
+  const exists = pages.getPage(action.pageId)?.layers.rasters.some(r => r.id === action.layerId);
+
+  if (!target) {
+    pages.removeRasterLayer(action.pageId, action.layerId);
+  } else if (exists) {
+    // 스냅샷에 없는 canvasData 캐시는 무효화
+    pages.updateRasterLayer(action.pageId, action.layerId, { canvasData: undefined, ...target });
+  } else {
+    pages.addRasterLayer(action.pageId, target, action.index);
+  }
+}
+
+/** 페이지를 목표 상태로 (null이면 삭제) */
+function applyPageState(action: PageAction, target: Page | null): void {
+  const pages = usePageStore.getState();
+
+  if (!target) {
+    pages.removePage(action.pageId);
+  } else if (pages.getPage(action.pageId)) {
+    // 스냅샷에 없는 자르기/크기 변경은 해제
+    pages.updatePage(action.pageId, { cropBox: undefined, frame: undefined, ...target });
+  } else {
+    pages.addPage(target, action.index);
+  }
+}
 
-function applyActions(actions: AnnotationAction[], direction: 'undo' | 'redo'): void {
+/** 주석 추가/삭제/수정 되돌리기 */
+function applyAnnotationAction(action: AnnotationAction, direction: HistoryDirection): void {
   const store = getAnnotationStore();
 
-  for (const action of actions) {
-    if (direction === 'undo') {
-      switch (action.type) {
-        case 'add':
-          store.removeAnnotation(action.annotationId);
-          break;
-        case 'remove':
-          if (action.before) {
-            store.addAnnotationToPage(action.pageId, action.before);
-          }
-          break;
-        case 'update':
-          if (action.before) {
-            store.updateAnnotation(action.annotationId, action.before);
-          }
-          break;
-      }
-    } else {
-      switch (action.type) {
-        case 'add':
-          if (action.after) {
-            store.addAnnotationToPage(action.pageId, action.after);
-          }
-          break;
-        case 'remove':
-          store.removeAnnotation(action.annotationId);
-          break;
-        case 'update':
-          if (action.after) {
-            store.updateAnnotation(action.annotationId, action.after);
-          }
-          break;
-      }
+  if (direction === 'undo') {
+    switch (action.type) {
+      case 'add':
+        store.removeAnnotation(action.annotationId);
+        break;
+      case 'remove':
+        if (action.before) {
+          store.addAnnotationToPage(action.pageId, action.before);
+        }
+        break;
+      case 'update':
+        if (action.before) {
+          store.updateAnnotation(action.annotationId, action.before);
+        }
+        break;
+    }
+  } else {
+    switch (action.type) {
+      case 'add':
+        if (action.after) {
+          store.addAnnotationToPage(action.pageId, action.after);
+        }
+        break;
+      case 'remove':
+        store.removeAnnotation(action.annotationId);
+        break;
+      case 'update':
+        if (action.after) {
+          store.updateAnnotation(action.annotationId, action.after);
+        }
+        break;
     }
   }
 }
 
+// ── 동작 처리기 ──
+
+const ACTION_HANDLERS: Partial<{ [K in HistoryActionType]: HistoryActionHandler<Extract<HistoryAction, { type: K }>> }> = {
+  add: applyAnnotationAction,
+  remove: applyAnnotationAction,
+  update: applyAnnotationAction,
+  raster: (action, direction) => applyRasterState(action, direction === 'undo' ? action.before : action.after),
+  page: (action, direction) => applyPageState(action, direction === 'undo' ? action.before : action.after),
+  pageOrder: (action, direction) => usePageStore.getState().reorderPages(direction === 'undo' ? action.before : action.after),
+};
+
+/**
+ * 다른 스토어의 동작 처리기 등록 (HistoryStore가 그 스토어를 import하지 않도록)
+ */
+export function registerHistoryHandler<K extends HistoryActionType>(
+  type: K,
+  handler: HistoryActionHandler<Extract<HistoryAction, { type: K }>>
+): void {
+  (ACTION_HANDLERS as Record<string, unknown>)[type] = handler;
+}
+
+/** undo는 기록의 역순으로 적용 (새 페이지의 주석 → 페이지 순으로 제거) */
+function applyActions(actions: HistoryAction[], direction: HistoryDirection): void {
+  const ordered = direction === 'undo' ? [...actions].reverse() : actions;
+  for (const action of ordered) {
+    const handler = ACTION_HANDLERS[action.type] as HistoryActionHandler | undefined;
+    if (!handler) throw new Error(`No history handler for "${action.type}"`);
+    handler(action, direction);
+  }
+}
+
+// ── 트랜잭션 / 메모리 ──
+
+/** 같은 대상의 동작을 구분하는 키 */
+function actionKey(action: HistoryAction): string {
+  switch (action.type) {
+    case 'add':
+    case 'remove':
+    case 'update':
+      return `annotation:${action.annotationId}`;
+    case 'raster':
+      return `raster:${action.pageId}:${action.layerId}`;
+    case 'page':
+      return `page:${action.pageId}`;
+    case 'pageOrder':
+    case 'rotation':
+      return action.type;
+  }
+}
+
+/** 처음 before와 마지막 after로 합친 동작 (변화가 없으면 null) */
+function mergeActions(first: HistoryAction, last: HistoryAction): HistoryAction | null {
+  switch (first.type) {
+    case 'add':
+    case 'remove':
+    case 'update': {
+      const after = (last as AnnotationAction).after;
+      if (!first.before && !after) return null;
+      const type = !first.before ? 'add' : !after ? 'remove' : 'update';
+      return { ...first, type, after };
+    }
+    case 'raster':
+    case 'page': {
+      const after = (last as RasterAction | PageAction).after;
+      if (!first.before && !after) return null;
+      return { ...first, after } as HistoryAction;
+    }
+    case 'pageOrder': {
+      const after = (last as PageOrderAction).after;
+      return first.before.join('\n') === after.join('\n') ? null : { ...first, after };
+    }
+    case 'rotation': {
+      const after = (last as RotationAction).after;
+      return first.before === after ? null : { ...first, after };
+    }
+  }
+}
+
+/**
+ * 트랜잭션에서 모은 동작을 대상별로 하나로 합침 (첫 등장 순서 유지)
+ */
+export function coalesceActions(actions: HistoryAction[]): HistoryAction[] {
+  const groups = new Map<string, { first: HistoryAction; last: HistoryAction }>();
+  for (const action of actions) {
+    const key = actionKey(action);
+    const group = groups.get(key);
+    if (group) group.last = action;
+    else groups.set(key, { first: action, last: action });
+  }
+
+  const merged: HistoryAction[] = [];
+  for (const { first, last } of groups.values()) {
+    const action = mergeActions(first, last);
+    if (action) merged.push(action);
+  }
+  return merged;
+}
+
+/** 항목의 대략적인 메모리 사용량 (JSON 길이 × UTF-16) */
+export function estimateEntrySize(entry: Pick<HistoryEntry, 'description' | 'forward' | 'backward' | 'actions'>): number {
+  return (
+    entry.description.length +
+    JSON.stringify(entry.actions).length +
+    JSON.stringify(entry.forward).length +
+    JSON.stringify(entry.backward).length
+  ) * 2;
+}
+
+interface OpenTransaction {
+  description: string;
+  actions: HistoryAction[];
+  depth: number;
+}
+
+/** 진행 중인 트랜잭션 (드래그마다 상태를 바꾸지 않도록 스토어 밖에 둠) */
+let openTransaction: OpenTransaction | null = null;
+
 /**
  * JSON Patch → AnnotationAction 변환 (기존 API 호환)
  */
@@ -158,27 +410,128 @@ function syncCanFlags(state: { canUndo: boolean; canRedo: boolean; history: { cu
   state.canRedo = state.history.currentIndex < state.entries.length - 1;
 }
 
-/** addHistoryPatch와 pushAction의 공통 엔트리 삽입 로직 */
-function pushEntry(state: any, entry: HistoryEntry) {
-  state.entries = state.entries.slice(0, state.history.currentIndex + 1);
-  state.entries.push(entry);
-  state.history.currentIndex = state.entries.length - 1;
+type TimelineState = Pick<HistoryStore, 'entries' | 'branches' | 'checkpoints' | 'history' | 'memoryUsage'>;
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** 항목 크기 합계 */
+function totalSize(entries: HistoryEntry[]): number {
+  return entries.reduce((sum, e) => sum + (e.size ?? 0), 0);
+}
 
-  // 기존 patches 동기화 (호환용)
-  state.history.patches = state.entries.map((e: HistoryEntry) => ({
+function withSize(entry: HistoryEntry): HistoryEntry {
+  return { ...entry, size: entry.size ?? estimateEntrySize(entry) };
+}
+
+/** 현재 갈래와 보관 중인 갈래 전체의 크기 */
+function timelineSize(state: TimelineState): number {
+  return totalSize(state.entries) + state.branches.reduce((sum, b) => sum + totalSize(b.entries), 0);
+}
+
+/** 기존 patches 동기화 (호환용) */
+function syncPatches(state: TimelineState) {
+  state.history.patches = state.entries.map((e) => ({
     id: e.id,
     description: e.description,
     timestamp: e.timestamp,
     forward: e.forward as unknown[],
     backward: e.backward as unknown[],
   }));
+}
+
+/** 갈래와 그 갈래에서 다시 갈라진 갈래, 그 안을 가리키는 시점 제거 */
+function dropBranch(state: TimelineState, branchId: string) {
+  const branch = state.branches.find(b => b.id === branchId);
+  if (!branch) return;
+
+  const ids = new Set(branch.entries.map(e => e.id));
+  state.branches = state.branches.filter(b => b.id !== branchId);
+  state.checkpoints = state.checkpoints.filter(c => c.entryId === null || !ids.has(c.entryId));
+  for (const child of state.branches.filter(b => b.parentId !== null && ids.has(b.parentId))) {
+    dropBranch(state, child.id);
+  }
+}
+
+/**
+ * 메모리 한도를 넘으면 가장 오래된 적용된 항목부터 버림 (마지막 항목은 항상 유지)
+ * 버린 항목이 적용된 상태가 새 가장 오래된 상태(null)가 된다. 그래도 넘으면 오래된 갈래를 버림.
+ */
+function trimToBudget(state: TimelineState) {
+  let usage = timelineSize(state);
+  while (usage > state.history.memoryBudget && state.entries.length > 1 && state.history.currentIndex >= 0) {
+    const oldestId = state.entries[0].id;
+
+    // 이전의 가장 오래된 상태는 더 이상 도달할 수 없음
+    for (const branch of state.branches.filter(b => b.parentId === null)) dropBranch(state, branch.id);
+    state.checkpoints = state.checkpoints.filter(c => c.entryId !== null);
+    state.branches.forEach(b => { if (b.parentId === oldestId) b.parentId = null; });
+    state.checkpoints.forEach(c => { if (c.entryId === oldestId) c.entryId = null; });
 
-  if (state.entries.length > state.history.maxSize) {
     state.entries.shift();
     state.history.patches.shift();
     state.history.currentIndex--;
+    usage = timelineSize(state);
+  }
+
+  while (usage > state.history.memoryBudget && state.branches.length > 0) {
+    const oldest = state.branches.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+    dropBranch(state, oldest.id);
+    usage = timelineSize(state);
+  }
+  state.memoryUsage = usage;
+}
+
+/** addHistoryPatch와 pushAction의 공통 엔트리 삽입 로직 */
+function pushEntry(state: TimelineState & Pick<HistoryStore, 'canUndo' | 'canRedo'>, entry: HistoryEntry) {
+  // 되돌린 항목들은 버리지 않고 갈래로 보관
+  const tail = state.entries.slice(state.history.currentIndex + 1);
+  if (tail.length > 0) {
+    state.branches.push({
+      id: newId('branch'),
+      parentId: state.entries[state.history.currentIndex]?.id ?? null,
+      entries: tail,
+      createdAt: Date.now(),
+    });
+  }
+
+  state.entries = state.entries.slice(0, state.history.currentIndex + 1);
+  state.entries.push(withSize(entry));
+  state.history.currentIndex = state.entries.length - 1;
+
+  syncPatches(state);
+  trimToBudget(state);
+  syncCanFlags(state);
+}
+
+/**
+ * 항목에 도달하려면 차례로 전환해야 하는 갈래 ID들 (바깥 갈래부터)
+ * 현재 갈래에 있으면 [], 어디에도 없으면 null
+ */
+function branchPathTo(state: TimelineState, entryId: string | null): string[] | null {
+  if (entryId === null || state.entries.some(e => e.id === entryId)) return [];
+
+  const branch = state.branches.find(b => b.entries.some(e => e.id === entryId));
+  if (!branch) return null;
+  const parentPath = branchPathTo(state, branch.parentId);
+  return parentPath && [...parentPath, branch.id];
+}
+
+/** 현재 위치(갈라진 지점) 뒤를 갈래와 맞바꿈 */
+function swapBranch(state: TimelineState & Pick<HistoryStore, 'canUndo' | 'canRedo'>, branchId: string) {
+  const branch = state.branches.find(b => b.id === branchId);
+  if (!branch) return;
+
+  const index = state.history.currentIndex;
+  const tail = state.entries.slice(index + 1);
+  state.branches = state.branches.filter(b => b.id !== branchId);
+  if (tail.length > 0) {
+    state.branches.push({ id: newId('branch'), parentId: branch.parentId, entries: tail, createdAt: Date.now() });
   }
+  state.entries = [...state.entries.slice(0, index + 1), ...branch.entries];
 
+  syncPatches(state);
   syncCanFlags(state);
 }
 
@@ -189,20 +542,23 @@ export const useHistoryStore = create<HistoryStore>()(
     history: {
       patches: [],
       currentIndex: -1,
-      maxSize: 50,
+      memoryBudget: HISTORY_MEMORY_BUDGET,
     },
     entries: [],
     isHistoryLoading: false,
     historyError: null,
     canUndo: false,
     canRedo: false,
+    branches: [],
+    checkpoints: [],
+    memoryUsage: 0,
 
     addHistoryPatch: (description, forward, backward) => {
       const actions = extractActionsFromPatches(forward, backward);
 
       set((state) => {
         pushEntry(state, {
-          id: `patch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: newId('patch'),
           description,
           timestamp: Date.now(),
           forward,
@@ -213,9 +569,14 @@ export const useHistoryStore = create<HistoryStore>()(
     },
 
     pushAction: (description, actions) => {
+      if (openTransaction) {
+        openTransaction.actions.push(...actions);
+        return;
+      }
+
       set((state) => {
         pushEntry(state, {
-          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: newId('action'),
           description,
           timestamp: Date.now(),
           forward: [],
@@ -225,8 +586,49 @@ export const useHistoryStore = create<HistoryStore>()(
       });
     },
 
+    beginTransaction: (description) => {
+      if (openTransaction) {
+        openTransaction.depth++;
+        return;
+      }
+      openTransaction = { description, actions: [], depth: 1 };
+    },
+
+    commitTransaction: () => {
+      if (!openTransaction) return;
+      if (--openTransaction.depth > 0) return;
+
+      const { description, actions } = openTransaction;
+      openTransaction = null;
+      const merged = coalesceActions(actions);
+      if (merged.length > 0) get().pushAction(description, merged);
+    },
+
+    cancelTransaction: () => {
+      if (!openTransaction) return;
+      const { actions } = openTransaction;
+      openTransaction = null;
+      try {
+        applyActions(actions, 'undo');
+      } catch (error) {
+        console.error('[HistoryStore] Transaction rollback failed:', error);
+      }
+    },
+
+    isInTransaction: () => openTransaction !== null,
+
+    setMemoryBudget: (bytes) => {
+      set((state) => {
+        state.history.memoryBudget = bytes;
+        trimToBudget(state);
+        syncCanFlags(state);
+      });
+    },
+
     undo: () => {
       const state = get();
+      // 드래그 등 진행 중인 트랜잭션이 끝난 뒤에만
+      if (openTransaction) return;
       if (state.history.currentIndex < 0) return;
 
       const entry = state.entries[state.history.currentIndex];
@@ -252,6 +654,7 @@ export const useHistoryStore = create<HistoryStore>()(
 
     redo: () => {
       const state = get();
+      if (openTransaction) return;
       if (state.history.currentIndex >= state.entries.length - 1) return;
 
       const nextIndex = state.history.currentIndex + 1;
@@ -275,19 +678,110 @@ export const useHistoryStore = create<HistoryStore>()(
       });
     },
 
+    jumpTo: (index) => {
+      const target = Math.max(-1, Math.min(index, get().entries.length - 1));
+      while (get().history.currentIndex !== target) {
+        const before = get().history.currentIndex;
+        if (before > target) get().undo();
+        else get().redo();
+        // 실패했거나 트랜잭션 중
+        if (get().history.currentIndex === before) return false;
+      }
+      return true;
+    },
+
+    jumpToEntry: (entryId) => {
+      if (openTransaction) return false;
+      const path = branchPathTo(get(), entryId);
+      if (!path) return false;
+
+      for (const branchId of path) {
+        const { entries, branches } = get();
+        const branch = branches.find(b => b.id === branchId);
+        if (!branch) return false;
+        const parentIndex = branch.parentId === null ? -1 : entries.findIndex(e => e.id === branch.parentId);
+        if (!get().jumpTo(parentIndex)) return false;
+        set((state) => swapBranch(state, branchId));
+      }
+
+      const index = entryId === null ? -1 : get().entries.findIndex(e => e.id === entryId);
+      return get().jumpTo(index);
+    },
+
+    addCheckpoint: (name) => {
+      const id = newId('checkpoint');
+      set((state) => {
+        state.checkpoints.push({
+          id,
+          name,
+          entryId: state.entries[state.history.currentIndex]?.id ?? null,
+          createdAt: Date.now(),
+        });
+      });
+      return id;
+    },
+
+    renameCheckpoint: (id, name) => {
+      set((state) => {
+        const checkpoint = state.checkpoints.find(c => c.id === id);
+        if (checkpoint) checkpoint.name = name;
+      });
+    },
+
+    removeCheckpoint: (id) => {
+      set((state) => {
+        state.checkpoints = state.checkpoints.filter(c => c.id !== id);
+      });
+    },
+
+    jumpToCheckpoint: (id) => {
+      const checkpoint = get().checkpoints.find(c => c.id === id);
+      return checkpoint ? get().jumpToEntry(checkpoint.entryId) : false;
+    },
+
     clearHistory: () => {
       set((state) => {
         state.entries = [];
+        state.branches = [];
+        state.checkpoints = [];
         state.history.patches = [];
         state.history.currentIndex = -1;
+        state.memoryUsage = 0;
         syncCanFlags(state);
       });
     },
 
     resetHistory: () => {
       set((state) => {
+        openTransaction = null;
         state.entries = [];
-        state.history = { patches: [], currentIndex: -1, maxSize: 50 };
+        state.branches = [];
+        state.checkpoints = [];
+        state.history = { patches: [], currentIndex: -1, memoryBudget: HISTORY_MEMORY_BUDGET };
+        state.memoryUsage = 0;
+        syncCanFlags(state);
+      });
+    },
+
+    getSnapshot: () => {
+      const state = get();
+      return {
+        entries: state.entries,
+        currentIndex: state.history.currentIndex,
+        branches: state.branches,
+        checkpoints: state.checkpoints,
+      };
+    },
+
+    restoreSnapshot: (snapshot) => {
+      set((state) => {
+        state.entries = snapshot.entries.map(withSize);
+        state.history.currentIndex = Math.min(snapshot.currentIndex, snapshot.entries.length - 1);
+        state.branches = (snapshot.branches ?? []).map(b => ({ ...b, entries: b.entries.map(withSize) }));
+        state.checkpoints = snapshot.checkpoints ?? [];
+        syncPatches(state);
+        state.historyError = null;
+        trimToBudget(state);
         syncCanFlags(state);
       });
     },
@@ -7,6 +7,8 @@ import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { loadPdfFile } from '../../core/pdf/pdfLoader';
+import type { PdfSignatureInfo } from '../../core/signing/pdfSignatureVerifier';
+import { registerHistoryHandler, useHistoryStore } from './HistoryStore';
 
 interface PDFStore {
   // PDF state
@@ -25,6 +27,9 @@ interface PDFStore {
   /** Global rotation applied to all pages (0, 90, 180, 270) */
   globalRotation: number;
 
+  /** Digital signatures of the loaded file (verified on load) */
+  signatures: PdfSignatureInfo[];
+
   // Loading state
   isLoading: boolean;
   error: string | null;
@@ -54,8 +59,11 @@ interface PDFStore {
   /** Set error */
   setError: (error: string | null) => void;
 
-  /** Rotate all pages clockwise (+90) or counter-clockwise (-90) */
+  /** Rotate all pages clockwise (+90) or counter-clockwise (-90), recorded in history */
   rotateAll: (delta: number) => void;
+
+  /** Set global rotation directly (no history) */
+  setGlobalRotation: (rotation: number) => void;
 }
 
 export const usePDFStore = create<PDFStore>()(
@@ -66,6 +74,7 @@ export const usePDFStore = create<PDFStore>()(
     isLoading: false,
     error: null,
     globalRotation: 0,
+    signatures: [],
 
     // ============================================
     // PDF Actions
@@ -75,6 +84,7 @@ export const usePDFStore = create<PDFStore>()(
       set((state) => {
         state.isLoading = true;
         state.error = null;
+        state.signatures = [];
       });
 
       try {
@@ -92,6 +102,7 @@ export const usePDFStore = create<PDFStore>()(
             modificationDate: new Date(result.document?.modifiedAt || Date.now()),
             pageCount: result.document?.pages?.length || 0
           };
+          state.signatures = result.signatures;
           state.isLoading = false;
         });
       } catch (error) {
@@ -112,6 +123,7 @@ export const usePDFStore = create<PDFStore>()(
       set((state) => {
         state.pdfProxy = null;
         state.pdfInfo = null;
+        state.signatures = [];
         state.error = null;
       });
     },
@@ -139,9 +151,23 @@ export const usePDFStore = create<PDFStore>()(
     },
 
     rotateAll: (delta: number) => {
+      const before = get().globalRotation;
+      const after = (before + delta + 360) % 360;
+      if (after === before) return;
+
+      get().setGlobalRotation(after);
+      useHistoryStore.getState().pushAction('전체 회전', [{ type: 'rotation', before, after }]);
+    },
+
+    setGlobalRotation: (rotation: number) => {
       set((state) => {
-        state.globalRotation = (state.globalRotation + delta + 360) % 360;
+        state.globalRotation = rotation;
       });
     },
   }))
 );
+
+// 전체 회전 되돌리기
+registerHistoryHandler('rotation', (action, direction) => {
+  usePDFStore.getState().setGlobalRotation(direction === 'undo' ? action.before : action.after);
+});
@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Page } from '../../core/model/types';
+import type { Page, RasterLayer } from '../../core/model/types';
 import { createPage } from '../../core/model/factories';
 
 interface PageStore {
@@ -21,8 +21,8 @@ interface PageStore {
   /** Set current page */
   setCurrentPage: (pageId: string | null) => void;
 
-  /** Add new page */
-  addPage: (page: Page) => void;
+  /** Add new page (at the end, or at index) */
+  addPage: (page: Page, index?: number) => void;
 
   /** Set all pages (replace) */
   setPages: (pages: Page[]) => void;
@@ -48,6 +48,19 @@ interface PageStore {
   /** Insert PDF pages */
   insertPdfPages: (afterPageId: string, pdfPages: Page[]) => void;
 
+  // ============================================
+  // Raster Layer Actions
+  // ============================================
+
+  /** Add raster layer (on top, or at index) */
+  addRasterLayer: (pageId: string, layer: RasterLayer, index?: number) => void;
+
+  /** Update raster layer */
+  updateRasterLayer: (pageId: string, layerId: string, updates: Partial<RasterLayer>) => void;
+
+  /** Remove raster layer */
+  removeRasterLayer: (pageId: string, layerId: string) => void;
+
   // ============================================
   // Utility Actions
   // ============================================
@@ -82,9 +95,9 @@ export const usePageStore = create<PageStore>()(
       });
     },
 
-    addPage: (page: Page) => {
+    addPage: (page: Page, index?: number) => {
       set((state) => {
-        state.pages.push(page);
+        state.pages.splice(index ?? state.pages.length, 0, page);
         state.currentPageId = page.id;
       });
     },
@@ -199,6 +212,38 @@ export const usePageStore = create<PageStore>()(
       });
     },
 
+    // ============================================
+    // Raster Layer Actions
+    // ============================================
+
+    addRasterLayer: (pageId: string, layer: RasterLayer, index?: number) => {
+      set((state) => {
+        const page = state.pages.find(p => p.id === pageId);
+        if (!page) return;
+        const rasters = page.layers.rasters;
+        if (rasters.some(r => r.id === layer.id)) return;
+        rasters.splice(index ?? rasters.length, 0, { ...layer, pageId });
+      });
+    },
+
+    updateRasterLayer: (pageId: string, layerId: string, updates: Partial<RasterLayer>) => {
+      set((state) => {
+        const layer = state.pages.find(p => p.id === pageId)?.layers.rasters.find(r => r.id === layerId);
+        if (layer) {
+          Object.assign(layer, updates);
+        }
+      });
+    },
+
+    removeRasterLayer: (pageId: string, layerId: string) => {
+      set((state) => {
+        const page = state.pages.find(p => p.id === pageId);
+        if (page) {
+          page.layers.rasters = page.layers.rasters.filter(r => r.id !== layerId);
+        }
+      });
+    },
+
     // ============================================
     // Utility Actions
     // ============================================
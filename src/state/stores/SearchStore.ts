@@ -0,0 +1,146 @@
+/**
+ * Search Store - 문서 검색 상태 관리
+ * 검색어, 옵션, 결과, 현재 히트 관리 (검색 실행은 useDocumentSearch)
+ */
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { DEFAULT_SEARCH_OPTIONS } from '../../core/search/textSearch';
+import type { SearchHit, SearchOptions } from '../../core/search/textSearch';
+
+interface SearchStore {
+  // 검색 상태
+  isOpen: boolean;
+  query: string;
+  options: SearchOptions;
+  hits: SearchHit[];
+  activeIndex: number;
+  isSearching: boolean;
+  /** 잘못된 정규식 등 */
+  searchError: string | null;
+  /** 입력창 포커스 요청 카운터 (Ctrl+F를 누를 때마다 증가) */
+  focusRequest: number;
+
+  // ============================================
+  // Search Actions
+  // ============================================
+
+  /** 검색 패널 열기 */
+  openSearch: () => void;
+
+  /** 검색 패널 닫기 (결과/하이라이트 제거) */
+  closeSearch: () => void;
+
+  /** 검색어 설정 */
+  setQuery: (query: string) => void;
+
+  /** 검색 옵션 설정 */
+  setOptions: (options: Partial<SearchOptions>) => void;
+
+  /** 검색 시작 */
+  startSearch: () => void;
+
+  /** 검색 결과 설정 (이전 현재 히트가 있으면 유지) */
+  setResults: (hits: SearchHit[], error?: string | null) => void;
+
+  // ============================================
+  // Navigation Actions
+  // ============================================
+
+  /** 히트 선택 */
+  setActiveIndex: (index: number) => void;
+
+  /** 다음 히트 (마지막에서 처음으로) */
+  nextHit: () => void;
+
+  /** 이전 히트 (처음에서 마지막으로) */
+  prevHit: () => void;
+}
+
+export const useSearchStore = create<SearchStore>()(
+  immer((set, get) => ({
+    // 초기 상태
+    isOpen: false,
+    query: '',
+    options: { ...DEFAULT_SEARCH_OPTIONS },
+    hits: [],
+    activeIndex: -1,
+    isSearching: false,
+    searchError: null,
+    focusRequest: 0,
+
+    // ============================================
+    // Search Actions
+    // ============================================
+
+    openSearch: () => {
+      set((state) => {
+        state.isOpen = true;
+        state.focusRequest += 1;
+      });
+    },
+
+    closeSearch: () => {
+      set((state) => {
+        state.isOpen = false;
+        state.hits = [];
+        state.activeIndex = -1;
+        state.isSearching = false;
+        state.searchError = null;
+      });
+    },
+
+    setQuery: (query: string) => {
+      set((state) => {
+        state.query = query;
+      });
+    },
+
+    setOptions: (options: Partial<SearchOptions>) => {
+      set((state) => {
+        state.options = { ...state.options, ...options };
+      });
+    },
+
+    startSearch: () => {
+      set((state) => {
+        state.isSearching = true;
+        state.searchError = null;
+      });
+    },
+
+    setResults: (hits: SearchHit[], error: string | null = null) => {
+      set((state) => {
+        // 재검색(주석 편집 등) 시 현재 히트 유지
+        const activeId = state.hits[state.activeIndex]?.id;
+        const keptIndex = activeId ? hits.findIndex((hit) => hit.id === activeId) : -1;
+        state.hits = hits;
+        state.activeIndex = keptIndex >= 0 ? keptIndex : hits.length > 0 ? 0 : -1;
+        state.isSearching = false;
+        state.searchError = error;
+      });
+    },
+
+    // ============================================
+    // Navigation Actions
+    // ============================================
+
+    setActiveIndex: (index: number) => {
+      set((state) => {
+        if (index >= 0 && index < state.hits.length) state.activeIndex = index;
+      });
+    },
+
+    nextHit: () => {
+      const { hits, activeIndex } = get();
+      if (hits.length === 0) return;
+      get().setActiveIndex((activeIndex + 1) % hits.length);
+    },
+
+    prevHit: () => {
+      const { hits, activeIndex } = get();
+      if (hits.length === 0) return;
+      get().setActiveIndex((activeIndex - 1 + hits.length) % hits.length);
+    },
+  }))
+);
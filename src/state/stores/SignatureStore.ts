@@ -0,0 +1,100 @@
+/**
+ * Signature Store - 저장한 서명/이니셜과 서명 다이얼로그 상태
+ * 서명 도구는 고른 서명(activeId)을 클릭한 곳에 놓거나 자리 표시를 채운다.
+ */
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { normalizeSavedSignature } from '../../core/signatures/signatureLibrary';
+import type { SavedSignature } from '../../core/signatures/signatureLibrary';
+
+// localStorage로 서명 목록 유지
+const SIGNATURES_KEY = 'justflux-signatures';
+
+function loadSignatures(): SavedSignature[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(SIGNATURES_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .map(normalizeSavedSignature)
+      .filter((s): s is SavedSignature => s !== null);
+  } catch {
+    return [];
+  }
+}
+
+function saveSignatures(signatures: SavedSignature[]) {
+  try {
+    localStorage.setItem(SIGNATURES_KEY, JSON.stringify(signatures));
+  } catch (error) {
+    console.warn('⚠️ 서명 저장 실패:', error);
+  }
+}
+
+interface SignatureStore {
+  signatures: SavedSignature[];
+  /** 서명 도구와 자리 표시 채우기에 쓰는 서명 */
+  activeId: string | null;
+  isDialogOpen: boolean;
+
+  /** 서명 추가 후 고름 (저장됨) */
+  addSignature: (signature: SavedSignature) => void;
+
+  /** 서명 삭제 (저장됨) */
+  removeSignature: (id: string) => void;
+
+  /** 서명 고르기 */
+  setActive: (id: string | null) => void;
+
+  /** 서명 다이얼로그 열기 */
+  openDialog: () => void;
+
+  /** 서명 다이얼로그 닫기 */
+  closeDialog: () => void;
+}
+
+export const useSignatureStore = create<SignatureStore>()(
+  immer((set, get) => {
+    const signatures = loadSignatures();
+    return {
+      signatures,
+      activeId: signatures.find((s) => s.kind === 'signature')?.id ?? signatures[0]?.id ?? null,
+      isDialogOpen: false,
+
+      addSignature: (signature: SavedSignature) => {
+        set((state) => {
+          state.signatures.push(signature);
+          state.activeId = signature.id;
+        });
+        saveSignatures(get().signatures);
+      },
+
+      removeSignature: (id: string) => {
+        set((state) => {
+          state.signatures = state.signatures.filter((s) => s.id !== id);
+          if (state.activeId === id) state.activeId = state.signatures[0]?.id ?? null;
+        });
+        saveSignatures(get().signatures);
+      },
+
+      setActive: (id: string | null) => {
+        set((state) => {
+          state.activeId = id;
+        });
+      },
+
+      openDialog: () => {
+        set((state) => {
+          state.isDialogOpen = true;
+        });
+      },
+
+      closeDialog: () => {
+        set((state) => {
+          state.isDialogOpen = false;
+        });
+      },
+    };
+  })
+);
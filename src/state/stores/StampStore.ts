@@ -0,0 +1,96 @@
+/**
+ * Stamp Store - 사용자 스탬프 라이브러리
+ * 사용자가 만든 스탬프 정의 목록 (기본 제공 스탬프는 BUILTIN_STAMPS, 저장하지 않음)
+ */
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { normalizeStampDefinition } from '../../core/stamps/stampLibrary';
+import type { StampDefinition } from '../../core/stamps/stampLibrary';
+
+// localStorage로 스탬프 라이브러리 유지
+const STAMPS_KEY = 'justflux-stamps';
+
+function loadStamps(): StampDefinition[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(STAMPS_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .map(normalizeStampDefinition)
+      .filter((s): s is StampDefinition => s !== null);
+  } catch {
+    return [];
+  }
+}
+
+function saveStamps(stamps: StampDefinition[]) {
+  try {
+    localStorage.setItem(STAMPS_KEY, JSON.stringify(stamps));
+  } catch (error) {
+    // 이미지 스탬프가 많으면 저장 용량을 넘을 수 있음
+    console.warn('⚠️ 스탬프 라이브러리 저장 실패:', error);
+  }
+}
+
+interface StampStore {
+  stamps: StampDefinition[];
+
+  /** 스탬프 추가 (저장됨) */
+  addStamp: (stamp: StampDefinition) => void;
+
+  /** 스탬프 수정 (저장됨) */
+  updateStamp: (id: string, updates: Partial<StampDefinition>) => void;
+
+  /** 스탬프 삭제 (저장됨) */
+  removeStamp: (id: string) => void;
+
+  /**
+   * 묶음 파일의 스탬프 추가 (같은 id는 덮어씀)
+   * @returns 추가/갱신한 개수
+   */
+  importStamps: (stamps: StampDefinition[]) => number;
+}
+
+export const useStampStore = create<StampStore>()(
+  immer((set, get) => ({
+    stamps: loadStamps(),
+
+    addStamp: (stamp: StampDefinition) => {
+      set((state) => {
+        state.stamps.push(stamp);
+      });
+      saveStamps(get().stamps);
+    },
+
+    updateStamp: (id: string, updates: Partial<StampDefinition>) => {
+      set((state) => {
+        const stamp = state.stamps.find((s) => s.id === id);
+        if (stamp) Object.assign(stamp, updates);
+      });
+      saveStamps(get().stamps);
+    },
+
+    removeStamp: (id: string) => {
+      set((state) => {
+        state.stamps = state.stamps.filter((s) => s.id !== id);
+      });
+      saveStamps(get().stamps);
+    },
+
+    importStamps: (stamps: StampDefinition[]) => {
+      set((state) => {
+        for (const stamp of stamps) {
+          const index = state.stamps.findIndex((s) => s.id === stamp.id);
+          if (index >= 0) {
+            state.stamps[index] = stamp;
+          } else {
+            state.stamps.push(stamp);
+          }
+        }
+      });
+      saveStamps(get().stamps);
+      return stamps.length;
+    },
+  }))
+);
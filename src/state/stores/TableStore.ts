@@ -0,0 +1,42 @@
+/**
+ * Table Store - 표 주석 셀 선택 상태
+ * 표 컴포넌트에서 고른 셀 범위를 속성 패널(행/열, 병합, 테두리)과 붙여넣기가 함께 쓴다.
+ */
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { TableCellRange } from '../../core/table/tableModel';
+
+interface TableStore {
+  /** 셀을 고른 표 주석 id */
+  tableId: string | null;
+  range: TableCellRange | null;
+
+  /** 셀 범위 선택 */
+  selectCells: (tableId: string, range: TableCellRange) => void;
+
+  /** 셀 선택 해제 (tableId를 주면 그 표의 선택일 때만) */
+  clearCells: (tableId?: string) => void;
+}
+
+export const useTableStore = create<TableStore>()(
+  immer((set) => ({
+    tableId: null,
+    range: null,
+
+    selectCells: (tableId: string, range: TableCellRange) => {
+      set((state) => {
+        state.tableId = tableId;
+        state.range = range;
+      });
+    },
+
+    clearCells: (tableId?: string) => {
+      set((state) => {
+        if (tableId && state.tableId !== tableId) return;
+        state.tableId = null;
+        state.range = null;
+      });
+    },
+  }))
+);
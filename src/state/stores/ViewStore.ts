@@ -5,6 +5,7 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import type { RulerUnit } from '../../core/model/types';
 
 // ── 상수 ──
 const MIN_SCALE = 0.1;
@@ -13,6 +14,35 @@ const ZOOM_FACTOR = 1.2;
 const DEFAULT_SIDEBAR_WIDTH = 280;
 const DEFAULT_HEADER_HEIGHT = 48;
 const FIT_MARGIN = 0.9; // 90% 여백
+const DEFAULT_GRID_SIZE = 10; // pt
+
+type GuideOptions = Pick<ViewState, 'showGrid' | 'showRulers' | 'snapToGrid' | 'snapToObjects' | 'gridSize' | 'rulerUnit'>;
+
+// localStorage로 격자/눈금자/스냅 설정 유지
+const GUIDE_OPTIONS_KEY = 'justflux-view-guides';
+const DEFAULT_GUIDE_OPTIONS: GuideOptions = {
+  showGrid: false,
+  showRulers: false,
+  snapToGrid: false,
+  snapToObjects: true,
+  gridSize: DEFAULT_GRID_SIZE,
+  rulerUnit: 'px',
+};
+
+function loadGuideOptions(): GuideOptions {
+  if (typeof window === 'undefined') return DEFAULT_GUIDE_OPTIONS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(GUIDE_OPTIONS_KEY) ?? '{}');
+    return { ...DEFAULT_GUIDE_OPTIONS, ...saved };
+  } catch {
+    return DEFAULT_GUIDE_OPTIONS;
+  }
+}
+
+function saveGuideOptions(view: ViewState) {
+  const { showGrid, showRulers, snapToGrid, snapToObjects, gridSize, rulerUnit } = view;
+  localStorage.setItem(GUIDE_OPTIONS_KEY, JSON.stringify({ showGrid, showRulers, snapToGrid, snapToObjects, gridSize, rulerUnit }));
+}
 
 interface ViewState {
   scale: number;
@@ -22,6 +52,14 @@ interface ViewState {
   viewportHeight: number;
   isPanning: boolean;
   isZooming: boolean;
+  showGrid: boolean;
+  showRulers: boolean;
+  snapToGrid: boolean;
+  /** 페이지 가장자리/중앙, 다른 주석, 안내선에 붙기 */
+  snapToObjects: boolean;
+  /** 격자 간격 (pt) */
+  gridSize: number;
+  rulerUnit: RulerUnit;
 }
 
 interface ViewStore {
@@ -69,6 +107,9 @@ interface ViewStore {
   /** 뷰 리셋 */
   resetView: () => void;
 
+  /** 격자/눈금자/스냅 설정 변경 (저장됨) */
+  setGuideOptions: (options: Partial<GuideOptions>) => void;
+
   // ============================================
   // Utility Actions
   // ============================================
@@ -97,7 +138,8 @@ export const useViewStore = create<ViewStore>()(
       viewportWidth: 0,
       viewportHeight: 0,
       isPanning: false,
-      isZooming: false
+      isZooming: false,
+      ...loadGuideOptions(),
     },
     isViewLoading: false,
     viewError: null,
@@ -194,6 +236,13 @@ export const useViewStore = create<ViewStore>()(
       });
     },
 
+    setGuideOptions: (options) => {
+      set((state) => {
+        Object.assign(state.view, options);
+        saveGuideOptions(state.view);
+      });
+    },
+
     // ============================================
     // Utility Actions
     // ============================================
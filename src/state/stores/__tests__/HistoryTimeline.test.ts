@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { registerHistoryHandler, useHistoryStore } from '../HistoryStore';
+
+// 전체 회전 값을 문서 상태 대신 사용
+let rotation = 0;
+
+function rotate(to: number) {
+  const before = rotation;
+  rotation = to;
+  useHistoryStore.getState().pushAction(`Rotate ${to}`, [{ type: 'rotation', before, after: to }]);
+}
+
+function descriptions() {
+  return useHistoryStore.getState().entries.map(e => e.description);
+}
+
+describe('HistoryStore branches and checkpoints', () => {
+  beforeEach(() => {
+    rotation = 0;
+    registerHistoryHandler('rotation', (action, direction) => {
+      rotation = direction === 'undo' ? action.before : action.after;
+    });
+    useHistoryStore.getState().resetHistory();
+  });
+
+  it('jumps to any entry on the current timeline', () => {
+    rotate(90);
+    rotate(180);
+    rotate(270);
+
+    const history = useHistoryStore.getState();
+    expect(history.jumpTo(0)).toBe(true);
+    expect(rotation).toBe(90);
+    expect(history.jumpTo(-1)).toBe(true);
+    expect(rotation).toBe(0);
+    expect(history.jumpTo(2)).toBe(true);
+    expect(rotation).toBe(270);
+  });
+
+  it('keeps undone entries as a branch and switches back to it', () => {
+    rotate(90);
+    rotate(180);
+    const abandonedId = useHistoryStore.getState().entries[1].id;
+
+    useHistoryStore.getState().undo();
+    rotate(270);
+
+    const { branches } = useHistoryStore.getState();
+    expect(descriptions()).toEqual(['Rotate 90', 'Rotate 270']);
+    expect(branches).toHaveLength(1);
+    expect(branches[0].parentId).toBe(useHistoryStore.getState().entries[0].id);
+
+    expect(useHistoryStore.getState().jumpToEntry(abandonedId)).toBe(true);
+    expect(rotation).toBe(180);
+    expect(descriptions()).toEqual(['Rotate 90', 'Rotate 180']);
+    expect(useHistoryStore.getState().branches[0].entries.map(e => e.description)).toEqual(['Rotate 270']);
+  });
+
+  it('switches through nested branches', () => {
+    rotate(90);
+    useHistoryStore.getState().undo();
+    rotate(180);
+    rotate(270);
+    const nestedId = useHistoryStore.getState().entries[1].id;
+    useHistoryStore.getState().undo();
+    rotate(45);
+
+    // 처음 갈래로 돌아간 뒤 중첩된 갈래의 항목으로
+    expect(useHistoryStore.getState().jumpToEntry(useHistoryStore.getState().branches[0].entries[0].id)).toBe(true);
+    expect(rotation).toBe(90);
+    expect(useHistoryStore.getState().jumpToEntry(nestedId)).toBe(true);
+    expect(rotation).toBe(270);
+    expect(descriptions()).toEqual(['Rotate 180', 'Rotate 270']);
+  });
+
+  it('returns to named checkpoints and saves them in the snapshot', () => {
+    rotate(90);
+    const id = useHistoryStore.getState().addCheckpoint('Before review');
+    rotate(180);
+    useHistoryStore.getState().renameCheckpoint(id, 'Before client review');
+
+    expect(useHistoryStore.getState().jumpToCheckpoint(id)).toBe(true);
+    expect(rotation).toBe(90);
+
+    const snapshot = JSON.parse(JSON.stringify(useHistoryStore.getState().getSnapshot()));
+    useHistoryStore.getState().resetHistory();
+    useHistoryStore.getState().restoreSnapshot(snapshot);
+    expect(useHistoryStore.getState().checkpoints.map(c => c.name)).toEqual(['Before client review']);
+    expect(useHistoryStore.getState().jumpTo(1)).toBe(true);
+    expect(rotation).toBe(180);
+  });
+
+  it('remaps checkpoints to the oldest state when entries are trimmed', () => {
+    rotate(90);
+    const id = useHistoryStore.getState().addCheckpoint('After first');
+    rotate(180);
+    rotate(270);
+
+    const size = useHistoryStore.getState().entries[2].size!;
+    useHistoryStore.getState().setMemoryBudget(size * 2);
+
+    expect(descriptions()).toEqual(['Rotate 180', 'Rotate 270']);
+    expect(useHistoryStore.getState().checkpoints[0].entryId).toBeNull();
+    expect(useHistoryStore.getState().jumpToCheckpoint(id)).toBe(true);
+    expect(rotation).toBe(90);
+  });
+});
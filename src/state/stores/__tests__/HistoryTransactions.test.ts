@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { coalesceActions, registerHistoryHandler, useHistoryStore } from '../HistoryStore';
+import type { HistoryAction } from '../HistoryStore';
+import { usePageStore } from '../PageStore';
+import { useAnnotationStore } from '../AnnotationStore';
+import { runPageCommand } from '../pageHistory';
+import { createPage } from '../../../core/model/factories';
+import type { Annotation } from '../../../core/model/types';
+import { updateAnnotationWithHistory } from '../../../ui/hooks/useAnnotationActions';
+import { beginAnnotationGesture } from '../../../ui/viewer/annotations/annotationGesture';
+
+function pageIds() {
+  return usePageStore.getState().pages.map(p => p.id);
+}
+
+function note(pageId: string, x: number): Annotation {
+  return { id: 'note-1', type: 'text', pageId, bbox: { x, y: 0, width: 10, height: 10 } } as unknown as Annotation;
+}
+
+describe('HistoryStore transactions and page commands', () => {
+  let ids: string[];
+
+  beforeEach(() => {
+    useHistoryStore.getState().resetHistory();
+    const pages = [0, 1, 2].map(index => createPage({ docId: 'doc', index, width: 600, height: 800 }));
+    ids = pages.map(p => p.id);
+    usePageStore.getState().setPages(pages);
+  });
+
+  it('coalesces repeated updates into the first before and last after', () => {
+    const a = note('p', 0);
+    const b = note('p', 5);
+    const c = note('p', 9);
+    const merged = coalesceActions([
+      { type: 'update', annotationId: a.id, pageId: 'p', before: a, after: b },
+      { type: 'update', annotationId: a.id, pageId: 'p', before: b, after: c },
+    ]);
+    expect(merged).toEqual([{ type: 'update', annotationId: a.id, pageId: 'p', before: a, after: c }]);
+
+    // 추가 후 삭제는 아무 일도 없던 것
+    expect(coalesceActions([
+      { type: 'add', annotationId: a.id, pageId: 'p', before: null, after: a },
+      { type: 'remove', annotationId: a.id, pageId: 'p', before: a, after: null },
+    ])).toEqual([]);
+  });
+
+  it('records a transaction as a single entry and skips empty ones', () => {
+    const history = useHistoryStore.getState();
+    history.beginTransaction('Drag');
+    history.pushAction('step', [{ type: 'pageOrder', before: ids, after: [ids[1], ids[0], ids[2]] }]);
+    history.pushAction('step', [{ type: 'pageOrder', before: [ids[1], ids[0], ids[2]], after: [ids[2], ids[1], ids[0]] }]);
+    expect(useHistoryStore.getState().entries).toHaveLength(0);
+    history.commitTransaction();
+
+    const { entries } = useHistoryStore.getState();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].description).toBe('Drag');
+    expect(entries[0].actions).toEqual([{ type: 'pageOrder', before: ids, after: [ids[2], ids[1], ids[0]] }]);
+
+    history.beginTransaction('Click');
+    history.commitTransaction();
+    expect(useHistoryStore.getState().entries).toHaveLength(1);
+  });
+
+  it('rolls back a cancelled transaction', () => {
+    const history = useHistoryStore.getState();
+    history.beginTransaction('Reorder');
+    runPageCommand('Reorder', () => usePageStore.getState().reorderPages([ids[2], ids[0], ids[1]]));
+    history.cancelTransaction();
+
+    expect(pageIds()).toEqual(ids);
+    expect(useHistoryStore.getState().entries).toHaveLength(0);
+  });
+
+  it('undoes reorder, delete and insert page commands', () => {
+    runPageCommand('Reorder', () => usePageStore.getState().reorderPages([ids[2], ids[0], ids[1]]));
+    runPageCommand('Delete', () => usePageStore.getState().removePage(ids[0]));
+    const blank = createPage({ docId: 'doc', index: 0, width: 600, height: 800, contentType: 'blank' });
+    runPageCommand('Insert', () => usePageStore.getState().addPage(blank, 0));
+    const edited = pageIds();
+
+    const history = useHistoryStore.getState();
+    history.undo();
+    expect(pageIds()).toEqual([ids[2], ids[1]]);
+    history.undo();
+    expect(pageIds()).toEqual([ids[2], ids[0], ids[1]]);
+    history.undo();
+    expect(pageIds()).toEqual(ids);
+
+    history.redo();
+    history.redo();
+    history.redo();
+    expect(pageIds()).toEqual(edited);
+  });
+
+  it('undoes a page delete that also reorders the remaining pages', () => {
+    runPageCommand('Delete and move', () => {
+      usePageStore.getState().removePage(ids[1]);
+      usePageStore.getState().reorderPages([ids[2], ids[0]]);
+    });
+
+    useHistoryStore.getState().undo();
+    expect(pageIds()).toEqual(ids);
+    useHistoryStore.getState().redo();
+    expect(pageIds()).toEqual([ids[2], ids[0]]);
+  });
+
+  it('applies undo in reverse order of the recorded actions', () => {
+    const tile = createPage({ docId: 'doc', index: 3, width: 600, height: 800 });
+    usePageStore.getState().addPage(tile);
+    useAnnotationStore.getState().addAnnotationToPage(tile.id, note(tile.id, 0));
+    useHistoryStore.getState().pushAction('Add page with note', [
+      { type: 'page', pageId: tile.id, before: null, after: tile, index: 3 },
+      { type: 'add', annotationId: 'note-1', pageId: tile.id, before: null, after: note(tile.id, 0) },
+    ]);
+
+    useHistoryStore.getState().undo();
+    expect(pageIds()).toEqual(ids);
+    expect(useAnnotationStore.getState().annotations.some(a => a.id === 'note-1')).toBe(false);
+  });
+
+  it('records a pointer gesture of annotation updates as one undo step', () => {
+    vi.stubGlobal('window', new EventTarget());
+    try {
+      const start = { ...note('p', 0), id: 'note-2' };
+      useAnnotationStore.getState().addAnnotationToPage('p', start);
+
+      beginAnnotationGesture('Resize');
+      for (const width of [20, 30, 40]) {
+        updateAnnotationWithHistory('note-2', { bbox: { ...start.bbox, width } });
+      }
+      expect(useHistoryStore.getState().entries).toHaveLength(0);
+      window.dispatchEvent(new Event('pointerup'));
+
+      const { entries } = useHistoryStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].description).toBe('Resize');
+
+      useHistoryStore.getState().undo();
+      expect(useAnnotationStore.getState().findAnnotation('note-2')?.bbox.width).toBe(10);
+      useHistoryStore.getState().redo();
+      expect(useAnnotationStore.getState().findAnnotation('note-2')?.bbox.width).toBe(40);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('dispatches registered handlers for store-contributed actions', () => {
+    const handler = vi.fn();
+    registerHistoryHandler('rotation', handler);
+    const action: HistoryAction = { type: 'rotation', before: 0, after: 90 };
+    useHistoryStore.getState().pushAction('Rotate all', [action]);
+
+    useHistoryStore.getState().undo();
+    useHistoryStore.getState().redo();
+    expect(handler.mock.calls).toEqual([[action, 'undo'], [action, 'redo']]);
+  });
+
+  it('drops the oldest entries when over the memory budget', () => {
+    const history = useHistoryStore.getState();
+    for (let i = 0; i < 5; i++) {
+      history.pushAction(`Rotate ${i}`, [{ type: 'rotation', before: i, after: i + 1 }]);
+    }
+    const entrySize = useHistoryStore.getState().entries[4].size!;
+    history.setMemoryBudget(entrySize * 2);
+
+    const state = useHistoryStore.getState();
+    expect(state.entries.map(e => e.description)).toEqual(['Rotate 3', 'Rotate 4']);
+    expect(state.history.currentIndex).toBe(1);
+    expect(state.memoryUsage).toBeLessThanOrEqual(entrySize * 2);
+    expect(state.canUndo).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useHistoryStore } from '../HistoryStore';
+import { usePageStore } from '../PageStore';
+import { createPage } from '../../../core/model/factories';
+
+function pages() {
+  return usePageStore.getState().pages;
+}
+
+describe('HistoryStore page actions', () => {
+  let pageId: string;
+
+  beforeEach(() => {
+    useHistoryStore.getState().resetHistory();
+    const first = createPage({ docId: 'doc', index: 0, width: 600, height: 800 });
+    const last = createPage({ docId: 'doc', index: 1, width: 600, height: 800 });
+    pageId = first.id;
+    usePageStore.getState().setPages([first, last]);
+  });
+
+  it('undoes a crop back to the uncropped page', () => {
+    const before = pages()[0];
+    usePageStore.getState().updatePage(pageId, { cropBox: { x: 0, y: 0, width: 300, height: 800 } });
+    const after = pages()[0];
+    useHistoryStore.getState().pushAction('Crop', [{ type: 'page', pageId, before, after }]);
+
+    useHistoryStore.getState().undo();
+    expect(pages()[0].cropBox).toBeUndefined();
+
+    useHistoryStore.getState().redo();
+    expect(pages()[0].cropBox).toEqual({ x: 0, y: 0, width: 300, height: 800 });
+  });
+
+  it('removes and restores an inserted page at its index', () => {
+    const inserted = createPage({ docId: 'doc', index: 1, width: 300, height: 800 });
+    usePageStore.getState().addPage(inserted, 1);
+    expect(pages().map(p => p.id)).toEqual([pageId, inserted.id, pages()[2].id]);
+    useHistoryStore.getState().pushAction('Split', [
+      { type: 'page', pageId: inserted.id, before: null, after: inserted, index: 1 },
+    ]);
+
+    useHistoryStore.getState().undo();
+    expect(pages()).toHaveLength(2);
+
+    useHistoryStore.getState().redo();
+    expect(pages()[1].id).toBe(inserted.id);
+  });
+});
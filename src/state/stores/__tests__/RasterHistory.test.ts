@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useHistoryStore, snapshotRasterLayer } from '../HistoryStore';
+import { usePageStore } from '../PageStore';
+import { createPage, createRasterLayer } from '../../../core/model/factories';
+import type { RasterOperation } from '../../../core/model/types';
+
+const stroke = (id: string): RasterOperation => ({
+  id,
+  kind: 'stroke',
+  tool: { type: 'brush', size: 8, hardness: 1, opacity: 1, color: '#000000' },
+  points: [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+  timestamp: 0,
+});
+
+function rasters() {
+  return usePageStore.getState().pages[0].layers.rasters;
+}
+
+describe('HistoryStore raster actions', () => {
+  let pageId: string;
+
+  beforeEach(() => {
+    useHistoryStore.getState().resetHistory();
+    const page = createPage({ docId: 'doc', index: 0, width: 100, height: 100 });
+    pageId = page.id;
+    usePageStore.getState().setPages([page]);
+  });
+
+  it('undoes and redoes a stroke that created its layer', () => {
+    const layer = { ...createRasterLayer({ pageId, kind: 'freedraw' }), operations: [stroke('s1')] };
+    usePageStore.getState().addRasterLayer(pageId, layer);
+    useHistoryStore.getState().pushAction('Paint', [
+      { type: 'raster', pageId, layerId: layer.id, before: null, after: snapshotRasterLayer(layer) },
+    ]);
+
+    useHistoryStore.getState().undo();
+    expect(rasters()).toHaveLength(0);
+
+    useHistoryStore.getState().redo();
+    expect(rasters().map(r => r.operations.map(op => op.id))).toEqual([['s1']]);
+  });
+
+  it('restores the previous operations and drops the stale pixel cache', () => {
+    const layer = { ...createRasterLayer({ pageId, kind: 'freedraw' }), operations: [stroke('s1')] };
+    usePageStore.getState().addRasterLayer(pageId, layer);
+    const before = snapshotRasterLayer(layer);
+
+    usePageStore.getState().updateRasterLayer(pageId, layer.id, {
+      operations: [stroke('s1'), stroke('s2')],
+      canvasData: 'data:image/png;base64,CACHE',
+    });
+    const after = snapshotRasterLayer(rasters()[0]);
+    expect(after.canvasData).toBeUndefined();
+    useHistoryStore.getState().pushAction('Paint', [{ type: 'raster', pageId, layerId: layer.id, before, after }]);
+
+    useHistoryStore.getState().undo();
+    expect(rasters()[0].operations.map(op => op.id)).toEqual(['s1']);
+    expect(rasters()[0].canvasData).toBeUndefined();
+  });
+
+  it('puts a deleted layer back at its stacking position', () => {
+    const bottom = createRasterLayer({ pageId, kind: 'freedraw' });
+    const top = createRasterLayer({ pageId, kind: 'mask' });
+    usePageStore.getState().addRasterLayer(pageId, bottom);
+    usePageStore.getState().addRasterLayer(pageId, top);
+
+    usePageStore.getState().removeRasterLayer(pageId, bottom.id);
+    useHistoryStore.getState().pushAction('Delete layer', [
+      { type: 'raster', pageId, layerId: bottom.id, before: snapshotRasterLayer(bottom), after: null, index: 0 },
+    ]);
+
+    useHistoryStore.getState().undo();
+    expect(rasters().map(r => r.id)).toEqual([bottom.id, top.id]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Page History - 페이지 목록 변경을 되돌릴 수 있는 동작으로 기록
+ *
+ * PageStore 조작 전후의 페이지 목록을 비교해 추가/삭제/수정(PageAction)과
+ * 순서 변경(PageOrderAction)을 만든다. 각 호출부가 되돌리기 로직을 따로 갖지 않아도 된다.
+ */
+
+import type { Page } from '../../core/model/types';
+import { usePageStore } from './PageStore';
+import { useHistoryStore } from './HistoryStore';
+import type { HistoryAction, PageAction } from './HistoryStore';
+
+/**
+ * 두 페이지 목록의 차이 → 동작 목록
+ *
+ * 순서: 순서 변경 → 삭제(뒤에서부터) → 수정 → 추가(앞에서부터).
+ * undo는 역순으로 적용되므로 추가 제거 → 삭제 복원(앞에서부터) → 원래 순서 복원이 된다.
+ */
+export function diffPages(before: Page[], after: Page[]): HistoryAction[] {
+  const beforeById = new Map(before.map((p, i) => [p.id, { page: p, index: i }]));
+  const afterById = new Map(after.map((p, i) => [p.id, { page: p, index: i }]));
+
+  const removed: PageAction[] = [];
+  before.forEach((page, index) => {
+    if (!afterById.has(page.id)) removed.unshift({ type: 'page', pageId: page.id, before: page, after: null, index });
+  });
+
+  const updated: PageAction[] = [];
+  const added: PageAction[] = [];
+  after.forEach((page, index) => {
+    const previous = beforeById.get(page.id);
+    if (!previous) {
+      added.push({ type: 'page', pageId: page.id, before: null, after: page, index });
+    } else if (previous.page !== page) {
+      updated.push({ type: 'page', pageId: page.id, before: previous.page, after: page });
+    }
+  });
+
+  // 양쪽에 모두 있는 페이지의 상대 순서가 바뀐 경우만
+  const keptBefore = before.filter(p => afterById.has(p.id)).map(p => p.id);
+  const keptAfter = after.filter(p => beforeById.has(p.id)).map(p => p.id);
+  const reordered = keptBefore.some((id, i) => id !== keptAfter[i]);
+
+  return [
+    ...(reordered ? [{ type: 'pageOrder' as const, before: before.map(p => p.id), after: after.map(p => p.id) }] : []),
+    ...removed,
+    ...updated,
+    ...added,
+  ];
+}
+
+/**
+ * PageStore 조작을 실행하고 변경분을 히스토리에 기록
+ * 변경이 없으면 기록하지 않는다. 기록된 동작을 돌려준다.
+ */
+export function runPageCommand(description: string, mutate: () => void): HistoryAction[] {
+  const before = usePageStore.getState().pages;
+  mutate();
+  const actions = diffPages(before, usePageStore.getState().pages);
+
+  if (actions.length > 0) {
+    useHistoryStore.getState().pushAction(description, actions);
+  }
+  return actions;
+}
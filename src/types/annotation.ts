@@ -16,6 +16,14 @@ export interface BaseAnnotation {
   modifiedAt: number;
   style: AnnotationStyle;
   groupId?: string;
+  /** bbox 중심 기준 시계 방향 회전 각도(도), 상자형 주석만 */
+  rotation?: number;
+  /** 레이어 패널에 표시할 이름 (없으면 종류 + 순번) */
+  name?: string;
+  /** 잠금: 캔버스에서 이동/크기 조절/편집 불가 */
+  locked?: boolean;
+  /** 숨김: 캔버스에 그리지 않고, 내보내기에서 제외할 수 있음 */
+  hidden?: boolean;
 }
 
 export interface BBox {
@@ -65,12 +73,49 @@ export interface HighlightAnnotation extends BaseAnnotation {
   type: 'highlight';
   content: string;
   opacity?: number;
+  /** 텍스트 선택 하이라이트: 줄별 글자 사각형 (없으면 bbox 전체를 칠함) */
+  quads?: BBox[];
   style: AnnotationStyle & {
     fill: string;
     opacity: number;
   };
 }
 
+/**
+ * 텍스트 선택 마크업 (밑줄, 물결 밑줄, 취소선)
+ * quads는 줄별 글자 사각형이고 bbox는 그 합집합이다.
+ */
+export interface TextMarkupAnnotation extends BaseAnnotation {
+  type: 'underline' | 'squiggly' | 'strikeout';
+  /** 선택한 텍스트 */
+  content: string;
+  quads: BBox[];
+  style: AnnotationStyle & {
+    stroke: string;
+    opacity?: number;
+  };
+}
+
+export type TextMarkupType = TextMarkupAnnotation['type'];
+
+/**
+ * 가림(redaction) 영역
+ * 편집 중에는 윤곽선만 보이고, 내보낼 때 해당 페이지를 래스터화하면서 영역을 채워
+ * 아래 텍스트·이미지·벡터 내용을 지운다. quads가 있으면 텍스트 줄별 영역만 가린다.
+ */
+export interface RedactionAnnotation extends BaseAnnotation {
+  type: 'redaction';
+  /** 가려지는 텍스트 (내보내기 검증용, 출력에는 쓰지 않음) */
+  content?: string;
+  quads?: BBox[];
+  /** 채운 영역 위에 표시할 문구 (예: "비공개") */
+  overlayText?: string;
+  style: AnnotationStyle & {
+    /** 채움 색상 */
+    fill: string;
+  };
+}
+
 // ============================================
 // Shape Annotation Types
 // ============================================
@@ -184,14 +229,53 @@ export interface ImageAnnotation extends BaseAnnotation {
   style: AnnotationStyle;
 }
 
+// ============================================
+// Barcode Annotation Types
+// ============================================
+
+export type BarcodeFormat = 'qr' | 'datamatrix' | 'code128';
+
+/**
+ * QR / Data Matrix / Code 128 코드
+ * modules는 행마다 '1'(검정) / '0'(흰색) 문자열 (여백 포함, 1차원 코드는 한 행)
+ */
+export interface BarcodeAnnotation extends BaseAnnotation {
+  type: 'barcode';
+  format: BarcodeFormat;
+  value: string;
+  modules: string[];
+  style: AnnotationStyle & {
+    /** 막대(모듈) 색상 */
+    color: string;
+    backgroundColor: string;
+  };
+}
+
 // ============================================
 // Stamp Annotation Types
 // ============================================
 
+/** 스탬프 테두리 모양 */
+export type StampShape = 'rectangle' | 'rounded' | 'ellipse';
+
+/** 스탬프 테두리 선 */
+export type StampBorderStyle = 'solid' | 'dashed' | 'double' | 'none';
+
 export interface StampAnnotation extends BaseAnnotation {
   type: 'stamp';
   stampType: 'approved' | 'rejected' | 'pending' | 'custom';
+  /** 표시 텍스트 (템플릿 토큰은 배치할 때 값으로 바뀜) */
   content?: string;
+  /** 스탬프 라이브러리의 원본 스탬프 id */
+  stampId?: string;
+  /** 원본 텍스트 템플릿 ({date}, {time}, {user}, {docName}, {pageNumber}) */
+  template?: string;
+  /** 이미지 스탬프 (PNG/SVG data URL) - 있으면 테두리/텍스트 대신 이미지를 그림 */
+  imageData?: string;
+  /** 기본: rounded */
+  shape?: StampShape;
+  /** 기본: solid */
+  borderStyle?: StampBorderStyle;
   style: AnnotationStyle & {
     fill: string;
     stroke: string;
@@ -199,6 +283,69 @@ export interface StampAnnotation extends BaseAnnotation {
   };
 }
 
+// ============================================
+// Signature Annotation Types
+// ============================================
+
+/** 서명 / 이니셜 */
+export type SignatureKind = 'signature' | 'initials';
+
+/**
+ * 서명 (손글씨 획 또는 이미지)
+ * 획은 그린 좌표 그대로(strokeBox 크기 기준) 저장하고 bbox에 맞춰 늘려 그리므로 이동/크기 조절은 bbox만 바꾼다.
+ * 획도 이미지도 없으면 "여기에 서명" 자리 표시이고, 내보내기에서는 그리지 않는다.
+ */
+export interface SignatureAnnotation extends BaseAnnotation {
+  type: 'signature';
+  kind: SignatureKind;
+  /** 손글씨 획 (그린 좌표) */
+  strokes?: Point[][];
+  /** 획 좌표의 기준 크기 */
+  strokeBox?: { width: number; height: number };
+  /** 입력(글꼴)하거나 불러온 서명 이미지 (PNG/SVG data URL) */
+  imageData?: string;
+  /** 저장한 서명의 id */
+  signatureId?: string;
+  /** 자리 표시 안내 문구 (예: "대표 서명") */
+  label?: string;
+  style: AnnotationStyle & {
+    /** 획 색상 */
+    stroke: string;
+    strokeWidth: number;
+  };
+}
+
+// ============================================
+// Comment Annotation Types
+// ============================================
+
+export type CommentStatus = 'open' | 'resolved';
+
+/** 댓글 스레드의 글 하나 (첫 글이 본문, 나머지는 답글) */
+export interface CommentMessage {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+/**
+ * 검토 댓글 (스티커 메모)
+ * 페이지의 한 점(bbox 위치)이나 다른 주석(anchorId)에 붙는다. 다른 주석에 붙으면
+ * 그 주석의 오른쪽 위 모서리에 표시되고, 그 주석이 지워지면 bbox 위치에 남는다.
+ * 화면에는 아이콘만 보이고 이미지/벡터로는 그리지 않는다 (PDF에는 /Text 주석으로 기록).
+ */
+export interface CommentAnnotation extends BaseAnnotation {
+  type: 'comment';
+  anchorId?: string;
+  status: CommentStatus;
+  thread: CommentMessage[];
+  style: AnnotationStyle & {
+    /** 아이콘 색상 */
+    color: string;
+  };
+}
+
 // ============================================
 // OCR Annotation Types (미래 확장)
 // ============================================
@@ -243,6 +390,14 @@ export interface Point {
 // Table Annotation
 // ============================================
 
+export type TableCellEdge = 'top' | 'right' | 'bottom' | 'left';
+
+/** 셀 변 테두리 (width 0 = 선 없음) */
+export interface TableCellBorder {
+  width: number;
+  color: string;
+}
+
 export interface TableCellStyle {
   fontSize: number;
   fontFamily: string;
@@ -253,11 +408,17 @@ export interface TableCellStyle {
   color: string;
   backgroundColor: string;
   backgroundOpacity: number;
+  /** 변별 테두리 (없는 변은 표 격자선) */
+  borders?: Partial<Record<TableCellEdge, TableCellBorder>>;
 }
 
 export interface TableCell {
+  /** 텍스트, '='로 시작하면 수식 (=SUM(A1:A5)) */
   content: string;
   style: TableCellStyle;
+  /** 병합: 왼쪽 위 셀에만 기록, 가려진 셀은 비워 둔다 */
+  rowSpan?: number;
+  colSpan?: number;
 }
 
 export interface TableAnnotation extends BaseAnnotation {
@@ -278,6 +439,8 @@ export interface TableAnnotation extends BaseAnnotation {
 export type Annotation =
   | TextAnnotation
   | HighlightAnnotation
+  | TextMarkupAnnotation
+  | RedactionAnnotation
   | EllipseAnnotation
   | RectangleAnnotation
   | RoundedRectAnnotation
@@ -288,7 +451,10 @@ export type Annotation =
   | FreehandAnnotation
   | HighlighterAnnotation
   | ImageAnnotation
+  | BarcodeAnnotation
   | StampAnnotation
+  | SignatureAnnotation
+  | CommentAnnotation
   | OCRAnnotation
   | AIAnnotation
   | TableAnnotation;
@@ -305,6 +471,14 @@ export function isHighlightAnnotation(annotation: Annotation): annotation is Hig
   return annotation.type === 'highlight';
 }
 
+export function isTextMarkupAnnotation(annotation: Annotation): annotation is TextMarkupAnnotation {
+  return annotation.type === 'underline' || annotation.type === 'squiggly' || annotation.type === 'strikeout';
+}
+
+export function isRedactionAnnotation(annotation: Annotation): annotation is RedactionAnnotation {
+  return annotation.type === 'redaction';
+}
+
 export function isShapeAnnotation(annotation: Annotation): annotation is
   | EllipseAnnotation
   | RectangleAnnotation
@@ -332,6 +506,14 @@ export function isStampAnnotation(annotation: Annotation): annotation is StampAn
   return annotation.type === 'stamp';
 }
 
+export function isSignatureAnnotation(annotation: Annotation): annotation is SignatureAnnotation {
+  return annotation.type === 'signature';
+}
+
+export function isCommentAnnotation(annotation: Annotation): annotation is CommentAnnotation {
+  return annotation.type === 'comment';
+}
+
 export function isOCRAnnotation(annotation: Annotation): annotation is OCRAnnotation {
   return annotation.type === 'ocr';
 }
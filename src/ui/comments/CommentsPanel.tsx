@@ -0,0 +1,299 @@
+/**
+ * CommentsPanel - 검토 댓글 패널
+ * 좌측 사이드바에 페이지별 댓글 스레드를 표시합니다. 작성자/상태/페이지로 거를 수 있고,
+ * 카드를 누르면 해당 페이지로 이동해 댓글을 선택합니다. 요약은 CSV/Markdown으로 내려받습니다.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowCounterClockwise, Check, DownloadSimple, Trash, X } from 'phosphor-react';
+import type { Annotation } from '../../core/model/types';
+import type { CommentStatus } from '../../types/annotation';
+import { collectComments, commentAuthors, matchesCommentFilter } from '../../core/annotations/comments';
+import type { CommentEntry } from '../../core/annotations/comments';
+import { defaultLayerName } from '../../core/annotations/layerTree';
+import { ANNOTATION_TYPE_META } from '../toolbox/panelStyles';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useCommentStore } from '../../state/stores/CommentStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useComments } from '../hooks/useComments';
+import { useAnnotationActions } from '../hooks/useAnnotationActions';
+import { useTranslation } from '../../i18n';
+
+const selectStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    fontSize: 'var(--font-size-xs)',
+    padding: '2px 4px',
+    borderRadius: 'var(--radius-sm)',
+    border: '1px solid var(--color-border-light)',
+    backgroundColor: 'var(--color-bg-card)',
+    color: 'var(--color-text-primary)',
+};
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function CommentsPanel() {
+    const { t } = useTranslation();
+    const { author, filter, setAuthor, setFilter, closeComments } = useCommentStore();
+    const annotations = useAnnotationStore(s => s.annotations);
+    const selectedIds = useAnnotationStore(s => s.selection.selectedAnnotationIds);
+    const pages = usePageStore(s => s.pages);
+    const { downloadSummary } = useComments();
+
+    const entries = useMemo(() => collectComments(pages, annotations), [pages, annotations]);
+    const authors = useMemo(() => commentAuthors(entries.map(e => e.comment)), [entries]);
+    const shown = entries.filter(e => matchesCommentFilter(e.comment, filter));
+
+    // 댓글이 있는 페이지 (필터 선택지)
+    const commentPages = useMemo(() => {
+        const result = new Map<string, number>();
+        for (const entry of entries) result.set(entry.comment.pageId, entry.pageNumber);
+        return [...result];
+    }, [entries]);
+
+    // 페이지별 그룹
+    const groups = useMemo(() => {
+        const result: { pageNumber: number; items: CommentEntry[] }[] = [];
+        for (const entry of shown) {
+            const last = result[result.length - 1];
+            if (last && last.pageNumber === entry.pageNumber) last.items.push(entry);
+            else result.push({ pageNumber: entry.pageNumber, items: [entry] });
+        }
+        return result;
+    }, [shown]);
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+            {/* Author & Filters */}
+            <div style={{ padding: 'var(--space-2)', borderBottom: '1px solid var(--color-border-light)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input
+                        className="input-field"
+                        value={author}
+                        placeholder={t('comments.authorPlaceholder')}
+                        onChange={e => setAuthor(e.target.value)}
+                        aria-label={t('comments.authorPlaceholder')}
+                        style={{ flex: 1, minWidth: 0 }}
+                    />
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={closeComments}
+                        title={t('comments.close')} aria-label={t('comments.close')}>
+                        <X size={14} />
+                    </button>
+                </div>
+
+                <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+                    <select
+                        style={selectStyle}
+                        value={filter.author === null ? '' : `:${filter.author}`}
+                        onChange={e => setFilter({ author: e.target.value === '' ? null : e.target.value.slice(1) })}
+                        aria-label={t('comments.allAuthors')}
+                    >
+                        <option value="">{t('comments.allAuthors')}</option>
+                        {/* 빈 이름(익명)도 고를 수 있도록 값 앞에 ':' */}
+                        {authors.map(name => <option key={name} value={`:${name}`}>{name || t('comments.anonymous')}</option>)}
+                    </select>
+                    <select
+                        style={selectStyle}
+                        value={filter.status ?? ''}
+                        onChange={e => setFilter({ status: (e.target.value || null) as CommentStatus | null })}
+                        aria-label={t('comments.allStatuses')}
+                    >
+                        <option value="">{t('comments.allStatuses')}</option>
+                        <option value="open">{t('comments.statusOpen')}</option>
+                        <option value="resolved">{t('comments.statusResolved')}</option>
+                    </select>
+                    <select
+                        style={selectStyle}
+                        value={filter.pageId ?? ''}
+                        onChange={e => setFilter({ pageId: e.target.value || null })}
+                        aria-label={t('comments.allPages')}
+                    >
+                        <option value="">{t('comments.allPages')}</option>
+                        {commentPages.map(([pageId, pageNumber]) => (
+                            <option key={pageId} value={pageId}>{t('comments.page', { page: pageNumber })}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '2px', marginTop: '6px' }}>
+                    <span style={{ flex: 1, fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                        {t('comments.count', { shown: shown.length, total: entries.length })}
+                    </span>
+                    <button className="btn-icon" style={{ height: '24px', padding: '0 4px', gap: '2px', fontSize: '10px' }}
+                        onClick={() => downloadSummary('csv')} disabled={entries.length === 0}
+                        title={t('comments.exportCsv')} aria-label={t('comments.exportCsv')}>
+                        <DownloadSimple size={12} /> CSV
+                    </button>
+                    <button className="btn-icon" style={{ height: '24px', padding: '0 4px', gap: '2px', fontSize: '10px' }}
+                        onClick={() => downloadSummary('markdown')} disabled={entries.length === 0}
+                        title={t('comments.exportMarkdown')} aria-label={t('comments.exportMarkdown')}>
+                        <DownloadSimple size={12} /> MD
+                    </button>
+                </div>
+            </div>
+
+            {/* Threads */}
+            <div style={{ flex: 1, overflowY: 'auto', padding: 'var(--space-1) 0' }}>
+                {entries.length === 0 && (
+                    <div style={{ padding: 'var(--space-3) var(--space-2)', fontSize: 'var(--font-size-sm)', color: 'var(--color-text-muted)' }}>
+                        {t('comments.empty')}
+                    </div>
+                )}
+                {entries.length > 0 && shown.length === 0 && (
+                    <div style={{ padding: 'var(--space-3) var(--space-2)', fontSize: 'var(--font-size-sm)', color: 'var(--color-text-muted)' }}>
+                        {t('comments.noMatch')}
+                    </div>
+                )}
+                {groups.map(group => (
+                    <div key={group.pageNumber} style={{ marginBottom: 'var(--space-2)' }}>
+                        <div className="section__label" style={{ padding: '4px var(--space-2)' }}>
+                            {t('comments.page', { page: group.pageNumber })} · {group.items.length}
+                        </div>
+                        {group.items.map(entry => (
+                            <CommentCard
+                                key={entry.comment.id}
+                                entry={entry}
+                                pageAnnotations={annotations.filter(a => a.pageId === entry.comment.pageId)}
+                                isSelected={selectedIds.includes(entry.comment.id)}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+// ── 댓글 카드 ──────────────────────────────────
+
+interface CommentCardProps {
+    entry: CommentEntry;
+    pageAnnotations: Annotation[];
+    isSelected: boolean;
+}
+
+function CommentCard({ entry, pageAnnotations, isSelected }: CommentCardProps) {
+    const { t } = useTranslation();
+    const { postMessage, setStatus, removeMessage } = useComments();
+    const { handleDeleteAnnotation } = useAnnotationActions({ currentPageId: null });
+    const [draft, setDraft] = useState('');
+    const cardRef = useRef<HTMLDivElement>(null);
+    const { comment, anchor } = entry;
+    const resolved = comment.status === 'resolved';
+
+    // 캔버스에서 선택하면 목록에서 보이게
+    useEffect(() => {
+        if (isSelected) cardRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [isSelected]);
+
+    const select = () => {
+        usePageStore.getState().setCurrentPage(comment.pageId);
+        useAnnotationStore.getState().selectAnnotation(comment.id);
+    };
+
+    const submit = () => {
+        postMessage(comment.id, draft);
+        setDraft('');
+    };
+
+    const anchorName = anchor
+        ? defaultLayerName(pageAnnotations, anchor, ANNOTATION_TYPE_META[anchor.type]?.label ?? anchor.type)
+        : null;
+
+    return (
+        <div
+            ref={cardRef}
+            onClick={select}
+            style={{
+                margin: '0 var(--space-2) var(--space-1)',
+                padding: '6px 8px',
+                borderRadius: 'var(--radius-md)',
+                border: `1px solid ${isSelected ? 'var(--color-brand)' : 'var(--color-border-light)'}`,
+                borderLeft: `3px solid ${comment.style?.color || '#F59E0B'}`,
+                backgroundColor: isSelected ? 'var(--color-brand-light)' : 'var(--color-bg-card)',
+                opacity: resolved && !isSelected ? 0.7 : 1,
+                cursor: 'pointer',
+            }}
+        >
+            {/* Header */}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {anchorName ? t('comments.anchorTo', { name: anchorName }) : t('comments.anchorPoint')}
+                </span>
+                <button
+                    className={`btn-icon${resolved ? ' active' : ''}`}
+                    style={{ width: '20px', height: '20px' }}
+                    onClick={(e) => { e.stopPropagation(); setStatus(comment.id, resolved ? 'open' : 'resolved'); }}
+                    title={resolved ? t('comments.reopen') : t('comments.resolve')}
+                    aria-label={resolved ? t('comments.reopen') : t('comments.resolve')}
+                >
+                    {resolved ? <ArrowCounterClockwise size={12} /> : <Check size={12} />}
+                </button>
+                <button
+                    className="btn-icon"
+                    style={{ width: '20px', height: '20px' }}
+                    onClick={(e) => { e.stopPropagation(); handleDeleteAnnotation(comment.id); }}
+                    title={t('comments.delete')}
+                    aria-label={t('comments.delete')}
+                >
+                    <Trash size={12} />
+                </button>
+            </div>
+
+            {/* Thread */}
+            {comment.thread.map((message, index) => (
+                <div key={message.id} style={{ marginTop: '4px', paddingLeft: index > 0 ? '10px' : 0 }}>
+                    <div style={{ display: 'flex', alignItems: 'baseline', gap: '6px', fontSize: 'var(--font-size-xs)' }}>
+                        <strong style={{ color: 'var(--color-text-primary)' }}>{message.author || t('comments.anonymous')}</strong>
+                        <span style={{ color: 'var(--color-text-muted)' }}>{formatTime(message.createdAt)}</span>
+                        {index > 0 && (
+                            <button
+                                className="btn-icon"
+                                style={{ width: '16px', height: '16px', marginLeft: 'auto' }}
+                                onClick={(e) => { e.stopPropagation(); removeMessage(comment.id, message.id); }}
+                                title={t('comments.deleteReply')}
+                                aria-label={t('comments.deleteReply')}
+                            >
+                                <X size={10} />
+                            </button>
+                        )}
+                    </div>
+                    <div style={{ fontSize: 'var(--font-size-sm)', color: 'var(--color-text-secondary)', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {message.text}
+                    </div>
+                </div>
+            ))}
+
+            {/* Composer — 선택한 카드에만 */}
+            {isSelected && !resolved && (
+                <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }} onClick={(e) => e.stopPropagation()}>
+                    <textarea
+                        className="input-field"
+                        value={draft}
+                        rows={2}
+                        autoFocus={comment.thread.length === 0}
+                        placeholder={comment.thread.length === 0 ? t('comments.writePlaceholder') : t('comments.replyPlaceholder')}
+                        onChange={e => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                                e.preventDefault();
+                                submit();
+                            }
+                        }}
+                        style={{ flex: 1, minWidth: 0, resize: 'vertical', fontSize: 'var(--font-size-sm)' }}
+                    />
+                    <button
+                        className="btn-icon"
+                        style={{ alignSelf: 'flex-end', height: '24px', padding: '0 6px', fontSize: 'var(--font-size-xs)' }}
+                        onClick={submit}
+                        disabled={!draft.trim()}
+                    >
+                        {comment.thread.length === 0 ? t('comments.post') : t('comments.reply')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,360 @@
+/**
+ * BarcodeDialog - 바코드/QR 코드 스캔 및 삽입 다이얼로그
+ * 스캔 탭은 찾은 코드를 페이지/형식/값과 함께 나열하고 하이라이트를 추가하며,
+ * 삽입 탭은 텍스트로 코드를 만들어 현재 페이지에 넣습니다.
+ */
+
+import { useState } from 'react';
+import { QrCode, Copy } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import { BARCODE_FORMATS, BARCODE_FORMAT_LABELS } from '../../core/barcode/barcodeEncoder';
+import type { BarcodeHit } from '../../core/barcode/barcodeScanner';
+import type { BarcodeFormat } from '../../types/annotation';
+import type { BarcodeInsertError, BarcodeScanScope } from '../hooks/useBarcodes';
+
+interface BarcodeDialogProps {
+    isScanning: boolean;
+    progress: { done: number; total: number } | null;
+    hits: BarcodeHit[] | null;
+    highlightedIds: string[];
+    onScan: (scope: BarcodeScanScope) => void;
+    onCancelScan: () => void;
+    onSelectHit: (hit: BarcodeHit) => void;
+    onHighlight: (hits: BarcodeHit[]) => void;
+    onInsert: (format: BarcodeFormat, value: string) => BarcodeInsertError | null;
+    onClose: () => void;
+}
+
+const optionRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#333333',
+    cursor: 'pointer',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '3px 8px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '4px',
+    backgroundColor: '#FFFFFF',
+    color: '#333333',
+    fontSize: '11px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+};
+
+/** zxing 형식 이름 → 표시 이름 */
+function formatLabel(format: string): string {
+    return format.replace(/_/g, ' ').replace(/^CODE /, 'Code ').replace(/^DATA MATRIX$/, 'Data Matrix');
+}
+
+export function BarcodeDialog({
+    isScanning, progress, hits, highlightedIds,
+    onScan, onCancelScan, onSelectHit, onHighlight, onInsert, onClose,
+}: BarcodeDialogProps) {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<'scan' | 'insert'>('scan');
+    const [scope, setScope] = useState<BarcodeScanScope>('current');
+    const [format, setFormat] = useState<BarcodeFormat>('qr');
+    const [value, setValue] = useState('');
+    const [insertError, setInsertError] = useState<BarcodeInsertError | null>(null);
+
+    const pendingHits = hits?.filter(hit => !highlightedIds.includes(hit.id)) ?? [];
+
+    const handleInsert = () => {
+        const error = onInsert(format, value);
+        setInsertError(error);
+        if (!error) onClose();
+    };
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={isScanning ? undefined : onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '440px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <QrCode size={20} weight="duotone" color="#0078D4" />
+                    {t('barcode.title')}
+                </h3>
+
+                {/* Tabs */}
+                <div style={{ display: 'flex', gap: '4px', marginBottom: '16px', borderBottom: '1px solid #eeeeee' }}>
+                    {(['scan', 'insert'] as const).map(name => (
+                        <button
+                            key={name}
+                            onClick={() => setTab(name)}
+                            disabled={isScanning}
+                            style={{
+                                padding: '6px 12px',
+                                border: 'none',
+                                borderBottom: tab === name ? '2px solid #0078D4' : '2px solid transparent',
+                                backgroundColor: 'transparent',
+                                color: tab === name ? '#0078D4' : '#666666',
+                                fontSize: '13px',
+                                fontWeight: tab === name ? 600 : 400,
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {t(`barcode.tab.${name}`)}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'scan' ? (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('barcode.scanDescription')}
+                        </p>
+
+                        {/* Pages */}
+                        <div style={{ marginBottom: '16px' }}>
+                            <p style={sectionLabelStyle}>{t('barcode.pages')}</p>
+                            <div style={{ display: 'flex', gap: '16px' }}>
+                                {(['current', 'all'] as const).map(option => (
+                                    <label key={option} style={optionRowStyle}>
+                                        <input
+                                            type="radio"
+                                            name="barcode-scope"
+                                            checked={scope === option}
+                                            disabled={isScanning}
+                                            onChange={() => setScope(option)}
+                                        />
+                                        {t(`barcode.scope.${option}`)}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Progress */}
+                        {isScanning && progress && (
+                            <div style={{ marginBottom: '16px', fontSize: '12px', color: '#888888' }}>
+                                {t('barcode.scanning', { done: progress.done, total: progress.total })}
+                            </div>
+                        )}
+
+                        {/* Results */}
+                        {!isScanning && hits && (
+                            <div style={{ marginBottom: '16px' }}>
+                                <p style={{ ...sectionLabelStyle, color: hits.length ? '#2e7d32' : '#666666' }}>
+                                    {hits.length ? t('barcode.found', { count: hits.length }) : t('barcode.noResults')}
+                                </p>
+                                <div style={{ maxHeight: '240px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                    {hits.map(hit => {
+                                        const isHighlighted = highlightedIds.includes(hit.id);
+                                        return (
+                                            <div
+                                                key={hit.id}
+                                                onClick={() => onSelectHit(hit)}
+                                                style={{
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    gap: '8px',
+                                                    padding: '6px 8px',
+                                                    borderRadius: '6px',
+                                                    backgroundColor: '#f7f7f7',
+                                                    cursor: 'pointer',
+                                                }}
+                                            >
+                                                <div style={{ flex: 1, minWidth: 0 }}>
+                                                    <div style={{ fontSize: '11px', color: '#888888' }}>
+                                                        {t('barcode.page', { page: hit.pageIndex + 1 })} · {formatLabel(hit.format)}
+                                                    </div>
+                                                    <div style={{
+                                                        fontSize: '13px',
+                                                        color: '#1a1a1a',
+                                                        overflow: 'hidden',
+                                                        textOverflow: 'ellipsis',
+                                                        whiteSpace: 'nowrap',
+                                                    }}>
+                                                        {hit.value}
+                                                    </div>
+                                                </div>
+                                                <button
+                                                    title={t('barcode.copy')}
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        void navigator.clipboard?.writeText(hit.value);
+                                                    }}
+                                                    style={smallButtonStyle}
+                                                >
+                                                    <Copy size={12} />
+                                                </button>
+                                                <button
+                                                    disabled={isHighlighted}
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        onHighlight([hit]);
+                                                    }}
+                                                    style={{ ...smallButtonStyle, opacity: isHighlighted ? 0.5 : 1 }}
+                                                >
+                                                    {isHighlighted ? t('barcode.highlighted') : t('barcode.highlight')}
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Actions */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                            {isScanning ? (
+                                <button
+                                    onClick={onCancelScan}
+                                    style={{ ...secondaryButtonStyle, border: '1px solid #d32f2f', color: '#d32f2f' }}
+                                >
+                                    {t('barcode.cancel')}
+                                </button>
+                            ) : (
+                                <>
+                                    <button onClick={onClose} style={secondaryButtonStyle}>
+                                        {t('barcode.close')}
+                                    </button>
+                                    {pendingHits.length > 1 && (
+                                        <button
+                                            onClick={() => onHighlight(pendingHits)}
+                                            style={{ ...secondaryButtonStyle, border: '1px solid #0078D4', color: '#0078D4' }}
+                                        >
+                                            {t('barcode.highlightAll')}
+                                        </button>
+                                    )}
+                                    <button onClick={() => onScan(scope)} style={primaryButtonStyle}>
+                                        {t('barcode.scan')}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('barcode.insertDescription')}
+                        </p>
+
+                        {/* Format */}
+                        <div style={{ marginBottom: '16px' }}>
+                            <p style={sectionLabelStyle}>{t('barcode.format')}</p>
+                            <div style={{ display: 'flex', gap: '16px' }}>
+                                {BARCODE_FORMATS.map(option => (
+                                    <label key={option} style={optionRowStyle}>
+                                        <input
+                                            type="radio"
+                                            name="barcode-format"
+                                            checked={format === option}
+                                            onChange={() => {
+                                                setFormat(option);
+                                                setInsertError(null);
+                                            }}
+                                        />
+                                        {BARCODE_FORMAT_LABELS[option]}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Value */}
+                        <div style={{ marginBottom: '16px' }}>
+                            <p style={sectionLabelStyle}>{t('barcode.value')}</p>
+                            <input
+                                type="text"
+                                value={value}
+                                autoFocus
+                                placeholder={t('barcode.valuePlaceholder')}
+                                onChange={e => {
+                                    setValue(e.target.value);
+                                    setInsertError(null);
+                                }}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') handleInsert();
+                                }}
+                                style={{
+                                    width: '100%',
+                                    boxSizing: 'border-box',
+                                    padding: '8px 10px',
+                                    border: '1px solid #d0d0d0',
+                                    borderRadius: '6px',
+                                    fontSize: '13px',
+                                }}
+                            />
+                            {insertError && (
+                                <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#d32f2f' }}>
+                                    {t(`barcode.error.${insertError}`)}
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Actions */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                            <button onClick={onClose} style={secondaryButtonStyle}>
+                                {t('barcode.close')}
+                            </button>
+                            <button onClick={handleInsert} style={primaryButtonStyle}>
+                                {t('barcode.insert')}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,389 @@
+/**
+ * DocumentOpsDialog - 페이지 추출/나누기/병합 다이얼로그
+ * 페이지 범위, N페이지마다, 책갈피마다 나눠 각각 PDF로 저장하거나(여러 개면 ZIP),
+ * 현재 문서와 여러 PDF를 원하는 순서로 합칩니다. 원본 페이지를 그대로 복사합니다.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Files, ArrowUp, ArrowDown, Trash, FilePlus } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import { parseRangeGroups, splitByBookmarks, splitEvery } from '../../core/io/documentOps';
+import type { DocumentPart, PageBookmark } from '../../core/io/documentOps';
+import type { MergeEntry } from '../hooks/useDocumentOps';
+
+interface DocumentOpsDialogProps {
+    pageCount: number;
+    documentName: string;
+    isWorking: boolean;
+    progress: number;
+    onLoadBookmarks: () => Promise<PageBookmark[]>;
+    onExportParts: (parts: DocumentPart[], includeEdits: boolean) => Promise<void>;
+    onMerge: (entries: MergeEntry[], includeEdits: boolean) => Promise<void>;
+    onClose: () => void;
+}
+
+type OpsTab = 'split' | 'merge';
+type SplitMode = 'ranges' | 'every' | 'bookmarks';
+
+const SPLIT_MODES: SplitMode[] = ['ranges', 'every', 'bookmarks'];
+
+/** 미리보기로 보여줄 최대 파일 수 */
+const PREVIEW_LIMIT = 6;
+
+const optionRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#333333',
+    cursor: 'pointer',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '6px',
+    fontSize: '13px',
+    boxSizing: 'border-box',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    padding: '4px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: 'transparent',
+    color: '#666666',
+    cursor: 'pointer',
+};
+
+const tabStyle = (active: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '6px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: active ? '#E0E0E0' : 'transparent',
+    color: '#333333',
+    fontSize: '13px',
+    fontWeight: 500,
+    cursor: 'pointer',
+});
+
+let nextEntryId = 0;
+
+export function DocumentOpsDialog({
+    pageCount,
+    documentName,
+    isWorking,
+    progress,
+    onLoadBookmarks,
+    onExportParts,
+    onMerge,
+    onClose,
+}: DocumentOpsDialogProps) {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<OpsTab>('split');
+    const [mode, setMode] = useState<SplitMode>('ranges');
+    const [ranges, setRanges] = useState('');
+    const [every, setEvery] = useState(10);
+    const [bookmarks, setBookmarks] = useState<PageBookmark[] | null>(null);
+    const [includeEdits, setIncludeEdits] = useState(true);
+    const [entries, setEntries] = useState<MergeEntry[]>([{ id: 'current', kind: 'current' }]);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // 책갈피는 처음 고를 때 한 번 읽음
+    useEffect(() => {
+        if (mode !== 'bookmarks' || bookmarks) return;
+        let cancelled = false;
+        onLoadBookmarks()
+            .then(result => { if (!cancelled) setBookmarks(result); })
+            .catch(() => { if (!cancelled) setBookmarks([]); });
+        return () => { cancelled = true; };
+    }, [mode, bookmarks, onLoadBookmarks]);
+
+    const parts = useMemo((): DocumentPart[] => {
+        switch (mode) {
+            case 'ranges': return parseRangeGroups(ranges, pageCount);
+            case 'every': return splitEvery(pageCount, every);
+            case 'bookmarks': return bookmarks && bookmarks.length > 0 ? splitByBookmarks(bookmarks, pageCount) : [];
+        }
+    }, [mode, ranges, every, bookmarks, pageCount]);
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error('Document operation failed:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const addFiles = (files: FileList | null) => {
+        if (!files) return;
+        const pdfs = Array.from(files).filter(f => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf'));
+        setEntries(prev => [...prev, ...pdfs.map(file => ({ id: `file-${nextEntryId++}`, kind: 'file' as const, file }))]);
+    };
+
+    const moveEntry = (index: number, delta: number) => {
+        setEntries(prev => {
+            const target = index + delta;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={isWorking ? undefined : onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '460px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <Files size={20} weight="duotone" color="#0078D4" />
+                    {t('documentOps.title')}
+                </h3>
+
+                {/* Tabs */}
+                <div style={{ display: 'flex', gap: '4px', marginBottom: '16px', padding: '2px', backgroundColor: '#F5F5F5', borderRadius: '6px' }}>
+                    {(['split', 'merge'] as const).map(option => (
+                        <button key={option} onClick={() => setTab(option)} disabled={isWorking} style={tabStyle(tab === option)}>
+                            {t(`documentOps.tabs.${option}`)}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'split' ? (
+                    <>
+                        {/* Split Mode */}
+                        <div style={{ marginBottom: '16px' }}>
+                            <p style={sectionLabelStyle}>{t('documentOps.splitMode')}</p>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                {SPLIT_MODES.map(option => (
+                                    <label key={option} style={optionRowStyle}>
+                                        <input
+                                            type="radio"
+                                            name="document-ops-mode"
+                                            checked={mode === option}
+                                            disabled={isWorking}
+                                            onChange={() => setMode(option)}
+                                        />
+                                        {t(`documentOps.modes.${option}`)}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div style={{ marginBottom: '16px' }}>
+                            {mode === 'ranges' && (
+                                <>
+                                    <input
+                                        type="text"
+                                        value={ranges}
+                                        onChange={e => setRanges(e.target.value)}
+                                        placeholder={t('documentOps.rangesPlaceholder')}
+                                        disabled={isWorking}
+                                        style={inputStyle}
+                                    />
+                                    <p style={{ margin: '6px 0 0 0', fontSize: '12px', color: '#888888' }}>
+                                        {t('documentOps.rangesHint')}
+                                    </p>
+                                </>
+                            )}
+                            {mode === 'every' && (
+                                <label style={optionRowStyle}>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={Math.max(1, pageCount)}
+                                        value={every}
+                                        onChange={e => setEvery(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                                        disabled={isWorking}
+                                        style={{ ...inputStyle, width: '80px' }}
+                                    />
+                                    {t('documentOps.everyUnit')}
+                                </label>
+                            )}
+                            {mode === 'bookmarks' && bookmarks?.length === 0 && (
+                                <p style={{ margin: 0, fontSize: '13px', color: '#888888' }}>{t('documentOps.noBookmarks')}</p>
+                            )}
+                        </div>
+
+                        {/* Preview */}
+                        {parts.length > 0 && (
+                            <div style={{ marginBottom: '16px' }}>
+                                <p style={sectionLabelStyle}>{t('documentOps.preview', { count: parts.length })}</p>
+                                <ul style={{ margin: 0, paddingLeft: '18px', fontSize: '12px', color: '#555555' }}>
+                                    {parts.slice(0, PREVIEW_LIMIT).map((part, i) => (
+                                        <li key={i}>
+                                            {part.name} · {t('documentOps.pageCount', { count: part.pages.length })}
+                                        </li>
+                                    ))}
+                                    {parts.length > PREVIEW_LIMIT && <li>…</li>}
+                                </ul>
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    /* Merge List */
+                    <div
+                        style={{
+                            marginBottom: '16px',
+                            padding: '8px',
+                            border: `1px dashed ${isDragOver ? '#0078D4' : '#d0d0d0'}`,
+                            borderRadius: '6px',
+                            backgroundColor: isDragOver ? '#F0F7FF' : 'transparent',
+                        }}
+                        onDragOver={e => { e.preventDefault(); e.stopPropagation(); setIsDragOver(true); }}
+                        onDragLeave={() => setIsDragOver(false)}
+                        onDrop={e => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setIsDragOver(false);
+                            addFiles(e.dataTransfer.files);
+                        }}
+                    >
+                        {entries.map((entry, i) => (
+                            <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 0', fontSize: '13px' }}>
+                                <span style={{ width: '20px', color: '#888888' }}>{i + 1}</span>
+                                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    {entry.kind === 'current' ? t('documentOps.currentDocument', { name: documentName }) : entry.file.name}
+                                </span>
+                                <button onClick={() => moveEntry(i, -1)} disabled={isWorking || i === 0} style={iconButtonStyle} aria-label={t('documentOps.moveUp')}>
+                                    <ArrowUp size={14} />
+                                </button>
+                                <button onClick={() => moveEntry(i, 1)} disabled={isWorking || i === entries.length - 1} style={iconButtonStyle} aria-label={t('documentOps.moveDown')}>
+                                    <ArrowDown size={14} />
+                                </button>
+                                <button
+                                    onClick={() => setEntries(prev => prev.filter(e => e.id !== entry.id))}
+                                    disabled={isWorking}
+                                    style={iconButtonStyle}
+                                    aria-label={t('documentOps.remove')}
+                                >
+                                    <Trash size={14} />
+                                </button>
+                            </div>
+                        ))}
+
+                        <label style={{ ...optionRowStyle, justifyContent: 'center', padding: '8px 0 4px 0', color: '#0078D4' }}>
+                            <FilePlus size={16} />
+                            {t('documentOps.addFiles')}
+                            <input
+                                type="file"
+                                accept="application/pdf,.pdf"
+                                multiple
+                                disabled={isWorking}
+                                onChange={e => { addFiles(e.target.files); e.target.value = ''; }}
+                                style={{ display: 'none' }}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                {/* Options */}
+                <label style={{ ...optionRowStyle, marginBottom: '16px' }}>
+                    <input type="checkbox" checked={includeEdits} disabled={isWorking} onChange={e => setIncludeEdits(e.target.checked)} />
+                    {t('documentOps.includeEdits')}
+                </label>
+
+                {isWorking && (
+                    <div style={{ height: '4px', marginBottom: '12px', backgroundColor: '#E0E0E0', borderRadius: '2px', overflow: 'hidden' }}>
+                        <div style={{ width: `${progress}%`, height: '100%', backgroundColor: '#0078D4', transition: 'width 0.2s ease' }} />
+                    </div>
+                )}
+
+                {error && (
+                    <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#D13438' }}>
+                        {t('documentOps.error', { message: error })}
+                    </p>
+                )}
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button onClick={onClose} disabled={isWorking} style={secondaryButtonStyle}>
+                        {t('documentOps.close')}
+                    </button>
+                    {tab === 'split' ? (
+                        <button
+                            onClick={() => run(() => onExportParts(parts, includeEdits))}
+                            disabled={isWorking || parts.length === 0}
+                            style={{ ...primaryButtonStyle, opacity: isWorking || parts.length === 0 ? 0.5 : 1 }}
+                        >
+                            {parts.length > 1 ? t('documentOps.saveZip') : t('documentOps.save')}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => run(() => onMerge(entries, includeEdits))}
+                            disabled={isWorking || entries.length < 2}
+                            style={{ ...primaryButtonStyle, opacity: isWorking || entries.length < 2 ? 0.5 : 1 }}
+                        >
+                            {t('documentOps.merge')}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
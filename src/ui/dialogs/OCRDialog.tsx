@@ -0,0 +1,232 @@
+/**
+ * OCRDialog - 텍스트 인식(OCR) 다이얼로그
+ * 인식 언어와 대상 페이지를 고르고, 페이지별 진행률을 보며 작업을 취소할 수 있습니다.
+ */
+
+import { useState } from 'react';
+import { Scan } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import { DEFAULT_OCR_LANGUAGES, OCR_LANGUAGE_CODES } from '../../core/ocr/ocrLayer';
+import type { OCRProgressEvent } from '../../core/events/EventTypes';
+import type { OCRScope, OCRStartOptions, OCRSummary } from '../hooks/useOCR';
+
+interface OCRDialogProps {
+    isRunning: boolean;
+    progress: OCRProgressEvent | null;
+    summary: OCRSummary | null;
+    error: string | null;
+    onStart: (options: OCRStartOptions) => void;
+    onCancel: () => void;
+    onClose: () => void;
+}
+
+const optionRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#333333',
+    cursor: 'pointer',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+export function OCRDialog({ isRunning, progress, summary, error, onStart, onCancel, onClose }: OCRDialogProps) {
+    const { t } = useTranslation();
+    const [languages, setLanguages] = useState<string[]>(DEFAULT_OCR_LANGUAGES);
+    const [scope, setScope] = useState<OCRScope>('current');
+    const [includeTextPages, setIncludeTextPages] = useState(false);
+
+    const toggleLanguage = (code: string) => {
+        setLanguages(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+    };
+
+    const percent = Math.round((progress?.progress ?? 0) * 100);
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={isRunning ? undefined : onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 8px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <Scan size={20} weight="duotone" color="#0078D4" />
+                    {t('ocr.title')}
+                </h3>
+
+                <p style={{ margin: '0 0 20px 0', fontSize: '13px', color: '#666666' }}>
+                    {t('ocr.description')}
+                </p>
+
+                {/* Languages */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('ocr.languages')}</p>
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                        {OCR_LANGUAGE_CODES.map(code => (
+                            <label key={code} style={optionRowStyle}>
+                                <input
+                                    type="checkbox"
+                                    checked={languages.includes(code)}
+                                    disabled={isRunning}
+                                    onChange={() => toggleLanguage(code)}
+                                />
+                                {t(`ocr.language.${code}`)}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Pages */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('ocr.pages')}</p>
+                    <div style={{ display: 'flex', gap: '16px' }}>
+                        {(['current', 'all'] as const).map(value => (
+                            <label key={value} style={optionRowStyle}>
+                                <input
+                                    type="radio"
+                                    name="ocr-scope"
+                                    checked={scope === value}
+                                    disabled={isRunning}
+                                    onChange={() => setScope(value)}
+                                />
+                                {t(`ocr.scope.${value}`)}
+                            </label>
+                        ))}
+                    </div>
+                    <label style={{ ...optionRowStyle, marginTop: '8px' }}>
+                        <input
+                            type="checkbox"
+                            checked={includeTextPages}
+                            disabled={isRunning}
+                            onChange={e => setIncludeTextPages(e.target.checked)}
+                        />
+                        {t('ocr.includeTextPages')}
+                    </label>
+                </div>
+
+                {/* Progress */}
+                {isRunning && (
+                    <div style={{ marginBottom: '16px' }}>
+                        <div style={{ height: '6px', borderRadius: '3px', backgroundColor: '#eeeeee', overflow: 'hidden' }}>
+                            <div style={{
+                                width: `${percent}%`,
+                                height: '100%',
+                                backgroundColor: '#0078D4',
+                                transition: 'width 0.2s',
+                            }} />
+                        </div>
+                        <div style={{ marginTop: '6px', fontSize: '12px', color: '#888888' }}>
+                            {progress
+                                ? t('ocr.progress', { page: progress.pageIndex + 1, total: progress.totalPages, percent })
+                                : t('ocr.preparing')}
+                        </div>
+                    </div>
+                )}
+
+                {/* Result */}
+                {!isRunning && summary && (
+                    <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#2e7d32' }}>
+                        {summary.cancelled
+                            ? t('ocr.cancelled', { pages: summary.pageCount, words: summary.wordCount })
+                            : summary.pageCount === 0
+                                ? t('ocr.nothingToRecognize')
+                                : t('ocr.completed', { pages: summary.pageCount, words: summary.wordCount })}
+                    </p>
+                )}
+                {!isRunning && error && (
+                    <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#d32f2f' }}>
+                        {t('ocr.failed', { error })}
+                    </p>
+                )}
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    {isRunning ? (
+                        <button
+                            onClick={onCancel}
+                            style={{
+                                padding: '8px 16px',
+                                border: '1px solid #d32f2f',
+                                borderRadius: '6px',
+                                backgroundColor: '#FFFFFF',
+                                color: '#d32f2f',
+                                fontSize: '13px',
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {t('ocr.cancel')}
+                        </button>
+                    ) : (
+                        <>
+                            <button
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    border: 'none',
+                                    borderRadius: '6px',
+                                    backgroundColor: 'transparent',
+                                    color: '#888888',
+                                    fontSize: '13px',
+                                    cursor: 'pointer',
+                                }}
+                            >
+                                {t('ocr.close')}
+                            </button>
+                            <button
+                                onClick={() => onStart({ languages, scope, includeTextPages })}
+                                disabled={languages.length === 0}
+                                style={{
+                                    padding: '8px 16px',
+                                    border: 'none',
+                                    borderRadius: '6px',
+                                    backgroundColor: '#0078D4',
+                                    color: '#FFFFFF',
+                                    fontSize: '13px',
+                                    cursor: languages.length === 0 ? 'not-allowed' : 'pointer',
+                                    opacity: languages.length === 0 ? 0.6 : 1,
+                                }}
+                            >
+                                {t('ocr.start')}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
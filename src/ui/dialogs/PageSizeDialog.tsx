@@ -0,0 +1,229 @@
+/**
+ * PageSizeDialog - 페이지 크기 변경 다이얼로그
+ * 표준 용지(A4, Letter, A3)와 방향을 고르고, 내용을 맞출지/원래 크기로 둘지와
+ * 붙일 위치를 정합니다. 현재 페이지 또는 모든 페이지에 적용합니다.
+ */
+
+import { useState } from 'react';
+import { FrameCorners } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import type { PageAnchor, PageContentFit, PageOrientation, PageSizeName } from '../../core/page/pageGeometry';
+import type { PageResizeRequest } from '../hooks/usePageGeometryActions';
+
+export type PageResizeScope = 'page' | 'all';
+
+interface PageSizeDialogProps {
+    onApply: (request: PageResizeRequest, scope: PageResizeScope) => void;
+    onClose: () => void;
+}
+
+const SIZES: (PageSizeName | 'original')[] = ['original', 'a4', 'letter', 'a3'];
+const ORIENTATIONS: PageOrientation[] = ['auto', 'portrait', 'landscape'];
+const FITS: PageContentFit[] = ['fit', 'actual'];
+const ANCHORS: PageAnchor[] = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+
+const optionRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#333333',
+    cursor: 'pointer',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+export function PageSizeDialog({ onApply, onClose }: PageSizeDialogProps) {
+    const { t } = useTranslation();
+    const [size, setSize] = useState<PageSizeName | 'original'>('a4');
+    const [orientation, setOrientation] = useState<PageOrientation>('auto');
+    const [fit, setFit] = useState<PageContentFit>('fit');
+    const [anchor, setAnchor] = useState<PageAnchor>('center');
+    const [scope, setScope] = useState<PageResizeScope>('page');
+    const resizing = size !== 'original';
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '400px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <FrameCorners size={20} weight="duotone" color="#0078D4" />
+                    {t('pageSize.title')}
+                </h3>
+
+                {/* Size */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('pageSize.size')}</p>
+                    <select
+                        value={size}
+                        onChange={e => setSize(e.target.value as PageSizeName | 'original')}
+                        style={{ width: '100%', padding: '8px 10px', border: '1px solid #d0d0d0', borderRadius: '6px', fontSize: '13px' }}
+                    >
+                        {SIZES.map(option => (
+                            <option key={option} value={option}>{t(`pageSize.sizes.${option}`)}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {resizing && (
+                    <>
+                        {/* Orientation */}
+                        <div style={{ marginBottom: '16px' }}>
+                            <p style={sectionLabelStyle}>{t('pageSize.orientation')}</p>
+                            <div style={{ display: 'flex', gap: '16px' }}>
+                                {ORIENTATIONS.map(option => (
+                                    <label key={option} style={optionRowStyle}>
+                                        <input
+                                            type="radio"
+                                            name="page-size-orientation"
+                                            checked={orientation === option}
+                                            onChange={() => setOrientation(option)}
+                                        />
+                                        {t(`pageSize.orientations.${option}`)}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Content */}
+                        <div style={{ marginBottom: '16px', display: 'flex', gap: '24px' }}>
+                            <div style={{ flex: 1 }}>
+                                <p style={sectionLabelStyle}>{t('pageSize.content')}</p>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                    {FITS.map(option => (
+                                        <label key={option} style={optionRowStyle}>
+                                            <input
+                                                type="radio"
+                                                name="page-size-fit"
+                                                checked={fit === option}
+                                                onChange={() => setFit(option)}
+                                            />
+                                            {t(`pageSize.fits.${option}`)}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('pageSize.anchor')}</p>
+                                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 20px)', gap: '4px' }}>
+                                    {ANCHORS.map(option => (
+                                        <button
+                                            key={option}
+                                            title={option}
+                                            aria-pressed={anchor === option}
+                                            onClick={() => setAnchor(option)}
+                                            style={{
+                                                width: '20px',
+                                                height: '20px',
+                                                padding: 0,
+                                                border: '1px solid #d0d0d0',
+                                                borderRadius: '3px',
+                                                backgroundColor: anchor === option ? '#0078D4' : '#FFFFFF',
+                                                cursor: 'pointer',
+                                            }}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {/* Pages */}
+                <div style={{ marginBottom: '20px' }}>
+                    <p style={sectionLabelStyle}>{t('pageSize.pages')}</p>
+                    <div style={{ display: 'flex', gap: '16px' }}>
+                        {(['page', 'all'] as const).map(option => (
+                            <label key={option} style={optionRowStyle}>
+                                <input
+                                    type="radio"
+                                    name="page-size-scope"
+                                    checked={scope === option}
+                                    onChange={() => setScope(option)}
+                                />
+                                {t(`pageSize.scope.${option}`)}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button onClick={onClose} style={secondaryButtonStyle}>
+                        {t('pageSize.cancel')}
+                    </button>
+                    <button
+                        onClick={() => {
+                            onApply({ size, orientation, fit, anchor }, scope);
+                            onClose();
+                        }}
+                        style={primaryButtonStyle}
+                    >
+                        {t('pageSize.apply')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
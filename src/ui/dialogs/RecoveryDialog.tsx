@@ -0,0 +1,197 @@
+/**
+ * RecoveryDialog - 저장되지 않은 편집 세션 복구 다이얼로그
+ * 앱 시작 시 IndexedDB에 자동 저장된 이전 세션이 있으면 표시됩니다.
+ */
+
+import { ClockCounterClockwise, FilePdf, Trash } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import type { AutosaveSessionMeta } from '../../core/services/StorageManager';
+
+interface RecoveryDialogProps {
+    sessions: AutosaveSessionMeta[];
+    isRestoring: boolean;
+    onRestore: (id: string) => void;
+    onDiscard: (id: string) => void;
+    onDismiss: () => void;
+}
+
+export function RecoveryDialog({ sessions, isRestoring, onRestore, onDiscard, onDismiss }: RecoveryDialogProps) {
+    const { t, locale } = useTranslation();
+
+    const formatTime = (timestamp: number) =>
+        new Date(timestamp).toLocaleString(locale === 'ko' ? 'ko-KR' : 'en-US', {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+        });
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={isRestoring ? undefined : onDismiss}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '440px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 8px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <ClockCounterClockwise size={20} weight="duotone" color="#0078D4" />
+                    {t('recovery.title')}
+                </h3>
+
+                <p style={{
+                    margin: '0 0 20px 0',
+                    fontSize: '13px',
+                    color: '#666666',
+                }}>
+                    {isRestoring ? t('recovery.restoring') : t('recovery.description')}
+                </p>
+
+                {/* Sessions */}
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', maxHeight: '360px', overflowY: 'auto' }}>
+                    {sessions.map(session => (
+                        <div
+                            key={session.id}
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '12px',
+                                padding: '10px 12px',
+                                border: '1px solid #e0e0e0',
+                                borderRadius: '8px',
+                            }}
+                        >
+                            {/* Thumbnail */}
+                            <div style={{
+                                width: '48px',
+                                height: '60px',
+                                flexShrink: 0,
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                backgroundColor: '#f5f5f5',
+                                border: '1px solid #eeeeee',
+                                borderRadius: '4px',
+                                overflow: 'hidden',
+                            }}>
+                                {session.thumbnail ? (
+                                    <img
+                                        src={session.thumbnail}
+                                        alt=""
+                                        style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
+                                    />
+                                ) : (
+                                    <FilePdf size={24} weight="duotone" color="#999999" />
+                                )}
+                            </div>
+
+                            {/* Info */}
+                            <div style={{ flex: 1, minWidth: 0 }}>
+                                <div style={{
+                                    fontSize: '14px',
+                                    fontWeight: 500,
+                                    color: '#1a1a1a',
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap',
+                                }}>
+                                    {session.name}
+                                </div>
+                                <div style={{ fontSize: '12px', color: '#888888', marginTop: '2px' }}>
+                                    {formatTime(session.savedAt)} · {t('recovery.pages', { count: session.pageCount })}
+                                </div>
+                            </div>
+
+                            {/* Actions */}
+                            <button
+                                onClick={() => onRestore(session.id)}
+                                disabled={isRestoring}
+                                style={{
+                                    padding: '6px 12px',
+                                    border: 'none',
+                                    borderRadius: '6px',
+                                    backgroundColor: '#0078D4',
+                                    color: '#FFFFFF',
+                                    fontSize: '13px',
+                                    cursor: isRestoring ? 'wait' : 'pointer',
+                                    opacity: isRestoring ? 0.6 : 1,
+                                }}
+                            >
+                                {t('recovery.restore')}
+                            </button>
+                            <button
+                                onClick={() => onDiscard(session.id)}
+                                disabled={isRestoring}
+                                title={t('recovery.discard')}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    width: '28px',
+                                    height: '28px',
+                                    border: 'none',
+                                    borderRadius: '6px',
+                                    backgroundColor: 'transparent',
+                                    color: '#888888',
+                                    cursor: isRestoring ? 'wait' : 'pointer',
+                                }}
+                                onMouseEnter={e => e.currentTarget.style.color = '#d32f2f'}
+                                onMouseLeave={e => e.currentTarget.style.color = '#888888'}
+                            >
+                                <Trash size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Later */}
+                <button
+                    onClick={onDismiss}
+                    disabled={isRestoring}
+                    style={{
+                        display: 'block',
+                        width: '100%',
+                        marginTop: '14px',
+                        padding: '10px',
+                        border: 'none',
+                        borderRadius: '6px',
+                        backgroundColor: 'transparent',
+                        color: '#888888',
+                        fontSize: '13px',
+                        cursor: 'pointer',
+                    }}
+                    onMouseEnter={e => e.currentTarget.style.color = '#333333'}
+                    onMouseLeave={e => e.currentTarget.style.color = '#888888'}
+                >
+                    {t('recovery.later')}
+                </button>
+            </div>
+        </div>
+    );
+}
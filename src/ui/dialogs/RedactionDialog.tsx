@@ -0,0 +1,235 @@
+/**
+ * RedactionDialog - 패턴/검색어로 가림 영역 표시 다이얼로그
+ * 이메일·전화번호·주민등록번호 같은 패턴이나 사용자 지정 텍스트, 현재 검색어와 일치하는 곳에
+ * 가림 주석을 추가합니다. 실제 내용 제거는 내보낼 때 이루어집니다.
+ */
+
+import { useState } from 'react';
+import { EyeSlash } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import type { RedactionPreset } from '../../core/redaction/redaction';
+import type { RedactionMarkResult, RedactionRequest, RedactionScope } from '../hooks/useRedactions';
+
+interface RedactionDialogProps {
+    isMarking: boolean;
+    onMark: (request: RedactionRequest) => Promise<RedactionMarkResult>;
+    onClose: () => void;
+}
+
+const PRESETS: RedactionPreset[] = ['email', 'phone', 'rrn'];
+
+const optionRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    color: '#333333',
+    cursor: 'pointer',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+export function RedactionDialog({ isMarking, onMark, onClose }: RedactionDialogProps) {
+    const { t } = useTranslation();
+    const searchQuery = useSearchStore(s => s.query);
+    const [presets, setPresets] = useState<RedactionPreset[]>([]);
+    const [custom, setCustom] = useState('');
+    const [customIsRegex, setCustomIsRegex] = useState(false);
+    const [includeSearch, setIncludeSearch] = useState(false);
+    const [scope, setScope] = useState<RedactionScope>('all');
+    const [result, setResult] = useState<RedactionMarkResult | null>(null);
+
+    const togglePreset = (preset: RedactionPreset) => {
+        setPresets(prev => prev.includes(preset) ? prev.filter(p => p !== preset) : [...prev, preset]);
+        setResult(null);
+    };
+
+    const handleMark = async () => {
+        setResult(await onMark({ presets, custom, customIsRegex, includeSearch: includeSearch && !!searchQuery, scope }));
+    };
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={isMarking ? undefined : onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '440px',
+                    maxWidth: '90vw',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <EyeSlash size={20} weight="duotone" color="#0078D4" />
+                    {t('redaction.title')}
+                </h3>
+
+                <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                    {t('redaction.description')}
+                </p>
+
+                {/* Presets */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('redaction.presets')}</p>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        {PRESETS.map(preset => (
+                            <label key={preset} style={optionRowStyle}>
+                                <input
+                                    type="checkbox"
+                                    checked={presets.includes(preset)}
+                                    disabled={isMarking}
+                                    onChange={() => togglePreset(preset)}
+                                />
+                                {t(`redaction.preset.${preset}`)}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Custom */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('redaction.custom')}</p>
+                    <input
+                        type="text"
+                        value={custom}
+                        disabled={isMarking}
+                        placeholder={t('redaction.customPlaceholder')}
+                        onChange={e => {
+                            setCustom(e.target.value);
+                            setResult(null);
+                        }}
+                        style={{
+                            width: '100%',
+                            boxSizing: 'border-box',
+                            padding: '8px 10px',
+                            border: '1px solid #d0d0d0',
+                            borderRadius: '6px',
+                            fontSize: '13px',
+                        }}
+                    />
+                    <label style={{ ...optionRowStyle, marginTop: '6px' }}>
+                        <input
+                            type="checkbox"
+                            checked={customIsRegex}
+                            disabled={isMarking}
+                            onChange={e => {
+                                setCustomIsRegex(e.target.checked);
+                                setResult(null);
+                            }}
+                        />
+                        {t('redaction.regex')}
+                    </label>
+                    <label style={{ ...optionRowStyle, marginTop: '6px', opacity: searchQuery ? 1 : 0.5 }}>
+                        <input
+                            type="checkbox"
+                            checked={includeSearch && !!searchQuery}
+                            disabled={isMarking || !searchQuery}
+                            onChange={e => {
+                                setIncludeSearch(e.target.checked);
+                                setResult(null);
+                            }}
+                        />
+                        {searchQuery ? t('redaction.searchQuery', { query: searchQuery }) : t('redaction.noSearchQuery')}
+                    </label>
+                </div>
+
+                {/* Pages */}
+                <div style={{ marginBottom: '16px' }}>
+                    <p style={sectionLabelStyle}>{t('redaction.pages')}</p>
+                    <div style={{ display: 'flex', gap: '16px' }}>
+                        {(['current', 'all'] as const).map(option => (
+                            <label key={option} style={optionRowStyle}>
+                                <input
+                                    type="radio"
+                                    name="redaction-scope"
+                                    checked={scope === option}
+                                    disabled={isMarking}
+                                    onChange={() => setScope(option)}
+                                />
+                                {t(`redaction.scope.${option}`)}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Result */}
+                {result && (
+                    <p style={{
+                        margin: '0 0 16px 0',
+                        fontSize: '12px',
+                        color: 'error' in result ? '#d32f2f' : result.count > 0 ? '#2e7d32' : '#666666',
+                    }}>
+                        {'error' in result
+                            ? t(`redaction.error.${result.error}`)
+                            : result.count > 0 ? t('redaction.marked', { count: result.count }) : t('redaction.noMatches')}
+                    </p>
+                )}
+
+                <p style={{ margin: '0 0 16px 0', fontSize: '11px', color: '#888888' }}>
+                    {t('redaction.exportNote')}
+                </p>
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button onClick={onClose} disabled={isMarking} style={secondaryButtonStyle}>
+                        {t('redaction.close')}
+                    </button>
+                    <button onClick={handleMark} disabled={isMarking} style={{ ...primaryButtonStyle, opacity: isMarking ? 0.6 : 1 }}>
+                        {isMarking ? t('redaction.marking') : t('redaction.mark')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,638 @@
+/**
+ * SignatureDialog - 서명 다이얼로그
+ * 저장한 서명 탭은 서명/이니셜 목록을 보여 주고, 누르면 선택한 자리 표시를 채우거나 현재 페이지에 놓습니다.
+ * 채우기/서명 도우미(날짜 입력란, 모든 페이지 이니셜, 자리 표시 추가, 다음 자리 표시)도 이 탭에 있습니다.
+ * 그리기/입력/이미지 탭은 손글씨, 필기체 글꼴, PNG/SVG 파일로 새 서명을 만듭니다.
+ */
+
+import { useRef, useState } from 'react';
+import { PenNib, X, UploadSimple, Eraser, CalendarBlank, ArrowRight } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import { SIGNATURE_FONTS, createSignatureAnnotation } from '../../core/signatures/signatureLibrary';
+import type { SavedSignature } from '../../core/signatures/signatureLibrary';
+import { appendStrokePoint } from '../../core/signatures/signatureStrokes';
+import { buildSmoothPath } from '../../core/io/annotationGeometry';
+import type { Point, SignatureKind } from '../../core/model/types';
+import { SignatureFace } from '../viewer/annotations/SignatureAnnotation';
+import type { SignatureOptions } from '../hooks/useSignatures';
+
+interface SignatureDialogProps {
+    signatures: SavedSignature[];
+    activeId: string | null;
+    placeholderCount: number;
+    onSaveDrawn: (strokes: Point[][], options: SignatureOptions) => SavedSignature | null;
+    onSaveTyped: (text: string, fontFamily: string, options: SignatureOptions) => Promise<SavedSignature | null>;
+    onSaveImage: (file: File, options: SignatureOptions) => Promise<SavedSignature | null>;
+    onUse: (signature: SavedSignature) => boolean;
+    onRemove: (id: string) => void;
+    onAddDateField: () => boolean;
+    onAddInitials: (signature: SavedSignature) => number;
+    onAddPlaceholder: (kind: SignatureKind) => boolean;
+    onNextPlaceholder: () => boolean;
+    onClose: () => void;
+}
+
+type SignatureTab = 'saved' | 'draw' | 'type' | 'image';
+
+const COLOR_CHOICES = ['#000000', '#1a237e', '#0078D4', '#d32f2f'];
+const STROKE_WIDTH_CHOICES = [1.5, 2.5, 4];
+const PAD_HEIGHT = 160;
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 6px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px 10px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '6px',
+    fontSize: '13px',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '3px 8px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '4px',
+    backgroundColor: '#FFFFFF',
+    color: '#333333',
+    fontSize: '11px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+};
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+    ...smallButtonStyle,
+    borderColor: active ? '#0078D4' : '#d0d0d0',
+    color: active ? '#0078D4' : '#333333',
+    backgroundColor: active ? '#E8F1FB' : '#FFFFFF',
+});
+
+const swatchStyle = (color: string, active: boolean): React.CSSProperties => ({
+    width: '20px',
+    height: '20px',
+    borderRadius: '50%',
+    border: active ? '2px solid #0078D4' : '1px solid #d0d0d0',
+    background: color,
+    cursor: 'pointer',
+    padding: 0,
+});
+
+const padStyle: React.CSSProperties = {
+    position: 'relative',
+    height: `${PAD_HEIGHT}px`,
+    marginBottom: '12px',
+    border: '1px dashed #c0c0c0',
+    borderRadius: '8px',
+    backgroundColor: '#fafafa',
+    overflow: 'hidden',
+};
+
+const disabledStyle = (style: React.CSSProperties, disabled: boolean): React.CSSProperties =>
+    (disabled ? { ...style, opacity: 0.5, cursor: 'not-allowed' } : style);
+
+/** 저장한 서명을 배치할 때 모양 그대로 그린 미리보기 (상자에 맞게 축소) */
+function SavedSignaturePreview({ signature, maxWidth, maxHeight }: {
+    signature: SavedSignature;
+    maxWidth: number;
+    maxHeight: number;
+}) {
+    const annotation = createSignatureAnnotation({ signature, pageId: 'preview', center: { x: 0, y: 0 } });
+    const { width, height } = annotation.bbox;
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    return (
+        <div style={{ position: 'relative', width: width * scale, height: height * scale }}>
+            <SignatureFace annotation={annotation} />
+        </div>
+    );
+}
+
+export function SignatureDialog({
+    signatures, activeId, placeholderCount,
+    onSaveDrawn, onSaveTyped, onSaveImage, onUse, onRemove,
+    onAddDateField, onAddInitials, onAddPlaceholder, onNextPlaceholder, onClose,
+}: SignatureDialogProps) {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<SignatureTab>(signatures.length > 0 ? 'saved' : 'draw');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const [kind, setKind] = useState<SignatureKind>('signature');
+    const [color, setColor] = useState(COLOR_CHOICES[0]);
+    const [strokeWidth, setStrokeWidth] = useState(STROKE_WIDTH_CHOICES[1]);
+
+    const [strokes, setStrokes] = useState<Point[][]>([]);
+    const drawingRef = useRef(false);
+
+    const [text, setText] = useState('');
+    const [fontFamily, setFontFamily] = useState(SIGNATURE_FONTS[0]);
+
+    const [imageFile, setImageFile] = useState<File | null>(null);
+    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+
+    const userSignatures = signatures.filter(s => s.kind === 'signature');
+    const userInitials = signatures.filter(s => s.kind === 'initials');
+    const initials = userInitials.find(s => s.id === activeId) ?? userInitials[0];
+    const options: SignatureOptions = { kind, color, strokeWidth };
+
+    const selectTab = (name: SignatureTab) => {
+        setTab(name);
+        setMessage(null);
+    };
+
+    const sign = (signature: SavedSignature) => {
+        if (onUse(signature)) {
+            onClose();
+        } else {
+            setMessage({ text: t('signature.noPage'), isError: true });
+        }
+    };
+
+    /** 돌아온 결과로 닫거나 안내 */
+    const runHelper = (done: boolean, failText: string) => {
+        if (done) {
+            onClose();
+        } else {
+            setMessage({ text: failText, isError: true });
+        }
+    };
+
+    // ── Draw pad ──
+
+    const padPoint = (e: React.PointerEvent<SVGSVGElement>): Point => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePadDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drawingRef.current = true;
+        setStrokes(prev => [...prev, [padPoint(e)]]);
+    };
+
+    const handlePadMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!drawingRef.current) return;
+        const point = padPoint(e);
+        setStrokes(prev => {
+            const last = prev[prev.length - 1];
+            const next = appendStrokePoint(last, point);
+            return next === last ? prev : [...prev.slice(0, -1), next];
+        });
+    };
+
+    const handlePadUp = () => {
+        drawingRef.current = false;
+    };
+
+    // ── Save ──
+
+    const handleImageFile = (file: File | undefined) => {
+        if (!file) return;
+        setImageFile(file);
+        setMessage(null);
+        const reader = new FileReader();
+        reader.onload = () => setImagePreview(reader.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    const save = async (andUse: boolean) => {
+        let signature: SavedSignature | null = null;
+        if (tab === 'draw') {
+            signature = onSaveDrawn(strokes, options);
+        } else if (tab === 'type') {
+            signature = await onSaveTyped(text, fontFamily, options);
+        } else if (tab === 'image' && imageFile) {
+            signature = await onSaveImage(imageFile, options);
+            if (!signature) {
+                setMessage({ text: t('signature.imageFailed'), isError: true });
+                return;
+            }
+        }
+        if (!signature) return;
+
+        setStrokes([]);
+        setText('');
+        setImageFile(null);
+        setImagePreview(null);
+        if (andUse) {
+            sign(signature);
+        } else {
+            selectTab('saved');
+        }
+    };
+
+    const saveDisabled = tab === 'draw'
+        ? strokes.every(stroke => stroke.length < 2)
+        : tab === 'type'
+            ? !text.trim()
+            : !imageFile;
+
+    const renderTile = (signature: SavedSignature) => (
+        <div key={signature.id} style={{ position: 'relative' }}>
+            <button
+                onClick={() => sign(signature)}
+                title={signature.text}
+                style={{
+                    width: '100%',
+                    height: '72px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    padding: '8px',
+                    border: signature.id === activeId ? '1px solid #0078D4' : '1px solid #e0e0e0',
+                    borderRadius: '8px',
+                    backgroundColor: '#fafafa',
+                    cursor: 'pointer',
+                }}
+            >
+                <SavedSignaturePreview signature={signature} maxWidth={180} maxHeight={48} />
+            </button>
+            <button
+                onClick={() => onRemove(signature.id)}
+                title={t('signature.delete')}
+                aria-label={t('signature.delete')}
+                style={{
+                    position: 'absolute',
+                    top: '4px',
+                    right: '4px',
+                    width: '18px',
+                    height: '18px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    padding: 0,
+                    border: 'none',
+                    borderRadius: '50%',
+                    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+                    color: '#666666',
+                    cursor: 'pointer',
+                }}
+            >
+                <X size={10} weight="bold" />
+            </button>
+        </div>
+    );
+
+    const renderGroup = (label: string, items: SavedSignature[]) => (
+        <>
+            <p style={sectionLabelStyle}>{label}</p>
+            {items.length > 0 ? (
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px', marginBottom: '16px' }}>
+                    {items.map(renderTile)}
+                </div>
+            ) : (
+                <p style={{ margin: '0 0 16px 0', fontSize: '12px', color: '#888888' }}>
+                    {t('signature.empty')}
+                </p>
+            )}
+        </>
+    );
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '480px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflowY: 'auto',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <PenNib size={20} weight="duotone" color="#0078D4" />
+                    {t('signature.title')}
+                </h3>
+
+                {/* Tabs */}
+                <div style={{ display: 'flex', gap: '4px', marginBottom: '16px', borderBottom: '1px solid #eeeeee' }}>
+                    {(['saved', 'draw', 'type', 'image'] as const).map(name => (
+                        <button
+                            key={name}
+                            onClick={() => selectTab(name)}
+                            style={{
+                                padding: '6px 12px',
+                                border: 'none',
+                                borderBottom: tab === name ? '2px solid #0078D4' : '2px solid transparent',
+                                backgroundColor: 'transparent',
+                                color: tab === name ? '#0078D4' : '#666666',
+                                fontSize: '13px',
+                                fontWeight: tab === name ? 600 : 400,
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {t(`signature.tab.${name}`)}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'saved' && (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('signature.savedDescription')}
+                        </p>
+
+                        {renderGroup(t('signature.kinds.signature'), userSignatures)}
+                        {renderGroup(t('signature.kinds.initials'), userInitials)}
+
+                        {/* Fill & Sign */}
+                        <p style={sectionLabelStyle}>{t('signature.fillAndSign')}</p>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '8px' }}>
+                            <button
+                                onClick={() => runHelper(onAddDateField(), t('signature.noPage'))}
+                                style={smallButtonStyle}
+                            >
+                                <CalendarBlank size={12} /> {t('signature.dateField')}
+                            </button>
+                            <button
+                                onClick={() => {
+                                    if (!initials) return;
+                                    const count = onAddInitials(initials);
+                                    setMessage({ text: t('signature.initialsAdded', { count }), isError: false });
+                                }}
+                                disabled={!initials}
+                                title={initials ? undefined : t('signature.needInitials')}
+                                style={disabledStyle(smallButtonStyle, !initials)}
+                            >
+                                {t('signature.initialsAllPages')}
+                            </button>
+                            <button
+                                onClick={() => runHelper(onAddPlaceholder('signature'), t('signature.noPage'))}
+                                style={smallButtonStyle}
+                            >
+                                {t('signature.addPlaceholder')}
+                            </button>
+                            <button
+                                onClick={() => runHelper(onAddPlaceholder('initials'), t('signature.noPage'))}
+                                style={smallButtonStyle}
+                            >
+                                {t('signature.addInitialsPlaceholder')}
+                            </button>
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '16px' }}>
+                            <button
+                                onClick={() => runHelper(onNextPlaceholder(), t('signature.noPlaceholders'))}
+                                disabled={placeholderCount === 0}
+                                style={disabledStyle(smallButtonStyle, placeholderCount === 0)}
+                            >
+                                {t('signature.nextPlaceholder')} <ArrowRight size={12} />
+                            </button>
+                            <span style={{ fontSize: '11px', color: '#888888' }}>
+                                {t('signature.placeholderCount', { count: placeholderCount })}
+                            </span>
+                        </div>
+                    </>
+                )}
+
+                {tab !== 'saved' && (
+                    <>
+                        {/* Kind / Color */}
+                        <div style={{ display: 'flex', gap: '24px', marginBottom: '12px' }}>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('signature.kind')}</p>
+                                <div style={{ display: 'flex', gap: '4px' }}>
+                                    {(['signature', 'initials'] as const).map(name => (
+                                        <button key={name} onClick={() => setKind(name)} style={chipStyle(kind === name)}>
+                                            {t(`signature.kinds.${name}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {tab !== 'image' && (
+                                <div>
+                                    <p style={sectionLabelStyle}>{t('signature.color')}</p>
+                                    <div style={{ display: 'flex', gap: '6px' }}>
+                                        {COLOR_CHOICES.map(choice => (
+                                            <button
+                                                key={choice}
+                                                title={choice}
+                                                onClick={() => setColor(choice)}
+                                                style={swatchStyle(choice, color === choice)}
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {tab === 'draw' && (
+                    <>
+                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '6px' }}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                <span style={{ fontSize: '11px', color: '#888888' }}>{t('signature.strokeWidth')}</span>
+                                {STROKE_WIDTH_CHOICES.map(width => (
+                                    <button key={width} onClick={() => setStrokeWidth(width)} style={chipStyle(strokeWidth === width)}>
+                                        {width}
+                                    </button>
+                                ))}
+                            </div>
+                            <button onClick={() => setStrokes([])} disabled={strokes.length === 0} style={disabledStyle(smallButtonStyle, strokes.length === 0)}>
+                                <Eraser size={12} /> {t('signature.clear')}
+                            </button>
+                        </div>
+                        <div style={padStyle}>
+                            {/* 서명 기준선 */}
+                            <div style={{
+                                position: 'absolute',
+                                left: '24px',
+                                right: '24px',
+                                bottom: '36px',
+                                borderTop: '1px solid #d0d0d0',
+                                pointerEvents: 'none',
+                            }} />
+                            <svg
+                                width="100%"
+                                height="100%"
+                                style={{ position: 'relative', display: 'block', touchAction: 'none', cursor: 'crosshair' }}
+                                onPointerDown={handlePadDown}
+                                onPointerMove={handlePadMove}
+                                onPointerUp={handlePadUp}
+                                onPointerCancel={handlePadUp}
+                            >
+                                {strokes.map((stroke, i) => (
+                                    <path
+                                        key={i}
+                                        d={buildSmoothPath(stroke)}
+                                        fill="none"
+                                        stroke={color}
+                                        strokeWidth={strokeWidth}
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                    />
+                                ))}
+                            </svg>
+                            {strokes.length === 0 && (
+                                <span style={{
+                                    position: 'absolute',
+                                    left: '24px',
+                                    bottom: '12px',
+                                    fontSize: '11px',
+                                    color: '#aaaaaa',
+                                    pointerEvents: 'none',
+                                }}>
+                                    {t('signature.drawHint')}
+                                </span>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {tab === 'type' && (
+                    <>
+                        <div style={{ marginBottom: '12px' }}>
+                            <input
+                                type="text"
+                                value={text}
+                                autoFocus
+                                placeholder={kind === 'initials' ? t('signature.typeInitialsPlaceholder') : t('signature.typePlaceholder')}
+                                onChange={e => setText(e.target.value)}
+                                style={inputStyle}
+                            />
+                        </div>
+                        <p style={sectionLabelStyle}>{t('signature.font')}</p>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px', marginBottom: '16px' }}>
+                            {SIGNATURE_FONTS.map(font => (
+                                <button
+                                    key={font}
+                                    onClick={() => setFontFamily(font)}
+                                    style={{
+                                        height: '56px',
+                                        padding: '0 12px',
+                                        border: fontFamily === font ? '1px solid #0078D4' : '1px solid #e0e0e0',
+                                        borderRadius: '8px',
+                                        backgroundColor: fontFamily === font ? '#E8F1FB' : '#fafafa',
+                                        color,
+                                        fontFamily: font,
+                                        fontSize: '24px',
+                                        overflow: 'hidden',
+                                        textOverflow: 'ellipsis',
+                                        whiteSpace: 'nowrap',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    {text.trim() || t('signature.fontSample')}
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                {tab === 'image' && (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('signature.imageDescription')}
+                        </p>
+                        <div style={{ marginBottom: '12px' }}>
+                            <button onClick={() => imageInputRef.current?.click()} style={smallButtonStyle}>
+                                <UploadSimple size={12} /> {t('signature.chooseImage')}
+                            </button>
+                            <input
+                                ref={imageInputRef}
+                                type="file"
+                                accept="image/png,image/svg+xml,.png,.svg"
+                                style={{ display: 'none' }}
+                                onChange={e => {
+                                    handleImageFile(e.target.files?.[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                        {imagePreview && (
+                            <div style={{ ...padStyle, display: 'flex', alignItems: 'center', justifyContent: 'center', borderStyle: 'solid' }}>
+                                <img src={imagePreview} alt="" style={{ maxWidth: '90%', maxHeight: '80%' }} />
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {message && (
+                    <p style={{ margin: '0 0 12px 0', fontSize: '12px', color: message.isError ? '#d32f2f' : '#2e7d32' }}>
+                        {message.text}
+                    </p>
+                )}
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button onClick={onClose} style={secondaryButtonStyle}>
+                        {t('signature.close')}
+                    </button>
+                    {tab !== 'saved' && (
+                        <>
+                            <button
+                                onClick={() => void save(false)}
+                                disabled={saveDisabled}
+                                style={disabledStyle({ ...secondaryButtonStyle, border: '1px solid #0078D4', color: '#0078D4' }, saveDisabled)}
+                            >
+                                {t('signature.save')}
+                            </button>
+                            <button
+                                onClick={() => void save(true)}
+                                disabled={saveDisabled}
+                                style={disabledStyle(primaryButtonStyle, saveDisabled)}
+                            >
+                                {t('signature.saveAndUse')}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
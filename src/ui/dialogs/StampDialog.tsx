@@ -0,0 +1,664 @@
+/**
+ * StampDialog - 스탬프 라이브러리 다이얼로그
+ * 라이브러리 탭은 기본 제공/사용자 스탬프를 보여 주고 눌러서 현재 페이지에 놓으며 묶음 파일을 내보내고 불러옵니다.
+ * 텍스트 탭은 토큰이 들어간 템플릿과 색상/모양/테두리로, 이미지 탭은 PNG/SVG(직인/도장)로 스탬프를 만듭니다.
+ */
+
+import { useRef, useState } from 'react';
+import { Stamp, X, DownloadSimple, UploadSimple } from 'phosphor-react';
+import { useTranslation } from '../../i18n';
+import {
+    STAMP_BORDER_STYLES,
+    STAMP_PACK_EXTENSION,
+    STAMP_SHAPES,
+    STAMP_TOKENS,
+    createStampAnnotation,
+    createStampDefinitionId,
+} from '../../core/stamps/stampLibrary';
+import type { StampDefinition, StampTokenValues } from '../../core/stamps/stampLibrary';
+import { StampFace } from '../viewer/annotations/StampAnnotation';
+import type { StampImage } from '../hooks/useStamps';
+
+interface StampDialogProps {
+    stamps: StampDefinition[];
+    tokenValues: () => StampTokenValues;
+    onInsert: (definition: StampDefinition) => boolean;
+    onSave: (definition: StampDefinition) => void;
+    onRemove: (id: string) => void;
+    onReadImage: (file: File) => Promise<StampImage | null>;
+    onExportPack: () => void;
+    onImportPack: (file: File) => Promise<number>;
+    onClose: () => void;
+}
+
+type StampDraft = Omit<StampDefinition, 'id'>;
+
+const STAMP_COLOR_CHOICES = ['#dc3545', '#0078D4', '#28a745', '#6f42c1', '#6c757d', '#000000'];
+const FILL_CHOICES = ['transparent', '#FFFFFF', '#FFF4E5'];
+
+const DEFAULT_TEXT_DRAFT: StampDraft = {
+    name: '',
+    template: '',
+    color: '#dc3545',
+    fill: 'transparent',
+    shape: 'rounded',
+    borderStyle: 'solid',
+    borderWidth: 2,
+    fontSize: 16,
+    width: 160,
+    height: 48,
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+    margin: '0 0 6px 0',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#666666',
+};
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px 10px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '6px',
+    fontSize: '13px',
+};
+
+const numberInputStyle: React.CSSProperties = {
+    ...inputStyle,
+    width: '64px',
+    padding: '4px 6px',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: '#0078D4',
+    color: '#FFFFFF',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '6px',
+    backgroundColor: 'transparent',
+    color: '#888888',
+    fontSize: '13px',
+    cursor: 'pointer',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '3px 8px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '4px',
+    backgroundColor: '#FFFFFF',
+    color: '#333333',
+    fontSize: '11px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+};
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+    ...smallButtonStyle,
+    borderColor: active ? '#0078D4' : '#d0d0d0',
+    color: active ? '#0078D4' : '#333333',
+    backgroundColor: active ? '#E8F1FB' : '#FFFFFF',
+});
+
+const swatchStyle = (color: string, active: boolean): React.CSSProperties => ({
+    width: '20px',
+    height: '20px',
+    borderRadius: '50%',
+    border: active ? '2px solid #0078D4' : '1px solid #d0d0d0',
+    background: color === 'transparent'
+        ? 'linear-gradient(135deg, #FFFFFF 45%, #d32f2f 45%, #d32f2f 55%, #FFFFFF 55%)'
+        : color,
+    cursor: 'pointer',
+    padding: 0,
+});
+
+const disabledStyle = (style: React.CSSProperties, disabled: boolean): React.CSSProperties =>
+    (disabled ? { ...style, opacity: 0.5, cursor: 'not-allowed' } : style);
+
+/** 정의를 그대로 그린 미리보기 (상자에 맞게 축소) */
+function StampPreview({ definition, values, maxWidth, maxHeight }: {
+    definition: StampDraft;
+    values: StampTokenValues;
+    maxWidth: number;
+    maxHeight: number;
+}) {
+    const annotation = createStampAnnotation({
+        definition: { ...definition, id: 'preview' },
+        pageId: 'preview',
+        center: { x: definition.width / 2, y: definition.height / 2 },
+        values,
+    });
+    const scale = Math.min(1, maxWidth / definition.width, maxHeight / definition.height);
+    return (
+        <div style={{ position: 'relative', width: definition.width * scale, height: definition.height * scale }}>
+            <StampFace annotation={annotation} scale={scale} />
+        </div>
+    );
+}
+
+export function StampDialog({
+    stamps, tokenValues,
+    onInsert, onSave, onRemove, onReadImage, onExportPack, onImportPack, onClose,
+}: StampDialogProps) {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<'library' | 'text' | 'image'>('library');
+    const [values] = useState(tokenValues);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const [draft, setDraft] = useState<StampDraft>(DEFAULT_TEXT_DRAFT);
+    const templateRef = useRef<HTMLInputElement>(null);
+
+    const [image, setImage] = useState<StampImage | null>(null);
+    const [imageName, setImageName] = useState('');
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const packInputRef = useRef<HTMLInputElement>(null);
+
+    const builtinStamps = stamps.filter(s => s.builtin);
+    const userStamps = stamps.filter(s => !s.builtin);
+
+    const updateDraft = (updates: Partial<StampDraft>) => setDraft(prev => ({ ...prev, ...updates }));
+
+    const place = (definition: StampDefinition) => {
+        if (onInsert(definition)) {
+            onClose();
+        } else {
+            setMessage({ text: t('stamp.noPage'), isError: true });
+        }
+    };
+
+    /** 커서 위치에 토큰 삽입 */
+    const insertToken = (token: string) => {
+        const input = templateRef.current;
+        const template = draft.template ?? '';
+        const start = input?.selectionStart ?? template.length;
+        const end = input?.selectionEnd ?? template.length;
+        const text = `{${token}}`;
+        updateDraft({ template: template.slice(0, start) + text + template.slice(end) });
+        requestAnimationFrame(() => {
+            input?.focus();
+            input?.setSelectionRange(start + text.length, start + text.length);
+        });
+    };
+
+    const saveTextStamp = (andPlace: boolean) => {
+        const template = (draft.template ?? '').trim();
+        if (!template) return;
+        const definition: StampDefinition = {
+            ...draft,
+            id: createStampDefinitionId(),
+            name: draft.name.trim() || template,
+            template,
+        };
+        onSave(definition);
+        if (andPlace) {
+            place(definition);
+        } else {
+            setDraft(DEFAULT_TEXT_DRAFT);
+            setTab('library');
+        }
+    };
+
+    const imageDraft: StampDraft | null = image && {
+        name: imageName.trim() || 'Stamp',
+        imageData: image.imageData,
+        color: '#dc3545',
+        fill: 'transparent',
+        shape: 'rectangle',
+        borderStyle: 'none',
+        borderWidth: 0,
+        fontSize: 16,
+        width: image.width,
+        height: image.height,
+    };
+
+    const handleImageFile = async (file: File | undefined) => {
+        if (!file) return;
+        const result = await onReadImage(file);
+        setImage(result);
+        setMessage(result ? null : { text: t('stamp.imageFailed'), isError: true });
+        if (result && !imageName) setImageName(file.name.replace(/\.[^/.]+$/, ''));
+    };
+
+    const saveImageStamp = (andPlace: boolean) => {
+        if (!imageDraft) return;
+        const definition: StampDefinition = { ...imageDraft, id: createStampDefinitionId() };
+        onSave(definition);
+        setImage(null);
+        setImageName('');
+        if (andPlace) {
+            place(definition);
+        } else {
+            setTab('library');
+        }
+    };
+
+    const handlePackFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const count = await onImportPack(file);
+            setMessage({ text: t('stamp.imported', { count }), isError: false });
+        } catch {
+            setMessage({ text: t('stamp.importFailed'), isError: true });
+        }
+    };
+
+    const renderTile = (stamp: StampDefinition) => (
+        <div key={stamp.id} style={{ position: 'relative' }}>
+            <button
+                onClick={() => place(stamp)}
+                title={stamp.template ?? stamp.name}
+                style={{
+                    width: '100%',
+                    height: '84px',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: '6px',
+                    padding: '8px',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '8px',
+                    backgroundColor: '#fafafa',
+                    cursor: 'pointer',
+                }}
+            >
+                <StampPreview definition={stamp} values={values} maxWidth={120} maxHeight={44} />
+                <span style={{
+                    maxWidth: '100%',
+                    fontSize: '11px',
+                    color: '#666666',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                }}>
+                    {stamp.name}
+                </span>
+            </button>
+            {!stamp.builtin && (
+                <button
+                    onClick={() => onRemove(stamp.id)}
+                    title={t('stamp.delete')}
+                    aria-label={t('stamp.delete')}
+                    style={{
+                        position: 'absolute',
+                        top: '4px',
+                        right: '4px',
+                        width: '18px',
+                        height: '18px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        padding: 0,
+                        border: 'none',
+                        borderRadius: '50%',
+                        backgroundColor: 'rgba(0, 0, 0, 0.08)',
+                        color: '#666666',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <X size={10} weight="bold" />
+                </button>
+            )}
+        </div>
+    );
+
+    const saveDisabled = tab === 'text' ? !(draft.template ?? '').trim() : !imageDraft;
+    const save = tab === 'text' ? saveTextStamp : saveImageStamp;
+
+    return (
+        <div
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 9999,
+            }}
+            onClick={onClose}
+        >
+            <div
+                style={{
+                    backgroundColor: '#FFFFFF',
+                    borderRadius: '12px',
+                    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+                    padding: '28px',
+                    width: '480px',
+                    maxWidth: '90vw',
+                    maxHeight: '90vh',
+                    overflowY: 'auto',
+                }}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Title */}
+                <h3 style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    margin: '0 0 16px 0',
+                    fontSize: '16px',
+                    fontWeight: 600,
+                    color: '#1a1a1a',
+                }}>
+                    <Stamp size={20} weight="duotone" color="#0078D4" />
+                    {t('stamp.title')}
+                </h3>
+
+                {/* Tabs */}
+                <div style={{ display: 'flex', gap: '4px', marginBottom: '16px', borderBottom: '1px solid #eeeeee' }}>
+                    {(['library', 'text', 'image'] as const).map(name => (
+                        <button
+                            key={name}
+                            onClick={() => {
+                                setTab(name);
+                                setMessage(null);
+                            }}
+                            style={{
+                                padding: '6px 12px',
+                                border: 'none',
+                                borderBottom: tab === name ? '2px solid #0078D4' : '2px solid transparent',
+                                backgroundColor: 'transparent',
+                                color: tab === name ? '#0078D4' : '#666666',
+                                fontSize: '13px',
+                                fontWeight: tab === name ? 600 : 400,
+                                cursor: 'pointer',
+                            }}
+                        >
+                            {t(`stamp.tab.${name}`)}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'library' && (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('stamp.libraryDescription')}
+                        </p>
+
+                        <p style={sectionLabelStyle}>{t('stamp.builtin')}</p>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', marginBottom: '16px' }}>
+                            {builtinStamps.map(renderTile)}
+                        </div>
+
+                        <p style={sectionLabelStyle}>{t('stamp.custom')}</p>
+                        {userStamps.length > 0 ? (
+                            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', marginBottom: '16px' }}>
+                                {userStamps.map(renderTile)}
+                            </div>
+                        ) : (
+                            <p style={{ margin: '0 0 16px 0', fontSize: '12px', color: '#888888' }}>
+                                {t('stamp.empty')}
+                            </p>
+                        )}
+
+                        {/* Stamp Pack */}
+                        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+                            <button onClick={() => packInputRef.current?.click()} style={smallButtonStyle}>
+                                <UploadSimple size={12} /> {t('stamp.importPack')}
+                            </button>
+                            <button
+                                onClick={onExportPack}
+                                disabled={userStamps.length === 0}
+                                style={disabledStyle(smallButtonStyle, userStamps.length === 0)}
+                            >
+                                <DownloadSimple size={12} /> {t('stamp.exportPack')}
+                            </button>
+                            <input
+                                ref={packInputRef}
+                                type="file"
+                                accept={`${STAMP_PACK_EXTENSION},application/json`}
+                                style={{ display: 'none' }}
+                                onChange={e => {
+                                    void handlePackFile(e.target.files?.[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                    </>
+                )}
+
+                {tab === 'text' && (
+                    <>
+                        {/* Name / Template */}
+                        <div style={{ marginBottom: '12px' }}>
+                            <p style={sectionLabelStyle}>{t('stamp.name')}</p>
+                            <input
+                                type="text"
+                                value={draft.name}
+                                placeholder={t('stamp.namePlaceholder')}
+                                onChange={e => updateDraft({ name: e.target.value })}
+                                style={inputStyle}
+                            />
+                        </div>
+                        <div style={{ marginBottom: '12px' }}>
+                            <p style={sectionLabelStyle}>{t('stamp.template')}</p>
+                            <input
+                                ref={templateRef}
+                                type="text"
+                                value={draft.template ?? ''}
+                                autoFocus
+                                placeholder={t('stamp.templatePlaceholder')}
+                                onChange={e => updateDraft({ template: e.target.value })}
+                                style={inputStyle}
+                            />
+                            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '4px', marginTop: '6px' }}>
+                                <span style={{ fontSize: '11px', color: '#888888' }}>{t('stamp.tokens')}</span>
+                                {STAMP_TOKENS.map(token => (
+                                    <button key={token} onClick={() => insertToken(token)} style={smallButtonStyle} title={`{${token}}`}>
+                                        {t(`stamp.token.${token}`)}
+                                    </button>
+                                ))}
+                            </div>
+                            {(draft.template ?? '').includes('{user}') && (
+                                <p style={{ margin: '4px 0 0 0', fontSize: '11px', color: '#888888' }}>{t('stamp.userHint')}</p>
+                            )}
+                        </div>
+
+                        {/* Color / Fill */}
+                        <div style={{ display: 'flex', gap: '24px', marginBottom: '12px' }}>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('stamp.color')}</p>
+                                <div style={{ display: 'flex', gap: '6px' }}>
+                                    {STAMP_COLOR_CHOICES.map(color => (
+                                        <button
+                                            key={color}
+                                            title={color}
+                                            onClick={() => updateDraft({ color })}
+                                            style={swatchStyle(color, draft.color === color)}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('stamp.fill')}</p>
+                                <div style={{ display: 'flex', gap: '6px' }}>
+                                    {FILL_CHOICES.map(fill => (
+                                        <button
+                                            key={fill}
+                                            title={fill === 'transparent' ? t('stamp.fillNone') : fill}
+                                            onClick={() => updateDraft({ fill })}
+                                            style={swatchStyle(fill, draft.fill === fill)}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Shape / Border */}
+                        <div style={{ marginBottom: '12px' }}>
+                            <p style={sectionLabelStyle}>{t('stamp.shape')}</p>
+                            <div style={{ display: 'flex', gap: '4px' }}>
+                                {STAMP_SHAPES.map(shape => (
+                                    <button key={shape} onClick={() => updateDraft({ shape })} style={chipStyle(draft.shape === shape)}>
+                                        {t(`stamp.shapes.${shape}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div style={{ marginBottom: '12px' }}>
+                            <p style={sectionLabelStyle}>{t('stamp.border')}</p>
+                            <div style={{ display: 'flex', gap: '4px' }}>
+                                {STAMP_BORDER_STYLES.map(borderStyle => (
+                                    <button
+                                        key={borderStyle}
+                                        onClick={() => updateDraft({ borderStyle })}
+                                        style={chipStyle(draft.borderStyle === borderStyle)}
+                                    >
+                                        {t(`stamp.borders.${borderStyle}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Font Size / Size */}
+                        <div style={{ display: 'flex', gap: '24px', marginBottom: '16px' }}>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('stamp.fontSize')}</p>
+                                <input
+                                    type="number"
+                                    min={4}
+                                    max={96}
+                                    value={draft.fontSize}
+                                    onChange={e => updateDraft({ fontSize: Math.max(4, Number(e.target.value) || 4) })}
+                                    style={numberInputStyle}
+                                />
+                            </div>
+                            <div>
+                                <p style={sectionLabelStyle}>{t('stamp.size')}</p>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                    <input
+                                        type="number"
+                                        min={10}
+                                        value={draft.width}
+                                        onChange={e => updateDraft({ width: Math.max(10, Number(e.target.value) || 10) })}
+                                        style={numberInputStyle}
+                                    />
+                                    <span style={{ fontSize: '12px', color: '#888888' }}>×</span>
+                                    <input
+                                        type="number"
+                                        min={10}
+                                        value={draft.height}
+                                        onChange={e => updateDraft({ height: Math.max(10, Number(e.target.value) || 10) })}
+                                        style={numberInputStyle}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Preview */}
+                        <p style={sectionLabelStyle}>{t('stamp.preview')}</p>
+                        <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            minHeight: '80px',
+                            padding: '12px',
+                            marginBottom: '16px',
+                            borderRadius: '8px',
+                            backgroundColor: '#f7f7f7',
+                        }}>
+                            <StampPreview definition={draft} values={values} maxWidth={400} maxHeight={120} />
+                        </div>
+                    </>
+                )}
+
+                {tab === 'image' && (
+                    <>
+                        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#666666' }}>
+                            {t('stamp.imageDescription')}
+                        </p>
+                        <div style={{ marginBottom: '12px' }}>
+                            <button onClick={() => imageInputRef.current?.click()} style={smallButtonStyle}>
+                                <UploadSimple size={12} /> {t('stamp.chooseImage')}
+                            </button>
+                            <input
+                                ref={imageInputRef}
+                                type="file"
+                                accept="image/png,image/svg+xml,.png,.svg"
+                                style={{ display: 'none' }}
+                                onChange={e => {
+                                    void handleImageFile(e.target.files?.[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                        {imageDraft && (
+                            <>
+                                <div style={{ marginBottom: '12px' }}>
+                                    <p style={sectionLabelStyle}>{t('stamp.name')}</p>
+                                    <input
+                                        type="text"
+                                        value={imageName}
+                                        placeholder={t('stamp.namePlaceholder')}
+                                        onChange={e => setImageName(e.target.value)}
+                                        style={inputStyle}
+                                    />
+                                </div>
+                                <p style={sectionLabelStyle}>{t('stamp.preview')}</p>
+                                <div style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    minHeight: '80px',
+                                    padding: '12px',
+                                    marginBottom: '16px',
+                                    borderRadius: '8px',
+                                    backgroundColor: '#f7f7f7',
+                                }}>
+                                    <StampPreview definition={imageDraft} values={values} maxWidth={400} maxHeight={160} />
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+
+                {message && (
+                    <p style={{ margin: '0 0 12px 0', fontSize: '12px', color: message.isError ? '#d32f2f' : '#2e7d32' }}>
+                        {message.text}
+                    </p>
+                )}
+
+                {/* Actions */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+                    <button onClick={onClose} style={secondaryButtonStyle}>
+                        {t('stamp.close')}
+                    </button>
+                    {tab !== 'library' && (
+                        <>
+                            <button
+                                onClick={() => save(false)}
+                                disabled={saveDisabled}
+                                style={disabledStyle({ ...secondaryButtonStyle, border: '1px solid #0078D4', color: '#0078D4' }, saveDisabled)}
+                            >
+                                {t('stamp.save')}
+                            </button>
+                            <button
+                                onClick={() => save(true)}
+                                disabled={saveDisabled}
+                                style={disabledStyle(primaryButtonStyle, saveDisabled)}
+                            >
+                                {t('stamp.saveAndInsert')}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -8,11 +8,15 @@
 
 import { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { X, FilePdf, FileImage } from 'phosphor-react';
+import { X, FilePdf, FileImage, BezierCurve } from 'phosphor-react';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
-import type { Document } from '../../core/model/types';
+import type { Document, ExportOptions, ImpositionMode } from '../../core/model/types';
 import { useExportHandler } from '../hooks/useExportHandler';
 import { ExportProgressIndicator } from './ExportProgressIndicator';
+import { PdfSigningSection } from './PdfSigningSection';
+import type { PdfSigningSettings } from './PdfSigningSection';
+import { savedSignatureToPng } from '../hooks/useSignatures';
+import { useSignatureStore } from '../../state/stores/SignatureStore';
 
 interface ExportPanelProps {
   document: Document;
@@ -23,12 +27,18 @@ interface ExportPanelProps {
 }
 
 export function ExportPanel({ document, pdfProxy, currentPageIndex, onClose, insertedPdfProxies }: ExportPanelProps) {
-  const [format, setFormat] = useState<'pdf' | 'png' | 'jpeg'>('pdf');
+  const [format, setFormat] = useState<'pdf' | 'png' | 'jpeg' | 'svg'>('pdf');
   const [pageRange, setPageRange] = useState<'all' | 'current' | 'custom'>('all');
   const [customPageRange, setCustomPageRange] = useState('');
   const [dpi, setDpi] = useState(300);
   const [quality, setQuality] = useState(90);
   const [useZip, setUseZip] = useState(true);
+  const [includeHidden, setIncludeHidden] = useState(false);
+  const [includeComments, setIncludeComments] = useState(true);
+  const [pdfMode, setPdfMode] = useState<NonNullable<ExportOptions['pdfMode']>>('vector');
+  const [imposition, setImposition] = useState<ImpositionMode | 'none'>('none');
+  const [signing, setSigning] = useState<PdfSigningSettings | null>(null);
+  const [flattenForms, setFlattenForms] = useState(false);
 
   const { isExporting, progress, success, pages, handleExport } = useExportHandler({
     document,
@@ -38,7 +48,40 @@ export function ExportPanel({ document, pdfProxy, currentPageIndex, onClose, ins
     insertedPdfProxies,
   });
 
-  const onExportClick = () => handleExport(format, pageRange, customPageRange, dpi, quality, useZip);
+  const hasFormFields = pages.some(p => !p.deleted && (p.formFields?.length ?? 0) > 0);
+
+  const onExportClick = async () => {
+    let signingOptions: ExportOptions['signing'];
+    if (format === 'pdf' && signing) {
+      if (!signing.credential) {
+        alert('서명할 인증서를 먼저 열어주세요.');
+        return;
+      }
+      const signature = useSignatureStore.getState().signatures.find(s => s.id === signing.signatureId);
+      signingOptions = {
+        credential: signing.credential,
+        reason: signing.reason.trim() || undefined,
+        location: signing.location.trim() || undefined,
+        appearance: signing.visible
+          ? { page: signing.page, imageData: (signature && await savedSignatureToPng(signature)) || undefined }
+          : undefined,
+      };
+    }
+    handleExport({
+      format,
+      pageRange,
+      customPageRange,
+      dpi,
+      quality,
+      useZip,
+      pdfMode,
+      imposition: imposition === 'none' ? undefined : imposition,
+      includeHiddenAnnotations: includeHidden,
+      includeComments,
+      signing: signingOptions,
+      flattenFormFields: flattenForms,
+    });
+  };
 
   const tabButtonStyle = (isSelected: boolean): React.CSSProperties => ({
     flex: 1,
@@ -111,6 +154,7 @@ export function ExportPanel({ document, pdfProxy, currentPageIndex, onClose, ins
                 { value: 'pdf' as const, icon: FilePdf, label: 'PDF' },
                 { value: 'png' as const, icon: FileImage, label: 'PNG' },
                 { value: 'jpeg' as const, icon: FileImage, label: 'JPEG' },
+                { value: 'svg' as const, icon: BezierCurve, label: 'SVG' },
               ].map((opt) => {
                 const Icon = opt.icon;
                 return (
@@ -163,8 +207,60 @@ export function ExportPanel({ document, pdfProxy, currentPageIndex, onClose, ins
             )}
           </div>
 
+          {/* PDF Mode */}
+          {format === 'pdf' && (
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>PDF 방식</label>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {[
+                  { value: 'vector' as const, label: '원본 유지 (텍스트 선택 가능)' },
+                  { value: 'annotations' as const, label: '주석 객체로 저장' },
+                  { value: 'raster' as const, label: '이미지로 렌더링' },
+                ].map((opt) => (
+                  <button
+                    key={opt.value}
+                    onClick={() => setPdfMode(opt.value)}
+                    disabled={isExporting}
+                    style={tabButtonStyle(pdfMode === opt.value)}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Imposition */}
+          {format === 'pdf' && (
+            <div style={{ marginBottom: '12px' }}>
+              <label style={labelStyle}>모아찍기</label>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {[
+                  { value: 'none' as const, label: '사용 안 함' },
+                  { value: '2up' as const, label: '2쪽' },
+                  { value: '4up' as const, label: '4쪽' },
+                  { value: 'booklet' as const, label: '소책자' },
+                ].map((opt) => (
+                  <button
+                    key={opt.value}
+                    onClick={() => setImposition(opt.value)}
+                    disabled={isExporting}
+                    style={tabButtonStyle(imposition === opt.value)}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Digital Signature */}
+          {format === 'pdf' && (
+            <PdfSigningSection value={signing} onChange={setSigning} disabled={isExporting} />
+          )}
+
           {/* ZIP Download Option */}
-          {(format === 'png' || format === 'jpeg') && (
+          {format !== 'pdf' && (
             <div style={{ marginBottom: '12px' }}>
               <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#333333', cursor: 'pointer' }}>
                 <input
@@ -178,9 +274,52 @@ export function ExportPanel({ document, pdfProxy, currentPageIndex, onClose, ins
             </div>
           )}
 
+          {/* Hidden Annotations */}
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#333333', cursor: 'pointer' }}>
+              <input
+                type="checkbox" checked={includeHidden}
+                onChange={(e) => setIncludeHidden(e.target.checked)}
+                disabled={isExporting}
+                style={{ width: '14px', height: '14px', cursor: 'pointer' }}
+              />
+              <span>숨긴 주석 포함</span>
+            </label>
+          </div>
+
+          {/* Review Comments */}
+          {format === 'pdf' && (
+            <div style={{ marginBottom: '12px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#333333', cursor: 'pointer' }}>
+                <input
+                  type="checkbox" checked={includeComments}
+                  onChange={(e) => setIncludeComments(e.target.checked)}
+                  disabled={isExporting}
+                  style={{ width: '14px', height: '14px', cursor: 'pointer' }}
+                />
+                <span>검토 댓글 포함 (PDF 메모 주석)</span>
+              </label>
+            </div>
+          )}
+
+          {/* Form Fields */}
+          {format === 'pdf' && hasFormFields && (
+            <div style={{ marginBottom: '12px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#333333', cursor: 'pointer' }}>
+                <input
+                  type="checkbox" checked={flattenForms}
+                  onChange={(e) => setFlattenForms(e.target.checked)}
+                  disabled={isExporting}
+                  style={{ width: '14px', height: '14px', cursor: 'pointer' }}
+                />
+                <span>양식 필드 평면화 (입력한 값을 페이지에 고정)</span>
+              </label>
+            </div>
+          )}
+
           {/* Quality */}
           <div style={{ marginBottom: '12px' }}>
-            <label style={labelStyle}>품질</label>
+            <label style={labelStyle}>{format === 'svg' ? '배경 해상도' : '품질'}</label>
             {format === 'jpeg' ? (
               <div style={{ backgroundColor: '#F5F5F5', borderRadius: '2px', padding: '8px' }}>
                 <input
@@ -0,0 +1,206 @@
+/**
+ * PdfSigningSection - PDF 내보내기의 전자서명 옵션
+ *
+ * .p12/.pfx 인증서와 비밀번호는 브라우저 안에서만 열고 (어디에도 저장하지 않음)
+ * 연 인증서의 서명자를 보여준다. 보이는 서명을 고르면 저장된 서명 이미지를 함께 넣는다.
+ */
+
+import { useState } from 'react';
+import { ShieldCheck, ShieldWarning } from 'phosphor-react';
+import { loadPkcs12 } from '../../core/signing/pkcs12';
+import type { SigningCredential } from '../../core/signing/pkcs12';
+import { useSignatureStore } from '../../state/stores/SignatureStore';
+
+export interface PdfSigningSettings {
+  credential: SigningCredential | null;
+  reason: string;
+  location: string;
+  visible: boolean;
+  page: 'first' | 'last';
+  /** 보이는 서명에 넣을 저장된 서명 (null이면 글자만) */
+  signatureId: string | null;
+}
+
+interface PdfSigningSectionProps {
+  /** null - 서명하지 않음 */
+  value: PdfSigningSettings | null;
+  onChange: (value: PdfSigningSettings | null) => void;
+  disabled: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%', padding: '6px 8px', fontSize: '12px',
+  borderRadius: '2px', border: '1px solid #D0D0D0',
+  backgroundColor: 'white', color: '#333333', outline: 'none', boxSizing: 'border-box',
+};
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#333333', cursor: 'pointer',
+};
+
+export function PdfSigningSection({ value, onChange, disabled }: PdfSigningSectionProps) {
+  const { signatures: saved, activeId } = useSignatureStore();
+  const signatures = saved.filter(s => s.kind === 'signature');
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (enabled: boolean) => {
+    onChange(enabled ? {
+      credential: null,
+      reason: '',
+      location: '',
+      visible: false,
+      page: 'last',
+      signatureId: signatures.some(s => s.id === activeId) ? activeId : signatures[0]?.id ?? null,
+    } : null);
+  };
+
+  const update = (changes: Partial<PdfSigningSettings>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const openCertificate = async () => {
+    if (!file || !value) return;
+    setIsOpening(true);
+    setError(null);
+    try {
+      const credential = await loadPkcs12(new Uint8Array(await file.arrayBuffer()), password);
+      update({ credential });
+      setPassword('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '인증서를 열 수 없습니다.');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const certificate = value?.credential?.certificate;
+  const expired = certificate ? Date.now() > certificate.notAfter.getTime() : false;
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <label style={checkboxLabelStyle}>
+        <input
+          type="checkbox" checked={!!value}
+          onChange={(e) => toggle(e.target.checked)}
+          disabled={disabled}
+          style={{ width: '14px', height: '14px', cursor: 'pointer' }}
+        />
+        <span>전자서명 (PKCS#12 인증서)</span>
+      </label>
+
+      {value && (
+        <div style={{ marginTop: '8px', padding: '8px', backgroundColor: '#F5F5F5', borderRadius: '2px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {certificate ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#333333' }}>
+              {expired
+                ? <ShieldWarning size={16} weight="duotone" color="#D32F2F" />
+                : <ShieldCheck size={16} weight="duotone" color="#2E7D32" />}
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{certificate.subjectName}</div>
+                <div style={{ fontSize: '11px', color: expired ? '#D32F2F' : '#666666' }}>
+                  발급자 {certificate.issuerName} · {expired ? '만료됨' : '만료'} {certificate.notAfter.toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={() => update({ credential: null })}
+                disabled={disabled}
+                style={{ padding: '4px 8px', fontSize: '11px', border: '1px solid #D0D0D0', borderRadius: '2px', backgroundColor: 'white', cursor: 'pointer' }}
+              >
+                변경
+              </button>
+            </div>
+          ) : (
+            <>
+              <input
+                type="file"
+                accept=".p12,.pfx,application/x-pkcs12"
+                onChange={(e) => { setFile(e.target.files?.[0] ?? null); setError(null); }}
+                disabled={disabled || isOpening}
+                style={{ fontSize: '12px' }}
+              />
+              <div style={{ display: 'flex', gap: '4px' }}>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') openCertificate(); }}
+                  placeholder="인증서 비밀번호"
+                  autoComplete="off"
+                  disabled={disabled || isOpening}
+                  style={inputStyle}
+                />
+                <button
+                  onClick={openCertificate}
+                  disabled={disabled || isOpening || !file}
+                  style={{
+                    padding: '6px 12px', fontSize: '12px', fontWeight: 500, borderRadius: '2px', border: 'none',
+                    backgroundColor: '#333333', color: 'white', whiteSpace: 'nowrap',
+                    cursor: !file || isOpening ? 'not-allowed' : 'pointer', opacity: !file || isOpening ? 0.5 : 1,
+                  }}
+                >
+                  {isOpening ? '여는 중...' : '열기'}
+                </button>
+              </div>
+              {error && <div style={{ fontSize: '11px', color: '#D32F2F' }}>{error}</div>}
+            </>
+          )}
+
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <input
+              type="text" value={value.reason}
+              onChange={(e) => update({ reason: e.target.value })}
+              placeholder="서명 사유 (선택)"
+              disabled={disabled}
+              style={inputStyle}
+            />
+            <input
+              type="text" value={value.location}
+              onChange={(e) => update({ location: e.target.value })}
+              placeholder="서명 장소 (선택)"
+              disabled={disabled}
+              style={inputStyle}
+            />
+          </div>
+
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox" checked={value.visible}
+              onChange={(e) => update({ visible: e.target.checked })}
+              disabled={disabled}
+              style={{ width: '14px', height: '14px', cursor: 'pointer' }}
+            />
+            <span>보이는 서명 표시 (오른쪽 아래)</span>
+          </label>
+
+          {value.visible && (
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <select
+                value={value.page}
+                onChange={(e) => update({ page: e.target.value as PdfSigningSettings['page'] })}
+                disabled={disabled}
+                style={{ ...inputStyle, cursor: 'pointer' }}
+              >
+                <option value="first">첫 페이지</option>
+                <option value="last">마지막 페이지</option>
+              </select>
+              <select
+                value={value.signatureId ?? ''}
+                onChange={(e) => update({ signatureId: e.target.value || null })}
+                disabled={disabled}
+                style={{ ...inputStyle, cursor: 'pointer' }}
+              >
+                <option value="">서명 이미지 없음</option>
+                {signatures.map((s, i) => (
+                  <option key={s.id} value={s.id}>{s.text || `저장된 서명 ${i + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
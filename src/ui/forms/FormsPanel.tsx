@@ -0,0 +1,204 @@
+/**
+ * FormsPanel - PDF 양식 패널
+ * 좌측 사이드바에 페이지별 양식 필드와 현재 값을 표시합니다. 항목을 누르면 해당 페이지로 이동하고,
+ * 양식 데이터를 JSON/FDF로 가져오거나 내보내고, 모든 값을 PDF의 초기값으로 되돌립니다.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { ArrowCounterClockwise, DownloadSimple, UploadSimple, Warning, X } from 'phosphor-react';
+import type { FormField } from '../../core/model/types';
+import { FORM_OFF_VALUE, collectFormFields, isFormFieldChecked, missingRequiredFields } from '../../core/forms/formFields';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useFormFields } from '../hooks/useFormFields';
+import { useTranslation } from '../../i18n';
+
+interface FormsPanelProps {
+    onClose: () => void;
+}
+
+interface FieldGroup {
+    pageId: string;
+    pageNumber: number;
+    /** 이름별 대표 위젯 (라디오 묶음은 하나로) */
+    fields: FormField[];
+}
+
+const toolButtonStyle: React.CSSProperties = { height: '24px', padding: '0 4px', gap: '2px', fontSize: '10px' };
+
+export function FormsPanel({ onClose }: FormsPanelProps) {
+    const { t } = useTranslation();
+    const pages = usePageStore(s => s.pages);
+    const currentPageId = usePageStore(s => s.currentPageId);
+    const { importFormData, exportFormData, resetForm } = useFormFields();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const allFields = useMemo(() => collectFormFields(pages), [pages]);
+    const missing = useMemo(() => missingRequiredFields(allFields), [allFields]);
+
+    const groups = useMemo(() => {
+        const result: FieldGroup[] = [];
+        pages.filter(p => !p.deleted).forEach((page, index) => {
+            if (!page.formFields?.length) return;
+            const seen = new Set<string>();
+            const fields = page.formFields.filter(field => !seen.has(field.name) && !!seen.add(field.name));
+            result.push({ pageId: page.id, pageNumber: index + 1, fields });
+        });
+        return result;
+    }, [pages]);
+
+    const fieldCount = groups.reduce((sum, group) => sum + group.fields.length, 0);
+
+    const handleImport = async (file: File) => {
+        try {
+            const result = await importFormData(file);
+            const imported = t('forms.imported', { count: Object.keys(result.values).length });
+            setMessage({
+                text: result.unknownFields.length > 0
+                    ? `${imported} ${t('forms.unknownFields', { names: result.unknownFields.join(', ') })}`
+                    : imported,
+                error: false,
+            });
+        } catch (error) {
+            console.warn('⚠️ 양식 데이터 가져오기 실패:', error);
+            setMessage({ text: t('forms.importFailed', { error: error instanceof Error ? error.message : String(error) }), error: true });
+        }
+    };
+
+    const handleReset = () => {
+        if (!window.confirm(t('forms.resetConfirm'))) return;
+        resetForm();
+        setMessage(null);
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+            {/* Actions */}
+            <div style={{ padding: 'var(--space-2)', borderBottom: '1px solid var(--color-border-light)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
+                    <span style={{ flex: 1, fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                        {t('forms.count', { count: fieldCount })}
+                    </span>
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }}
+                        onClick={() => fileInputRef.current?.click()}
+                        title={t('forms.import')} aria-label={t('forms.import')}>
+                        <UploadSimple size={12} />
+                    </button>
+                    <button className="btn-icon" style={toolButtonStyle}
+                        onClick={() => exportFormData('json')}
+                        title={t('forms.exportJson')} aria-label={t('forms.exportJson')}>
+                        <DownloadSimple size={12} /> JSON
+                    </button>
+                    <button className="btn-icon" style={toolButtonStyle}
+                        onClick={() => exportFormData('fdf')}
+                        title={t('forms.exportFdf')} aria-label={t('forms.exportFdf')}>
+                        <DownloadSimple size={12} /> FDF
+                    </button>
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }}
+                        onClick={handleReset}
+                        title={t('forms.reset')} aria-label={t('forms.reset')}>
+                        <ArrowCounterClockwise size={12} />
+                    </button>
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={onClose}
+                        title={t('forms.close')} aria-label={t('forms.close')}>
+                        <X size={14} />
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,.fdf,application/json,application/vnd.fdf"
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+
+                {message && (
+                    <div style={{ marginTop: '6px', fontSize: 'var(--font-size-xs)', color: message.error ? 'var(--color-danger)' : 'var(--color-text-secondary)' }}>
+                        {message.text}
+                    </div>
+                )}
+                {missing.length > 0 && (
+                    <div style={{ display: 'flex', alignItems: 'flex-start', gap: '4px', marginTop: '6px', fontSize: 'var(--font-size-xs)', color: 'var(--color-danger)' }}>
+                        <Warning size={12} style={{ flexShrink: 0, marginTop: '1px' }} />
+                        <span>{t('forms.missingRequired', { count: missing.length })}</span>
+                    </div>
+                )}
+                <div style={{ marginTop: '6px', fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                    {t('forms.hint')}
+                </div>
+            </div>
+
+            {/* Fields */}
+            <div style={{ flex: 1, overflowY: 'auto', padding: 'var(--space-1) 0' }}>
+                {groups.map(group => (
+                    <div key={group.pageId} style={{ marginBottom: 'var(--space-2)' }}>
+                        <div className="section__label" style={{ padding: '4px var(--space-2)' }}>
+                            {t('forms.page', { page: group.pageNumber })} · {group.fields.length}
+                        </div>
+                        {group.fields.map(field => (
+                            <FieldRow
+                                key={field.id}
+                                field={field}
+                                missing={missing.includes(field.name)}
+                                isCurrentPage={group.pageId === currentPageId}
+                                onSelect={() => usePageStore.getState().setCurrentPage(group.pageId)}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+// ── 필드 항목 ──────────────────────────────────
+
+interface FieldRowProps {
+    field: FormField;
+    missing: boolean;
+    isCurrentPage: boolean;
+    onSelect: () => void;
+}
+
+function FieldRow({ field, missing, isCurrentPage, onSelect }: FieldRowProps) {
+    const { t } = useTranslation();
+
+    const label = (value: string) => field.options?.find(o => o.value === value)?.label ?? value;
+    let summary: string;
+    if (field.type === 'checkbox') {
+        summary = isFormFieldChecked(field) ? t('forms.checked') : t('forms.unchecked');
+    } else if (Array.isArray(field.value)) {
+        summary = field.value.map(label).join(', ');
+    } else {
+        summary = field.value === FORM_OFF_VALUE && field.type === 'radio' ? '' : label(field.value);
+    }
+
+    return (
+        <div
+            onClick={onSelect}
+            style={{
+                margin: '0 var(--space-2) var(--space-1)',
+                padding: '4px 8px',
+                borderRadius: 'var(--radius-md)',
+                border: `1px solid ${missing ? 'var(--color-danger)' : 'var(--color-border-light)'}`,
+                backgroundColor: isCurrentPage ? 'var(--color-brand-light)' : 'var(--color-bg-card)',
+                cursor: 'pointer',
+                fontSize: 'var(--font-size-xs)',
+            }}
+        >
+            <div style={{ display: 'flex', alignItems: 'baseline', gap: '6px' }}>
+                <strong style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'var(--color-text-primary)' }}>
+                    {field.name}
+                </strong>
+                {field.required && <span style={{ color: missing ? 'var(--color-danger)' : 'var(--color-text-muted)' }}>{t('forms.required')}</span>}
+            </div>
+            <div style={{ marginTop: '2px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: summary ? 'var(--color-text-secondary)' : 'var(--color-text-muted)' }}>
+                {summary || t('forms.emptyValue')}
+            </div>
+        </div>
+    );
+}
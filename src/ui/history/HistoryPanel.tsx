@@ -0,0 +1,290 @@
+/**
+ * HistoryPanel - 편집 히스토리 패널
+ * 좌측 사이드바에 편집 항목(영향받은 페이지 썸네일 포함), 다른 갈래, 체크포인트를 표시합니다.
+ * 항목을 누르면 그 상태로 이동하고, 다른 갈래의 항목이면 그 갈래로 전환합니다.
+ */
+
+import { useMemo, useState } from 'react';
+import { BookmarkSimple, CaretDown, CaretRight, GitBranch, PencilSimple, X } from 'phosphor-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { HistoryBranch, HistoryEntry } from '../../state/stores/HistoryStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useThumbnailGenerator } from '../hooks/useThumbnailGenerator';
+import { useTranslation } from '../../i18n';
+import type { Page } from '../../core/model/types';
+
+interface HistoryPanelProps {
+    pdfProxy: PDFDocumentProxy | null;
+    insertedPdfPages: Set<string>;
+    insertedPdfProxies: Map<string, PDFDocumentProxy>;
+    onClose: () => void;
+}
+
+/** 항목이 영향을 준 첫 페이지 (삭제된 페이지는 스냅샷) */
+function affectedPage(entry: HistoryEntry, pages: Map<string, Page>): Page | null {
+    for (const action of entry.actions) {
+        if (!('pageId' in action)) continue;
+        const page = pages.get(action.pageId);
+        if (page) return page;
+        if (action.type === 'page') return action.after ?? action.before;
+    }
+    return null;
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    width: '100%',
+    padding: '4px var(--space-2)',
+    border: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontSize: 'var(--font-size-sm)',
+    color: 'var(--color-text-secondary)',
+    backgroundColor: 'transparent',
+};
+
+const THUMB_WIDTH = 28;
+
+export function HistoryPanel({ pdfProxy, insertedPdfPages, insertedPdfProxies, onClose }: HistoryPanelProps) {
+    const { t } = useTranslation();
+    const {
+        entries, branches, checkpoints, history, memoryUsage,
+        jumpTo, jumpToEntry, addCheckpoint, renameCheckpoint, removeCheckpoint, jumpToCheckpoint,
+    } = useHistoryStore();
+    const pages = usePageStore(s => s.pages);
+
+    const [checkpointName, setCheckpointName] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+    const [expandedBranches, setExpandedBranches] = useState<Set<string>>(new Set());
+
+    const currentIndex = history.currentIndex;
+
+    // 항목별 영향받은 페이지 + 썸네일 대상 (중복 제거)
+    const { entryPages, thumbnailPages } = useMemo(() => {
+        const byId = new Map(pages.map(p => [p.id, p]));
+        const entryPages = new Map<string, Page>();
+        const unique = new Map<string, Page>();
+        for (const entry of [...entries, ...branches.flatMap(b => b.entries)]) {
+            const page = affectedPage(entry, byId);
+            if (!page) continue;
+            entryPages.set(entry.id, page);
+            unique.set(page.id, page);
+        }
+        return { entryPages, thumbnailPages: [...unique.values()] };
+    }, [entries, branches, pages]);
+
+    const thumbnails = useThumbnailGenerator({
+        pages: thumbnailPages,
+        pdfProxy: pdfProxy!,
+        sidebarWidth: 0,
+        insertedPdfPages,
+        insertedPdfProxies,
+    });
+
+    const checkpointsAt = (entryId: string | null) => checkpoints.filter(c => c.entryId === entryId);
+    const branchesFrom = (entryId: string | null) => branches.filter(b => b.parentId === entryId);
+
+    const handleAddCheckpoint = () => {
+        const name = checkpointName.trim() || t('history.defaultCheckpoint', { n: checkpoints.length + 1 });
+        addCheckpoint(name);
+        setCheckpointName('');
+    };
+
+    const commitRename = () => {
+        if (editingId && editingName.trim()) renameCheckpoint(editingId, editingName.trim());
+        setEditingId(null);
+    };
+
+    const toggleBranch = (branchId: string) => {
+        setExpandedBranches(prev => {
+            const next = new Set(prev);
+            if (next.has(branchId)) next.delete(branchId); else next.add(branchId);
+            return next;
+        });
+    };
+
+    const renderThumbnail = (entry: HistoryEntry) => {
+        const page = entryPages.get(entry.id);
+        const src = page ? thumbnails[page.id] : undefined;
+        return (
+            <span style={{
+                flexShrink: 0,
+                width: `${THUMB_WIDTH}px`,
+                height: page ? `${Math.min(THUMB_WIDTH * 1.5, THUMB_WIDTH * page.height / page.width)}px` : `${THUMB_WIDTH}px`,
+                border: '1px solid var(--color-border-light)',
+                backgroundColor: 'var(--color-bg-card)',
+                overflow: 'hidden',
+            }}>
+                {src && <img src={src} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }} />}
+            </span>
+        );
+    };
+
+    const renderMarkers = (entryId: string | null) => checkpointsAt(entryId).map(c => (
+        <BookmarkSimple key={c.id} size={12} weight="fill" style={{ color: 'var(--color-brand)', flexShrink: 0 }} aria-label={c.name} />
+    ));
+
+    const renderEntry = (entry: HistoryEntry, options: { active: boolean; future: boolean; depth: number; onClick: () => void }) => (
+        <div key={entry.id}>
+            <button
+                onClick={options.onClick}
+                title={t('history.jump')}
+                style={{
+                    ...rowStyle,
+                    paddingLeft: `calc(var(--space-2) + ${options.depth * 12}px)`,
+                    backgroundColor: options.active ? 'var(--color-brand-light)' : 'transparent',
+                    opacity: options.future ? 0.5 : 1,
+                }}
+            >
+                {renderThumbnail(entry)}
+                <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {entry.description}
+                </span>
+                {renderMarkers(entry.id)}
+                <span style={{ fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)', flexShrink: 0 }}>
+                    {formatTime(entry.timestamp)}
+                </span>
+            </button>
+            {renderBranches(entry.id, options.depth + 1)}
+        </div>
+    );
+
+    // 이 지점에서 갈라진 갈래들 (펼치면 항목과 그 안의 갈래까지)
+    function renderBranches(parentId: string | null, depth: number): React.ReactNode {
+        return branchesFrom(parentId).map((branch: HistoryBranch) => {
+            const expanded = expandedBranches.has(branch.id);
+            return (
+                <div key={branch.id}>
+                    <button
+                        onClick={() => toggleBranch(branch.id)}
+                        style={{ ...rowStyle, paddingLeft: `calc(var(--space-2) + ${depth * 12}px)`, color: 'var(--color-text-muted)' }}
+                        aria-expanded={expanded}
+                    >
+                        {expanded ? <CaretDown size={10} /> : <CaretRight size={10} />}
+                        <GitBranch size={12} />
+                        <span style={{ fontSize: 'var(--font-size-xs)' }}>
+                            {t('history.branch', { count: branch.entries.length })}
+                        </span>
+                    </button>
+                    {expanded && branch.entries.map(entry => renderEntry(entry, {
+                        active: false,
+                        future: false,
+                        depth: depth + 1,
+                        onClick: () => jumpToEntry(entry.id),
+                    }))}
+                </div>
+            );
+        });
+    }
+
+    const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+            {/* Checkpoint input */}
+            <div style={{ padding: 'var(--space-2)', borderBottom: '1px solid var(--color-border-light)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input
+                        className="input-field"
+                        value={checkpointName}
+                        placeholder={t('history.checkpointPlaceholder')}
+                        onChange={e => setCheckpointName(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleAddCheckpoint(); }}
+                        aria-label={t('history.checkpointPlaceholder')}
+                        style={{ flex: 1, minWidth: 0 }}
+                    />
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={handleAddCheckpoint}
+                        title={t('history.addCheckpoint')} aria-label={t('history.addCheckpoint')}>
+                        <BookmarkSimple size={14} />
+                    </button>
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={onClose}
+                        title={t('history.close')} aria-label={t('history.close')}>
+                        <X size={14} />
+                    </button>
+                </div>
+                <div style={{ marginTop: '6px', fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                    {t('history.memory', { size: megabytes(memoryUsage), budget: megabytes(history.memoryBudget) })}
+                </div>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', padding: 'var(--space-1) 0' }}>
+                {/* Checkpoints */}
+                {checkpoints.length > 0 && (
+                    <div style={{ marginBottom: 'var(--space-2)' }}>
+                        <div className="section__label" style={{ padding: '4px var(--space-2)' }}>
+                            {t('history.checkpoints')}
+                        </div>
+                        {checkpoints.map(checkpoint => (
+                            <div key={checkpoint.id} style={{ display: 'flex', alignItems: 'center', paddingRight: 'var(--space-2)' }}>
+                                {editingId === checkpoint.id ? (
+                                    <input
+                                        className="input-field"
+                                        autoFocus
+                                        value={editingName}
+                                        onChange={e => setEditingName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={e => {
+                                            if (e.key === 'Enter') commitRename();
+                                            else if (e.key === 'Escape') setEditingId(null);
+                                        }}
+                                        style={{ flex: 1, minWidth: 0, margin: '2px var(--space-2)' }}
+                                    />
+                                ) : (
+                                    <button onClick={() => jumpToCheckpoint(checkpoint.id)} title={t('history.jump')} style={{ ...rowStyle, flex: 1, minWidth: 0 }}>
+                                        <BookmarkSimple size={12} weight="fill" style={{ color: 'var(--color-brand)', flexShrink: 0 }} />
+                                        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {checkpoint.name}
+                                        </span>
+                                    </button>
+                                )}
+                                <button className="btn-icon" style={{ width: '20px', height: '20px' }}
+                                    onClick={() => { setEditingId(checkpoint.id); setEditingName(checkpoint.name); }}
+                                    title={t('history.renameCheckpoint')} aria-label={t('history.renameCheckpoint')}>
+                                    <PencilSimple size={12} />
+                                </button>
+                                <button className="btn-icon" style={{ width: '20px', height: '20px' }}
+                                    onClick={() => removeCheckpoint(checkpoint.id)}
+                                    title={t('history.removeCheckpoint')} aria-label={t('history.removeCheckpoint')}>
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Timeline */}
+                <div className="section__label" style={{ padding: '4px var(--space-2)' }}>
+                    {t('history.title')}
+                </div>
+                <button
+                    onClick={() => jumpTo(-1)}
+                    title={t('history.jump')}
+                    style={{ ...rowStyle, backgroundColor: currentIndex === -1 ? 'var(--color-brand-light)' : 'transparent' }}
+                >
+                    <span style={{ flex: 1 }}>{t('history.initial')}</span>
+                    {renderMarkers(null)}
+                </button>
+                {renderBranches(null, 1)}
+                {entries.map((entry, index) => renderEntry(entry, {
+                    active: index === currentIndex,
+                    future: index > currentIndex,
+                    depth: 0,
+                    onClick: () => jumpTo(index),
+                }))}
+                {entries.length === 0 && (
+                    <div style={{ padding: 'var(--space-2)', fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                        {t('history.empty')}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 /**
  * useAnnotationActions — 주석 CRUD + 히스토리 기록
  *
- * Shell.tsx에서 추출. 주석 추가/삭제 시 HistoryStore에 자동 기록.
+ * Shell.tsx에서 추출. 주석 추가/수정/삭제 시 HistoryStore에 자동 기록.
+ * 드래그 중의 수정은 열린 트랜잭션(annotationGesture)에 모여 항목 하나가 된다.
  */
 
 import { useCallback } from 'react';
@@ -13,6 +14,25 @@ function generateAnnotationId(): string {
     return `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/** 주석 수정 + 히스토리 기록 (바뀐 것이 없으면 기록하지 않음) */
+export function updateAnnotationWithHistory(annotationId: string, updates: Partial<Annotation>): void {
+    const store = useAnnotationStore.getState();
+    const before = store.findAnnotation(annotationId);
+    store.updateAnnotation(annotationId, updates);
+    const after = useAnnotationStore.getState().findAnnotation(annotationId);
+    if (!before || !after || before === after) return;
+
+    useHistoryStore.getState().pushAction('주석 수정', [
+        {
+            type: 'update',
+            annotationId,
+            pageId: before.pageId,
+            before: { ...before },
+            after: { ...after },
+        },
+    ]);
+}
+
 interface UseAnnotationActionsOptions {
     currentPageId: string | null;
 }
@@ -73,5 +93,5 @@ export function useAnnotationActions({ currentPageId }: UseAnnotationActionsOpti
         [removeAnnotation],
     );
 
-    return { handleAddAnnotation, handleDeleteAnnotation };
+    return { handleAddAnnotation, handleUpdateAnnotation: updateAnnotationWithHistory, handleDeleteAnnotation };
 }
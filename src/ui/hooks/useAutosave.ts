@@ -0,0 +1,64 @@
+/**
+ * useAutosave — 자동 저장 및 시작 시 세션 복구 훅
+ *
+ * STORAGE_MANAGER 서비스로 편집 세션을 IndexedDB에 자동 저장하고,
+ * 앱 시작 시 이전에 저장되지 않은 세션 목록을 제공한다.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { resolveService } from '../../core/di/ContainerSetup';
+import { SERVICE_TOKENS } from '../../core/di/ServiceTokens';
+import type { AutosaveSessionMeta, StorageManager } from '../../core/services/StorageManager';
+import { PROJECT_FILE_EXTENSION, PROJECT_MIME_TYPE } from '../../core/io/projectFile';
+
+export function useAutosave(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [recoverableSessions, setRecoverableSessions] = useState<AutosaveSessionMeta[]>([]);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        const storage = resolveService<StorageManager>(SERVICE_TOKENS.STORAGE_MANAGER);
+        let cancelled = false;
+
+        // 현재 세션이 저장되기 전에 목록을 읽어야 이전 세션만 표시됨
+        storage.listSessions().then((sessions) => {
+            if (!cancelled) setRecoverableSessions(sessions);
+        });
+        storage.start(insertedPdfProxies);
+
+        return () => {
+            cancelled = true;
+            storage.stop();
+        };
+    }, [insertedPdfProxies]);
+
+    const restoreSession = useCallback(async (id: string) => {
+        const storage = resolveService<StorageManager>(SERVICE_TOKENS.STORAGE_MANAGER);
+        const session = recoverableSessions.find(s => s.id === id);
+        setIsRestoring(true);
+        try {
+            const archive = await storage.loadSession(id);
+            if (!archive) throw new Error('Session data not found');
+
+            const { FileService } = await import('../../core/services/FileService');
+            const file = new File([archive.slice()], `${session?.name ?? 'session'}${PROJECT_FILE_EXTENSION}`, { type: PROJECT_MIME_TYPE });
+            await storage.runSuspended(() => FileService.loadProjectFile(file, insertedPdfProxies));
+            setRecoverableSessions([]);
+        } catch (error) {
+            console.error('Session restore failed:', error);
+            alert(`세션 복구 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+        } finally {
+            setIsRestoring(false);
+        }
+    }, [insertedPdfProxies, recoverableSessions]);
+
+    const discardSession = useCallback(async (id: string) => {
+        const storage = resolveService<StorageManager>(SERVICE_TOKENS.STORAGE_MANAGER);
+        await storage.discardSession(id);
+        setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+    }, []);
+
+    const dismissRecovery = useCallback(() => setRecoverableSessions([]), []);
+
+    return { recoverableSessions, isRestoring, restoreSession, discardSession, dismissRecovery };
+}
@@ -0,0 +1,130 @@
+/**
+ * useBarcodes — 바코드/QR 스캔 및 삽입 훅
+ *
+ * 스캔: 페이지를 renderPageToCanvas로 렌더링해 코드를 찾고, 찾은 코드마다 페이지/영역/값을 돌려준다.
+ * 찾은 코드는 하이라이트 주석(값을 내용으로 저장해 검색 가능)으로 표시할 수 있다.
+ * 삽입: 텍스트로 코드를 만들어 현재 페이지 중앙에 벡터 BarcodeAnnotation으로 추가한다.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Annotation, BarcodeFormat } from '../../types/annotation';
+import { scanDocumentBarcodes } from '../../core/barcode/barcodeScanner';
+import type { BarcodeHit } from '../../core/barcode/barcodeScanner';
+import { createBarcodeAnnotation, validateBarcodeValue } from '../../core/barcode/barcodeEncoder';
+import type { BarcodeValueError } from '../../core/barcode/barcodeEncoder';
+import { createHighlightAnnotation } from '../../core/model/factories';
+import { usePageStore } from '../../state/stores/PageStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { AnnotationAction } from '../../state/stores/HistoryStore';
+
+export type BarcodeScanScope = 'current' | 'all';
+
+export type BarcodeInsertError = BarcodeValueError | 'tooLong' | 'noPage';
+
+const HIGHLIGHT_COLOR = '#22C55E';
+
+export function useBarcodes(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [isScanning, setIsScanning] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [hits, setHits] = useState<BarcodeHit[] | null>(null);
+    const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+    const scanIdRef = useRef(0);
+
+    const scan = useCallback(async (scope: BarcodeScanScope) => {
+        const scanId = ++scanIdRef.current;
+        const { pages, currentPageId } = usePageStore.getState();
+        const targets = scope === 'current' ? pages.filter(p => p.id === currentPageId) : pages;
+
+        setIsScanning(true);
+        setProgress({ done: 0, total: targets.length });
+        setHits(null);
+        setHighlightedIds([]);
+
+        try {
+            const result = await scanDocumentBarcodes({
+                pages: targets,
+                pdfProxy: usePDFStore.getState().pdfProxy,
+                insertedPdfProxies,
+                isCancelled: () => scanIdRef.current !== scanId,
+                onProgress: (done, total) => {
+                    if (scanIdRef.current === scanId) setProgress({ done, total });
+                },
+            });
+            if (result && scanIdRef.current === scanId) {
+                // 페이지 번호는 전체 문서 기준
+                setHits(result.map(hit => ({ ...hit, pageIndex: pages.findIndex(p => p.id === hit.pageId) })));
+            }
+        } finally {
+            if (scanIdRef.current === scanId) {
+                setIsScanning(false);
+                setProgress(null);
+            }
+        }
+    }, [insertedPdfProxies]);
+
+    const cancelScan = useCallback(() => {
+        scanIdRef.current++;
+        setIsScanning(false);
+        setProgress(null);
+    }, []);
+
+    /** 코드가 있는 페이지로 이동 */
+    const goToHit = useCallback((hit: BarcodeHit) => {
+        const { currentPageId, setCurrentPage } = usePageStore.getState();
+        if (hit.pageId !== currentPageId) setCurrentPage(hit.pageId);
+    }, []);
+
+    /** 찾은 코드 둘레에 하이라이트 추가 (하나의 히스토리 항목) */
+    const highlightHits = useCallback((targets: BarcodeHit[]) => {
+        const fresh = targets.filter(hit => !highlightedIds.includes(hit.id));
+        if (fresh.length === 0) return;
+
+        const { addAnnotationToPage } = useAnnotationStore.getState();
+        const actions: AnnotationAction[] = fresh.map(hit => {
+            const highlight = {
+                ...createHighlightAnnotation({ pageId: hit.pageId, bbox: hit.bbox, color: HIGHLIGHT_COLOR }),
+                content: hit.value,
+            };
+            addAnnotationToPage(hit.pageId, highlight);
+            return { type: 'add', annotationId: highlight.id, pageId: hit.pageId, before: null, after: { ...highlight } };
+        });
+
+        useHistoryStore.getState().pushAction('바코드 하이라이트', actions);
+        setHighlightedIds(prev => [...prev, ...fresh.map(hit => hit.id)]);
+    }, [highlightedIds]);
+
+    /** 현재 페이지 중앙에 코드 삽입 후 선택 */
+    const insertBarcode = useCallback((format: BarcodeFormat, value: string): BarcodeInsertError | null => {
+        const { pages, currentPageId } = usePageStore.getState();
+        const page = pages.find(p => p.id === currentPageId);
+        if (!page) return 'noPage';
+
+        const invalid = validateBarcodeValue(format, value);
+        if (invalid) return invalid;
+
+        let annotation: Annotation;
+        try {
+            annotation = createBarcodeAnnotation({
+                pageId: page.id,
+                format,
+                value,
+                center: { x: page.width / 2, y: page.height / 2 },
+            });
+        } catch {
+            return 'tooLong';
+        }
+
+        const { addAnnotationToPage, selectAnnotation } = useAnnotationStore.getState();
+        addAnnotationToPage(page.id, annotation);
+        useHistoryStore.getState().pushAction('바코드 삽입', [
+            { type: 'add', annotationId: annotation.id, pageId: page.id, before: null, after: { ...annotation } },
+        ]);
+        selectAnnotation(annotation.id);
+        return null;
+    }, []);
+
+    return { isScanning, progress, hits, highlightedIds, scan, cancelScan, goToHit, highlightHits, insertBarcode };
+}
@@ -22,6 +22,8 @@ export function useClipboardPaste(): void {
     useEffect(() => {
         const handlePaste = async (e: ClipboardEvent) => {
             if (isTextInputFocused()) return;
+            // 표 셀 붙여넣기 등 다른 곳에서 이미 처리함
+            if (e.defaultPrevented) return;
             if (!e.clipboardData?.items) return;
 
             const items = e.clipboardData.items;
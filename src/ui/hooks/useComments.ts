@@ -0,0 +1,84 @@
+/**
+ * useComments — 검토 댓글 편집 + 히스토리 기록 + 요약 다운로드
+ *
+ * 댓글 스레드(답글, 상태)는 comment 주석의 필드이므로 바꿀 때마다 주석 업데이트로 히스토리에 남긴다.
+ * 요약은 현재 문서의 모든 댓글(필터와 무관)을 CSV 또는 Markdown으로 내려받는다.
+ */
+
+import { useCallback } from 'react';
+import type { Annotation, CommentAnnotation, CommentStatus } from '../../types/annotation';
+import { collectComments, commentsToCsv, commentsToMarkdown, createComment, createCommentMessage } from '../../core/annotations/comments';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useCommentStore } from '../../state/stores/CommentStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useDocumentStore } from '../../state/documentStore';
+import { downloadBlob } from '../../utils/fileDownload';
+
+export type CommentSummaryFormat = 'csv' | 'markdown';
+
+function generateAnnotationId(): string {
+    return `annotation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** comment 주석 변경 + 히스토리 */
+function updateComment(id: string, description: string, update: (comment: CommentAnnotation) => Partial<CommentAnnotation>) {
+    const { annotations, updateAnnotation } = useAnnotationStore.getState();
+    const before = annotations.find((a): a is CommentAnnotation => a.id === id && a.type === 'comment');
+    if (!before) return;
+
+    updateAnnotation(id, { ...update(before), modifiedAt: Date.now() } as Partial<Annotation>);
+    const after = useAnnotationStore.getState().annotations.find(a => a.id === id);
+    useHistoryStore.getState().pushAction(description, [
+        { type: 'update', annotationId: id, pageId: before.pageId, before: { ...before }, after: after ? { ...after } : null },
+    ]);
+}
+
+export function useComments() {
+    /** 주석에 댓글 붙이기 (선택하고 댓글 패널 열기) */
+    const addCommentTo = useCallback((anchor: Annotation) => {
+        const comment = { ...createComment(anchor.pageId, { x: 0, y: 0 }, { anchor }), id: generateAnnotationId() } as CommentAnnotation;
+        const { addAnnotationToPage, selectAnnotation } = useAnnotationStore.getState();
+        addAnnotationToPage(anchor.pageId, comment);
+        useHistoryStore.getState().pushAction('댓글 추가', [
+            { type: 'add', annotationId: comment.id, pageId: comment.pageId, before: null, after: { ...comment } },
+        ]);
+        selectAnnotation(comment.id);
+        useCommentStore.getState().openComments();
+    }, []);
+
+    /** 스레드에 글 추가 (빈 댓글이면 본문) */
+    const postMessage = useCallback((id: string, text: string) => {
+        const body = text.trim();
+        if (!body) return;
+        const author = useCommentStore.getState().author.trim();
+        updateComment(id, '댓글 작성', (comment) => ({
+            thread: [...comment.thread, createCommentMessage(author, body)],
+        }));
+    }, []);
+
+    const setStatus = useCallback((id: string, status: CommentStatus) => {
+        updateComment(id, status === 'resolved' ? '댓글 해결' : '댓글 다시 열기', () => ({ status }));
+    }, []);
+
+    /** 답글 삭제 (본문은 댓글째 지운다) */
+    const removeMessage = useCallback((id: string, messageId: string) => {
+        updateComment(id, '답글 삭제', (comment) => ({
+            thread: comment.thread.filter(m => m.id !== messageId),
+        }));
+    }, []);
+
+    const downloadSummary = useCallback((format: CommentSummaryFormat) => {
+        const entries = collectComments(usePageStore.getState().pages, useAnnotationStore.getState().annotations);
+        const name = useDocumentStore.getState().document?.name ?? '';
+        const baseName = name.replace(/\.[^/.]+$/, '') || 'document';
+        if (format === 'csv') {
+            // Excel이 UTF-8로 읽도록 BOM
+            downloadBlob(new Blob(['\uFEFF', commentsToCsv(entries)], { type: 'text/csv;charset=utf-8' }), `${baseName}_comments.csv`);
+        } else {
+            downloadBlob(new Blob([commentsToMarkdown(entries, name || baseName)], { type: 'text/markdown;charset=utf-8' }), `${baseName}_comments.md`);
+        }
+    }, []);
+
+    return { addCommentTo, postMessage, setStatus, removeMessage, downloadSummary };
+}
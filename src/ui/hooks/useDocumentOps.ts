@@ -0,0 +1,139 @@
+/**
+ * useDocumentOps — 페이지 추출/나누기/병합 훅
+ *
+ * 나누기/추출: 부분마다 PDF 내보내기(원본 유지 방식)를 실행해 원본 페이지 객체를 복사하고,
+ * 여러 파일이면 ZIP으로 묶는다. 추가된 PDF의 페이지도 appendedFrom 원본에서 복사된다.
+ * 병합: 현재 문서와 놓은 PDF 파일을 고른 순서대로 페이지 객체 그대로 합친다.
+ */
+
+import { useCallback, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { ExportOptions, Page } from '../../core/model/types';
+import { exportDocument } from '../../core/io/exportEngine';
+import { mergePdfDocuments, partFileNames, zipPdfs } from '../../core/io/documentOps';
+import type { DocumentPart, PageBookmark } from '../../core/io/documentOps';
+import { loadSourceBookmarks, mapBookmarksToPages } from '../../core/pdf/pdfOutline';
+import type { SourceBookmark } from '../../core/pdf/pdfOutline';
+import { useDocumentStore } from '../../state/documentStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { downloadBlob, downloadUint8Array } from '../../utils/fileDownload';
+
+/** 병합 목록 항목 (현재 문서 또는 놓은 PDF 파일) */
+export type MergeEntry =
+    | { id: string; kind: 'current' }
+    | { id: string; kind: 'file'; file: File };
+
+/** 현재 페이지 + 주석 (내보내기 입력) */
+function pagesWithAnnotations(): Page[] {
+    const { annotations } = useAnnotationStore.getState();
+    return usePageStore.getState().pages.map(page => ({
+        ...page,
+        layers: { ...page.layers, annotations: annotations.filter(a => a.pageId === page.id) },
+    }));
+}
+
+function baseNameOf(name: string): string {
+    return name.replace(/\.[^/.]+$/, '') || 'document';
+}
+
+export function useDocumentOps(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [isWorking, setIsWorking] = useState(false);
+    const [progress, setProgress] = useState(0);
+
+    /** 현재 문서의 선택 페이지를 PDF로 (편집 내용 포함 여부 선택) */
+    const exportPages = useCallback(async (indices: number[] | 'all', includeEdits: boolean): Promise<Uint8Array> => {
+        const { document } = useDocumentStore.getState();
+        const { pdfProxy } = usePDFStore.getState();
+        if (!document || !pdfProxy) throw new Error('No document loaded');
+
+        const options: ExportOptions = {
+            format: 'pdf',
+            pages: indices,
+            pdfMode: 'vector',
+            includeAnnotations: includeEdits,
+            includeRasterLayers: includeEdits,
+        };
+        const result = await exportDocument(
+            pagesWithAnnotations(), pdfProxy, options, insertedPdfProxies, document.source.originalBytes,
+        );
+        if (!(result instanceof Uint8Array)) throw new Error('Unexpected PDF export result');
+        return result;
+    }, [insertedPdfProxies]);
+
+    /** 기본 문서와 추가된 PDF의 책갈피 → 현재 페이지 */
+    const loadBookmarks = useCallback(async (): Promise<PageBookmark[]> => {
+        const { pdfProxy } = usePDFStore.getState();
+        const sources: [string, PDFDocumentProxy][] = [
+            ...(pdfProxy ? [['', pdfProxy] as [string, PDFDocumentProxy]] : []),
+            ...insertedPdfProxies.entries(),
+        ];
+
+        const bookmarks: SourceBookmark[] = [];
+        for (const [key, proxy] of sources) {
+            try {
+                bookmarks.push(...await loadSourceBookmarks(proxy, key));
+            } catch (error) {
+                console.warn(`⚠️ [DocumentOps] Failed to read bookmarks of "${key || 'main'}":`, error);
+            }
+        }
+        return mapBookmarksToPages(bookmarks, usePageStore.getState().pages);
+    }, [insertedPdfProxies]);
+
+    /** 부분별 PDF 저장 (하나면 PDF, 여러 개면 ZIP) */
+    const exportParts = useCallback(async (parts: DocumentPart[], includeEdits: boolean) => {
+        const { document } = useDocumentStore.getState();
+        if (!document || parts.length === 0) return;
+
+        setIsWorking(true);
+        setProgress(0);
+        try {
+            const baseName = baseNameOf(document.name);
+            const names = partFileNames(baseName, parts);
+            const files = [];
+            for (const [i, part] of parts.entries()) {
+                files.push({ name: names[i], bytes: await exportPages(part.pages, includeEdits) });
+                setProgress(Math.round((i + 1) / parts.length * 90));
+            }
+
+            if (files.length === 1) {
+                downloadUint8Array(files[0].bytes, files[0].name, 'application/pdf');
+            } else {
+                downloadBlob(await zipPdfs(files), `${baseName}_split.zip`);
+            }
+            setProgress(100);
+        } finally {
+            setIsWorking(false);
+        }
+    }, [exportPages]);
+
+    /** 순서대로 병합해 저장 */
+    const mergeDocuments = useCallback(async (entries: MergeEntry[], includeEdits: boolean) => {
+        if (entries.length === 0) return;
+
+        setIsWorking(true);
+        setProgress(0);
+        try {
+            const sources: Uint8Array[] = [];
+            for (const [i, entry] of entries.entries()) {
+                sources.push(entry.kind === 'current'
+                    ? await exportPages('all', includeEdits)
+                    : new Uint8Array(await entry.file.arrayBuffer()));
+                setProgress(Math.round((i + 1) / entries.length * 80));
+            }
+
+            const merged = await mergePdfDocuments(sources);
+            const first = entries[0];
+            const firstName = first.kind === 'current'
+                ? useDocumentStore.getState().document?.name ?? 'document'
+                : first.file.name;
+            downloadUint8Array(merged, `${baseNameOf(firstName)}_merged.pdf`, 'application/pdf');
+            setProgress(100);
+        } finally {
+            setIsWorking(false);
+        }
+    }, [exportPages]);
+
+    return { isWorking, progress, loadBookmarks, exportParts, mergeDocuments };
+}
@@ -0,0 +1,68 @@
+/**
+ * useDocumentSearch — 문서 검색 실행 훅
+ *
+ * 검색 패널이 열려 있는 동안 검색어/옵션/페이지/주석 변경 시 디바운스하여 다시 검색하고,
+ * 현재 히트가 바뀌면 해당 페이지로 이동한다.
+ */
+
+import { useEffect } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { buildSearchPattern, searchDocument } from '../../core/search/textSearch';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export function useDocumentSearch(insertedPdfProxies: Map<string, PDFDocumentProxy>): void {
+    const isOpen = useSearchStore(s => s.isOpen);
+    const query = useSearchStore(s => s.query);
+    const options = useSearchStore(s => s.options);
+    const pages = usePageStore(s => s.pages);
+    const annotations = useAnnotationStore(s => s.annotations);
+    const pdfProxy = usePDFStore(s => s.pdfProxy);
+
+    // ── 검색 실행 ──
+    useEffect(() => {
+        if (!isOpen) return;
+        const { startSearch, setResults } = useSearchStore.getState();
+
+        if (!query) {
+            setResults([]);
+            return;
+        }
+        if (!buildSearchPattern(query, options)) {
+            setResults([], 'invalidPattern');
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            startSearch();
+            const hits = await searchDocument(query, options, {
+                pages,
+                annotations,
+                pdfProxy,
+                insertedPdfProxies,
+                isCancelled: () => cancelled,
+            });
+            if (!cancelled && hits) setResults(hits);
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isOpen, query, options, pages, annotations, pdfProxy, insertedPdfProxies]);
+
+    // ── 현재 히트의 페이지로 이동 ──
+    useEffect(() => {
+        return useSearchStore.subscribe((state, prev) => {
+            const hit = state.hits[state.activeIndex];
+            if (!hit || hit.id === prev.hits[prev.activeIndex]?.id) return;
+            const { currentPageId, setCurrentPage } = usePageStore.getState();
+            if (hit.pageId !== currentPageId) setCurrentPage(hit.pageId);
+        });
+    }, []);
+}
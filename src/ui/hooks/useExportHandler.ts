@@ -52,6 +52,21 @@ interface UseExportHandlerOptions {
     insertedPdfProxies?: Map<string, PDFDocumentProxy>;
 }
 
+/**
+ * 내보내기 요청 - ExportOptions에 패널의 페이지 범위/ZIP 선택을 더한 것
+ * (pages는 pageRange로 계산하고, quality는 0-100으로 받는다)
+ */
+export interface ExportRequest extends Partial<Omit<ExportOptions, 'format' | 'pages' | 'quality'>> {
+    format: 'pdf' | 'png' | 'jpeg' | 'svg';
+    pageRange: 'all' | 'current' | 'custom';
+    /** pageRange가 'custom'일 때 (예: "1-5", "1,3,5") */
+    customPageRange?: string;
+    /** JPEG 품질 (0-100) */
+    quality?: number;
+    /** 여러 장의 이미지를 ZIP 하나로 받기 */
+    useZip?: boolean;
+}
+
 export interface ExportState {
     isExporting: boolean;
     progress: number;
@@ -71,14 +86,20 @@ export function useExportHandler({
 
     const { pages } = usePageStore();
 
-    const handleExport = async (
-        format: 'pdf' | 'png' | 'jpeg',
-        pageRange: 'all' | 'current' | 'custom',
-        customPageRange: string,
-        dpi: number,
-        quality: number,
-        useZip: boolean,
-    ) => {
+    const handleExport = async ({
+        format,
+        pageRange,
+        customPageRange = '',
+        dpi,
+        quality = 90,
+        useZip = false,
+        pdfMode = 'vector',
+        imposition,
+        includeHiddenAnnotations = false,
+        includeComments = true,
+        signing,
+        flattenFormFields = false,
+    }: ExportRequest) => {
         try {
             setIsExporting(true);
             setProgress(0);
@@ -105,7 +126,13 @@ export function useExportHandler({
                 dpi,
                 quality: format === 'jpeg' ? quality / 100 : undefined,
                 includeAnnotations: true,
+                includeHiddenAnnotations,
+                includeComments,
                 includeRasterLayers: true,
+                pdfMode,
+                imposition,
+                flattenFormFields: format === 'pdf' && flattenFormFields,
+                signing: format === 'pdf' ? signing : undefined,
             };
 
             setProgress(10);
@@ -119,7 +146,9 @@ export function useExportHandler({
                 },
             }));
 
-            const result = await exportDocument(pagesWithAnnotations, pdfProxy, options, insertedPdfProxies);
+            const result = await exportDocument(
+                pagesWithAnnotations, pdfProxy, options, insertedPdfProxies, document.source.originalBytes,
+            );
             setProgress(80);
 
             const extension = format === 'pdf' ? 'pdf' : format;
@@ -130,7 +159,7 @@ export function useExportHandler({
                 setProgress(100);
             } else if (Array.isArray(result)) {
                 const isMultiplePages = result.length > 1;
-                const shouldUseZip = isMultiplePages && useZip && (format === 'png' || format === 'jpeg');
+                const shouldUseZip = isMultiplePages && useZip && format !== 'pdf';
 
                 if (shouldUseZip) {
                     setProgress(85);
@@ -9,6 +9,7 @@ import { useState, useCallback } from 'react';
 import { useDocumentStore } from '../../state/documentStore';
 import { usePageStore } from '../../state/stores/PageStore';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { PROJECT_FILE_EXTENSION } from '../../core/io/projectFile';
 
 // ── 반환 타입 ──
 
@@ -30,12 +31,22 @@ export interface FileDropHandlers {
 
 // ── 파일 로딩 유틸 ──
 
-async function loadFileAsReplace(file: File): Promise<void> {
+/** 프로젝트 파일(.jflux) 여부 - 추가 없이 항상 세션을 교체 */
+function isProjectFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+}
+
+async function loadFileAsReplace(
+    file: File,
+    insertedPdfProxies?: Map<string, PDFDocumentProxy>
+): Promise<void> {
     try {
         const { FileService } = await import('../../core/services/FileService');
         const ext = file.name.toLowerCase().split('.').pop();
 
-        if (file.type === 'application/pdf') {
+        if (isProjectFile(file)) {
+            await FileService.loadProjectFile(file, insertedPdfProxies);
+        } else if (file.type === 'application/pdf') {
             await FileService.loadPdfFile(file);
         } else if (file.type.startsWith('image/')) {
             await FileService.loadImageFile(file);
@@ -120,13 +131,13 @@ export function useFileDrop(
         }
 
         const { pages } = usePageStore.getState();
-        if (pages.length > 0) {
+        if (pages.length > 0 && !isProjectFile(file)) {
             setPendingDropFile(file);
             setShowDropDialog(true);
         } else {
-            await loadFileAsReplace(file);
+            await loadFileAsReplace(file, insertedPdfProxies);
         }
-    }, []);
+    }, [insertedPdfProxies]);
 
     // ── 파일 선택 (input[type=file]) ──
 
@@ -135,23 +146,23 @@ export function useFileDrop(
         if (!file) return;
 
         const { pages } = usePageStore.getState();
-        if (pages.length > 0) {
+        if (pages.length > 0 && !isProjectFile(file)) {
             setPendingDropFile(file);
             setShowDropDialog(true);
         } else {
-            await loadFileAsReplace(file);
+            await loadFileAsReplace(file, insertedPdfProxies);
         }
         e.target.value = '';
-    }, []);
+    }, [insertedPdfProxies]);
 
     // ── 다이얼로그 핸들러 ──
 
     const handleDropReplace = useCallback(async () => {
         if (!pendingDropFile) return;
         setShowDropDialog(false);
-        await loadFileAsReplace(pendingDropFile);
+        await loadFileAsReplace(pendingDropFile, insertedPdfProxies);
         setPendingDropFile(null);
-    }, [pendingDropFile]);
+    }, [pendingDropFile, insertedPdfProxies]);
 
     const handleDropAppend = useCallback(async (matchWidth: boolean) => {
         if (!pendingDropFile) return;
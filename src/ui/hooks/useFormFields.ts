@@ -0,0 +1,73 @@
+/**
+ * useFormFields — 양식 필드 입력 + 히스토리 기록 + 양식 데이터 가져오기/내보내기
+ *
+ * 값은 필드 이름 단위라 같은 이름의 위젯(라디오 묶음, 여러 페이지에 반복된 필드)이 함께 바뀐다.
+ * 바뀐 페이지의 formFields를 교체하므로 runPageCommand로 실행 취소할 수 있다.
+ */
+
+import { useCallback } from 'react';
+import type { FormFieldValue } from '../../core/model/types';
+import { applyFormValues, collectFormFields, defaultFormValues } from '../../core/forms/formFields';
+import { formValuesToFdf, formValuesToJson, parseFormFdf, parseFormJson } from '../../core/forms/formData';
+import type { FormDataFormat, FormDataImport } from '../../core/forms/formData';
+import { usePageStore } from '../../state/stores/PageStore';
+import { runPageCommand } from '../../state/stores/pageHistory';
+import { useDocumentStore } from '../../state/documentStore';
+import { downloadBlob } from '../../utils/fileDownload';
+
+/** 이름별 값을 모든 페이지의 위젯에 적용 (바뀐 페이지만 교체) */
+function updateFormValues(description: string, values: Record<string, FormFieldValue>) {
+    runPageCommand(description, () => {
+        const { pages, updatePage } = usePageStore.getState();
+        for (const page of pages) {
+            if (!page.formFields) continue;
+            const next = applyFormValues(page.formFields, values);
+            if (next !== page.formFields) updatePage(page.id, { formFields: next });
+        }
+    });
+}
+
+function documentBaseName(): string {
+    const name = useDocumentStore.getState().document?.name ?? '';
+    return name.replace(/\.[^/.]+$/, '') || 'document';
+}
+
+export function useFormFields() {
+    const setFieldValue = useCallback((name: string, value: FormFieldValue) => {
+        updateFormValues('양식 입력', { [name]: value });
+    }, []);
+
+    /** 모든 필드를 PDF의 초기값으로 */
+    const resetForm = useCallback(() => {
+        const fields = collectFormFields(usePageStore.getState().pages);
+        updateFormValues('양식 초기화', defaultFormValues(fields));
+    }, []);
+
+    /**
+     * JSON 또는 FDF 파일의 값을 적용
+     * @returns 적용한 값과 문서에 없는 필드 이름
+     */
+    const importFormData = useCallback(async (file: File): Promise<FormDataImport> => {
+        const fields = collectFormFields(usePageStore.getState().pages);
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const isFdf = /\.fdf$/i.test(file.name) || new TextDecoder('latin1').decode(bytes.subarray(0, 8)).startsWith('%FDF');
+        const result = isFdf
+            ? parseFormFdf(bytes, fields)
+            : parseFormJson(new TextDecoder().decode(bytes), fields);
+        updateFormValues('양식 데이터 가져오기', result.values);
+        return result;
+    }, []);
+
+    const exportFormData = useCallback((format: FormDataFormat) => {
+        const fields = collectFormFields(usePageStore.getState().pages);
+        const baseName = documentBaseName();
+        if (format === 'json') {
+            downloadBlob(new Blob([formValuesToJson(fields)], { type: 'application/json' }), `${baseName}_form.json`);
+        } else {
+            const name = useDocumentStore.getState().document?.name;
+            downloadBlob(new Blob([formValuesToFdf(fields, name)], { type: 'application/vnd.fdf' }), `${baseName}_form.fdf`);
+        }
+    }, []);
+
+    return { setFieldValue, resetForm, importFormData, exportFormData };
+}
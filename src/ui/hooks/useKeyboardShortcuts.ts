@@ -2,11 +2,12 @@
  * useKeyboardShortcuts — 전역 키보드 단축키 훅
  *
  * Shell.tsx에서 추출.
- * Ctrl+D (복제), Ctrl+V (붙여넣기) 등 전역 키보드 단축키를 처리.
+ * Ctrl+D (복제), Ctrl+V (붙여넣기), Ctrl+F (검색) 등 전역 키보드 단축키를 처리.
  */
 
 import { useEffect } from 'react';
 import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useSearchStore } from '../../state/stores/SearchStore';
 
 /** 텍스트 입력 필드에 포커스 중인지 확인 */
 function isTextInputFocused(): boolean {
@@ -19,10 +20,17 @@ function isTextInputFocused(): boolean {
 export function useKeyboardShortcuts(): void {
     useEffect(() => {
         const handleKeyDown = async (e: KeyboardEvent) => {
-            if (isTextInputFocused()) return;
-
             const mod = e.ctrlKey || e.metaKey;
 
+            // ── Ctrl+F: 문서 검색 (입력 중에도 브라우저 찾기 대신 사용) ──
+            if (mod && e.key.toLowerCase() === 'f') {
+                e.preventDefault();
+                useSearchStore.getState().openSearch();
+                return;
+            }
+
+            if (isTextInputFocused()) return;
+
             // ── Ctrl+D: 선택된 객체 복제 (그룹 인식) ──
             if (mod && e.key === 'd') {
                 e.preventDefault();
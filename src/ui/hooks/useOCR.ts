@@ -0,0 +1,124 @@
+/**
+ * useOCR — OCR 실행/진행률/취소 훅
+ *
+ * OCR_SERVICE로 페이지를 인식하고 EVENTS.OCR_* 이벤트로 진행률을 추적한다.
+ * 인식 결과는 페이지의 기존 OCR 단어를 대체하며 하나의 히스토리 항목으로 기록된다.
+ * 취소해도 그때까지 인식을 마친 페이지의 결과는 반영된다.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { resolveService } from '../../core/di/ContainerSetup';
+import { SERVICE_TOKENS } from '../../core/di/ServiceTokens';
+import { eventBus } from '../../core/events/EventBus';
+import { EVENTS } from '../../core/events/EventTypes';
+import type { OCRProgressEvent } from '../../core/events/EventTypes';
+import type { OCRRunResult, OCRService } from '../../core/services/OCRService';
+import type { Page } from '../../core/model/types';
+import { usePageStore } from '../../state/stores/PageStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { AnnotationAction } from '../../state/stores/HistoryStore';
+
+export type OCRScope = 'current' | 'all';
+
+export interface OCRStartOptions {
+    languages: string[];
+    scope: OCRScope;
+    /** 텍스트 레이어가 있는 PDF 페이지도 인식 */
+    includeTextPages: boolean;
+}
+
+export interface OCRSummary {
+    pageCount: number;
+    wordCount: number;
+    skippedCount: number;
+    cancelled: boolean;
+}
+
+/** 인식 결과를 주석 스토어에 반영 (페이지의 기존 OCR 단어 대체) */
+function applyOcrResult(result: OCRRunResult): number {
+    const { annotations, addAnnotationToPage, removeAnnotation } = useAnnotationStore.getState();
+    const actions: AnnotationAction[] = [];
+    let wordCount = 0;
+
+    for (const { pageId, annotations: words } of result.pages) {
+        for (const previous of annotations.filter(a => a.type === 'ocr' && a.pageId === pageId)) {
+            removeAnnotation(previous.id);
+            actions.push({ type: 'remove', annotationId: previous.id, pageId, before: { ...previous }, after: null });
+        }
+        for (const word of words) {
+            addAnnotationToPage(pageId, word);
+            actions.push({ type: 'add', annotationId: word.id, pageId, before: null, after: { ...word } });
+        }
+        wordCount += words.length;
+    }
+
+    if (actions.length > 0) {
+        useHistoryStore.getState().pushAction('OCR 텍스트 인식', actions);
+    }
+    return wordCount;
+}
+
+export function useOCR(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState<OCRProgressEvent | null>(null);
+    const [summary, setSummary] = useState<OCRSummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const jobIdRef = useRef<string | null>(null);
+
+    // ── 진행률 이벤트 (현재 작업만) ──
+    useEffect(() => {
+        const handleProgress = (event: OCRProgressEvent) => {
+            if (event.jobId === jobIdRef.current) setProgress(event);
+        };
+        eventBus.on(EVENTS.OCR_PROGRESS, handleProgress);
+        return () => eventBus.off(EVENTS.OCR_PROGRESS, handleProgress);
+    }, []);
+
+    const start = useCallback(async ({ languages, scope, includeTextPages }: OCRStartOptions) => {
+        const ocr = resolveService<OCRService>(SERVICE_TOKENS.OCR_SERVICE);
+        const { pages, currentPageId } = usePageStore.getState();
+        const targets: Page[] = scope === 'current'
+            ? pages.filter(p => p.id === currentPageId)
+            : pages.filter(p => !p.deleted);
+
+        const pdfProxyFor = (page: Page) => {
+            if (!page.pdfRef) return null;
+            if (page.pdfRef.appendedFrom) return insertedPdfProxies.get(page.pdfRef.appendedFrom) ?? null;
+            return usePDFStore.getState().pdfProxy;
+        };
+
+        const job = ocr.run({ pages: targets, languages, pdfProxyFor, includeTextPages });
+        jobIdRef.current = job.id;
+        setIsRunning(true);
+        setProgress(null);
+        setSummary(null);
+        setError(null);
+
+        try {
+            const result = await job.result;
+            const wordCount = applyOcrResult(result);
+            setSummary({
+                pageCount: result.pages.length,
+                wordCount,
+                skippedCount: result.skippedPageIds.length,
+                cancelled: result.cancelled,
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            if (jobIdRef.current === job.id) {
+                jobIdRef.current = null;
+                setIsRunning(false);
+            }
+        }
+    }, [insertedPdfProxies]);
+
+    const cancel = useCallback(() => {
+        resolveService<OCRService>(SERVICE_TOKENS.OCR_SERVICE).cancel();
+    }, []);
+
+    return { isRunning, progress, summary, error, start, cancel };
+}
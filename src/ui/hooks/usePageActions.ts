@@ -2,10 +2,12 @@
  * usePageActions — 페이지 핸들러 (순서변경, 복제, 삭제, 빈 페이지 추가, PDF 추가)
  *
  * Shell.tsx에서 추출. PageStore 조작을 캡슐화.
+ * 페이지 목록 변경은 runPageCommand로 실행 취소 히스토리에 기록된다.
  */
 
 import { useCallback } from 'react';
 import { usePageStore } from '../../state/stores/PageStore';
+import { runPageCommand } from '../../state/stores/pageHistory';
 import { createPage } from '../../core/model/factories';
 
 interface UsePageActionsOptions {
@@ -14,15 +16,15 @@ interface UsePageActionsOptions {
 
 export function usePageActions({ documentId }: UsePageActionsOptions) {
     const handlePageReorder = useCallback((pageIds: string[]) => {
-        usePageStore.getState().reorderPages(pageIds);
+        runPageCommand('페이지 순서 변경', () => usePageStore.getState().reorderPages(pageIds));
     }, []);
 
     const handlePageDuplicate = useCallback((pageId: string) => {
-        usePageStore.getState().duplicatePage(pageId);
+        runPageCommand('페이지 복제', () => usePageStore.getState().duplicatePage(pageId));
     }, []);
 
     const handlePageDelete = useCallback((pageId: string) => {
-        usePageStore.getState().removePage(pageId);
+        runPageCommand('페이지 삭제', () => usePageStore.getState().removePage(pageId));
     }, []);
 
     const handleAddBlankPage = useCallback(
@@ -37,7 +39,7 @@ export function usePageActions({ documentId }: UsePageActionsOptions) {
                     height,
                     contentType: 'blank',
                 });
-                store.addPage(newPage);
+                runPageCommand('빈 페이지 추가', () => store.addPage(newPage));
                 store.setCurrentPage(newPage.id);
                 return;
             }
@@ -54,11 +56,13 @@ export function usePageActions({ documentId }: UsePageActionsOptions) {
                 contentType: 'blank',
             });
 
-            if (afterIndex !== -1 && afterIndex < store.pages.length - 1) {
-                store.insertPdfPages(afterPageId, [newPage]);
-            } else {
-                store.addPage(newPage);
-            }
+            runPageCommand('빈 페이지 추가', () => {
+                if (afterIndex !== -1 && afterIndex < store.pages.length - 1) {
+                    store.insertPdfPages(afterPageId, [newPage]);
+                } else {
+                    store.addPage(newPage);
+                }
+            });
             store.setCurrentPage(newPage.id);
         },
         [documentId],
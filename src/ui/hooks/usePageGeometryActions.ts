@@ -0,0 +1,105 @@
+/**
+ * usePageGeometryActions — 페이지 자르기/크기 변경/나누기 (히스토리 기록)
+ *
+ * 모든 동작은 페이지 스냅샷(PageAction)으로 기록되어 실행 취소할 수 있다.
+ * 나누기로 새 페이지에 복제된 주석은 주석 추가 동작으로 함께 기록된다.
+ */
+
+import { useCallback } from 'react';
+import type { BBox, Page } from '../../core/model/types';
+import {
+    PAGE_SIZES,
+    clampCropBox,
+    computePageFrame,
+    orientSize,
+    pageVisibleBox,
+    splitPage,
+} from '../../core/page/pageGeometry';
+import type { PageAnchor, PageContentFit, PageOrientation, PageSizeName, PageSplitMode } from '../../core/page/pageGeometry';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { HistoryAction } from '../../state/stores/HistoryStore';
+
+export interface PageResizeRequest {
+    /** 'original'이면 크기 변경 해제 */
+    size: PageSizeName | 'original';
+    orientation: PageOrientation;
+    fit: PageContentFit;
+    anchor: PageAnchor;
+}
+
+/** 페이지 갱신 + 스냅샷 동작 */
+function updatePageWithHistory(page: Page, updates: Partial<Page>): HistoryAction {
+    usePageStore.getState().updatePage(page.id, updates);
+    return { type: 'page', pageId: page.id, before: page, after: usePageStore.getState().getPage(page.id) };
+}
+
+export function usePageGeometryActions() {
+    /** 자르기 (null이면 해제) */
+    const cropPage = useCallback((pageId: string, cropBox: BBox | null): boolean => {
+        const page = usePageStore.getState().getPage(pageId);
+        if (!page) return false;
+
+        const box = cropBox ? clampCropBox(cropBox, page) : null;
+        if (cropBox && !box) return false;
+        // 페이지 전체면 자르기 없음과 같음
+        const full = box && box.x === 0 && box.y === 0 && box.width === page.width && box.height === page.height;
+
+        const action = updatePageWithHistory(page, { cropBox: full ? undefined : box ?? undefined, frame: undefined });
+        useHistoryStore.getState().pushAction(box ? '페이지 자르기' : '자르기 해제', [action]);
+        return true;
+    }, []);
+
+    /** 표준 용지 크기로 변경 */
+    const resizePages = useCallback((pageIds: string[], request: PageResizeRequest) => {
+        const actions: HistoryAction[] = [];
+
+        for (const pageId of pageIds) {
+            const page = usePageStore.getState().getPage(pageId);
+            if (!page) continue;
+
+            if (request.size === 'original') {
+                if (page.frame) actions.push(updatePageWithHistory(page, { frame: undefined }));
+                continue;
+            }
+
+            const visible = pageVisibleBox(page);
+            const sheet = orientSize(PAGE_SIZES[request.size], request.orientation, visible);
+            actions.push(updatePageWithHistory(page, { frame: computePageFrame(visible, sheet, request.fit, request.anchor) }));
+        }
+
+        if (actions.length > 0) {
+            useHistoryStore.getState().pushAction('페이지 크기 변경', actions);
+        }
+    }, []);
+
+    /** 반/4등분으로 나누기 (새 페이지는 바로 뒤에) */
+    const splitPageInto = useCallback((pageId: string, mode: PageSplitMode) => {
+        const store = usePageStore.getState();
+        const page = store.getPage(pageId);
+        if (!page) return;
+
+        const index = store.getPageIndex(pageId);
+        const annotations = useAnnotationStore.getState().annotations.filter(a => a.pageId === pageId);
+        const result = splitPage(page, annotations, mode);
+        const [first, ...rest] = result.pages;
+
+        const actions: HistoryAction[] = [updatePageWithHistory(page, { cropBox: first.cropBox, frame: undefined })];
+        rest.forEach((tile, i) => {
+            store.addPage(tile, index + 1 + i);
+            actions.push({ type: 'page', pageId: tile.id, before: null, after: tile, index: index + 1 + i });
+        });
+
+        const { addAnnotationToPage } = useAnnotationStore.getState();
+        for (const annotation of result.annotations) {
+            addAnnotationToPage(annotation.pageId, annotation);
+            actions.push({ type: 'add', annotationId: annotation.id, pageId: annotation.pageId, before: null, after: { ...annotation } });
+        }
+
+        store.setCurrentPage(pageId);
+        useHistoryStore.getState().pushAction('페이지 나누기', actions);
+    }, []);
+
+    return { cropPage, resizePages, splitPage: splitPageInto };
+}
@@ -0,0 +1,42 @@
+/**
+ * useProjectSave — 프로젝트 파일(.jflux) 저장 훅
+ *
+ * 현재 편집 세션(원본/추가 PDF, 페이지, 주석, 래스터, 히스토리)을
+ * 프로젝트 파일로 저장하여 다운로드한다.
+ */
+
+import { useCallback, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useDocumentStore } from '../../state/documentStore';
+import { downloadUint8Array } from '../../utils/fileDownload';
+import { PROJECT_FILE_EXTENSION, PROJECT_MIME_TYPE } from '../../core/io/projectFile';
+import { resolveService } from '../../core/di/ContainerSetup';
+import { SERVICE_TOKENS } from '../../core/di/ServiceTokens';
+import type { StorageManager } from '../../core/services/StorageManager';
+
+export function useProjectSave(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSaveProject = useCallback(async () => {
+        const { document } = useDocumentStore.getState();
+        if (!document || isSaving) return;
+
+        setIsSaving(true);
+        try {
+            const { FileService } = await import('../../core/services/FileService');
+            const bytes = await FileService.saveProjectFile(insertedPdfProxies);
+            const baseName = document.name.replace(/\.[^/.]+$/, '') || 'document';
+            downloadUint8Array(bytes, `${baseName}${PROJECT_FILE_EXTENSION}`, PROJECT_MIME_TYPE);
+
+            // 프로젝트 파일로 저장되었으므로 복구 목록에서 제외 (이후 변경 시 다시 자동 저장됨)
+            await resolveService<StorageManager>(SERVICE_TOKENS.STORAGE_MANAGER).discardSession(document.id);
+        } catch (error) {
+            console.error('Project save failed:', error);
+            alert(`프로젝트 저장 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [insertedPdfProxies, isSaving]);
+
+    return { isSaving, handleSaveProject };
+}
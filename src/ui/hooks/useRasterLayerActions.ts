@@ -0,0 +1,70 @@
+/**
+ * useRasterLayerActions — 래스터 레이어 추가/수정/삭제 + 히스토리 기록
+ *
+ * 브러시 스트로크는 RasterLayerStack이 직접 기록하고, 여기서는 레이어 패널 조작을 다룬다.
+ */
+
+import { useCallback } from 'react';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore, snapshotRasterLayer } from '../../state/stores/HistoryStore';
+import { createRasterLayer } from '../../core/model/factories';
+import type { RasterLayer } from '../../core/model/types';
+
+function findLayer(pageId: string, layerId: string): RasterLayer | null {
+    return usePageStore.getState().getPage(pageId)?.layers.rasters.find(r => r.id === layerId) ?? null;
+}
+
+export function useRasterLayerActions(pageId: string | null) {
+    /** before 스냅샷 이후의 변경을 히스토리에 기록 */
+    const recordChange = useCallback((layerId: string, before: RasterLayer, description: string) => {
+        if (!pageId) return;
+        const after = findLayer(pageId, layerId);
+        if (!after) return;
+        useHistoryStore.getState().pushAction(description, [
+            { type: 'raster', pageId, layerId, before, after: snapshotRasterLayer(after) },
+        ]);
+    }, [pageId]);
+
+    /** 레이어 속성 변경 (description이 있으면 히스토리 기록) */
+    const updateLayer = useCallback((layerId: string, updates: Partial<RasterLayer>, description?: string) => {
+        if (!pageId) return;
+        const layer = findLayer(pageId, layerId);
+        if (!layer) return;
+        const before = snapshotRasterLayer(layer);
+        usePageStore.getState().updateRasterLayer(pageId, layerId, { ...updates, modifiedAt: Date.now() });
+        if (description) recordChange(layerId, before, description);
+    }, [pageId, recordChange]);
+
+    /** 새 레이어를 맨 위에 추가하고 선택 */
+    const addLayer = useCallback(() => {
+        if (!pageId) return;
+        const layer = createRasterLayer({ pageId, kind: 'freedraw' });
+        usePageStore.getState().addRasterLayer(pageId, layer);
+        useAnnotationStore.getState().selectRasterLayer(layer.id);
+        useHistoryStore.getState().pushAction('래스터 레이어 추가', [
+            { type: 'raster', pageId, layerId: layer.id, before: null, after: snapshotRasterLayer(layer) },
+        ]);
+    }, [pageId]);
+
+    /** 레이어 내용 비우기 (연산 목록 초기화) */
+    const clearLayer = useCallback((layerId: string) => {
+        updateLayer(layerId, { operations: [], canvasData: undefined }, '래스터 레이어 비우기');
+    }, [updateLayer]);
+
+    const removeLayer = useCallback((layerId: string) => {
+        if (!pageId) return;
+        const rasters = usePageStore.getState().getPage(pageId)?.layers.rasters ?? [];
+        const index = rasters.findIndex(r => r.id === layerId);
+        if (index === -1) return;
+
+        usePageStore.getState().removeRasterLayer(pageId, layerId);
+        const { selection, selectRasterLayer } = useAnnotationStore.getState();
+        if (selection.selectedRasterLayerId === layerId) selectRasterLayer(null);
+        useHistoryStore.getState().pushAction('래스터 레이어 삭제', [
+            { type: 'raster', pageId, layerId, before: snapshotRasterLayer(rasters[index]), after: null, index },
+        ]);
+    }, [pageId]);
+
+    return { addLayer, updateLayer, recordChange, clearLayer, removeLayer };
+}
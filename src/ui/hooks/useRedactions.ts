@@ -0,0 +1,130 @@
+/**
+ * useRedactions — 패턴/검색어로 가림 영역 표시 훅
+ *
+ * PDF 페이지는 글자 배치에서 일치한 범위를 줄별 사각형으로, 스캔 페이지는 일치한 OCR 단어 영역을 가린다.
+ * 이미 같은 내용으로 가려진 곳은 건너뛰며, 한 번 실행한 결과는 하나의 히스토리 항목이다.
+ */
+
+import { useCallback, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Annotation, BBox, Page } from '../../core/model/types';
+import { buildSearchPattern } from '../../core/search/textSearch';
+import { loadPageTextLayer, quadsBounds } from '../../core/pdf/textLayer';
+import { matchRanges, matchRedactions, presetPattern, rectsIntersect } from '../../core/redaction/redaction';
+import type { RedactionMatch, RedactionPreset } from '../../core/redaction/redaction';
+import { createRedactionAnnotation } from '../../core/model/factories';
+import { usePageStore } from '../../state/stores/PageStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { AnnotationAction } from '../../state/stores/HistoryStore';
+
+export type RedactionScope = 'current' | 'all';
+
+export interface RedactionRequest {
+    presets: RedactionPreset[];
+    /** 사용자 지정 텍스트/정규식 */
+    custom: string;
+    customIsRegex: boolean;
+    /** 현재 검색어(검색 옵션 포함)도 가림 */
+    includeSearch: boolean;
+    scope: RedactionScope;
+}
+
+export type RedactionMarkError = 'noPattern' | 'invalidPattern';
+
+export type RedactionMarkResult = { count: number } | { error: RedactionMarkError };
+
+/** 요청 → 정규식 목록 */
+function buildPatterns(request: RedactionRequest): RegExp[] | RedactionMarkError {
+    const patterns = request.presets.map(presetPattern);
+
+    if (request.custom) {
+        const custom = buildSearchPattern(request.custom, { caseSensitive: false, wholeWord: false, regex: request.customIsRegex });
+        if (!custom) return 'invalidPattern';
+        patterns.push(custom);
+    }
+
+    if (request.includeSearch) {
+        const { query, options } = useSearchStore.getState();
+        const search = buildSearchPattern(query, options);
+        if (search) patterns.push(search);
+    }
+
+    return patterns.length > 0 ? patterns : 'noPattern';
+}
+
+/** 페이지 하나에서 일치 영역 찾기 */
+async function findPageMatches(
+    page: Page,
+    annotations: Annotation[],
+    patterns: RegExp[],
+    proxy: PDFDocumentProxy | null
+): Promise<RedactionMatch[]> {
+    const matches: RedactionMatch[] = [];
+
+    if (proxy && page.pdfRef) {
+        try {
+            const layer = await loadPageTextLayer(proxy, page);
+            if (layer) matches.push(...matchRedactions(layer, patterns));
+        } catch (error) {
+            console.warn(`⚠️ [Redaction] Failed to read text of page ${page.id}:`, error);
+        }
+    }
+
+    // 스캔 페이지: 일치한 OCR 단어 전체
+    for (const annotation of annotations) {
+        if (annotation.type !== 'ocr') continue;
+        if (matchRanges(annotation.content, patterns).length > 0) {
+            matches.push({ quads: [annotation.bbox], content: annotation.content });
+        }
+    }
+
+    return matches;
+}
+
+function isAlreadyRedacted(annotations: Annotation[], content: string, bounds: BBox): boolean {
+    return annotations.some(a => a.type === 'redaction' && a.content === content && rectsIntersect(a.bbox, bounds));
+}
+
+export function useRedactions(insertedPdfProxies: Map<string, PDFDocumentProxy>) {
+    const [isMarking, setIsMarking] = useState(false);
+
+    const markMatches = useCallback(async (request: RedactionRequest): Promise<RedactionMarkResult> => {
+        const patterns = buildPatterns(request);
+        if (typeof patterns === 'string') return { error: patterns };
+
+        const { pages, currentPageId } = usePageStore.getState();
+        const targets = request.scope === 'current' ? pages.filter(p => p.id === currentPageId) : pages.filter(p => !p.deleted);
+        const pdfProxy = usePDFStore.getState().pdfProxy;
+
+        setIsMarking(true);
+        try {
+            const { addAnnotationToPage } = useAnnotationStore.getState();
+            const actions: AnnotationAction[] = [];
+
+            for (const page of targets) {
+                const proxy = page.pdfRef?.appendedFrom ? insertedPdfProxies.get(page.pdfRef.appendedFrom) ?? null : pdfProxy;
+                const pageAnnotations = () => useAnnotationStore.getState().annotations.filter(a => a.pageId === page.id);
+                for (const match of await findPageMatches(page, pageAnnotations(), patterns, proxy)) {
+                    const bbox = quadsBounds(match.quads);
+                    if (isAlreadyRedacted(pageAnnotations(), match.content, bbox)) continue;
+
+                    const redaction = createRedactionAnnotation({ pageId: page.id, bbox, quads: match.quads, content: match.content });
+                    addAnnotationToPage(page.id, redaction);
+                    actions.push({ type: 'add', annotationId: redaction.id, pageId: page.id, before: null, after: { ...redaction } });
+                }
+            }
+
+            if (actions.length > 0) {
+                useHistoryStore.getState().pushAction('가림 영역 표시', actions);
+            }
+            return { count: actions.length };
+        } finally {
+            setIsMarking(false);
+        }
+    }, [insertedPdfProxies]);
+
+    return { isMarking, markMatches };
+}
@@ -0,0 +1,340 @@
+/**
+ * useSignatures — 서명 훅
+ *
+ * 그린 획/입력한 글자/불러온 이미지를 서명(또는 이니셜)으로 저장하고,
+ * 현재 페이지에 놓거나 "여기에 서명" 자리 표시를 채운다.
+ * 채우기/서명 도우미: 날짜 입력란, 모든 페이지 이니셜, 자리 표시 추가와 다음 자리 표시로 이동.
+ */
+
+import { useCallback, useMemo } from 'react';
+import {
+    createDateField,
+    createInitialsForPages,
+    createSavedSignatureId,
+    createSignatureAnnotation,
+    createSignaturePlaceholder,
+    fillSignaturePlaceholder,
+    isSignaturePlaceholder,
+    nextSignaturePlaceholder,
+} from '../../core/signatures/signatureLibrary';
+import type { SavedSignature } from '../../core/signatures/signatureLibrary';
+import { normalizeStrokes } from '../../core/signatures/signatureStrokes';
+import { buildSmoothPath } from '../../core/io/annotationGeometry';
+import type { Annotation, Point, SignatureAnnotation, SignatureKind } from '../../types/annotation';
+import { readFileAsDataUrl, getImageDimensions, downscalePng } from '../../core/services/fileUtils';
+import { useSignatureStore } from '../../state/stores/SignatureStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import type { AnnotationAction } from '../../state/stores/HistoryStore';
+
+/** 입력한 서명을 그릴 글자 크기 (px) */
+const TYPED_FONT_SIZE = 64;
+/** 저장 용량을 줄이기 위한 PNG 최대 픽셀 (긴 변) */
+const SIGNATURE_MAX_PIXELS = 600;
+
+export interface SignatureOptions {
+    kind: SignatureKind;
+    color: string;
+    strokeWidth: number;
+}
+
+/** 주석 추가 + 히스토리 기록 (여러 개는 한 번에 되돌림) */
+function addAnnotationsWithHistory(description: string, annotations: Annotation[]) {
+    if (annotations.length === 0) return;
+    const { addAnnotationToPage } = useAnnotationStore.getState();
+    const actions: AnnotationAction[] = annotations.map(annotation => {
+        addAnnotationToPage(annotation.pageId, annotation);
+        return { type: 'add', annotationId: annotation.id, pageId: annotation.pageId, before: null, after: { ...annotation } };
+    });
+    useHistoryStore.getState().pushAction(description, actions);
+}
+
+function currentPage() {
+    const { pages, currentPageId } = usePageStore.getState();
+    return pages.find(p => p.id === currentPageId) ?? null;
+}
+
+/** 입력한 글자를 필기체로 그린 PNG (글자 크기만큼 잘라냄) */
+async function renderTypedSignature(text: string, fontFamily: string, color: string): Promise<{ imageData: string; width: number; height: number } | null> {
+    const font = `${TYPED_FONT_SIZE}px ${fontFamily}`;
+    try {
+        await window.document.fonts?.load(font, text);
+    } catch {
+        // 글꼴을 못 불러오면 대체 글꼴로 그림
+    }
+
+    const canvas = window.document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.font = font;
+    const padding = TYPED_FONT_SIZE * 0.25;
+    const width = Math.ceil(ctx.measureText(text).width + padding * 2);
+    const height = Math.ceil(TYPED_FONT_SIZE * 1.4);
+    if (width <= padding * 2) return null;
+
+    canvas.width = width;
+    canvas.height = height;
+    // 캔버스 크기를 바꾸면 상태가 초기화되므로 다시 설정
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, padding, height / 2);
+    return { imageData: canvas.toDataURL('image/png'), width, height };
+}
+
+/**
+ * 저장된 서명을 PNG data URL로 (PDF 전자서명의 보이는 모양에 넣음)
+ * 손글씨 획은 캔버스에 다시 그리고 SVG 이미지는 래스터화한다.
+ */
+export async function savedSignatureToPng(signature: SavedSignature): Promise<string | null> {
+    if (signature.imageData?.startsWith('data:image/png')) return signature.imageData;
+    if (!signature.width || !signature.height) return null;
+
+    const scale = SIGNATURE_MAX_PIXELS / Math.max(signature.width, signature.height);
+    const canvas = window.document.createElement('canvas');
+    canvas.width = Math.round(signature.width * scale);
+    canvas.height = Math.round(signature.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    try {
+        if (signature.imageData) {
+            const img = new Image();
+            img.src = signature.imageData;
+            await img.decode();
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        } else if (signature.strokes?.length) {
+            ctx.scale(scale, scale);
+            ctx.strokeStyle = signature.color;
+            ctx.lineWidth = signature.strokeWidth;
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            signature.strokes.forEach(stroke => ctx.stroke(new Path2D(buildSmoothPath(stroke))));
+        } else {
+            return null;
+        }
+    } catch (error) {
+        console.warn('⚠️ 서명을 이미지로 바꾸지 못했습니다:', error);
+        return null;
+    }
+    return canvas.toDataURL('image/png');
+}
+
+/** 자리 표시 선택 (다른 페이지면 그 페이지로 이동) */
+function focusPlaceholder(placeholder: SignatureAnnotation) {
+    const { currentPageId, setCurrentPage } = usePageStore.getState();
+    if (placeholder.pageId !== currentPageId) setCurrentPage(placeholder.pageId);
+    useAnnotationStore.getState().selectAnnotation(placeholder.id);
+}
+
+/**
+ * 다음 자리 표시로 이동해 선택
+ * @param afterId 이 주석 다음부터 (기본: 선택한 주석)
+ * @returns false - 남은 자리 표시 없음
+ */
+export function goToNextPlaceholder(afterId?: string | null): boolean {
+    const { annotations, selection } = useAnnotationStore.getState();
+    const from = afterId !== undefined ? afterId : selection.selectedAnnotationIds[0];
+    const next = nextSignaturePlaceholder(annotations, usePageStore.getState().pages.map(p => p.id), from);
+    if (!next) return false;
+    focusPlaceholder(next);
+    return true;
+}
+
+/** 자리 표시를 서명으로 채우고 다음 자리 표시로 이동 */
+export function fillPlaceholder(placeholderId: string, signature: SavedSignature): boolean {
+    const { annotations, findAnnotation, updateAnnotation, clearSelection } = useAnnotationStore.getState();
+    const placeholder = findAnnotation(placeholderId);
+    if (placeholder?.type !== 'signature' || !isSignaturePlaceholder(placeholder)) return false;
+    const next = nextSignaturePlaceholder(annotations, usePageStore.getState().pages.map(p => p.id), placeholderId);
+
+    const updates = fillSignaturePlaceholder(placeholder, signature);
+    updateAnnotation(placeholderId, updates);
+    useHistoryStore.getState().pushAction('서명 채우기', [
+        { type: 'update', annotationId: placeholderId, pageId: placeholder.pageId, before: { ...placeholder }, after: { ...placeholder, ...updates } },
+    ]);
+    useSignatureStore.getState().setActive(signature.id);
+
+    if (next && next.id !== placeholderId) focusPlaceholder(next);
+    else clearSelection();
+    return true;
+}
+
+export function useSignatures() {
+    const signatures = useSignatureStore(s => s.signatures);
+    const activeId = useSignatureStore(s => s.activeId);
+    const setActive = useSignatureStore(s => s.setActive);
+    const removeSignature = useSignatureStore(s => s.removeSignature);
+    const annotations = useAnnotationStore(s => s.annotations);
+
+    const activeSignature = useMemo(
+        () => signatures.find(s => s.id === activeId) ?? null,
+        [signatures, activeId]
+    );
+    const placeholderCount = useMemo(
+        () => annotations.filter(a => a.type === 'signature' && isSignaturePlaceholder(a)).length,
+        [annotations]
+    );
+
+    // ============================================
+    // Save
+    // ============================================
+
+    /** 그린 획 저장 (빈 획이면 null) */
+    const saveDrawnSignature = useCallback((strokes: Point[][], options: SignatureOptions): SavedSignature | null => {
+        const normalized = normalizeStrokes(strokes, options.strokeWidth);
+        if (!normalized) return null;
+
+        const signature: SavedSignature = {
+            id: createSavedSignatureId(),
+            source: 'draw',
+            ...options,
+            ...normalized,
+            createdAt: Date.now(),
+        };
+        useSignatureStore.getState().addSignature(signature);
+        return signature;
+    }, []);
+
+    /** 입력한 글자를 필기체 이미지로 저장 */
+    const saveTypedSignature = useCallback(async (text: string, fontFamily: string, options: SignatureOptions): Promise<SavedSignature | null> => {
+        const trimmed = text.trim();
+        if (!trimmed) return null;
+        const rendered = await renderTypedSignature(trimmed, fontFamily, options.color);
+        if (!rendered) return null;
+
+        const signature: SavedSignature = {
+            id: createSavedSignatureId(),
+            source: 'type',
+            ...options,
+            ...rendered,
+            text: trimmed,
+            fontFamily,
+            createdAt: Date.now(),
+        };
+        useSignatureStore.getState().addSignature(signature);
+        return signature;
+    }, []);
+
+    /**
+     * PNG/SVG 서명 이미지 저장
+     * @returns null - 지원하지 않는 파일
+     */
+    const saveImageSignature = useCallback(async (file: File, options: SignatureOptions): Promise<SavedSignature | null> => {
+        const isSvg = file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+        const isPng = file.type === 'image/png' || /\.png$/i.test(file.name);
+        if (!isSvg && !isPng) return null;
+
+        try {
+            let imageData = await readFileAsDataUrl(file);
+            imageData = imageData.replace(/^data:[^;,]*/, isSvg ? 'data:image/svg+xml' : 'data:image/png');
+            const size = await getImageDimensions(imageData);
+            if (!size.width || !size.height) return null;
+            if (isPng) imageData = await downscalePng(imageData, size.width, size.height, SIGNATURE_MAX_PIXELS);
+
+            const signature: SavedSignature = {
+                id: createSavedSignatureId(),
+                source: 'image',
+                ...options,
+                imageData,
+                width: size.width,
+                height: size.height,
+                createdAt: Date.now(),
+            };
+            useSignatureStore.getState().addSignature(signature);
+            return signature;
+        } catch (error) {
+            console.warn('⚠️ 서명 이미지를 읽지 못했습니다:', error);
+            return null;
+        }
+    }, []);
+
+    // ============================================
+    // Place
+    // ============================================
+
+    /** 현재 페이지 중앙(또는 지정한 점)에 서명 삽입 후 선택 */
+    const placeSignature = useCallback((signature: SavedSignature, at?: { pageId: string; point: { x: number; y: number } }): boolean => {
+        const page = currentPage();
+        const target = at ?? (page && { pageId: page.id, point: { x: page.width / 2, y: page.height / 2 } });
+        if (!target) return false;
+
+        const annotation = createSignatureAnnotation({ signature, pageId: target.pageId, center: target.point });
+        addAnnotationsWithHistory('서명 삽입', [annotation]);
+        useSignatureStore.getState().setActive(signature.id);
+        useAnnotationStore.getState().selectAnnotation(annotation.id);
+        return true;
+    }, []);
+
+    /** 선택한 자리 표시가 있으면 채우고, 없으면 현재 페이지에 놓음 */
+    const applySignature = useCallback((signature: SavedSignature): boolean => {
+        const { selection, findAnnotation } = useAnnotationStore.getState();
+        const selected = selection.selectedAnnotationIds.length === 1 ? findAnnotation(selection.selectedAnnotationIds[0]) : null;
+        if (selected?.type === 'signature' && isSignaturePlaceholder(selected)) return fillPlaceholder(selected.id, signature);
+        return placeSignature(signature);
+    }, [placeSignature]);
+
+    // ============================================
+    // Fill & Sign Helpers
+    // ============================================
+
+    /** 현재 페이지 중앙에 오늘 날짜 입력란 */
+    const addDateField = useCallback((): boolean => {
+        const page = currentPage();
+        if (!page) return false;
+
+        const field = createDateField({ pageId: page.id, center: { x: page.width / 2, y: page.height / 2 }, now: new Date() });
+        addAnnotationsWithHistory('날짜 입력란 추가', [field]);
+        useAnnotationStore.getState().selectAnnotation(field.id);
+        return true;
+    }, []);
+
+    /**
+     * 모든 페이지 오른쪽 아래에 이니셜
+     * @returns 추가한 이니셜 수 (이미 있는 페이지는 건너뜀)
+     */
+    const addInitialsToAllPages = useCallback((signature: SavedSignature): number => {
+        const initials = createInitialsForPages({
+            signature,
+            pages: usePageStore.getState().pages,
+            annotations: useAnnotationStore.getState().annotations,
+        });
+        addAnnotationsWithHistory('모든 페이지에 이니셜', initials);
+        return initials.length;
+    }, []);
+
+    /** 현재 페이지 중앙에 "여기에 서명" 자리 표시 */
+    const addPlaceholder = useCallback((kind: SignatureKind, label?: string): boolean => {
+        const page = currentPage();
+        if (!page) return false;
+
+        const placeholder = createSignaturePlaceholder({
+            pageId: page.id,
+            center: { x: page.width / 2, y: page.height / 2 },
+            kind,
+            label,
+        });
+        addAnnotationsWithHistory('서명 자리 표시 추가', [placeholder]);
+        useAnnotationStore.getState().selectAnnotation(placeholder.id);
+        return true;
+    }, []);
+
+    return {
+        signatures,
+        activeSignature,
+        placeholderCount,
+        setActive,
+        removeSignature,
+        saveDrawnSignature,
+        saveTypedSignature,
+        saveImageSignature,
+        placeSignature,
+        applySignature,
+        fillPlaceholder,
+        goToNextPlaceholder,
+        addDateField,
+        addInitialsToAllPages,
+        addPlaceholder,
+    };
+}
@@ -0,0 +1,124 @@
+/**
+ * useStamps — 스탬프 라이브러리 훅
+ *
+ * 기본 제공 + 사용자 스탬프 목록을 돌려주고, 고른 스탬프를 현재 페이지 중앙에 넣는다.
+ * 넣을 때 {date}, {time}, {user}(댓글 작성자), {docName}, {pageNumber} 토큰을 그 시점 값으로 바꾼다.
+ * 이미지(PNG/SVG) 읽기와 스탬프 묶음 파일(.jfstamps) 내보내기/불러오기도 맡는다.
+ */
+
+import { useCallback, useMemo } from 'react';
+import {
+    BUILTIN_STAMPS,
+    STAMP_PACK_EXTENSION,
+    createStampAnnotation,
+    parseStampPack,
+    serializeStampPack,
+    stampTokenValues,
+} from '../../core/stamps/stampLibrary';
+import type { StampDefinition, StampTokenValues } from '../../core/stamps/stampLibrary';
+import { readFileAsDataUrl, getImageDimensions, downscalePng } from '../../core/services/fileUtils';
+import { useStampStore } from '../../state/stores/StampStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import { useCommentStore } from '../../state/stores/CommentStore';
+import { useDocumentStore } from '../../state/documentStore';
+import { downloadBlob } from '../../utils/fileDownload';
+
+/** 이미지 스탬프의 기본 배치 크기 (긴 변, pt) */
+const IMAGE_STAMP_SIZE = 120;
+/** 저장 용량을 줄이기 위한 PNG 최대 픽셀 (긴 변) */
+const IMAGE_STAMP_MAX_PIXELS = 600;
+
+export interface StampImage {
+    imageData: string;
+    width: number;
+    height: number;
+}
+
+/** 지금 현재 페이지에 놓을 때의 토큰 값 */
+function currentTokenValues(): StampTokenValues {
+    const { pages, currentPageId } = usePageStore.getState();
+    return stampTokenValues({
+        now: new Date(),
+        user: useCommentStore.getState().author,
+        docName: useDocumentStore.getState().document?.name ?? '',
+        pageNumber: pages.findIndex(p => p.id === currentPageId) + 1,
+    });
+}
+
+export function useStamps() {
+    const userStamps = useStampStore(s => s.stamps);
+    const addStamp = useStampStore(s => s.addStamp);
+    const removeStamp = useStampStore(s => s.removeStamp);
+    const stamps = useMemo(() => [...BUILTIN_STAMPS, ...userStamps], [userStamps]);
+
+    /** 현재 페이지 중앙에 스탬프 삽입 후 선택 */
+    const insertStamp = useCallback((definition: StampDefinition): boolean => {
+        const { pages, currentPageId } = usePageStore.getState();
+        const page = pages.find(p => p.id === currentPageId);
+        if (!page) return false;
+
+        const annotation = createStampAnnotation({
+            definition,
+            pageId: page.id,
+            center: { x: page.width / 2, y: page.height / 2 },
+            values: currentTokenValues(),
+        });
+
+        const { addAnnotationToPage, selectAnnotation } = useAnnotationStore.getState();
+        addAnnotationToPage(page.id, annotation);
+        useHistoryStore.getState().pushAction('스탬프 삽입', [
+            { type: 'add', annotationId: annotation.id, pageId: page.id, before: null, after: { ...annotation } },
+        ]);
+        selectAnnotation(annotation.id);
+        return true;
+    }, []);
+
+    /**
+     * PNG/SVG 파일 → 이미지 스탬프 내용 (긴 변 120pt)
+     * @returns null - 지원하지 않는 파일
+     */
+    const readStampImage = useCallback(async (file: File): Promise<StampImage | null> => {
+        const isSvg = file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+        const isPng = file.type === 'image/png' || /\.png$/i.test(file.name);
+        if (!isSvg && !isPng) return null;
+
+        try {
+            let imageData = await readFileAsDataUrl(file);
+            // 확장자만 맞는 경우 MIME을 바로잡음
+            imageData = imageData.replace(/^data:[^;,]*/, isSvg ? 'data:image/svg+xml' : 'data:image/png');
+            let size = await getImageDimensions(imageData);
+            if (!size.width || !size.height) {
+                // width/height 없는 SVG는 정사각형으로
+                if (!isSvg) return null;
+                size = { width: 1, height: 1 };
+            }
+            if (isPng) imageData = await downscalePng(imageData, size.width, size.height, IMAGE_STAMP_MAX_PIXELS);
+
+            const fit = IMAGE_STAMP_SIZE / Math.max(size.width, size.height);
+            return { imageData, width: size.width * fit, height: size.height * fit };
+        } catch (error) {
+            console.warn('⚠️ 스탬프 이미지를 읽지 못했습니다:', error);
+            return null;
+        }
+    }, []);
+
+    /** 사용자 스탬프를 묶음 파일로 내려받기 */
+    const exportPack = useCallback(() => {
+        const blob = new Blob([serializeStampPack(useStampStore.getState().stamps)], { type: 'application/json' });
+        downloadBlob(blob, `stamps${STAMP_PACK_EXTENSION}`);
+    }, []);
+
+    /**
+     * 묶음 파일 불러오기
+     * @returns 불러온 스탬프 수
+     * @throws 스탬프 묶음 파일이 아닌 경우
+     */
+    const importPack = useCallback(async (file: File): Promise<number> => {
+        const imported = parseStampPack(await file.text());
+        return useStampStore.getState().importStamps(imported);
+    }, []);
+
+    return { stamps, tokenValues: currentTokenValues, addStamp, removeStamp, insertStamp, readStampImage, exportPack, importPack };
+}
@@ -0,0 +1,146 @@
+/**
+ * useTableEditing — 표 구조 편집 + 히스토리 기록 + 내용 내보내기
+ *
+ * 선택한 셀 범위(TableStore)를 기준으로 행/열 삽입·삭제, 병합, 테두리, 붙여넣기를 적용하고
+ * 한 번의 주석 업데이트로 히스토리에 남긴다. 편집 후 선택 범위는 표 안으로 맞춘다.
+ */
+
+import { useCallback } from 'react';
+import type { Annotation, TableAnnotation, TableCellBorder } from '../../types/annotation';
+import {
+    deleteTableLines,
+    expandRange,
+    insertTableLines,
+    mergeCells,
+    parseDelimitedText,
+    pasteIntoTable,
+    setRangeBorders,
+    unmergeCells,
+} from '../../core/table/tableModel';
+import type { TableBorderPreset, TableCellRange } from '../../core/table/tableModel';
+import { tableToCsv, tableToXlsx } from '../../core/table/tableExport';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore } from '../../state/stores/HistoryStore';
+import { useTableStore } from '../../state/stores/TableStore';
+import { useDocumentStore } from '../../state/documentStore';
+import { downloadBlob } from '../../utils/fileDownload';
+
+export type TableExportFormat = 'csv' | 'xlsx';
+
+function findTable(id: string): TableAnnotation | undefined {
+    return useAnnotationStore.getState().annotations
+        .find((a): a is TableAnnotation => a.id === id && a.type === 'table');
+}
+
+/**
+ * 표 주석 변경 + 히스토리
+ * @returns 바뀐 표 (변경 없으면 null)
+ */
+function applyTableEdit(
+    id: string,
+    description: string,
+    edit: (table: TableAnnotation) => Partial<TableAnnotation> | null
+): TableAnnotation | null {
+    const before = findTable(id);
+    if (!before) return null;
+    const updates = edit(before);
+    if (!updates) return null;
+
+    useAnnotationStore.getState().updateAnnotation(id, { ...updates, modifiedAt: Date.now() } as Partial<Annotation>);
+    const after = findTable(id) ?? null;
+    useHistoryStore.getState().pushAction(description, [
+        { type: 'update', annotationId: id, pageId: before.pageId, before: { ...before }, after: after ? { ...after } : null },
+    ]);
+    return after;
+}
+
+/** 선택 범위를 표 크기와 병합에 맞춤 */
+function selectWithin(table: TableAnnotation, range: TableCellRange) {
+    const clamped = {
+        top: Math.min(range.top, table.rows - 1),
+        left: Math.min(range.left, table.cols - 1),
+        bottom: Math.min(range.bottom, table.rows - 1),
+        right: Math.min(range.right, table.cols - 1),
+    };
+    useTableStore.getState().selectCells(table.id, expandRange(table, clamped));
+}
+
+export function useTableEditing(tableId: string) {
+    /** 선택한 셀 범위 (이 표의 선택일 때만) */
+    const range = useTableStore(s => (s.tableId === tableId ? s.range : null));
+
+    /** 선택 범위 앞(before) 또는 뒤(after)에 선택한 줄 수만큼 삽입 */
+    const insertLines = useCallback((axis: 'row' | 'col', where: 'before' | 'after') => {
+        if (!range) return;
+        const count = axis === 'row' ? range.bottom - range.top + 1 : range.right - range.left + 1;
+        const index = axis === 'row'
+            ? (where === 'before' ? range.top : range.bottom + 1)
+            : (where === 'before' ? range.left : range.right + 1);
+        const table = applyTableEdit(tableId, axis === 'row' ? '표 행 삽입' : '표 열 삽입',
+            (t) => insertTableLines(t, axis, index, count));
+        if (!table) return;
+        // 선택은 원래 셀을 따라감
+        const shift = where === 'before' ? count : 0;
+        selectWithin(table, axis === 'row'
+            ? { ...range, top: range.top + shift, bottom: range.bottom + shift }
+            : { ...range, left: range.left + shift, right: range.right + shift });
+    }, [tableId, range]);
+
+    const deleteLines = useCallback((axis: 'row' | 'col') => {
+        if (!range) return;
+        const table = applyTableEdit(tableId, axis === 'row' ? '표 행 삭제' : '표 열 삭제', (t) => (axis === 'row'
+            ? deleteTableLines(t, 'row', range.top, range.bottom - range.top + 1)
+            : deleteTableLines(t, 'col', range.left, range.right - range.left + 1)));
+        if (!table) return;
+        const at = axis === 'row'
+            ? { ...range, bottom: range.top }
+            : { ...range, right: range.left };
+        selectWithin(table, at);
+    }, [tableId, range]);
+
+    const merge = useCallback(() => {
+        if (!range) return;
+        const table = applyTableEdit(tableId, '셀 병합', (t) => mergeCells(t, range));
+        if (table) selectWithin(table, range);
+    }, [tableId, range]);
+
+    const unmerge = useCallback(() => {
+        if (!range) return;
+        applyTableEdit(tableId, '셀 병합 해제', (t) => unmergeCells(t, range));
+    }, [tableId, range]);
+
+    const setBorders = useCallback((preset: TableBorderPreset, border: TableCellBorder) => {
+        if (!range) return;
+        applyTableEdit(tableId, '셀 테두리', (t) => setRangeBorders(t, range, preset, border));
+    }, [tableId, range]);
+
+    /** CSV/TSV 붙여넣기 (선택이 없으면 A1부터) */
+    const pasteText = useCallback((text: string): boolean => {
+        const data = parseDelimitedText(text);
+        const target = range ?? { top: 0, left: 0, bottom: 0, right: 0 };
+        let pasted: TableCellRange | null = null;
+        const table = applyTableEdit(tableId, '표에 붙여넣기', (t) => {
+            const result = pasteIntoTable(t, target, data);
+            pasted = result?.range ?? null;
+            return result?.updates ?? null;
+        });
+        if (!table || !pasted) return false;
+        selectWithin(table, pasted);
+        return true;
+    }, [tableId, range]);
+
+    const download = useCallback(async (format: TableExportFormat) => {
+        const table = findTable(tableId);
+        if (!table) return;
+        const name = useDocumentStore.getState().document?.name ?? '';
+        const baseName = `${name.replace(/\.[^/.]+$/, '') || 'document'}_${(table.name || 'table').replace(/[\\/:*?"<>|]/g, '_')}`;
+        if (format === 'csv') {
+            // Excel이 UTF-8로 읽도록 BOM
+            downloadBlob(new Blob(['﻿', tableToCsv(table)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+        } else {
+            downloadBlob(await tableToXlsx(table, table.name || 'Table'), `${baseName}.xlsx`);
+        }
+    }, [tableId]);
+
+    return { range, insertLines, deleteLines, merge, unmerge, setBorders, pasteText, download };
+}
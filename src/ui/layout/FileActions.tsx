@@ -1,21 +1,24 @@
 /**
  * FileActions Component - 파일 액션 버튼들
- * 파일 열기, 내보내기
+ * 파일 열기, 프로젝트 저장, 내보내기
  */
 
 import React from 'react';
 import {
   FileArrowUp,
   File,
+  FloppyDisk,
 } from 'phosphor-react';
 
 interface FileActionsProps {
   onFileSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSaveProject: () => void;
   onExport: () => void;
 }
 
 export function FileActions({
   onFileSelect,
+  onSaveProject,
   onExport,
 }: FileActionsProps) {
   return (
@@ -43,12 +46,37 @@ export function FileActions({
         <FileArrowUp size={16} weight="regular" />
         <input
           type="file"
-          accept=".pdf,.md,.txt,.png,.jpg,.jpeg,.gif,.webp,application/pdf,text/plain,text/markdown,image/*"
+          accept=".pdf,.jflux,.md,.txt,.png,.jpg,.jpeg,.gif,.webp,application/pdf,text/plain,text/markdown,image/*"
           onChange={onFileSelect}
           style={{ display: 'none' }}
         />
       </label>
 
+      <button
+        onClick={onSaveProject}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '28px',
+          height: '28px',
+          border: 'none',
+          backgroundColor: 'transparent',
+          color: '#333333',
+          cursor: 'pointer',
+          transition: 'background-color 0.15s ease-in-out'
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = '#E0E0E0';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'transparent';
+        }}
+        title="프로젝트 저장 (.jflux)"
+      >
+        <FloppyDisk size={16} weight="regular" />
+      </button>
+
       <button
         onClick={onExport}
         style={{
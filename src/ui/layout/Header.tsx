@@ -1,12 +1,13 @@
 /**
  * Header Component - 상단 헤더
- * 문서 이름, 페이지 수, Undo/Redo, 파일 액션, 테마 토글, 언어 토글
+ * 문서 이름, 페이지 수, Undo/Redo, 파일 액션, 테마 토글, 언어 토글, 격자/눈금자/스냅, OCR, 바코드, 스탬프, 가림, 추출/병합
  */
 
 import React from 'react';
-import { Moon, Sun, Desktop, Translate, ArrowClockwise, ArrowCounterClockwise } from 'phosphor-react';
+import { Moon, Sun, Desktop, Translate, ArrowClockwise, ArrowCounterClockwise, Scan, QrCode, Stamp, PenNib, EyeSlash, Files } from 'phosphor-react';
 import { FileActions } from './FileActions';
 import { UndoRedo } from './UndoRedo';
+import { ViewGuidesMenu } from './ViewGuidesMenu';
 import { useThemeStore } from '../../state/stores/ThemeStore';
 import { usePDFStore } from '../../state/stores/PDFStore';
 import { useTranslation, useLocaleStore } from '../../i18n';
@@ -21,7 +22,14 @@ interface HeaderProps {
   onFileSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onUndo: () => void;
   onRedo: () => void;
+  onSaveProject: () => void;
   onExport: () => void;
+  onOpenOCR: () => void;
+  onOpenBarcodes: () => void;
+  onOpenStamps: () => void;
+  onOpenSignatures: () => void;
+  onOpenRedaction: () => void;
+  onOpenDocumentOps: () => void;
   onToggleSmooth: () => void;
 }
 
@@ -36,7 +44,14 @@ export function Header({
   onFileSelect,
   onUndo,
   onRedo,
+  onSaveProject,
   onExport,
+  onOpenOCR,
+  onOpenBarcodes,
+  onOpenStamps,
+  onOpenSignatures,
+  onOpenRedaction,
+  onOpenDocumentOps,
   onToggleSmooth,
 }: HeaderProps) {
   const { preference, cycleTheme } = useThemeStore();
@@ -138,6 +153,75 @@ export function Header({
             <ArrowClockwise size={16} weight="bold" />
           </button>
         </div>
+
+        {/* Grid / Rulers / Snapping */}
+        <ViewGuidesMenu />
+
+        {/* OCR */}
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenOCR}
+          disabled={!document}
+          title={t('header.ocr')}
+          aria-label={t('header.ocr')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <Scan size={16} weight="bold" />
+        </button>
+
+        {/* Barcodes */}
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenBarcodes}
+          disabled={!document}
+          title={t('header.barcode')}
+          aria-label={t('header.barcode')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <QrCode size={16} weight="bold" />
+        </button>
+
+        {/* Stamps */}
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenStamps}
+          disabled={!document}
+          title={t('header.stamp')}
+          aria-label={t('header.stamp')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <Stamp size={16} weight="bold" />
+        </button>
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenSignatures}
+          disabled={!document}
+          title={t('header.signature')}
+          aria-label={t('header.signature')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <PenNib size={16} weight="bold" />
+        </button>
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenRedaction}
+          disabled={!document}
+          title={t('header.redaction')}
+          aria-label={t('header.redaction')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <EyeSlash size={16} weight="bold" />
+        </button>
+        <button
+          className="btn-icon btn-tool"
+          onClick={onOpenDocumentOps}
+          disabled={!document}
+          title={t('header.documentOps')}
+          aria-label={t('header.documentOps')}
+          style={{ width: '28px', height: '28px' }}
+        >
+          <Files size={16} weight="bold" />
+        </button>
       </div>
 
       {/* Right: Actions */}
@@ -150,6 +234,7 @@ export function Header({
         />
         <FileActions
           onFileSelect={onFileSelect}
+          onSaveProject={onSaveProject}
           onExport={onExport}
         />
       </div>
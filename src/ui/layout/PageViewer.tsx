@@ -5,6 +5,9 @@
  * 추출된 모듈:
  *  - usePageScrollTracking: IntersectionObserver + 스크롤 기반 페이지 감지 + 프로그래매틱 스크롤
  *  - PageContentRenderer: 페이지 contentType별 렌더링
+ *  - RasterLayerStack: 래스터 레이어 캔버스 + 래스터 도구 입력
+ *  - CropOverlay: 자르기 도구 (자르기/크기 변경된 페이지는 용지 크기로 잘라 보여줌)
+ *  - GridOverlay / PageRulers: 격자, 눈금자와 안내선 (ViewStore 설정)
  */
 
 import { useRef } from 'react';
@@ -13,6 +16,19 @@ import type { Document as JFDocument, Page, Annotation, ToolType } from '../../c
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { usePageScrollTracking } from '../hooks/usePageScrollTracking';
 import { PageContentRenderer } from './PageContentRenderer';
+import { SearchHighlightLayer } from '../viewer/SearchHighlightLayer';
+import { TextSelectionLayer } from '../viewer/TextSelectionLayer';
+import { FormFieldLayer } from '../viewer/FormFieldLayer';
+import { RasterLayerStack } from '../viewer/RasterLayerStack';
+import { isTextMarkupTool } from '../../core/pdf/textLayer';
+import { isRasterTool } from '../../core/raster/rasterEngine';
+import { isPageGeometryEdited, pageContentTransform, pageOutputSize } from '../../core/page/pageGeometry';
+import { CropOverlay } from '../viewer/CropOverlay';
+import { GridOverlay } from '../viewer/GridOverlay';
+import { PageRulers } from '../viewer/PageRulers';
+import { usePageGeometryActions } from '../hooks/usePageGeometryActions';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useViewStore } from '../../state/stores/ViewStore';
 import { useTranslation } from '../../i18n';
 
 interface PageViewerProps {
@@ -48,6 +64,9 @@ export function PageViewer({
 }: PageViewerProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const { t } = useTranslation();
+  const { cropPage } = usePageGeometryActions();
+  const setActiveTool = useAnnotationStore(s => s.setActiveTool);
+  const { view: viewOptions, setGuideOptions } = useViewStore();
 
   const { registerPageRef } = usePageScrollTracking({
     hasDocument: !!document,
@@ -82,6 +101,19 @@ export function PageViewer({
 
   const pagesToRender = pages.filter(p => !p.deleted);
 
+  // 페이지의 PDF (appendedFrom이면 추가된 PDF)
+  const proxyFor = (page: Page) => page.pdfRef?.appendedFrom
+    ? insertedPdfProxies?.get(page.pdfRef.appendedFrom) ?? null
+    : pdfProxy;
+
+  const handleCreate = (annotation: Omit<Annotation, 'id'>) => {
+    try {
+      onAddAnnotation(annotation);
+    } catch (error) {
+      console.error('❌ [PageViewer] Error calling onAddAnnotation:', error);
+    }
+  };
+
   return (
     <div
       ref={containerRef}
@@ -90,42 +122,40 @@ export function PageViewer({
         gap: '8px', padding: '4px 0',
       }}
     >
-      {pagesToRender.map((page) => (
-        <div
-          key={page.id}
-          ref={(el) => registerPageRef(page.id, el)}
-          data-page-id={page.id}
-          style={{
-            position: 'relative', display: 'inline-block',
-            backgroundColor: 'transparent', borderRadius: '2px',
-            boxShadow: page.id === currentPage.id
-              ? '0 4px 8px rgba(0, 0, 0, 0.15)'
-              : '0 2px 4px rgba(0, 0, 0, 0.1)',
-            transition: 'box-shadow 0.2s ease-in-out',
-            margin: '8px 0',
-          }}
-        >
+      {pagesToRender.map((page) => {
+        // 자르기 도구 사용 중인 페이지는 자르기 전 전체를 보여줌
+        const cropping = page.id === currentPage.id && activeTool === 'crop';
+        const framed = !cropping && isPageGeometryEdited(page);
+        const sheet = pageOutputSize(page);
+        const transform = pageContentTransform(page);
+        const contentScale = framed ? scale * transform.scale : scale;
+
+        const layers = (
           <div style={{ position: 'relative', display: 'block', width: 'fit-content', height: 'fit-content' }}>
             <PageContentRenderer
               page={page}
-              scale={scale}
+              scale={contentScale}
               pdfProxy={pdfProxy}
               insertedPdfProxies={insertedPdfProxies}
             />
 
+            {/* Grid */}
+            {viewOptions.showGrid && <GridOverlay gridSize={viewOptions.gridSize} scale={contentScale} />}
+
+            {/* Search Hits */}
+            <SearchHighlightLayer
+              page={page}
+              scale={contentScale}
+              pdfProxy={proxyFor(page)}
+            />
+
             {/* Annotation Layer — 현재 페이지에만 활성화 */}
             {page.id === currentPage.id && (
               <AnnotationManager
                 pageId={page.id}
-                scale={scale}
+                scale={contentScale}
                 activeTool={activeTool as ToolType}
-                onCreate={(annotation: Omit<Annotation, 'id'>) => {
-                  try {
-                    onAddAnnotation(annotation);
-                  } catch (error) {
-                    console.error('❌ [PageViewer] Error calling onAddAnnotation:', error);
-                  }
-                }}
+                onCreate={handleCreate}
                 onUpdate={(id, updates) => {
                   onUpdateAnnotation(id, updates);
                 }}
@@ -134,9 +164,93 @@ export function PageViewer({
                 }}
               />
             )}
+
+            {/* Raster Layers — 래스터 도구일 때 현재 페이지에서 입력 받음 */}
+            {(page.layers.rasters.length > 0 || (page.id === currentPage.id && isRasterTool(activeTool))) && (
+              <RasterLayerStack
+                page={page}
+                scale={contentScale}
+                activeTool={activeTool}
+                interactive={page.id === currentPage.id && isRasterTool(activeTool)}
+              />
+            )}
+
+            {/* Form Fields — 선택 도구일 때만 입력 받음 */}
+            {page.formFields && page.formFields.length > 0 && (
+              <FormFieldLayer
+                page={page}
+                scale={contentScale}
+                pdfProxy={proxyFor(page)}
+                interactive={activeTool === 'select'}
+              />
+            )}
+
+            {/* Text Selection — 텍스트 마크업 도구일 때 현재 PDF 페이지에만 */}
+            {page.id === currentPage.id && page.pdfRef && isTextMarkupTool(activeTool) && (
+              <TextSelectionLayer
+                page={page}
+                scale={contentScale}
+                pdfProxy={proxyFor(page)}
+                activeTool={activeTool as ToolType}
+                onCreate={handleCreate}
+              />
+            )}
+
+            {/* Crop — 자르기 도구일 때 현재 페이지에만 */}
+            {cropping && (
+              <CropOverlay
+                page={page}
+                scale={contentScale}
+                onApply={(cropBox) => {
+                  cropPage(page.id, cropBox);
+                  setActiveTool('select');
+                }}
+                onCancel={() => setActiveTool('select')}
+              />
+            )}
           </div>
-        </div>
-      ))}
+        );
+
+        return (
+          <div
+            key={page.id}
+            ref={(el) => registerPageRef(page.id, el)}
+            data-page-id={page.id}
+            style={{
+              position: 'relative', display: 'inline-block',
+              backgroundColor: 'transparent', borderRadius: '2px',
+              boxShadow: page.id === currentPage.id
+                ? '0 4px 8px rgba(0, 0, 0, 0.15)'
+                : '0 2px 4px rgba(0, 0, 0, 0.1)',
+              transition: 'box-shadow 0.2s ease-in-out',
+              margin: '8px 0',
+            }}
+          >
+            {framed ? (
+              <div style={{
+                position: 'relative', overflow: 'hidden', backgroundColor: '#ffffff',
+                width: `${sheet.width * scale}px`, height: `${sheet.height * scale}px`,
+              }}>
+                <div style={{ position: 'absolute', left: `${transform.x * scale}px`, top: `${transform.y * scale}px` }}>
+                  {layers}
+                </div>
+              </div>
+            ) : layers}
+
+            {/* Rulers & Guides — 눈금자는 현재 페이지에만 */}
+            {viewOptions.showRulers && (
+              <PageRulers
+                page={page}
+                scale={contentScale}
+                origin={framed ? { x: transform.x * scale, y: transform.y * scale } : { x: 0, y: 0 }}
+                unit={viewOptions.rulerUnit}
+                showRulers={page.id === currentPage.id}
+                onUnitChange={(rulerUnit) => setGuideOptions({ rulerUnit })}
+              />
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -1,15 +1,24 @@
 /**
  * RightSidebar Component - 오른쪽 사이드바
- * 객체 선택 시 확장되어 ObjectPropertyPanel 표시
+ * 객체 선택 시 확장되어 ObjectPropertyPanel 표시, 래스터 도구 사용 중에는 RasterControls 표시
+ * 레이어 버튼을 켜면 LayersPanel이 함께 표시됨
  */
 
+import { useState } from 'react';
+import { Stack } from 'phosphor-react';
 import { AnnotationToolbox } from '../toolbox/AnnotationToolbox';
 import { ZoomControl } from '../viewer/ZoomControl';
 import { PageNavigator } from '../viewer/PageNavigator';
 import { ObjectPropertyPanel } from '../toolbox/ObjectPropertyPanel';
 import { MultiSelectPanel } from '../toolbox/MultiSelectPanel';
+import { RasterControls } from '../toolbox/RasterControls';
+import { LayersPanel } from '../toolbox/LayersPanel';
 import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useCommentStore } from '../../state/stores/CommentStore';
+import { useComments } from '../hooks/useComments';
 import { usePageStore } from '../../state/stores/PageStore';
+import { isRasterTool } from '../../core/raster/rasterEngine';
+import { useTranslation } from '../../i18n';
 import type { ToolType } from '../../core/model/types';
 import type { Annotation } from '../../types/annotation';
 
@@ -40,9 +49,14 @@ export function RightSidebar({
   isCollapsed: _isCollapsed,
   onToggle: _onToggle,
 }: RightSidebarProps) {
+  const { t } = useTranslation();
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+
   // Get selected annotation from store
   const { selection, annotations, updateAnnotation, removeAnnotation, cloneAnnotation, bringForward, sendBackward, bringToFront, sendToBack } = useAnnotationStore();
-  const { currentPageId: _currentPageId } = usePageStore();
+  const currentPage = usePageStore(s => s.pages.find(p => p.id === s.currentPageId) ?? null);
+  const openComments = useCommentStore(s => s.openComments);
+  const { addCommentTo } = useComments();
 
   // Find the selected annotation(s)
   const selectedAnnotationIds = selection.selectedAnnotationIds;
@@ -57,7 +71,9 @@ export function RightSidebar({
     : [];
 
   // Check if panel should be expanded
-  const isExpanded = selectedAnnotationIds.length > 0;
+  const showRasterControls = selectedAnnotationIds.length === 0 && isRasterTool(activeTool);
+  const hasSelectionPanel = selectedAnnotationIds.length > 0 || showRasterControls;
+  const isExpanded = hasSelectionPanel || isLayersOpen;
   const expandedWidth = 320;
 
   const selectedAnnotationId = selectedAnnotationIds.length === 1 ? selectedAnnotationIds[0] : null;
@@ -86,6 +102,12 @@ export function RightSidebar({
   const handleMoveToTop = () => { if (selectedAnnotationId) bringToFront(selectedAnnotationId); };
   const handleMoveToBottom = () => { if (selectedAnnotationId) sendToBack(selectedAnnotationId); };
 
+  const handleComment = () => {
+    if (!selectedAnnotation) return;
+    if (selectedAnnotation.type === 'comment') openComments();
+    else addCommentTo(selectedAnnotation);
+  };
+
   // Multi-select handlers
   const handleDeleteAll = () => {
     selectedAnnotationIds.forEach(id => removeAnnotation(id));
@@ -111,8 +133,14 @@ export function RightSidebar({
           overflowY: 'auto',
           borderRight: '1px solid var(--color-border-light)',
           backgroundColor: 'var(--color-bg-elevated)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--space-3)',
         }}>
-          {isMultiSelect ? (
+          {isLayersOpen && <LayersPanel />}
+          {!hasSelectionPanel ? null : showRasterControls ? (
+            <RasterControls activeTool={activeTool} page={currentPage} />
+          ) : isMultiSelect ? (
             <MultiSelectPanel
               selectedAnnotations={selectedAnnotations}
               onDeleteAll={handleDeleteAll}
@@ -128,6 +156,7 @@ export function RightSidebar({
               onMoveDown={handleMoveDown}
               onMoveToTop={handleMoveToTop}
               onMoveToBottom={handleMoveToBottom}
+              onComment={handleComment}
             />
           )}
         </div>
@@ -159,6 +188,15 @@ export function RightSidebar({
             activeTool={activeTool}
             onToolChange={onToolChange}
           />
+          <button
+            className={`btn-icon btn-tool ${isLayersOpen ? 'active' : ''}`}
+            onClick={() => setIsLayersOpen(!isLayersOpen)}
+            title={t('tools.layers')}
+            aria-label={t('tools.layers')}
+            aria-pressed={isLayersOpen}
+          >
+            <Stack size={20} weight={isLayersOpen ? 'fill' : 'regular'} />
+          </button>
         </div>
 
         {/* Zoom Controls */}
@@ -7,6 +7,15 @@
  *  - 클립보드 붙여넣기 → useClipboardPaste
  *  - 키보드 단축키     → useKeyboardShortcuts
  *  - 파일 드래그&드롭  → useFileDrop
+ *  - 프로젝트 저장     → useProjectSave
+ *  - 자동 저장/복구    → useAutosave
+ *  - 문서 검색         → useDocumentSearch
+ *  - 텍스트 인식(OCR)  → useOCR
+ *  - 바코드 스캔/삽입  → useBarcodes
+ *  - 스탬프 라이브러리 → useStamps
+ *  - 서명/채우기 도우미 → useSignatures
+ *  - 가림 영역 표시    → useRedactions
+ *  - 추출/나누기/병합  → useDocumentOps
  */
 
 import { useState, useEffect, useRef } from 'react';
@@ -16,8 +25,11 @@ import { useAnnotationStore } from '../../state/stores/AnnotationStore';
 import { useHistoryStore } from '../../state/stores/HistoryStore';
 import { usePageStore } from '../../state/stores/PageStore';
 import { usePDFStore } from '../../state/stores/PDFStore';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { useSignatureStore } from '../../state/stores/SignatureStore';
 import { useTranslation } from '../../i18n';
 import { initializeContainer } from '../../core/di/ContainerSetup';
+import { pageOutputSize } from '../../core/page/pageGeometry';
 
 // ── 레이아웃 컴포넌트 ──
 import { Header } from './Header';
@@ -26,6 +38,14 @@ import { RightSidebar } from './RightSidebar';
 import { MainContent } from './MainContent';
 import { ExportPanel } from '../export/ExportPanel';
 import { FileDropDialog } from '../dialogs/FileDropDialog';
+import { RecoveryDialog } from '../dialogs/RecoveryDialog';
+import { OCRDialog } from '../dialogs/OCRDialog';
+import { BarcodeDialog } from '../dialogs/BarcodeDialog';
+import { StampDialog } from '../dialogs/StampDialog';
+import { SignatureDialog } from '../dialogs/SignatureDialog';
+import { RedactionDialog } from '../dialogs/RedactionDialog';
+import { DocumentOpsDialog } from '../dialogs/DocumentOpsDialog';
+import { SignatureStatusBanner } from '../viewer/SignatureStatusBanner';
 
 // ── 커스텀 훅 ──
 import { useClipboardPaste } from '../hooks/useClipboardPaste';
@@ -33,6 +53,15 @@ import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useFileDrop } from '../hooks/useFileDrop';
 import { useAnnotationActions } from '../hooks/useAnnotationActions';
 import { usePageActions } from '../hooks/usePageActions';
+import { useProjectSave } from '../hooks/useProjectSave';
+import { useAutosave } from '../hooks/useAutosave';
+import { useDocumentSearch } from '../hooks/useDocumentSearch';
+import { useOCR } from '../hooks/useOCR';
+import { useBarcodes } from '../hooks/useBarcodes';
+import { useStamps } from '../hooks/useStamps';
+import { useSignatures } from '../hooks/useSignatures';
+import { useRedactions } from '../hooks/useRedactions';
+import { useDocumentOps } from '../hooks/useDocumentOps';
 
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 
@@ -53,11 +82,20 @@ export function Shell() {
   const [insertedPdfProxies] = useState<Map<string, PDFDocumentProxy>>(new Map());
 
   const fileDrop = useFileDrop(insertedPdfProxies);
+  const { handleSaveProject } = useProjectSave(insertedPdfProxies);
+  const autosave = useAutosave(insertedPdfProxies);
+  useDocumentSearch(insertedPdfProxies);
+  const ocr = useOCR(insertedPdfProxies);
+  const barcodes = useBarcodes(insertedPdfProxies);
+  const stamps = useStamps();
+  const signatures = useSignatures();
+  const redactions = useRedactions(insertedPdfProxies);
+  const documentOps = useDocumentOps(insertedPdfProxies);
 
   // ── 스토어 상태 ──
   const { document } = useDocumentStore();
   const { undo, redo, canUndo, canRedo } = useHistoryStore();
-  const { selection, updateAnnotation, selectAnnotations, setActiveTool } = useAnnotationStore();
+  const { selection, selectAnnotations, setActiveTool } = useAnnotationStore();
   const { view, setScale, fitToPage, setViewportSize, smoothRendering, toggleSmoothRendering } = useViewStore();
   const { pages, currentPageId, setCurrentPage } = usePageStore();
   const { pdfProxy } = usePDFStore();
@@ -66,7 +104,7 @@ export function Shell() {
   const currentPageIndex = pages.findIndex(p => p.id === currentPageId);
 
   // ── 추출된 훅 ──
-  const { handleAddAnnotation, handleDeleteAnnotation } = useAnnotationActions({
+  const { handleAddAnnotation, handleUpdateAnnotation, handleDeleteAnnotation } = useAnnotationActions({
     currentPageId: currentPage?.id ?? null,
   });
 
@@ -78,6 +116,18 @@ export function Shell() {
   // ── UI State ──
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [ocrDialogOpen, setOcrDialogOpen] = useState(false);
+  const [barcodeDialogOpen, setBarcodeDialogOpen] = useState(false);
+  const [stampDialogOpen, setStampDialogOpen] = useState(false);
+  const [redactionDialogOpen, setRedactionDialogOpen] = useState(false);
+  const [documentOpsDialogOpen, setDocumentOpsDialogOpen] = useState(false);
+  const searchFocusRequest = useSearchStore(s => s.focusRequest);
+  const { isDialogOpen: signatureDialogOpen, openDialog: openSignatureDialog, closeDialog: closeSignatureDialog } = useSignatureStore();
+
+  // 검색을 열면 사이드바 펼침
+  useEffect(() => {
+    if (searchFocusRequest > 0) setIsSidebarCollapsed(false);
+  }, [searchFocusRequest]);
 
   // ── 뷰포트 크기 동기화 + 창맞춤 ──
   const doFitToPage = useRef(() => { });
@@ -130,7 +180,14 @@ export function Shell() {
         onFileSelect={fileDrop.handleFileSelect}
         onUndo={undo}
         onRedo={redo}
+        onSaveProject={handleSaveProject}
         onExport={() => setExportModalOpen(true)}
+        onOpenOCR={() => setOcrDialogOpen(true)}
+        onOpenBarcodes={() => setBarcodeDialogOpen(true)}
+        onOpenStamps={() => setStampDialogOpen(true)}
+        onOpenSignatures={openSignatureDialog}
+        onOpenRedaction={() => setRedactionDialogOpen(true)}
+        onOpenDocumentOps={() => setDocumentOpsDialogOpen(true)}
         onToggleSmooth={toggleSmoothRendering}
       />
 
@@ -158,7 +215,9 @@ export function Shell() {
         zoom={view.scale}
         onZoomChange={setScale}
         onFitView={() => {
-          if (currentPage) fitToPage(currentPage.width, currentPage.height);
+          if (!currentPage) return;
+          const size = pageOutputSize(currentPage);
+          fitToPage(size.width, size.height);
         }}
         currentPageIndex={currentPageIndex}
         totalPages={pages.length}
@@ -188,11 +247,14 @@ export function Shell() {
         onZoomChange={setScale}
         onPanChange={() => { }}
         onAddAnnotation={handleAddAnnotation}
-        onUpdateAnnotation={updateAnnotation}
+        onUpdateAnnotation={handleUpdateAnnotation}
         onDeleteAnnotation={handleDeleteAnnotation}
         onSelectAnnotations={selectAnnotations}
       />
 
+      {/* Digital signature status of the loaded PDF */}
+      <SignatureStatusBanner />
+
       {/* Export Modal */}
       {exportModalOpen && document && pdfProxy && (
         <ExportPanel
@@ -204,6 +266,92 @@ export function Shell() {
         />
       )}
 
+      {/* OCR Dialog */}
+      {ocrDialogOpen && document && (
+        <OCRDialog
+          isRunning={ocr.isRunning}
+          progress={ocr.progress}
+          summary={ocr.summary}
+          error={ocr.error}
+          onStart={ocr.start}
+          onCancel={ocr.cancel}
+          onClose={() => setOcrDialogOpen(false)}
+        />
+      )}
+
+      {/* Barcode Dialog */}
+      {barcodeDialogOpen && document && (
+        <BarcodeDialog
+          isScanning={barcodes.isScanning}
+          progress={barcodes.progress}
+          hits={barcodes.hits}
+          highlightedIds={barcodes.highlightedIds}
+          onScan={barcodes.scan}
+          onCancelScan={barcodes.cancelScan}
+          onSelectHit={barcodes.goToHit}
+          onHighlight={barcodes.highlightHits}
+          onInsert={barcodes.insertBarcode}
+          onClose={() => setBarcodeDialogOpen(false)}
+        />
+      )}
+
+      {/* Stamp Dialog */}
+      {stampDialogOpen && document && (
+        <StampDialog
+          stamps={stamps.stamps}
+          tokenValues={stamps.tokenValues}
+          onInsert={stamps.insertStamp}
+          onSave={stamps.addStamp}
+          onRemove={stamps.removeStamp}
+          onReadImage={stamps.readStampImage}
+          onExportPack={stamps.exportPack}
+          onImportPack={stamps.importPack}
+          onClose={() => setStampDialogOpen(false)}
+        />
+      )}
+
+      {/* Signature Dialog */}
+      {signatureDialogOpen && document && (
+        <SignatureDialog
+          signatures={signatures.signatures}
+          activeId={signatures.activeSignature?.id ?? null}
+          placeholderCount={signatures.placeholderCount}
+          onSaveDrawn={signatures.saveDrawnSignature}
+          onSaveTyped={signatures.saveTypedSignature}
+          onSaveImage={signatures.saveImageSignature}
+          onUse={signatures.applySignature}
+          onRemove={signatures.removeSignature}
+          onAddDateField={signatures.addDateField}
+          onAddInitials={signatures.addInitialsToAllPages}
+          onAddPlaceholder={signatures.addPlaceholder}
+          onNextPlaceholder={() => signatures.goToNextPlaceholder()}
+          onClose={closeSignatureDialog}
+        />
+      )}
+
+      {/* Redaction Dialog */}
+      {redactionDialogOpen && document && (
+        <RedactionDialog
+          isMarking={redactions.isMarking}
+          onMark={redactions.markMatches}
+          onClose={() => setRedactionDialogOpen(false)}
+        />
+      )}
+
+      {/* Document Ops Dialog */}
+      {documentOpsDialogOpen && document && (
+        <DocumentOpsDialog
+          pageCount={pages.length}
+          documentName={document.name}
+          isWorking={documentOps.isWorking}
+          progress={documentOps.progress}
+          onLoadBookmarks={documentOps.loadBookmarks}
+          onExportParts={documentOps.exportParts}
+          onMerge={documentOps.mergeDocuments}
+          onClose={() => setDocumentOpsDialogOpen(false)}
+        />
+      )}
+
       {/* File Drop Dialog */}
       {fileDrop.showDropDialog && fileDrop.pendingDropFile && (
         <FileDropDialog
@@ -214,6 +362,17 @@ export function Shell() {
         />
       )}
 
+      {/* Recovery Dialog */}
+      {autosave.recoverableSessions.length > 0 && (
+        <RecoveryDialog
+          sessions={autosave.recoverableSessions}
+          isRestoring={autosave.isRestoring}
+          onRestore={autosave.restoreSession}
+          onDiscard={autosave.discardSession}
+          onDismiss={autosave.dismissRecovery}
+        />
+      )}
+
       {/* Drag Overlay */}
       {fileDrop.isDragOver && (
         <div className="drop-overlay">
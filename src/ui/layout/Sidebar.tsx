@@ -2,7 +2,15 @@
  * Sidebar Component - 좌측 사이드바
  */
 
+import { useState } from 'react';
+import { ChatCenteredText, ClockCounterClockwise, MagnifyingGlass, Textbox } from 'phosphor-react';
 import { ThumbnailSidebar } from '../viewer/ThumbnailSidebar';
+import { SearchPanel } from '../search/SearchPanel';
+import { HistoryPanel } from '../history/HistoryPanel';
+import { CommentsPanel } from '../comments/CommentsPanel';
+import { FormsPanel } from '../forms/FormsPanel';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { useCommentStore } from '../../state/stores/CommentStore';
 import { useTranslation } from '../../i18n';
 import type { Document as JFDocument, Page } from '../../core/model/types';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
@@ -43,6 +51,50 @@ export function Sidebar({
   insertedPdfProxies,
 }: SidebarProps) {
   const { t } = useTranslation();
+  const isSearchOpen = useSearchStore(s => s.isOpen);
+  const { openSearch, closeSearch } = useSearchStore();
+  const isCommentsOpen = useCommentStore(s => s.isOpen);
+  const { openComments, closeComments } = useCommentStore();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isFormsOpen, setIsFormsOpen] = useState(false);
+  const hasFormFields = pages.some(p => !p.deleted && (p.formFields?.length ?? 0) > 0);
+  // 검색(Ctrl+F)이 열리면 검색이 우선, 그다음 댓글 (댓글 도구를 쓰면 열림)
+  const showComments = isCommentsOpen && !isSearchOpen;
+  const showForms = isFormsOpen && hasFormFields && !isSearchOpen && !showComments;
+  const showHistory = isHistoryOpen && !isSearchOpen && !showComments && !showForms;
+
+  const toggleHistory = () => {
+    if (showHistory) {
+      setIsHistoryOpen(false);
+      return;
+    }
+    closeSearch();
+    closeComments();
+    setIsFormsOpen(false);
+    setIsHistoryOpen(true);
+  };
+
+  const toggleForms = () => {
+    if (showForms) {
+      setIsFormsOpen(false);
+      return;
+    }
+    closeSearch();
+    closeComments();
+    setIsHistoryOpen(false);
+    setIsFormsOpen(true);
+  };
+
+  const toggleComments = () => {
+    if (showComments) {
+      closeComments();
+      return;
+    }
+    closeSearch();
+    setIsHistoryOpen(false);
+    setIsFormsOpen(false);
+    openComments();
+  };
 
   if (isSidebarCollapsed) {
     return (
@@ -69,7 +121,47 @@ export function Sidebar({
       style={{ width: `${sidebarWidth}px` }}
     >
       <div className="sidebar-header">
-        <span className="sidebar-header__title">{t('sidebar.pages')}</span>
+        <span className="sidebar-header__title">
+          {isSearchOpen ? t('search.title') : showComments ? t('comments.title') : showForms ? t('forms.title') : showHistory ? t('history.title') : t('sidebar.pages')}
+        </span>
+        {hasFormFields && (
+          <button
+            className={`btn-icon${showForms ? ' active' : ''}`}
+            onClick={toggleForms}
+            style={{ width: '20px', height: '20px', marginLeft: 'auto' }}
+            title={t('forms.open')}
+            aria-label={t('forms.open')}
+          >
+            <Textbox size={12} />
+          </button>
+        )}
+        <button
+          className={`btn-icon${showComments ? ' active' : ''}`}
+          onClick={toggleComments}
+          style={{ width: '20px', height: '20px', marginLeft: hasFormFields ? undefined : 'auto' }}
+          title={t('comments.open')}
+          aria-label={t('comments.open')}
+        >
+          <ChatCenteredText size={12} />
+        </button>
+        <button
+          className={`btn-icon${showHistory ? ' active' : ''}`}
+          onClick={toggleHistory}
+          style={{ width: '20px', height: '20px' }}
+          title={t('history.open')}
+          aria-label={t('history.open')}
+        >
+          <ClockCounterClockwise size={12} />
+        </button>
+        <button
+          className={`btn-icon${isSearchOpen ? ' active' : ''}`}
+          onClick={isSearchOpen ? closeSearch : openSearch}
+          style={{ width: '20px', height: '20px', marginRight: '4px' }}
+          title={t('search.open')}
+          aria-label={t('search.open')}
+        >
+          <MagnifyingGlass size={12} />
+        </button>
         <button
           className="btn-icon"
           onClick={onToggleSidebar}
@@ -81,7 +173,36 @@ export function Sidebar({
         </button>
       </div>
 
-      <div style={{ flex: 1, overflowY: 'auto', overflowX: 'hidden' }}>
+      {isSearchOpen && (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <SearchPanel />
+        </div>
+      )}
+
+      {showComments && (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <CommentsPanel />
+        </div>
+      )}
+
+      {showForms && (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <FormsPanel onClose={() => setIsFormsOpen(false)} />
+        </div>
+      )}
+
+      {showHistory && (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <HistoryPanel
+            pdfProxy={pdfProxy}
+            insertedPdfPages={insertedPdfPages}
+            insertedPdfProxies={insertedPdfProxies}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        </div>
+      )}
+
+      <div style={{ flex: 1, overflowY: 'auto', overflowX: 'hidden', display: isSearchOpen || showComments || showForms || showHistory ? 'none' : undefined }}>
         <ThumbnailSidebar
           pages={pages}
           allPages={pages}
@@ -0,0 +1,127 @@
+/**
+ * ViewGuidesMenu Component - 격자, 눈금자, 스냅 설정 메뉴 (헤더)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { GridFour } from 'phosphor-react';
+import { useViewStore } from '../../state/stores/ViewStore';
+import { RULER_UNITS } from '../../core/page/rulers';
+import type { RulerUnit } from '../../core/model/types';
+import { useTranslation } from '../../i18n';
+
+const GRID_SIZES = [5, 10, 12, 18, 20, 36, 72];
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 'var(--space-2)',
+  padding: '4px 0',
+  fontSize: 'var(--font-size-sm)',
+  color: 'var(--color-text-primary)',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+};
+
+const selectStyle: React.CSSProperties = {
+  marginLeft: 'auto',
+  fontSize: 'var(--font-size-sm)',
+  padding: '2px 4px',
+  borderRadius: 'var(--radius-sm)',
+  border: '1px solid var(--color-border-light)',
+  backgroundColor: 'var(--color-bg-card)',
+  color: 'var(--color-text-primary)',
+};
+
+export function ViewGuidesMenu() {
+  const { view, setGuideOptions } = useViewStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
+
+  // 바깥 클릭 시 닫기
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const isActive = view.showGrid || view.showRulers;
+
+  const checkbox = (key: 'showGrid' | 'snapToGrid' | 'showRulers' | 'snapToObjects') => (
+    <label style={rowStyle}>
+      <input
+        type="checkbox"
+        checked={view[key]}
+        onChange={(e) => setGuideOptions({ [key]: e.target.checked })}
+      />
+      {t(`guides.${key}`)}
+    </label>
+  );
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative' }}>
+      <button
+        className={`btn-icon btn-tool ${isActive ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('guides.menu')}
+        aria-label={t('guides.menu')}
+        aria-expanded={isOpen}
+        style={{ width: '28px', height: '28px' }}
+      >
+        <GridFour size={16} weight={isActive ? 'fill' : 'bold'} />
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'absolute',
+          top: 'calc(100% + 6px)',
+          right: 0,
+          zIndex: 1000,
+          minWidth: '240px',
+          padding: 'var(--space-2) var(--space-3)',
+          backgroundColor: 'var(--color-bg-elevated)',
+          border: '1px solid var(--color-border-light)',
+          borderRadius: 'var(--radius-md)',
+          boxShadow: 'var(--shadow-md)',
+        }}>
+          {checkbox('showGrid')}
+          {checkbox('snapToGrid')}
+          <div style={rowStyle}>
+            {t('guides.gridSize')}
+            <select
+              style={selectStyle}
+              value={view.gridSize}
+              onChange={(e) => setGuideOptions({ gridSize: Number(e.target.value) })}
+            >
+              {GRID_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+          </div>
+
+          <div style={{ height: 1, margin: '6px 0', backgroundColor: 'var(--color-border-light)' }} />
+
+          {checkbox('showRulers')}
+          <div style={rowStyle}>
+            {t('guides.rulerUnit')}
+            <select
+              style={selectStyle}
+              value={view.rulerUnit}
+              onChange={(e) => setGuideOptions({ rulerUnit: e.target.value as RulerUnit })}
+            >
+              {RULER_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+            </select>
+          </div>
+
+          <div style={{ height: 1, margin: '6px 0', backgroundColor: 'var(--color-border-light)' }} />
+
+          {checkbox('snapToObjects')}
+          <div style={{ fontSize: '11px', color: 'var(--color-text-muted)', paddingTop: '2px' }}>
+            {t('guides.altHint')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
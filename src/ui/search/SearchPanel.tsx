@@ -0,0 +1,183 @@
+/**
+ * SearchPanel - 문서 검색 패널 (Ctrl+F)
+ * 좌측 사이드바에 검색 입력과 페이지별 히트 목록을 표시합니다.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { CaretDown, CaretUp, X, TextAa, Asterisk, BracketsSquare } from 'phosphor-react';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useTranslation } from '../../i18n';
+import type { SearchHit, SearchOptions } from '../../core/search/textSearch';
+
+const OPTION_BUTTONS: { key: keyof SearchOptions; icon: typeof TextAa; labelKey: string }[] = [
+    { key: 'caseSensitive', icon: TextAa, labelKey: 'search.caseSensitive' },
+    { key: 'wholeWord', icon: BracketsSquare, labelKey: 'search.wholeWord' },
+    { key: 'regex', icon: Asterisk, labelKey: 'search.regex' },
+];
+
+export function SearchPanel() {
+    const { t } = useTranslation();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const activeItemRef = useRef<HTMLButtonElement>(null);
+
+    const {
+        query, options, hits, activeIndex, isSearching, searchError, focusRequest,
+        setQuery, setOptions, setActiveIndex, nextHit, prevHit, closeSearch,
+    } = useSearchStore();
+    const pages = usePageStore(s => s.pages);
+
+    // Ctrl+F를 누를 때마다 입력창 포커스
+    useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, [focusRequest]);
+
+    // 현재 히트를 목록에서 보이게
+    useEffect(() => {
+        activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    // 페이지별 그룹 (히트 순서 = 페이지 순서)
+    const groups = useMemo(() => {
+        const result: { pageId: string; pageNumber: number; items: { hit: SearchHit; index: number }[] }[] = [];
+        const visiblePages = pages.filter(p => !p.deleted);
+        hits.forEach((hit, index) => {
+            let group = result[result.length - 1];
+            if (!group || group.pageId !== hit.pageId) {
+                group = { pageId: hit.pageId, pageNumber: visiblePages.findIndex(p => p.id === hit.pageId) + 1, items: [] };
+                result.push(group);
+            }
+            group.items.push({ hit, index });
+        });
+        return result;
+    }, [hits, pages]);
+
+    const selectHit = (index: number) => {
+        setActiveIndex(index);
+        // 같은 히트를 다시 눌러도 해당 페이지로 이동
+        const hit = hits[index];
+        if (hit) usePageStore.getState().setCurrentPage(hit.pageId);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) prevHit(); else nextHit();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            closeSearch();
+        }
+    };
+
+    const status = searchError
+        ? t('search.invalidPattern')
+        : isSearching
+            ? t('search.searching')
+            : query
+                ? hits.length > 0
+                    ? t('search.count', { current: activeIndex + 1, total: hits.length })
+                    : t('search.noResults')
+                : '';
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+            {/* Input */}
+            <div style={{ padding: 'var(--space-2)', borderBottom: '1px solid var(--color-border-light)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input
+                        ref={inputRef}
+                        className="input-field"
+                        value={query}
+                        placeholder={t('search.placeholder')}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        aria-label={t('search.placeholder')}
+                        style={{ flex: 1, minWidth: 0 }}
+                    />
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={closeSearch}
+                        title={t('search.close')} aria-label={t('search.close')}>
+                        <X size={14} />
+                    </button>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '2px', marginTop: '6px' }}>
+                    {OPTION_BUTTONS.map(({ key, icon: Icon, labelKey }) => (
+                        <button
+                            key={key}
+                            className={`btn-icon${options[key] ? ' active' : ''}`}
+                            style={{ width: '24px', height: '24px' }}
+                            onClick={() => setOptions({ [key]: !options[key] })}
+                            title={t(labelKey)}
+                            aria-label={t(labelKey)}
+                            aria-pressed={options[key]}
+                        >
+                            <Icon size={14} />
+                        </button>
+                    ))}
+
+                    <span style={{
+                        flex: 1,
+                        marginLeft: '6px',
+                        fontSize: 'var(--font-size-xs)',
+                        color: searchError ? 'var(--color-danger)' : 'var(--color-text-muted)',
+                    }}>
+                        {status}
+                    </span>
+
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={prevHit}
+                        disabled={hits.length === 0} title={t('search.previous')} aria-label={t('search.previous')}>
+                        <CaretUp size={14} />
+                    </button>
+                    <button className="btn-icon" style={{ width: '24px', height: '24px' }} onClick={nextHit}
+                        disabled={hits.length === 0} title={t('search.next')} aria-label={t('search.next')}>
+                        <CaretDown size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Results */}
+            <div style={{ flex: 1, overflowY: 'auto', padding: 'var(--space-1) 0' }}>
+                {groups.map(group => (
+                    <div key={group.pageId} style={{ marginBottom: 'var(--space-2)' }}>
+                        <div className="section__label" style={{ padding: '4px var(--space-2)' }}>
+                            {t('search.page', { page: group.pageNumber })} · {group.items.length}
+                        </div>
+                        {group.items.map(({ hit, index }) => (
+                            <button
+                                key={hit.id}
+                                ref={index === activeIndex ? activeItemRef : undefined}
+                                onClick={() => selectHit(index)}
+                                style={{
+                                    display: 'block',
+                                    width: '100%',
+                                    padding: '4px var(--space-2)',
+                                    border: 'none',
+                                    textAlign: 'left',
+                                    cursor: 'pointer',
+                                    fontSize: 'var(--font-size-sm)',
+                                    color: 'var(--color-text-secondary)',
+                                    backgroundColor: index === activeIndex ? 'var(--color-brand-light)' : 'transparent',
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap',
+                                }}
+                            >
+                                {hit.source === 'annotation' && (
+                                    <span style={{ color: 'var(--color-text-muted)', marginRight: '4px' }}>
+                                        [{t('search.annotation')}]
+                                    </span>
+                                )}
+                                {hit.snippet.before}
+                                <mark style={{ backgroundColor: 'rgba(255, 200, 0, 0.6)', color: 'inherit', padding: 0 }}>
+                                    {hit.snippet.match}
+                                </mark>
+                                {hit.snippet.after}
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -6,6 +6,8 @@ import { useState } from 'react';
 import {
   Selection, TextT, HighlighterCircle, Rectangle, Circle,
   ArrowUpRight, Pen, Minus, StarFour, BoundingBox, GridFour,
+  MarkerCircle, TextUnderline, WaveSine, TextStrikethrough,
+  PaintBrush, Eraser, Drop, EyeSlash, Crop, ChatCenteredText, PenNib,
 } from 'phosphor-react';
 import { useTranslation } from '../../i18n';
 import type { ToolType } from '../../core/model/types';
@@ -21,6 +23,13 @@ const toolDefs: { id: ToolType; icon: React.ElementType; i18nKey: string; shortc
   { id: 'text', icon: TextT, i18nKey: 'tools.text', shortcut: 'T' },
   { id: 'table', icon: GridFour, i18nKey: 'tools.table', shortcut: 'G' },
   { id: 'highlighter', icon: HighlighterCircle, i18nKey: 'tools.highlighter', shortcut: 'R' },
+  { id: 'highlight', icon: MarkerCircle, i18nKey: 'tools.highlight' },
+  { id: 'underline', icon: TextUnderline, i18nKey: 'tools.underline' },
+  { id: 'squiggly', icon: WaveSine, i18nKey: 'tools.squiggly' },
+  { id: 'strikeout', icon: TextStrikethrough, i18nKey: 'tools.strikeout' },
+  { id: 'redaction', icon: EyeSlash, i18nKey: 'tools.redaction' },
+  { id: 'comment', icon: ChatCenteredText, i18nKey: 'tools.comment' },
+  { id: 'signature', icon: PenNib, i18nKey: 'tools.signature' },
   { id: 'rectangle', icon: Rectangle, i18nKey: 'tools.rectangle', shortcut: 'O' },
   { id: 'roundedRect', icon: BoundingBox, i18nKey: 'tools.roundedRect', shortcut: 'U' },
   { id: 'ellipse', icon: Circle, i18nKey: 'tools.ellipse', shortcut: 'C' },
@@ -28,6 +37,10 @@ const toolDefs: { id: ToolType; icon: React.ElementType; i18nKey: string; shortc
   { id: 'line', icon: Minus, i18nKey: 'tools.line', shortcut: 'L' },
   { id: 'star', icon: StarFour, i18nKey: 'tools.star', shortcut: 'S' },
   { id: 'brush', icon: Pen, i18nKey: 'tools.brush', shortcut: 'B' },
+  { id: 'paint', icon: PaintBrush, i18nKey: 'tools.paint' },
+  { id: 'eraser', icon: Eraser, i18nKey: 'tools.eraser' },
+  { id: 'blur', icon: Drop, i18nKey: 'tools.blur' },
+  { id: 'crop', icon: Crop, i18nKey: 'tools.crop' },
 ];
 
 export function AnnotationToolbox({ activeTool, onToolChange }: AnnotationToolboxProps) {
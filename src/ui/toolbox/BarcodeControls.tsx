@@ -0,0 +1,141 @@
+/**
+ * BarcodeControls — 바코드/QR 주석 편집 UI
+ * 값이나 형식을 바꾸면 모듈 행렬을 다시 만든다. 인코딩할 수 없는 값은 반영하지 않고 오류를 표시한다.
+ */
+
+import { useState } from 'react';
+import type { Annotation, BarcodeAnnotation, BarcodeFormat } from '../../types/annotation';
+import {
+    BARCODE_FORMATS, BARCODE_FORMAT_LABELS,
+    defaultBarcodeSize, encodeBarcode, isLinearBarcode, validateBarcodeValue,
+} from '../../core/barcode/barcodeEncoder';
+import { COLORS, labelStyle, inputStyle, colorButtonStyle, inlineRowStyle, iconButtonStyle } from './panelStyles';
+
+interface BarcodeControlsProps {
+    annotation: BarcodeAnnotation;
+    onUpdate: (updates: Partial<Annotation>) => void;
+}
+
+const ERROR_MESSAGES = {
+    empty: '값을 입력하세요',
+    unsupportedCharacter: 'Code 128은 영문, 숫자, 기호(ASCII)만 지원합니다',
+    tooLong: '값이 너무 길어 이 형식으로 만들 수 없습니다',
+};
+
+export function BarcodeControls({ annotation, onUpdate }: BarcodeControlsProps) {
+    const [draft, setDraft] = useState(annotation.value);
+    const [error, setError] = useState<string | null>(null);
+    const { style, bbox } = annotation;
+
+    /** 인코딩에 성공하면 반영, 실패하면 오류 표시 */
+    const apply = (format: BarcodeFormat, value: string) => {
+        const invalid = validateBarcodeValue(format, value);
+        if (invalid) {
+            setError(ERROR_MESSAGES[invalid]);
+            return;
+        }
+
+        let modules: string[];
+        try {
+            modules = encodeBarcode(format, value);
+        } catch {
+            setError(ERROR_MESSAGES.tooLong);
+            return;
+        }
+        setError(null);
+
+        if (format === annotation.format) {
+            onUpdate({ value, modules } as Partial<Annotation>);
+            return;
+        }
+
+        // 형식이 바뀌면 중심을 유지한 채 기본 크기로
+        const size = defaultBarcodeSize(format, modules);
+        onUpdate({
+            format,
+            value,
+            modules,
+            bbox: {
+                x: bbox.x + (bbox.width - size.width) / 2,
+                y: bbox.y + (bbox.height - size.height) / 2,
+                ...size,
+            },
+            style: { ...style, lockAspectRatio: !isLinearBarcode(format) },
+        } as Partial<Annotation>);
+    };
+
+    return (
+        <>
+            {/* Format */}
+            <div>
+                <div style={labelStyle}>형식</div>
+                <div style={{ display: 'flex', gap: '3px', marginTop: '6px' }}>
+                    {BARCODE_FORMATS.map((format) => {
+                        const isActive = annotation.format === format;
+                        return (
+                            <button
+                                key={format}
+                                onClick={() => apply(format, draft)}
+                                style={{
+                                    ...iconButtonStyle,
+                                    flex: 1,
+                                    width: 'auto',
+                                    height: '28px',
+                                    fontSize: '11px',
+                                    backgroundColor: isActive ? '#3B82F6' : '#F1F5F9',
+                                    borderColor: isActive ? '#2563EB' : '#CBD5E1',
+                                    color: isActive ? 'white' : '#64748B',
+                                }}
+                            >
+                                {BARCODE_FORMAT_LABELS[format]}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Value */}
+            <div style={{ marginTop: '4px' }}>
+                <div style={labelStyle}>값</div>
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        apply(annotation.format, e.target.value);
+                    }}
+                    style={{ ...inputStyle, width: '100%', marginTop: '6px' }}
+                />
+                {error && (
+                    <div style={{ marginTop: '4px', fontSize: '11px', color: '#DC2626' }}>{error}</div>
+                )}
+            </div>
+
+            {/* Bar Color */}
+            <div style={{ marginTop: '4px' }}>
+                <div style={labelStyle}>막대 색상</div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+                    {COLORS.map((color) => (
+                        <button
+                            key={color}
+                            style={colorButtonStyle(color, style.color === color)}
+                            onClick={() => onUpdate({ style: { ...style, color } })}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* Background */}
+            <div style={{ ...inlineRowStyle, marginTop: '4px' }}>
+                <span style={{ fontSize: '12px', color: '#475569' }}>흰색 배경</span>
+                <input
+                    type="checkbox"
+                    checked={style.backgroundColor !== 'transparent'}
+                    onChange={(e) => onUpdate({
+                        style: { ...style, backgroundColor: e.target.checked ? '#FFFFFF' : 'transparent' },
+                    })}
+                />
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,267 @@
+/**
+ * LayersPanel — 현재 페이지의 객체 레이어 목록
+ *
+ * 앞쪽 객체가 위에 오는 트리(그룹은 접이식)로 보여주고,
+ * 드래그로 순서 변경, 눈/자물쇠로 숨김·잠금, 더블클릭으로 이름 변경을 지원한다.
+ * 선택 상태는 캔버스와 AnnotationStore를 통해 동기화된다.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+    Stack, Eye, EyeSlash, Lock, LockOpen, CaretRight, CaretDown, FolderSimple, Rectangle,
+} from 'phosphor-react';
+import type { Annotation } from '../../types/annotation';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { usePageStore } from '../../state/stores/PageStore';
+import {
+    buildLayerTree, defaultLayerName, dropTargetId, layerNodeIds, moveLayers,
+} from '../../core/annotations/layerTree';
+import type { LayerDropPosition, LayerNode } from '../../core/annotations/layerTree';
+import { panelStyle, panelHeaderStyle, inputStyle, ANNOTATION_TYPE_META } from './panelStyles';
+
+// ── 스타일 ─────────────────────────────────────
+
+const rowStyle = (isSelected: boolean, depth: number): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    height: '28px',
+    padding: `0 8px 0 ${10 + depth * 16}px`,
+    cursor: 'pointer',
+    userSelect: 'none',
+    backgroundColor: isSelected ? 'rgba(59, 130, 246, 0.12)' : 'transparent',
+    color: isSelected ? '#1D4ED8' : 'var(--color-text-primary)',
+    fontSize: '12px',
+});
+
+const toggleStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '22px',
+    height: '22px',
+    border: 'none',
+    borderRadius: 'var(--radius-sm)',
+    background: 'transparent',
+    color: '#64748B',
+    cursor: 'pointer',
+    padding: 0,
+};
+
+const dropLineStyle = (position: LayerDropPosition): React.CSSProperties => ({
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    [position === 'above' ? 'top' : 'bottom']: -1,
+    height: '2px',
+    backgroundColor: '#3B82F6',
+    pointerEvents: 'none',
+});
+
+// ── 메인 패널 ──────────────────────────────────
+
+export function LayersPanel() {
+    const {
+        annotations, selection, selectAnnotation, selectAnnotations, updateAnnotation, reorderPageAnnotations,
+    } = useAnnotationStore();
+    const pageId = usePageStore(s => s.currentPageId);
+    const pageAnnotations = annotations.filter(a => a.pageId === pageId);
+    const tree = buildLayerTree(pageAnnotations);
+    const selectedIds = selection.selectedAnnotationIds;
+
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [dragIds, setDragIds] = useState<string[] | null>(null);
+    const [dropHint, setDropHint] = useState<{ key: string; position: LayerDropPosition } | null>(null);
+    const rowRefs = useRef(new Map<string, HTMLDivElement>());
+
+    // 캔버스에서 선택한 객체가 보이도록 스크롤
+    useEffect(() => {
+        const last = selectedIds[selectedIds.length - 1];
+        if (last) rowRefs.current.get(last)?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIds]);
+
+    const handleSelect = (e: React.MouseEvent, ids: string[]) => {
+        if (e.ctrlKey || e.metaKey) {
+            ids.forEach(id => selectAnnotation(id, true));
+        } else {
+            selectAnnotations(ids);
+        }
+    };
+
+    const setFlag = (members: Annotation[], flag: 'hidden' | 'locked') => {
+        // 하나라도 꺼져 있으면 모두 켬
+        const value = !members.every(a => a[flag]);
+        members.forEach(a => updateAnnotation(a.id, { [flag]: value }));
+    };
+
+    const handleDragOver = (e: React.DragEvent, key: string) => {
+        if (!dragIds) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const position: LayerDropPosition = e.clientY < rect.top + rect.height / 2 ? 'above' : 'below';
+        if (dropHint?.key !== key || dropHint.position !== position) setDropHint({ key, position });
+    };
+
+    const handleDrop = (e: React.DragEvent, targetId: string, position: LayerDropPosition) => {
+        e.preventDefault();
+        if (pageId && dragIds) {
+            const order = pageAnnotations.map(a => a.id);
+            const next = moveLayers(order, dragIds, targetId, position);
+            if (next !== order) reorderPageAnnotations(pageId, next);
+        }
+        setDragIds(null);
+        setDropHint(null);
+    };
+
+    const renderRow = (
+        key: string,
+        depth: number,
+        ids: string[],
+        members: Annotation[],
+        label: string,
+        Icon: React.ElementType,
+        target: (position: LayerDropPosition) => string,
+        extra?: { caret?: React.ReactNode; renameId?: string },
+    ) => {
+        const isSelected = ids.every(id => selectedIds.includes(id));
+        const isHidden = members.every(a => a.hidden);
+        const isLocked = members.every(a => a.locked);
+        const renameId = extra?.renameId;
+
+        return (
+            <div
+                key={key}
+                ref={(el) => {
+                    if (el && renameId) rowRefs.current.set(renameId, el);
+                    else if (renameId) rowRefs.current.delete(renameId);
+                }}
+                draggable={renamingId === null}
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragIds(ids);
+                }}
+                onDragEnd={() => { setDragIds(null); setDropHint(null); }}
+                onDragOver={(e) => handleDragOver(e, key)}
+                onDragLeave={() => { if (dropHint?.key === key) setDropHint(null); }}
+                onDrop={(e) => dropHint && handleDrop(e, target(dropHint.position), dropHint.position)}
+                onClick={(e) => handleSelect(e, ids)}
+                onDoubleClick={() => renameId && setRenamingId(renameId)}
+                style={{ ...rowStyle(isSelected, depth), position: 'relative', opacity: isHidden ? 0.45 : 1 }}
+            >
+                {dropHint?.key === key && <div style={dropLineStyle(dropHint.position)} />}
+                {extra?.caret}
+                <Icon size={14} style={{ flexShrink: 0, color: '#64748B' }} />
+                {renamingId && renamingId === renameId ? (
+                    <input
+                        autoFocus
+                        defaultValue={members[0].name ?? ''}
+                        placeholder={label}
+                        style={{ ...inputStyle, padding: '2px 6px', fontSize: '12px' }}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={(e) => {
+                            updateAnnotation(renameId, { name: e.target.value.trim() || undefined });
+                            setRenamingId(null);
+                        }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                    />
+                ) : (
+                    <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {label}
+                    </span>
+                )}
+                <button
+                    style={toggleStyle}
+                    title={isHidden ? '표시' : '숨기기'}
+                    onClick={(e) => { e.stopPropagation(); setFlag(members, 'hidden'); }}
+                >
+                    {isHidden ? <EyeSlash size={14} /> : <Eye size={14} />}
+                </button>
+                <button
+                    style={{ ...toggleStyle, color: isLocked ? '#1E293B' : '#CBD5E1' }}
+                    title={isLocked ? '잠금 해제' : '잠금'}
+                    onClick={(e) => { e.stopPropagation(); setFlag(members, 'locked'); }}
+                >
+                    {isLocked ? <Lock size={14} weight="fill" /> : <LockOpen size={14} />}
+                </button>
+            </div>
+        );
+    };
+
+    const renderAnnotation = (annotation: Annotation, depth: number) => {
+        const meta = ANNOTATION_TYPE_META[annotation.type] || { label: annotation.type, icon: Rectangle };
+        return renderRow(
+            annotation.id,
+            depth,
+            [annotation.id],
+            [annotation],
+            defaultLayerName(pageAnnotations, annotation, meta.label),
+            meta.icon,
+            () => annotation.id,
+            { renameId: annotation.id },
+        );
+    };
+
+    const renderNode = (node: LayerNode) => {
+        if (node.kind === 'annotation') return renderAnnotation(node.annotation, 0);
+
+        const isCollapsed = collapsed.has(node.id);
+        const CaretIcon = isCollapsed ? CaretRight : CaretDown;
+        const caret = (
+            <CaretIcon
+                size={10}
+                weight="bold"
+                style={{ flexShrink: 0, color: '#94A3B8' }}
+                onClick={(e: React.MouseEvent) => {
+                    e.stopPropagation();
+                    setCollapsed(prev => {
+                        const next = new Set(prev);
+                        if (isCollapsed) next.delete(node.id); else next.add(node.id);
+                        return next;
+                    });
+                }}
+            />
+        );
+
+        return (
+            <div key={node.id}>
+                {renderRow(
+                    node.id,
+                    0,
+                    layerNodeIds(node),
+                    node.children,
+                    `그룹 (${node.children.length})`,
+                    FolderSimple,
+                    (position) => dropTargetId(node, position),
+                    { caret },
+                )}
+                {!isCollapsed && node.children.map(child => renderAnnotation(child, 1))}
+            </div>
+        );
+    };
+
+    return (
+        <div style={panelStyle}>
+            <div style={panelHeaderStyle}>
+                <Stack size={16} weight="fill" />
+                <span>레이어</span>
+                <span style={{ marginLeft: 'auto', fontSize: '10px', color: '#94A3B8', fontWeight: 400 }}>
+                    {pageAnnotations.length}개 객체
+                </span>
+            </div>
+
+            <div style={{ padding: '4px 0', maxHeight: '320px', overflowY: 'auto' }}>
+                {tree.length === 0 ? (
+                    <div style={{ padding: '12px 14px', fontSize: '12px', color: 'var(--color-text-muted)' }}>
+                        이 페이지에 객체가 없습니다
+                    </div>
+                ) : (
+                    tree.map(renderNode)
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+/**
+ * OCRControls — OCR 인식 단어 편집 UI
+ * 잘못 인식된 텍스트를 고치고 신뢰도/언어를 확인한다.
+ */
+
+import type { Annotation, OCRAnnotation } from '../../types/annotation';
+import { confidenceColor } from '../../core/ocr/ocrLayer';
+import { labelStyle, inputStyle, inlineRowStyle, valueDisplayStyle } from './panelStyles';
+
+interface OCRControlsProps {
+    annotation: OCRAnnotation;
+    onUpdate: (updates: Partial<Annotation>) => void;
+}
+
+export function OCRControls({ annotation, onUpdate }: OCRControlsProps) {
+    return (
+        <>
+            {/* Recognized Text */}
+            <div>
+                <div style={labelStyle}>인식된 텍스트</div>
+                <input
+                    type="text"
+                    value={annotation.content}
+                    onChange={(e) => onUpdate({ content: e.target.value } as Partial<Annotation>)}
+                    style={{ ...inputStyle, width: '100%', marginTop: '6px' }}
+                />
+            </div>
+
+            {/* Confidence & Language */}
+            <div style={{ ...inlineRowStyle, marginTop: '4px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flex: 1 }}>
+                    <span style={{ fontSize: '11px', color: '#94A3B8' }}>신뢰도</span>
+                    <span style={{ ...valueDisplayStyle, color: confidenceColor(annotation.confidence) }}>
+                        {Math.round(annotation.confidence)}%
+                    </span>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flex: 1 }}>
+                    <span style={{ fontSize: '11px', color: '#94A3B8' }}>언어</span>
+                    <span style={valueDisplayStyle}>{annotation.language}</span>
+                </div>
+            </div>
+        </>
+    );
+}
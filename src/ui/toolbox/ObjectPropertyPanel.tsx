@@ -5,25 +5,32 @@
  *  - TextControls: 텍스트 전용
  *  - ShapeControls: 도형/선 편집
  *  - ImageControls: 이미지 편집
+ *  - TextMarkupControls: 텍스트 마크업 편집
+ *  - OCRControls: OCR 인식 단어 편집
+ *  - BarcodeControls: 바코드/QR 값·형식 편집
+ *  - RedactionControls: 가림 영역 편집
+ *  - TableControls: 표 셀 범위 편집 (행/열, 병합, 테두리, 내보내기)
  *  - LayerOrderButtons: 레이어 순서
+ *  - 댓글: 선택한 주석에 검토 댓글 달기 (댓글이면 패널에서 보기)
  */
 
 import { useState } from 'react';
-import {
-    Copy, Trash, CaretRight, CaretDown,
-    Rectangle, Circle, ArrowUpRight, Minus,
-    TextT, Image as ImageIcon, PencilSimple, StarFour,
-    HighlighterCircle, GridFour,
-} from 'phosphor-react';
+import { Copy, Trash, CaretRight, CaretDown, Rectangle, ArrowUpRight, ChatCenteredText } from 'phosphor-react';
 import type { Annotation, ArrowAnnotation, LineAnnotation } from '../../types/annotation';
 import {
     panelStyle, panelHeaderStyle, panelBodyStyle,
     sectionStyle, dividerStyle, labelStyle,
     iconButtonStyle, actionBarStyle, inlineRowStyle, valueDisplayStyle,
+    ANNOTATION_TYPE_META,
 } from './panelStyles';
 import { TextControls } from './TextControls';
 import { ShapeControls } from './ShapeControls';
 import { ImageControls } from './ImageControls';
+import { TextMarkupControls } from './TextMarkupControls';
+import { OCRControls } from './OCRControls';
+import { BarcodeControls } from './BarcodeControls';
+import { RedactionControls } from './RedactionControls';
+import { TableControls } from './TableControls';
 import { LayerOrderButtons } from './LayerOrderButtons';
 
 interface ObjectPropertyPanelProps {
@@ -35,25 +42,9 @@ interface ObjectPropertyPanelProps {
     onMoveDown: () => void;
     onMoveToTop: () => void;
     onMoveToBottom: () => void;
+    onComment: () => void;
 }
 
-// ── 객체 타입 메타 ─────────────────────────────
-
-const TYPE_META: Record<string, { label: string; icon: React.ElementType }> = {
-    text: { label: '텍스트', icon: TextT },
-    rectangle: { label: '사각형', icon: Rectangle },
-    roundedRect: { label: '둥근 사각형', icon: Rectangle },
-    ellipse: { label: '원형', icon: Circle },
-    arrow: { label: '화살표', icon: ArrowUpRight },
-    line: { label: '직선', icon: Minus },
-    star: { label: '별', icon: StarFour },
-    image: { label: '이미지', icon: ImageIcon },
-    freehand: { label: '펜', icon: PencilSimple },
-    highlighter: { label: '형광펜', icon: HighlighterCircle },
-    brush: { label: '펜', icon: PencilSimple },
-    table: { label: '표', icon: GridFour },
-};
-
 // ── 접이식 섹션 컴포넌트 ───────────────────────
 
 function CollapsibleSection({
@@ -94,11 +85,12 @@ export function ObjectPropertyPanel({
     onMoveDown,
     onMoveToTop,
     onMoveToBottom,
+    onComment,
 }: ObjectPropertyPanelProps) {
     if (!selectedAnnotation) return null;
 
     const type = selectedAnnotation.type;
-    const meta = TYPE_META[type] || { label: type, icon: Rectangle };
+    const meta = ANNOTATION_TYPE_META[type] || { label: type, icon: Rectangle };
     const TypeIcon = meta.icon;
 
     const isTextAnnotation = type === 'text';
@@ -107,6 +99,8 @@ export function ObjectPropertyPanel({
     const isClosedShape = ['rectangle', 'roundedRect', 'ellipse', 'star'].includes(type);
     const isLineOrArrow = type === 'line' || type === 'arrow';
     const isTableAnnotation = type === 'table';
+    const isTextMarkup = ['underline', 'squiggly', 'strikeout'].includes(type)
+        || (type === 'highlight' && 'quads' in selectedAnnotation && !!selectedAnnotation.quads?.length);
 
     const style = selectedAnnotation.style || {};
     const bbox = selectedAnnotation.bbox;
@@ -161,6 +155,46 @@ export function ObjectPropertyPanel({
                     </>
                 )}
 
+                {/* Text Markup Controls */}
+                {isTextMarkup && (
+                    <>
+                        <CollapsibleSection title="텍스트 마크업">
+                            <TextMarkupControls annotation={selectedAnnotation} style={style} onUpdate={onUpdate} />
+                        </CollapsibleSection>
+                        <div style={dividerStyle} />
+                    </>
+                )}
+
+                {/* OCR Controls */}
+                {selectedAnnotation.type === 'ocr' && (
+                    <>
+                        <CollapsibleSection title="OCR">
+                            <OCRControls annotation={selectedAnnotation} onUpdate={onUpdate} />
+                        </CollapsibleSection>
+                        <div style={dividerStyle} />
+                    </>
+                )}
+
+                {/* Barcode Controls */}
+                {selectedAnnotation.type === 'barcode' && (
+                    <>
+                        <CollapsibleSection title="바코드">
+                            <BarcodeControls key={selectedAnnotation.id} annotation={selectedAnnotation} onUpdate={onUpdate} />
+                        </CollapsibleSection>
+                        <div style={dividerStyle} />
+                    </>
+                )}
+
+                {/* Redaction Controls */}
+                {selectedAnnotation.type === 'redaction' && (
+                    <>
+                        <CollapsibleSection title="가림">
+                            <RedactionControls annotation={selectedAnnotation} onUpdate={onUpdate} />
+                        </CollapsibleSection>
+                        <div style={dividerStyle} />
+                    </>
+                )}
+
                 {/* Shape Controls */}
                 {isShapeAnnotation && (
                     <>
@@ -262,9 +296,32 @@ export function ObjectPropertyPanel({
                             </div>
                         </CollapsibleSection>
                         <div style={dividerStyle} />
+                        <CollapsibleSection title="셀 편집">
+                            {selectedAnnotation.type === 'table' && <TableControls annotation={selectedAnnotation} />}
+                        </CollapsibleSection>
+                        <div style={dividerStyle} />
                     </>
                 )}
 
+                {/* Comment */}
+                <CollapsibleSection title="댓글" defaultOpen={type === 'comment'}>
+                    {selectedAnnotation.type === 'comment' && (
+                        <div style={inlineRowStyle}>
+                            <span style={{ fontSize: '11px', color: '#94A3B8' }}>스레드</span>
+                            <span style={valueDisplayStyle}>
+                                {selectedAnnotation.thread.length}개 · {selectedAnnotation.status === 'resolved' ? '해결됨' : '진행 중'}
+                            </span>
+                        </div>
+                    )}
+                    <button
+                        style={{ ...iconButtonStyle, width: '100%', gap: '4px', fontSize: '11px', fontWeight: 600 }}
+                        onClick={onComment}
+                    >
+                        <ChatCenteredText size={14} />
+                        {type === 'comment' ? '댓글 패널에서 보기' : '댓글 달기'}
+                    </button>
+                </CollapsibleSection>
+
                 {/* Layer Order */}
                 <CollapsibleSection title="레이어" defaultOpen={false}>
                     <LayerOrderButtons
@@ -0,0 +1,260 @@
+/**
+ * RasterControls — 래스터 도구(브러시/지우개/흐림) 설정 + 페이지 래스터 레이어 패널
+ * 도구 설정은 AnnotationStore.toolOptions에, 레이어 변경은 PageStore + 히스토리에 기록된다.
+ */
+
+import { useRef } from 'react';
+import { PaintBrush, Eraser, Drop, Eye, EyeSlash, Trash, Plus } from 'phosphor-react';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { snapshotRasterLayer } from '../../state/stores/HistoryStore';
+import { useRasterLayerActions } from '../hooks/useRasterLayerActions';
+import { resolveRasterTool } from '../../core/raster/rasterEngine';
+import type { BlendMode, Page, RasterLayer } from '../../core/model/types';
+import {
+    COLORS, panelStyle, panelHeaderStyle, panelBodyStyle, sectionStyle, dividerStyle,
+    labelStyle, inlineRowStyle, valueDisplayStyle, sliderStyle, colorButtonStyle,
+    iconButtonStyle, buttonStyle, inputStyle,
+} from './panelStyles';
+
+interface RasterControlsProps {
+    activeTool: string;
+    page: Page | null;
+}
+
+const TOOL_META: Record<string, { label: string; icon: React.ElementType }> = {
+    paint: { label: '브러시', icon: PaintBrush },
+    eraser: { label: '지우개', icon: Eraser },
+    blur: { label: '흐림', icon: Drop },
+};
+
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+    { value: 'normal', label: '표준' },
+    { value: 'multiply', label: '곱하기' },
+    { value: 'screen', label: '스크린' },
+    { value: 'overlay', label: '오버레이' },
+    { value: 'darken', label: '어둡게' },
+    { value: 'lighten', label: '밝게' },
+];
+
+// ── 슬라이더 행 ────────────────────────────────
+
+function SliderRow({
+    label, value, min, max, unit = '', onChange, onStart, onCommit,
+}: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    unit?: string;
+    onChange: (value: number) => void;
+    /** 드래그 시작 (히스토리 스냅샷용) */
+    onStart?: () => void;
+    /** 드래그 끝 */
+    onCommit?: () => void;
+}) {
+    return (
+        <div style={inlineRowStyle}>
+            <span style={{ ...labelStyle, margin: 0, minWidth: '44px' }}>{label}</span>
+            <input
+                type="range" min={min} max={max}
+                value={value}
+                onPointerDown={onStart}
+                onPointerUp={onCommit}
+                onKeyDown={onStart}
+                onKeyUp={onCommit}
+                onChange={(e) => onChange(parseInt(e.target.value))}
+                style={sliderStyle}
+            />
+            <span style={{ ...valueDisplayStyle, minWidth: '40px', fontSize: '11px' }}>{value}{unit}</span>
+        </div>
+    );
+}
+
+// ── 메인 패널 ──────────────────────────────────
+
+export function RasterControls({ activeTool, page }: RasterControlsProps) {
+    const selection = useAnnotationStore(s => s.selection);
+    const setToolOptions = useAnnotationStore(s => s.setToolOptions);
+    const selectRasterLayer = useAnnotationStore(s => s.selectRasterLayer);
+    const { addLayer, updateLayer, recordChange, clearLayer, removeLayer } = useRasterLayerActions(page?.id ?? null);
+    /** 슬라이더 드래그 시작 시점 레이어 */
+    const editBeforeRef = useRef<RasterLayer | null>(null);
+
+    const tool = resolveRasterTool(activeTool, selection.toolOptions);
+    const meta = TOOL_META[activeTool];
+    if (!tool || !meta) return null;
+    const ToolIcon = meta.icon;
+
+    const layers = page?.layers.rasters ?? [];
+    const selectedLayer = layers.find(r => r.id === selection.selectedRasterLayerId) ?? null;
+
+    /** 현재 도구 설정 일부 변경 */
+    const setTool = (updates: Record<string, number | string>) => {
+        switch (tool.type) {
+            case 'brush': setToolOptions({ brush: { ...tool, ...updates } }); break;
+            case 'eraser': setToolOptions({ eraser: { ...tool, ...updates } }); break;
+            case 'blur': setToolOptions({ blur: { ...tool, ...updates } }); break;
+        }
+    };
+
+    const beginLayerEdit = () => {
+        if (selectedLayer && !editBeforeRef.current) editBeforeRef.current = snapshotRasterLayer(selectedLayer);
+    };
+
+    const commitLayerEdit = () => {
+        const before = editBeforeRef.current;
+        editBeforeRef.current = null;
+        if (before && selectedLayer && before.opacity !== selectedLayer.opacity) {
+            recordChange(before.id, before, '래스터 레이어 불투명도');
+        }
+    };
+
+    return (
+        <div style={panelStyle}>
+            {/* Header */}
+            <div style={panelHeaderStyle}>
+                <ToolIcon size={16} weight="bold" />
+                <span>{meta.label}</span>
+            </div>
+
+            <div style={panelBodyStyle}>
+                {/* Tool Settings */}
+                <div style={sectionStyle}>
+                    <span style={labelStyle}>도구</span>
+                    <SliderRow label="크기" value={tool.size} min={1} max={200} unit="px" onChange={(size) => setTool({ size })} />
+                    {tool.type !== 'blur' && (
+                        <SliderRow
+                            label="경도" value={Math.round(tool.hardness * 100)} min={0} max={100} unit="%"
+                            onChange={(v) => setTool({ hardness: v / 100 })}
+                        />
+                    )}
+                    {tool.type === 'brush' && (
+                        <SliderRow
+                            label="불투명도" value={Math.round(tool.opacity * 100)} min={1} max={100} unit="%"
+                            onChange={(v) => setTool({ opacity: v / 100 })}
+                        />
+                    )}
+                    {tool.type === 'blur' && (
+                        <SliderRow
+                            label="세기" value={Math.round(tool.strength * 100)} min={1} max={100} unit="%"
+                            onChange={(v) => setTool({ strength: v / 100 })}
+                        />
+                    )}
+                    {tool.type === 'brush' && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '4px' }}>
+                            {COLORS.map((color) => (
+                                <button
+                                    key={color}
+                                    onClick={() => setTool({ color })}
+                                    style={colorButtonStyle(color, tool.color.toUpperCase() === color)}
+                                    title={color}
+                                />
+                            ))}
+                            <input
+                                type="color"
+                                value={tool.color}
+                                onChange={(e) => setTool({ color: e.target.value.toUpperCase() })}
+                                style={{ width: '22px', height: '22px', padding: 0, border: 'none', cursor: 'pointer' }}
+                                title="사용자 지정 색"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div style={dividerStyle} />
+
+                {/* Layers */}
+                <div style={sectionStyle}>
+                    <div style={inlineRowStyle}>
+                        <span style={labelStyle}>레이어</span>
+                        <button onClick={addLayer} style={{ ...iconButtonStyle, width: '24px', height: '24px' }} title="레이어 추가">
+                            <Plus size={12} weight="bold" />
+                        </button>
+                    </div>
+
+                    {layers.length === 0 && (
+                        <span style={{ fontSize: '11px', color: '#94A3B8' }}>
+                            브러시로 그리면 레이어가 만들어집니다
+                        </span>
+                    )}
+
+                    {/* 위에 그려지는 레이어가 먼저 */}
+                    {[...layers].reverse().map((layer) => {
+                        const isSelected = layer.id === selectedLayer?.id;
+                        const VisibilityIcon = layer.visible ? Eye : EyeSlash;
+                        return (
+                            <div
+                                key={layer.id}
+                                onClick={() => selectRasterLayer(isSelected ? null : layer.id)}
+                                style={{
+                                    ...inlineRowStyle,
+                                    padding: '4px 6px',
+                                    borderRadius: 'var(--radius-md)',
+                                    cursor: 'pointer',
+                                    backgroundColor: isSelected ? 'rgba(59, 130, 246, 0.12)' : 'transparent',
+                                    border: `1px solid ${isSelected ? '#3B82F6' : 'transparent'}`,
+                                }}
+                            >
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        updateLayer(layer.id, { visible: !layer.visible }, layer.visible ? '래스터 레이어 숨기기' : '래스터 레이어 표시');
+                                    }}
+                                    style={{ ...iconButtonStyle, width: '24px', height: '24px' }}
+                                    title={layer.visible ? '숨기기' : '표시'}
+                                >
+                                    <VisibilityIcon size={12} />
+                                </button>
+                                <span style={{ flex: 1, fontSize: '12px', color: layer.visible ? '#1E293B' : '#94A3B8' }}>
+                                    레이어 {layers.indexOf(layer) + 1}
+                                </span>
+                                <span style={{ fontSize: '11px', color: '#94A3B8' }}>{layer.operations.length}</span>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        removeLayer(layer.id);
+                                    }}
+                                    style={{ ...iconButtonStyle, width: '24px', height: '24px' }}
+                                    title="레이어 삭제"
+                                >
+                                    <Trash size={12} />
+                                </button>
+                            </div>
+                        );
+                    })}
+
+                    {/* Selected Layer */}
+                    {selectedLayer && (
+                        <>
+                            <SliderRow
+                                label="불투명도" value={Math.round(selectedLayer.opacity * 100)} min={0} max={100} unit="%"
+                                onStart={beginLayerEdit}
+                                onCommit={commitLayerEdit}
+                                onChange={(v) => updateLayer(selectedLayer.id, { opacity: v / 100 })}
+                            />
+                            <div style={inlineRowStyle}>
+                                <span style={{ ...labelStyle, margin: 0, minWidth: '44px' }}>혼합</span>
+                                <select
+                                    value={selectedLayer.blendMode ?? 'normal'}
+                                    onChange={(e) => updateLayer(selectedLayer.id, { blendMode: e.target.value as BlendMode }, '래스터 레이어 혼합 모드')}
+                                    style={{ ...inputStyle, padding: '4px 8px' }}
+                                >
+                                    {BLEND_MODES.map(mode => (
+                                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button
+                                onClick={() => clearLayer(selectedLayer.id)}
+                                disabled={selectedLayer.operations.length === 0 && !selectedLayer.canvasData}
+                                style={buttonStyle}
+                            >
+                                레이어 비우기
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
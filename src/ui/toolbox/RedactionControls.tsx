@@ -0,0 +1,67 @@
+/**
+ * RedactionControls — 가림 영역 편집 UI
+ * 채움 색과 대체 문구를 바꾸고, 가려지는 텍스트를 확인한다.
+ * 가림은 내보낼 때 적용되며 해당 페이지는 이미지로 변환된다.
+ */
+
+import type { Annotation, RedactionAnnotation } from '../../types/annotation';
+import { labelStyle, inputStyle, colorButtonStyle } from './panelStyles';
+
+interface RedactionControlsProps {
+    annotation: RedactionAnnotation;
+    onUpdate: (updates: Partial<Annotation>) => void;
+}
+
+const FILL_COLORS = ['#000000', '#FFFFFF', '#64748B'];
+
+export function RedactionControls({ annotation, onUpdate }: RedactionControlsProps) {
+    const fill = annotation.style?.fill || '#000000';
+
+    return (
+        <>
+            {/* Fill */}
+            <div>
+                <div style={labelStyle}>채움 색</div>
+                <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+                    {FILL_COLORS.map((color) => (
+                        <button
+                            key={color}
+                            onClick={() => onUpdate({
+                                // 대체 문구는 채움과 대비되는 색
+                                style: { ...annotation.style, fill: color, color: color === '#FFFFFF' ? '#000000' : '#FFFFFF' },
+                            } as Partial<Annotation>)}
+                            style={colorButtonStyle(color, fill.toUpperCase() === color)}
+                            title={color}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* Overlay Text */}
+            <div>
+                <div style={labelStyle}>대체 문구</div>
+                <input
+                    type="text"
+                    value={annotation.overlayText ?? ''}
+                    placeholder="예: 비공개"
+                    onChange={(e) => onUpdate({ overlayText: e.target.value || undefined } as Partial<Annotation>)}
+                    style={{ ...inputStyle, width: '100%', marginTop: '6px' }}
+                />
+            </div>
+
+            {/* Covered Text */}
+            {annotation.content && (
+                <div>
+                    <div style={labelStyle}>가려지는 텍스트</div>
+                    <div style={{ fontSize: '12px', color: '#475569', marginTop: '6px', wordBreak: 'break-all' }}>
+                        {annotation.content}
+                    </div>
+                </div>
+            )}
+
+            <span style={{ fontSize: '11px', color: '#94A3B8' }}>
+                내보낼 때 영역 아래 내용이 지워지고 페이지는 이미지로 변환됩니다
+            </span>
+        </>
+    );
+}
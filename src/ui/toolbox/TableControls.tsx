@@ -0,0 +1,158 @@
+/**
+ * TableControls — 표 셀 편집 UI
+ * 표에서 고른 셀 범위(Shift/Ctrl+Click)를 기준으로 행/열 삽입·삭제, 셀 병합, 셀 테두리를 바꾸고
+ * 표 내용을 CSV / XLSX로 내려받는다.
+ */
+
+import { useState } from 'react';
+import { Rows, Columns, ArrowsIn, ArrowsOut, FileCsv, FileXls } from 'phosphor-react';
+import type { TableAnnotation } from '../../types/annotation';
+import type { TableBorderPreset } from '../../core/table/tableModel';
+import { rangeLabel } from '../../core/table/tableModel';
+import { useTableEditing } from '../hooks/useTableEditing';
+import {
+    labelStyle, buttonStyle, colorButtonStyle, inlineRowStyle, valueDisplayStyle, iconButtonStyle,
+} from './panelStyles';
+
+interface TableControlsProps {
+    annotation: TableAnnotation;
+}
+
+const BORDER_PRESETS: { preset: TableBorderPreset; label: string }[] = [
+    { preset: 'all', label: '전체' },
+    { preset: 'outer', label: '바깥' },
+    { preset: 'inner', label: '안쪽' },
+    { preset: 'top', label: '위' },
+    { preset: 'bottom', label: '아래' },
+    { preset: 'left', label: '왼쪽' },
+    { preset: 'right', label: '오른쪽' },
+    { preset: 'none', label: '없음' },
+    { preset: 'clear', label: '기본' },
+];
+
+const BORDER_COLORS = ['#000000', '#6B7280', '#3B82F6', '#EF4444'];
+
+const smallButtonStyle: React.CSSProperties = { ...buttonStyle, padding: '4px 6px', fontSize: '11px' };
+
+export function TableControls({ annotation }: TableControlsProps) {
+    const { range, insertLines, deleteLines, merge, unmerge, setBorders, download } = useTableEditing(annotation.id);
+    const [borderWidth, setBorderWidth] = useState(1);
+    const [borderColor, setBorderColor] = useState('#000000');
+
+    const disabled = !range;
+    const enabled = (style: React.CSSProperties): React.CSSProperties =>
+        (disabled ? { ...style, opacity: 0.4, cursor: 'not-allowed' } : style);
+    const isSingleCell = !range || (range.top === range.bottom && range.left === range.right);
+
+    return (
+        <>
+            {/* Selected Range */}
+            <div style={inlineRowStyle}>
+                <span style={{ ...labelStyle, margin: 0 }}>선택 셀</span>
+                <span style={valueDisplayStyle}>{range ? rangeLabel(range) : '없음'}</span>
+            </div>
+
+            {/* Rows / Columns */}
+            <div>
+                <div style={labelStyle}>행 / 열</div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px', marginTop: '6px' }}>
+                    <button style={enabled(smallButtonStyle)} disabled={disabled} onClick={() => insertLines('row', 'before')}>
+                        <Rows size={12} /> 위에 행
+                    </button>
+                    <button style={enabled(smallButtonStyle)} disabled={disabled} onClick={() => insertLines('row', 'after')}>
+                        <Rows size={12} /> 아래에 행
+                    </button>
+                    <button style={enabled(smallButtonStyle)} disabled={disabled} onClick={() => insertLines('col', 'before')}>
+                        <Columns size={12} /> 왼쪽에 열
+                    </button>
+                    <button style={enabled(smallButtonStyle)} disabled={disabled} onClick={() => insertLines('col', 'after')}>
+                        <Columns size={12} /> 오른쪽에 열
+                    </button>
+                    <button
+                        style={enabled(smallButtonStyle)}
+                        disabled={disabled || (range.bottom - range.top + 1) >= annotation.rows}
+                        onClick={() => deleteLines('row')}
+                    >
+                        행 삭제
+                    </button>
+                    <button
+                        style={enabled(smallButtonStyle)}
+                        disabled={disabled || (range.right - range.left + 1) >= annotation.cols}
+                        onClick={() => deleteLines('col')}
+                    >
+                        열 삭제
+                    </button>
+                </div>
+            </div>
+
+            {/* Merge */}
+            <div style={{ display: 'flex', gap: '4px' }}>
+                <button style={enabled(smallButtonStyle)} disabled={disabled || isSingleCell} onClick={merge}>
+                    <ArrowsIn size={12} /> 셀 병합
+                </button>
+                <button style={enabled(smallButtonStyle)} disabled={disabled} onClick={unmerge}>
+                    <ArrowsOut size={12} /> 병합 해제
+                </button>
+            </div>
+
+            {/* Cell Borders */}
+            <div>
+                <div style={labelStyle}>셀 테두리</div>
+                <div style={{ ...inlineRowStyle, marginTop: '6px' }}>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                        {BORDER_COLORS.map((color) => (
+                            <button
+                                key={color}
+                                onClick={() => setBorderColor(color)}
+                                style={colorButtonStyle(color, borderColor === color)}
+                                title={color}
+                            />
+                        ))}
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                        <button
+                            style={{ ...iconButtonStyle, width: '24px', height: '24px' }}
+                            onClick={() => setBorderWidth(Math.max(0.5, borderWidth - 0.5))}
+                        >
+                            −
+                        </button>
+                        <span style={valueDisplayStyle}>{borderWidth}px</span>
+                        <button
+                            style={{ ...iconButtonStyle, width: '24px', height: '24px' }}
+                            onClick={() => setBorderWidth(borderWidth + 0.5)}
+                        >
+                            +
+                        </button>
+                    </div>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '4px', marginTop: '6px' }}>
+                    {BORDER_PRESETS.map(({ preset, label }) => (
+                        <button
+                            key={preset}
+                            style={enabled(smallButtonStyle)}
+                            disabled={disabled}
+                            onClick={() => setBorders(preset, { width: borderWidth, color: borderColor })}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Export */}
+            <div style={{ display: 'flex', gap: '4px' }}>
+                <button style={smallButtonStyle} onClick={() => download('csv')}>
+                    <FileCsv size={12} /> CSV
+                </button>
+                <button style={smallButtonStyle} onClick={() => download('xlsx')}>
+                    <FileXls size={12} /> XLSX
+                </button>
+            </div>
+
+            <span style={{ fontSize: '11px', color: '#94A3B8' }}>
+                셀에 =SUM(A1:A3), =AVG, =MIN, =MAX, =COUNT 또는 =A1*2 같은 수식을 쓸 수 있습니다.
+                셀을 고른 뒤 붙여넣으면 CSV/TSV 내용이 채워집니다
+            </span>
+        </>
+    );
+}
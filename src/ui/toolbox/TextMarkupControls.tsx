@@ -0,0 +1,103 @@
+/**
+ * TextMarkupControls — 텍스트 마크업 주석 편집 UI
+ * 하이라이트는 채움색/투명도, 밑줄·물결 밑줄·취소선은 선 색상과 종류를 바꾼다.
+ */
+
+import { TextUnderline, WaveSine, TextStrikethrough } from 'phosphor-react';
+import type { Annotation, AnnotationStyle, TextMarkupType } from '../../types/annotation';
+import { COLORS, labelStyle, colorButtonStyle, inlineRowStyle, valueDisplayStyle, iconButtonStyle } from './panelStyles';
+
+interface TextMarkupControlsProps {
+    annotation: Annotation;
+    style: AnnotationStyle;
+    onUpdate: (updates: Partial<Annotation>) => void;
+}
+
+const MARKUP_TYPES: { type: TextMarkupType; label: string; icon: React.ElementType }[] = [
+    { type: 'underline', label: '밑줄', icon: TextUnderline },
+    { type: 'squiggly', label: '물결 밑줄', icon: WaveSine },
+    { type: 'strikeout', label: '취소선', icon: TextStrikethrough },
+];
+
+export function TextMarkupControls({ annotation, style, onUpdate }: TextMarkupControlsProps) {
+    const isHighlight = annotation.type === 'highlight';
+    const colorKey = isHighlight ? 'fill' : 'stroke';
+    const opacity = style.opacity ?? 1;
+    const content = 'content' in annotation ? annotation.content : '';
+
+    return (
+        <>
+            {/* Color */}
+            <div>
+                <div style={labelStyle}>{isHighlight ? '하이라이트 색상' : '선 색상'}</div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+                    {COLORS.map((color) => (
+                        <button
+                            key={color}
+                            style={colorButtonStyle(color, style[colorKey] === color)}
+                            onClick={() => onUpdate({ style: { ...style, [colorKey]: color } })}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* Markup Type */}
+            {!isHighlight && (
+                <div style={{ marginTop: '4px' }}>
+                    <div style={labelStyle}>종류</div>
+                    <div style={{ display: 'flex', gap: '3px', marginTop: '6px' }}>
+                        {MARKUP_TYPES.map(({ type, label, icon: Icon }) => {
+                            const isActive = annotation.type === type;
+                            return (
+                                <button
+                                    key={type}
+                                    title={label}
+                                    onClick={() => onUpdate({ type } as Partial<Annotation>)}
+                                    style={{
+                                        ...iconButtonStyle,
+                                        flex: 1,
+                                        height: '28px',
+                                        backgroundColor: isActive ? '#3B82F6' : '#F1F5F9',
+                                        borderColor: isActive ? '#2563EB' : '#CBD5E1',
+                                        color: isActive ? 'white' : '#64748B',
+                                    }}
+                                >
+                                    <Icon size={14} />
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* Opacity */}
+            <div style={{ ...inlineRowStyle, marginTop: '4px' }}>
+                <span style={{ ...labelStyle, margin: 0 }}>투명도</span>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flex: 1 }}>
+                    <input
+                        type="range" min="0" max="100"
+                        value={Math.round((1 - opacity) * 100)}
+                        onChange={(e) => onUpdate({ style: { ...style, opacity: 1 - (parseInt(e.target.value) / 100) } })}
+                        style={{ flex: 1, height: '4px', cursor: 'pointer' }}
+                    />
+                    <span style={{ ...valueDisplayStyle, minWidth: '32px', fontSize: '11px' }}>
+                        {Math.round((1 - opacity) * 100)}%
+                    </span>
+                </div>
+            </div>
+
+            {/* Selected Text */}
+            {content && (
+                <div style={{ marginTop: '4px' }}>
+                    <div style={labelStyle}>선택한 텍스트</div>
+                    <div style={{
+                        marginTop: '6px', fontSize: '12px', color: '#475569',
+                        maxHeight: '80px', overflowY: 'auto', wordBreak: 'break-word',
+                    }}>
+                        {content}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
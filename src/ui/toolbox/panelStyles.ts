@@ -3,6 +3,13 @@
  */
 
 import React from 'react';
+import {
+    Rectangle, Circle, ArrowUpRight, Minus,
+    TextT, Image as ImageIcon, PencilSimple, StarFour,
+    HighlighterCircle, GridFour,
+    MarkerCircle, TextUnderline, WaveSine, TextStrikethrough, Scan, QrCode, EyeSlash,
+    ChatCenteredText, Stamp, PenNib,
+} from 'phosphor-react';
 
 // ── 컬러 팔레트 ───────────────────────────────
 
@@ -195,3 +202,30 @@ export const actionBarStyle: React.CSSProperties = {
     borderTop: '1px solid var(--color-border-light)',
     background: '#F8FAFC',
 };
+
+// ── 객체 타입 메타 ─────────────────────────────
+
+export const ANNOTATION_TYPE_META: Record<string, { label: string; icon: React.ElementType }> = {
+    text: { label: '텍스트', icon: TextT },
+    rectangle: { label: '사각형', icon: Rectangle },
+    roundedRect: { label: '둥근 사각형', icon: Rectangle },
+    ellipse: { label: '원형', icon: Circle },
+    arrow: { label: '화살표', icon: ArrowUpRight },
+    line: { label: '직선', icon: Minus },
+    star: { label: '별', icon: StarFour },
+    image: { label: '이미지', icon: ImageIcon },
+    freehand: { label: '펜', icon: PencilSimple },
+    highlighter: { label: '형광펜', icon: HighlighterCircle },
+    highlight: { label: '하이라이트', icon: MarkerCircle },
+    underline: { label: '밑줄', icon: TextUnderline },
+    squiggly: { label: '물결 밑줄', icon: WaveSine },
+    strikeout: { label: '취소선', icon: TextStrikethrough },
+    redaction: { label: '가림', icon: EyeSlash },
+    brush: { label: '펜', icon: PencilSimple },
+    table: { label: '표', icon: GridFour },
+    ocr: { label: 'OCR 텍스트', icon: Scan },
+    barcode: { label: '바코드', icon: QrCode },
+    comment: { label: '댓글', icon: ChatCenteredText },
+    stamp: { label: '스탬프', icon: Stamp },
+    signature: { label: '서명', icon: PenNib },
+};
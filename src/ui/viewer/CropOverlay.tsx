@@ -0,0 +1,190 @@
+/**
+ * CropOverlay - 페이지 자르기 도구
+ * 자르기 전 페이지 위에 자르기 영역을 표시하고, 빈 곳을 드래그해 새로 그리거나
+ * 영역을 옮기고 모서리 핸들로 크기를 바꿉니다. Enter로 적용, Esc로 취소합니다.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Check, ArrowsOut, X } from 'phosphor-react';
+import type { BBox, Page } from '../../core/model/types';
+import { MIN_CROP_SIZE, clampCropBox, pageVisibleBox } from '../../core/page/pageGeometry';
+import { useTranslation } from '../../i18n';
+
+interface CropOverlayProps {
+    page: Page;
+    scale: number;
+    /** null이면 자르기 해제 */
+    onApply: (cropBox: BBox | null) => void;
+    onCancel: () => void;
+}
+
+type DragMode = 'draw' | 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const HANDLES: Exclude<DragMode, 'draw' | 'move'>[] = ['nw', 'ne', 'sw', 'se'];
+
+const toolbarButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: 'transparent',
+    color: '#FFFFFF',
+    fontSize: '12px',
+    cursor: 'pointer',
+};
+
+/** 드래그 결과 영역 (draw/모서리는 반대쪽 고정) */
+function dragBox(mode: DragMode, start: BBox, origin: { x: number; y: number }, point: { x: number; y: number }): BBox {
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const right = start.x + start.width;
+    const bottom = start.y + start.height;
+
+    switch (mode) {
+        case 'draw':
+            return { x: origin.x, y: origin.y, width: dx, height: dy };
+        case 'move':
+            return { ...start, x: start.x + dx, y: start.y + dy };
+        case 'nw':
+            return { x: start.x + dx, y: start.y + dy, width: right - start.x - dx, height: bottom - start.y - dy };
+        case 'ne':
+            return { x: start.x, y: start.y + dy, width: start.width + dx, height: bottom - start.y - dy };
+        case 'sw':
+            return { x: start.x + dx, y: start.y, width: right - start.x - dx, height: start.height + dy };
+        case 'se':
+            return { ...start, width: start.width + dx, height: start.height + dy };
+    }
+}
+
+export function CropOverlay({ page, scale, onApply, onCancel }: CropOverlayProps) {
+    const { t } = useTranslation();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [box, setBox] = useState<BBox>(() => pageVisibleBox(page));
+
+    const apply = () => onApply(box);
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onCancel();
+            if (e.key === 'Enter') onApply(box);
+        };
+        document.addEventListener('keydown', handleKey);
+        return () => document.removeEventListener('keydown', handleKey);
+    }, [box, onApply, onCancel]);
+
+    const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+        const container = containerRef.current;
+        if (!container || e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        const rect = container.getBoundingClientRect();
+        const toPoint = (event: { clientX: number; clientY: number }) => ({
+            x: (event.clientX - rect.left) / scale,
+            y: (event.clientY - rect.top) / scale,
+        });
+        const origin = toPoint(e);
+        const start = box;
+
+        const handleMove = (event: PointerEvent) => {
+            let next = dragBox(mode, start, origin, toPoint(event));
+            if (mode === 'move') {
+                // 페이지 밖으로 나가지 않게
+                next = {
+                    ...next,
+                    x: Math.max(0, Math.min(page.width - next.width, next.x)),
+                    y: Math.max(0, Math.min(page.height - next.height, next.y)),
+                };
+            }
+            const clamped = clampCropBox(next, page);
+            if (clamped) setBox(clamped);
+        };
+        const handleUp = () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
+    const handleSize = 10;
+
+    return (
+        <div
+            ref={containerRef}
+            onPointerDown={startDrag('draw')}
+            style={{ position: 'absolute', inset: 0, zIndex: 30, overflow: 'hidden', cursor: 'crosshair', touchAction: 'none' }}
+        >
+            {/* Crop Box (바깥은 어둡게) */}
+            <div
+                onPointerDown={startDrag('move')}
+                style={{
+                    position: 'absolute',
+                    left: box.x * scale,
+                    top: box.y * scale,
+                    width: box.width * scale,
+                    height: box.height * scale,
+                    border: '1px dashed #FFFFFF',
+                    outline: '1px solid #0078D4',
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                    cursor: 'move',
+                }}
+            >
+                {HANDLES.map(handle => (
+                    <div
+                        key={handle}
+                        onPointerDown={startDrag(handle)}
+                        style={{
+                            position: 'absolute',
+                            width: handleSize,
+                            height: handleSize,
+                            left: handle.endsWith('w') ? -handleSize / 2 : undefined,
+                            right: handle.endsWith('e') ? -handleSize / 2 : undefined,
+                            top: handle.startsWith('n') ? -handleSize / 2 : undefined,
+                            bottom: handle.startsWith('s') ? -handleSize / 2 : undefined,
+                            backgroundColor: '#FFFFFF',
+                            border: '1px solid #0078D4',
+                            cursor: `${handle}-resize`,
+                        }}
+                    />
+                ))}
+
+                {/* Size */}
+                {box.width * scale > 80 && box.height * scale > MIN_CROP_SIZE * 2 && (
+                    <span style={{
+                        position: 'absolute', left: 4, top: 4, padding: '1px 4px',
+                        backgroundColor: 'rgba(0, 0, 0, 0.6)', color: '#FFFFFF', fontSize: '11px', borderRadius: '2px',
+                        pointerEvents: 'none',
+                    }}>
+                        {Math.round(box.width)} × {Math.round(box.height)} pt
+                    </span>
+                )}
+            </div>
+
+            {/* Toolbar */}
+            <div
+                onPointerDown={e => e.stopPropagation()}
+                style={{
+                    position: 'absolute', left: '50%', bottom: 12, transform: 'translateX(-50%)',
+                    display: 'flex', gap: '4px', padding: '4px', borderRadius: '6px',
+                    backgroundColor: 'rgba(30, 30, 30, 0.9)', cursor: 'default',
+                }}
+            >
+                <button onClick={apply} style={toolbarButtonStyle}>
+                    <Check size={14} weight="bold" />
+                    {t('crop.apply')}
+                </button>
+                <button onClick={() => onApply(null)} style={toolbarButtonStyle}>
+                    <ArrowsOut size={14} />
+                    {t('crop.reset')}
+                </button>
+                <button onClick={onCancel} style={toolbarButtonStyle}>
+                    <X size={14} />
+                    {t('crop.cancel')}
+                </button>
+            </div>
+        </div>
+    );
+}
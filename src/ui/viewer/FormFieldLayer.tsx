@@ -0,0 +1,224 @@
+/**
+ * FormFieldLayer - PDF 양식 필드 입력 오버레이
+ *
+ * 위젯 위치에 HTML 입력 요소를 겹쳐 바로 입력하게 한다. 입력 요소는 불투명 배경으로
+ * 캔버스에 그려진 위젯을 덮고, 값은 annotationStorage에도 넣어 썸네일/래스터 내보내기에 반영한다.
+ * 선택 도구가 아닐 때는 입력을 받지 않아 주석 그리기를 막지 않는다.
+ */
+
+import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { FormField, FormFieldValue, Page } from '../../core/model/types';
+import { FORM_OFF_VALUE, formatFormDate, isFormFieldChecked, missingRequiredFields, parseFormDate } from '../../core/forms/formFields';
+import { syncFormFieldStorage } from '../../core/pdf/pdfLoader';
+import { useFormFields } from '../hooks/useFormFields';
+
+interface FormFieldLayerProps {
+    page: Page;
+    scale: number;
+    /** 페이지의 PDF (appendedFrom이면 추가된 PDF) */
+    pdfProxy: PDFDocumentProxy | null;
+    /** 입력 가능 여부 (선택 도구일 때만) */
+    interactive: boolean;
+}
+
+/** 글꼴 크기 자동(0)일 때 상한 */
+const AUTO_FONT_SIZE = 12;
+
+export function FormFieldLayer({ page, scale, pdfProxy, interactive }: FormFieldLayerProps) {
+    const { setFieldValue } = useFormFields();
+    const fields = page.formFields ?? [];
+
+    useEffect(() => {
+        if (pdfProxy && page.formFields) syncFormFieldStorage(pdfProxy, page.formFields);
+    }, [pdfProxy, page.formFields]);
+
+    if (fields.length === 0) return null;
+    const missing = new Set(missingRequiredFields(fields));
+
+    return (
+        <div
+            style={{
+                position: 'absolute', inset: 0, zIndex: 4,
+                pointerEvents: 'none',
+            }}
+        >
+            {fields.map(field => (
+                <FormFieldInput
+                    key={field.id}
+                    field={field}
+                    scale={scale}
+                    pageId={page.id}
+                    interactive={interactive}
+                    missing={missing.has(field.name)}
+                    onChange={(value) => setFieldValue(field.name, value)}
+                />
+            ))}
+        </div>
+    );
+}
+
+interface FormFieldInputProps {
+    field: FormField;
+    scale: number;
+    pageId: string;
+    interactive: boolean;
+    missing: boolean;
+    onChange: (value: FormFieldValue) => void;
+}
+
+function FormFieldInput({ field, scale, pageId, interactive, missing, onChange }: FormFieldInputProps) {
+    const { rect } = field;
+    const fontSize = (field.fontSize || Math.min(AUTO_FONT_SIZE, rect.height * 0.7)) * scale;
+    const disabled = !interactive || field.readOnly;
+
+    const style: React.CSSProperties = {
+        position: 'absolute',
+        left: `${rect.x * scale}px`,
+        top: `${rect.y * scale}px`,
+        width: `${rect.width * scale}px`,
+        height: `${rect.height * scale}px`,
+        margin: 0,
+        padding: '0 2px',
+        boxSizing: 'border-box',
+        fontSize: `${Math.max(fontSize, 4)}px`,
+        fontFamily: 'Helvetica, Arial, sans-serif',
+        color: '#000000',
+        textAlign: field.textAlign ?? 'left',
+        backgroundColor: field.readOnly ? '#F0F0F0' : '#E8EEFF',
+        border: `1px solid ${missing ? '#E53935' : 'rgba(68, 102, 204, 0.35)'}`,
+        borderRadius: 0,
+        outline: 'none',
+        pointerEvents: interactive ? 'auto' : 'none',
+    };
+    const title = field.required ? `${field.name} *` : field.name;
+
+    switch (field.type) {
+        case 'checkbox':
+        case 'radio':
+            return (
+                <input
+                    type={field.type}
+                    name={field.type === 'radio' ? `${pageId}-${field.name}` : undefined}
+                    checked={isFormFieldChecked(field)}
+                    disabled={disabled}
+                    title={title}
+                    onChange={(e) => onChange(e.target.checked ? field.exportValue! : FORM_OFF_VALUE)}
+                    style={{ ...style, padding: 0, accentColor: '#333333', cursor: 'pointer' }}
+                />
+            );
+
+        case 'date': {
+            const iso = parseFormDate(String(field.value), field.dateFormat);
+            // 서식을 알 수 없는 기존 값은 글자 그대로 고칠 수 있게
+            if (field.value && !iso) {
+                return <FormTextInput field={field} style={style} disabled={disabled} title={title} onCommit={onChange} />;
+            }
+            return (
+                <input
+                    type="date"
+                    value={iso ?? ''}
+                    disabled={disabled}
+                    title={title}
+                    onChange={(e) => onChange(e.target.value ? formatFormDate(e.target.value, field.dateFormat) : '')}
+                    style={style}
+                />
+            );
+        }
+
+        case 'combo': {
+            if (field.editable) {
+                const listId = `form-options-${field.id}`;
+                return (
+                    <>
+                        <FormTextInput field={field} style={style} disabled={disabled} title={title} onCommit={onChange} list={listId} />
+                        <datalist id={listId}>
+                            {field.options?.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </datalist>
+                    </>
+                );
+            }
+            const value = String(field.value);
+            return (
+                <select value={value} disabled={disabled} title={title} onChange={(e) => onChange(e.target.value)} style={style}>
+                    {!field.options?.some(o => o.value === value) && <option value={value}>{value}</option>}
+                    {field.options?.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            );
+        }
+
+        case 'list': {
+            const selected = Array.isArray(field.value) ? field.value : [field.value];
+            return (
+                <select
+                    multiple={field.multiSelect}
+                    size={Math.max(2, field.options?.length ?? 0)}
+                    value={field.multiSelect ? selected : selected[0] ?? ''}
+                    disabled={disabled}
+                    title={title}
+                    onChange={(e) => onChange(Array.from(e.target.selectedOptions, o => o.value))}
+                    style={{ ...style, padding: 0, overflowY: 'auto' }}
+                >
+                    {field.options?.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            );
+        }
+
+        default:
+            return <FormTextInput field={field} style={style} disabled={disabled} title={title} onCommit={onChange} />;
+    }
+}
+
+interface FormTextInputProps {
+    field: FormField;
+    style: React.CSSProperties;
+    disabled: boolean | undefined;
+    title: string;
+    onCommit: (value: string) => void;
+    list?: string;
+}
+
+/** 글자 입력은 초안으로 두었다가 포커스를 잃거나 Enter에서 한 번에 기록 (히스토리 1건) */
+function FormTextInput({ field, style, disabled, title, onCommit, list }: FormTextInputProps) {
+    const value = String(field.value);
+    const [draft, setDraft] = useState(value);
+
+    useEffect(() => {
+        setDraft(value);
+    }, [value]);
+
+    const commit = () => {
+        if (draft !== value) onCommit(draft);
+    };
+
+    if (field.multiline) {
+        return (
+            <textarea
+                value={draft}
+                maxLength={field.maxLength}
+                disabled={disabled}
+                title={title}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                style={{ ...style, resize: 'none', padding: '1px 2px', lineHeight: 1.15 }}
+            />
+        );
+    }
+    return (
+        <input
+            type="text"
+            value={draft}
+            list={list}
+            maxLength={field.maxLength}
+            disabled={disabled}
+            title={title}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') setDraft(value);
+            }}
+            style={style}
+        />
+    );
+}
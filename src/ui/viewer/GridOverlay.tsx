@@ -0,0 +1,41 @@
+/**
+ * GridOverlay Component - 편집 격자
+ * gridSize(pt) 간격의 선을 페이지 위에 그린다. 5칸마다 진하게.
+ */
+
+interface GridOverlayProps {
+  gridSize: number;
+  scale: number;
+}
+
+/** 화면에서 이보다 촘촘하면 가는 선은 생략 (px) */
+const MIN_CELL_PX = 4;
+
+export function GridOverlay({ gridSize, scale }: GridOverlayProps) {
+  const cell = gridSize * scale;
+  if (!(cell > 0)) return null;
+  const major = cell * 5;
+
+  const lines = (size: number, color: string) => [
+    `linear-gradient(to right, ${color} 1px, transparent 1px)`,
+    `linear-gradient(to bottom, ${color} 1px, transparent 1px)`,
+  ].map(image => ({ image, size }));
+
+  const layers = [
+    ...lines(major, 'rgba(59, 130, 246, 0.28)'),
+    ...(cell >= MIN_CELL_PX ? lines(cell, 'rgba(59, 130, 246, 0.12)') : []),
+  ];
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 1,
+        pointerEvents: 'none',
+        backgroundImage: layers.map(l => l.image).join(', '),
+        backgroundSize: layers.map(l => `${l.size}px ${l.size}px`).join(', '),
+      }}
+    />
+  );
+}
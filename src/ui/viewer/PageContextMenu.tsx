@@ -7,8 +7,16 @@ import { createPortal } from 'react-dom';
 import {
   Copy, Trash, FileArrowUp, File,
   ArrowClockwise, ArrowCounterClockwise,
+  Crop, FrameCorners, Columns, Rows, SquaresFour,
 } from 'phosphor-react';
 import { useTranslation } from '../../i18n';
+import type { PageSplitMode } from '../../core/page/pageGeometry';
+
+const SPLIT_ITEMS: { mode: PageSplitMode; icon: React.ElementType; i18nKey: string }[] = [
+  { mode: 'vertical', icon: Columns, i18nKey: 'contextMenu.splitVertical' },
+  { mode: 'horizontal', icon: Rows, i18nKey: 'contextMenu.splitHorizontal' },
+  { mode: 'quarters', icon: SquaresFour, i18nKey: 'contextMenu.splitQuarters' },
+];
 
 export interface PageContextMenuProps {
   pageId: string;
@@ -19,12 +27,16 @@ export interface PageContextMenuProps {
   onAddPdfPage: (afterPageId: string) => void;
   onRotateRight?: (pageId: string) => void;
   onRotateLeft?: (pageId: string) => void;
+  onCrop?: (pageId: string) => void;
+  onResize?: (pageId: string) => void;
+  onSplit?: (pageId: string, mode: PageSplitMode) => void;
   onClose: () => void;
 }
 
 export function PageContextMenu({
   pageId, position, onDuplicate, onDelete,
-  onAddBlankPage, onAddPdfPage, onRotateRight, onRotateLeft, onClose,
+  onAddBlankPage, onAddPdfPage, onRotateRight, onRotateLeft,
+  onCrop, onResize, onSplit, onClose,
 }: PageContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
   const { t } = useTranslation();
@@ -78,6 +90,29 @@ export function PageContextMenu({
         </button>
       )}
 
+      {(onCrop || onResize || onSplit) && <div className="ctx-menu__divider" />}
+
+      {onCrop && (
+        <button className="ctx-menu__item" onClick={exec(onCrop)} role="menuitem" aria-label={t('contextMenu.crop')}>
+          <Crop size={18} weight="duotone" style={{ color: '#F59E0B' }} />
+          <span>{t('contextMenu.crop')}</span>
+        </button>
+      )}
+
+      {onResize && (
+        <button className="ctx-menu__item" onClick={exec(onResize)} role="menuitem" aria-label={t('contextMenu.resize')}>
+          <FrameCorners size={18} weight="duotone" style={{ color: '#F59E0B' }} />
+          <span>{t('contextMenu.resize')}</span>
+        </button>
+      )}
+
+      {onSplit && SPLIT_ITEMS.map(({ mode, icon: Icon, i18nKey }) => (
+        <button key={mode} className="ctx-menu__item" onClick={exec(id => onSplit(id, mode))} role="menuitem" aria-label={t(i18nKey)}>
+          <Icon size={18} weight="duotone" style={{ color: '#F59E0B' }} />
+          <span>{t(i18nKey)}</span>
+        </button>
+      ))}
+
       <div className="ctx-menu__divider" />
 
       <button className="ctx-menu__item ctx-menu__item--danger" onClick={exec(onDelete)} role="menuitem" aria-label={t('contextMenu.delete')}>
@@ -0,0 +1,226 @@
+/**
+ * PageRulers Component - 페이지 눈금자와 안내선
+ *
+ * 페이지 위/왼쪽에 눈금자를 붙이고, 눈금자에서 끌어 안내선을 만든다.
+ * 안내선은 끌어서 옮기고, 페이지 밖(눈금자 위)으로 끌거나 더블클릭하면 지운다.
+ * 안내선은 page.guides에 저장되어 프로젝트와 함께 유지된다.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { Page, PageGuide, RulerUnit } from '../../core/model/types';
+import { RULER_UNITS, formatRulerValue, ptPerUnit, rulerTicks } from '../../core/page/rulers';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useTranslation } from '../../i18n';
+
+interface PageRulersProps {
+  page: Page;
+  /** 화면 px / pt */
+  scale: number;
+  /** 페이지 상자 안에서 편집 좌표 원점의 위치 (px) */
+  origin: { x: number; y: number };
+  unit: RulerUnit;
+  /** false면 안내선만 표시 (현재 페이지가 아닐 때) */
+  showRulers: boolean;
+  onUnitChange: (unit: RulerUnit) => void;
+}
+
+const RULER_SIZE = 18;
+const GUIDE_COLOR = '#06B6D4';
+
+const rulerStyle: React.CSSProperties = {
+  position: 'absolute',
+  backgroundColor: 'var(--color-bg-card)',
+  border: '1px solid var(--color-border-light)',
+  boxSizing: 'border-box',
+  pointerEvents: 'auto',
+  userSelect: 'none',
+  overflow: 'hidden',
+};
+
+function generateGuideId(): string {
+  return `guide-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function PageRulers({ page, scale, origin, unit, showRulers, onUnitChange }: PageRulersProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // 끌고 있는 안내선 (새 안내선은 아직 page.guides에 없음)
+  const [draft, setDraft] = useState<PageGuide | null>(null);
+  const updatePage = usePageStore(s => s.updatePage);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const el = rootRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  /** 포인터 위치 → 편집 좌표 (표시 단위로 반올림)와 페이지 상자 안에 있는지 */
+  const pointerPosition = (axis: PageGuide['axis'], e: PointerEvent) => {
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (!rect) return { position: 0, inside: false };
+    const local = axis === 'x' ? e.clientX - rect.left : e.clientY - rect.top;
+    const length = axis === 'x' ? rect.width : rect.height;
+    const step = ptPerUnit(unit);
+    const position = Math.round((local - origin[axis]) / scale / step) * step;
+    return { position, inside: local >= 0 && local <= length };
+  };
+
+  const startGuideDrag = (e: React.PointerEvent, guide: PageGuide) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDraft(guide);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      setDraft({ ...guide, position: pointerPosition(guide.axis, moveEvent).position });
+    };
+
+    const handleUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+
+      const { position, inside } = pointerPosition(guide.axis, upEvent);
+      const current = usePageStore.getState().pages.find(p => p.id === page.id)?.guides ?? [];
+      const guides = current.filter(g => g.id !== guide.id);
+      if (inside) guides.push({ ...guide, position });
+      updatePage(page.id, { guides });
+      setDraft(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const removeGuide = (id: string) => {
+    updatePage(page.id, { guides: (page.guides ?? []).filter(g => g.id !== id) });
+  };
+
+  const guides = (page.guides ?? []).map(g => (draft?.id === g.id ? draft : g));
+  if (draft && !guides.some(g => g.id === draft.id)) guides.push(draft);
+
+  const cycleUnit = () => {
+    onUnitChange(RULER_UNITS[(RULER_UNITS.indexOf(unit) + 1) % RULER_UNITS.length]);
+  };
+
+  // ── 눈금 ──
+  const hTicks = rulerTicks(-origin.x / scale, (size.width - origin.x) / scale, scale, unit);
+  const vTicks = rulerTicks(-origin.y / scale, (size.height - origin.y) / scale, scale, unit);
+
+  return (
+    <div
+      ref={rootRef}
+      style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 5 }}
+    >
+      {/* Guides */}
+      {guides.map((guide) => {
+        const offset = origin[guide.axis] + guide.position * scale;
+        const vertical = guide.axis === 'x';
+        const isDraft = draft?.id === guide.id;
+        return (
+          <div
+            key={guide.id}
+            style={{
+              position: 'absolute',
+              ...(vertical
+                ? { left: offset - 3, top: 0, width: 7, height: '100%', cursor: 'col-resize' }
+                : { top: offset - 3, left: 0, height: 7, width: '100%', cursor: 'row-resize' }),
+              pointerEvents: 'auto',
+            }}
+            onPointerDown={(e) => startGuideDrag(e, guide)}
+            onDoubleClick={() => removeGuide(guide.id)}
+            title={t('guides.guideTitle', { value: `${formatRulerValue(guide.position, unit)} ${unit}` })}
+          >
+            <div style={{
+              position: 'absolute',
+              ...(vertical
+                ? { left: 3, top: 0, width: 0, height: '100%', borderLeft: `1px solid ${GUIDE_COLOR}` }
+                : { top: 3, left: 0, height: 0, width: '100%', borderTop: `1px solid ${GUIDE_COLOR}` }),
+            }} />
+            {isDraft && (
+              <span style={{
+                position: 'absolute',
+                ...(vertical ? { left: 8, top: 4 } : { top: 8, left: 4 }),
+                fontSize: '10px',
+                padding: '0 4px',
+                borderRadius: '2px',
+                color: 'white',
+                backgroundColor: GUIDE_COLOR,
+                whiteSpace: 'nowrap',
+              }}>
+                {formatRulerValue(guide.position, unit)} {unit}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {showRulers && (
+        <>
+          {/* Horizontal ruler — 끌어서 가로 안내선 */}
+          <div
+            style={{ ...rulerStyle, top: -RULER_SIZE, left: 0, width: '100%', height: RULER_SIZE, cursor: 'row-resize' }}
+            title={t('guides.rulerTitle')}
+            onPointerDown={(e) => startGuideDrag(e, { id: generateGuideId(), axis: 'y', position: -1 })}
+          >
+            <svg width={size.width} height={RULER_SIZE} style={{ display: 'block' }}>
+              {hTicks.map((tick) => {
+                const x = Math.round(origin.x + tick.position * scale) + 0.5;
+                return (
+                  <g key={tick.position}>
+                    <line x1={x} x2={x} y1={tick.major ? 4 : 12} y2={RULER_SIZE} stroke="#94A3B8" strokeWidth={1} />
+                    {tick.label && (
+                      <text x={x + 2} y={9} fontSize={8} fill="#64748B">{tick.label}</text>
+                    )}
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          {/* Vertical ruler — 끌어서 세로 안내선 */}
+          <div
+            style={{ ...rulerStyle, left: -RULER_SIZE, top: 0, width: RULER_SIZE, height: '100%', cursor: 'col-resize' }}
+            title={t('guides.rulerTitle')}
+            onPointerDown={(e) => startGuideDrag(e, { id: generateGuideId(), axis: 'x', position: -1 })}
+          >
+            <svg width={RULER_SIZE} height={size.height} style={{ display: 'block' }}>
+              {vTicks.map((tick) => {
+                const y = Math.round(origin.y + tick.position * scale) + 0.5;
+                return (
+                  <g key={tick.position}>
+                    <line x1={tick.major ? 4 : 12} x2={RULER_SIZE} y1={y} y2={y} stroke="#94A3B8" strokeWidth={1} />
+                    {tick.label && (
+                      <text x={9} y={y + 2} fontSize={8} fill="#64748B" transform={`rotate(-90 9 ${y + 2})`}>{tick.label}</text>
+                    )}
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          {/* Corner — 단위 전환 */}
+          <button
+            style={{
+              ...rulerStyle,
+              top: -RULER_SIZE,
+              left: -RULER_SIZE,
+              width: RULER_SIZE,
+              height: RULER_SIZE,
+              padding: 0,
+              fontSize: '8px',
+              fontWeight: 600,
+              color: '#64748B',
+              cursor: 'pointer',
+            }}
+            onClick={cycleUnit}
+            title={t('guides.unitToggle', { unit })}
+          >
+            {unit}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
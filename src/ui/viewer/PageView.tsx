@@ -12,6 +12,7 @@ import { Spinner } from 'phosphor-react';
 
 import { useViewStore } from '../../state/stores/ViewStore';
 import { usePDFStore } from '../../state/stores/PDFStore';
+import { PDF_RENDER_ANNOTATION_MODE } from '../../core/pdf/pdfLoader';
 import { getCanvasElevation } from './preview-tokens';
 import { useTranslation } from '../../i18n';
 
@@ -91,6 +92,7 @@ export function PageView({ pageId, pageIndex, pdfProxy, scale, onRenderComplete
           canvasContext: context,
           viewport: bitmapViewport,
           canvas: canvas,
+          annotationMode: PDF_RENDER_ANNOTATION_MODE,
         });
         await renderTaskRef.current.promise;
 
@@ -0,0 +1,340 @@
+/**
+ * RasterLayerStack - 페이지 래스터 레이어 캔버스 스택
+ * 레이어마다 캔버스 하나(RASTER_RESOLUTION 배율)를 두고 불투명도/블렌드 모드는 CSS로 합성합니다.
+ * 연산이 뒤에 추가되면 새 연산만 그리고, 그 외(undo 등)에는 처음부터 다시 재생합니다.
+ * interactive일 때 래스터 도구(브러시/지우개/블러)의 포인터 입력을 현재 레이어의 연산으로 기록합니다.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+import { usePageStore } from '../../state/stores/PageStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { useHistoryStore, snapshotRasterLayer } from '../../state/stores/HistoryStore';
+import { createRasterLayer, createRasterOperation } from '../../core/model/factories';
+import type { Page, Point, RasterLayer, RasterOperation } from '../../core/model/types';
+import {
+    RASTER_RESOLUTION, applyBlurDabs, cloneSurface, getRasterContext, paintOperation,
+    replayOperations, resolveRasterTool, surfaceToDataUrl,
+} from '../../core/raster/rasterEngine';
+import type { RasterSurface, RasterTool } from '../../core/raster/rasterEngine';
+
+interface RasterLayerStackProps {
+    page: Page;
+    scale: number;
+    activeTool: string;
+    /** 포인터 입력을 받을지 (현재 페이지 + 래스터 도구) */
+    interactive: boolean;
+}
+
+/** 그리는 중인 스트로크 */
+interface LiveStroke {
+    layerId: string;
+    /** 이 스트로크로 새로 만든 레이어면 null */
+    before: RasterLayer | null;
+    tool: RasterTool;
+    points: Point[];
+    pressures: number[] | null;
+    /** 스트로크 시작 시점 레이어 픽셀 (브러시/지우개 미리보기 복원용) */
+    base: RasterSurface | null;
+    /** 블러: 이미 적용한 도장 수 */
+    appliedDabs: number;
+}
+
+/** 캔버스 캐시를 canvasData로 저장하기까지 대기 (ms) */
+const CACHE_DELAY = 800;
+
+/** 포인터가 놓일 레이어: 선택된 레이어 → 맨 위 보이는 레이어 */
+function findTargetLayer(page: Page, selectedId: string | null): RasterLayer | null {
+    const visible = page.layers.rasters.filter(r => r.visible);
+    return visible.find(r => r.id === selectedId) ?? visible[visible.length - 1] ?? null;
+}
+
+// ============================================
+// Layer Canvas
+// ============================================
+
+interface RasterLayerCanvasProps {
+    layer: RasterLayer;
+    page: Page;
+    scale: number;
+    registerCanvas: (layerId: string, canvas: HTMLCanvasElement | null) => void;
+    isDrawing: (layerId: string) => boolean;
+}
+
+function RasterLayerCanvas({ layer, page, scale, registerCanvas, isDrawing }: RasterLayerCanvasProps) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    /** 캔버스에 반영된 연산 id */
+    const renderedRef = useRef<string[]>([]);
+
+    const setCanvas = useCallback((canvas: HTMLCanvasElement | null) => {
+        canvasRef.current = canvas;
+        registerCanvas(layer.id, canvas);
+    }, [layer.id, registerCanvas]);
+
+    // ── 연산 → 픽셀 ──
+    useLayoutEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const width = Math.ceil(page.width * RASTER_RESOLUTION);
+        const height = Math.ceil(page.height * RASTER_RESOLUTION);
+        const ctx = getRasterContext(canvas);
+        let rendered = renderedRef.current;
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+            rendered = [];
+        }
+
+        const ops = layer.operations;
+        const isPrefix = rendered.length <= ops.length && rendered.every((id, i) => ops[i].id === id);
+        if (isPrefix && rendered.length > 0) {
+            for (const op of ops.slice(rendered.length)) paintOperation(ctx, op, RASTER_RESOLUTION);
+        } else {
+            ctx.clearRect(0, 0, width, height);
+            replayOperations(ctx, ops, RASTER_RESOLUTION);
+        }
+        renderedRef.current = ops.map(op => op.id);
+    }, [layer.operations, page.width, page.height]);
+
+    // ── 연산이 없는 레이어: canvasData가 내용 ──
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || layer.operations.length > 0 || !layer.canvasData) return;
+
+        let cancelled = false;
+        const image = new Image();
+        image.onload = () => {
+            if (cancelled) return;
+            const ctx = getRasterContext(canvas);
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        };
+        image.src = layer.canvasData;
+        return () => { cancelled = true; };
+    }, [layer.operations.length, layer.canvasData]);
+
+    // ── 재생 결과를 canvasData 캐시로 저장 (저장/내보내기용) ──
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || layer.operations.length === 0 || layer.canvasData) return;
+
+        const operations = layer.operations;
+        const timer = setTimeout(async () => {
+            if (isDrawing(layer.id)) return;
+            const canvasData = await surfaceToDataUrl(canvas);
+            const current = usePageStore.getState().getPage(layer.pageId)?.layers.rasters.find(r => r.id === layer.id);
+            if (current?.operations === operations) {
+                usePageStore.getState().updateRasterLayer(layer.pageId, layer.id, { canvasData });
+            }
+        }, CACHE_DELAY);
+        return () => clearTimeout(timer);
+    }, [layer.id, layer.pageId, layer.operations, layer.canvasData, isDrawing]);
+
+    return (
+        <canvas
+            ref={setCanvas}
+            data-raster-layer-id={layer.id}
+            style={{
+                position: 'absolute', left: 0, top: 0,
+                width: page.width * scale, height: page.height * scale,
+                opacity: layer.opacity,
+                mixBlendMode: layer.blendMode ?? 'normal',
+                display: layer.visible ? 'block' : 'none',
+                zIndex: 2,
+                pointerEvents: 'none',
+            }}
+        />
+    );
+}
+
+// ============================================
+// Stack
+// ============================================
+
+export function RasterLayerStack({ page, scale, activeTool, interactive }: RasterLayerStackProps) {
+    const canvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+    const strokeRef = useRef<LiveStroke | null>(null);
+    const frameRef = useRef<number | null>(null);
+    const cursorRef = useRef<HTMLDivElement>(null);
+
+    const registerCanvas = useCallback((layerId: string, canvas: HTMLCanvasElement | null) => {
+        if (canvas) canvasesRef.current.set(layerId, canvas);
+        else canvasesRef.current.delete(layerId);
+    }, []);
+
+    const isDrawing = useCallback((layerId: string) => strokeRef.current?.layerId === layerId, []);
+
+    useEffect(() => () => {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    }, []);
+
+    /** 그리는 중인 스트로크를 레이어 캔버스에 미리보기 */
+    const renderLive = useCallback(() => {
+        frameRef.current = null;
+        const stroke = strokeRef.current;
+        const canvas = stroke && canvasesRef.current.get(stroke.layerId);
+        if (!stroke || !canvas) return;
+
+        const ctx = getRasterContext(canvas);
+        if (!stroke.base) stroke.base = cloneSurface(canvas);
+        const op = createRasterOperation({ tool: stroke.tool, points: stroke.points, pressures: stroke.pressures ?? undefined });
+
+        if (stroke.tool.type === 'blur') {
+            // 블러는 새 도장만 적용 (앞 도장 결과를 다시 흐리지 않음)
+            stroke.appliedDabs = applyBlurDabs(ctx, op, RASTER_RESOLUTION, stroke.appliedDabs);
+        } else {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(stroke.base, 0, 0);
+            paintOperation(ctx, op, RASTER_RESOLUTION);
+        }
+    }, []);
+
+    const scheduleLive = useCallback(() => {
+        if (frameRef.current === null) frameRef.current = requestAnimationFrame(renderLive);
+    }, [renderLive]);
+
+    const moveCursor = (e: React.PointerEvent | PointerEvent, size: number) => {
+        const cursor = cursorRef.current;
+        const rect = cursor?.parentElement?.getBoundingClientRect();
+        if (!cursor || !rect) return;
+        const diameter = Math.max(4, size * scale);
+        cursor.style.width = cursor.style.height = `${diameter}px`;
+        cursor.style.transform = `translate(${e.clientX - rect.left - diameter / 2}px, ${e.clientY - rect.top - diameter / 2}px)`;
+        cursor.style.display = 'block';
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.button !== 0) return;
+        const { selection, selectRasterLayer } = useAnnotationStore.getState();
+        const tool = resolveRasterTool(activeTool, selection.toolOptions);
+        if (!tool) return;
+
+        let layer = findTargetLayer(page, selection.selectedRasterLayerId);
+        let before: RasterLayer | null = null;
+        if (layer) {
+            before = snapshotRasterLayer(layer);
+        } else if (tool.type === 'brush') {
+            // 그릴 레이어가 없으면 새로 만듦
+            layer = createRasterLayer({ pageId: page.id, kind: 'freedraw' });
+            usePageStore.getState().addRasterLayer(page.id, layer);
+            selectRasterLayer(layer.id);
+        } else {
+            return;
+        }
+
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const rect = e.currentTarget.getBoundingClientRect();
+        strokeRef.current = {
+            layerId: layer.id,
+            before,
+            tool,
+            points: [{ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale }],
+            pressures: e.pointerType === 'pen' ? [e.pressure] : null,
+            base: null,
+            appliedDabs: 0,
+        };
+        scheduleLive();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const tool = strokeRef.current?.tool ?? resolveRasterTool(activeTool, useAnnotationStore.getState().selection.toolOptions);
+        if (tool) moveCursor(e, tool.size);
+
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        for (const ev of events.length > 0 ? events : [e.nativeEvent]) {
+            stroke.points.push({ x: (ev.clientX - rect.left) / scale, y: (ev.clientY - rect.top) / scale });
+            stroke.pressures?.push(ev.pressure);
+        }
+        scheduleLive();
+    };
+
+    const finishStroke = () => {
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        strokeRef.current = null;
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+
+        // 미리보기를 지우고 기록된 연산으로 다시 그림 (재생 결과와 화면이 항상 같도록)
+        const canvas = canvasesRef.current.get(stroke.layerId);
+        if (canvas && stroke.base) {
+            const ctx = getRasterContext(canvas);
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(stroke.base, 0, 0);
+        }
+
+        const pages = usePageStore.getState();
+        const layer = pages.getPage(page.id)?.layers.rasters.find(r => r.id === stroke.layerId);
+        if (!layer) return;
+
+        const op: RasterOperation = createRasterOperation({
+            tool: stroke.tool,
+            points: stroke.points,
+            pressures: stroke.pressures ?? undefined,
+        });
+        pages.updateRasterLayer(page.id, layer.id, {
+            operations: [...layer.operations, op],
+            canvasData: undefined,
+            modifiedAt: Date.now(),
+        });
+
+        const after = pages.getPage(page.id)?.layers.rasters.find(r => r.id === layer.id);
+        if (after) {
+            const labels = { brush: '브러시 칠하기', eraser: '래스터 지우기', blur: '흐림 효과' } as const;
+            useHistoryStore.getState().pushAction(labels[stroke.tool.type], [{
+                type: 'raster',
+                pageId: page.id,
+                layerId: layer.id,
+                before: stroke.before,
+                after: snapshotRasterLayer(after),
+            }]);
+        }
+    };
+
+    // 컨테이너는 쌓임 맥락을 만들지 않아야 레이어 블렌드 모드가 페이지/주석과 섞임
+    return (
+        <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+            {page.layers.rasters.map(layer => (
+                <RasterLayerCanvas
+                    key={layer.id}
+                    layer={layer}
+                    page={page}
+                    scale={scale}
+                    registerCanvas={registerCanvas}
+                    isDrawing={isDrawing}
+                />
+            ))}
+
+            {interactive && (
+                <div
+                    style={{
+                        position: 'absolute', inset: 0, zIndex: 3,
+                        pointerEvents: 'auto', cursor: 'none', touchAction: 'none', overflow: 'hidden',
+                    }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={finishStroke}
+                    onPointerCancel={finishStroke}
+                    onPointerLeave={() => { if (cursorRef.current) cursorRef.current.style.display = 'none'; }}
+                >
+                    {/* 브러시 크기 커서 */}
+                    <div
+                        ref={cursorRef}
+                        style={{
+                            position: 'absolute', left: 0, top: 0, display: 'none',
+                            borderRadius: '50%', pointerEvents: 'none',
+                            border: '1px solid rgba(0, 0, 0, 0.7)',
+                            boxShadow: '0 0 0 1px rgba(255, 255, 255, 0.7)',
+                        }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
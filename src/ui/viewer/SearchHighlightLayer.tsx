@@ -0,0 +1,106 @@
+/**
+ * SearchHighlightLayer - 검색 히트 사각형 오버레이
+ * PDF 히트는 pdfToViewport로 뷰포트 좌표에 매핑하고, 주석 히트는 주석 bbox를 표시합니다.
+ * 검색 패널이 닫히면 히트가 비워지므로 함께 사라집니다.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useSearchStore } from '../../state/stores/SearchStore';
+import { useAnnotationStore } from '../../state/stores/AnnotationStore';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import { pdfToViewport, scaleBBox } from '../../core/pdf/coordMapper';
+import type { BBox, Page } from '../../core/model/types';
+
+interface SearchHighlightLayerProps {
+    page: Page;
+    scale: number;
+    /** 페이지의 PDF (appendedFrom이면 추가된 PDF) */
+    pdfProxy: PDFDocumentProxy | null;
+}
+
+interface HitRect {
+    hitId: string;
+    rect: BBox;
+}
+
+export function SearchHighlightLayer({ page, scale, pdfProxy }: SearchHighlightLayerProps) {
+    const allHits = useSearchStore(s => s.hits);
+    const activeHitId = useSearchStore(s => s.hits[s.activeIndex]?.id ?? null);
+    const annotations = useAnnotationStore(s => s.annotations);
+    const globalRotation = usePDFStore(s => s.globalRotation);
+    const [pdfRects, setPdfRects] = useState<HitRect[]>([]);
+    const activeRef = useRef<HTMLDivElement>(null);
+
+    const hits = useMemo(() => allHits.filter(h => h.pageId === page.id), [allHits, page.id]);
+
+    // ── PDF 히트: PDF 사용자 공간 → 뷰포트 ──
+    useEffect(() => {
+        const pdfHits = hits.filter(h => h.pdfRects && h.pdfRects.length > 0);
+        if (pdfHits.length === 0 || !pdfProxy || !page.pdfRef) {
+            setPdfRects([]);
+            return;
+        }
+
+        let cancelled = false;
+        pdfProxy.getPage(page.pdfRef.sourceIndex).then(pdfPage => {
+            if (cancelled) return;
+            const viewport = pdfPage.getViewport({ scale, rotation: globalRotation });
+            setPdfRects(pdfHits.flatMap(hit =>
+                hit.pdfRects!.map(rect => ({ hitId: hit.id, rect: pdfToViewport(rect, viewport) }))
+            ));
+        }).catch(() => {
+            if (!cancelled) setPdfRects([]);
+        });
+
+        return () => { cancelled = true; };
+    }, [hits, pdfProxy, page.pdfRef, scale, globalRotation]);
+
+    // ── 주석 히트: 현재 주석 위치 ──
+    const annotationRects = useMemo<HitRect[]>(() => hits.flatMap(hit => {
+        if (!hit.annotationId) return [];
+        const annotation = annotations.find(a => a.id === hit.annotationId);
+        return annotation ? [{ hitId: hit.id, rect: scaleBBox(annotation.bbox, scale, scale) }] : [];
+    }), [hits, annotations, scale]);
+
+    const rects = [...pdfRects, ...annotationRects];
+    // 여러 줄에 걸친 히트는 첫 사각형으로 스크롤
+    const firstActiveIndex = rects.findIndex(r => r.hitId === activeHitId);
+    const hasActiveRect = firstActiveIndex >= 0;
+
+    // 현재 히트로 스크롤 (페이지 이동 스크롤 이후)
+    useEffect(() => {
+        if (!hasActiveRect) return;
+        const timer = setTimeout(() => {
+            activeRef.current?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+        }, 100);
+        return () => clearTimeout(timer);
+    }, [activeHitId, hasActiveRect]);
+
+    if (rects.length === 0) return null;
+
+    return (
+        <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 20 }}>
+            {rects.map(({ hitId, rect }, i) => {
+                const isActive = hitId === activeHitId;
+                return (
+                    <div
+                        key={`${hitId}-${i}`}
+                        ref={i === firstActiveIndex ? activeRef : undefined}
+                        style={{
+                            position: 'absolute',
+                            left: rect.x - 1,
+                            top: rect.y - 1,
+                            width: rect.width + 2,
+                            height: rect.height + 2,
+                            borderRadius: '2px',
+                            backgroundColor: isActive ? 'rgba(255, 140, 0, 0.4)' : 'rgba(255, 220, 0, 0.35)',
+                            outline: isActive ? '2px solid rgba(255, 120, 0, 0.9)' : 'none',
+                            mixBlendMode: 'multiply',
+                        }}
+                    />
+                );
+            })}
+        </div>
+    );
+}
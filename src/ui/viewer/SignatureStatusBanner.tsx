@@ -0,0 +1,121 @@
+/**
+ * SignatureStatusBanner - 불러온 PDF의 전자서명 검증 결과
+ *
+ * 서명된 파일을 열면 화면 위쪽에 요약(모두 유효 / 덧붙인 변경 / 변경됨·잘못됨)을 띄우고,
+ * 펼치면 서명마다 서명자, 서명 시각, 무결성, 인증서 정보를 보여준다.
+ */
+
+import { useState } from 'react';
+import { ShieldCheck, ShieldWarning, X } from 'phosphor-react';
+import { usePDFStore } from '../../state/stores/PDFStore';
+import type { PdfSignatureInfo } from '../../core/signing/pdfSignatureVerifier';
+import { useTranslation } from '../../i18n';
+
+type BannerTone = 'valid' | 'appended' | 'unknown' | 'broken';
+
+const TONE_COLORS: Record<BannerTone, { background: string; border: string; text: string }> = {
+  valid: { background: '#E8F5E9', border: '#81C784', text: '#1B5E20' },
+  appended: { background: '#FFF8E1', border: '#FFD54F', text: '#7A5200' },
+  unknown: { background: '#FFF8E1', border: '#FFD54F', text: '#7A5200' },
+  broken: { background: '#FFEBEE', border: '#E57373', text: '#B71C1C' },
+};
+
+/** 가장 나쁜 상태 하나로 요약 */
+function summarize(signatures: PdfSignatureInfo[]): BannerTone {
+  if (signatures.some(s => s.integrity === 'modified' || s.integrity === 'invalid')) return 'broken';
+  if (signatures.some(s => s.integrity === 'unknown')) return 'unknown';
+  if (signatures.some(s => s.changedAfterSigning)) return 'appended';
+  return 'valid';
+}
+
+export function SignatureStatusBanner() {
+  const { t, locale } = useTranslation();
+  const signatures = usePDFStore(state => state.signatures);
+  const [expanded, setExpanded] = useState(false);
+  // 닫은 결과 (다른 파일을 열면 다시 표시)
+  const [dismissed, setDismissed] = useState<PdfSignatureInfo[] | null>(null);
+
+  if (signatures.length === 0 || dismissed === signatures) return null;
+
+  const tone = summarize(signatures);
+  const colors = TONE_COLORS[tone];
+  const Icon = tone === 'valid' ? ShieldCheck : ShieldWarning;
+  const formatTime = (date: Date) =>
+    date.toLocaleString(locale === 'ko' ? 'ko-KR' : 'en-US', { dateStyle: 'medium', timeStyle: 'medium' });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '56px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 900,
+        width: '440px',
+        maxWidth: '90vw',
+        backgroundColor: colors.background,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.12)',
+        color: colors.text,
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 10px' }}>
+        <Icon size={18} weight="duotone" color={colors.text} />
+        <span style={{ flex: 1, fontWeight: 600 }}>
+          {t(`signatureStatus.${tone}`)}
+          <span style={{ fontWeight: 400, marginLeft: '6px', opacity: 0.8 }}>
+            {t('signatureStatus.count', { count: signatures.length })}
+          </span>
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          style={{ border: 'none', background: 'transparent', color: colors.text, fontSize: '12px', cursor: 'pointer', textDecoration: 'underline' }}
+        >
+          {expanded ? t('signatureStatus.hide') : t('signatureStatus.details')}
+        </button>
+        <button
+          onClick={() => setDismissed(signatures)}
+          title={t('signatureStatus.dismiss')}
+          style={{ display: 'flex', border: 'none', background: 'transparent', color: colors.text, cursor: 'pointer', padding: '2px' }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {expanded && (
+        <div style={{ borderTop: `1px solid ${colors.border}`, padding: '8px 10px', display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '320px', overflowY: 'auto' }}>
+          {signatures.map((signature, i) => (
+            <div key={`${signature.fieldName}-${i}`} style={{ display: 'flex', flexDirection: 'column', gap: '2px', color: '#333333' }}>
+              <div style={{ fontWeight: 600 }}>{signature.signerName || signature.fieldName}</div>
+              <div style={{ color: signature.integrity === 'valid' ? '#2E7D32' : TONE_COLORS.broken.text }}>
+                {t(`signatureStatus.integrity.${signature.integrity}`)}
+                {signature.error && <span style={{ color: '#666666' }}> ({signature.error})</span>}
+              </div>
+              <div style={{ color: '#666666' }}>
+                {signature.signingTime
+                  ? t('signatureStatus.signedAt', { time: formatTime(signature.signingTime) })
+                  : t('signatureStatus.noTime')}
+              </div>
+              {signature.issuerName && (
+                <div style={{ color: '#666666' }}>
+                  {signature.selfSigned ? t('signatureStatus.selfSigned') : t('signatureStatus.issuer', { issuer: signature.issuerName })}
+                </div>
+              )}
+              {signature.issuerName && !signature.certificateValidAtSigning && (
+                <div style={{ color: TONE_COLORS.appended.text }}>{t('signatureStatus.certificateExpired')}</div>
+              )}
+              {signature.changedAfterSigning && (
+                <div style={{ color: TONE_COLORS.appended.text }}>{t('signatureStatus.changedAfterSigning')}</div>
+              )}
+              {signature.reason && <div style={{ color: '#666666' }}>{t('signatureStatus.reason', { reason: signature.reason })}</div>}
+              {signature.location && <div style={{ color: '#666666' }}>{t('signatureStatus.location', { location: signature.location })}</div>}
+            </div>
+          ))}
+          <div style={{ fontSize: '11px', color: '#666666' }}>{t('signatureStatus.trustNote')}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * TextSelectionLayer - PDF 텍스트 선택 레이어 (텍스트 마크업 도구)
+ * pdf.js 텍스트 아이템 위에 히트 영역을 깔고, 드래그한 글자 범위를
+ * 줄별 사각형으로 스냅해 하이라이트/밑줄/물결 밑줄/취소선/가림 주석을 만듭니다.
+ * 텍스트가 아닌 곳은 아래 AnnotationManager로 이벤트가 넘어갑니다 (하이라이트 → 사각형).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { annotationService } from '../../domains/annotations/services/AnnotationService';
+import {
+    caretAt, loadPageTextLayer, quadsBounds, selectionQuads, selectionRange, selectionText,
+} from '../../core/pdf/textLayer';
+import type { TextLayer } from '../../core/pdf/textLayer';
+import type { Annotation, BBox, Page, ToolType } from '../../core/model/types';
+
+interface TextSelectionLayerProps {
+    page: Page;
+    scale: number;
+    /** 페이지의 PDF (appendedFrom이면 추가된 PDF) */
+    pdfProxy: PDFDocumentProxy | null;
+    activeTool: ToolType;
+    onCreate: (annotation: Omit<Annotation, 'id'>) => void;
+}
+
+export function TextSelectionLayer({ page, scale, pdfProxy, activeTool, onCreate }: TextSelectionLayerProps) {
+    const [layer, setLayer] = useState<TextLayer | null>(null);
+    const [selectionRects, setSelectionRects] = useState<BBox[]>([]);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // ── 글자 배치 로드 (편집 좌표 = 가져온 주석과 같은 뷰포트) ──
+    useEffect(() => {
+        if (!pdfProxy || !page.pdfRef) {
+            setLayer(null);
+            return;
+        }
+
+        let cancelled = false;
+        loadPageTextLayer(pdfProxy, { pdfRef: page.pdfRef, width: page.width })
+            .then(textLayer => {
+                if (!cancelled) setLayer(textLayer);
+            })
+            .catch(error => {
+                if (cancelled) return;
+                console.warn(`⚠️ [TextSelectionLayer] Failed to read text of page ${page.id}:`, error);
+                setLayer(null);
+            });
+
+        return () => { cancelled = true; };
+    }, [pdfProxy, page.pdfRef, page.width, page.id]);
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        const container = containerRef.current;
+        if (!layer || !container || e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        const rect = container.getBoundingClientRect();
+        const toPoint = (event: { clientX: number; clientY: number }) => ({
+            x: (event.clientX - rect.left) / scale,
+            y: (event.clientY - rect.top) / scale,
+        });
+
+        const anchor = caretAt(layer, toPoint(e));
+        if (anchor === null) return;
+        let range = selectionRange(anchor, anchor);
+
+        const handleMove = (moveEvent: PointerEvent) => {
+            const focus = caretAt(layer, toPoint(moveEvent));
+            if (focus === null) return;
+            range = selectionRange(anchor, focus);
+            setSelectionRects(selectionQuads(layer, range));
+        };
+
+        const handleUp = () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+            setSelectionRects([]);
+
+            const quads = selectionQuads(layer, range);
+            if (quads.length === 0) return;
+
+            // 연속으로 표시할 수 있도록 도구는 유지
+            const annotation = annotationService.createAnnotation(activeTool, page.id, {
+                bbox: quadsBounds(quads),
+                quads,
+                content: selectionText(layer, range),
+            });
+            if (annotation) onCreate(annotation);
+        };
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
+    if (!layer) return null;
+
+    return (
+        <div
+            ref={containerRef}
+            style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 2, touchAction: 'none' }}
+        >
+            {/* Text hit areas */}
+            {layer.boxes.map((box, i) => (
+                <div
+                    key={i}
+                    onPointerDown={handlePointerDown}
+                    style={{
+                        position: 'absolute',
+                        left: box.x * scale,
+                        top: box.y * scale,
+                        width: box.width * scale,
+                        height: box.height * scale,
+                        cursor: 'text',
+                        pointerEvents: 'auto',
+                    }}
+                />
+            ))}
+
+            {/* Selection preview */}
+            {selectionRects.map((quad, i) => (
+                <div
+                    key={`selection-${i}`}
+                    style={{
+                        position: 'absolute',
+                        left: quad.x * scale,
+                        top: quad.y * scale,
+                        width: quad.width * scale,
+                        height: quad.height * scale,
+                        backgroundColor: 'rgba(59, 130, 246, 0.3)',
+                        pointerEvents: 'none',
+                    }}
+                />
+            ))}
+        </div>
+    );
+}
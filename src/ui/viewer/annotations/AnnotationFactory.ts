@@ -8,8 +8,9 @@
  *   3. 끝! AnnotationLayer 수정 불필요
  */
 
-import type { Annotation, BBox, TableCell, TableCellStyle } from '../../../types/annotation';
+import type { Annotation, BBox, TableCell } from '../../../types/annotation';
 import type { ToolType } from '../../../core/model/types';
+import { DEFAULT_TABLE_CELL_STYLE } from '../../../core/table/tableModel';
 
 // ── Creator 인터페이스 ────────────────────────
 
@@ -185,22 +186,10 @@ const ANNOTATION_CREATORS: Record<string, AnnotationCreator> = {
     const rowHeights = Array(rows).fill(rowHeight);
     rowHeights[rows - 1] = bbox.height - rowHeight * (rows - 1);
 
-    const defaultCellStyle: TableCellStyle = {
-      fontSize: 12,
-      fontFamily: 'sans-serif',
-      fontWeight: 'normal',
-      fontStyle: 'normal',
-      textAlign: 'left',
-      verticalAlign: 'middle',
-      color: '#000000',
-      backgroundColor: 'transparent',
-      backgroundOpacity: 1,
-    };
-
     const cells: TableCell[][] = Array.from({ length: rows }, () =>
       Array.from({ length: cols }, () => ({
         content: '',
-        style: { ...defaultCellStyle },
+        style: { ...DEFAULT_TABLE_CELL_STYLE },
       }))
     );
 
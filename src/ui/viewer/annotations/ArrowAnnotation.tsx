@@ -9,6 +9,7 @@ import React from 'react';
 import type { ArrowAnnotation as ArrowAnnotationType, LineAnnotation } from '../../../core/model/types';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { ResizeHandles as _ResizeHandles } from './ResizeHandles';
+import { beginAnnotationGesture } from './annotationGesture';
 
 interface ArrowAnnotationProps {
   annotation: ArrowAnnotationType | LineAnnotation;
@@ -111,6 +112,7 @@ export function ArrowAnnotationComponent({
       pointType: type,
       startPos: { x: e.clientX, y: e.clientY }
     });
+    beginAnnotationGesture('주석 모양 변경');
   };
 
   React.useEffect(() => {
@@ -331,11 +333,11 @@ export function ArrowAnnotationComponent({
               transition: 'background-color 0.15s',
             }}
             onPointerDown={(e) => {
+              handlePointDown(e, 'control');
               // If no curve yet, initialize controlPoint to midpoint before dragging
               if (!hasCurve) {
                 onUpdate({ controlPoint: midPoint(startPoint, endPoint) } as any);
               }
-              handlePointDown(e, 'control');
             }}
             onDoubleClick={handleControlDoubleClick}
             title={hasCurve ? '더블클릭으로 직선 복귀' : '드래그하여 커브 생성'}
@@ -0,0 +1,124 @@
+/**
+ * BarcodeAnnotation Component - QR / Data Matrix / Code 128 렌더링
+ * 모듈 행렬을 SVG 사각형으로 그려 확대해도 선명하다.
+ */
+
+import { useMemo } from 'react';
+import type { BarcodeAnnotation } from '../../../core/model/types';
+import { barcodeModuleRects } from '../../../core/barcode/barcodeEncoder';
+import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
+
+interface BarcodeAnnotationProps {
+  annotation: BarcodeAnnotation;
+  isSelected: boolean;
+  isHovered: boolean;
+  scale: number;
+  onSelect: () => void;
+  onUpdate: (updates: Partial<BarcodeAnnotation>) => void;
+  onHover: () => void;
+  onHoverEnd: () => void;
+  onDragStart?: (annotation: BarcodeAnnotation, startPos: { x: number; y: number }) => void;
+}
+
+export function BarcodeAnnotationComponent({
+  annotation,
+  isSelected,
+  isHovered,
+  scale,
+  onSelect,
+  onUpdate,
+  onHover,
+  onHoverEnd,
+  onDragStart,
+}: BarcodeAnnotationProps) {
+  const { bbox, modules, style } = annotation;
+  const cols = modules[0]?.length ?? 1;
+  const rows = modules.length || 1;
+
+  // 모듈 단위 좌표로 계산해 viewBox로 늘린다 (크기 변경 시 재계산 불필요)
+  const path = useMemo(
+    () => barcodeModuleRects(modules, { x: 0, y: 0, width: cols, height: rows })
+      .map(({ x, y, width, height }) => `M${x} ${y}h${width}v${height}h${-width}z`)
+      .join(''),
+    [modules, cols, rows]
+  );
+
+  const handleResize = (dWidth: number, dHeight: number, dX: number, dY: number) => {
+    let newWidth = Math.max(10 / scale, bbox.width + dWidth / scale);
+    let newHeight = Math.max(10 / scale, bbox.height + dHeight / scale);
+    let adjustedDX = dX / scale;
+    let adjustedDY = dY / scale;
+
+    // 2차원 코드는 기본적으로 비율 고정 (모듈이 정사각형이어야 인식됨)
+    if (style.lockAspectRatio !== false) {
+      const aspectRatio = bbox.width / bbox.height;
+      if (Math.abs(dWidth) > Math.abs(dHeight)) {
+        newHeight = newWidth / aspectRatio;
+        if (adjustedDY !== 0) adjustedDY = bbox.height - newHeight;
+      } else {
+        newWidth = newHeight * aspectRatio;
+        if (adjustedDX !== 0) adjustedDX = bbox.width - newWidth;
+      }
+    }
+
+    onUpdate({
+      bbox: resizeRotatedBBox(bbox, {
+        x: bbox.x + adjustedDX,
+        y: bbox.y + adjustedDY,
+        width: newWidth,
+        height: newHeight,
+      }, annotation.rotation ?? 0),
+    });
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: bbox.x * scale,
+        top: bbox.y * scale,
+        width: bbox.width * scale,
+        height: bbox.height * scale,
+        cursor: isSelected ? 'grab' : 'pointer',
+        outline: isSelected
+          ? '2px solid #3B82F6'
+          : isHovered
+            ? '2px dashed #93C5FD'
+            : 'none',
+        outlineOffset: '2px',
+      }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onSelect();
+        onDragStart?.(annotation, { x: e.clientX, y: e.clientY });
+      }}
+      onMouseEnter={onHover}
+      onMouseLeave={onHoverEnd}
+      title={annotation.value}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${cols} ${rows}`}
+        preserveAspectRatio="none"
+        shapeRendering="crispEdges"
+        style={{ display: 'block' }}
+      >
+        <rect x={0} y={0} width={cols} height={rows} fill={style.backgroundColor || '#FFFFFF'} />
+        <path d={path} fill={style.color || '#000000'} />
+      </svg>
+
+      {isSelected && (
+        <ResizeHandles
+          width={bbox.width * scale}
+          height={bbox.height * scale}
+          onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * CommentAnnotation Component - 검토 댓글 아이콘 (스티커 메모)
+ * 클릭하면 선택하고 댓글 패널을 연다. 스레드 내용은 패널에서 보고 쓴다.
+ * 다른 주석에 붙은 댓글은 그 주석을 따라 움직이므로 직접 끌 수 없다.
+ */
+
+import { ChatCenteredText, CheckCircle } from 'phosphor-react';
+import type { CommentAnnotation } from '../../../types/annotation';
+import { useAnnotationStore } from '../../../state/stores/AnnotationStore';
+import { useCommentStore } from '../../../state/stores/CommentStore';
+
+interface CommentAnnotationProps {
+  annotation: CommentAnnotation;
+  isSelected: boolean;
+  scale: number;
+  onPointerDown: (e: React.PointerEvent) => void;
+}
+
+export function CommentAnnotationComponent({ annotation, isSelected, scale, onPointerDown }: CommentAnnotationProps) {
+  const openComments = useCommentStore(s => s.openComments);
+  const { bbox, thread, status, style } = annotation;
+  const size = bbox.width * scale;
+  const resolved = status === 'resolved';
+  const first = thread[0];
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!annotation.anchorId) {
+      onPointerDown(e);
+      return;
+    }
+    // 붙은 댓글은 선택만
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    useAnnotationStore.getState().selectAnnotation(annotation.id, e.ctrlKey || e.metaKey);
+  };
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onClick={openComments}
+      title={first ? `${first.author}: ${first.text}` : undefined}
+      style={{
+        position: 'absolute',
+        left: bbox.x * scale,
+        top: bbox.y * scale,
+        width: size,
+        height: bbox.height * scale,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        borderRadius: '50%',
+        backgroundColor: 'white',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.3)',
+        outline: isSelected ? '2px solid #3B82F6' : 'none',
+        outlineOffset: '1px',
+        opacity: resolved ? 0.6 : 1,
+        cursor: annotation.anchorId ? 'pointer' : 'grab',
+        pointerEvents: 'auto',
+      }}
+    >
+      <ChatCenteredText size={size * 0.75} weight="fill" color={style?.color || '#F59E0B'} />
+
+      {resolved ? (
+        <CheckCircle
+          size={Math.max(10, size * 0.45)}
+          weight="fill"
+          color="#22C55E"
+          style={{ position: 'absolute', right: -size * 0.15, bottom: -size * 0.15, backgroundColor: 'white', borderRadius: '50%' }}
+        />
+      ) : thread.length > 1 && (
+        <span style={{
+          position: 'absolute',
+          right: -size * 0.2,
+          top: -size * 0.2,
+          minWidth: 14,
+          height: 14,
+          padding: '0 3px',
+          borderRadius: 7,
+          backgroundColor: '#EF4444',
+          color: 'white',
+          fontSize: '9px',
+          fontWeight: 700,
+          lineHeight: '14px',
+          textAlign: 'center',
+          boxSizing: 'border-box',
+        }}>
+          {thread.length}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@
  */
 
 import React, { useCallback, useRef, useState } from 'react';
+import { beginAnnotationGesture } from './annotationGesture';
 
 interface EllipseArcHandlesProps {
     cx: number;          // center x (scaled)
@@ -130,6 +131,7 @@ export function EllipseArcHandles({
 
         window.addEventListener('pointermove', handleMove);
         window.addEventListener('pointerup', handleUp);
+        beginAnnotationGesture('주석 모양 변경');
     }, [cx, cy, rx, ry, startAngle, sweepAngle, onUpdate]);
 
     // Sweep "pie line" indicator from center to arc endpoints
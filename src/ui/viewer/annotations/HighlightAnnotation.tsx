@@ -6,6 +6,7 @@
 import { useState, useEffect } from 'react';
 import type { HighlightAnnotation as HighlightAnnotationType } from '../../../core/model/types';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
 
 interface HighlightAnnotationProps {
   annotation: HighlightAnnotationType;
@@ -99,18 +100,19 @@ export function HighlightAnnotationComponent({
     };
   }, [isDragging, dragStart, scale, bbox, onUpdate]);
 
-  const handleResize = (newWidth: number, newHeight: number) => {
+  const handleResize = (dWidth: number, dHeight: number, dX: number, dY: number) => {
     // Ensure minimum size to prevent disappearing
     const minSize = 10;
-    const finalWidth = Math.max(newWidth / scale, minSize / scale);
-    const finalHeight = Math.max(newHeight / scale, minSize / scale);
+    const finalWidth = Math.max(bbox.width + dWidth / scale, minSize / scale);
+    const finalHeight = Math.max(bbox.height + dHeight / scale, minSize / scale);
 
     onUpdate({
-      bbox: {
-        ...bbox,
+      bbox: resizeRotatedBBox(bbox, {
+        x: bbox.x + dX / scale,
+        y: bbox.y + dY / scale,
         width: finalWidth,
         height: finalHeight,
-      },
+      }, annotation.rotation ?? 0),
     });
   };
 
@@ -167,6 +169,8 @@ export function HighlightAnnotationComponent({
           width={scaledBBox.width}
           height={scaledBBox.height}
           onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
         />
       )}
     </div>
@@ -4,6 +4,7 @@
 
 import type { ImageAnnotation } from '../../../core/model/types';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
 
 interface ImageAnnotationProps {
   annotation: ImageAnnotation;
@@ -75,12 +76,12 @@ export function ImageAnnotationComponent({
     }
 
     onUpdate({
-      bbox: {
+      bbox: resizeRotatedBBox(annotation.bbox, {
         x: annotation.bbox.x + adjustedDX,
         y: annotation.bbox.y + adjustedDY,
         width: newWidth,
         height: newHeight,
-      },
+      }, annotation.rotation ?? 0),
     });
   };
 
@@ -150,6 +151,8 @@ export function ImageAnnotationComponent({
           width={annotation.bbox.width * scale}
           height={annotation.bbox.height * scale}
           onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
         />
       )}
     </div>
@@ -0,0 +1,66 @@
+/**
+ * OCRAnnotation Component - OCR 인식 단어
+ * 스캔 이미지 위의 투명한 단어 영역. 마우스를 올리면 신뢰도 색상으로 테두리를,
+ * 선택하면 인식된 텍스트를 표시한다. 스캔 위치와 맞아야 하므로 이동/크기 조절은 없다.
+ */
+
+import { useState } from 'react';
+import type { OCRAnnotation } from '../../../types/annotation';
+import { confidenceColor } from '../../../core/ocr/ocrLayer';
+
+interface OCRAnnotationProps {
+    annotation: OCRAnnotation;
+    isSelected: boolean;
+    scale: number;
+    onSelect: () => void;
+}
+
+export function OCRAnnotationComponent({ annotation, isSelected, scale, onSelect }: OCRAnnotationProps) {
+    const [isHovered, setIsHovered] = useState(false);
+    const { bbox, content, confidence } = annotation;
+    const color = confidenceColor(confidence);
+
+    return (
+        <div
+            onPointerDown={(e) => {
+                e.stopPropagation();
+                onSelect();
+            }}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            title={`${content} (${Math.round(confidence)}%)`}
+            style={{
+                position: 'absolute',
+                left: bbox.x * scale,
+                top: bbox.y * scale,
+                width: bbox.width * scale,
+                height: bbox.height * scale,
+                border: isSelected ? `1.5px solid ${color}` : isHovered ? `1px dashed ${color}` : 'none',
+                backgroundColor: isSelected ? `${color}1A` : 'transparent',
+                boxSizing: 'border-box',
+                cursor: 'pointer',
+                pointerEvents: 'auto',
+            }}
+        >
+            {isSelected && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        left: 0,
+                        bottom: '100%',
+                        marginBottom: '2px',
+                        padding: '1px 4px',
+                        borderRadius: '3px',
+                        backgroundColor: color,
+                        color: '#FFFFFF',
+                        fontSize: '11px',
+                        whiteSpace: 'nowrap',
+                        pointerEvents: 'none',
+                    }}
+                >
+                    {content}
+                </div>
+            )}
+        </div>
+    );
+}
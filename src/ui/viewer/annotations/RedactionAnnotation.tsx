@@ -0,0 +1,85 @@
+/**
+ * RedactionAnnotation Component - 가림 영역 표시
+ * 편집 중에는 아래 내용이 보이도록 빨간 점선 윤곽과 옅은 채움만 그린다.
+ * 실제로 칠하고 내용을 지우는 것은 내보내기 단계다. 크기 조절 없이 이동만 지원한다.
+ */
+
+import React, { useState } from 'react';
+import type { RedactionAnnotation } from '../../../types/annotation';
+import { redactionRegions } from '../../../core/redaction/redaction';
+
+interface RedactionAnnotationProps {
+    annotation: RedactionAnnotation;
+    isSelected: boolean;
+    scale: number;
+    onSelect: () => void;
+    onPointerDown?: (e: React.PointerEvent) => void;
+}
+
+const OUTLINE_COLOR = '#DC2626';
+
+export function RedactionAnnotationComponent({
+    annotation,
+    isSelected,
+    scale,
+    onSelect,
+    onPointerDown,
+}: RedactionAnnotationProps) {
+    const [isHovered, setIsHovered] = useState(false);
+    const regions = redactionRegions(annotation);
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onSelect();
+        onPointerDown?.(e);
+    };
+
+    return (
+        <svg
+            style={{
+                position: 'absolute',
+                left: 0,
+                top: 0,
+                width: '100%',
+                height: '100%',
+                overflow: 'visible',
+                pointerEvents: 'none',
+            }}
+        >
+            {regions.map((region, i) => (
+                <rect
+                    key={i}
+                    x={region.x * scale}
+                    y={region.y * scale}
+                    width={region.width * scale}
+                    height={region.height * scale}
+                    fill={OUTLINE_COLOR}
+                    fillOpacity={isSelected || isHovered ? 0.25 : 0.12}
+                    stroke={isSelected ? '#3B82F6' : OUTLINE_COLOR}
+                    strokeWidth={isSelected ? 1.5 : 1}
+                    strokeDasharray={isSelected ? undefined : '4 2'}
+                    style={{ pointerEvents: 'all', cursor: isSelected ? 'move' : 'pointer' }}
+                    onPointerDown={handlePointerDown}
+                    onMouseEnter={() => setIsHovered(true)}
+                    onMouseLeave={() => setIsHovered(false)}
+                />
+            ))}
+
+            {/* 대체 문구 미리보기 (첫 영역) */}
+            {annotation.overlayText && regions.length > 0 && (
+                <text
+                    x={(regions[0].x + regions[0].width / 2) * scale}
+                    y={(regions[0].y + regions[0].height / 2) * scale}
+                    fill={OUTLINE_COLOR}
+                    fontSize={Math.min(12, regions[0].height * 0.7) * scale}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    style={{ pointerEvents: 'none', userSelect: 'none' }}
+                >
+                    {annotation.overlayText}
+                </text>
+            )}
+        </svg>
+    );
+}
@@ -1,20 +1,30 @@
 /**
  * ResizeHandles Component - 리사이즈 핸들
- * 8방향 리사이즈 지원
+ * 8방향 리사이즈 + 회전 핸들 지원
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useContext } from 'react';
+import { normalizeAngle, rotatePoint, snapAngle } from '../../../core/annotations/annotationRotation';
+import { AnnotationLockContext } from './annotationLock';
+import { AnnotationResizeContext } from './annotationResize';
+import { beginAnnotationGesture } from './annotationGesture';
 
 interface ResizeHandlesProps {
   width: number;
   height: number;
   // onResize now receives incremental changes (delta) instead of absolute values
   onResize: (dWidth: number, dHeight: number, dX: number, dY: number) => void;
+  /** 주석 회전 각도 - 드래그 변화량을 주석 자체 축으로 변환 */
+  rotation?: number;
+  /** 지정하면 위쪽에 회전 핸들 표시 (Shift: 15° 단위) */
+  onRotate?: (rotation: number) => void;
 }
 
 type HandlePosition = 'nw' | 'n' | 'ne' | 'w' | 'e' | 'sw' | 's' | 'se';
 
-export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandlesProps) {
+export function ResizeHandles({ width: _w, height: _h, onResize, rotation = 0, onRotate }: ResizeHandlesProps) {
+  const locked = useContext(AnnotationLockContext);
+  const resizeSession = useContext(AnnotationResizeContext);
   const [isResizing, setIsResizing] = useState(false);
   const [resizeHandle, setResizeHandle] = useState<HandlePosition | null>(null);
 
@@ -24,6 +34,9 @@ export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandles
   // Store initial dimensions for aspect ratio calculation
   const [initialSize, setInitialSize] = useState<{ width: number; height: number } | null>(null);
 
+  // 회전 중심 (화면 좌표)
+  const [rotateCenter, setRotateCenter] = useState<{ x: number; y: number } | null>(null);
+
   const handleMouseDown = (e: React.PointerEvent, handle: HandlePosition) => {
     e.stopPropagation();
     e.preventDefault(); // Prevent text selection
@@ -31,14 +44,20 @@ export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandles
     setResizeHandle(handle);
     setLastMousePos({ x: e.clientX, y: e.clientY });
     setInitialSize({ width: _w, height: _h }); // Store initial size for aspect ratio
+    resizeSession?.begin();
+    beginAnnotationGesture('주석 크기 조절');
   };
 
   useEffect(() => {
     if (!isResizing || !resizeHandle || !lastMousePos) return;
 
     const handleMouseMove = (e: MouseEvent) => {
-      const dx = e.clientX - lastMousePos.x;
-      const dy = e.clientY - lastMousePos.y;
+      // 회전된 주석은 화면 이동량을 주석 자체 축으로 되돌림
+      const { x: dx, y: dy } = rotatePoint(
+        { x: e.clientX - lastMousePos.x, y: e.clientY - lastMousePos.y },
+        { x: 0, y: 0 },
+        -rotation
+      );
 
       let dWidth = 0;
       let dHeight = 0;
@@ -95,6 +114,7 @@ export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandles
     };
 
     const handleMouseUp = () => {
+      resizeSession?.end();
       setIsResizing(false);
       setResizeHandle(null);
       setLastMousePos(null);
@@ -108,7 +128,42 @@ export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandles
       window.removeEventListener('pointermove', handleMouseMove);
       window.removeEventListener('pointerup', handleMouseUp);
     };
-  }, [isResizing, resizeHandle, lastMousePos, initialSize, onResize]);
+  }, [isResizing, resizeHandle, lastMousePos, initialSize, onResize, rotation, resizeSession]);
+
+  const handleRotateDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    // 핸들의 부모 = 주석 요소, 회전되어도 외곽 사각형의 중심은 회전 중심과 같음
+    const rect = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (!rect) return;
+    setRotateCenter({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+    // 놓을 때까지의 회전은 히스토리 한 단계
+    beginAnnotationGesture('주석 회전');
+  };
+
+  useEffect(() => {
+    if (!rotateCenter || !onRotate) return;
+
+    const handleMove = (e: PointerEvent) => {
+      // 핸들이 위쪽(-90°)에 있으므로 +90°
+      const angle = (Math.atan2(e.clientY - rotateCenter.y, e.clientX - rotateCenter.x) * 180) / Math.PI + 90;
+      onRotate(e.shiftKey ? snapAngle(angle) : normalizeAngle(Math.round(angle * 10) / 10));
+    };
+    const handleUp = () => setRotateCenter(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [rotateCenter, onRotate]);
+
+  // 잠긴 주석은 크기 조절/회전 불가
+  if (locked) return null;
 
   const handles: { position: HandlePosition; cursor: string; style: React.CSSProperties }[] = [
     { position: 'nw', cursor: 'nw-resize', style: { left: -4, top: -4 } },
@@ -148,6 +203,38 @@ export function ResizeHandles({ width: _w, height: _h, onResize }: ResizeHandles
           }}
         />
       ))}
+      {onRotate && (
+        <>
+          <div
+            style={{
+              position: 'absolute',
+              left: '50%',
+              top: -24,
+              width: 1,
+              height: 20,
+              backgroundColor: '#3B82F6',
+              pointerEvents: 'none',
+            }}
+          />
+          <div
+            style={{
+              position: 'absolute',
+              left: '50%',
+              top: -30,
+              width: '12px',
+              height: '12px',
+              marginLeft: -6,
+              backgroundColor: 'white',
+              border: '2px solid #3B82F6',
+              borderRadius: '50%',
+              boxShadow: '0 2px 4px rgba(0, 0, 0, 0.15)',
+              zIndex: 10,
+              cursor: rotateCenter ? 'grabbing' : 'grab',
+            }}
+            onPointerDown={handleRotateDown}
+          />
+        </>
+      )}
     </>
   );
 }
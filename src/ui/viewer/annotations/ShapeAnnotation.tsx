@@ -6,7 +6,9 @@
 import React, { useState, useRef, useCallback } from 'react';
 import type { RectangleAnnotation, EllipseAnnotation, RoundedRectAnnotation } from '../../../types/annotation';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
 import { EllipseArcHandles } from './EllipseArcHandles';
+import { beginAnnotationGesture } from './annotationGesture';
 
 type ShapeAnnotationType = RectangleAnnotation | RoundedRectAnnotation | EllipseAnnotation;
 
@@ -136,12 +138,12 @@ export function ShapeAnnotationComponent({
     const dY_scaled = dY / scale;
 
     onUpdate({
-      bbox: {
+      bbox: resizeRotatedBBox(bbox, {
         x: bbox.x + dX_scaled,
         y: bbox.y + dY_scaled,
         width: Math.max(10 / scale, bbox.width + dW_scaled),
         height: Math.max(10 / scale, bbox.height + dH_scaled),
-      },
+      }, annotation.rotation ?? 0),
     });
   };
 
@@ -171,6 +173,7 @@ export function ShapeAnnotationComponent({
 
     window.addEventListener('pointermove', handlePointerMove);
     window.addEventListener('pointerup', handlePointerUp);
+    beginAnnotationGesture('주석 모양 변경');
   }, [annotation, bbox.width, bbox.height, scale, onUpdate]);
 
   const isEllipse = annotation.type === 'ellipse';
@@ -282,7 +285,13 @@ export function ShapeAnnotationComponent({
 
       {/* Resize handles */}
       {isSelected && (
-        <ResizeHandles width={scaledBBox.width} height={scaledBBox.height} onResize={handleResize} />
+        <ResizeHandles
+          width={scaledBBox.width}
+          height={scaledBBox.height}
+          onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
+        />
       )}
 
       {/* Ellipse Arc Handles (Figma UI3) */}
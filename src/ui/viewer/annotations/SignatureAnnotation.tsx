@@ -0,0 +1,191 @@
+/**
+ * SignatureAnnotation Component - 서명 렌더링
+ * 손글씨 획은 bbox 좌표를 viewBox로 쓴 SVG로, 이미지 서명은 이미지로 그린다.
+ * 자리 표시는 "여기에 서명" 점선 상자로 그리고, 더블클릭하면 고른 서명으로 채운다.
+ * SignatureFace는 서명 다이얼로그의 저장 목록 미리보기에서도 쓴다.
+ */
+
+import type { SignatureAnnotation } from '../../../core/model/types';
+import { isSignaturePlaceholder } from '../../../core/signatures/signatureLibrary';
+import { signatureStrokePaths } from '../../../core/signatures/signatureStrokes';
+import { useSignatureStore } from '../../../state/stores/SignatureStore';
+import { fillPlaceholder } from '../../hooks/useSignatures';
+import { useTranslation } from '../../../i18n';
+import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
+
+/** 서명 모양 (bbox 크기 × scale을 채움, 자리 표시는 빈 모양) */
+export function SignatureFace({ annotation }: { annotation: SignatureAnnotation }) {
+  const { bbox, style } = annotation;
+
+  if (annotation.imageData) {
+    return (
+      <img
+        src={annotation.imageData}
+        alt=""
+        draggable={false}
+        style={{ display: 'block', width: '100%', height: '100%', pointerEvents: 'none', userSelect: 'none' }}
+      />
+    );
+  }
+
+  return (
+    <svg
+      width="100%"
+      height="100%"
+      viewBox={`${bbox.x} ${bbox.y} ${bbox.width} ${bbox.height}`}
+      preserveAspectRatio="none"
+      style={{ position: 'absolute', inset: 0, overflow: 'visible', pointerEvents: 'none' }}
+    >
+      {signatureStrokePaths(annotation).map((d, i) => (
+        <path
+          key={i}
+          d={d}
+          fill="none"
+          stroke={style?.stroke || '#000000'}
+          strokeWidth={style?.strokeWidth || 2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
+
+/** "여기에 서명" 자리 표시 */
+function SignaturePlaceholder({ annotation, scale }: { annotation: SignatureAnnotation; scale: number }) {
+  const { t } = useTranslation();
+  const label = annotation.label
+    || (annotation.kind === 'initials' ? t('signature.placeholderInitials') : t('signature.placeholder'));
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(255, 214, 0, 0.25)',
+        border: '2px dashed #E0A800',
+        borderRadius: 4,
+        color: '#8A6100',
+        fontSize: Math.max(9, 11 * scale),
+        fontWeight: 600,
+        textAlign: 'center',
+        overflow: 'hidden',
+        userSelect: 'none',
+      }}
+    >
+      ✍ {label}
+    </div>
+  );
+}
+
+interface SignatureAnnotationProps {
+  annotation: SignatureAnnotation;
+  isSelected: boolean;
+  isHovered: boolean;
+  scale: number;
+  onSelect: () => void;
+  onUpdate: (updates: Partial<SignatureAnnotation>) => void;
+  onHover: () => void;
+  onHoverEnd: () => void;
+  onDragStart?: (annotation: SignatureAnnotation, startPos: { x: number; y: number }) => void;
+}
+
+export function SignatureAnnotationComponent({
+  annotation,
+  isSelected,
+  isHovered,
+  scale,
+  onSelect,
+  onUpdate,
+  onHover,
+  onHoverEnd,
+  onDragStart,
+}: SignatureAnnotationProps) {
+  const { t } = useTranslation();
+  const { bbox } = annotation;
+  const placeholder = isSignaturePlaceholder(annotation);
+
+  const handleResize = (dWidth: number, dHeight: number, dX: number, dY: number) => {
+    let newWidth = Math.max(10 / scale, bbox.width + dWidth / scale);
+    let newHeight = Math.max(10 / scale, bbox.height + dHeight / scale);
+    let adjustedDX = dX / scale;
+    let adjustedDY = dY / scale;
+
+    // 채운 서명은 비율 고정
+    if (annotation.style?.lockAspectRatio) {
+      const aspectRatio = bbox.width / bbox.height;
+      if (Math.abs(dWidth) > Math.abs(dHeight)) {
+        newHeight = newWidth / aspectRatio;
+        if (adjustedDY !== 0) adjustedDY = bbox.height - newHeight;
+      } else {
+        newWidth = newHeight * aspectRatio;
+        if (adjustedDX !== 0) adjustedDX = bbox.width - newWidth;
+      }
+    }
+
+    onUpdate({
+      bbox: resizeRotatedBBox(bbox, {
+        x: bbox.x + adjustedDX,
+        y: bbox.y + adjustedDY,
+        width: newWidth,
+        height: newHeight,
+      }, annotation.rotation ?? 0),
+    });
+  };
+
+  /** 자리 표시 채우기 (고른 서명이 없으면 서명 다이얼로그) */
+  const handleFill = () => {
+    const { signatures, activeId, openDialog } = useSignatureStore.getState();
+    const signature = signatures.find(s => s.id === activeId && s.kind === annotation.kind)
+      ?? signatures.find(s => s.kind === annotation.kind);
+    if (signature) fillPlaceholder(annotation.id, signature);
+    else openDialog();
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: bbox.x * scale,
+        top: bbox.y * scale,
+        width: bbox.width * scale,
+        height: bbox.height * scale,
+        cursor: isSelected ? 'grab' : 'pointer',
+        outline: isSelected
+          ? '2px solid #3B82F6'
+          : isHovered
+            ? '2px dashed #93C5FD'
+            : 'none',
+        outlineOffset: '2px',
+      }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onSelect();
+        onDragStart?.(annotation, { x: e.clientX, y: e.clientY });
+      }}
+      onDoubleClick={placeholder ? handleFill : undefined}
+      onMouseEnter={onHover}
+      onMouseLeave={onHoverEnd}
+      title={placeholder ? t('signature.placeholderHint') : undefined}
+    >
+      {placeholder
+        ? <SignaturePlaceholder annotation={annotation} scale={scale} />
+        : <SignatureFace annotation={annotation} />}
+
+      {isSelected && (
+        <ResizeHandles
+          width={bbox.width * scale}
+          height={bbox.height * scale}
+          onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * SnapGuides Component - 스냅 중 정렬선과 같은 간격 표시
+ */
+
+import type { SnapLine, SpacingMark } from '../../../core/annotations/snapping';
+
+interface SnapGuidesProps {
+  lines: SnapLine[];
+  spacing: SpacingMark[];
+  scale: number;
+}
+
+const GUIDE_COLOR = '#F43F5E';
+
+export function SnapGuides({ lines, spacing, scale }: SnapGuidesProps) {
+  return (
+    <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 10000 }}>
+      {lines.map((line) => (
+        <div
+          key={`${line.axis}-${line.position}`}
+          style={line.axis === 'x' ? {
+            position: 'absolute',
+            left: line.position * scale,
+            top: line.start * scale,
+            width: 0,
+            height: (line.end - line.start) * scale,
+            borderLeft: `1px solid ${GUIDE_COLOR}`,
+          } : {
+            position: 'absolute',
+            left: line.start * scale,
+            top: line.position * scale,
+            width: (line.end - line.start) * scale,
+            height: 0,
+            borderTop: `1px solid ${GUIDE_COLOR}`,
+          }}
+        />
+      ))}
+
+      {spacing.map((mark, i) => {
+        const length = (mark.end - mark.start) * scale;
+        const horizontal = mark.axis === 'x';
+        return (
+          <div
+            key={`spacing-${i}`}
+            style={{
+              position: 'absolute',
+              left: horizontal ? mark.start * scale : mark.cross * scale - 4,
+              top: horizontal ? mark.cross * scale - 4 : mark.start * scale,
+              width: horizontal ? length : 8,
+              height: horizontal ? 8 : length,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              flexDirection: horizontal ? 'row' : 'column',
+              // 양 끝 막대 + 가운데 선
+              borderLeft: horizontal ? `1px solid ${GUIDE_COLOR}` : undefined,
+              borderRight: horizontal ? `1px solid ${GUIDE_COLOR}` : undefined,
+              borderTop: horizontal ? undefined : `1px solid ${GUIDE_COLOR}`,
+              borderBottom: horizontal ? undefined : `1px solid ${GUIDE_COLOR}`,
+              boxSizing: 'border-box',
+            }}
+          >
+            <div style={horizontal
+              ? { flex: 1, height: 0, borderTop: `1px dashed ${GUIDE_COLOR}` }
+              : { flex: 1, width: 0, borderLeft: `1px dashed ${GUIDE_COLOR}` }}
+            />
+            <span style={{
+              position: 'absolute',
+              fontSize: '9px',
+              lineHeight: '12px',
+              padding: '0 3px',
+              borderRadius: '2px',
+              color: 'white',
+              backgroundColor: GUIDE_COLOR,
+              whiteSpace: 'nowrap',
+              transform: horizontal ? 'translateY(-10px)' : 'translateX(14px)',
+            }}>
+              {Math.round(mark.end - mark.start)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * StampAnnotation Component - 스탬프 렌더링
+ * 텍스트 스탬프는 stampFrame 테두리(SVG) 위에 가운데 정렬 텍스트를, 이미지 스탬프(직인/도장)는 이미지를 그린다.
+ * StampFace는 스탬프 라이브러리 미리보기에서도 쓴다.
+ */
+
+import type { StampAnnotation } from '../../../core/model/types';
+import { isImageStamp, stampColor, stampFrame, stampLabel } from '../../../core/stamps/stampAppearance';
+import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
+
+interface StampFaceProps {
+  annotation: StampAnnotation;
+  scale: number;
+}
+
+/** 스탬프 모양 (bbox 크기 × scale을 채움) */
+export function StampFace({ annotation, scale }: StampFaceProps) {
+  const { bbox, style } = annotation;
+
+  if (isImageStamp(annotation)) {
+    return (
+      <img
+        src={annotation.imageData}
+        alt={annotation.content}
+        draggable={false}
+        style={{ display: 'block', width: '100%', height: '100%', pointerEvents: 'none', userSelect: 'none' }}
+      />
+    );
+  }
+
+  const frame = stampFrame(annotation);
+  const color = stampColor(annotation);
+
+  return (
+    <>
+      {/* bbox 좌표를 그대로 viewBox로 써서 출력과 같은 경로를 그린다 */}
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={`${bbox.x} ${bbox.y} ${bbox.width} ${bbox.height}`}
+        preserveAspectRatio="none"
+        style={{ position: 'absolute', inset: 0, overflow: 'visible' }}
+      >
+        <path d={frame.outline} fill={style?.fill && style.fill !== 'transparent' ? style.fill : 'none'} />
+        {frame.strokes.map((d, i) => (
+          <path
+            key={i}
+            d={d}
+            fill="none"
+            stroke={color}
+            strokeWidth={frame.strokeWidth}
+            strokeDasharray={frame.dashArray?.join(' ')}
+          />
+        ))}
+      </svg>
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          textAlign: 'center',
+          color,
+          fontFamily: style?.fontFamily,
+          fontWeight: 'bold',
+          fontSize: (style?.fontSize || 12) * scale,
+          lineHeight: 1.2,
+          whiteSpace: 'pre-wrap',
+          overflow: 'hidden',
+          userSelect: 'none',
+        }}
+      >
+        {stampLabel(annotation)}
+      </div>
+    </>
+  );
+}
+
+interface StampAnnotationProps {
+  annotation: StampAnnotation;
+  isSelected: boolean;
+  isHovered: boolean;
+  scale: number;
+  onSelect: () => void;
+  onUpdate: (updates: Partial<StampAnnotation>) => void;
+  onHover: () => void;
+  onHoverEnd: () => void;
+  onDragStart?: (annotation: StampAnnotation, startPos: { x: number; y: number }) => void;
+}
+
+export function StampAnnotationComponent({
+  annotation,
+  isSelected,
+  isHovered,
+  scale,
+  onSelect,
+  onUpdate,
+  onHover,
+  onHoverEnd,
+  onDragStart,
+}: StampAnnotationProps) {
+  const { bbox } = annotation;
+
+  const handleResize = (dWidth: number, dHeight: number, dX: number, dY: number) => {
+    let newWidth = Math.max(10 / scale, bbox.width + dWidth / scale);
+    let newHeight = Math.max(10 / scale, bbox.height + dHeight / scale);
+    let adjustedDX = dX / scale;
+    let adjustedDY = dY / scale;
+
+    // 직인 이미지는 비율 고정
+    if (annotation.style?.lockAspectRatio) {
+      const aspectRatio = bbox.width / bbox.height;
+      if (Math.abs(dWidth) > Math.abs(dHeight)) {
+        newHeight = newWidth / aspectRatio;
+        if (adjustedDY !== 0) adjustedDY = bbox.height - newHeight;
+      } else {
+        newWidth = newHeight * aspectRatio;
+        if (adjustedDX !== 0) adjustedDX = bbox.width - newWidth;
+      }
+    }
+
+    onUpdate({
+      bbox: resizeRotatedBBox(bbox, {
+        x: bbox.x + adjustedDX,
+        y: bbox.y + adjustedDY,
+        width: newWidth,
+        height: newHeight,
+      }, annotation.rotation ?? 0),
+    });
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: bbox.x * scale,
+        top: bbox.y * scale,
+        width: bbox.width * scale,
+        height: bbox.height * scale,
+        cursor: isSelected ? 'grab' : 'pointer',
+        outline: isSelected
+          ? '2px solid #3B82F6'
+          : isHovered
+            ? '2px dashed #93C5FD'
+            : 'none',
+        outlineOffset: '2px',
+      }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onSelect();
+        onDragStart?.(annotation, { x: e.clientX, y: e.clientY });
+      }}
+      onMouseEnter={onHover}
+      onMouseLeave={onHoverEnd}
+      title={annotation.template && annotation.template !== annotation.content ? annotation.template : undefined}
+    >
+      <StampFace annotation={annotation} scale={scale} />
+
+      {isSelected && (
+        <ResizeHandles
+          width={bbox.width * scale}
+          height={bbox.height * scale}
+          onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
+        />
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@
 import React, { useState, useCallback, useRef } from 'react';
 import type { StarAnnotation as StarAnnotationType } from '../../../types/annotation';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
+import { beginAnnotationGesture } from './annotationGesture';
 
 interface StarAnnotationProps {
   annotation: StarAnnotationType;
@@ -73,14 +75,14 @@ export function StarAnnotationComponent({
   // Resize handler
   const handleResize = useCallback((dWidth: number, dHeight: number, dX: number, dY: number) => {
     onUpdate({
-      bbox: {
+      bbox: resizeRotatedBBox(bbox, {
         x: bbox.x + dX / scale,
         y: bbox.y + dY / scale,
         width: Math.max(20 / scale, bbox.width + dWidth / scale),
         height: Math.max(20 / scale, bbox.height + dHeight / scale),
-      },
+      }, annotation.rotation ?? 0),
     });
-  }, [bbox, scale, onUpdate]);
+  }, [bbox, scale, onUpdate, annotation.rotation]);
 
   // Inner radius handle drag
   const handleInnerRadiusDrag = useCallback((e: React.PointerEvent) => {
@@ -108,6 +110,7 @@ export function StarAnnotationComponent({
 
     window.addEventListener('pointermove', handleMove);
     window.addEventListener('pointerup', handleUp);
+    beginAnnotationGesture('주석 모양 변경');
   }, [centerX, centerY, scaledBBox.width, scaledBBox.height, strokeWidth, onUpdate]);
 
   // Point count handle drag (vertical drag changes count)
@@ -133,6 +136,7 @@ export function StarAnnotationComponent({
 
     window.addEventListener('pointermove', handleMove);
     window.addEventListener('pointerup', handleUp);
+    beginAnnotationGesture('주석 모양 변경');
   }, [numPoints, onUpdate]);
 
   // Handle positions
@@ -205,6 +209,8 @@ export function StarAnnotationComponent({
           width={scaledBBox.width}
           height={scaledBBox.height}
           onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
         />
       )}
 
@@ -3,13 +3,22 @@
  *
  * - 비선택 시: SVG로 테두리+텍스트 (가벼움)
  * - 선택 시: HTML contentEditable 셀 오버레이 + 리사이즈 핸들
- * - 다중 셀 선택: Ctrl+Click / 드래그
+ * - 셀 범위 선택: Shift/Ctrl+Click (TableStore에 두고 속성 패널이 행/열, 병합, 테두리 편집)
+ * - 수식 셀: 편집 중에는 수식, 평소에는 계산 결과 표시
+ * - 범위 선택 중 붙여넣기: CSV/TSV 텍스트를 셀에 채움 (표가 모자라면 늘림)
  */
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import type { TableAnnotation as TableAnnotationType } from '../../../types/annotation';
 import { TableResizeHandles } from './TableResizeHandles';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
+import { cellRange, expandRange, gridLinesPath, layoutTableCells, layoutTableGrid, tableAnchorGrid } from '../../../core/table/tableModel';
+import type { CellPosition } from '../../../core/table/tableFormula';
+import { useTableStore } from '../../../state/stores/TableStore';
+import { useTableEditing } from '../../hooks/useTableEditing';
+
+const ORIGIN = { x: 0, y: 0 };
 
 interface TableAnnotationProps {
     annotation: TableAnnotationType;
@@ -36,8 +45,12 @@ export function TableAnnotationComponent({
 }: TableAnnotationProps) {
     const [localHovered, setLocalHovered] = useState(false);
     const [editingCell, setEditingCell] = useState<{ row: number; col: number } | null>(null);
-    const [selectedCells, setSelectedCells] = useState<Set<string>>(new Set());
     const cellRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+    /** Shift/Ctrl+Click 범위의 기준 셀 */
+    const anchorCell = useRef<CellPosition | null>(null);
+    const { range, pasteText } = useTableEditing(annotation.id);
+    const selectCells = useTableStore(s => s.selectCells);
+    const clearCells = useTableStore(s => s.clearCells);
 
     const { bbox, rows, cols, colWidths, rowHeights, cells, borderWidth, borderColor } = annotation;
 
@@ -58,32 +71,28 @@ export function TableAnnotationComponent({
         e.stopPropagation();
         onSelect();
 
-        if (e.ctrlKey || e.metaKey) {
-            // Multi-select toggle
-            const key = `${row}-${col}`;
-            setSelectedCells(prev => {
-                const next = new Set(prev);
-                if (next.has(key)) next.delete(key);
-                else next.add(key);
-                return next;
-            });
-            setEditingCell(null);
+        const cell = { row, col };
+        if ((e.shiftKey || e.ctrlKey || e.metaKey) && anchorCell.current) {
+            // Range select from the anchor cell
+            selectCells(annotation.id, expandRange(annotation, cellRange(anchorCell.current, cell)));
         } else {
-            // Single click: select cell only
-            setSelectedCells(new Set([`${row}-${col}`]));
-            setEditingCell(null);
+            // Single click: select cell only (merged cell → whole merge)
+            anchorCell.current = cell;
+            selectCells(annotation.id, expandRange(annotation, cellRange(cell)));
         }
-    }, [onSelect]);
+        setEditingCell(null);
+    }, [onSelect, selectCells, annotation]);
 
     const handleCellDoubleClick = useCallback((row: number, col: number, e: React.MouseEvent) => {
         e.stopPropagation();
         // Double click: enter inline editing
+        anchorCell.current = { row, col };
         setEditingCell({ row, col });
-        setSelectedCells(new Set([`${row}-${col}`]));
-    }, []);
+        selectCells(annotation.id, expandRange(annotation, cellRange({ row, col })));
+    }, [selectCells, annotation]);
 
     const handleCellBlur = useCallback((row: number, col: number, content: string) => {
-        if (cells[row]?.[col]?.content !== content) {
+        if (cells[row]?.[col] && cells[row][col].content !== content) {
             const newCells = cells.map((r, ri) =>
                 r.map((c, ci) =>
                     ri === row && ci === col ? { ...c, content } : c
@@ -93,21 +102,28 @@ export function TableAnnotationComponent({
         }
     }, [cells, onUpdate]);
 
-    const handleCellKeyDown = useCallback((e: React.KeyboardEvent, row: number, col: number) => {
+    const handleCellKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>, row: number, col: number) => {
         if (e.key === 'Tab') {
             e.preventDefault();
-            const nextCol = e.shiftKey ? col - 1 : col + 1;
-            if (nextCol >= 0 && nextCol < cols) {
-                setEditingCell({ row, col: nextCol });
-            } else if (!e.shiftKey && row + 1 < rows) {
-                setEditingCell({ row: row + 1, col: 0 });
-            } else if (e.shiftKey && row - 1 >= 0) {
-                setEditingCell({ row: row - 1, col: cols - 1 });
+            // Commit before the editor moves (the cell re-mounts in display mode)
+            handleCellBlur(row, col, e.currentTarget.textContent || '');
+            // Next visible cell in reading order (skip cells covered by a merge)
+            const anchors = tableAnchorGrid(annotation);
+            const step = e.shiftKey ? -1 : 1;
+            for (let i = row * cols + col + step; i >= 0 && i < rows * cols; i += step) {
+                const r = Math.floor(i / cols);
+                const c = i % cols;
+                if (anchors[r][c].row === r && anchors[r][c].col === c) {
+                    anchorCell.current = { row: r, col: c };
+                    setEditingCell({ row: r, col: c });
+                    selectCells(annotation.id, expandRange(annotation, cellRange({ row: r, col: c })));
+                    break;
+                }
             }
         } else if (e.key === 'Escape') {
             setEditingCell(null);
         }
-    }, [cols, rows]);
+    }, [cols, rows, annotation, handleCellBlur, selectCells]);
 
     // Auto-focus editing cell
     useEffect(() => {
@@ -159,130 +175,136 @@ export function TableAnnotationComponent({
         const hRatio = newHeight / bbox.height;
 
         onUpdate({
-            bbox: {
+            bbox: resizeRotatedBBox(bbox, {
                 x: bbox.x + dX / scale,
                 y: bbox.y + dY / scale,
                 width: newWidth,
                 height: newHeight,
-            },
+            }, annotation.rotation ?? 0),
             colWidths: colWidths.map(w => w * wRatio),
             rowHeights: rowHeights.map(h => h * hRatio),
         });
-    }, [bbox, colWidths, rowHeights, cols, rows, scale, onUpdate]);
+    }, [bbox, colWidths, rowHeights, cols, rows, scale, onUpdate, annotation.rotation]);
 
     // Deselect cells when annotation is deselected
     useEffect(() => {
         if (!isSelected) {
             setEditingCell(null);
-            setSelectedCells(new Set());
+            anchorCell.current = null;
+            clearCells(annotation.id);
         }
-    }, [isSelected]);
+    }, [isSelected, clearCells, annotation.id]);
+
+    // Paste CSV/TSV text into the selected cells (capture: before image paste)
+    useEffect(() => {
+        if (!isSelected || !range || editingCell) return;
+        const handlePaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            const text = e.clipboardData?.getData('text/plain');
+            if (!text) return;
+            e.preventDefault();
+            pasteText(text);
+        };
+        window.addEventListener('paste', handlePaste, true);
+        return () => window.removeEventListener('paste', handlePaste, true);
+    }, [isSelected, range, editingCell, pasteText]);
 
     // ── Render cells ──
 
     const renderCells = () => {
-        const result: React.ReactNode[] = [];
-        let y = 0;
-
-        for (let r = 0; r < rows; r++) {
-            let x = 0;
-            for (let c = 0; c < cols; c++) {
-                const cell = cells[r]?.[c];
-                if (!cell) { x += (colWidths[c] || 0) * scale; continue; }
-
-                const cellW = colWidths[c] * scale;
-                const cellH = rowHeights[r] * scale;
-                const cellKey = `${r}-${c}`;
-                const isCellSelected = selectedCells.has(cellKey);
-                const isCellEditing = editingCell?.row === r && editingCell?.col === c;
-                const cellStyle = cell.style;
-
-                result.push(
-                    <div
-                        key={cellKey}
-                        ref={el => { if (el) cellRefs.current.set(cellKey, el); }}
-                        contentEditable={isCellEditing}
-                        suppressContentEditableWarning
-                        onClick={(e) => handleCellClick(r, c, e)}
-                        onDoubleClick={(e) => handleCellDoubleClick(r, c, e)}
-                        onBlur={(e) => handleCellBlur(r, c, e.currentTarget.textContent || '')}
-                        onKeyDown={(e) => handleCellKeyDown(e, r, c)}
-                        style={{
-                            position: 'absolute',
-                            left: x,
-                            top: y,
-                            width: cellW,
-                            height: cellH,
-                            padding: `${2 * scale}px ${4 * scale}px`,
-                            boxSizing: 'border-box',
-                            fontSize: cellStyle.fontSize * scale,
-                            fontFamily: cellStyle.fontFamily,
-                            fontWeight: cellStyle.fontWeight,
-                            fontStyle: cellStyle.fontStyle,
-                            textAlign: cellStyle.textAlign,
-                            color: cellStyle.color,
-                            backgroundColor: cellStyle.backgroundColor !== 'transparent'
-                                ? cellStyle.backgroundColor
-                                : undefined,
-                            opacity: cellStyle.backgroundOpacity,
-                            outline: isCellEditing ? '2px solid #3B82F6' : isCellSelected ? '2px solid #93C5FD' : 'none',
-                            outlineOffset: -2,
-                            cursor: isSelected ? 'text' : 'pointer',
-                            overflow: 'hidden',
-                            whiteSpace: 'pre-wrap',
-                            wordBreak: 'break-all',
-                            overflowWrap: 'break-word',
-                            lineHeight: 1.4,
-                            pointerEvents: 'auto',
-                        }}
-                    >
-                        {cell.content}
-                    </div>
-                );
-
-                x += cellW;
-            }
-            y += rowHeights[r] * scale;
-        }
+        return layoutTableCells(annotation, ORIGIN).map(({ row: r, col: c, box, cell, text }) => {
+            const cellKey = `${r}-${c}`;
+            const isCellEditing = editingCell?.row === r && editingCell?.col === c;
+            const cellStyle = cell.style;
+
+            return (
+                <div
+                    // Re-mount when switching between formula (editing) and value (display)
+                    key={isCellEditing ? `${cellKey}-edit` : cellKey}
+                    ref={el => { if (el) cellRefs.current.set(cellKey, el); }}
+                    contentEditable={isCellEditing}
+                    suppressContentEditableWarning
+                    onClick={(e) => handleCellClick(r, c, e)}
+                    onDoubleClick={(e) => handleCellDoubleClick(r, c, e)}
+                    onBlur={(e) => handleCellBlur(r, c, e.currentTarget.textContent || '')}
+                    onKeyDown={(e) => handleCellKeyDown(e, r, c)}
+                    style={{
+                        position: 'absolute',
+                        left: box.x * scale,
+                        top: box.y * scale,
+                        width: box.width * scale,
+                        height: box.height * scale,
+                        padding: `${2 * scale}px ${4 * scale}px`,
+                        boxSizing: 'border-box',
+                        fontSize: cellStyle.fontSize * scale,
+                        fontFamily: cellStyle.fontFamily,
+                        fontWeight: cellStyle.fontWeight,
+                        fontStyle: cellStyle.fontStyle,
+                        textAlign: cellStyle.textAlign,
+                        color: cellStyle.color,
+                        backgroundColor: cellStyle.backgroundColor !== 'transparent'
+                            ? cellStyle.backgroundColor
+                            : undefined,
+                        opacity: cellStyle.backgroundOpacity,
+                        outline: isCellEditing ? '2px solid #3B82F6' : 'none',
+                        outlineOffset: -2,
+                        cursor: isSelected ? 'text' : 'pointer',
+                        overflow: 'hidden',
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-all',
+                        overflowWrap: 'break-word',
+                        lineHeight: 1.4,
+                        pointerEvents: 'auto',
+                    }}
+                >
+                    {isCellEditing ? cell.content : text}
+                </div>
+            );
+        });
+    };
+
+    // ── Selected range ──
 
-        return result;
+    const renderRangeOutline = () => {
+        if (!range || editingCell) return null;
+        const offset = (sizes: number[], to: number) => sizes.slice(0, to).reduce((sum, v) => sum + v, 0);
+        return (
+            <div style={{
+                position: 'absolute',
+                left: offset(colWidths, range.left) * scale,
+                top: offset(rowHeights, range.top) * scale,
+                width: offset(colWidths.slice(range.left), range.right - range.left + 1) * scale,
+                height: offset(rowHeights.slice(range.top), range.bottom - range.top + 1) * scale,
+                outline: '2px solid #93C5FD',
+                outlineOffset: -2,
+                backgroundColor: 'rgba(59, 130, 246, 0.08)',
+                pointerEvents: 'none',
+            }} />
+        );
     };
 
-    // ── SVG grid lines ──
+    // ── SVG grid lines (shared layout with export: merges and per-edge borders) ──
 
     const renderGridLines = () => {
+        const grid = layoutTableGrid(annotation, ORIGIN);
         const lines: React.ReactNode[] = [];
-        const sw = borderWidth * scale;
-        const totalW = scaledBBox.width;
-        const totalH = scaledBBox.height;
-
-        // Outer border
-        lines.push(
-            <rect key="outer" x={0} y={0} width={totalW} height={totalH}
-                fill="none" stroke={borderColor} strokeWidth={sw} />
-        );
 
-        // Column lines
-        let cx = 0;
-        for (let c = 0; c < cols - 1; c++) {
-            cx += colWidths[c] * scale;
-            lines.push(
-                <line key={`col-${c}`} x1={cx} y1={0} x2={cx} y2={totalH}
-                    stroke={borderColor} strokeWidth={sw * 0.5} />
-            );
-        }
-
-        // Row lines
-        let ry = 0;
-        for (let r = 0; r < rows - 1; r++) {
-            ry += rowHeights[r] * scale;
-            lines.push(
-                <line key={`row-${r}`} x1={0} y1={ry} x2={totalW} y2={ry}
-                    stroke={borderColor} strokeWidth={sw * 0.5} />
-            );
+        if (borderWidth > 0) {
+            lines.push(grid.outer
+                ? <path key="outer" d={gridLinesPath(grid.outer)} fill="none" stroke={borderColor} strokeWidth={borderWidth} />
+                : <rect key="outer" x={0} y={0} width={bbox.width} height={bbox.height}
+                    fill="none" stroke={borderColor} strokeWidth={borderWidth} />);
+            if (grid.inner.length > 0) {
+                lines.push(<path key="inner" d={gridLinesPath(grid.inner)} fill="none" stroke={borderColor} strokeWidth={borderWidth * 0.5} />);
+            }
         }
+        grid.borders.forEach((border, i) => lines.push(
+            <path key={`border-${i}`} d={gridLinesPath(border.lines)} fill="none"
+                stroke={border.color} strokeWidth={border.width} strokeLinecap="square" />
+        ));
 
-        return lines;
+        return <g transform={`scale(${scale})`}>{lines}</g>;
     };
 
     return (
@@ -323,6 +345,9 @@ export function TableAnnotationComponent({
             {/* Cell overlay */}
             {renderCells()}
 
+            {/* Selected cell range */}
+            {isSelected && renderRangeOutline()}
+
             {/* Hover indicator */}
             {isHovered && !isSelected && (
                 <div style={{
@@ -347,6 +372,8 @@ export function TableAnnotationComponent({
                     width={scaledBBox.width}
                     height={scaledBBox.height}
                     onResize={handleResize}
+                    rotation={annotation.rotation}
+                    onRotate={(rotation) => onUpdate({ rotation })}
                 />
             )}
 
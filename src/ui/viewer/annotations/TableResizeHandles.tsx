@@ -4,6 +4,7 @@
  */
 
 import React from 'react';
+import { beginAnnotationGesture } from './annotationGesture';
 
 interface TableResizeHandlesProps {
     colWidths: number[];
@@ -41,6 +42,7 @@ export function TableResizeHandles({
 
         window.addEventListener('pointermove', handleMove);
         window.addEventListener('pointerup', handleUp);
+        beginAnnotationGesture('표 크기 조절');
     };
 
     const handleRowDrag = (e: React.PointerEvent, rowIndex: number) => {
@@ -61,6 +63,7 @@ export function TableResizeHandles({
 
         window.addEventListener('pointermove', handleMove);
         window.addEventListener('pointerup', handleUp);
+        beginAnnotationGesture('표 크기 조절');
     };
 
     // Cumulative positions
@@ -5,6 +5,7 @@
 import { useState, useRef, useEffect } from 'react';
 import type { TextAnnotation as TextAnnotationType } from '../../../core/model/types';
 import { ResizeHandles } from './ResizeHandles';
+import { resizeRotatedBBox } from '../../../core/annotations/annotationRotation';
 
 interface TextAnnotationProps {
   annotation: TextAnnotationType;
@@ -88,12 +89,12 @@ export function TextAnnotationComponent({
     const dY_scaled = dY / scale;
 
     onUpdate({
-      bbox: {
+      bbox: resizeRotatedBBox(bbox, {
         x: bbox.x + dX_scaled,
         y: bbox.y + dY_scaled,
         width: Math.max(20 / scale, bbox.width + dW_scaled),
         height: Math.max(20 / scale, bbox.height + dH_scaled),
-      },
+      }, annotation.rotation ?? 0),
     });
   };
 
@@ -219,6 +220,8 @@ export function TextAnnotationComponent({
           width={scaledBBox.width}
           height={scaledBBox.height}
           onResize={handleResize}
+          rotation={annotation.rotation}
+          onRotate={(rotation) => onUpdate({ rotation })}
         />
       )}
     </div>
@@ -0,0 +1,105 @@
+/**
+ * TextMarkupAnnotation Component - 텍스트 선택 마크업 렌더링
+ * 하이라이트(quads가 있는 HighlightAnnotation), 밑줄, 물결 밑줄, 취소선을
+ * 줄별 사각형(quad) 단위로 그린다. 크기 조절 없이 이동만 지원한다.
+ */
+
+import React, { useState } from 'react';
+import type { HighlightAnnotation, TextMarkupAnnotation } from '../../../types/annotation';
+import { markupLineWidth, markupLineY, squigglyPoints } from '../../../core/pdf/textLayer';
+
+interface TextMarkupAnnotationProps {
+    annotation: HighlightAnnotation | TextMarkupAnnotation;
+    isSelected: boolean;
+    scale: number;
+    onSelect: () => void;
+    onPointerDown?: (e: React.PointerEvent) => void;
+}
+
+export function TextMarkupAnnotationComponent({
+    annotation,
+    isSelected,
+    scale,
+    onSelect,
+    onPointerDown,
+}: TextMarkupAnnotationProps) {
+    const [isHovered, setIsHovered] = useState(false);
+    const quads = annotation.quads ?? [annotation.bbox];
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onSelect();
+        onPointerDown?.(e);
+    };
+
+    const renderMarkup = (quad: typeof quads[number], i: number) => {
+        if (annotation.type === 'highlight') {
+            return (
+                <rect
+                    key={i}
+                    x={quad.x * scale}
+                    y={quad.y * scale}
+                    width={quad.width * scale}
+                    height={quad.height * scale}
+                    fill={annotation.style?.fill || '#FFFF00'}
+                    fillOpacity={annotation.style?.opacity || annotation.opacity || 0.3}
+                />
+            );
+        }
+
+        const stroke = annotation.style?.stroke || '#E53935';
+        const strokeWidth = markupLineWidth(quad) * scale;
+        const opacity = annotation.style?.opacity ?? 1;
+
+        if (annotation.type === 'squiggly') {
+            const points = squigglyPoints(quad).map(p => `${p.x * scale},${p.y * scale}`).join(' ');
+            return (
+                <polyline key={i} points={points} fill="none" stroke={stroke} strokeWidth={strokeWidth}
+                    strokeOpacity={opacity} strokeLinejoin="round" />
+            );
+        }
+
+        const y = markupLineY(quad, annotation.type) * scale;
+        return (
+            <line key={i} x1={quad.x * scale} y1={y} x2={(quad.x + quad.width) * scale} y2={y}
+                stroke={stroke} strokeWidth={strokeWidth} strokeOpacity={opacity} />
+        );
+    };
+
+    return (
+        <svg
+            style={{
+                position: 'absolute',
+                left: 0,
+                top: 0,
+                width: '100%',
+                height: '100%',
+                overflow: 'visible',
+                pointerEvents: 'none',
+                mixBlendMode: annotation.type === 'highlight' ? 'multiply' : 'normal',
+            }}
+        >
+            {quads.map(renderMarkup)}
+
+            {/* Hit area + hover/selection outline (quad별) */}
+            {quads.map((quad, i) => (
+                <rect
+                    key={`hit-${i}`}
+                    x={quad.x * scale - 1}
+                    y={quad.y * scale - 1}
+                    width={quad.width * scale + 2}
+                    height={quad.height * scale + 2}
+                    fill="transparent"
+                    stroke={isSelected ? '#3B82F6' : isHovered ? '#93C5FD' : 'none'}
+                    strokeWidth={isSelected ? 1.5 : 1}
+                    strokeDasharray={isSelected ? undefined : '3 2'}
+                    style={{ pointerEvents: 'all', cursor: isSelected ? 'move' : 'pointer' }}
+                    onPointerDown={handlePointerDown}
+                    onMouseEnter={() => setIsHovered(true)}
+                    onMouseLeave={() => setIsHovered(false)}
+                />
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,21 @@
+/**
+ * Annotation Gesture - 포인터 드래그 한 번의 주석 변경을 히스토리 항목 하나로 묶음
+ *
+ * 핸들 드래그는 pointermove마다 주석을 바꾸므로, 누를 때 트랜잭션을 열고
+ * 놓거나(pointerup) 취소될 때(pointercancel) 닫는다.
+ * 핸들이 자기 pointerup 처리기를 먼저 등록한 뒤에 호출해야 마지막 변경까지 함께 묶인다.
+ */
+
+import { useHistoryStore } from '../../../state/stores/HistoryStore';
+
+export function beginAnnotationGesture(description: string): void {
+  useHistoryStore.getState().beginTransaction(description);
+
+  const end = () => {
+    window.removeEventListener('pointerup', end);
+    window.removeEventListener('pointercancel', end);
+    useHistoryStore.getState().commitTransaction();
+  };
+  window.addEventListener('pointerup', end);
+  window.addEventListener('pointercancel', end);
+}
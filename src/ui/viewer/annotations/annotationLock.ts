@@ -0,0 +1,9 @@
+/**
+ * Annotation Lock Context - 잠긴 주석의 편집 핸들 숨김
+ *
+ * AnnotationLayer가 잠긴 주석을 감싸 true를 제공하면 ResizeHandles가 그리지 않는다.
+ */
+
+import { createContext } from 'react';
+
+export const AnnotationLockContext = createContext(false);
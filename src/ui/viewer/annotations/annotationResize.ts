@@ -0,0 +1,15 @@
+/**
+ * Annotation Resize Context - 크기 조절 시작/끝 알림
+ *
+ * ResizeHandles가 드래그 시작과 끝을 알리면 AnnotationManager가 그 사이의 bbox 변경을
+ * 격자/안내선/다른 주석에 붙인다.
+ */
+
+import { createContext } from 'react';
+
+export interface AnnotationResizeSession {
+  begin: () => void;
+  end: () => void;
+}
+
+export const AnnotationResizeContext = createContext<AnnotationResizeSession | null>(null);
@@ -9,6 +9,11 @@ import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { PageContextMenu } from '../PageContextMenu';
 import { usePageStore } from '../../../state/stores/PageStore';
 import { usePDFStore } from '../../../state/stores/PDFStore';
+import { useAnnotationStore } from '../../../state/stores/AnnotationStore';
+import { runPageCommand } from '../../../state/stores/pageHistory';
+import { usePageGeometryActions } from '../../hooks/usePageGeometryActions';
+import { PageSizeDialog } from '../../dialogs/PageSizeDialog';
+import { PDF_RENDER_ANNOTATION_MODE } from '../../../core/pdf/pdfLoader';
 import { useTranslation } from '../../../i18n';
 
 interface ThumbnailItemProps {
@@ -36,30 +41,38 @@ export const ThumbnailItem = React.memo(function ThumbnailItem({
   const [isLoading, setIsLoading] = useState(true);
   const [showContextMenu, setShowContextMenu] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
+  const [showSizeDialog, setShowSizeDialog] = useState(false);
   const itemRef = useRef<HTMLDivElement>(null);
   const updatePage = usePageStore(state => state.updatePage);
   const globalRotation = usePDFStore(state => state.globalRotation);
+  const { resizePages, splitPage } = usePageGeometryActions();
   const { t } = useTranslation();
 
   const handleRotateRight = useCallback(() => {
     const newRotation = ((page.rotation + 90) % 360) as 0 | 90 | 180 | 270;
     // Swap width and height on 90/270 rotation changes
-    updatePage(page.id, {
+    runPageCommand('페이지 회전', () => updatePage(page.id, {
       rotation: newRotation,
       width: page.height,
       height: page.width,
-    });
+    }));
   }, [page.id, page.rotation, page.width, page.height, updatePage]);
 
   const handleRotateLeft = useCallback(() => {
     const newRotation = ((page.rotation + 270) % 360) as 0 | 90 | 180 | 270;
-    updatePage(page.id, {
+    runPageCommand('페이지 회전', () => updatePage(page.id, {
       rotation: newRotation,
       width: page.height,
       height: page.width,
-    });
+    }));
   }, [page.id, page.rotation, page.width, page.height, updatePage]);
 
+  // 자르기: 페이지로 이동 후 자르기 도구
+  const handleCrop = useCallback(() => {
+    usePageStore.getState().setCurrentPage(page.id);
+    useAnnotationStore.getState().setActiveTool('crop');
+  }, [page.id]);
+
   // 썸네일 생성
   useEffect(() => {
     const generateThumbnailAsync = async () => {
@@ -80,7 +93,8 @@ export const ThumbnailItem = React.memo(function ThumbnailItem({
             await pdfPage.render({
               canvasContext: context,
               viewport: viewport,
-              canvas: canvas
+              canvas: canvas,
+              annotationMode: PDF_RENDER_ANNOTATION_MODE,
             }).promise;
 
             const thumbnailData = canvas.toDataURL('image/png');
@@ -220,6 +234,20 @@ export const ThumbnailItem = React.memo(function ThumbnailItem({
           }}
           onRotateRight={() => handleRotateRight()}
           onRotateLeft={() => handleRotateLeft()}
+          onCrop={handleCrop}
+          onResize={() => setShowSizeDialog(true)}
+          onSplit={splitPage}
+        />
+      )}
+
+      {/* 페이지 크기 */}
+      {showSizeDialog && (
+        <PageSizeDialog
+          onApply={(request, scope) => {
+            const pageIds = scope === 'all' ? usePageStore.getState().pages.map(p => p.id) : [page.id];
+            resizePages(pageIds, request);
+          }}
+          onClose={() => setShowSizeDialog(false)}
         />
       )}
     </>
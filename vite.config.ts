@@ -27,7 +27,7 @@ export default defineConfig({
           'icons': ['phosphor-react'],
           'pdf-viewer': ['pdfjs-dist'],
           'pdf-editor': ['pdf-lib'],
-          'ocr': ['tesseract.js', '@zxing/browser'],
+          'ocr': ['tesseract.js', '@zxing/browser', '@zxing/library'],
         },
       },
     },